@@ -18,6 +18,11 @@ import { ReviewsModule } from './modules/reviews/reviews.module';
 import { WalletModule } from './modules/wallet/wallet.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
 import { AppealsModule } from './modules/appeals/appeals.module';
+import { ReconciliationModule } from './modules/reconciliation/reconciliation.module';
+import { SuspenseModule } from './modules/suspense/suspense.module';
+import { FeesModule } from './modules/fees/fees.module';
+import { StatementsModule } from './modules/statements/statements.module';
+import { LinksModule } from './modules/links/links.module';
 
 @Module({
   imports: [
@@ -67,6 +72,11 @@ import { AppealsModule } from './modules/appeals/appeals.module';
     WalletModule,
     NotificationsModule,
     AppealsModule,
+    ReconciliationModule,
+    SuspenseModule,
+    FeesModule,
+    StatementsModule,
+    LinksModule,
   ],
   providers: [
     {
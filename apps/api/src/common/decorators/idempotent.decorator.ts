@@ -0,0 +1,13 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { IdempotencyInterceptor, IDEMPOTENCY_KEY_HEADER } from '../interceptors/idempotency.interceptor';
+
+export const Idempotent = () =>
+  applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      required: false,
+      description: 'Unique key of this operation; retries with the same key return the original response',
+    }),
+  );
@@ -0,0 +1,131 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  BadRequestException,
+  ConflictException,
+  ServiceUnavailableException,
+  Logger,
+} from '@nestjs/common';
+import { Observable, catchError, from, mergeMap, of, throwError } from 'rxjs';
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { Prisma } from '@tam/prisma-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUserData } from '../decorators/current-user.decorator';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// Stored responses are replayed for this long, then the key can be reused
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+// Repeats of a request still being processed are told to come back after this long
+const IN_FLIGHT_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * Makes a POST endpoint safe to retry. The first request with a given
+ * Idempotency-Key is executed and its response stored; repeats with the same
+ * key and body get the stored response without executing again. A repeat
+ * that arrives while the first request is still running gets a 503 with
+ * Retry-After, so the client retries until the stored response is replayed.
+ * Requests without the header are passed through unchanged.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+    const user = request.user as CurrentUserData | undefined;
+
+    if (key === undefined || !user) {
+      return next.handle();
+    }
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(`${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`);
+    }
+
+    const requestHash = createHash('sha256')
+      .update(`${request.method} ${request.originalUrl}\n${JSON.stringify(request.body ?? {})}`)
+      .digest('hex');
+
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId: user.id, key } },
+    });
+
+    if (existing && existing.expiresAt > new Date()) {
+      if (existing.requestHash !== requestHash) {
+        throw new ConflictException(`${IDEMPOTENCY_KEY_HEADER} was already used for a different request`);
+      }
+      if (!existing.completedAt) {
+        this.stillProcessing(context);
+      }
+
+      context.switchToHttp().getResponse<Response>().setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return of(existing.responseBody);
+    }
+
+    if (existing) {
+      await this.prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+    }
+
+    let recordId: string;
+    try {
+      const record = await this.prisma.idempotencyKey.create({
+        data: {
+          userId: user.id,
+          key,
+          requestHash,
+          expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+        },
+      });
+      recordId = record.id;
+    } catch (error) {
+      // A concurrent request with the same key created the record first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        this.stillProcessing(context);
+      }
+      throw error;
+    }
+
+    return next.handle().pipe(
+      mergeMap((body) => from(this.complete(recordId, body)).pipe(mergeMap(() => of(body)))),
+      // Failed requests are not stored, so the client can retry them with the same key
+      catchError((error) => from(this.release(recordId)).pipe(mergeMap(() => throwError(() => error)))),
+    );
+  }
+
+  private stillProcessing(context: ExecutionContext): never {
+    context.switchToHttp().getResponse<Response>().setHeader('Retry-After', String(IN_FLIGHT_RETRY_AFTER_SECONDS));
+    throw new ServiceUnavailableException(`A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`);
+  }
+
+  private async complete(id: string, body: unknown): Promise<void> {
+    try {
+      await this.prisma.idempotencyKey.update({
+        where: { id },
+        data: {
+          completedAt: new Date(),
+          responseBody: body === undefined || body === null
+            ? Prisma.JsonNull
+            : (JSON.parse(JSON.stringify(body)) as Prisma.InputJsonValue),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to store idempotent response ${id}`, error);
+    }
+  }
+
+  private async release(id: string): Promise<void> {
+    try {
+      await this.prisma.idempotencyKey.deleteMany({ where: { id } });
+    } catch (error) {
+      this.logger.error(`Failed to release idempotency key ${id}`, error);
+    }
+  }
+}
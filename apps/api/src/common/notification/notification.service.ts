@@ -16,12 +16,21 @@ const NOTIFICATION_TITLES: Record<NotificationType, string> = {
   DEAL_CANCELLED: 'Заявка отменена',
   DEAL_POSTED: 'Реклама размещена',
   DEAL_AUTO_RELEASED: 'Средства выплачены',
+  DEAL_PARTIALLY_RELEASED: 'Выплата по просмотрам',
   DEAL_DISPUTED: 'Открыт спор',
   DEAL_RESOLVED_RELEASE: 'Спор разрешён',
   DEAL_RESOLVED_REFUND: 'Спор разрешён',
   DEAL_EXPIRED: 'Заявка истекла',
+  DEAL_COUNTER_OFFER: 'Встречное предложение',
+  DEAL_OFFER_ACCEPTED: 'Предложение принято',
+  RECURRING_DEAL_REQUESTED: 'Новая серия размещений',
+  RECURRING_DEAL_APPROVED: 'Серия размещений одобрена',
+  RECURRING_DEAL_PAUSED: 'Серия размещений приостановлена',
+  RECURRING_DEAL_CANCELLED: 'Серия размещений отменена',
+  RECURRING_DEAL_FAILED: 'Сделка серии не создана',
   CHANNEL_APPROVED: 'Канал одобрен',
   CHANNEL_REJECTED: 'Канал отклонён',
+  SAVED_SEARCH_MATCHES: 'Новые каналы по сохранённому поиску',
   PLACEMENT_REQUESTED: 'Новая заявка на размещение',
   PLACEMENT_APPROVED: 'Размещение одобрено',
   PLACEMENT_REJECTED: 'Размещение отклонено',
@@ -33,15 +42,30 @@ const NOTIFICATION_TITLES: Record<NotificationType, string> = {
   CONTENT_SUBMITTED: 'Контент отправлен',
   CONTENT_APPROVED: 'Контент одобрен',
   CONTENT_REJECTED: 'Контент отклонён',
+  CONTENT_SUBMISSION_REMINDER: 'Срок отправки контента',
+  CONTENT_REVIEW_REMINDER: 'Срок проверки контента',
+  CONTENT_DEADLINE_MISSED: 'Контент не отправлен',
+  CONTENT_AUTO_APPROVED: 'Контент одобрен автоматически',
   DEAL_MESSAGE: 'Новое сообщение',
   CAMPAIGN_STATUS_CHANGED: 'Статус кампании изменён',
   CAMPAIGN_BUDGET_LOW: 'Бюджет кампании заканчивается',
+  RECONCILIATION_MISMATCH: 'Расхождение баланса кошелька',
+  WITHDRAWAL_CONFIRMATION: 'Подтвердите вывод',
+  WITHDRAWAL_REJECTED: 'Вывод отклонён',
+  WITHDRAWAL_EXPIRED: 'Вывод отменён',
+  WALLET_CHANGED: 'Кошелёк изменён',
 };
 
+function formatLockedUntil(lockedUntil?: string): string {
+  return lockedUntil
+    ? new Date(lockedUntil).toLocaleString('ru-RU', { timeZone: 'UTC' }) + ' UTC'
+    : '?';
+}
+
 function buildMessageText(type: NotificationType, data: NotificationJobData['data']): string {
   const channel = data.channelTitle ?? 'канал';
   const folder = data.folderTitle ?? 'папка';
-  const amount = data.amount ? `${data.amount} TON` : '';
+  const amount = data.amount ? `${data.amount} ${data.currency ?? 'TON'}` : '';
   const reason = data.reason ?? '';
   const campaignTitle = data.campaignTitle ?? 'кампания';
 
@@ -52,12 +76,21 @@ function buildMessageText(type: NotificationType, data: NotificationJobData['dat
     case 'DEAL_CANCELLED': return `Рекламодатель отменил заявку на рекламу в ${channel}`;
     case 'DEAL_POSTED': return `Реклама размещена в ${channel}`;
     case 'DEAL_AUTO_RELEASED': return `Сделка по ${channel} завершена. Средства (${amount}) выплачены`;
+    case 'DEAL_PARTIALLY_RELEASED': return `Реклама в ${channel} набрала ${data.views ?? 0} из ${data.minViews ?? 0} просмотров. Выплачено ${amount}, возвращено рекламодателю ${data.refundAmount ?? '0'} ${data.currency ?? 'TON'}`;
     case 'DEAL_DISPUTED': return `Открыт спор по сделке в ${channel}${reason ? `. Причина: ${reason}` : ''}`;
     case 'DEAL_RESOLVED_RELEASE': return `Спор разрешён. Средства выплачены владельцу канала`;
     case 'DEAL_RESOLVED_REFUND': return `Спор разрешён. Средства возвращены рекламодателю`;
     case 'DEAL_EXPIRED': return `Заявка на рекламу в ${channel} истекла`;
+    case 'DEAL_COUNTER_OFFER': return `Встречное предложение по рекламе в ${channel}: ${amount}`;
+    case 'DEAL_OFFER_ACCEPTED': return `Предложение по рекламе в ${channel} принято. Сделка одобрена на ${amount}`;
+    case 'RECURRING_DEAL_REQUESTED': return `Новая заявка на серию размещений в ${channel}: ${amount} за пост`;
+    case 'RECURRING_DEAL_APPROVED': return `Серия размещений в ${channel} одобрена. Сделки будут создаваться по расписанию`;
+    case 'RECURRING_DEAL_PAUSED': return `Серия размещений в ${channel} приостановлена${reason ? `. Причина: ${reason}` : ''}`;
+    case 'RECURRING_DEAL_CANCELLED': return `Серия размещений в ${channel} отменена${reason ? `. Причина: ${reason}` : ''}`;
+    case 'RECURRING_DEAL_FAILED': return `Не удалось создать очередную сделку серии в ${channel}${reason ? `: ${reason}` : ''}. Серия приостановлена`;
     case 'CHANNEL_APPROVED': return `Канал ${channel} одобрен и доступен на маркетплейсе`;
     case 'CHANNEL_REJECTED': return `Канал ${channel} отклонён${reason ? `. Причина: ${reason}` : ''}`;
+    case 'SAVED_SEARCH_MATCHES': return `По поиску «${data.savedSearchName ?? ''}» новых или подешевевших каналов: ${data.matchCount ?? 0}`;
     case 'PLACEMENT_REQUESTED': return `Новая заявка на размещение в ${folder}`;
     case 'PLACEMENT_APPROVED': return `Размещение в ${folder} одобрено`;
     case 'PLACEMENT_REJECTED': return `Размещение в ${folder} отклонено${reason ? `. Причина: ${reason}` : ''}`;
@@ -69,9 +102,18 @@ function buildMessageText(type: NotificationType, data: NotificationJobData['dat
     case 'CONTENT_SUBMITTED': return `Контент для рекламы в ${channel} отправлен на проверку`;
     case 'CONTENT_APPROVED': return `Контент для рекламы в ${channel} одобрен`;
     case 'CONTENT_REJECTED': return `Контент для рекламы в ${channel} отклонён${reason ? `. Причина: ${reason}` : ''}`;
+    case 'CONTENT_SUBMISSION_REMINDER': return `Отправьте контент для рекламы в ${channel} до ${formatLockedUntil(data.deadline)}, иначе сделка будет отменена`;
+    case 'CONTENT_REVIEW_REMINDER': return `Проверьте контент для рекламы в ${channel} до ${formatLockedUntil(data.deadline)}, иначе он будет одобрен автоматически`;
+    case 'CONTENT_DEADLINE_MISSED': return `Контент для рекламы в ${channel} не отправлен вовремя. Сделка отменена, средства (${amount}) возвращены рекламодателю`;
+    case 'CONTENT_AUTO_APPROVED': return `Контент для рекламы в ${channel} не проверен вовремя и одобрен автоматически`;
     case 'DEAL_MESSAGE': return `Новое сообщение по сделке в ${channel}`;
     case 'CAMPAIGN_STATUS_CHANGED': return `Статус кампании «${campaignTitle}» изменён на ${data.newStatus ?? ''}`;
     case 'CAMPAIGN_BUDGET_LOW': return `Бюджет кампании «${campaignTitle}» заканчивается (осталось ${data.budgetPercentRemaining ?? 0}%)`;
+    case 'RECONCILIATION_MISMATCH': return `Расхождение баланса hot-кошелька: ${amount}. На кошельке ${data.hotWalletBalance ?? '?'} TON, по учёту ${data.expectedBalance ?? '?'} TON`;
+    case 'WITHDRAWAL_CONFIRMATION': return `Подтвердите вывод ${amount} в чате с ботом`;
+    case 'WITHDRAWAL_REJECTED': return `Вывод ${amount} отклонён${reason ? `. Причина: ${reason}` : ''}. Средства возвращены на баланс`;
+    case 'WITHDRAWAL_EXPIRED': return `Вывод ${amount} не подтверждён вовремя и отменён. Средства возвращены на баланс`;
+    case 'WALLET_CHANGED': return `Кошелёк для вывода изменён. Вывод средств заблокирован до ${formatLockedUntil(data.lockedUntil)}`;
     default: return 'Новое уведомление';
   }
 }
@@ -13,7 +13,16 @@ import {
   TransactionType,
   TransactionStatus,
 } from '@tam/shared-types';
-import { Prisma } from '@tam/prisma-client';
+import {
+  Prisma,
+  postJournalEntry,
+  userAvailable,
+  userAppealFrozen,
+  PLATFORM_FEES_ACCOUNT,
+  creditReferralReward,
+  USER_BALANCE_COLUMNS,
+  unreleasedDealAmounts,
+} from '@tam/prisma-client';
 import {
   AppealDealDto,
   AppealChannelDto,
@@ -38,7 +47,7 @@ export class AppealsService {
   async appealDealResolution(userId: string, dto: AppealDealDto): Promise<AppealResponseDto> {
     const deal = await this.prisma.deal.findUnique({
       where: { id: dto.dealId },
-      include: { channel: { select: { title: true } } },
+      include: { channel: { select: { title: true } }, slots: true },
     });
 
     if (!deal) {
@@ -58,6 +67,11 @@ export class AppealsService {
       throw new ForbiddenException('Only the channel owner can appeal a REFUNDED resolution');
     }
 
+    // Funds already paid out by an escrow contract cannot be reversed
+    if (deal.escrowMode === 'CONTRACT') {
+      throw new BadRequestException('On-chain escrow resolutions are final');
+    }
+
     // Check appeal window
     if (!deal.appealDeadline || new Date() > deal.appealDeadline) {
       throw new BadRequestException('Appeal window has expired');
@@ -71,6 +85,9 @@ export class AppealsService {
       throw new BadRequestException('An appeal has already been filed for this deal');
     }
 
+    // Only what the resolution settled: released posts of a multi-slot deal are final
+    const held = unreleasedDealAmounts(deal, deal.slots);
+
     const appeal = await this.prisma.appeal.create({
       data: {
         type: 'DEAL_DISPUTE_RESOLUTION',
@@ -80,8 +97,8 @@ export class AppealsService {
         dealId: dto.dealId,
         originalResolution: deal.status,
         frozenAmount: deal.status === 'RELEASED'
-          ? deal.amount.sub(deal.platformFee)
-          : deal.amount.add(deal.platformFee),
+          ? held.amount.sub(held.platformFee)
+          : held.amount.add(held.platformFee),
       },
     });
 
@@ -316,7 +333,7 @@ export class AppealsService {
     const appeal = await this.prisma.appeal.findUnique({
       where: { id: appealId },
       include: {
-        deal: { include: { channel: { select: { title: true } } } },
+        deal: { include: { channel: { select: { title: true } }, slots: true } },
         channel: { select: { title: true } },
         folder: { select: { title: true } },
         folderPlacement: { include: { folder: { select: { title: true } } } },
@@ -339,17 +356,18 @@ export class AppealsService {
     // For REVERSED deal appeals, verify the losing party has sufficient balance
     if (dto.decision === 'REVERSED' && appeal.type === 'DEAL_DISPUTE_RESOLUTION' && appeal.deal) {
       const deal = appeal.deal;
-      const netAmount = deal.amount.sub(deal.platformFee);
-      const totalFrozen = deal.amount.add(deal.platformFee);
+      const held = unreleasedDealAmounts(deal, deal.slots);
+      const netAmount = held.amount.sub(held.platformFee);
+      const totalFrozen = held.amount.add(held.platformFee);
 
       if (appeal.originalResolution === 'RELEASED') {
         const channelOwner = await this.prisma.user.findUnique({ where: { id: deal.channelOwnerId } });
-        if (!channelOwner || channelOwner.balanceTon.lessThan(netAmount)) {
+        if (!channelOwner || channelOwner[USER_BALANCE_COLUMNS[deal.currency].balance].lessThan(netAmount)) {
           throw new BadRequestException('Channel owner has insufficient balance for reversal');
         }
       } else if (appeal.originalResolution === 'REFUNDED') {
         const advertiser = await this.prisma.user.findUnique({ where: { id: deal.advertiserId } });
-        if (!advertiser || advertiser.balanceTon.lessThan(totalFrozen)) {
+        if (!advertiser || advertiser[USER_BALANCE_COLUMNS[deal.currency].balance].lessThan(totalFrozen)) {
           throw new BadRequestException('Advertiser has insufficient balance for reversal');
         }
       }
@@ -362,18 +380,35 @@ export class AppealsService {
       } else if (dto.decision === 'UPHELD' && appeal.type === 'DEAL_DISPUTE_RESOLUTION' && appeal.deal) {
         // UPHELD: original decision stands — unfreeze funds and clear deadline immediately
         const deal = appeal.deal;
-        const netAmount = deal.amount.sub(deal.platformFee);
-        const totalFrozen = deal.amount.add(deal.platformFee);
+        const held = unreleasedDealAmounts(deal, deal.slots);
+        const netAmount = held.amount.sub(held.platformFee);
+        const totalFrozen = held.amount.add(held.platformFee);
 
         if (appeal.originalResolution === 'RELEASED') {
-          await tx.user.update({
-            where: { id: deal.channelOwnerId },
-            data: { appealFrozenTon: { decrement: netAmount } },
+          await postJournalEntry(tx, {
+            description: 'Appeal upheld: unfreeze',
+            currency: deal.currency,
+            dealId: deal.id,
+            movements: [
+              {
+                debit: userAppealFrozen(deal.channelOwnerId),
+                credit: userAvailable(deal.channelOwnerId),
+                amount: netAmount,
+              },
+            ],
           });
         } else if (appeal.originalResolution === 'REFUNDED') {
-          await tx.user.update({
-            where: { id: deal.advertiserId },
-            data: { appealFrozenTon: { decrement: totalFrozen } },
+          await postJournalEntry(tx, {
+            description: 'Appeal upheld: unfreeze',
+            currency: deal.currency,
+            dealId: deal.id,
+            movements: [
+              {
+                debit: userAppealFrozen(deal.advertiserId),
+                credit: userAvailable(deal.advertiserId),
+                amount: totalFrozen,
+              },
+            ],
           });
         }
 
@@ -440,7 +475,7 @@ export class AppealsService {
       case 'CHANNEL_REJECTION':
         await tx.channel.update({
           where: { id: appeal.channelId },
-          data: { status: 'ACTIVE', rejectionReason: null },
+          data: { status: 'ACTIVE', rejectionReason: null, listedAt: new Date() },
         });
         break;
       case 'FOLDER_REJECTION':
@@ -469,36 +504,22 @@ export class AppealsService {
       throw new BadRequestException('Deal not found for this appeal');
     }
 
-    const netAmount = deal.amount.sub(deal.platformFee);
-    const totalFrozen = deal.amount.add(deal.platformFee);
+    const held = unreleasedDealAmounts(deal, deal.slots);
+    const netAmount = held.amount.sub(held.platformFee);
+    const totalFrozen = held.amount.add(held.platformFee);
 
     if (appeal.originalResolution === 'RELEASED') {
       // Original: channelOwner got netAmount, now reverse
-      // channelOwner.balanceTon -= netAmount, appealFrozenTon -= netAmount
-      // advertiser.balanceTon += netAmount (refund without fee)
-      await tx.user.update({
-        where: { id: deal.channelOwnerId },
-        data: {
-          balanceTon: { decrement: netAmount },
-          appealFrozenTon: { decrement: netAmount },
-        },
-      });
-
-      await tx.user.update({
-        where: { id: deal.advertiserId },
-        data: {
-          balanceTon: { increment: netAmount },
-        },
-      });
-
+      // channelOwner appeal-frozen netAmount → advertiser balance (refund without fee)
       await tx.deal.update({
         where: { id: deal.id },
         data: { status: 'REFUNDED', appealDeadline: null },
       });
 
-      await tx.transaction.create({
+      const reversalTx = await tx.transaction.create({
         data: {
           amount: netAmount,
+          currency: deal.currency,
           type: TransactionType.APPEAL_REVERSAL,
           status: TransactionStatus.CONFIRMED,
           userId: deal.advertiserId,
@@ -506,33 +527,33 @@ export class AppealsService {
           metadata: { action: 'appeal_reversal', from: 'RELEASED', to: 'REFUNDED', appealId: appeal.id },
         },
       });
-    } else if (appeal.originalResolution === 'REFUNDED') {
-      // Original: advertiser got totalFrozen back, now reverse
-      // advertiser.balanceTon -= totalFrozen, appealFrozenTon -= totalFrozen
-      // channelOwner.balanceTon += netAmount
-      await tx.user.update({
-        where: { id: deal.advertiserId },
-        data: {
-          balanceTon: { decrement: totalFrozen },
-          appealFrozenTon: { decrement: totalFrozen },
-        },
-      });
 
-      await tx.user.update({
-        where: { id: deal.channelOwnerId },
-        data: {
-          balanceTon: { increment: netAmount },
-        },
+      await postJournalEntry(tx, {
+        type: TransactionType.APPEAL_REVERSAL,
+        currency: deal.currency,
+        transactionId: reversalTx.id,
+        dealId: deal.id,
+        movements: [
+          {
+            debit: userAppealFrozen(deal.channelOwnerId),
+            credit: userAvailable(deal.advertiserId),
+            amount: netAmount,
+          },
+        ],
       });
-
+    } else if (appeal.originalResolution === 'REFUNDED') {
+      // Original: advertiser got totalFrozen back, now reverse
+      // advertiser appeal-frozen totalFrozen → channelOwner balance netAmount,
+      // the remainder is kept by the platform as fees
       await tx.deal.update({
         where: { id: deal.id },
         data: { status: 'RELEASED', appealDeadline: null },
       });
 
-      await tx.transaction.create({
+      const reversalTx = await tx.transaction.create({
         data: {
           amount: netAmount,
+          currency: deal.currency,
           type: TransactionType.APPEAL_REVERSAL,
           status: TransactionStatus.CONFIRMED,
           userId: deal.channelOwnerId,
@@ -540,6 +561,33 @@ export class AppealsService {
           metadata: { action: 'appeal_reversal', from: 'REFUNDED', to: 'RELEASED', appealId: appeal.id },
         },
       });
+
+      await postJournalEntry(tx, {
+        type: TransactionType.APPEAL_REVERSAL,
+        currency: deal.currency,
+        transactionId: reversalTx.id,
+        dealId: deal.id,
+        movements: [
+          {
+            debit: userAppealFrozen(deal.advertiserId),
+            credit: userAvailable(deal.channelOwnerId),
+            amount: netAmount,
+          },
+          {
+            debit: userAppealFrozen(deal.advertiserId),
+            credit: PLATFORM_FEES_ACCOUNT,
+            amount: totalFrozen.sub(netAmount),
+          },
+        ],
+      });
+
+      await creditReferralReward(tx, {
+        fee: totalFrozen.sub(netAmount),
+        currency: deal.currency,
+        payerId: deal.advertiserId,
+        counterpartyId: deal.channelOwnerId,
+        dealId: deal.id,
+      });
     }
   }
 
@@ -28,7 +28,7 @@ export class AuthController {
   @Throttle({ default: { limit: 30, ttl: 60000 } })
   @ApiOperation({ summary: 'Authenticate with Telegram WebApp initData' })
   async telegramAuth(@Body() dto: TelegramAuthDto): Promise<AuthResponseDto> {
-    return this.authService.authenticateWithTelegram(dto.initData);
+    return this.authService.authenticateWithTelegram(dto.initData, dto.referralCode);
   }
 
   @Post('telegram/login-widget')
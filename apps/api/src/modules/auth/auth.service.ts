@@ -5,6 +5,7 @@ import {
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { Prisma, User } from '@tam/prisma-client';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import {
   validateTelegramWebAppData,
@@ -41,6 +42,9 @@ interface TelegramFileResponse {
   };
 }
 
+// Bot /start and Mini App startapp payload of a referral link
+const REFERRAL_PAYLOAD_REGEX = /^ref_([A-Za-z0-9]{4,16})$/;
+
 interface JwtPayload {
   sub: string;
   telegramId: string;
@@ -57,7 +61,7 @@ export class AuthService {
     private configService: ConfigService
   ) {}
 
-  async authenticateWithTelegram(initData: string): Promise<AuthResponseDto> {
+  async authenticateWithTelegram(initData: string, referralCode?: string): Promise<AuthResponseDto> {
     const botToken = this.configService.get<string>('BOT_TOKEN');
 
     if (!botToken) {
@@ -105,6 +109,11 @@ export class AuthService {
       });
     }
 
+    if (!user.referralCode) {
+      const startParamCode = validation.data.start_param?.match(REFERRAL_PAYLOAD_REGEX)?.[1];
+      user = await this.assignReferralCode(user.id, referralCode ?? startParamCode);
+    }
+
     return this.generateTokens(user);
   }
 
@@ -155,6 +164,10 @@ export class AuthService {
       });
     }
 
+    if (!user.referralCode) {
+      user = await this.assignReferralCode(user.id);
+    }
+
     return this.generateTokens(user);
   }
 
@@ -258,6 +271,43 @@ export class AuthService {
     }
   }
 
+  /**
+   * First web app login (users created by the bot have no code yet): gives
+   * the user their own referral code and attributes them to the owner of
+   * the code they arrived with. Later logins never change the referrer.
+   */
+  private async assignReferralCode(userId: string, referrerCode?: string): Promise<User> {
+    const referrer = referrerCode
+      ? await this.prisma.user.findUnique({
+          where: { referralCode: referrerCode.toUpperCase() },
+          select: { id: true },
+        })
+      : null;
+    const attributed = !!referrer && referrer.id !== userId;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const updated = await this.prisma.user.updateMany({
+          where: { id: userId, referralCode: null },
+          data: {
+            referralCode: generateSecureToken(5).toUpperCase(),
+            ...(attributed && { referredById: referrer.id, referredAt: new Date() }),
+          },
+        });
+        if (updated.count > 0 && attributed) {
+          this.logger.log(`User ${userId} referred by ${referrer.id}`);
+        }
+        return this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+      } catch (error) {
+        // Generated code already taken: try another one
+        if (attempt < 2 && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
   private async generateTokens(user: {
     id: string;
     telegramId: bigint;
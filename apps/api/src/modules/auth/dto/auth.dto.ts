@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsNotEmpty, IsNumber, IsOptional, IsString } from 'class-validator';
+import { IsNotEmpty, IsNumber, IsOptional, IsString, Matches } from 'class-validator';
 import { UserResponseDto } from '../../users/dto/user.dto';
 
 export class TelegramAuthDto {
@@ -7,6 +7,11 @@ export class TelegramAuthDto {
   @IsString()
   @IsNotEmpty()
   initData: string;
+
+  @ApiPropertyOptional({ description: 'Referral code the Mini App was opened with (bot /start ref_<code> link)' })
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9]{4,16}$/)
+  referralCode?: string;
 }
 
 export class TelegramLoginWidgetDto {
@@ -21,7 +21,10 @@ import {
   CampaignResponseDto,
   PaginatedCampaignsDto,
   PublicCampaignFiltersDto,
+  CampaignTrackingDto,
+  PostbackSecretDto,
 } from './dto/campaign.dto';
+import { CampaignClickStatsDto, CampaignConversionStatsDto } from '../links/dto/link.dto';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 
 @ApiTags('Campaigns')
@@ -70,6 +73,50 @@ export class CampaignsController {
     return this.campaignsService.findById(id, user.id);
   }
 
+  @Get(':id/clicks')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get clicks on the tracked links of the campaign deals' })
+  async getClickStats(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<CampaignClickStatsDto> {
+    return this.campaignsService.getClickStats(id, user.id);
+  }
+
+  @Get(':id/conversions')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get conversions, CPA and ROAS of the campaign per channel' })
+  async getConversionStats(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<CampaignConversionStatsDto> {
+    return this.campaignsService.getConversionStats(id, user.id);
+  }
+
+  @Get(':id/tracking')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the UTM template and conversion postback settings' })
+  async getTracking(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<CampaignTrackingDto> {
+    return this.campaignsService.getTracking(id, user.id);
+  }
+
+  @Post(':id/tracking/secret')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Generate a new conversion postback signing secret' })
+  async rotatePostbackSecret(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<PostbackSecretDto> {
+    return this.campaignsService.rotatePostbackSecret(id, user.id);
+  }
+
   @Patch(':id')
   @UseGuards(AuthGuard('jwt'))
   @ApiBearerAuth()
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { CampaignsController } from './campaigns.controller';
 import { CampaignsService } from './campaigns.service';
 import { NotificationModule } from '../../common/notification/notification.module';
+import { LinksModule } from '../links/links.module';
 
 @Module({
-  imports: [NotificationModule],
+  imports: [NotificationModule, LinksModule],
   controllers: [CampaignsController],
   providers: [CampaignsService],
   exports: [CampaignsService],
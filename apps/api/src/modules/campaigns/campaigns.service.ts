@@ -4,8 +4,10 @@ import {
   ForbiddenException,
   BadRequestException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { CampaignStatus } from '@tam/shared-types';
+import { CampaignStatus, Currency } from '@tam/shared-types';
 import {
   CreateCampaignDto,
   UpdateCampaignDto,
@@ -13,15 +15,23 @@ import {
   CampaignResponseDto,
   PaginatedCampaignsDto,
   PublicCampaignFiltersDto,
+  CampaignTrackingDto,
+  PostbackSecretDto,
 } from './dto/campaign.dto';
 import { Prisma, Campaign } from '@tam/prisma-client';
 import { NotificationService } from '../../common/notification/notification.service';
+import { LinksService } from '../links/links.service';
+import { ConversionsService } from '../links/conversions.service';
+import { CampaignClickStatsDto, CampaignConversionStatsDto } from '../links/dto/link.dto';
 
 @Injectable()
 export class CampaignsService {
   constructor(
     private prisma: PrismaService,
     private notificationService: NotificationService,
+    private linksService: LinksService,
+    private conversionsService: ConversionsService,
+    private configService: ConfigService,
   ) {}
 
   async create(userId: string, dto: CreateCampaignDto): Promise<CampaignResponseDto> {
@@ -30,6 +40,7 @@ export class CampaignsService {
         title: dto.title,
         description: dto.description,
         totalBudget: new Prisma.Decimal(dto.totalBudget),
+        ...(dto.currency !== undefined && { currency: dto.currency }),
         categories: dto.categories,
         targetLanguages: dto.targetLanguages,
         advertiserId: userId,
@@ -153,6 +164,7 @@ export class CampaignsService {
         ...(dto.maxBudgetPerDeal !== undefined && {
           maxBudgetPerDeal: dto.maxBudgetPerDeal ? new Prisma.Decimal(dto.maxBudgetPerDeal) : null,
         }),
+        ...(dto.utmTemplate !== undefined && { utmTemplate: dto.utmTemplate || null }),
       },
       include: {
         _count: { select: { deals: true } },
@@ -224,6 +236,94 @@ export class CampaignsService {
     };
   }
 
+  /**
+   * Clicks on the tracked links of the campaign's deals. Totals add up the
+   * deals that track links, so a visitor of two channels counts twice.
+   */
+  async getClickStats(id: string, userId: string): Promise<CampaignClickStatsDto> {
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id },
+      include: {
+        deals: {
+          where: { trackLinks: true },
+          select: { id: true, trackLinks: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    if (campaign.advertiserId !== userId) {
+      throw new ForbiddenException('Not authorized to view this campaign');
+    }
+
+    const deals = await this.linksService.getDealStats(campaign.deals);
+    const withViews = deals.filter((d) => d.views !== undefined);
+
+    return {
+      campaignId: id,
+      deals,
+      ...this.linksService.totals(
+        withViews.length > 0 ? withViews.reduce((sum, d) => sum + d.views!, 0) : undefined,
+        deals.reduce((sum, d) => sum + d.clicks, 0),
+        deals.reduce((sum, d) => sum + d.uniqueClicks, 0),
+      ),
+    };
+  }
+
+  /**
+   * UTM template and postback endpoint of a campaign, for its advertiser
+   */
+  async getTracking(id: string, userId: string): Promise<CampaignTrackingDto> {
+    const campaign = await this.getOwnCampaign(id, userId);
+    const apiUrl = this.configService.get<string>('API_PUBLIC_URL', '').replace(/\/+$/, '');
+
+    return {
+      utmTemplate: campaign.utmTemplate ?? undefined,
+      postbackUrl: apiUrl ? `${apiUrl}/api/v1/postbacks/${campaign.id}` : undefined,
+      hasPostbackSecret: campaign.postbackSecret !== null,
+    };
+  }
+
+  /**
+   * Generates a new postback signing secret, replacing the previous one
+   */
+  async rotatePostbackSecret(id: string, userId: string): Promise<PostbackSecretDto> {
+    await this.getOwnCampaign(id, userId);
+
+    const postbackSecret = randomBytes(32).toString('hex');
+    await this.prisma.campaign.update({
+      where: { id },
+      data: { postbackSecret },
+    });
+
+    return { postbackSecret };
+  }
+
+  async getConversionStats(id: string, userId: string): Promise<CampaignConversionStatsDto> {
+    const campaign = await this.getOwnCampaign(id, userId);
+    return this.conversionsService.getCampaignStats(campaign);
+  }
+
+  private async getOwnCampaign(id: string, userId: string): Promise<Campaign> {
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    if (campaign.advertiserId !== userId) {
+      throw new ForbiddenException('Not authorized to view this campaign');
+    }
+
+    return campaign;
+  }
+
   async delete(id: string, userId: string): Promise<void> {
     const campaign = await this.prisma.campaign.findUnique({
       where: { id },
@@ -290,6 +390,7 @@ export class CampaignsService {
       description: campaign.description ?? undefined,
       totalBudget: campaign.totalBudget.toString(),
       spentBudget: campaign.spentBudget.toString(),
+      currency: campaign.currency as Currency,
       categories: campaign.categories,
       targetLanguages: campaign.targetLanguages,
       status: campaign.status as CampaignStatus,
@@ -20,7 +20,7 @@ const TON_AMOUNT_REGEX = /^(?!0(\.0+)?$)\d{1,12}(\.\d{1,9})?$/;
 const TON_AMOUNT_MESSAGE =
   'Amount must be a positive number with up to 9 decimal places';
 import { Type, Transform } from 'class-transformer';
-import { CampaignStatus } from '@tam/shared-types';
+import { CampaignStatus, Currency } from '@tam/shared-types';
 
 export class CreateCampaignDto {
   @ApiProperty({ description: 'Campaign title' })
@@ -35,12 +35,21 @@ export class CreateCampaignDto {
   @MaxLength(2000)
   description?: string;
 
-  @ApiProperty({ description: 'Total budget in TON', example: '100.5' })
+  @ApiProperty({ description: 'Total budget in the campaign currency', example: '100.5' })
   @IsString()
   @IsNotEmpty()
   @Matches(TON_AMOUNT_REGEX, { message: TON_AMOUNT_MESSAGE })
   totalBudget: string;
 
+  @ApiPropertyOptional({
+    enum: Currency,
+    default: Currency.TON,
+    description: 'Currency of the budget; deals of the campaign are settled in it. Cannot be changed later',
+  })
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency;
+
   @ApiProperty({
     description: 'Target channel categories',
     example: ['technology', 'business'],
@@ -156,6 +165,31 @@ export class UpdateCampaignDto {
   @IsOptional()
   @IsString()
   maxBudgetPerDeal?: string;
+
+  @ApiPropertyOptional({
+    description: 'Query appended to tracked links on redirect, e.g. utm_source=telegram&utm_content={channel}. Placeholders: {campaign_id}, {deal_id}, {channel}, {click_id}. Empty clears it',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Matches(/^[^\s?#]*$/, { message: 'utmTemplate must be a query string without spaces, ? or #' })
+  utmTemplate?: string;
+}
+
+export class CampaignTrackingDto {
+  @ApiPropertyOptional({ description: 'Query appended to tracked links on redirect' })
+  utmTemplate?: string;
+
+  @ApiPropertyOptional({ description: 'Where the advertiser server posts conversions' })
+  postbackUrl?: string;
+
+  @ApiProperty({ description: 'Whether a postback signing secret has been generated' })
+  hasPostbackSecret: boolean;
+}
+
+export class PostbackSecretDto {
+  @ApiProperty({ description: 'New signing secret; shown only once, the previous one stops working' })
+  postbackSecret: string;
 }
 
 export class PublicCampaignFiltersDto {
@@ -238,6 +272,9 @@ export class CampaignResponseDto {
   @ApiProperty()
   spentBudget: string;
 
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
   @ApiProperty()
   categories: string[];
 
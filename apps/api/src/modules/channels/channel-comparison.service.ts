@@ -0,0 +1,125 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Channel, Prisma } from '@tam/prisma-client';
+import { ChannelStatus, COMPARE_AUDIENCE_KEYS_LIMIT } from '@tam/shared-types';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { ChannelPricingService } from './channel-pricing.service';
+import {
+  ChannelComparisonDto,
+  ChannelCompareItemDto,
+  HistoryPointDto,
+} from './dto/channel.dto';
+
+/**
+ * Side-by-side metrics of a few listed channels, so advertisers can pick
+ * between similar ones without opening each channel page.
+ */
+@Injectable()
+export class ChannelComparisonService {
+  constructor(
+    private prisma: PrismaService,
+    private storageService: StorageService,
+    private channelPricingService: ChannelPricingService,
+  ) {}
+
+  async compare(ids: string[]): Promise<ChannelComparisonDto> {
+    const found = await this.prisma.channel.findMany({
+      where: { id: { in: ids }, status: ChannelStatus.ACTIVE },
+    });
+
+    const byId = new Map(found.map((c) => [c.id, c]));
+    const missing = ids.filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Channels not found: ${missing.join(', ')}`);
+    }
+
+    // Requested order, so the columns stay where the user put them
+    const channels = ids.map((id) => byId.get(id) as Channel);
+
+    const countries = this.topKeys(channels.map((c) => this.shares(c.audienceGeo)));
+    const languages = this.topKeys(channels.map((c) => this.shares(c.languageStats)));
+
+    return {
+      channels: channels.map((c) => this.mapToItem(c, countries, languages)),
+      countries,
+      languages,
+    };
+  }
+
+  private mapToItem(channel: Channel, countries: string[], languages: string[]): ChannelCompareItemDto {
+    const geo = this.shares(channel.audienceGeo);
+    const langs = this.shares(channel.languageStats);
+
+    return {
+      id: channel.id,
+      title: channel.title,
+      username: channel.username ?? undefined,
+      // Prefer permanent MinIO URL over temporary Telegram URL
+      avatarUrl: this.storageService.getAvatarUrl(channel.avatarKey) ?? channel.avatarUrl ?? undefined,
+      subscriberCount: channel.subscriberCount,
+      avgViews: channel.avgViews,
+      engagementRate: channel.engagementRate,
+      subscriberGrowthWeek: channel.subscriberGrowthWeek,
+      subscriberGrowthMonth: channel.subscriberGrowthMonth,
+      rating: channel.rating,
+      reviewsCount: channel.reviewsCount,
+      successRate: channel.successRate,
+      completedDealsCount: channel.completedDealsCount,
+      isVerified: channel.isVerified,
+      hasVerifiedStats: channel.hasVerifiedStats,
+      formats: this.channelPricingService.formatPrices(channel),
+      audienceGeo: Object.fromEntries(countries.map((key) => [key, geo[key] ?? 0])),
+      languageStats: Object.fromEntries(languages.map((key) => [key, langs[key] ?? 0])),
+      subscribersHistory: this.subscribersHistory(channel),
+      viewsHistory: this.history(channel.viewsHistory),
+    };
+  }
+
+  /**
+   * Telegram reports daily follower changes; walk them back from the current
+   * count to get the subscriber count per day.
+   */
+  private subscribersHistory(channel: Channel): HistoryPointDto[] {
+    const changes = this.history(channel.followersHistory);
+    const result: HistoryPointDto[] = [];
+    let running = channel.subscriberCount;
+
+    for (const change of [...changes].reverse()) {
+      result.unshift({ date: change.date, value: running });
+      running -= change.value;
+    }
+
+    return result;
+  }
+
+  private history(value: Prisma.JsonValue): HistoryPointDto[] {
+    if (!Array.isArray(value)) return [];
+
+    return (value as unknown as HistoryPointDto[])
+      .filter((p) => typeof p?.date === 'string' && typeof p.value === 'number')
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private shares(value: Prisma.JsonValue): Record<string, number> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+    return Object.fromEntries(
+      Object.entries(value).filter((entry): entry is [string, number] => typeof entry[1] === 'number'),
+    );
+  }
+
+  // Keys with the largest share summed over all channels
+  private topKeys(shares: Record<string, number>[]): string[] {
+    const totals = new Map<string, number>();
+    for (const share of shares) {
+      for (const [key, value] of Object.entries(share)) {
+        totals.set(key, (totals.get(key) ?? 0) + value);
+      }
+    }
+
+    return [...totals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, COMPARE_AUDIENCE_KEYS_LIMIT)
+      .map(([key]) => key);
+  }
+}
@@ -0,0 +1,187 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Channel, Prisma, channelCpm } from '@tam/prisma-client';
+import {
+  ChannelStatus,
+  AD_FORMAT_KEYS,
+  CHANNEL_SUBSCRIBER_BUCKETS,
+  PRICING_MIN_PEERS,
+  PRICING_MAX_PEERS,
+} from '@tam/shared-types';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { ChannelAdminsService } from './channel-admins.service';
+import { ChannelPricingDto, FormatPriceDto, FormatPriceRecommendationDto } from './dto/channel.dto';
+
+type PricedChannel = Pick<Channel, 'pricePerPost' | 'formatPrices' | 'avgViews'>;
+type FormatPrices = Partial<Record<string, Record<string, string>>>;
+type Benchmark = NonNullable<ChannelPricingDto['benchmark']>;
+
+// Same floor as the price inputs of the Mini App
+const MIN_RECOMMENDED_PRICE = new Prisma.Decimal('0.1');
+
+/**
+ * CPM-based pricing. Turns a channel's prices into CPM per ad format and
+ * recommends prices from the CPM of similar channels: the interquartile range
+ * of peer CPM applied to the channel's own average views.
+ */
+@Injectable()
+export class ChannelPricingService {
+  constructor(
+    private prisma: PrismaService,
+    private channelAdminsService: ChannelAdminsService,
+  ) {}
+
+  async getRecommendations(channelId: string, userId: string): Promise<ChannelPricingDto> {
+    const channel = await this.prisma.channel.findUnique({
+      where: { id: channelId },
+    });
+
+    if (!channel) {
+      throw new NotFoundException('Channel not found');
+    }
+
+    if (channel.ownerId !== userId) {
+      const isAdmin = await this.channelAdminsService.isChannelAdmin(channelId, userId);
+      if (!isAdmin) {
+        throw new ForbiddenException('Not authorized to view pricing of this channel');
+      }
+    }
+
+    const bucket = this.sizeBucket(channel.subscriberCount);
+    const { benchmark, peers } = await this.findPeers(channel, bucket);
+    const peerPrices = benchmark ? peers.map((p) => this.formatPrices(p)) : [];
+
+    return {
+      avgViews: channel.avgViews,
+      benchmark,
+      minSubscribers: bucket.min,
+      maxSubscribers: bucket.max,
+      peerCount: peers.length,
+      formats: this.formatPrices(channel).map((price) =>
+        this.recommend(price, channel.avgViews, peerPrices),
+      ),
+    };
+  }
+
+  /**
+   * TON price and CPM of every ad format. A channel without format prices
+   * sells only the basic 1/24h post, at pricePerPost.
+   */
+  formatPrices(channel: PricedChannel): FormatPriceDto[] {
+    const tonPrices = (channel.formatPrices as FormatPrices | null)?.TON;
+    const hasFormatPrices = !!tonPrices && Object.keys(tonPrices).length > 0;
+
+    return AD_FORMAT_KEYS.map((format) => {
+      const price = hasFormatPrices
+        ? tonPrices[format]
+        : format === '1_24' ? channel.pricePerPost.toString() : undefined;
+
+      if (price === undefined) {
+        return { format };
+      }
+
+      return {
+        format,
+        price,
+        cpm: channelCpm(price, channel.avgViews)?.toString(),
+      };
+    });
+  }
+
+  private recommend(
+    price: FormatPriceDto,
+    avgViews: number,
+    peerPrices: FormatPriceDto[][],
+  ): FormatPriceRecommendationDto {
+    const cpms = peerPrices
+      .flatMap((formats) => formats.filter((f) => f.format === price.format && f.cpm !== undefined))
+      .map((f) => new Prisma.Decimal(f.cpm as string))
+      .sort((a, b) => a.comparedTo(b));
+
+    if (avgViews <= 0 || cpms.length < PRICING_MIN_PEERS) {
+      return { ...price, peerCount: cpms.length };
+    }
+
+    const median = this.quantile(cpms, 0.5);
+
+    return {
+      ...price,
+      peerCount: cpms.length,
+      benchmarkCpm: median.toDecimalPlaces(4).toString(),
+      recommendedMin: this.priceAt(this.quantile(cpms, 0.25), avgViews),
+      recommendedPrice: this.priceAt(median, avgViews),
+      recommendedMax: this.priceAt(this.quantile(cpms, 0.75), avgViews),
+    };
+  }
+
+  /**
+   * Active channels with views in the same size bucket. Narrowed to the same
+   * language and categories while that still leaves enough peers.
+   */
+  private async findPeers(
+    channel: Channel,
+    bucket: { min: number; max?: number },
+  ): Promise<{ benchmark?: Benchmark; peers: PricedChannel[] }> {
+    const sameSize: Prisma.ChannelWhereInput = {
+      id: { not: channel.id },
+      status: ChannelStatus.ACTIVE,
+      avgViews: { gt: 0 },
+      subscriberCount: {
+        gte: bucket.min,
+        ...(bucket.max !== undefined && { lt: bucket.max }),
+      },
+    };
+
+    const stages: Array<[Benchmark, Prisma.ChannelWhereInput]> = [
+      ['language', { ...sameSize, language: channel.language }],
+      ['size', sameSize],
+    ];
+    if (channel.categories.length > 0) {
+      stages.unshift([
+        'categories',
+        { ...sameSize, language: channel.language, categories: { hasSome: channel.categories } },
+      ]);
+    }
+
+    let peers: PricedChannel[] = [];
+    for (const [benchmark, where] of stages) {
+      peers = await this.prisma.channel.findMany({
+        where,
+        select: { pricePerPost: true, formatPrices: true, avgViews: true },
+        orderBy: { updatedAt: 'desc' },
+        take: PRICING_MAX_PEERS,
+      });
+
+      if (peers.length >= PRICING_MIN_PEERS) {
+        return { benchmark, peers };
+      }
+    }
+
+    return { peers };
+  }
+
+  // Bucket of CHANNEL_SUBSCRIBER_BUCKETS the count falls into (lower bound inclusive)
+  private sizeBucket(subscriberCount: number): { min: number; max?: number } {
+    const index = CHANNEL_SUBSCRIBER_BUCKETS.findIndex((bound) => subscriberCount < bound);
+    if (index === -1) {
+      return { min: CHANNEL_SUBSCRIBER_BUCKETS[CHANNEL_SUBSCRIBER_BUCKETS.length - 1] ?? 0 };
+    }
+
+    return { min: CHANNEL_SUBSCRIBER_BUCKETS[index - 1] ?? 0, max: CHANNEL_SUBSCRIBER_BUCKETS[index] };
+  }
+
+  // Linear interpolation between the closest ranks of sorted values
+  private quantile(sorted: Prisma.Decimal[], q: number): Prisma.Decimal {
+    const position = (sorted.length - 1) * q;
+    const lower = sorted[Math.floor(position)] as Prisma.Decimal;
+    const upper = sorted[Math.ceil(position)] as Prisma.Decimal;
+
+    return lower.add(upper.sub(lower).mul(position - Math.floor(position)));
+  }
+
+  private priceAt(cpm: Prisma.Decimal, avgViews: number): string {
+    return Prisma.Decimal.max(
+      cpm.mul(avgViews).div(1000).toDecimalPlaces(2),
+      MIN_RECOMMENDED_PRICE,
+    ).toString();
+  }
+}
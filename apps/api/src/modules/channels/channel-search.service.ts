@@ -0,0 +1,189 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Prisma,
+  ChannelTextQuery,
+  parseChannelSearchQuery,
+  channelSearchWhere,
+  enableChannelSearchTypoTolerance,
+  CHANNEL_CPM_SQL,
+} from '@tam/prisma-client';
+import { CHANNEL_PRICE_BUCKETS_TON, CHANNEL_SUBSCRIBER_BUCKETS } from '@tam/shared-types';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { ChannelsService } from './channels.service';
+import {
+  ChannelFiltersDto,
+  ChannelSearchFacetsDto,
+  ChannelSearchResultDto,
+  FacetCountDto,
+  RangeFacetDto,
+} from './dto/channel.dto';
+
+// Relevance = weighted sum of signals, each normalized to 0..1
+const TEXT_WEIGHT = 0.6;
+const RATING_WEIGHT = 0.15;
+const DEALS_WEIGHT = 0.15;
+const BOOST_WEIGHT = 0.1;
+// Completed deals saturate logarithmically: 100 deals score 1
+const DEALS_SATURATION = 100;
+// Active boost of this many TON scores 0.5
+const BOOST_HALF_TON = 10;
+/**
+ * Channel catalogue search (see channelSearchWhere in @tam/prisma-client for
+ * the matching): relevance ranking and facet counts.
+ */
+@Injectable()
+export class ChannelSearchService {
+  constructor(
+    private prisma: PrismaService,
+    private channelsService: ChannelsService,
+  ) {}
+
+  async search(filters: ChannelFiltersDto): Promise<ChannelSearchResultDto> {
+    const { page = 1, limit = 20 } = filters;
+    const skip = (page - 1) * limit;
+    const text = parseChannelSearchQuery(filters.search);
+    const sortBy = filters.sortBy ?? (text ? 'relevance' : 'subscribers');
+    const now = new Date();
+
+    const { rows, total, facets } = await this.prisma.$transaction(async (tx) => {
+      await enableChannelSearchTypoTolerance(tx);
+
+      const rows = await tx.$queryRaw<Array<{ id: string }>>`
+        SELECT id
+        FROM "Channel"
+        WHERE ${channelSearchWhere(filters, text)}
+        ORDER BY ${this.orderBy(sortBy, text, now)}
+        LIMIT ${limit}
+        OFFSET ${skip}
+      `;
+      const [{ total }] = await tx.$queryRaw<[{ total: number }]>`
+        SELECT count(*)::int AS total FROM "Channel" WHERE ${channelSearchWhere(filters, text)}
+      `;
+
+      const categories = await tx.$queryRaw<FacetCountDto[]>`
+        SELECT c AS value, count(*)::int AS count
+        FROM "Channel", unnest(categories) AS c
+        WHERE ${channelSearchWhere(filters, text, 'categories')}
+        GROUP BY c
+        ORDER BY count DESC, c
+      `;
+      const languages = await tx.$queryRaw<FacetCountDto[]>`
+        SELECT language AS value, count(*)::int AS count
+        FROM "Channel"
+        WHERE ${channelSearchWhere(filters, text, 'language')}
+        GROUP BY language
+        ORDER BY count DESC, language
+      `;
+      const priceBuckets = await tx.$queryRaw<Array<{ bucket: number; count: number }>>`
+        SELECT width_bucket("pricePerPost", ${CHANNEL_PRICE_BUCKETS_TON}::numeric[]) AS bucket, count(*)::int AS count
+        FROM "Channel"
+        WHERE ${channelSearchWhere(filters, text, 'price')}
+        GROUP BY bucket
+      `;
+      const subscriberBuckets = await tx.$queryRaw<Array<{ bucket: number; count: number }>>`
+        SELECT width_bucket("subscriberCount", ${CHANNEL_SUBSCRIBER_BUCKETS}::int[]) AS bucket, count(*)::int AS count
+        FROM "Channel"
+        WHERE ${channelSearchWhere(filters, text, 'subscribers')}
+        GROUP BY bucket
+      `;
+
+      const facets: ChannelSearchFacetsDto = {
+        categories,
+        languages,
+        priceBuckets: this.buckets(CHANNEL_PRICE_BUCKETS_TON, priceBuckets),
+        subscriberBuckets: this.buckets(CHANNEL_SUBSCRIBER_BUCKETS.map(String), subscriberBuckets),
+      };
+      return { rows, total, facets };
+    });
+
+    // Raw rows carry only ids: the tsvector column has no Prisma mapping
+    const channels = await this.prisma.channel.findMany({
+      where: { id: { in: rows.map((r) => r.id) } },
+    });
+    const byId = new Map(channels.map((c) => [c.id, c]));
+
+    return {
+      items: rows.flatMap((r) => {
+        const channel = byId.get(r.id);
+        return channel ? [this.channelsService.mapToResponse(channel)] : [];
+      }),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      facets,
+    };
+  }
+
+  private orderBy(sortBy: NonNullable<ChannelFiltersDto['sortBy']>, text: ChannelTextQuery | null, now: Date): Prisma.Sql {
+    if (sortBy === 'relevance') {
+      return Prisma.sql`${this.relevance(text, now)} DESC, "subscriberCount" DESC, id`;
+    }
+
+    let secondarySortSql: Prisma.Sql;
+    switch (sortBy) {
+      case 'price':
+        secondarySortSql = Prisma.sql`"pricePerPost" ASC`;
+        break;
+      case 'priceDesc':
+        secondarySortSql = Prisma.sql`"pricePerPost" DESC`;
+        break;
+      case 'cpm':
+        // Channels without views have no CPM and go last
+        secondarySortSql = Prisma.sql`${CHANNEL_CPM_SQL} ASC NULLS LAST`;
+        break;
+      case 'rating':
+        secondarySortSql = Prisma.sql`rating DESC`;
+        break;
+      case 'newest':
+        secondarySortSql = Prisma.sql`"createdAt" DESC`;
+        break;
+      default: // 'subscribers'
+        secondarySortSql = Prisma.sql`"subscriberCount" DESC`;
+        break;
+    }
+
+    // Boosted channels first (boostUntil > now) by boostAmount, then the selected field
+    return Prisma.sql`
+      CASE WHEN "boostUntil" > ${now} THEN 0 ELSE 1 END,
+      CASE WHEN "boostUntil" > ${now} THEN "boostAmount" END DESC NULLS LAST,
+      ${secondarySortSql},
+      id
+    `;
+  }
+
+  /**
+   * Text match (ts_rank_cd scaled to 0..1 and the best trigram similarity of
+   * title or username, averaged) blended with rating, completed deals and the
+   * active boost. Without a query only the quality signals remain.
+   */
+  private relevance(text: ChannelTextQuery | null, now: Date): Prisma.Sql {
+    const textScore = text
+      ? Prisma.sql`(
+          ts_rank_cd("searchVector", to_tsquery('simple', ${text.tsquery}), 32)
+          + greatest(word_similarity(${text.phrase}, title), word_similarity(${text.phrase}, coalesce(username, '')))
+        ) / 2`
+      : Prisma.sql`0`;
+
+    return Prisma.sql`(
+      ${TEXT_WEIGHT} * ${textScore}
+      + ${RATING_WEIGHT} * rating / 5
+      + ${DEALS_WEIGHT} * least(ln(1 + "completedDealsCount") / ln(${1 + DEALS_SATURATION}), 1)
+      + ${BOOST_WEIGHT} * CASE WHEN "boostUntil" > ${now}
+          THEN ("boostAmount" / ("boostAmount" + ${BOOST_HALF_TON}))::float8
+          ELSE 0 END
+    )`;
+  }
+
+  /** Every bucket between consecutive bounds, including empty ones */
+  private buckets(bounds: string[], counts: Array<{ bucket: number; count: number }>): RangeFacetDto[] {
+    const byBucket = new Map(counts.map((c) => [c.bucket, c.count]));
+
+    // width_bucket: 0 below the first bound, i from bounds[i - 1] on
+    return ['0', ...bounds].map((min, i) => ({
+      min,
+      ...(i < bounds.length && { max: bounds[i] }),
+      count: byBucket.get(i) ?? 0,
+    }));
+  }
+}
@@ -17,6 +17,9 @@ import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthGuard } from '@nestjs/passport';
 import { ChannelsService } from './channels.service';
+import { ChannelSearchService } from './channel-search.service';
+import { ChannelComparisonService } from './channel-comparison.service';
+import { ChannelPricingService } from './channel-pricing.service';
 import { MtprotoAuthService } from './mtproto-auth.service';
 import { ChannelAdminsService, ChannelAdminResponseDto } from './channel-admins.service';
 import {
@@ -25,13 +28,17 @@ import {
   UpdateChannelDto,
   ChannelFiltersDto,
   ChannelResponseDto,
-  PaginatedChannelsDto,
+  ChannelSearchResultDto,
+  ChannelCompareQueryDto,
+  ChannelComparisonDto,
+  ChannelPricingDto,
   BoostChannelDto,
   UpdateChannelStatusDto,
   AddChannelAdminDto,
   CheckBotAdminDto,
 } from './dto/channel.dto';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { UserRole } from '@tam/shared-types';
@@ -41,14 +48,20 @@ import { UserRole } from '@tam/shared-types';
 export class ChannelsController {
   constructor(
     private channelsService: ChannelsService,
+    private channelSearchService: ChannelSearchService,
+    private channelComparisonService: ChannelComparisonService,
+    private channelPricingService: ChannelPricingService,
     private mtprotoAuthService: MtprotoAuthService,
     private channelAdminsService: ChannelAdminsService,
   ) {}
 
   @Get()
-  @ApiOperation({ summary: 'List all active channels with filters' })
-  async findAll(@Query() filters: ChannelFiltersDto): Promise<PaginatedChannelsDto> {
-    return this.channelsService.findAll(filters);
+  @ApiOperation({
+    summary: 'Search active channels with filters',
+    description: 'Full-text, typo-tolerant search with facet counts for categories, languages, price and subscribers',
+  })
+  async findAll(@Query() filters: ChannelFiltersDto): Promise<ChannelSearchResultDto> {
+    return this.channelSearchService.search(filters);
   }
 
   // IMPORTANT: Static routes MUST come before parameterized routes
@@ -63,6 +76,15 @@ export class ChannelsController {
     return this.channelsService.findByUser(user.id);
   }
 
+  @Get('compare')
+  @ApiOperation({
+    summary: 'Compare active channels side by side',
+    description: 'Aligned audience, growth, pricing per ad format (with CPM) and trust metrics of 2 to 5 channels',
+  })
+  async compare(@Query() query: ChannelCompareQueryDto): Promise<ChannelComparisonDto> {
+    return this.channelComparisonService.compare(query.ids);
+  }
+
   @Get('pending')
   @UseGuards(AuthGuard('jwt'), RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.MODERATOR)
@@ -134,6 +156,7 @@ export class ChannelsController {
   }
 
   @Post(':id/boost')
+  @Idempotent()
   @UseGuards(AuthGuard('jwt'))
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Boost a channel to appear higher in listings' })
@@ -181,6 +204,20 @@ export class ChannelsController {
     return this.channelsService.update(id, user.id, dto);
   }
 
+  @Get(':id/pricing')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get CPM and recommended prices per ad format (owner or admin)',
+    description: 'Benchmarks the channel CPM against active channels of the same size bucket, language and categories',
+  })
+  async getPricing(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<ChannelPricingDto> {
+    return this.channelPricingService.getRecommendations(id, user.id);
+  }
+
   @Patch(':id/status')
   @UseGuards(AuthGuard('jwt'), RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.MODERATOR)
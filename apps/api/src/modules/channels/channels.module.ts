@@ -2,6 +2,11 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
 import { ChannelsController } from './channels.controller';
 import { ChannelsService } from './channels.service';
+import { ChannelSearchService } from './channel-search.service';
+import { ChannelComparisonService } from './channel-comparison.service';
+import { ChannelPricingService } from './channel-pricing.service';
+import { SavedSearchesController } from './saved-searches.controller';
+import { SavedSearchesService } from './saved-searches.service';
 import { ChannelAdminsService } from './channel-admins.service';
 import { MtprotoAuthService } from './mtproto-auth.service';
 import { TelegramBotService } from '../../common/services/telegram-bot.service';
@@ -15,8 +20,8 @@ import { NotificationModule } from '../../common/notification/notification.modul
     }),
     NotificationModule,
   ],
-  controllers: [ChannelsController],
-  providers: [ChannelsService, ChannelAdminsService, MtprotoAuthService, TelegramBotService],
+  controllers: [ChannelsController, SavedSearchesController],
+  providers: [ChannelsService, ChannelSearchService, ChannelComparisonService, ChannelPricingService, SavedSearchesService, ChannelAdminsService, MtprotoAuthService, TelegramBotService],
   exports: [ChannelsService, ChannelAdminsService],
 })
 export class ChannelsModule {}
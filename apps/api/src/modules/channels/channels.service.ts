@@ -10,21 +10,27 @@ import { Queue } from 'bullmq';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { TelegramBotService } from '../../common/services/telegram-bot.service';
 import { StorageService } from '../../common/storage/storage.service';
-import { ChannelStatus, MAX_CHANNELS_PER_USER, AD_FORMAT_KEYS } from '@tam/shared-types';
+import { ChannelStatus, MAX_CHANNELS_PER_USER, AD_FORMAT_KEYS, Currency } from '@tam/shared-types';
 import { QUEUE_NAMES, ChannelStatsJobData, DEFAULT_JOB_OPTIONS } from '@tam/queue-contracts';
 import { NotificationService } from '../../common/notification/notification.service';
 import {
   CreateChannelDto,
   CreateChannelByLinkDto,
   UpdateChannelDto,
-  ChannelFiltersDto,
   ChannelResponseDto,
-  PaginatedChannelsDto,
   BoostChannelDto,
   UpdateChannelStatusDto,
+  FormatPrices,
 } from './dto/channel.dto';
 import { ChannelAdminsService } from './channel-admins.service';
-import { Prisma, Channel } from '@tam/prisma-client';
+import {
+  Prisma,
+  Channel,
+  postJournalEntry,
+  userAvailable,
+  PLATFORM_FEES_ACCOUNT,
+  channelCpm,
+} from '@tam/prisma-client';
 
 @Injectable()
 export class ChannelsService {
@@ -170,109 +176,6 @@ export class ChannelsService {
     return this.mapToResponse(channel);
   }
 
-  async findAll(filters: ChannelFiltersDto): Promise<PaginatedChannelsDto> {
-    const { page = 1, limit = 20, ...rest } = filters;
-    const skip = (page - 1) * limit;
-
-    const statusFilter = rest.status ?? ChannelStatus.ACTIVE;
-
-    // Build count query with all filters including search
-    const where: Prisma.ChannelWhereInput = {
-      status: statusFilter,
-    };
-
-    if (rest.categories?.length) {
-      where.categories = { hasSome: rest.categories };
-    }
-
-    if (rest.minSubscribers !== undefined || rest.maxSubscribers !== undefined) {
-      where.subscriberCount = {
-        ...(rest.minSubscribers !== undefined && { gte: rest.minSubscribers }),
-        ...(rest.maxSubscribers !== undefined && { lte: rest.maxSubscribers }),
-      };
-    }
-
-    if (rest.minPrice !== undefined || rest.maxPrice !== undefined) {
-      where.pricePerPost = {
-        ...(rest.minPrice !== undefined && {
-          gte: new Prisma.Decimal(rest.minPrice),
-        }),
-        ...(rest.maxPrice !== undefined && {
-          lte: new Prisma.Decimal(rest.maxPrice),
-        }),
-      };
-    }
-
-    if (rest.language) {
-      where.language = rest.language;
-    }
-
-    if (rest.search) {
-      where.OR = [
-        { title: { contains: rest.search, mode: 'insensitive' } },
-        { username: { contains: rest.search, mode: 'insensitive' } },
-      ];
-    }
-
-    const now = new Date();
-
-    // Build secondary sort SQL fragment based on sortBy
-    let secondarySortSql: ReturnType<typeof Prisma.sql>;
-    switch (rest.sortBy) {
-      case 'price':
-        secondarySortSql = Prisma.sql`"pricePerPost" ASC`;
-        break;
-      case 'priceDesc':
-        secondarySortSql = Prisma.sql`"pricePerPost" DESC`;
-        break;
-      case 'rating':
-        secondarySortSql = Prisma.sql`rating DESC`;
-        break;
-      case 'newest':
-        secondarySortSql = Prisma.sql`"createdAt" DESC`;
-        break;
-      default: // 'subscribers' or undefined
-        secondarySortSql = Prisma.sql`"subscriberCount" DESC`;
-        break;
-    }
-
-    // Search filter for raw SQL
-    const searchFilter = rest.search
-      ? Prisma.sql`AND (title ILIKE ${'%' + rest.search + '%'} OR username ILIKE ${'%' + rest.search + '%'})`
-      : Prisma.empty;
-
-    // Fetch boosted channels first (boostUntil > now), sorted by boostAmount DESC
-    // Then non-boosted channels sorted by selected field
-    const [channels, total] = await Promise.all([
-      this.prisma.$queryRaw<Channel[]>`
-        SELECT * FROM "Channel"
-        WHERE status = ${statusFilter}::text::"ChannelStatus"
-        ${rest.categories?.length ? Prisma.sql`AND categories && ${rest.categories}` : Prisma.empty}
-        ${rest.minSubscribers !== undefined ? Prisma.sql`AND "subscriberCount" >= ${rest.minSubscribers}` : Prisma.empty}
-        ${rest.maxSubscribers !== undefined ? Prisma.sql`AND "subscriberCount" <= ${rest.maxSubscribers}` : Prisma.empty}
-        ${rest.minPrice !== undefined ? Prisma.sql`AND "pricePerPost" >= ${rest.minPrice}::decimal` : Prisma.empty}
-        ${rest.maxPrice !== undefined ? Prisma.sql`AND "pricePerPost" <= ${rest.maxPrice}::decimal` : Prisma.empty}
-        ${rest.language ? Prisma.sql`AND language = ${rest.language}` : Prisma.empty}
-        ${searchFilter}
-        ORDER BY
-          CASE WHEN "boostUntil" > ${now} THEN 0 ELSE 1 END,
-          CASE WHEN "boostUntil" > ${now} THEN "boostAmount" END DESC NULLS LAST,
-          ${secondarySortSql}
-        LIMIT ${limit}
-        OFFSET ${skip}
-      `,
-      this.prisma.channel.count({ where }),
-    ]);
-
-    return {
-      items: channels.map((c) => this.mapToResponse(c)),
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    };
-  }
-
   async findPending(): Promise<ChannelResponseDto[]> {
     const channels = await this.prisma.channel.findMany({
       where: { status: ChannelStatus.PENDING },
@@ -324,39 +227,65 @@ export class ChannelsService {
     }
 
     // Validate formatPrices if provided
-    let formatPricesData: Record<string, string> | undefined;
+    let formatPricesData: FormatPrices | undefined;
     if (dto.formatPrices) {
-      const invalidKeys = Object.keys(dto.formatPrices).filter(
-        (k) => !(AD_FORMAT_KEYS as readonly string[]).includes(k),
+      const invalidCurrencies = Object.keys(dto.formatPrices).filter(
+        (c) => !(Object.values(Currency) as string[]).includes(c),
       );
-      if (invalidKeys.length > 0) {
-        throw new BadRequestException(`Invalid format keys: ${invalidKeys.join(', ')}`);
+      if (invalidCurrencies.length > 0) {
+        throw new BadRequestException(`Invalid currencies: ${invalidCurrencies.join(', ')}`);
       }
-      for (const [key, value] of Object.entries(dto.formatPrices)) {
-        const num = parseFloat(value);
-        if (isNaN(num) || num <= 0) {
-          throw new BadRequestException(`Invalid price for format ${key}: must be a positive number`);
+      for (const [currency, prices] of Object.entries(dto.formatPrices)) {
+        const invalidKeys = Object.keys(prices ?? {}).filter(
+          (k) => !(AD_FORMAT_KEYS as readonly string[]).includes(k),
+        );
+        if (invalidKeys.length > 0) {
+          throw new BadRequestException(`Invalid format keys: ${invalidKeys.join(', ')}`);
+        }
+        for (const [key, value] of Object.entries(prices ?? {})) {
+          const num = parseFloat(value);
+          if (isNaN(num) || num <= 0) {
+            throw new BadRequestException(`Invalid ${currency} price for format ${key}: must be a positive number`);
+          }
         }
       }
       formatPricesData = dto.formatPrices;
     }
 
-    // Auto-calculate pricePerPost as minimum of format prices
+    // Auto-calculate per-currency minimum prices from format prices
+    const minFormatPrice = (currency: Currency): Prisma.Decimal | undefined => {
+      const prices = Object.values(formatPricesData?.[currency] ?? {})
+        .map((v) => parseFloat(v))
+        .filter((v) => v > 0);
+      return prices.length > 0 ? new Prisma.Decimal(Math.min(...prices).toString()) : undefined;
+    };
+
     let pricePerPost = dto.pricePerPost
       ? new Prisma.Decimal(dto.pricePerPost)
       : undefined;
 
     if (formatPricesData && !dto.pricePerPost) {
-      const prices = Object.values(formatPricesData).map((v) => parseFloat(v)).filter((v) => v > 0);
-      if (prices.length > 0) {
-        pricePerPost = new Prisma.Decimal(Math.min(...prices).toString());
-      }
+      pricePerPost = minFormatPrice(Currency.TON) ?? pricePerPost;
+    }
+
+    // USDT is accepted only while the channel has a USDT price; "" clears it
+    let pricePerPostUsdt: Prisma.Decimal | null | undefined = dto.pricePerPostUsdt !== undefined
+      ? (dto.pricePerPostUsdt ? new Prisma.Decimal(dto.pricePerPostUsdt) : null)
+      : undefined;
+
+    if (formatPricesData && !dto.pricePerPostUsdt) {
+      pricePerPostUsdt = minFormatPrice(Currency.USDT) ?? null;
     }
 
+    // A cheaper price is announced to matching saved searches
+    const priceDropped = pricePerPost?.lt(channel.pricePerPost) ?? false;
+
     const updated = await this.prisma.channel.update({
       where: { id },
       data: {
         ...(pricePerPost && { pricePerPost }),
+        ...(priceDropped && { previousPricePerPost: channel.pricePerPost, priceDroppedAt: new Date() }),
+        ...(pricePerPostUsdt !== undefined && { pricePerPostUsdt }),
         ...(dto.categories && { categories: dto.categories }),
         ...(dto.description !== undefined && { description: dto.description }),
         // Ad conditions
@@ -391,6 +320,7 @@ export class ChannelsService {
         status: dto.status,
         rejectionReason: dto.status === ChannelStatus.REJECTED ? dto.rejectionReason : null,
         rejectedByAdminId: dto.status === ChannelStatus.REJECTED ? (adminId ?? null) : null,
+        ...(dto.status === ChannelStatus.ACTIVE && channel.status !== ChannelStatus.ACTIVE && { listedAt: new Date() }),
       },
     });
 
@@ -453,21 +383,8 @@ export class ChannelsService {
     const newBoostUntil = new Date(currentBoostUntil.getTime() + dto.days * 24 * 60 * 60 * 1000);
 
     // Execute transaction: deduct balance, update channel boost, create transaction record
-    const [updated] = await this.prisma.$transaction([
-      this.prisma.channel.update({
-        where: { id },
-        data: {
-          boostAmount: amountPerDay,
-          boostUntil: newBoostUntil,
-        },
-      }),
-      this.prisma.user.update({
-        where: { id: userId },
-        data: {
-          balanceTon: { decrement: totalCost },
-        },
-      }),
-      this.prisma.transaction.create({
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const boostTx = await tx.transaction.create({
         data: {
           amount: totalCost,
           type: 'BOOST_CHANNEL',
@@ -479,8 +396,24 @@ export class ChannelsService {
             amountPerDay: dto.amountPerDay,
           },
         },
-      }),
-    ]);
+      });
+
+      await postJournalEntry(tx, {
+        type: 'BOOST_CHANNEL',
+        transactionId: boostTx.id,
+        movements: [
+          { debit: userAvailable(userId), credit: PLATFORM_FEES_ACCOUNT, amount: totalCost },
+        ],
+      });
+
+      return tx.channel.update({
+        where: { id },
+        data: {
+          boostAmount: amountPerDay,
+          boostUntil: newBoostUntil,
+        },
+      });
+    });
 
     return this.mapToResponse(updated);
   }
@@ -710,7 +643,7 @@ export class ChannelsService {
     }
   }
 
-  private mapToResponse(channel: Channel): ChannelResponseDto {
+  mapToResponse(channel: Channel): ChannelResponseDto {
     const now = new Date();
     const isBoosted = channel.boostUntil !== null && channel.boostUntil > now;
     const ch = channel as any; // For accessing new fields
@@ -728,7 +661,9 @@ export class ChannelsService {
       subscriberCount: channel.subscriberCount,
       avgViews: channel.avgViews,
       pricePerPost: channel.pricePerPost.toString(),
+      pricePerPostUsdt: channel.pricePerPostUsdt?.toString(),
       formatPrices: ch.formatPrices ?? undefined,
+      cpm: channelCpm(channel.pricePerPost, channel.avgViews)?.toString(),
       categories: channel.categories,
       language: channel.language,
       status: channel.status as ChannelStatus,
@@ -9,11 +9,21 @@ import {
   IsIn,
   Min,
   Max,
+  MaxLength,
   ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
   IsEnum,
+  IsNotEmpty,
+  IsNumberString,
+  IsObject,
+  ValidateNested,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
-import { ChannelStatus, CHANNEL_CATEGORIES, SUPPORTED_LANGUAGES, AD_FORMAT_KEYS } from '@tam/shared-types';
+import { ChannelStatus, CHANNEL_CATEGORIES, SUPPORTED_LANGUAGES, AD_FORMAT_KEYS, Currency, MAX_COMPARE_CHANNELS } from '@tam/shared-types';
+
+/** Per-currency format prices: {"TON": {"1_24": "10"}, "USDT": {"1_24": "25"}} */
+export type FormatPrices = Partial<Record<Currency, Record<string, string>>>;
 
 export class CreateChannelDto {
   @ApiProperty({ description: 'Telegram channel ID or @username' })
@@ -40,6 +50,11 @@ export class UpdateChannelDto {
   @IsString()
   pricePerPost?: string;
 
+  @ApiPropertyOptional({ description: 'Price per post in USDT (channel accepts USDT deals only when set, "" to stop accepting USDT)' })
+  @IsOptional()
+  @IsString()
+  pricePerPostUsdt?: string;
+
   @ApiPropertyOptional({ description: 'Channel categories' })
   @IsOptional()
   @IsArray()
@@ -87,23 +102,30 @@ export class UpdateChannelDto {
   allowsNativeAds?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Per-format pricing: {"1_24": "10", "2_48": "18", "no_delete": "25", "repost": "5"}',
+    description: 'Per-currency format pricing: {"TON": {"1_24": "10", "repost": "5"}, "USDT": {"1_24": "25"}}',
   })
   @IsOptional()
-  formatPrices?: Record<string, string>;
+  formatPrices?: FormatPrices;
 }
 
-export class ChannelFiltersDto {
-  @ApiPropertyOptional({ description: 'Search by title or username' })
+/** Catalogue filters that make up a saved search */
+export class SavedSearchFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Full-text search over title, username, description, categories and language (typo tolerant)',
+  })
   @IsOptional()
   @IsString()
+  @MaxLength(200)
   search?: string;
 
-  @ApiPropertyOptional({ description: 'Sort by field', enum: ['subscribers', 'price', 'priceDesc', 'rating', 'newest'] })
+  @ApiPropertyOptional({
+    description: 'Sort by field; relevance (the default when searching) blends text match with rating, completed deals and boost; cpm puts the cheapest reach first',
+    enum: ['relevance', 'subscribers', 'price', 'priceDesc', 'cpm', 'rating', 'newest'],
+  })
   @IsOptional()
   @IsString()
-  @IsIn(['subscribers', 'price', 'priceDesc', 'rating', 'newest'])
-  sortBy?: 'subscribers' | 'price' | 'priceDesc' | 'rating' | 'newest';
+  @IsIn(['relevance', 'subscribers', 'price', 'priceDesc', 'cpm', 'rating', 'newest'])
+  sortBy?: 'relevance' | 'subscribers' | 'price' | 'priceDesc' | 'cpm' | 'rating' | 'newest';
 
   @ApiPropertyOptional({ description: 'Filter by categories' })
   @IsOptional()
@@ -127,19 +149,31 @@ export class ChannelFiltersDto {
 
   @ApiPropertyOptional({ description: 'Minimum price in TON' })
   @IsOptional()
-  @IsString()
+  @IsNumberString()
   minPrice?: string;
 
   @ApiPropertyOptional({ description: 'Maximum price in TON' })
   @IsOptional()
-  @IsString()
+  @IsNumberString()
   maxPrice?: string;
 
+  @ApiPropertyOptional({ description: 'Minimum CPM: TON per 1000 average views of the cheapest post' })
+  @IsOptional()
+  @IsNumberString()
+  minCpm?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum CPM: TON per 1000 average views of the cheapest post' })
+  @IsOptional()
+  @IsNumberString()
+  maxCpm?: string;
+
   @ApiPropertyOptional({ description: 'Filter by language' })
   @IsOptional()
   @IsString()
   language?: string;
+}
 
+export class ChannelFiltersDto extends SavedSearchFiltersDto {
   @ApiPropertyOptional({ description: 'Filter by status', enum: ChannelStatus })
   @IsOptional()
   @IsEnum(ChannelStatus)
@@ -189,8 +223,14 @@ export class ChannelResponseDto {
   @ApiProperty()
   pricePerPost: string;
 
-  @ApiPropertyOptional({ description: 'Per-format pricing' })
-  formatPrices?: Record<string, string>;
+  @ApiPropertyOptional({ description: 'Price per post in USDT; absent when USDT is not accepted' })
+  pricePerPostUsdt?: string;
+
+  @ApiPropertyOptional({ description: 'Per-currency format pricing' })
+  formatPrices?: FormatPrices;
+
+  @ApiPropertyOptional({ description: 'TON per 1000 average views of the cheapest post; absent without views' })
+  cpm?: string;
 
   @ApiProperty()
   categories: string[];
@@ -329,6 +369,267 @@ export class PaginatedChannelsDto {
   totalPages: number;
 }
 
+export class FacetCountDto {
+  @ApiProperty({ example: 'crypto' })
+  value: string;
+
+  @ApiProperty()
+  count: number;
+}
+
+export class RangeFacetDto {
+  @ApiProperty({ description: 'Lower bound, inclusive', example: '5' })
+  min: string;
+
+  @ApiPropertyOptional({ description: 'Upper bound, exclusive; absent for the last bucket', example: '20' })
+  max?: string;
+
+  @ApiProperty()
+  count: number;
+}
+
+/**
+ * Facet counts of a search. Each facet ignores its own filter (so the other
+ * values stay selectable) but applies all the others.
+ */
+export class ChannelSearchFacetsDto {
+  @ApiProperty({ type: [FacetCountDto] })
+  categories: FacetCountDto[];
+
+  @ApiProperty({ type: [FacetCountDto] })
+  languages: FacetCountDto[];
+
+  @ApiProperty({ type: [RangeFacetDto], description: 'Price per post in TON' })
+  priceBuckets: RangeFacetDto[];
+
+  @ApiProperty({ type: [RangeFacetDto] })
+  subscriberBuckets: RangeFacetDto[];
+}
+
+export class ChannelSearchResultDto extends PaginatedChannelsDto {
+  @ApiProperty({ type: ChannelSearchFacetsDto })
+  facets: ChannelSearchFacetsDto;
+}
+
+export class CreateSavedSearchDto {
+  @ApiProperty({ example: 'Crypto under 20 TON' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ type: SavedSearchFiltersDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SavedSearchFiltersDto)
+  filters: SavedSearchFiltersDto;
+
+  @ApiPropertyOptional({ description: 'Send a daily digest of new and cheaper matching channels', default: true })
+  @IsOptional()
+  @IsBoolean()
+  alertsEnabled?: boolean;
+}
+
+export class UpdateSavedSearchDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ type: SavedSearchFiltersDto })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SavedSearchFiltersDto)
+  filters?: SavedSearchFiltersDto;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  alertsEnabled?: boolean;
+}
+
+export class SavedSearchResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ type: SavedSearchFiltersDto })
+  filters: SavedSearchFiltersDto;
+
+  @ApiProperty()
+  alertsEnabled: boolean;
+
+  @ApiPropertyOptional({ description: 'When the last digest window ended' })
+  lastAlertedAt?: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class ChannelCompareQueryDto {
+  @ApiProperty({
+    description: `Comma-separated channel IDs, 2 to ${MAX_COMPARE_CHANNELS}`,
+    example: 'clx1abc,clx2def',
+  })
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value.split(',').map((id) => id.trim()).filter(Boolean)
+      : value
+  )
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMinSize(2)
+  @ArrayMaxSize(MAX_COMPARE_CHANNELS)
+  @ArrayUnique()
+  ids: string[];
+}
+
+export class FormatPriceDto {
+  @ApiProperty({ enum: AD_FORMAT_KEYS })
+  format: string;
+
+  @ApiPropertyOptional({ description: 'Price in TON; absent if the format is not offered' })
+  price?: string;
+
+  @ApiPropertyOptional({ description: 'Price per 1000 views in TON; absent without price or views' })
+  cpm?: string;
+}
+
+export class HistoryPointDto {
+  @ApiProperty({ example: '2026-01-01' })
+  date: string;
+
+  @ApiProperty()
+  value: number;
+}
+
+export class ChannelCompareItemDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiPropertyOptional()
+  username?: string;
+
+  @ApiPropertyOptional()
+  avatarUrl?: string;
+
+  @ApiProperty()
+  subscriberCount: number;
+
+  @ApiProperty()
+  avgViews: number;
+
+  @ApiProperty({ description: 'ER in percent' })
+  engagementRate: number;
+
+  @ApiProperty()
+  subscriberGrowthWeek: number;
+
+  @ApiProperty()
+  subscriberGrowthMonth: number;
+
+  @ApiProperty()
+  rating: number;
+
+  @ApiProperty()
+  reviewsCount: number;
+
+  @ApiProperty({ description: 'Share of successful deals in percent' })
+  successRate: number;
+
+  @ApiProperty()
+  completedDealsCount: number;
+
+  @ApiProperty()
+  isVerified: boolean;
+
+  @ApiProperty()
+  hasVerifiedStats: boolean;
+
+  @ApiProperty({ type: [FormatPriceDto], description: 'One entry per ad format, in AD_FORMAT_KEYS order' })
+  formats: FormatPriceDto[];
+
+  @ApiProperty({ description: 'Audience share per country of the response countries, 0 if unknown' })
+  audienceGeo: Record<string, number>;
+
+  @ApiProperty({ description: 'Audience share per language of the response languages, 0 if unknown' })
+  languageStats: Record<string, number>;
+
+  @ApiProperty({ type: [HistoryPointDto], description: 'Subscriber count per day' })
+  subscribersHistory: HistoryPointDto[];
+
+  @ApiProperty({ type: [HistoryPointDto], description: 'Views per day' })
+  viewsHistory: HistoryPointDto[];
+}
+
+/**
+ * Metrics of several channels aligned for a side-by-side view: channels come
+ * in the requested order and share the same formats, countries and languages.
+ */
+export class ChannelComparisonDto {
+  @ApiProperty({ type: [ChannelCompareItemDto] })
+  channels: ChannelCompareItemDto[];
+
+  @ApiProperty({ description: 'Countries with the largest combined audience share', example: ['RU', 'UA'] })
+  countries: string[];
+
+  @ApiProperty({ description: 'Languages with the largest combined audience share', example: ['ru', 'en'] })
+  languages: string[];
+}
+
+export class FormatPriceRecommendationDto extends FormatPriceDto {
+  @ApiProperty({ description: 'Peer channels with a price for this format' })
+  peerCount: number;
+
+  @ApiPropertyOptional({ description: 'Median peer CPM in TON' })
+  benchmarkCpm?: string;
+
+  @ApiPropertyOptional({ description: 'Price at the lower quartile of peer CPM' })
+  recommendedMin?: string;
+
+  @ApiPropertyOptional({ description: 'Price at the median peer CPM' })
+  recommendedPrice?: string;
+
+  @ApiPropertyOptional({ description: 'Price at the upper quartile of peer CPM' })
+  recommendedMax?: string;
+}
+
+/**
+ * Price recommendation for a channel owner: the channel's CPM per ad format
+ * against channels of the same size bucket. Recommendations are absent when
+ * the channel has no views or too few peers price the format.
+ */
+export class ChannelPricingDto {
+  @ApiProperty({ description: 'Average views the recommended prices are based on' })
+  avgViews: number;
+
+  @ApiPropertyOptional({
+    description: 'Peers the benchmark was drawn from: same categories, language and size; same language and size; or same size only',
+    enum: ['categories', 'language', 'size'],
+  })
+  benchmark?: 'categories' | 'language' | 'size';
+
+  @ApiProperty({ description: 'Size bucket of the channel: lower bound of subscribers, inclusive' })
+  minSubscribers: number;
+
+  @ApiPropertyOptional({ description: 'Upper bound of subscribers, exclusive; absent for the largest bucket' })
+  maxSubscribers?: number;
+
+  @ApiProperty({ description: 'Peer channels in the benchmark' })
+  peerCount: number;
+
+  @ApiProperty({ type: [FormatPriceRecommendationDto], description: 'One entry per ad format, in AD_FORMAT_KEYS order' })
+  formats: FormatPriceRecommendationDto[];
+}
+
 export class CreateChannelByLinkDto {
   @ApiProperty({
     description: 'Channel link (@username, t.me/username, or https://t.me/username)',
@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { SavedSearchesService } from './saved-searches.service';
+import {
+  CreateSavedSearchDto,
+  UpdateSavedSearchDto,
+  SavedSearchResponseDto,
+} from './dto/channel.dto';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('Saved searches')
+@Controller('saved-searches')
+@UseGuards(AuthGuard('jwt'))
+@ApiBearerAuth()
+export class SavedSearchesController {
+  constructor(private savedSearchesService: SavedSearchesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get user saved channel searches' })
+  async findAll(@CurrentUser() user: CurrentUserData): Promise<SavedSearchResponseDto[]> {
+    return this.savedSearchesService.findAll(user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Save channel search filters' })
+  async create(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CreateSavedSearchDto
+  ): Promise<SavedSearchResponseDto> {
+    return this.savedSearchesService.create(user.id, dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename a saved search, change its filters or toggle alerts' })
+  async update(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: UpdateSavedSearchDto
+  ): Promise<SavedSearchResponseDto> {
+    return this.savedSearchesService.update(id, user.id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a saved search' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<void> {
+    return this.savedSearchesService.remove(id, user.id);
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma, SavedSearch } from '@tam/prisma-client';
+import { MAX_SAVED_SEARCHES_PER_USER } from '@tam/shared-types';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import {
+  CreateSavedSearchDto,
+  UpdateSavedSearchDto,
+  SavedSearchFiltersDto,
+  SavedSearchResponseDto,
+} from './dto/channel.dto';
+
+/**
+ * Named catalogue filters of a user. With alerts on, the workers send a daily
+ * digest of channels matching them that were listed or got cheaper.
+ */
+@Injectable()
+export class SavedSearchesService {
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(userId: string): Promise<SavedSearchResponseDto[]> {
+    const searches = await this.prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return searches.map((s) => this.mapToResponse(s));
+  }
+
+  async create(userId: string, dto: CreateSavedSearchDto): Promise<SavedSearchResponseDto> {
+    const count = await this.prisma.savedSearch.count({ where: { userId } });
+    if (count >= MAX_SAVED_SEARCHES_PER_USER) {
+      throw new BadRequestException(`Maximum ${MAX_SAVED_SEARCHES_PER_USER} saved searches allowed`);
+    }
+
+    const search = await this.prisma.savedSearch.create({
+      data: {
+        userId,
+        name: dto.name.trim(),
+        filters: this.toJson(dto.filters),
+        alertsEnabled: dto.alertsEnabled ?? true,
+      },
+    });
+
+    return this.mapToResponse(search);
+  }
+
+  async update(id: string, userId: string, dto: UpdateSavedSearchDto): Promise<SavedSearchResponseDto> {
+    const search = await this.getOwned(id, userId);
+
+    // Re-enabled alerts start from now rather than catching up on the silent period
+    const alertsResumed = dto.alertsEnabled === true && !search.alertsEnabled;
+
+    const updated = await this.prisma.savedSearch.update({
+      where: { id },
+      data: {
+        ...(dto.name !== undefined && { name: dto.name.trim() }),
+        ...(dto.filters !== undefined && { filters: this.toJson(dto.filters) }),
+        ...(dto.alertsEnabled !== undefined && { alertsEnabled: dto.alertsEnabled }),
+        ...(alertsResumed && { lastAlertedAt: new Date() }),
+      },
+    });
+
+    return this.mapToResponse(updated);
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    await this.getOwned(id, userId);
+    await this.prisma.savedSearch.delete({ where: { id } });
+  }
+
+  private async getOwned(id: string, userId: string): Promise<SavedSearch> {
+    const search = await this.prisma.savedSearch.findUnique({
+      where: { id },
+    });
+
+    if (!search || search.userId !== userId) {
+      throw new NotFoundException('Saved search not found');
+    }
+
+    return search;
+  }
+
+  // Plain JSON without the undefined fields of the DTO
+  private toJson(filters: SavedSearchFiltersDto): Prisma.InputJsonObject {
+    return JSON.parse(JSON.stringify(filters)) as Prisma.InputJsonObject;
+  }
+
+  private mapToResponse(search: SavedSearch): SavedSearchResponseDto {
+    return {
+      id: search.id,
+      name: search.name,
+      filters: search.filters as SavedSearchFiltersDto,
+      alertsEnabled: search.alertsEnabled,
+      lastAlertedAt: search.lastAlertedAt?.toISOString(),
+      createdAt: search.createdAt.toISOString(),
+    };
+  }
+}
@@ -15,6 +15,8 @@ import { DealsService } from './deals.service';
 import { DealMessagesService } from './deal-messages.service';
 import {
   CreateDealDto,
+  CheckoutDealsDto,
+  CheckoutResponseDto,
   DisputeDealDto,
   DealFiltersDto,
   DealResponseDto,
@@ -24,8 +26,13 @@ import {
   ApplyToCampaignDto,
   SendMessageDto,
   DealMessageResponseDto,
+  CreateDealOfferDto,
+  DealOfferResponseDto,
+  DealMetricsResponseDto,
 } from './dto/deal.dto';
+import { DealClickStatsDto } from '../links/dto/link.dto';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 import { DealAction } from './state-machine/deal-state.machine';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { RolesGuard } from '../../common/guards/roles.guard';
@@ -42,6 +49,7 @@ export class DealsController {
   ) {}
 
   @Post()
+  @Idempotent()
   @ApiOperation({ summary: 'Create a new deal request (PENDING status)' })
   async create(
     @CurrentUser() user: CurrentUserData,
@@ -50,6 +58,16 @@ export class DealsController {
     return this.dealsService.create(user.id, dto);
   }
 
+  @Post('checkout')
+  @Idempotent()
+  @ApiOperation({ summary: 'Buy a cart of channels: one deal per channel, funds locked up front' })
+  async checkout(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CheckoutDealsDto
+  ): Promise<CheckoutResponseDto> {
+    return this.dealsService.checkout(user.id, dto);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get user deals' })
   async findAll(
@@ -86,7 +104,26 @@ export class DealsController {
     return this.dealsService.getAvailableActions(id, user.id);
   }
 
+  @Get(':id/metrics')
+  @ApiOperation({ summary: 'Get time series of the ad post views, forwards and reactions' })
+  async getMetrics(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<DealMetricsResponseDto> {
+    return this.dealsService.getMetrics(id, user.id);
+  }
+
+  @Get(':id/clicks')
+  @ApiOperation({ summary: 'Get clicks on the tracked links of the ad posts' })
+  async getClickStats(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<DealClickStatsDto> {
+    return this.dealsService.getClickStats(id, user.id);
+  }
+
   @Post(':id/approve')
+  @Idempotent()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Approve deal (channel owner)',
@@ -165,6 +202,31 @@ export class DealsController {
     return this.dealsService.rejectContent(id, user.id, dto);
   }
 
+  // ============ COUNTER-OFFER ENDPOINTS ============
+
+  @Post(':id/offers')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Propose other terms for a pending deal (counter-offer)' })
+  async proposeOffer(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CreateDealOfferDto
+  ): Promise<DealOfferResponseDto> {
+    return this.dealsService.proposeOffer(id, user.id, dto);
+  }
+
+  @Post(':id/offers/:offerId/accept')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Accept the other party's offer: the deal is approved with its terms" })
+  async acceptOffer(
+    @Param('id') id: string,
+    @Param('offerId') offerId: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<DealResponseDto> {
+    return this.dealsService.acceptOffer(id, offerId, user.id);
+  }
+
   // ============ MESSAGING ENDPOINTS ============
 
   @Get(':id/messages')
@@ -2,15 +2,19 @@ import { Module } from '@nestjs/common';
 import { DealsController } from './deals.controller';
 import { DealsService } from './deals.service';
 import { DealMessagesService } from './deal-messages.service';
+import { RecurringDealsController } from './recurring-deals.controller';
+import { RecurringDealsService } from './recurring-deals.service';
 import { DealStateMachine } from './state-machine/deal-state.machine';
 import { EscrowModule } from '../escrow/escrow.module';
 import { NotificationModule } from '../../common/notification/notification.module';
 import { ChannelsModule } from '../channels/channels.module';
+import { FeesModule } from '../fees/fees.module';
+import { LinksModule } from '../links/links.module';
 
 @Module({
-  imports: [EscrowModule, NotificationModule, ChannelsModule],
-  controllers: [DealsController],
-  providers: [DealsService, DealMessagesService, DealStateMachine],
+  imports: [EscrowModule, NotificationModule, ChannelsModule, FeesModule, LinksModule],
+  controllers: [DealsController, RecurringDealsController],
+  providers: [DealsService, DealMessagesService, RecurringDealsService, DealStateMachine],
   exports: [DealsService, DealStateMachine],
 })
 export class DealsModule {}
@@ -0,0 +1,318 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { Prisma, postJournalEntry, userAvailable, userFrozen } from '@tam/prisma-client';
+import { ContentType } from '@tam/shared-types';
+import { DealsService } from './deals.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { DealStateMachine } from './state-machine/deal-state.machine';
+import { EscrowService } from '../escrow/escrow.service';
+import { NotificationService } from '../../common/notification/notification.service';
+import { ChannelAdminsService } from '../channels/channel-admins.service';
+import { FeesService } from '../fees/fees.service';
+import { LinksService } from '../links/links.service';
+
+jest.mock('@tam/prisma-client', () => ({
+  ...jest.requireActual('@tam/prisma-client'),
+  postJournalEntry: jest.fn(),
+}));
+
+const d = (value: string) => new Prisma.Decimal(value);
+
+describe('DealsService', () => {
+  let deals: Map<string, Record<string, unknown>>;
+  let prisma: {
+    $queryRaw: jest.Mock;
+    user: { findUnique: jest.Mock };
+    campaign: { findUnique: jest.Mock };
+    channel: { findUnique: jest.Mock };
+    dealCheckout: { create: jest.Mock };
+    deal: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      update: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    dealOffer: { findUnique: jest.Mock; updateMany: jest.Mock };
+    transaction: { create: jest.Mock };
+    dealStatusHistory: { create: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let fees: { quoteDeal: jest.Mock; findValidPromoCode: jest.Mock; redeemPromoCode: jest.Mock };
+  let escrow: { lockFundsForDeal: jest.Mock; prepareEscrowContract: jest.Mock };
+  let notifications: { send: jest.Mock };
+  let service: DealsService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  function channel(id: string) {
+    return { id, title: `Channel ${id}`, status: 'ACTIVE', ownerId: `owner-${id}`, categories: [] };
+  }
+
+  function pendingDeal(id: string, amount: string, fee: string, checkoutId: string | null) {
+    const deal = {
+      id,
+      status: 'PENDING',
+      amount: d(amount),
+      platformFee: d(fee),
+      currency: 'TON',
+      advertiserId: 'adv',
+      channelOwnerId: `owner-${id}`,
+      channelId: `ch-${id}`,
+      checkoutId,
+      escrowMode: 'CUSTODIAL',
+      feeBreakdown: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    deals.set(id, deal);
+    return deal;
+  }
+
+  // Amounts moved by the journal entries posted so far
+  const journal = () =>
+    jest.mocked(postJournalEntry).mock.calls.map(([, entry]) => ({
+      type: entry.type,
+      movements: entry.movements.map((m) => ({ ...m, amount: m.amount.toString() })),
+    }));
+
+  beforeEach(() => {
+    jest.mocked(postJournalEntry).mockReset();
+    deals = new Map();
+
+    prisma = {
+      $queryRaw: jest.fn(),
+      user: { findUnique: jest.fn().mockResolvedValue({ id: 'adv', balanceTon: d('100') }) },
+      campaign: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'campaign-1', advertiserId: 'adv', currency: 'TON' }),
+      },
+      channel: { findUnique: jest.fn(async ({ where }) => channel(where.id)) },
+      dealCheckout: { create: jest.fn().mockResolvedValue({ id: 'checkout-1' }) },
+      deal: {
+        create: jest.fn(async ({ data }) => ({
+          ...data,
+          id: `deal-${data.channelId}`,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })),
+        findUnique: jest.fn(async ({ where }) => deals.get(where.id) ?? null),
+        findUniqueOrThrow: jest.fn(async ({ where }) => ({ ...deals.get(where.id) })),
+        update: jest.fn(async ({ where, data }) => Object.assign(deals.get(where.id)!, data)),
+        // Moves the deal only from the status it is guarded by, as the database would
+        updateMany: jest.fn(async ({ where, data }) => {
+          const deal = deals.get(where.id);
+          if (!deal || deal.status !== where.status) return { count: 0 };
+          Object.assign(deal, data);
+          return { count: 1 };
+        }),
+      },
+      dealOffer: { findUnique: jest.fn(), updateMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      transaction: { create: jest.fn(async ({ data }) => ({ ...data, id: `tx-${data.dealId}` })) },
+      dealStatusHistory: { create: jest.fn() },
+      $transaction: jest.fn(async (fn: (tx: unknown) => unknown) => fn(prisma)),
+    };
+    fees = {
+      quoteDeal: jest.fn(async ({ amount }) => ({
+        fee: amount.mul('0.05'),
+        breakdown: { basePercent: 5, fee: amount.mul('0.05').toString() },
+      })),
+      findValidPromoCode: jest.fn(),
+      redeemPromoCode: jest.fn(),
+    };
+    escrow = { lockFundsForDeal: jest.fn(), prepareEscrowContract: jest.fn() };
+    notifications = { send: jest.fn() };
+
+    service = new DealsService(
+      prisma as unknown as PrismaService,
+      new DealStateMachine(),
+      escrow as unknown as EscrowService,
+      notifications as unknown as NotificationService,
+      { isChannelAdmin: jest.fn().mockResolvedValue(false) } as unknown as ChannelAdminsService,
+      fees as unknown as FeesService,
+      {} as LinksService,
+    );
+  });
+
+  describe('checkout', () => {
+    const cart = {
+      campaignId: 'campaign-1',
+      contentType: ContentType.TEXT,
+      contentText: 'Ad',
+      items: [
+        { channelId: 'a', amount: '10' },
+        { channelId: 'b', amount: '20' },
+      ],
+    };
+
+    it('locks the share of every deal with the user row locked for the balance check', async () => {
+      const result = await service.checkout('adv', cart);
+
+      expect(result).toMatchObject({ checkoutId: 'checkout-1', totalLocked: '31.5', created: 2, failed: 0 });
+      expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        prisma.user.findUnique.mock.invocationCallOrder[0]!,
+      );
+      expect(journal()).toEqual([
+        { type: 'ESCROW_LOCK', movements: [{ debit: userAvailable('adv'), credit: userFrozen('adv'), amount: '10.5' }] },
+        { type: 'ESCROW_LOCK', movements: [{ debit: userAvailable('adv'), credit: userFrozen('adv'), amount: '21' }] },
+      ]);
+      expect(prisma.deal.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ checkoutId: 'checkout-1', status: 'PENDING' }),
+      });
+    });
+
+    it('creates nothing when the balance does not cover the whole cart', async () => {
+      prisma.user.findUnique.mockResolvedValue({ id: 'adv', balanceTon: d('31.4') });
+
+      await expect(service.checkout('adv', cart)).rejects.toThrow('Insufficient balance');
+
+      expect(prisma.dealCheckout.create).not.toHaveBeenCalled();
+      expect(prisma.deal.create).not.toHaveBeenCalled();
+      expect(postJournalEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectDeal', () => {
+    it('refunds only the share of the rejected deal of a cart', async () => {
+      pendingDeal('a', '10', '0.5', 'checkout-1');
+      pendingDeal('b', '20', '1', 'checkout-1');
+
+      await service.rejectDeal('a', 'owner-a', 'Not our audience');
+
+      expect(deals.get('a')!.status).toBe('CANCELLED');
+      expect(deals.get('b')!.status).toBe('PENDING');
+      expect(journal()).toEqual([
+        { type: 'ESCROW_REFUND', movements: [{ debit: userFrozen('adv'), credit: userAvailable('adv'), amount: '10.5' }] },
+      ]);
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'ESCROW_REFUND',
+          dealId: 'a',
+          metadata: { action: 'checkout_refund', checkoutId: 'checkout-1' },
+        }),
+      });
+    });
+
+    it('refunds nothing for a deal created on its own', async () => {
+      pendingDeal('a', '10', '0.5', null);
+
+      await service.rejectDeal('a', 'owner-a');
+
+      expect(deals.get('a')!.status).toBe('CANCELLED');
+      expect(postJournalEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('refunds a cart share once when the deal is cancelled twice', async () => {
+      const deal = pendingDeal('a', '10', '0.5', 'checkout-1');
+      // Both requests read the deal before either of them moved it
+      prisma.deal.findUnique.mockResolvedValue({ ...deal });
+
+      await service.cancel('a', 'adv');
+      await expect(service.cancel('a', 'adv')).rejects.toThrow(BadRequestException);
+
+      expect(postJournalEntry).toHaveBeenCalledTimes(1);
+      expect(prisma.dealStatusHistory.create).toHaveBeenCalledTimes(1);
+      expect(notifications.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('refunds nothing once the owner has rejected the deal', async () => {
+      const deal = pendingDeal('a', '10', '0.5', 'checkout-1');
+      prisma.deal.findUnique.mockResolvedValue({ ...deal });
+      await service.rejectDeal('a', 'owner-a');
+
+      await expect(service.cancel('a', 'adv')).rejects.toThrow('no longer pending');
+
+      expect(postJournalEntry).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('approveDeal', () => {
+    beforeEach(() => {
+      jest.spyOn(service, 'assertBotCanPost').mockResolvedValue({ title: 'Channel a' });
+    });
+
+    it("locks the advertiser's funds in the transaction that moves the deal", async () => {
+      pendingDeal('a', '10', '0.5', null);
+
+      await service.approveDeal('a', 'owner-a');
+
+      expect(deals.get('a')!.status).toBe('CONTENT_PENDING');
+      expect(escrow.lockFundsForDeal).toHaveBeenCalledWith(prisma, 'adv', 'a', '10.5', 'TON');
+    });
+
+    it('locks nothing once the advertiser has cancelled the deal', async () => {
+      const deal = pendingDeal('a', '10', '0.5', null);
+      prisma.deal.findUnique.mockResolvedValue({ ...deal });
+      await service.cancel('a', 'adv');
+
+      await expect(service.approveDeal('a', 'owner-a')).rejects.toThrow('no longer pending');
+
+      expect(escrow.lockFundsForDeal).not.toHaveBeenCalled();
+      expect(deals.get('a')!.status).toBe('CANCELLED');
+    });
+  });
+
+  describe('acceptOffer', () => {
+    function offer(amount: string, fee: string) {
+      const pending = {
+        id: 'offer-1',
+        dealId: 'a',
+        status: 'PENDING',
+        proposedById: 'owner-a',
+        amount: d(amount),
+        platformFee: d(fee),
+        adFormat: null,
+        scheduledPostTime: null,
+        createdAt: new Date(),
+      };
+      prisma.dealOffer.findUnique.mockResolvedValue(pending);
+      prisma.dealOffer.updateMany.mockResolvedValueOnce({ count: 1 });
+      return pending;
+    }
+
+    beforeEach(() => {
+      jest.spyOn(service, 'assertBotCanPost').mockResolvedValue({ title: 'Channel a' });
+    });
+
+    it('locks the difference of a higher price for a cart deal with the user row locked', async () => {
+      pendingDeal('a', '10', '0.5', 'checkout-1');
+      offer('12', '0.6');
+
+      await service.acceptOffer('a', 'offer-1', 'adv');
+
+      expect(deals.get('a')).toMatchObject({ status: 'CONTENT_PENDING', amount: d('12'), platformFee: d('0.6') });
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(2);
+      expect(journal()).toEqual([
+        { type: 'ESCROW_LOCK', movements: [{ debit: userAvailable('adv'), credit: userFrozen('adv'), amount: '2.1' }] },
+      ]);
+      expect(escrow.lockFundsForDeal).not.toHaveBeenCalled();
+    });
+
+    it('reprices from the terms read in the transaction, not the ones read before it', async () => {
+      const deal = pendingDeal('a', '10', '0.5', 'checkout-1');
+      prisma.deal.findUnique.mockResolvedValue({ ...deal, amount: d('5'), platformFee: d('0.25') });
+      offer('8', '0.4');
+
+      await service.acceptOffer('a', 'offer-1', 'adv');
+
+      expect(journal()).toEqual([
+        { type: 'ESCROW_REFUND', movements: [{ debit: userFrozen('adv'), credit: userAvailable('adv'), amount: '2.1' }] },
+      ]);
+    });
+
+    it('fails as a whole when the advertiser cannot pay the new price', async () => {
+      pendingDeal('a', '10', '0.5', null);
+      offer('12', '0.6');
+      escrow.lockFundsForDeal.mockRejectedValue(new BadRequestException('Advertiser has insufficient balance'));
+
+      await expect(service.acceptOffer('a', 'offer-1', 'adv')).rejects.toThrow('insufficient balance');
+
+      // Everything above ran in the one transaction that is rolled back
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(escrow.lockFundsForDeal).toHaveBeenCalledWith(prisma, 'adv', 'a', '12.6', 'TON');
+      expect(notifications.send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -8,17 +8,33 @@ import {
 import { PrismaService } from '../../common/prisma/prisma.service';
 import {
   DealStatus,
+  DealSlotStatus,
+  DealOfferStatus,
   ContentType,
+  Currency,
   DisputeReason,
-  PLATFORM_FEE_PERCENT,
+  EscrowMode,
+  EscrowContractStatus,
+  ViewsShortfallPolicy,
+  FeeBreakdown,
   APPEAL_WINDOW_DISPUTE_MS,
+  CONTENT_SUBMISSION_DEADLINE_MS,
+  CONTENT_APPROVAL_DEADLINE_MS,
 } from '@tam/shared-types';
 import { sanitizeHtml, sanitizeUrl } from '@tam/security';
 import {
   CreateDealDto,
+  CheckoutDealsDto,
+  CheckoutItemDto,
+  CheckoutItemResultDto,
+  CheckoutResponseDto,
   DisputeDealDto,
   DealFiltersDto,
   DealResponseDto,
+  DealSlotResponseDto,
+  CreateDealOfferDto,
+  DealOfferResponseDto,
+  DealMetricsResponseDto,
   PaginatedDealsDto,
   RejectContentDto,
   ApplyToCampaignDto,
@@ -26,11 +42,44 @@ import {
 } from './dto/deal.dto';
 import { SubmitContentDto } from './dto/deal.dto';
 import { DealStateMachine, DealAction } from './state-machine/deal-state.machine';
-import { Prisma, Deal } from '@tam/prisma-client';
+import {
+  Prisma,
+  Deal,
+  DealSlot,
+  DealOffer,
+  Channel,
+  postJournalEntry,
+  userAvailable,
+  userFrozen,
+  userAppealFrozen,
+  USER_BALANCE_COLUMNS,
+  splitDealAmounts,
+  unreleasedDealAmounts,
+} from '@tam/prisma-client';
 import { EscrowService } from '../escrow/escrow.service';
+import { FeesService } from '../fees/fees.service';
+import { LinksService } from '../links/links.service';
+import { DealClickStatsDto } from '../links/dto/link.dto';
 import { NotificationService } from '../../common/notification/notification.service';
 import { ChannelAdminsService } from '../channels/channel-admins.service';
 
+const ROLE_LABELS = {
+  advertiser: 'advertiser',
+  channel_owner: 'channel owner',
+} as const;
+
+// A deal checked against its channel and priced, ready to be created
+interface PreparedDeal {
+  channel: Channel;
+  amount: Prisma.Decimal;
+  platformFee: Prisma.Decimal;
+  feeBreakdown: FeeBreakdown;
+  promoCodeId?: string;
+  adFormat?: string;
+  scheduledPostTime?: Date;
+  slots: Prisma.DealSlotCreateWithoutDealInput[];
+}
+
 @Injectable()
 export class DealsService {
   private readonly logger = new Logger(DealsService.name);
@@ -41,6 +90,8 @@ export class DealsService {
     private escrowService: EscrowService,
     private notificationService: NotificationService,
     private channelAdminsService: ChannelAdminsService,
+    private feesService: FeesService,
+    private linksService: LinksService,
   ) {}
 
   /**
@@ -58,65 +109,97 @@ export class DealsService {
       throw new ForbiddenException('Campaign not found or not authorized');
     }
 
-    // Verify channel exists and is active
-    const channel = await this.prisma.channel.findUnique({
-      where: { id: dto.channelId },
-    });
-
-    if (!channel || channel.status !== 'ACTIVE') {
-      throw new BadRequestException('Channel not found or not active');
-    }
-
-    // Cannot create deal for own channel
-    if (channel.ownerId === userId) {
-      throw new BadRequestException('Cannot create deal for your own channel');
-    }
-
-    // Calculate amounts
-    const amount = new Prisma.Decimal(dto.amount);
-    const platformFee = amount.mul(PLATFORM_FEE_PERCENT).div(100);
+    // The deal is settled in the campaign's currency
+    const currency = campaign.currency as Currency;
+    const { channel, amount, platformFee, feeBreakdown, promoCodeId, slots } = await this.prepareDeal(
+      userId,
+      currency,
+      dto,
+      dto.promoCode?.trim() || undefined,
+    );
     const totalRequired = amount.add(platformFee);
 
     // Check if user has enough balance (but don't lock yet)
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
-      select: { balanceTon: true },
     });
+    const available = user?.[USER_BALANCE_COLUMNS[currency].balance];
 
-    if (!user || user.balanceTon.lessThan(totalRequired)) {
+    const escrowMode = dto.escrowMode ?? EscrowMode.CUSTODIAL;
+    // An escrow contract pays out once; slots are paid out one by one
+    if (dto.slots && escrowMode === EscrowMode.CONTRACT) {
+      throw new BadRequestException('Multi-slot deals use custodial escrow');
+    }
+    const viewsShortfallPolicy = this.viewsShortfallPolicy(dto.minViewsRequired, dto.viewsShortfallPolicy);
+    // A contract pays out all or nothing
+    if (escrowMode === EscrowMode.CONTRACT && viewsShortfallPolicy === ViewsShortfallPolicy.PRO_RATA) {
+      throw new BadRequestException('Pro-rata views guarantee needs custodial escrow');
+    }
+    if (escrowMode === EscrowMode.CONTRACT) {
+      if (currency !== 'TON') {
+        throw new BadRequestException('On-chain escrow is only available for TON deals');
+      }
+      if (!this.escrowService.hasEscrowContractSupport()) {
+        throw new BadRequestException('On-chain escrow is not available');
+      }
+      // Refunds are paid straight to the advertiser's wallet
+      if (!user?.walletAddress) {
+        throw new BadRequestException('Connect a wallet to use on-chain escrow');
+      }
+    }
+
+    if (!available || available.lessThan(totalRequired)) {
       throw new BadRequestException(
-        `Insufficient balance. Required: ${totalRequired.toString()} TON (including ${PLATFORM_FEE_PERCENT}% fee), Available: ${user?.balanceTon.toString() ?? '0'} TON`
+        `Insufficient balance. Required: ${totalRequired.toString()} ${currency} (including ${feeBreakdown.feePercent}% fee), Available: ${available?.toString() ?? '0'} ${currency}`
       );
     }
 
-    // Sanitize user-provided content
-    const sanitizedText = dto.contentText ? sanitizeHtml(dto.contentText) : undefined;
-    const sanitizedUrls = dto.contentMediaUrls
-      ?.map((url) => sanitizeUrl(url))
-      .filter((url): url is string => url !== null) ?? [];
+    const content = this.sanitizeContent(dto.contentText, dto.contentMediaUrls);
 
-    // Create deal in PENDING status
-    const deal = await this.prisma.deal.create({
-      data: {
-        amount,
-        platformFee,
-        status: DealStatus.PENDING,
-        contentType: dto.contentType,
-        contentText: sanitizedText,
-        contentMediaUrls: sanitizedUrls,
-        scheduledPostTime: dto.scheduledPostTime
-          ? new Date(dto.scheduledPostTime)
-          : undefined,
-        minViewsRequired: dto.minViewsRequired,
-        campaignId: dto.campaignId,
-        channelId: dto.channelId,
-        advertiserId: userId,
-        channelOwnerId: channel.ownerId,
-      },
+    // Create deal in PENDING status; the promo code use is counted with it
+    const deal = await this.prisma.$transaction(async (tx) => {
+      if (promoCodeId) {
+        await this.feesService.redeemPromoCode(tx, promoCodeId);
+      }
+
+      return tx.deal.create({
+        data: {
+          amount,
+          platformFee,
+          feeBreakdown,
+          promoCodeId,
+          currency,
+          escrowMode,
+          status: DealStatus.PENDING,
+          contentType: dto.contentType,
+          contentText: content.text,
+          contentMediaUrls: content.mediaUrls,
+          // A multi-slot deal starts with its first post
+          scheduledPostTime: slots[0]?.scheduledPostTime
+            ?? (dto.scheduledPostTime ? new Date(dto.scheduledPostTime) : undefined),
+          minViewsRequired: dto.minViewsRequired,
+          viewsShortfallPolicy,
+          trackLinks: dto.trackLinks ?? false,
+          adFormat: dto.adFormat ?? null,
+          contentSubmissionHours: dto.contentSubmissionHours ?? null,
+          contentApprovalHours: dto.contentApprovalHours ?? null,
+          campaignId: dto.campaignId,
+          channelId: dto.channelId,
+          advertiserId: userId,
+          channelOwnerId: channel.ownerId,
+          ...(slots.length > 0 && { slots: { create: slots } }),
+        },
+        include: { slots: { orderBy: { position: 'asc' } } },
+      });
     });
 
     // Record status history
-    await this.recordStatusChange(deal.id, null, DealStatus.PENDING, 'Deal request created');
+    await this.recordStatusChange(
+      deal.id,
+      null,
+      DealStatus.PENDING,
+      slots.length > 0 ? `Deal request created for ${slots.length} posts` : 'Deal request created',
+    );
 
     this.logger.log(`Deal ${deal.id} created by user ${userId} for channel ${channel.title}`);
 
@@ -125,12 +208,296 @@ export class DealsService {
       channelId: channel.id,
       channelTitle: channel.title,
       amount: amount.toString(),
+      currency: deal.currency,
       miniAppPath: `/deals/${deal.id}`,
     });
 
     return this.mapToResponse(deal);
   }
 
+  /**
+   * Cart checkout: the same creative on many channels under one campaign.
+   * Channels that cannot be bought are reported and skipped; the rest is
+   * created at once, with the funds of every deal locked up front. A deal
+   * the channel owner rejects refunds only its own share.
+   */
+  async checkout(userId: string, dto: CheckoutDealsDto): Promise<CheckoutResponseDto> {
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id: dto.campaignId },
+    });
+
+    if (!campaign || campaign.advertiserId !== userId) {
+      throw new ForbiddenException('Campaign not found or not authorized');
+    }
+
+    const channelIds = dto.items.map((item) => item.channelId);
+    if (new Set(channelIds).size !== channelIds.length) {
+      throw new BadRequestException('Each channel can be in the cart only once');
+    }
+
+    // A bad promo code fails the whole cart rather than every channel in it
+    const promoCode = dto.promoCode?.trim() || undefined;
+    if (promoCode) {
+      await this.feesService.findValidPromoCode(promoCode);
+    }
+
+    const currency = campaign.currency as Currency;
+    const viewsShortfallPolicy = this.viewsShortfallPolicy(dto.minViewsRequired, dto.viewsShortfallPolicy);
+    const results: CheckoutItemResultDto[] = [];
+    const prepared: PreparedDeal[] = [];
+
+    for (const item of dto.items) {
+      try {
+        prepared.push(await this.prepareDeal(userId, currency, item, promoCode));
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) throw error;
+        results.push({ channelId: item.channelId, status: 'FAILED', error: error.message });
+      }
+    }
+
+    if (prepared.length === 0) {
+      throw new BadRequestException('None of the channels in the cart can be bought');
+    }
+
+    const totalRequired = prepared.reduce(
+      (sum, p) => sum.add(p.amount).add(p.platformFee),
+      new Prisma.Decimal(0),
+    );
+    const content = this.sanitizeContent(dto.contentText, dto.contentMediaUrls);
+    const promoCodeId = prepared.find((p) => p.promoCodeId)?.promoCodeId;
+
+    const { checkoutId, deals } = await this.prisma.$transaction(async (tx) => {
+      // Balance checked once for the whole cart. The user row stays locked until
+      // commit, so concurrent checkouts and withdrawals cannot spend it meanwhile
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+      const user = await tx.user.findUnique({ where: { id: userId } });
+      const available = user?.[USER_BALANCE_COLUMNS[currency].balance];
+      if (!available || available.lessThan(totalRequired)) {
+        throw new BadRequestException(
+          `Insufficient balance. Required: ${totalRequired.toString()} ${currency} (including fees), Available: ${available?.toString() ?? '0'} ${currency}`
+        );
+      }
+
+      // One use of the promo code per checkout
+      if (promoCodeId) {
+        await this.feesService.redeemPromoCode(tx, promoCodeId);
+      }
+
+      const checkout = await tx.dealCheckout.create({
+        data: {
+          advertiserId: userId,
+          campaignId: campaign.id,
+          currency,
+          totalAmount: totalRequired,
+        },
+      });
+
+      const created: Deal[] = [];
+      for (const p of prepared) {
+        const deal = await tx.deal.create({
+          data: {
+            amount: p.amount,
+            platformFee: p.platformFee,
+            feeBreakdown: p.feeBreakdown,
+            promoCodeId: p.promoCodeId ?? null,
+            currency,
+            escrowMode: EscrowMode.CUSTODIAL,
+            status: DealStatus.PENDING,
+            contentType: dto.contentType,
+            contentText: content.text,
+            contentMediaUrls: content.mediaUrls,
+            scheduledPostTime: p.slots[0]?.scheduledPostTime ?? p.scheduledPostTime ?? null,
+            minViewsRequired: dto.minViewsRequired ?? null,
+            viewsShortfallPolicy,
+            trackLinks: dto.trackLinks ?? false,
+            adFormat: p.adFormat ?? null,
+            contentSubmissionHours: dto.contentSubmissionHours ?? null,
+            contentApprovalHours: dto.contentApprovalHours ?? null,
+            campaignId: campaign.id,
+            channelId: p.channel.id,
+            advertiserId: userId,
+            channelOwnerId: p.channel.ownerId,
+            checkoutId: checkout.id,
+            ...(p.slots.length > 0 && { slots: { create: p.slots } }),
+          },
+        });
+
+        const total = p.amount.add(p.platformFee);
+        const lockTx = await tx.transaction.create({
+          data: {
+            amount: total,
+            currency,
+            type: 'ESCROW_LOCK',
+            status: 'CONFIRMED',
+            userId,
+            dealId: deal.id,
+            metadata: { action: 'checkout_lock', checkoutId: checkout.id },
+          },
+        });
+
+        await postJournalEntry(tx, {
+          type: 'ESCROW_LOCK',
+          currency,
+          description: 'Cart checkout',
+          transactionId: lockTx.id,
+          dealId: deal.id,
+          movements: [
+            { debit: userAvailable(userId), credit: userFrozen(userId), amount: total },
+          ],
+        });
+
+        await tx.dealStatusHistory.create({
+          data: {
+            dealId: deal.id,
+            fromStatus: null,
+            toStatus: DealStatus.PENDING,
+            reason: `Deal request created by cart checkout. Funds locked: ${total.toString()} ${currency}`,
+          },
+        });
+
+        created.push(deal);
+      }
+
+      return { checkoutId: checkout.id, deals: created };
+    }, { timeout: 30_000 }); // A full cart is a few hundred queries
+
+    this.logger.log(
+      `Checkout ${checkoutId} by user ${userId}: ${deals.length} deals created, ${results.length} channels skipped, ${totalRequired.toString()} ${currency} locked`,
+    );
+
+    deals.forEach((deal, i) => {
+      const p = prepared[i]!;
+      results.push({
+        channelId: p.channel.id,
+        channelTitle: p.channel.title,
+        status: 'CREATED',
+        dealId: deal.id,
+        amount: deal.amount.toString(),
+        platformFee: deal.platformFee.toString(),
+      });
+
+      this.notificationService.send('DEAL_CREATED', p.channel.ownerId, {
+        dealId: deal.id,
+        channelId: p.channel.id,
+        channelTitle: p.channel.title,
+        amount: deal.amount.toString(),
+        currency: deal.currency,
+        miniAppPath: `/deals/${deal.id}`,
+      });
+    });
+
+    // Results in cart order
+    const order = new Map(channelIds.map((id, i) => [id, i]));
+    results.sort((a, b) => order.get(a.channelId)! - order.get(b.channelId)!);
+
+    return {
+      checkoutId,
+      currency,
+      totalLocked: totalRequired.toString(),
+      created: deals.length,
+      failed: results.length - deals.length,
+      items: results,
+    };
+  }
+
+  /**
+   * Checks that the channel can be bought by the user in the currency and
+   * prices the deal: the given amount, or the channel's price for the ad
+   * format. Slots come in schedule order with their shares of amount and fee.
+   */
+  async prepareDeal(
+    userId: string,
+    currency: Currency,
+    input: Pick<CheckoutItemDto, 'channelId' | 'amount' | 'adFormat' | 'scheduledPostTime' | 'slots'>,
+    promoCode: string | undefined,
+  ): Promise<PreparedDeal> {
+    // Verify channel exists and is active
+    const channel = await this.prisma.channel.findUnique({
+      where: { id: input.channelId },
+    });
+
+    if (!channel || channel.status !== 'ACTIVE') {
+      throw new BadRequestException('Channel not found or not active');
+    }
+
+    // Cannot create deal for own channel
+    if (channel.ownerId === userId) {
+      throw new BadRequestException('Cannot create deal for your own channel');
+    }
+
+    if (currency === 'USDT' && channel.pricePerPostUsdt === null) {
+      throw new BadRequestException('Channel does not accept USDT');
+    }
+
+    // Calculate amounts
+    const amount = input.amount ? new Prisma.Decimal(input.amount) : this.listPrice(channel, currency, input.adFormat);
+    const { fee: platformFee, breakdown: feeBreakdown, promoCodeId } = await this.feesService.quoteDeal({
+      amount,
+      categories: channel.categories,
+      channelOwnerId: channel.ownerId,
+      promoCode,
+    });
+
+    // Slots in schedule order, each with its share of the amount and fee
+    const slotInputs = [...(input.slots ?? [])].sort(
+      (a, b) => new Date(a.scheduledPostTime).getTime() - new Date(b.scheduledPostTime).getTime(),
+    );
+    const slotShares = slotInputs.length > 0 ? splitDealAmounts(amount, platformFee, slotInputs.length) : [];
+    const slots: Prisma.DealSlotCreateWithoutDealInput[] = slotInputs.map((slot, i) => {
+      const content = this.sanitizeContent(slot.contentText, slot.contentMediaUrls);
+      return {
+        position: i + 1,
+        scheduledPostTime: new Date(slot.scheduledPostTime),
+        contentType: slot.contentType ?? null,
+        contentText: content.text ?? null,
+        contentMediaUrls: content.mediaUrls,
+        amount: slotShares[i]!.amount,
+        platformFee: slotShares[i]!.platformFee,
+      };
+    });
+
+    return {
+      channel,
+      amount,
+      platformFee,
+      feeBreakdown,
+      ...(promoCodeId && { promoCodeId }),
+      ...(input.adFormat && { adFormat: input.adFormat }),
+      ...(input.scheduledPostTime && { scheduledPostTime: new Date(input.scheduledPostTime) }),
+      slots,
+    };
+  }
+
+  /**
+   * Channel's price for an ad format in the currency, or its base price per post
+   */
+  private listPrice(channel: Channel, currency: Currency, adFormat: string | undefined): Prisma.Decimal {
+    const formatPrices = channel.formatPrices as Record<string, Record<string, string>> | null;
+    const formatPrice = adFormat ? formatPrices?.[currency]?.[adFormat] : undefined;
+    if (formatPrice) {
+      return new Prisma.Decimal(formatPrice);
+    }
+
+    const basePrice = currency === 'USDT' ? channel.pricePerPostUsdt : channel.pricePerPost;
+    if (!basePrice || basePrice.lessThanOrEqualTo(0)) {
+      throw new BadRequestException('Channel has no price set; specify the amount');
+    }
+    return basePrice;
+  }
+
+  // Sanitize user-provided content
+  sanitizeContent(
+    text: string | undefined,
+    mediaUrls: string[] | undefined,
+  ): { text: string | undefined; mediaUrls: string[] } {
+    return {
+      text: text ? sanitizeHtml(text) : undefined,
+      mediaUrls: mediaUrls
+        ?.map((url) => sanitizeUrl(url))
+        .filter((url): url is string => url !== null) ?? [],
+    };
+  }
+
   async findByUser(
     userId: string,
     filters: DealFiltersDto
@@ -187,6 +554,8 @@ export class DealsService {
       include: {
         channel: { select: { title: true, username: true } },
         campaign: { select: { title: true } },
+        slots: { orderBy: { position: 'asc' } },
+        offers: { orderBy: { createdAt: 'asc' } },
       },
     });
 
@@ -215,9 +584,27 @@ export class DealsService {
       throw new BadRequestException(`Cannot approve deal with status ${deal.status}`);
     }
 
-    // Re-verify bot admin status in the channel before financial operations
+    const channel = await this.assertBotCanPost(deal.channelId);
+    const updated = await this.approvePendingDeal(deal, 'Approved by channel owner');
+
+    this.notificationService.send('DEAL_APPROVED', deal.advertiserId, {
+      dealId: id,
+      channelId: deal.channelId,
+      channelTitle: channel?.title,
+      amount: updated.amount.add(updated.platformFee).toString(),
+      currency: deal.currency,
+      miniAppPath: `/deals/${id}`,
+    });
+
+    return this.mapToResponse(updated);
+  }
+
+  /**
+   * Re-verify bot admin status in the channel before financial operations
+   */
+  async assertBotCanPost(channelId: string): Promise<{ title: string } | null> {
     const channel = await this.prisma.channel.findUnique({
-      where: { id: deal.channelId },
+      where: { id: channelId },
       select: { telegramId: true, username: true, title: true },
     });
 
@@ -231,59 +618,83 @@ export class DealsService {
       }
     }
 
-    // Get advertiser and check balance
-    const advertiser = await this.prisma.user.findUnique({
-      where: { id: deal.advertiserId },
-      select: { balanceTon: true },
-    });
+    return channel;
+  }
 
-    const totalRequired = deal.amount.add(deal.platformFee);
+  /**
+   * PENDING → CONTENT_PENDING with the deal's current terms: funds are
+   * locked (already locked for cart checkout deals) and open offers closed.
+   * Everything commits together, after `prepare` has settled the terms in the
+   * same transaction, or nothing does; only the first of a concurrent
+   * approval, reject or cancel moves the deal.
+   */
+  private async approvePendingDeal(
+    deal: Deal,
+    reason: string,
+    prepare?: (tx: Prisma.TransactionClient) => Promise<Deal>,
+  ): Promise<Deal> {
+    const id = deal.id;
+    const nextStatus = DealStatus.CONTENT_PENDING;
 
-    if (!advertiser || advertiser.balanceTon.lessThan(totalRequired)) {
-      throw new BadRequestException(
-        `Advertiser has insufficient balance. Required: ${totalRequired.toString()} TON`
-      );
-    }
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const current = prepare ? await prepare(tx) : deal;
+      const totalRequired = current.amount.add(current.platformFee);
+
+      // Derive the escrow contract first: it fails if a party has no wallet
+      const escrowContract = current.escrowMode === EscrowMode.CONTRACT
+        ? await this.escrowService.prepareEscrowContract(current)
+        : null;
+
+      // Save original content as brief reference
+      const { count } = await tx.deal.updateMany({
+        where: { id, status: DealStatus.PENDING },
+        data: {
+          status: nextStatus,
+          briefText: current.contentText,
+          briefMediaUrls: current.contentMediaUrls,
+          contentDeadline: this.contentDeadline(current, 'submission'),
+          contentReminderSentAt: null,
+          // EscrowReleaseService deploys and funds the contract
+          ...(escrowContract && {
+            ...escrowContract,
+            escrowContractStatus: EscrowContractStatus.DEPLOYING,
+          }),
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Deal is no longer pending');
+      }
 
-    const nextStatus = DealStatus.CONTENT_PENDING;
+      // Funds of a cart checkout deal were locked at checkout
+      if (current.checkoutId === null) {
+        await this.escrowService.lockFundsForDeal(
+          tx,
+          current.advertiserId,
+          id,
+          totalRequired.toString(),
+          current.currency as Currency,
+        );
+      }
 
-    // Lock funds via EscrowService (balance → frozen + escrow lock transaction)
-    await this.escrowService.lockFundsForDeal(
-      deal.advertiserId,
-      id,
-      totalRequired.toString(),
-    );
+      await this.closePendingOffers(tx, id);
 
-    // Save original content as brief reference
-    const updated = await this.prisma.deal.update({
-      where: { id },
-      data: {
-        status: nextStatus,
-        briefText: deal.contentText,
-        briefMediaUrls: deal.contentMediaUrls,
-      },
-    });
+      await tx.dealStatusHistory.create({
+        data: {
+          dealId: id,
+          fromStatus: DealStatus.PENDING,
+          toStatus: nextStatus,
+          reason: `${reason}. Funds locked: ${totalRequired.toString()} ${current.currency}`,
+        },
+      });
 
-    await this.recordStatusChange(
-      id,
-      DealStatus.PENDING,
-      nextStatus,
-      `Approved by channel owner. Funds locked: ${totalRequired.toString()} TON`,
-    );
+      return tx.deal.findUniqueOrThrow({ where: { id } });
+    });
 
     this.logger.log(
-      `Deal ${id}: Approved by channel owner. Status: ${nextStatus}. Funds locked: ${totalRequired.toString()} TON`
+      `Deal ${id}: ${reason}. Status: ${nextStatus}. Funds locked: ${updated.amount.add(updated.platformFee).toString()} ${updated.currency}`
     );
 
-    this.notificationService.send('DEAL_APPROVED', deal.advertiserId, {
-      dealId: id,
-      channelId: deal.channelId,
-      channelTitle: channel?.title,
-      amount: totalRequired.toString(),
-      miniAppPath: `/deals/${id}`,
-    });
-
-    return this.mapToResponse(updated);
+    return updated;
   }
 
   /**
@@ -296,17 +707,7 @@ export class DealsService {
       throw new BadRequestException(`Cannot reject deal with status ${deal.status}`);
     }
 
-    const updated = await this.prisma.deal.update({
-      where: { id },
-      data: { status: DealStatus.CANCELLED },
-    });
-
-    await this.recordStatusChange(
-      id,
-      DealStatus.PENDING,
-      DealStatus.CANCELLED,
-      reason || 'Rejected by channel owner'
-    );
+    const updated = await this.cancelPendingDeal(deal, reason || 'Rejected by channel owner');
 
     this.logger.log(`Deal ${id}: Rejected by channel owner. Reason: ${reason || 'not specified'}`);
 
@@ -349,17 +750,7 @@ export class DealsService {
       );
     }
 
-    const updated = await this.prisma.deal.update({
-      where: { id },
-      data: { status: DealStatus.CANCELLED },
-    });
-
-    await this.recordStatusChange(
-      id,
-      DealStatus.PENDING,
-      DealStatus.CANCELLED,
-      'Cancelled by advertiser'
-    );
+    const updated = await this.cancelPendingDeal(deal, 'Cancelled by advertiser');
 
     this.logger.log(`Deal ${id}: Cancelled by advertiser`);
 
@@ -378,6 +769,71 @@ export class DealsService {
     return this.mapToResponse(updated);
   }
 
+  /**
+   * PENDING → CANCELLED. Only the first of a concurrent reject, cancel or
+   * approval moves the deal; the rest fail without touching the funds.
+   */
+  private async cancelPendingDeal(deal: Deal, reason: string): Promise<Deal> {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.deal.updateMany({
+        where: { id: deal.id, status: DealStatus.PENDING },
+        data: { status: DealStatus.CANCELLED },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Deal is no longer pending');
+      }
+
+      // Terms as of the cancellation, not as read before it
+      const cancelled = await tx.deal.findUniqueOrThrow({ where: { id: deal.id } });
+
+      await this.closePendingOffers(tx, deal.id);
+      // Only this channel's share of a cart checkout goes back
+      await this.refundCheckoutShare(tx, cancelled);
+
+      await tx.dealStatusHistory.create({
+        data: {
+          dealId: deal.id,
+          fromStatus: DealStatus.PENDING,
+          toStatus: DealStatus.CANCELLED,
+          reason,
+        },
+      });
+
+      return cancelled;
+    });
+  }
+
+  /**
+   * Returns the funds a cart checkout locked for a deal that ends before
+   * approval. Deals created one at a time lock nothing until approved.
+   */
+  private async refundCheckoutShare(tx: Prisma.TransactionClient, deal: Deal): Promise<void> {
+    if (!deal.checkoutId) return;
+
+    const total = deal.amount.add(deal.platformFee);
+    const refundTx = await tx.transaction.create({
+      data: {
+        amount: total,
+        currency: deal.currency,
+        type: 'ESCROW_REFUND',
+        status: 'CONFIRMED',
+        userId: deal.advertiserId,
+        dealId: deal.id,
+        metadata: { action: 'checkout_refund', checkoutId: deal.checkoutId },
+      },
+    });
+
+    await postJournalEntry(tx, {
+      type: 'ESCROW_REFUND',
+      currency: deal.currency,
+      transactionId: refundTx.id,
+      dealId: deal.id,
+      movements: [
+        { debit: userFrozen(deal.advertiserId), credit: userAvailable(deal.advertiserId), amount: total },
+      ],
+    });
+  }
+
   /**
    * Открытие спора
    */
@@ -407,14 +863,21 @@ export class DealsService {
 
     const role = deal.advertiserId === userId ? 'advertiser' : 'channel_owner';
 
-    const updated = await this.prisma.deal.update({
-      where: { id },
-      data: {
-        status: DealStatus.DISPUTED,
-        disputeReason: dto.reason,
-        disputeDescription: dto.description,
-      },
-    });
+    // Posts not paid out yet are held until the dispute is resolved
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.deal.update({
+        where: { id },
+        data: {
+          status: DealStatus.DISPUTED,
+          disputeReason: dto.reason,
+          disputeDescription: dto.description,
+        },
+      }),
+      this.prisma.dealSlot.updateMany({
+        where: { dealId: id, status: { not: DealSlotStatus.RELEASED } },
+        data: { status: DealSlotStatus.DISPUTED },
+      }),
+    ]);
 
     await this.recordStatusChange(
       id,
@@ -460,19 +923,7 @@ export class DealsService {
       throw new NotFoundException('Deal not found');
     }
 
-    let role: 'advertiser' | 'channel_owner';
-    if (deal.advertiserId === userId) {
-      role = 'advertiser';
-    } else if (deal.channelOwnerId === userId) {
-      role = 'channel_owner';
-    } else {
-      const isAdmin = await this.channelAdminsService.isChannelAdmin(deal.channelId, userId);
-      if (isAdmin) {
-        role = 'channel_owner';
-      } else {
-        throw new ForbiddenException('Not authorized');
-      }
-    }
+    const role = await this.getDealRole(deal, userId);
 
     const actions = this.stateMachine.getAvailableActions(
       deal.status as DealStatus,
@@ -482,6 +933,338 @@ export class DealsService {
     return { actions };
   }
 
+  /**
+   * Time series of the ad post views, forwards, reactions and replies
+   * sampled by the mtproto-worker
+   */
+  async getMetrics(id: string, userId: string): Promise<DealMetricsResponseDto> {
+    const deal = await this.prisma.deal.findUnique({
+      where: { id },
+    });
+
+    if (!deal) {
+      throw new NotFoundException('Deal not found');
+    }
+
+    await this.getDealRole(deal, userId);
+
+    const samples = await this.prisma.dealPostMetric.findMany({
+      where: { dealId: id },
+      orderBy: { sampledAt: 'asc' },
+      include: { dealSlot: { select: { position: true } } },
+    });
+
+    return {
+      dealId: id,
+      samples: samples.map((s) => ({
+        sampledAt: s.sampledAt.toISOString(),
+        ...(s.dealSlot && { slotPosition: s.dealSlot.position }),
+        views: s.views,
+        forwards: s.forwards,
+        reactions: s.reactions,
+        replies: s.replies,
+      })),
+    };
+  }
+
+  /**
+   * Clicks on the tracked links of the deal's posts, with CTR against views
+   */
+  async getClickStats(id: string, userId: string): Promise<DealClickStatsDto> {
+    const deal = await this.prisma.deal.findUnique({
+      where: { id },
+    });
+
+    if (!deal) {
+      throw new NotFoundException('Deal not found');
+    }
+
+    await this.getDealRole(deal, userId);
+
+    const [stats] = await this.linksService.getDealStats([deal]);
+    return stats!;
+  }
+
+  // ============ COUNTER-OFFER METHODS ============
+
+  /**
+   * Either party proposes other terms for a pending deal: amount, ad format
+   * and post time. Answers the other party's open offer or replaces one's own.
+   */
+  async proposeOffer(id: string, userId: string, dto: CreateDealOfferDto): Promise<DealOfferResponseDto> {
+    const deal = await this.prisma.deal.findUnique({
+      where: { id },
+      include: { slots: { select: { id: true } }, channel: { select: { title: true } } },
+    });
+
+    if (!deal) {
+      throw new NotFoundException('Deal not found');
+    }
+
+    const role = await this.getDealRole(deal, userId);
+    this.stateMachine.validateTransition(deal.status as DealStatus, 'COUNTER_OFFER', role);
+
+    // Slot shares and times are fixed by the advertiser's request
+    if (deal.slots.length > 0) {
+      throw new BadRequestException('Multi-slot deals cannot be renegotiated');
+    }
+
+    const amount = dto.amount ? new Prisma.Decimal(dto.amount) : deal.amount;
+    const adFormat = dto.adFormat ?? deal.adFormat;
+    const scheduledPostTime = dto.scheduledPostTime ? new Date(dto.scheduledPostTime) : deal.scheduledPostTime;
+
+    if (dto.scheduledPostTime && scheduledPostTime! <= new Date()) {
+      throw new BadRequestException('Post time must be in the future');
+    }
+    if (
+      amount.equals(deal.amount) &&
+      adFormat === deal.adFormat &&
+      scheduledPostTime?.getTime() === deal.scheduledPostTime?.getTime()
+    ) {
+      throw new BadRequestException('The offer does not change the terms');
+    }
+
+    const platformFee = this.feeAtDealRate(deal, amount);
+    const terms = this.describeTerms(amount, deal.currency, adFormat, scheduledPostTime);
+
+    const offer = await this.prisma.$transaction(async (tx) => {
+      // An open offer of the other party is countered; one's own is replaced
+      const pending = await tx.dealOffer.findFirst({
+        where: { dealId: id, status: DealOfferStatus.PENDING },
+      });
+      if (pending) {
+        const countered = this.offerRole(deal, pending) !== role;
+        await tx.dealOffer.update({
+          where: { id: pending.id },
+          data: {
+            status: countered ? DealOfferStatus.COUNTERED : DealOfferStatus.CLOSED,
+            respondedAt: new Date(),
+          },
+        });
+      }
+
+      const created = await tx.dealOffer.create({
+        data: {
+          dealId: id,
+          proposedById: userId,
+          amount,
+          platformFee,
+          adFormat,
+          scheduledPostTime,
+          message: dto.message ? sanitizeHtml(dto.message) : null,
+        },
+      });
+
+      await tx.dealStatusHistory.create({
+        data: {
+          dealId: id,
+          fromStatus: DealStatus.PENDING,
+          toStatus: DealStatus.PENDING,
+          reason: `Counter-offer by ${ROLE_LABELS[role]}: ${terms}`,
+        },
+      });
+
+      return created;
+    });
+
+    this.logger.log(`Deal ${id}: Counter-offer ${offer.id} by ${role}: ${terms}`);
+
+    this.notificationService.send(
+      'DEAL_COUNTER_OFFER',
+      role === 'advertiser' ? deal.channelOwnerId : deal.advertiserId,
+      {
+        dealId: id,
+        channelId: deal.channelId,
+        channelTitle: deal.channel.title,
+        amount: amount.toString(),
+        currency: deal.currency,
+        miniAppPath: `/deals/${id}`,
+      },
+    );
+
+    return this.mapOfferToResponse(deal, offer);
+  }
+
+  /**
+   * The other party accepts an open offer: its terms replace the deal's and
+   * the deal is approved with them. Funds a cart checkout locked are topped
+   * up or partly refunded to the new price.
+   */
+  async acceptOffer(id: string, offerId: string, userId: string): Promise<DealResponseDto> {
+    const deal = await this.prisma.deal.findUnique({ where: { id } });
+
+    if (!deal) {
+      throw new NotFoundException('Deal not found');
+    }
+
+    const role = await this.getDealRole(deal, userId);
+    this.stateMachine.validateTransition(deal.status as DealStatus, 'ACCEPT_OFFER', role);
+
+    const offer = await this.prisma.dealOffer.findUnique({ where: { id: offerId } });
+    if (!offer || offer.dealId !== id) {
+      throw new NotFoundException('Offer not found');
+    }
+    if (offer.status !== DealOfferStatus.PENDING) {
+      throw new BadRequestException('Offer is no longer open');
+    }
+    if (this.offerRole(deal, offer) === role) {
+      throw new BadRequestException('Cannot accept your own offer');
+    }
+
+    const channel = await this.assertBotCanPost(deal.channelId);
+    const terms = this.describeTerms(offer.amount, deal.currency, offer.adFormat, offer.scheduledPostTime);
+
+    const approved = await this.approvePendingDeal(
+      deal,
+      `Approved with the offer accepted by ${ROLE_LABELS[role]}`,
+      async (tx) => {
+        const claimed = await tx.dealOffer.updateMany({
+          where: { id: offerId, status: DealOfferStatus.PENDING },
+          data: { status: DealOfferStatus.ACCEPTED, respondedAt: new Date() },
+        });
+        if (claimed.count === 0) {
+          throw new BadRequestException('Offer is no longer open');
+        }
+
+        // The terms being replaced, read under the deal's row lock
+        await tx.$queryRaw`SELECT id FROM "Deal" WHERE id = ${id} FOR UPDATE`;
+        const current = await tx.deal.findUniqueOrThrow({ where: { id } });
+        if (current.status !== DealStatus.PENDING) {
+          throw new BadRequestException('Deal is no longer pending');
+        }
+
+        if (current.checkoutId !== null) {
+          await this.repriceCheckoutLock(tx, current, offer.amount.add(offer.platformFee));
+        }
+
+        const feeBreakdown = current.feeBreakdown as FeeBreakdown | null;
+        const repriced = await tx.deal.update({
+          where: { id },
+          data: {
+            amount: offer.amount,
+            platformFee: offer.platformFee,
+            ...(feeBreakdown && {
+              feeBreakdown: { ...feeBreakdown, fee: offer.platformFee.toString() },
+            }),
+            adFormat: offer.adFormat,
+            scheduledPostTime: offer.scheduledPostTime,
+          },
+        });
+
+        await tx.dealStatusHistory.create({
+          data: {
+            dealId: id,
+            fromStatus: DealStatus.PENDING,
+            toStatus: DealStatus.PENDING,
+            reason: `Counter-offer accepted by ${ROLE_LABELS[role]}: ${terms}`,
+          },
+        });
+
+        return repriced;
+      },
+    );
+
+    const total = approved.amount.add(approved.platformFee).toString();
+    this.notificationService.send(
+      role === 'advertiser' ? 'DEAL_OFFER_ACCEPTED' : 'DEAL_APPROVED',
+      role === 'advertiser' ? deal.channelOwnerId : deal.advertiserId,
+      {
+        dealId: id,
+        channelId: deal.channelId,
+        channelTitle: channel?.title,
+        amount: total,
+        currency: deal.currency,
+        miniAppPath: `/deals/${id}`,
+      },
+    );
+
+    return this.mapToResponse(approved);
+  }
+
+  /**
+   * Funds of a cart checkout deal are locked at its original price: lock the
+   * difference of a higher one, refund the difference of a lower one. `deal`
+   * must be read in `tx` under the deal's row lock.
+   */
+  private async repriceCheckoutLock(
+    tx: Prisma.TransactionClient,
+    deal: Deal,
+    newTotal: Prisma.Decimal,
+  ): Promise<void> {
+    const diff = newTotal.sub(deal.amount.add(deal.platformFee));
+    if (diff.isZero()) return;
+
+    const increase = diff.greaterThan(0);
+    if (increase) {
+      // Locked until commit, like the balance check at checkout
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${deal.advertiserId} FOR UPDATE`;
+      const advertiser = await tx.user.findUnique({ where: { id: deal.advertiserId } });
+      if (!advertiser || advertiser[USER_BALANCE_COLUMNS[deal.currency].balance].lessThan(diff)) {
+        throw new BadRequestException(
+          `Advertiser has insufficient balance. Required: ${diff.toString()} ${deal.currency} more`
+        );
+      }
+    }
+
+    const type = increase ? 'ESCROW_LOCK' : 'ESCROW_REFUND';
+    const amount = diff.abs();
+    const repriceTx = await tx.transaction.create({
+      data: {
+        amount,
+        currency: deal.currency,
+        type,
+        status: 'CONFIRMED',
+        userId: deal.advertiserId,
+        dealId: deal.id,
+        metadata: { action: 'counter_offer_reprice', checkoutId: deal.checkoutId },
+      },
+    });
+
+    await postJournalEntry(tx, {
+      type,
+      currency: deal.currency,
+      description: 'Counter-offer accepted',
+      transactionId: repriceTx.id,
+      dealId: deal.id,
+      movements: [
+        increase
+          ? { debit: userAvailable(deal.advertiserId), credit: userFrozen(deal.advertiserId), amount }
+          : { debit: userFrozen(deal.advertiserId), credit: userAvailable(deal.advertiserId), amount },
+      ],
+    });
+  }
+
+  // The rate quoted at creation (category, owner tier, promo code) carries over
+  private feeAtDealRate(deal: Deal, amount: Prisma.Decimal): Prisma.Decimal {
+    return deal.platformFee.mul(amount).div(deal.amount).toDecimalPlaces(9);
+  }
+
+  private describeTerms(
+    amount: Prisma.Decimal,
+    currency: string,
+    adFormat: string | null,
+    scheduledPostTime: Date | null,
+  ): string {
+    return [
+      `${amount.toString()} ${currency}`,
+      adFormat ? `format ${adFormat}` : null,
+      scheduledPostTime ? `post at ${scheduledPostTime.toISOString()}` : 'post after approval',
+    ]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  private async closePendingOffers(tx: Prisma.TransactionClient, dealId: string): Promise<void> {
+    await tx.dealOffer.updateMany({
+      where: { dealId, status: DealOfferStatus.PENDING },
+      data: { status: DealOfferStatus.CLOSED, respondedAt: new Date() },
+    });
+  }
+
+  private offerRole(deal: Deal, offer: DealOffer): 'advertiser' | 'channel_owner' {
+    return offer.proposedById === deal.advertiserId ? 'advertiser' : 'channel_owner';
+  }
+
   // ============ CONTENT APPROVAL METHODS ============
 
   /**
@@ -505,6 +1288,8 @@ export class DealsService {
         status: DealStatus.CONTENT_SUBMITTED,
         draftContentText: sanitizedText,
         draftContentMediaUrls: sanitizedUrls,
+        contentDeadline: this.contentDeadline(deal, 'approval'),
+        contentReminderSentAt: null,
       },
     });
 
@@ -535,6 +1320,15 @@ export class DealsService {
       throw new BadRequestException(`Cannot approve content for deal with status ${deal.status}`);
     }
 
+    const slots = await this.prisma.dealSlot.findMany({
+      where: { dealId: id },
+      select: { status: true },
+    });
+
+    if (slots.length > 0) {
+      return this.approveSlotContent(deal, slots);
+    }
+
     // Copy draft content to final content fields
     const now = new Date();
     const hasScheduledTime = deal.scheduledPostTime && deal.scheduledPostTime > now;
@@ -555,6 +1349,7 @@ export class DealsService {
         contentMediaUrls: deal.draftContentMediaUrls,
         verificationDeadline,
         actualPostTime: hasScheduledTime ? undefined : new Date(),
+        contentDeadline: null,
       },
     });
 
@@ -575,6 +1370,49 @@ export class DealsService {
     return this.mapToResponse(updated);
   }
 
+  /**
+   * Multi-slot deal: the ad poster publishes each slot at its own time, so
+   * the deal only moves to its aggregate status here
+   */
+  private async approveSlotContent(
+    deal: Deal,
+    slots: Pick<DealSlot, 'status'>[],
+  ): Promise<DealResponseDto> {
+    const nextStatus = this.stateMachine.getSlotAggregateStatus(slots);
+
+    const updated = await this.prisma.deal.update({
+      where: { id: deal.id },
+      data: {
+        status: nextStatus,
+        contentText: deal.draftContentText,
+        contentMediaUrls: deal.draftContentMediaUrls,
+        contentDeadline: null,
+      },
+      include: { slots: { orderBy: { position: 'asc' } } },
+    });
+
+    await this.recordStatusChange(
+      deal.id,
+      DealStatus.CONTENT_SUBMITTED,
+      nextStatus,
+      `Content approved by advertiser, ${slots.length} posts scheduled`,
+    );
+
+    const channel = await this.prisma.channel.findUnique({
+      where: { id: deal.channelId },
+      select: { title: true },
+    });
+
+    this.notificationService.send('CONTENT_APPROVED', deal.channelOwnerId, {
+      dealId: deal.id,
+      channelId: deal.channelId,
+      channelTitle: channel?.title,
+      miniAppPath: `/deals/${deal.id}`,
+    });
+
+    return this.mapToResponse(updated);
+  }
+
   /**
    * Advertiser rejects content → back to CONTENT_PENDING for revision
    */
@@ -591,6 +1429,8 @@ export class DealsService {
         status: DealStatus.CONTENT_PENDING,
         contentRevisionNote: dto.revisionNote,
         contentRevisionCount: { increment: 1 },
+        contentDeadline: this.contentDeadline(deal, 'submission'),
+        contentReminderSentAt: null,
       },
     });
 
@@ -658,18 +1498,29 @@ export class DealsService {
       throw new BadRequestException(`Channel needs at least ${campaignAny.minSubscribers} subscribers`);
     }
 
-    // Determine amount
+    const channelPrice = campaign.currency === 'USDT' ? channel.pricePerPostUsdt : channel.pricePerPost;
+    if (!channelPrice) {
+      throw new BadRequestException('Channel does not accept USDT');
+    }
+
+    // Determine amount (in the campaign's currency)
     const amount = dto.proposedAmount
       ? new Prisma.Decimal(dto.proposedAmount)
-      : (campaignAny.maxBudgetPerDeal ? new Prisma.Decimal(campaignAny.maxBudgetPerDeal) : channel.pricePerPost);
+      : (campaignAny.maxBudgetPerDeal ? new Prisma.Decimal(campaignAny.maxBudgetPerDeal) : channelPrice);
 
-    const platformFee = amount.mul(PLATFORM_FEE_PERCENT).div(100);
+    const { fee: platformFee, breakdown: feeBreakdown } = await this.feesService.quoteDeal({
+      amount,
+      categories: channel.categories,
+      channelOwnerId: channel.ownerId,
+    });
 
     // Create deal in PENDING status (advertiser needs to approve)
     const deal = await this.prisma.deal.create({
       data: {
         amount,
         platformFee,
+        feeBreakdown,
+        currency: campaign.currency,
         status: DealStatus.PENDING,
         contentType: ContentType.TEXT,
         contentText: dto.applicationNote,
@@ -687,6 +1538,7 @@ export class DealsService {
       channelId: channel.id,
       channelTitle: channel.title,
       amount: amount.toString(),
+      currency: deal.currency,
       miniAppPath: `/deals/${deal.id}`,
     });
 
@@ -701,6 +1553,7 @@ export class DealsService {
   async resolveDisputeRelease(id: string, adminId: string): Promise<DealResponseDto> {
     const deal = await this.prisma.deal.findUnique({
       where: { id },
+      include: { slots: true },
     });
 
     if (!deal) {
@@ -711,18 +1564,27 @@ export class DealsService {
       throw new BadRequestException('Deal is not in disputed status');
     }
 
-    const totalFrozen = deal.amount.add(deal.platformFee);
+    // Posts of a multi-slot deal released before the dispute are already paid out
+    const held = unreleasedDealAmounts(deal, deal.slots);
+    const totalFrozen = held.amount.add(held.platformFee);
+    // On-chain settlement is final, so contract deals get no appeal window
+    const onChain = deal.escrowMode === EscrowMode.CONTRACT;
 
-    // Release funds via EscrowService (frozen → channel owner balance + fee)
-    await this.escrowService.releaseFundsFromDeal(
-      id,
-      deal.advertiserId,
-      deal.channelOwnerId,
-      totalFrozen.toString(),
-      deal.platformFee.toString(),
-    );
+    if (onChain) {
+      await this.escrowService.requestEscrowContractSettlement(id, 'RELEASE');
+    } else {
+      // Release funds via EscrowService (frozen → channel owner balance + fee)
+      await this.escrowService.releaseFundsFromDeal(
+        id,
+        deal.advertiserId,
+        deal.channelOwnerId,
+        totalFrozen.toString(),
+        held.platformFee.toString(),
+        deal.currency as Currency,
+      );
+    }
 
-    const appealDeadline = new Date(Date.now() + APPEAL_WINDOW_DISPUTE_MS);
+    const appealDeadline = onChain ? null : new Date(Date.now() + APPEAL_WINDOW_DISPUTE_MS);
 
     const updated = await this.prisma.deal.update({
       where: { id },
@@ -736,7 +1598,7 @@ export class DealsService {
     // Update campaign spentBudget
     await this.prisma.campaign.update({
       where: { id: deal.campaignId },
-      data: { spentBudget: { increment: deal.amount } },
+      data: { spentBudget: { increment: held.amount } },
     });
 
     // Check if campaign budget is running low (>=80% spent)
@@ -757,11 +1619,23 @@ export class DealsService {
     }
 
     // Freeze the net amount on channel owner's balance for appeal window
-    const netAmount = deal.amount.sub(deal.platformFee);
-    await this.prisma.user.update({
-      where: { id: deal.channelOwnerId },
-      data: { appealFrozenTon: { increment: netAmount } },
-    });
+    if (!onChain) {
+      const netAmount = held.amount.sub(held.platformFee);
+      await this.prisma.$transaction((tx) =>
+        postJournalEntry(tx, {
+          description: 'Appeal window freeze',
+          currency: deal.currency,
+          dealId: id,
+          movements: [
+            {
+              debit: userAvailable(deal.channelOwnerId),
+              credit: userAppealFrozen(deal.channelOwnerId),
+              amount: netAmount,
+            },
+          ],
+        }),
+      );
+    }
 
     await this.recordStatusChange(id, DealStatus.DISPUTED, DealStatus.RELEASED, `Dispute resolved by admin: released to channel owner`);
 
@@ -782,11 +1656,13 @@ export class DealsService {
     );
 
     // Notify about appeal window
-    this.notificationService.send('APPEAL_WINDOW_OPENED', deal.advertiserId, {
-      dealId: id,
-      channelTitle: channel?.title,
-      miniAppPath: `/deals/${id}`,
-    });
+    if (!onChain) {
+      this.notificationService.send('APPEAL_WINDOW_OPENED', deal.advertiserId, {
+        dealId: id,
+        channelTitle: channel?.title,
+        miniAppPath: `/deals/${id}`,
+      });
+    }
 
     return this.mapToResponse(updated);
   }
@@ -797,6 +1673,7 @@ export class DealsService {
   async resolveDisputeRefund(id: string, adminId: string): Promise<DealResponseDto> {
     const deal = await this.prisma.deal.findUnique({
       where: { id },
+      include: { slots: true },
     });
 
     if (!deal) {
@@ -807,16 +1684,25 @@ export class DealsService {
       throw new BadRequestException('Deal is not in disputed status');
     }
 
-    const totalFrozen = deal.amount.add(deal.platformFee);
+    // Posts of a multi-slot deal released before the dispute stay paid out
+    const held = unreleasedDealAmounts(deal, deal.slots);
+    const totalFrozen = held.amount.add(held.platformFee);
+    // On-chain settlement is final, so contract deals get no appeal window
+    const onChain = deal.escrowMode === EscrowMode.CONTRACT;
 
-    // Refund funds via EscrowService (frozen → advertiser balance)
-    await this.escrowService.refundFundsFromDeal(
-      id,
-      deal.advertiserId,
-      totalFrozen.toString(),
-    );
+    if (onChain) {
+      await this.escrowService.requestEscrowContractSettlement(id, 'REFUND');
+    } else {
+      // Refund funds via EscrowService (frozen → advertiser balance)
+      await this.escrowService.refundFundsFromDeal(
+        id,
+        deal.advertiserId,
+        totalFrozen.toString(),
+        deal.currency as Currency,
+      );
+    }
 
-    const appealDeadline = new Date(Date.now() + APPEAL_WINDOW_DISPUTE_MS);
+    const appealDeadline = onChain ? null : new Date(Date.now() + APPEAL_WINDOW_DISPUTE_MS);
 
     const updated = await this.prisma.deal.update({
       where: { id },
@@ -828,10 +1714,22 @@ export class DealsService {
     });
 
     // Freeze the total refunded amount on advertiser's balance for appeal window
-    await this.prisma.user.update({
-      where: { id: deal.advertiserId },
-      data: { appealFrozenTon: { increment: totalFrozen } },
-    });
+    if (!onChain) {
+      await this.prisma.$transaction((tx) =>
+        postJournalEntry(tx, {
+          description: 'Appeal window freeze',
+          currency: deal.currency,
+          dealId: id,
+          movements: [
+            {
+              debit: userAvailable(deal.advertiserId),
+              credit: userAppealFrozen(deal.advertiserId),
+              amount: totalFrozen,
+            },
+          ],
+        }),
+      );
+    }
 
     await this.recordStatusChange(id, DealStatus.DISPUTED, DealStatus.REFUNDED, `Dispute resolved by admin: refunded to advertiser`);
 
@@ -852,11 +1750,13 @@ export class DealsService {
     );
 
     // Notify about appeal window
-    this.notificationService.send('APPEAL_WINDOW_OPENED', deal.channelOwnerId, {
-      dealId: id,
-      channelTitle: channel?.title,
-      miniAppPath: `/deals/${id}`,
-    });
+    if (!onChain) {
+      this.notificationService.send('APPEAL_WINDOW_OPENED', deal.channelOwnerId, {
+        dealId: id,
+        channelTitle: channel?.title,
+        miniAppPath: `/deals/${id}`,
+      });
+    }
 
     return this.mapToResponse(updated);
   }
@@ -919,6 +1819,24 @@ export class DealsService {
     }
   }
 
+  /**
+   * Party the user acts as; channel admins act for the owner
+   */
+  private async getDealRole(deal: Deal, userId: string): Promise<'advertiser' | 'channel_owner'> {
+    if (deal.advertiserId === userId) {
+      return 'advertiser';
+    }
+    if (deal.channelOwnerId === userId) {
+      return 'channel_owner';
+    }
+
+    const isAdmin = await this.channelAdminsService.isChannelAdmin(deal.channelId, userId);
+    if (!isAdmin) {
+      throw new ForbiddenException('Not authorized');
+    }
+    return 'channel_owner';
+  }
+
   private async getDealWithAuth(
     id: string,
     userId: string,
@@ -950,6 +1868,28 @@ export class DealsService {
     return deal;
   }
 
+  /**
+   * Views guarantee agreed at creation: without a views target every post is
+   * paid in full, with one the default is a pro-rata payout
+   */
+  private viewsShortfallPolicy(
+    minViewsRequired: number | undefined,
+    policy: ViewsShortfallPolicy | undefined,
+  ): ViewsShortfallPolicy {
+    if (!minViewsRequired) return ViewsShortfallPolicy.RELEASE;
+    return policy ?? ViewsShortfallPolicy.PRO_RATA;
+  }
+
+  /**
+   * Due time of a content step starting now: the deal's own hours or the
+   * platform default. The scheduler refunds or auto-approves past it.
+   */
+  private contentDeadline(deal: Deal, step: 'submission' | 'approval'): Date {
+    const hours = step === 'submission' ? deal.contentSubmissionHours : deal.contentApprovalHours;
+    const defaultMs = step === 'submission' ? CONTENT_SUBMISSION_DEADLINE_MS : CONTENT_APPROVAL_DEADLINE_MS;
+    return new Date(Date.now() + (hours ? hours * 60 * 60 * 1000 : defaultMs));
+  }
+
   private async recordStatusChange(
     dealId: string,
     fromStatus: DealStatus | null,
@@ -966,12 +1906,24 @@ export class DealsService {
     });
   }
 
-  private mapToResponse(deal: Deal & { channel?: { title: string; username: string | null }; campaign?: { title: string } }): DealResponseDto {
+  private mapToResponse(
+    deal: Deal & {
+      channel?: { title: string; username: string | null };
+      campaign?: { title: string };
+      slots?: DealSlot[];
+      offers?: DealOffer[];
+    },
+  ): DealResponseDto {
     const d = deal as any;
     return {
       id: deal.id,
       amount: deal.amount.toString(),
       platformFee: deal.platformFee.toString(),
+      feeBreakdown: (deal.feeBreakdown as FeeBreakdown | null) ?? undefined,
+      currency: deal.currency as Currency,
+      escrowMode: deal.escrowMode as EscrowMode,
+      escrowContractAddress: deal.escrowContractAddress ?? undefined,
+      escrowContractStatus: (deal.escrowContractStatus as EscrowContractStatus | null) ?? undefined,
       status: deal.status as DealStatus,
       contentType: deal.contentType as ContentType,
       contentText: deal.contentText ?? undefined,
@@ -980,8 +1932,13 @@ export class DealsService {
       scheduledPostTime: deal.scheduledPostTime?.toISOString(),
       actualPostTime: deal.actualPostTime?.toISOString(),
       minViewsRequired: deal.minViewsRequired ?? undefined,
+      viewsShortfallPolicy: deal.viewsShortfallPolicy as ViewsShortfallPolicy,
       viewsAtVerification: deal.viewsAtVerification ?? undefined,
       verificationDeadline: deal.verificationDeadline?.toISOString(),
+      trackLinks: deal.trackLinks,
+      contentDeadline: deal.contentDeadline?.toISOString(),
+      contentSubmissionHours: deal.contentSubmissionHours ?? undefined,
+      contentApprovalHours: deal.contentApprovalHours ?? undefined,
       disputeReason: deal.disputeReason as DisputeReason | undefined,
       disputeDescription: deal.disputeDescription ?? undefined,
       campaignId: deal.campaignId,
@@ -998,8 +1955,46 @@ export class DealsService {
       contentRevisionNote: d.contentRevisionNote ?? undefined,
       contentRevisionCount: d.contentRevisionCount ?? 0,
       adFormat: d.adFormat ?? undefined,
+      recurringDealId: deal.recurringDealId ?? undefined,
+      occurrence: deal.occurrence ?? undefined,
+      slots: deal.slots?.length ? deal.slots.map((slot) => this.mapSlotToResponse(slot)) : undefined,
+      offers: deal.offers?.length ? deal.offers.map((offer) => this.mapOfferToResponse(deal, offer)) : undefined,
       createdAt: deal.createdAt.toISOString(),
       updatedAt: deal.updatedAt.toISOString(),
     };
   }
+
+  private mapOfferToResponse(deal: Deal, offer: DealOffer): DealOfferResponseDto {
+    return {
+      id: offer.id,
+      proposedBy: this.offerRole(deal, offer),
+      status: offer.status as DealOfferStatus,
+      amount: offer.amount.toString(),
+      platformFee: offer.platformFee.toString(),
+      adFormat: offer.adFormat ?? undefined,
+      scheduledPostTime: offer.scheduledPostTime?.toISOString(),
+      message: offer.message ?? undefined,
+      respondedAt: offer.respondedAt?.toISOString(),
+      createdAt: offer.createdAt.toISOString(),
+    };
+  }
+
+  private mapSlotToResponse(slot: DealSlot): DealSlotResponseDto {
+    return {
+      id: slot.id,
+      position: slot.position,
+      status: slot.status as DealSlotStatus,
+      scheduledPostTime: slot.scheduledPostTime.toISOString(),
+      contentType: (slot.contentType as ContentType | null) ?? undefined,
+      contentText: slot.contentText ?? undefined,
+      contentMediaUrls: slot.contentMediaUrls,
+      postUrl: slot.postUrl ?? undefined,
+      actualPostTime: slot.actualPostTime?.toISOString(),
+      viewsAtVerification: slot.viewsAtVerification ?? undefined,
+      verificationDeadline: slot.verificationDeadline?.toISOString(),
+      amount: slot.amount.toString(),
+      platformFee: slot.platformFee.toString(),
+      releasedAt: slot.releasedAt?.toISOString(),
+    };
+  }
 }
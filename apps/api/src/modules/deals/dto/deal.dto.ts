@@ -11,8 +11,11 @@ import {
   Min,
   Max,
   ArrayMaxSize,
+  ArrayMinSize,
+  ValidateNested,
   MaxLength,
   IsDateString,
+  IsIn,
   Matches,
 } from 'class-validator';
 
@@ -21,7 +24,56 @@ const TON_AMOUNT_REGEX = /^(?!0(\.0+)?$)\d{1,12}(\.\d{1,9})?$/;
 const TON_AMOUNT_MESSAGE =
   'Amount must be a positive number with up to 9 decimal places';
 import { Type, Transform } from 'class-transformer';
-import { ContentType, DealStatus, DisputeReason } from '@tam/shared-types';
+import {
+  ContentType,
+  Currency,
+  DealStatus,
+  DealSlotStatus,
+  DealOfferStatus,
+  DisputeReason,
+  EscrowMode,
+  EscrowContractStatus,
+  ViewsShortfallPolicy,
+  MIN_DEAL_SLOTS,
+  MAX_DEAL_SLOTS,
+  MAX_CHECKOUT_ITEMS,
+  MIN_CONTENT_DEADLINE_HOURS,
+  MAX_CONTENT_DEADLINE_HOURS,
+  MIN_RECURRING_INTERVAL_DAYS,
+  MAX_RECURRING_INTERVAL_DAYS,
+  MAX_RECURRING_OCCURRENCES,
+  RecurringDealStatus,
+  AD_FORMAT_KEYS,
+  AdFormatKey,
+} from '@tam/shared-types';
+import { FeeBreakdownDto } from '../../fees/dto/fees.dto';
+
+export class CreateDealSlotDto {
+  @ApiProperty({ description: 'Post time of this slot (ISO 8601)' })
+  @IsDateString()
+  scheduledPostTime: string;
+
+  @ApiPropertyOptional({ description: "Content type of this slot's post", enum: ContentType })
+  @IsOptional()
+  @IsEnum(ContentType)
+  contentType?: ContentType;
+
+  @ApiPropertyOptional({ description: "Content text of this slot's post; the deal's approved content is posted when omitted" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(4096)
+  contentText?: string;
+
+  @ApiPropertyOptional({ description: 'Media URLs (https only)' })
+  @IsOptional()
+  @IsArray()
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { each: true, message: 'Each media URL must be a valid HTTPS URL' }
+  )
+  @ArrayMaxSize(10)
+  contentMediaUrls?: string[];
+}
 
 export class CreateDealDto {
   @ApiProperty({ description: 'Campaign ID' })
@@ -63,12 +115,254 @@ export class CreateDealDto {
   @IsDateString()
   scheduledPostTime?: string;
 
-  @ApiPropertyOptional({ description: 'Minimum views required' })
+  @ApiPropertyOptional({ description: 'Views each post is guaranteed to collect by its verification deadline' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minViewsRequired?: number;
+
+  @ApiPropertyOptional({
+    enum: ViewsShortfallPolicy,
+    description: 'How a post below minViewsRequired is settled: paid in full, paid pro-rata with the rest refunded (custodial escrow only), or disputed. Defaults to PRO_RATA when minViewsRequired is set',
+  })
+  @IsOptional()
+  @IsEnum(ViewsShortfallPolicy)
+  viewsShortfallPolicy?: ViewsShortfallPolicy;
+
+  @ApiPropertyOptional({ description: 'Rewrite links in the post into tracked short links to count clicks', default: false })
+  @IsOptional()
+  @IsBoolean()
+  trackLinks?: boolean;
+
+  @ApiPropertyOptional({ description: 'Ad format the amount was quoted for', enum: AD_FORMAT_KEYS })
+  @IsOptional()
+  @IsIn(AD_FORMAT_KEYS)
+  adFormat?: AdFormatKey;
+
+  @ApiPropertyOptional({
+    description: 'Hours the channel owner has to submit the content draft after approval; missing it refunds the deal (default 24)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(MIN_CONTENT_DEADLINE_HOURS)
+  @Max(MAX_CONTENT_DEADLINE_HOURS)
+  contentSubmissionHours?: number;
+
+  @ApiPropertyOptional({
+    description: 'Hours the advertiser has to review a submitted draft; missing it approves the draft (default 12)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(MIN_CONTENT_DEADLINE_HOURS)
+  @Max(MAX_CONTENT_DEADLINE_HOURS)
+  contentApprovalHours?: number;
+
+  @ApiPropertyOptional({
+    enum: EscrowMode,
+    description: 'CONTRACT holds the funds in a per-deal on-chain escrow contract (TON only, both parties need a connected wallet)',
+    default: EscrowMode.CUSTODIAL,
+  })
+  @IsOptional()
+  @IsEnum(EscrowMode)
+  escrowMode?: EscrowMode;
+
+  @ApiPropertyOptional({ description: 'Promo code lowering the platform fee' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  promoCode?: string;
+
+  @ApiPropertyOptional({
+    type: [CreateDealSlotDto],
+    description: 'Posts of a multi-slot deal; the amount is split across them and each is paid out on its own (custodial escrow only)',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(MIN_DEAL_SLOTS)
+  @ArrayMaxSize(MAX_DEAL_SLOTS)
+  @ValidateNested({ each: true })
+  @Type(() => CreateDealSlotDto)
+  slots?: CreateDealSlotDto[];
+}
+
+export class CheckoutItemDto {
+  @ApiProperty({ description: 'Channel ID' })
+  @IsString()
+  channelId: string;
+
+  @ApiPropertyOptional({
+    description: "Deal amount; defaults to the channel's price for the ad format in the campaign's currency",
+    example: '10.5',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(TON_AMOUNT_REGEX, { message: TON_AMOUNT_MESSAGE })
+  amount?: string;
+
+  @ApiPropertyOptional({ description: 'Ad format', enum: AD_FORMAT_KEYS })
+  @IsOptional()
+  @IsIn(AD_FORMAT_KEYS)
+  adFormat?: AdFormatKey;
+
+  @ApiPropertyOptional({ description: 'Scheduled post time (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  scheduledPostTime?: string;
+
+  @ApiPropertyOptional({ type: [CreateDealSlotDto], description: 'Posts of a multi-slot deal on this channel' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(MIN_DEAL_SLOTS)
+  @ArrayMaxSize(MAX_DEAL_SLOTS)
+  @ValidateNested({ each: true })
+  @Type(() => CreateDealSlotDto)
+  slots?: CreateDealSlotDto[];
+}
+
+export class CheckoutDealsDto {
+  @ApiProperty({ description: 'Campaign the deals are created under; sets the currency' })
+  @IsString()
+  campaignId: string;
+
+  @ApiProperty({ description: 'Content type', enum: ContentType })
+  @IsEnum(ContentType)
+  contentType: ContentType;
+
+  @ApiPropertyOptional({ description: 'Content text, the same on every channel' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(4096)
+  contentText?: string;
+
+  @ApiPropertyOptional({ description: 'Media URLs (https only)' })
+  @IsOptional()
+  @IsArray()
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { each: true, message: 'Each media URL must be a valid HTTPS URL' }
+  )
+  @ArrayMaxSize(10)
+  contentMediaUrls?: string[];
+
+  @ApiPropertyOptional({ description: 'Views each post is guaranteed to collect by its verification deadline' })
   @IsOptional()
   @Type(() => Number)
   @IsInt()
   @Min(0)
   minViewsRequired?: number;
+
+  @ApiPropertyOptional({
+    enum: ViewsShortfallPolicy,
+    description: 'How a post below minViewsRequired is settled: paid in full, paid pro-rata with the rest refunded (custodial escrow only), or disputed. Defaults to PRO_RATA when minViewsRequired is set',
+  })
+  @IsOptional()
+  @IsEnum(ViewsShortfallPolicy)
+  viewsShortfallPolicy?: ViewsShortfallPolicy;
+
+  @ApiPropertyOptional({ description: 'Rewrite links in every post into tracked short links to count clicks', default: false })
+  @IsOptional()
+  @IsBoolean()
+  trackLinks?: boolean;
+
+  @ApiPropertyOptional({ description: 'Hours each channel owner has to submit the content draft (default 24)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(MIN_CONTENT_DEADLINE_HOURS)
+  @Max(MAX_CONTENT_DEADLINE_HOURS)
+  contentSubmissionHours?: number;
+
+  @ApiPropertyOptional({ description: 'Hours the advertiser has to review each draft (default 12)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(MIN_CONTENT_DEADLINE_HOURS)
+  @Max(MAX_CONTENT_DEADLINE_HOURS)
+  contentApprovalHours?: number;
+
+  @ApiPropertyOptional({ description: 'Promo code applied to every deal of the checkout' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  promoCode?: string;
+
+  @ApiProperty({ type: [CheckoutItemDto], description: 'Channels in the cart' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_CHECKOUT_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => CheckoutItemDto)
+  items: CheckoutItemDto[];
+}
+
+export class CheckoutItemResultDto {
+  @ApiProperty()
+  channelId: string;
+
+  @ApiPropertyOptional()
+  channelTitle?: string;
+
+  @ApiProperty({ enum: ['CREATED', 'FAILED'] })
+  status: 'CREATED' | 'FAILED';
+
+  @ApiPropertyOptional({ description: 'Created deal' })
+  dealId?: string;
+
+  @ApiPropertyOptional()
+  amount?: string;
+
+  @ApiPropertyOptional()
+  platformFee?: string;
+
+  @ApiPropertyOptional({ description: 'Why the channel could not be bought' })
+  error?: string;
+}
+
+export class CheckoutResponseDto {
+  @ApiProperty()
+  checkoutId: string;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty({ description: 'Amounts plus fees of all created deals, locked in escrow' })
+  totalLocked: string;
+
+  @ApiProperty()
+  created: number;
+
+  @ApiProperty()
+  failed: number;
+
+  @ApiProperty({ type: [CheckoutItemResultDto], description: 'Per-channel results in cart order' })
+  items: CheckoutItemResultDto[];
+}
+
+export class CreateDealOfferDto {
+  @ApiPropertyOptional({ description: 'Proposed amount; the current amount when omitted', example: '12.5' })
+  @IsOptional()
+  @IsString()
+  @Matches(TON_AMOUNT_REGEX, { message: TON_AMOUNT_MESSAGE })
+  amount?: string;
+
+  @ApiPropertyOptional({ description: 'Proposed ad format; the current one when omitted', enum: AD_FORMAT_KEYS })
+  @IsOptional()
+  @IsIn(AD_FORMAT_KEYS)
+  adFormat?: AdFormatKey;
+
+  @ApiPropertyOptional({ description: 'Proposed post time (ISO 8601); the current one when omitted' })
+  @IsOptional()
+  @IsDateString()
+  scheduledPostTime?: string;
+
+  @ApiPropertyOptional({ description: 'Note to the other party' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  message?: string;
 }
 
 export class SubmitContentDto {
@@ -185,6 +479,82 @@ export class DealFiltersDto {
   limit?: number = 20;
 }
 
+export class DealSlotResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: '1-based, in schedule order' })
+  position: number;
+
+  @ApiProperty({ enum: DealSlotStatus })
+  status: DealSlotStatus;
+
+  @ApiProperty()
+  scheduledPostTime: string;
+
+  @ApiPropertyOptional({ enum: ContentType, description: "Set when the slot has its own content" })
+  contentType?: ContentType;
+
+  @ApiPropertyOptional()
+  contentText?: string;
+
+  @ApiProperty()
+  contentMediaUrls: string[];
+
+  @ApiPropertyOptional()
+  postUrl?: string;
+
+  @ApiPropertyOptional()
+  actualPostTime?: string;
+
+  @ApiPropertyOptional()
+  viewsAtVerification?: number;
+
+  @ApiPropertyOptional()
+  verificationDeadline?: string;
+
+  @ApiProperty({ description: 'Share of the deal amount paid out for this post' })
+  amount: string;
+
+  @ApiProperty({ description: 'Share of the platform fee' })
+  platformFee: string;
+
+  @ApiPropertyOptional()
+  releasedAt?: string;
+}
+
+export class DealOfferResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: ['advertiser', 'channel_owner'] })
+  proposedBy: 'advertiser' | 'channel_owner';
+
+  @ApiProperty({ enum: DealOfferStatus })
+  status: DealOfferStatus;
+
+  @ApiProperty()
+  amount: string;
+
+  @ApiProperty({ description: "Platform fee at the deal's fee rate" })
+  platformFee: string;
+
+  @ApiPropertyOptional()
+  adFormat?: string;
+
+  @ApiPropertyOptional({ description: 'Unset: posted right after approval' })
+  scheduledPostTime?: string;
+
+  @ApiPropertyOptional()
+  message?: string;
+
+  @ApiPropertyOptional()
+  respondedAt?: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
 export class DealResponseDto {
   @ApiProperty()
   id: string;
@@ -195,6 +565,21 @@ export class DealResponseDto {
   @ApiProperty()
   platformFee: string;
 
+  @ApiPropertyOptional({ type: FeeBreakdownDto, description: 'How platformFee was computed' })
+  feeBreakdown?: FeeBreakdownDto;
+
+  @ApiProperty({ enum: Currency, description: 'Settlement currency of amount and fee' })
+  currency: Currency;
+
+  @ApiProperty({ enum: EscrowMode })
+  escrowMode: EscrowMode;
+
+  @ApiPropertyOptional({ description: 'Per-deal escrow contract address (CONTRACT mode, set on approval)' })
+  escrowContractAddress?: string;
+
+  @ApiPropertyOptional({ enum: EscrowContractStatus })
+  escrowContractStatus?: EscrowContractStatus;
+
   @ApiProperty({ enum: DealStatus })
   status: DealStatus;
 
@@ -219,12 +604,27 @@ export class DealResponseDto {
   @ApiPropertyOptional()
   minViewsRequired?: number;
 
+  @ApiProperty({ enum: ViewsShortfallPolicy })
+  viewsShortfallPolicy: ViewsShortfallPolicy;
+
   @ApiPropertyOptional()
   viewsAtVerification?: number;
 
   @ApiPropertyOptional()
   verificationDeadline?: string;
 
+  @ApiProperty({ description: 'Links in the post are rewritten into tracked short links' })
+  trackLinks: boolean;
+
+  @ApiPropertyOptional({ description: 'Due time of the current content step (draft submission or review)' })
+  contentDeadline?: string;
+
+  @ApiPropertyOptional({ description: 'Deal override of the content submission deadline, in hours' })
+  contentSubmissionHours?: number;
+
+  @ApiPropertyOptional({ description: 'Deal override of the content review deadline, in hours' })
+  contentApprovalHours?: number;
+
   @ApiPropertyOptional({ enum: DisputeReason })
   disputeReason?: DisputeReason;
 
@@ -273,6 +673,18 @@ export class DealResponseDto {
   @ApiPropertyOptional({ description: 'Ad format' })
   adFormat?: string;
 
+  @ApiPropertyOptional({ description: 'Recurring series the deal was created by' })
+  recurringDealId?: string;
+
+  @ApiPropertyOptional({ description: 'Period of the recurring series, from 1' })
+  occurrence?: number;
+
+  @ApiPropertyOptional({ type: [DealSlotResponseDto], description: 'Posts of a multi-slot deal (included when loaded)' })
+  slots?: DealSlotResponseDto[];
+
+  @ApiPropertyOptional({ type: [DealOfferResponseDto], description: 'Counter-offer thread, oldest first (deal details only)' })
+  offers?: DealOfferResponseDto[];
+
   @ApiProperty()
   createdAt: string;
 
@@ -300,6 +712,190 @@ export class DealMessageResponseDto {
   createdAt: string;
 }
 
+export class DealPostMetricDto {
+  @ApiProperty()
+  sampledAt: string;
+
+  @ApiPropertyOptional({ description: 'Position of the post in a multi-slot deal' })
+  slotPosition?: number;
+
+  @ApiProperty()
+  views: number;
+
+  @ApiProperty()
+  forwards: number;
+
+  @ApiProperty()
+  reactions: number;
+
+  @ApiProperty()
+  replies: number;
+}
+
+export class DealMetricsResponseDto {
+  @ApiProperty()
+  dealId: string;
+
+  @ApiProperty({ type: [DealPostMetricDto], description: 'Samples of the ad post metrics, oldest first' })
+  samples: DealPostMetricDto[];
+}
+
+export class CreateRecurringDealDto {
+  @ApiProperty({ description: 'Campaign ID' })
+  @IsString()
+  campaignId: string;
+
+  @ApiProperty({ description: 'Channel ID' })
+  @IsString()
+  channelId: string;
+
+  @ApiPropertyOptional({ description: "Amount per post; the channel's price for the ad format when omitted", example: '10.5' })
+  @IsOptional()
+  @IsString()
+  @Matches(TON_AMOUNT_REGEX, { message: TON_AMOUNT_MESSAGE })
+  amount?: string;
+
+  @ApiPropertyOptional({ description: 'Ad format the amount was quoted for', enum: AD_FORMAT_KEYS })
+  @IsOptional()
+  @IsIn(AD_FORMAT_KEYS)
+  adFormat?: AdFormatKey;
+
+  @ApiProperty({ description: 'Content type', enum: ContentType })
+  @IsEnum(ContentType)
+  contentType: ContentType;
+
+  @ApiProperty({ description: 'Content posted every period' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  contentText: string;
+
+  @ApiPropertyOptional({ description: 'Media URLs (https only)' })
+  @IsOptional()
+  @IsArray()
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { each: true, message: 'Each media URL must be a valid HTTPS URL' }
+  )
+  @ArrayMaxSize(10)
+  contentMediaUrls?: string[];
+
+  @ApiPropertyOptional({ description: 'Rewrite links in the posts into tracked short links to count clicks', default: false })
+  @IsOptional()
+  @IsBoolean()
+  trackLinks?: boolean;
+
+  @ApiProperty({ description: 'Post time of the first period (ISO 8601)' })
+  @IsDateString()
+  firstPostTime: string;
+
+  @ApiProperty({ description: 'Days between posts', minimum: MIN_RECURRING_INTERVAL_DAYS, maximum: MAX_RECURRING_INTERVAL_DAYS })
+  @Type(() => Number)
+  @IsInt()
+  @Min(MIN_RECURRING_INTERVAL_DAYS)
+  @Max(MAX_RECURRING_INTERVAL_DAYS)
+  intervalDays: number;
+
+  @ApiProperty({ description: 'Number of posts in the series', minimum: 2, maximum: MAX_RECURRING_OCCURRENCES })
+  @Type(() => Number)
+  @IsInt()
+  @Min(2)
+  @Max(MAX_RECURRING_OCCURRENCES)
+  occurrences: number;
+}
+
+export class RecurringDealActionDto {
+  @ApiPropertyOptional({ description: 'Reason shown to the other side' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class RecurringDealResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: RecurringDealStatus })
+  status: RecurringDealStatus;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty({ description: 'Amount per post' })
+  amount: string;
+
+  @ApiProperty({ description: 'Platform fee per post' })
+  platformFee: string;
+
+  @ApiPropertyOptional()
+  adFormat?: string;
+
+  @ApiProperty({ enum: ContentType })
+  contentType: ContentType;
+
+  @ApiProperty()
+  contentText: string;
+
+  @ApiProperty()
+  contentMediaUrls: string[];
+
+  @ApiProperty()
+  trackLinks: boolean;
+
+  @ApiProperty()
+  intervalDays: number;
+
+  @ApiProperty()
+  occurrences: number;
+
+  @ApiProperty({ description: 'Deals created so far' })
+  createdCount: number;
+
+  @ApiProperty()
+  firstPostTime: string;
+
+  @ApiPropertyOptional({ description: 'Post time of the next deal; unset once the series is over' })
+  nextPostTime?: string;
+
+  @ApiPropertyOptional()
+  pausedReason?: string;
+
+  @ApiPropertyOptional({ enum: ['advertiser', 'channel_owner'], description: 'Side that paused the series; unset when paused by the scheduler' })
+  pausedBy?: 'advertiser' | 'channel_owner';
+
+  @ApiProperty()
+  campaignId: string;
+
+  @ApiProperty()
+  channelId: string;
+
+  @ApiPropertyOptional()
+  channelTitle?: string;
+
+  @ApiPropertyOptional()
+  campaignTitle?: string;
+
+  @ApiProperty()
+  advertiserId: string;
+
+  @ApiProperty()
+  channelOwnerId: string;
+
+  @ApiPropertyOptional()
+  approvedAt?: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class RecurringDealFiltersDto {
+  @ApiPropertyOptional({ enum: ['advertiser', 'channel_owner'] })
+  @IsOptional()
+  @IsIn(['advertiser', 'channel_owner'])
+  role?: 'advertiser' | 'channel_owner';
+}
+
 export class PaginatedDealsDto {
   @ApiProperty({ type: [DealResponseDto] })
   items: DealResponseDto[];
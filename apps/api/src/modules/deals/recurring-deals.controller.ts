@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { RecurringDealsService } from './recurring-deals.service';
+import {
+  CreateRecurringDealDto,
+  RecurringDealActionDto,
+  RecurringDealFiltersDto,
+  RecurringDealResponseDto,
+} from './dto/deal.dto';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
+
+@ApiTags('Recurring deals')
+@Controller('recurring-deals')
+@UseGuards(AuthGuard('jwt'))
+@ApiBearerAuth()
+export class RecurringDealsController {
+  constructor(private recurringDealsService: RecurringDealsService) {}
+
+  @Post()
+  @Idempotent()
+  @ApiOperation({ summary: 'Request a recurring series of posts (PENDING until the channel owner approves it)' })
+  async create(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CreateRecurringDealDto
+  ): Promise<RecurringDealResponseDto> {
+    return this.recurringDealsService.create(user.id, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get user recurring series' })
+  async findAll(
+    @CurrentUser() user: CurrentUserData,
+    @Query() filters: RecurringDealFiltersDto
+  ): Promise<RecurringDealResponseDto[]> {
+    return this.recurringDealsService.findByUser(user.id, filters);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get recurring series by ID' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<RecurringDealResponseDto> {
+    return this.recurringDealsService.findOne(id, user.id);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve the series (channel owner)',
+    description: 'A deal is then created, funded and scheduled for each period',
+  })
+  async approve(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<RecurringDealResponseDto> {
+    return this.recurringDealsService.approve(id, user.id);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject the series (channel owner)' })
+  async reject(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: RecurringDealActionDto
+  ): Promise<RecurringDealResponseDto> {
+    return this.recurringDealsService.reject(id, user.id, dto.reason);
+  }
+
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause the series (either side)' })
+  async pause(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: RecurringDealActionDto
+  ): Promise<RecurringDealResponseDto> {
+    return this.recurringDealsService.pause(id, user.id, dto.reason);
+  }
+
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused series from its next upcoming period' })
+  async resume(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData
+  ): Promise<RecurringDealResponseDto> {
+    return this.recurringDealsService.resume(id, user.id);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel the series (either side); deals already created are kept' })
+  async cancel(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: RecurringDealActionDto
+  ): Promise<RecurringDealResponseDto> {
+    return this.recurringDealsService.cancel(id, user.id, dto.reason);
+  }
+}
@@ -0,0 +1,388 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  Prisma,
+  RecurringDeal,
+  USER_BALANCE_COLUMNS,
+  upcomingRecurringOccurrence,
+} from '@tam/prisma-client';
+import { ContentType, Currency, RecurringDealStatus } from '@tam/shared-types';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { NotificationService } from '../../common/notification/notification.service';
+import { ChannelAdminsService } from '../channels/channel-admins.service';
+import { DealsService } from './deals.service';
+import {
+  CreateRecurringDealDto,
+  RecurringDealFiltersDto,
+  RecurringDealResponseDto,
+} from './dto/deal.dto';
+
+type RecurringDealRole = 'advertiser' | 'channel_owner';
+
+const RECURRING_DEAL_INCLUDE = {
+  channel: { select: { title: true } },
+  campaign: { select: { title: true } },
+  _count: { select: { deals: true } },
+} as const;
+
+type RecurringDealWithRelations = Prisma.RecurringDealGetPayload<{
+  include: typeof RECURRING_DEAL_INCLUDE;
+}>;
+
+/**
+ * Recurring series: the channel owner approves the series once, then the
+ * scheduler creates and funds one deal per period from its template.
+ */
+@Injectable()
+export class RecurringDealsService {
+  private readonly logger = new Logger(RecurringDealsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private dealsService: DealsService,
+    private notificationService: NotificationService,
+    private channelAdminsService: ChannelAdminsService,
+  ) {}
+
+  /**
+   * Requests a series from the channel owner. Nothing is locked yet, but the
+   * balance must cover the first post.
+   */
+  async create(userId: string, dto: CreateRecurringDealDto): Promise<RecurringDealResponseDto> {
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id: dto.campaignId },
+    });
+
+    if (!campaign || campaign.advertiserId !== userId) {
+      throw new ForbiddenException('Campaign not found or not authorized');
+    }
+
+    const firstPostTime = new Date(dto.firstPostTime);
+    if (firstPostTime.getTime() <= Date.now()) {
+      throw new BadRequestException('First post time must be in the future');
+    }
+
+    const currency = campaign.currency as Currency;
+    const { channel, amount, platformFee, feeBreakdown } = await this.dealsService.prepareDeal(
+      userId,
+      currency,
+      dto,
+      undefined,
+    );
+    const totalRequired = amount.add(platformFee);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+    const available = user?.[USER_BALANCE_COLUMNS[currency].balance];
+    if (!available || available.lessThan(totalRequired)) {
+      throw new BadRequestException(
+        `Insufficient balance. Required per post: ${totalRequired.toString()} ${currency} (including ${feeBreakdown.feePercent}% fee), Available: ${available?.toString() ?? '0'} ${currency}`
+      );
+    }
+
+    const content = this.dealsService.sanitizeContent(dto.contentText, dto.contentMediaUrls);
+    if (!content.text) {
+      throw new BadRequestException('Content text is required');
+    }
+
+    const series = await this.prisma.recurringDeal.create({
+      data: {
+        currency,
+        amount,
+        platformFee,
+        feeBreakdown,
+        adFormat: dto.adFormat ?? null,
+        contentType: dto.contentType,
+        contentText: content.text,
+        contentMediaUrls: content.mediaUrls,
+        trackLinks: dto.trackLinks ?? false,
+        intervalDays: dto.intervalDays,
+        occurrences: dto.occurrences,
+        firstPostTime,
+        nextPostTime: firstPostTime,
+        campaignId: campaign.id,
+        channelId: channel.id,
+        advertiserId: userId,
+        channelOwnerId: channel.ownerId,
+      },
+      include: RECURRING_DEAL_INCLUDE,
+    });
+
+    this.logger.log(`Recurring deal ${series.id} requested by user ${userId} for channel ${channel.title}`);
+
+    this.notificationService.send('RECURRING_DEAL_REQUESTED', channel.ownerId, {
+      channelId: channel.id,
+      channelTitle: channel.title,
+      amount: amount.toString(),
+      currency,
+      miniAppPath: '/deals',
+    });
+
+    return this.mapToResponse(series);
+  }
+
+  async findByUser(userId: string, filters: RecurringDealFiltersDto): Promise<RecurringDealResponseDto[]> {
+    const where: Prisma.RecurringDealWhereInput =
+      filters.role === 'advertiser'
+        ? { advertiserId: userId }
+        : filters.role === 'channel_owner'
+          ? { channelOwnerId: userId }
+          : { OR: [{ advertiserId: userId }, { channelOwnerId: userId }] };
+
+    const series = await this.prisma.recurringDeal.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      include: RECURRING_DEAL_INCLUDE,
+    });
+
+    return series.map((s) => this.mapToResponse(s));
+  }
+
+  async findOne(id: string, userId: string): Promise<RecurringDealResponseDto> {
+    const { series } = await this.getWithRole(id, userId);
+    return this.mapToResponse(series);
+  }
+
+  /**
+   * Channel owner approves the whole series. Periods whose post time has
+   * already passed are skipped.
+   */
+  async approve(id: string, userId: string): Promise<RecurringDealResponseDto> {
+    const { series, role } = await this.getWithRole(id, userId);
+
+    if (role !== 'channel_owner') {
+      throw new ForbiddenException('Only the channel owner can approve the series');
+    }
+    if (series.status !== RecurringDealStatus.PENDING) {
+      throw new BadRequestException(`Cannot approve series with status ${series.status}`);
+    }
+
+    await this.dealsService.assertBotCanPost(series.channelId);
+
+    const upcoming = upcomingRecurringOccurrence(series, series.nextOccurrence, new Date());
+    if (!upcoming) {
+      throw new BadRequestException('Every post time of the series has passed');
+    }
+
+    const updated = await this.transition(series, RecurringDealStatus.PENDING, {
+      status: RecurringDealStatus.ACTIVE,
+      approvedAt: new Date(),
+      nextOccurrence: upcoming.occurrence,
+      nextPostTime: upcoming.postTime,
+    });
+
+    this.notify('RECURRING_DEAL_APPROVED', updated.advertiserId, updated);
+
+    return this.mapToResponse(updated);
+  }
+
+  /**
+   * Channel owner declines the series before it starts
+   */
+  async reject(id: string, userId: string, reason?: string): Promise<RecurringDealResponseDto> {
+    const { series, role } = await this.getWithRole(id, userId);
+
+    if (role !== 'channel_owner') {
+      throw new ForbiddenException('Only the channel owner can reject the series');
+    }
+    if (series.status !== RecurringDealStatus.PENDING) {
+      throw new BadRequestException(`Cannot reject series with status ${series.status}`);
+    }
+
+    const updated = await this.transition(series, RecurringDealStatus.PENDING, {
+      status: RecurringDealStatus.CANCELLED,
+      nextPostTime: null,
+    });
+
+    this.notify('RECURRING_DEAL_CANCELLED', updated.advertiserId, updated, reason ?? 'Rejected by channel owner');
+
+    return this.mapToResponse(updated);
+  }
+
+  /**
+   * Stops creating deals until resumed. Deals already created go ahead.
+   */
+  async pause(id: string, userId: string, reason?: string): Promise<RecurringDealResponseDto> {
+    const { series, role } = await this.getWithRole(id, userId);
+
+    if (series.status !== RecurringDealStatus.ACTIVE) {
+      throw new BadRequestException(`Cannot pause series with status ${series.status}`);
+    }
+
+    const pausedReason = reason ?? (role === 'advertiser' ? 'Paused by advertiser' : 'Paused by channel owner');
+    const updated = await this.transition(series, RecurringDealStatus.ACTIVE, {
+      status: RecurringDealStatus.PAUSED,
+      pausedReason,
+      pausedBy: role,
+    });
+
+    this.notify('RECURRING_DEAL_PAUSED', this.otherParty(updated, role), updated, pausedReason);
+
+    return this.mapToResponse(updated);
+  }
+
+  /**
+   * Resumes from the next period still ahead. A series paused by one side
+   * is resumed by that side; one paused by the scheduler by either.
+   */
+  async resume(id: string, userId: string): Promise<RecurringDealResponseDto> {
+    const { series, role } = await this.getWithRole(id, userId);
+
+    if (series.status !== RecurringDealStatus.PAUSED) {
+      throw new BadRequestException(`Cannot resume series with status ${series.status}`);
+    }
+    if (series.pausedBy && series.pausedBy !== role) {
+      throw new ForbiddenException('The series can only be resumed by the side that paused it');
+    }
+
+    const upcoming = upcomingRecurringOccurrence(series, series.nextOccurrence, new Date());
+    const updated = await this.transition(series, RecurringDealStatus.PAUSED, upcoming
+      ? {
+          status: RecurringDealStatus.ACTIVE,
+          nextOccurrence: upcoming.occurrence,
+          nextPostTime: upcoming.postTime,
+          pausedReason: null,
+          pausedBy: null,
+        }
+      : {
+          status: RecurringDealStatus.COMPLETED,
+          nextPostTime: null,
+          pausedReason: null,
+          pausedBy: null,
+        });
+
+    return this.mapToResponse(updated);
+  }
+
+  /**
+   * Ends the series for good. Deals already created are not touched and
+   * can be cancelled one by one.
+   */
+  async cancel(id: string, userId: string, reason?: string): Promise<RecurringDealResponseDto> {
+    const { series, role } = await this.getWithRole(id, userId);
+
+    const cancellable: RecurringDealStatus[] = [
+      RecurringDealStatus.PENDING,
+      RecurringDealStatus.ACTIVE,
+      RecurringDealStatus.PAUSED,
+    ];
+    if (!cancellable.includes(series.status as RecurringDealStatus)) {
+      throw new BadRequestException(`Cannot cancel series with status ${series.status}`);
+    }
+
+    const cancelReason = reason ?? (role === 'advertiser' ? 'Cancelled by advertiser' : 'Cancelled by channel owner');
+    const updated = await this.transition(series, series.status as RecurringDealStatus, {
+      status: RecurringDealStatus.CANCELLED,
+      nextPostTime: null,
+    });
+
+    this.notify('RECURRING_DEAL_CANCELLED', this.otherParty(updated, role), updated, cancelReason);
+
+    return this.mapToResponse(updated);
+  }
+
+  /**
+   * Updates the series if it is still in the status it was read in, so a
+   * concurrent action or the scheduler is not overwritten
+   */
+  private async transition(
+    series: RecurringDeal,
+    fromStatus: RecurringDealStatus,
+    data: Prisma.RecurringDealUpdateManyMutationInput,
+  ): Promise<RecurringDealWithRelations> {
+    const { count } = await this.prisma.recurringDeal.updateMany({
+      where: { id: series.id, status: fromStatus, nextOccurrence: series.nextOccurrence },
+      data,
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Series was changed concurrently, please retry');
+    }
+
+    return this.prisma.recurringDeal.findUniqueOrThrow({
+      where: { id: series.id },
+      include: RECURRING_DEAL_INCLUDE,
+    });
+  }
+
+  private async getWithRole(
+    id: string,
+    userId: string,
+  ): Promise<{ series: RecurringDealWithRelations; role: RecurringDealRole }> {
+    const series = await this.prisma.recurringDeal.findUnique({
+      where: { id },
+      include: RECURRING_DEAL_INCLUDE,
+    });
+
+    if (!series) {
+      throw new NotFoundException('Recurring deal not found');
+    }
+
+    if (series.advertiserId === userId) {
+      return { series, role: 'advertiser' };
+    }
+    if (series.channelOwnerId === userId) {
+      return { series, role: 'channel_owner' };
+    }
+
+    const isAdmin = await this.channelAdminsService.isChannelAdmin(series.channelId, userId);
+    if (!isAdmin) {
+      throw new ForbiddenException('Not authorized');
+    }
+    return { series, role: 'channel_owner' };
+  }
+
+  private otherParty(series: RecurringDeal, role: RecurringDealRole): string {
+    return role === 'advertiser' ? series.channelOwnerId : series.advertiserId;
+  }
+
+  private notify(
+    type: 'RECURRING_DEAL_APPROVED' | 'RECURRING_DEAL_PAUSED' | 'RECURRING_DEAL_CANCELLED',
+    recipientUserId: string,
+    series: RecurringDealWithRelations,
+    reason?: string,
+  ): void {
+    this.notificationService.send(type, recipientUserId, {
+      channelId: series.channelId,
+      channelTitle: series.channel.title,
+      ...(reason && { reason }),
+      miniAppPath: '/deals',
+    });
+  }
+
+  private mapToResponse(series: RecurringDealWithRelations): RecurringDealResponseDto {
+    return {
+      id: series.id,
+      status: series.status as RecurringDealStatus,
+      currency: series.currency as Currency,
+      amount: series.amount.toString(),
+      platformFee: series.platformFee.toString(),
+      adFormat: series.adFormat ?? undefined,
+      contentType: series.contentType as ContentType,
+      contentText: series.contentText,
+      contentMediaUrls: series.contentMediaUrls,
+      trackLinks: series.trackLinks,
+      intervalDays: series.intervalDays,
+      occurrences: series.occurrences,
+      createdCount: series._count.deals,
+      firstPostTime: series.firstPostTime.toISOString(),
+      nextPostTime: series.nextPostTime?.toISOString(),
+      pausedReason: series.pausedReason ?? undefined,
+      pausedBy: (series.pausedBy as RecurringDealRole | null) ?? undefined,
+      campaignId: series.campaignId,
+      channelId: series.channelId,
+      channelTitle: series.channel.title,
+      campaignTitle: series.campaign.title,
+      advertiserId: series.advertiserId,
+      channelOwnerId: series.channelOwnerId,
+      approvedAt: series.approvedAt?.toISOString(),
+      createdAt: series.createdAt.toISOString(),
+    };
+  }
+}
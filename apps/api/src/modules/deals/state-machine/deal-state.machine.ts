@@ -1,11 +1,14 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import { DealStatus } from '@tam/shared-types';
+import { DealSlotStatus, dealStatusFromSlots } from '@tam/prisma-client';
 
 export type DealAction =
   | 'CREATE'             // Рекламодатель создаёт заявку
   | 'APPROVE'            // Владелец канала одобряет (средства блокируются → CONTENT_PENDING)
   | 'REJECT'             // Владелец канала отклоняет
   | 'CANCEL'             // Рекламодатель отменяет (только до одобрения)
+  | 'COUNTER_OFFER'      // Любая сторона предлагает другие условия (цена, формат, время)
+  | 'ACCEPT_OFFER'       // Другая сторона принимает предложение → одобрение на новых условиях
   | 'SUBMIT_CONTENT'     // Владелец канала отправляет черновик контента
   | 'APPROVE_CONTENT'    // Рекламодатель одобряет контент
   | 'REJECT_CONTENT'     // Рекламодатель просит доработку
@@ -45,6 +48,16 @@ export class DealStateMachine {
       to: DealStatus.CANCELLED,
       allowedRoles: ['advertiser'],
     },
+    COUNTER_OFFER: {
+      from: [DealStatus.PENDING],
+      to: DealStatus.PENDING,
+      allowedRoles: ['advertiser', 'channel_owner'],
+    },
+    ACCEPT_OFFER: {
+      from: [DealStatus.PENDING],
+      to: DealStatus.CONTENT_PENDING, // Same as APPROVE, with the offered terms
+      allowedRoles: ['advertiser', 'channel_owner'],
+    },
     SUBMIT_CONTENT: {
       from: [DealStatus.CONTENT_PENDING],
       to: DealStatus.CONTENT_SUBMITTED,
@@ -151,6 +164,14 @@ export class DealStateMachine {
     return actions;
   }
 
+  /**
+   * Сделка с несколькими слотами: статус выводится из слотов
+   * SCHEDULED пока есть неопубликованные посты, POSTED пока не все выплачены, затем RELEASED
+   */
+  getSlotAggregateStatus(slots: { status: DealSlotStatus }[]): DealStatus {
+    return dealStatusFromSlots(slots) as DealStatus;
+  }
+
   isTerminalStatus(status: DealStatus): boolean {
     const terminalStatuses: DealStatus[] = [
       DealStatus.RELEASED,
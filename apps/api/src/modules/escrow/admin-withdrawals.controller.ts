@@ -0,0 +1,54 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { UserRole } from '@tam/shared-types';
+import { EscrowService } from './escrow.service';
+import { RejectWithdrawalDto, WithdrawalReviewItemDto } from './dto/escrow.dto';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
+
+@ApiTags('Admin')
+@Controller('admin/withdrawals')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.MODERATOR)
+@ApiBearerAuth()
+export class AdminWithdrawalsController {
+  constructor(private escrowService: EscrowService) {}
+
+  @Get('review')
+  @ApiOperation({ summary: 'Confirmed withdrawals above the review threshold (admin/moderator)' })
+  async findForReview(): Promise<WithdrawalReviewItemDto[]> {
+    return this.escrowService.findWithdrawalsForReview();
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve a withdrawal of another user and send it (admin/moderator)' })
+  async approve(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') transactionId: string,
+  ) {
+    return this.escrowService.approveWithdrawal(user.id, transactionId);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a withdrawal and refund the user (admin/moderator)' })
+  async reject(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') transactionId: string,
+    @Body() dto: RejectWithdrawalDto,
+  ) {
+    return this.escrowService.rejectWithdrawal(user.id, transactionId, dto.reason);
+  }
+}
@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsOptional, Matches, IsNotEmpty } from 'class-validator';
+import { IsString, IsOptional, Matches, IsNotEmpty, IsEnum, MaxLength } from 'class-validator';
+import { Currency } from '@tam/shared-types';
 
 // Regex for valid TON amount: positive number with up to 9 decimal places
 const TON_AMOUNT_REGEX = /^(?!0(\.0+)?$)\d{1,12}(\.\d{1,9})?$/;
@@ -20,29 +21,42 @@ export class DepositRequestDto {
   @IsOptional()
   @IsString()
   dealId?: string;
+
+  @ApiPropertyOptional({ enum: Currency, default: Currency.TON, description: 'Currency to deposit' })
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency;
 }
 
 export class WithdrawalCreateDto {
   @ApiProperty({
-    description: 'Amount to withdraw in TON',
+    description: 'Amount to withdraw in the selected currency',
     example: '10.5',
   })
   @IsString()
   @IsNotEmpty()
   @Matches(TON_AMOUNT_REGEX, { message: TON_AMOUNT_MESSAGE })
   amount: string;
+
+  @ApiPropertyOptional({ enum: Currency, default: Currency.TON, description: 'Currency to withdraw' })
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency;
 }
 
 export class DepositResponseDto {
-  @ApiProperty({ description: 'Master wallet address to send TON to' })
+  @ApiProperty({ description: 'Master wallet address to send TON or USDT to' })
   address: string;
 
-  @ApiProperty({ description: 'Memo to include in transaction' })
+  @ApiProperty({ description: 'Memo to include in transaction (jetton forward payload for USDT)' })
   memo: string;
 
   @ApiProperty({ description: 'Expected amount' })
   amount: string;
 
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
   @ApiProperty({ description: 'Expiry time for this deposit' })
   expiresAt: string;
 
@@ -77,10 +91,58 @@ export class WithdrawResponseDto {
 
   @ApiProperty({ description: 'Estimated processing time' })
   estimatedTime: string;
+
+  @ApiProperty({ description: 'Confirm in the Telegram bot before this time or the withdrawal is cancelled' })
+  confirmationExpiresAt: string;
+
+  @ApiProperty({ description: 'Whether an admin has to approve the withdrawal after confirmation' })
+  reviewRequired: boolean;
+}
+
+class WithdrawalReviewUserDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional()
+  username?: string;
+
+  @ApiPropertyOptional()
+  firstName?: string;
+
+  @ApiProperty()
+  registeredAt: string;
 }
 
-export class BalanceResponseDto {
-  @ApiProperty({ description: 'Available balance in TON' })
+export class WithdrawalReviewItemDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  amount: string;
+
+  @ApiProperty({ enum: Currency })
+  currency: string;
+
+  @ApiProperty()
+  toAddress: string;
+
+  @ApiProperty()
+  createdAt: string;
+
+  @ApiProperty({ type: WithdrawalReviewUserDto })
+  user: WithdrawalReviewUserDto;
+}
+
+export class RejectWithdrawalDto {
+  @ApiProperty({ description: 'Shown to the user' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class CurrencyBalanceDto {
+  @ApiProperty({ description: 'Available balance' })
   available: string;
 
   @ApiProperty({ description: 'Frozen balance (in escrow)' })
@@ -96,6 +158,11 @@ export class BalanceResponseDto {
   withdrawable: string;
 }
 
+export class BalanceResponseDto extends CurrencyBalanceDto {
+  @ApiProperty({ type: CurrencyBalanceDto, description: 'USDT balances (top-level fields are TON)' })
+  usdt: CurrencyBalanceDto;
+}
+
 export class TransactionHistoryDto {
   @ApiProperty()
   id: string;
@@ -106,6 +173,9 @@ export class TransactionHistoryDto {
   @ApiProperty()
   amount: string;
 
+  @ApiProperty({ enum: Currency })
+  currency: string;
+
   @ApiProperty()
   type: string;
 
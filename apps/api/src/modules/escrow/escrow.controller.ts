@@ -8,6 +8,8 @@ import {
   UseGuards,
   ParseIntPipe,
   DefaultValuePipe,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthGuard } from '@nestjs/passport';
@@ -22,6 +24,7 @@ import {
   PaginatedTransactionsDto,
 } from './dto/escrow.dto';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 
 @ApiTags('Escrow')
 @Controller('escrow')
@@ -58,13 +61,24 @@ export class EscrowController {
   }
 
   @Post('withdrawal/create')
+  @Idempotent()
   @Throttle({ default: { limit: 5, ttl: 60000 } })
   @ApiOperation({ summary: 'Create withdrawal (uses connected wallet address)' })
   async createWithdrawal(
     @CurrentUser() user: CurrentUserData,
     @Body() body: WithdrawalCreateDto
   ) {
-    return this.escrowService.createWithdrawal(user.id, body.amount);
+    return this.escrowService.createWithdrawal(user.id, body.amount, body.currency);
+  }
+
+  @Post('withdrawal/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a withdrawal awaiting confirmation or review' })
+  async cancelWithdrawal(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') transactionId: string
+  ) {
+    return this.escrowService.cancelWithdrawal(user.id, transactionId);
   }
 
   @Get('withdrawal/:id/status')
@@ -2,7 +2,9 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { BullModule } from '@nestjs/bullmq';
 import { QUEUE_NAMES } from '@tam/queue-contracts';
+import { NotificationModule } from '../../common/notification/notification.module';
 import { EscrowController } from './escrow.controller';
+import { AdminWithdrawalsController } from './admin-withdrawals.controller';
 import { EscrowService } from './escrow.service';
 import { TonWalletService } from './ton-wallet.service';
 
@@ -11,10 +13,10 @@ import { TonWalletService } from './ton-wallet.service';
     ConfigModule,
     BullModule.registerQueue(
       { name: QUEUE_NAMES.WITHDRAWAL_PROCESSOR },
-      { name: QUEUE_NAMES.DEPOSIT_WATCHER },
     ),
+    NotificationModule,
   ],
-  controllers: [EscrowController],
+  controllers: [EscrowController, AdminWithdrawalsController],
   providers: [EscrowService, TonWalletService],
   exports: [EscrowService, TonWalletService],
 })
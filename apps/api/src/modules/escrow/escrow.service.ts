@@ -1,38 +1,93 @@
 import {
   Injectable,
   BadRequestException,
+  ForbiddenException,
   NotFoundException,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { PrismaService } from '../../common/prisma/prisma.service';
+import { NotificationService } from '../../common/notification/notification.service';
 import { TonWalletService } from './ton-wallet.service';
 import {
   MIN_DEPOSIT_TON,
+  MIN_DEPOSIT_USDT,
   MIN_WITHDRAWAL_TON,
+  MIN_WITHDRAWAL_USDT,
   DEPOSIT_EXPIRY_MS,
   DAILY_WITHDRAWAL_LIMIT_TON,
+  DAILY_WITHDRAWAL_LIMIT_USDT,
+  WITHDRAWAL_CONFIRMATION_TTL_MS,
+  WITHDRAWAL_REVIEW_THRESHOLD_TON,
+  WITHDRAWAL_REVIEW_THRESHOLD_USDT,
+  USDT_DECIMALS,
+  Currency,
+  EscrowContractStatus,
   TransactionType,
   TransactionStatus,
 } from '@tam/shared-types';
-import { generateDepositMemo } from '@tam/ton-utils';
+import { generateDepositMemo, DealEscrowAction } from '@tam/ton-utils';
 import {
   QUEUE_NAMES,
   CRITICAL_JOB_OPTIONS,
-  DEFAULT_JOB_OPTIONS,
   WithdrawalJobData,
-  DepositWatcherJobData,
 } from '@tam/queue-contracts';
 import {
   DepositRequestDto,
   DepositResponseDto,
   WithdrawResponseDto,
   BalanceResponseDto,
+  CurrencyBalanceDto,
   TransactionHistoryDto,
   PaginatedTransactionsDto,
+  WithdrawalReviewItemDto,
 } from './dto/escrow.dto';
-import { Prisma } from '@tam/prisma-client';
+import {
+  Prisma,
+  postJournalEntry,
+  userAvailable,
+  userFrozen,
+  PLATFORM_FEES_ACCOUNT,
+  creditReferralReward,
+  HOT_WALLET_ACCOUNT,
+  USER_BALANCE_COLUMNS,
+  cancelWithdrawal,
+} from '@tam/prisma-client';
+
+const CURRENCY_LIMITS: Record<Currency, {
+  minDeposit: string;
+  minWithdrawal: string;
+  dailyWithdrawal: string;
+  reviewThreshold: string;
+  decimals: number;
+}> = {
+  [Currency.TON]: {
+    minDeposit: MIN_DEPOSIT_TON,
+    minWithdrawal: MIN_WITHDRAWAL_TON,
+    dailyWithdrawal: DAILY_WITHDRAWAL_LIMIT_TON,
+    reviewThreshold: WITHDRAWAL_REVIEW_THRESHOLD_TON,
+    decimals: 9,
+  },
+  [Currency.USDT]: {
+    minDeposit: MIN_DEPOSIT_USDT,
+    minWithdrawal: MIN_WITHDRAWAL_USDT,
+    dailyWithdrawal: DAILY_WITHDRAWAL_LIMIT_USDT,
+    reviewThreshold: WITHDRAWAL_REVIEW_THRESHOLD_USDT,
+    decimals: USDT_DECIMALS,
+  },
+};
+
+type WithdrawalStatus =
+  | 'awaiting_confirmation'
+  | 'awaiting_review'
+  | 'pending'
+  | 'processing'
+  | 'sent'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
 
 @Injectable()
 export class EscrowService {
@@ -41,22 +96,30 @@ export class EscrowService {
   constructor(
     private prisma: PrismaService,
     private tonWallet: TonWalletService,
+    private notificationService: NotificationService,
+    private configService: ConfigService,
     @InjectQueue(QUEUE_NAMES.WITHDRAWAL_PROCESSOR)
     private withdrawalQueue: Queue<WithdrawalJobData>,
-    @InjectQueue(QUEUE_NAMES.DEPOSIT_WATCHER)
-    private depositWatcherQueue: Queue<DepositWatcherJobData>,
   ) {}
 
   async createDepositAddress(
     userId: string,
     dto: DepositRequestDto
   ): Promise<DepositResponseDto> {
+    const currency = dto.currency ?? Currency.TON;
+    const limits = CURRENCY_LIMITS[currency];
     const amount = new Prisma.Decimal(dto.amount);
-    const minDeposit = new Prisma.Decimal(MIN_DEPOSIT_TON);
+    const minDeposit = new Prisma.Decimal(limits.minDeposit);
+
+    if (amount.decimalPlaces() > limits.decimals) {
+      throw new BadRequestException(
+        `${currency} amounts support up to ${limits.decimals} decimal places`
+      );
+    }
 
     if (amount.lessThan(minDeposit)) {
       throw new BadRequestException(
-        `Minimum deposit amount is ${MIN_DEPOSIT_TON} TON`
+        `Minimum deposit amount is ${limits.minDeposit} ${currency}`
       );
     }
 
@@ -64,19 +127,26 @@ export class EscrowService {
       throw new BadRequestException('TON wallet service not available. Configure TON_MASTER_WALLET_MNEMONIC or TON_MASTER_WALLET_ADDRESS.');
     }
 
+    if (currency === Currency.USDT && !this.tonWallet.hasJettonSupport()) {
+      throw new BadRequestException('USDT deposits are not available. Configure USDT_JETTON_MASTER.');
+    }
+
     // Generate unique memo
     const memo = generateDepositMemo(userId);
 
     // Calculate expiry
     const expiresAt = new Date(Date.now() + DEPOSIT_EXPIRY_MS);
 
-    // Create deposit address record
+    // Create deposit address record. USDT is sent to the same master wallet
+    // as a jetton transfer carrying the memo as its forward payload.
     const depositAddress = await this.prisma.depositAddress.create({
       data: {
         address: this.tonWallet.getMasterAddress(),
         memo,
+        currency,
         userId,
         expiresAt,
+        expectedAmount: amount,
       },
     });
 
@@ -84,6 +154,7 @@ export class EscrowService {
     await this.prisma.transaction.create({
       data: {
         amount: new Prisma.Decimal(dto.amount),
+        currency,
         type: TransactionType.DEPOSIT,
         status: TransactionStatus.PENDING,
         userId,
@@ -95,33 +166,9 @@ export class EscrowService {
       },
     });
 
-    // Enqueue deposit watcher job only if wallet is fully initialized
-    // (fallback address mode can't auto-verify deposits)
-    if (this.tonWallet.isInitialized()) {
-      const now = Date.now();
-      await this.depositWatcherQueue.add(
-        `deposit-${depositAddress.id}`,
-        {
-          depositAddressId: depositAddress.id,
-          userId,
-          memo,
-          expectedAmount: dto.amount,
-          createdAt: now,
-          expiresAt: expiresAt.getTime(),
-        },
-        {
-          ...DEFAULT_JOB_OPTIONS,
-          delay: 30_000, // Start checking after 30 seconds
-          attempts: 60,  // Retry up to 60 times (covers ~30 min with backoff)
-          backoff: {
-            type: 'fixed',
-            delay: 30_000, // Check every 30 seconds
-          },
-        },
-      );
-
-      this.logger.log(`Deposit watcher job enqueued for ${depositAddress.id}`);
-    } else {
+    // The workers' deposit scanner matches incoming transfers by memo. It
+    // needs the wallet mnemonic (fallback address mode can't auto-verify deposits)
+    if (!this.tonWallet.isInitialized()) {
       this.logger.warn(
         `Deposit ${depositAddress.id} created with fallback address. Auto-verification disabled — configure TON_MASTER_WALLET_MNEMONIC for auto-confirmation.`,
       );
@@ -131,6 +178,7 @@ export class EscrowService {
       address: depositAddress.address,
       memo: depositAddress.memo,
       amount: dto.amount,
+      currency,
       expiresAt: expiresAt.toISOString(),
       depositAddressId: depositAddress.id,
     };
@@ -146,15 +194,25 @@ export class EscrowService {
     }
 
     // Use Decimal arithmetic for precision
-    const total = user.balanceTon.add(user.frozenTon);
-    const withdrawable = user.balanceTon.sub(user.appealFrozenTon);
+    const toBalance = (currency: Currency): CurrencyBalanceDto => {
+      const columns = USER_BALANCE_COLUMNS[currency];
+      const available = user[columns.balance];
+      const frozen = user[columns.frozen];
+      const appealFrozen = user[columns.appealFrozen];
+
+      return {
+        available: available.toString(),
+        frozen: frozen.toString(),
+        total: available.add(frozen).toString(),
+        appealFrozen: appealFrozen.toString(),
+        withdrawable: available.sub(appealFrozen).toString(),
+      };
+    };
 
+    // TON stays at the top level for existing clients
     return {
-      available: user.balanceTon.toString(),
-      frozen: user.frozenTon.toString(),
-      total: total.toString(),
-      appealFrozen: user.appealFrozenTon.toString(),
-      withdrawable: withdrawable.toString(),
+      ...toBalance(Currency.TON),
+      usdt: toBalance(Currency.USDT),
     };
   }
 
@@ -180,6 +238,7 @@ export class EscrowService {
         id: tx.id,
         tonTxHash: tx.tonTxHash ?? undefined,
         amount: tx.amount.toString(),
+        currency: tx.currency,
         type: tx.type,
         status: tx.status,
         dealId: tx.dealId ?? undefined,
@@ -194,14 +253,20 @@ export class EscrowService {
 
   /**
    * Get the status of a specific deposit by its depositAddress ID.
+   * 'partial': part of the amount arrived (and was credited), the deposit
+   * is still open for the rest. amountMismatch flags a closed deposit that
+   * received more or less than requested.
    */
   async getDepositStatus(
     userId: string,
     depositAddressId: string,
   ): Promise<{
-    status: 'pending' | 'confirming' | 'completed' | 'expired' | 'failed';
+    status: 'pending' | 'confirming' | 'partial' | 'completed' | 'expired' | 'failed';
     txHash?: string;
     amount?: string;
+    receivedAmount?: string;
+    amountMismatch?: string;
+    currency?: string;
   }> {
     const depositAddress = await this.prisma.depositAddress.findUnique({
       where: { id: depositAddressId },
@@ -228,6 +293,15 @@ export class EscrowService {
       throw new NotFoundException('Deposit transaction not found');
     }
 
+    if (depositAddress.isActive && depositAddress.receivedAmount.greaterThan(0)) {
+      return {
+        status: 'partial',
+        amount: depositAddress.expectedAmount?.toString(),
+        receivedAmount: depositAddress.receivedAmount.toString(),
+        currency: depositAddress.currency,
+      };
+    }
+
     // Check if expired
     if (
       depositAddress.expiresAt < new Date() &&
@@ -246,6 +320,9 @@ export class EscrowService {
       status: statusMap[transaction.status] ?? 'pending',
       txHash: transaction.tonTxHash ?? undefined,
       amount: transaction.amount.toString(),
+      receivedAmount: depositAddress.receivedAmount.toString(),
+      amountMismatch: depositAddress.amountMismatch ?? undefined,
+      currency: transaction.currency,
     };
   }
 
@@ -256,13 +333,21 @@ export class EscrowService {
   async createWithdrawal(
     userId: string,
     amount: string,
+    currency: Currency = Currency.TON,
   ): Promise<WithdrawResponseDto> {
+    const limits = CURRENCY_LIMITS[currency];
     const amountDecimal = new Prisma.Decimal(amount);
-    const minWithdrawal = new Prisma.Decimal(MIN_WITHDRAWAL_TON);
+    const minWithdrawal = new Prisma.Decimal(limits.minWithdrawal);
+
+    if (amountDecimal.decimalPlaces() > limits.decimals) {
+      throw new BadRequestException(
+        `${currency} amounts support up to ${limits.decimals} decimal places`,
+      );
+    }
 
     if (amountDecimal.lessThan(minWithdrawal)) {
       throw new BadRequestException(
-        `Minimum withdrawal amount is ${MIN_WITHDRAWAL_TON} TON`,
+        `Minimum withdrawal amount is ${limits.minWithdrawal} ${currency}`,
       );
     }
 
@@ -280,80 +365,261 @@ export class EscrowService {
       );
     }
 
-    const withdrawable = user.balanceTon.sub(user.appealFrozenTon);
+    if (user.withdrawalsLockedUntil && user.withdrawalsLockedUntil > new Date()) {
+      throw new ForbiddenException(
+        `Withdrawals are locked until ${user.withdrawalsLockedUntil.toISOString()} after a wallet or allowlist change`,
+      );
+    }
+
+    if (user.withdrawalAllowlistEnabled) {
+      const allowed = await this.prisma.withdrawalAddress.findUnique({
+        where: { userId_address: { userId, address: user.walletAddress } },
+      });
+      if (!allowed) {
+        throw new ForbiddenException('The connected wallet is not on your withdrawal allowlist');
+      }
+    }
+
+    const columns = USER_BALANCE_COLUMNS[currency];
+    const withdrawable = user[columns.balance].sub(user[columns.appealFrozen]);
     if (withdrawable.lessThan(amountDecimal)) {
       throw new BadRequestException('Insufficient balance');
     }
 
-    // Daily withdrawal limit check (10 TON per day by default)
+    // Daily withdrawal limit check, per currency
     const todayStart = new Date();
     todayStart.setHours(0, 0, 0, 0);
     const dailyWithdrawals = await this.prisma.transaction.aggregate({
       where: {
         userId,
         type: TransactionType.WITHDRAWAL,
+        currency,
         createdAt: { gte: todayStart },
-        status: { not: TransactionStatus.FAILED },
+        status: { notIn: [TransactionStatus.FAILED, TransactionStatus.CANCELLED] },
       },
       _sum: { amount: true },
     });
 
     const dailyTotal = dailyWithdrawals._sum.amount ?? new Prisma.Decimal(0);
-    const dailyLimit = new Prisma.Decimal(DAILY_WITHDRAWAL_LIMIT_TON);
+    const dailyLimit = new Prisma.Decimal(limits.dailyWithdrawal);
     if (new Prisma.Decimal(dailyTotal.toString()).add(amountDecimal).greaterThan(dailyLimit)) {
       throw new BadRequestException('Daily withdrawal limit exceeded');
     }
 
+    const reviewThreshold = new Prisma.Decimal(
+      this.configService.get<string>(`WITHDRAWAL_REVIEW_THRESHOLD_${currency}`, limits.reviewThreshold),
+    );
+    const confirmationExpiresAt = new Date(Date.now() + WITHDRAWAL_CONFIRMATION_TTL_MS);
+
     this.logger.log(
-      `Creating withdrawal: ${amount} TON for user ${userId} to ${user.walletAddress.slice(0, 10)}...`,
+      `Creating withdrawal: ${amount} ${currency} for user ${userId} to ${user.walletAddress.slice(0, 10)}...`,
     );
 
     const transaction = await this.prisma.$transaction(async (tx) => {
-      await tx.user.update({
-        where: { id: userId },
-        data: { balanceTon: { decrement: amountDecimal } },
-      });
-
-      return tx.transaction.create({
+      const created = await tx.transaction.create({
         data: {
           amount: amountDecimal,
+          currency,
           type: TransactionType.WITHDRAWAL,
-          status: TransactionStatus.PENDING,
+          status: TransactionStatus.AWAITING_CONFIRMATION,
           userId,
           metadata: { toAddress: user.walletAddress },
+          confirmationExpiresAt,
+          reviewRequired: amountDecimal.greaterThan(reviewThreshold),
         },
       });
+
+      // Funds leave the user's balance immediately; cancellation or a failed send reverses this
+      await postJournalEntry(tx, {
+        type: TransactionType.WITHDRAWAL,
+        currency,
+        transactionId: created.id,
+        movements: [
+          { debit: userAvailable(userId), credit: HOT_WALLET_ACCOUNT, amount: amountDecimal },
+        ],
+      });
+
+      return created;
+    });
+
+    // The bot message carries the confirm/cancel buttons; the scheduler
+    // dispatches the withdrawal once it is confirmed
+    this.notificationService.send('WITHDRAWAL_CONFIRMATION', userId, {
+      transactionId: transaction.id,
+      amount,
+      currency,
+      toAddress: user.walletAddress,
+    });
+
+    return {
+      transactionId: transaction.id,
+      status: TransactionStatus.AWAITING_CONFIRMATION,
+      estimatedTime: '5-10 minutes after confirmation',
+      confirmationExpiresAt: confirmationExpiresAt.toISOString(),
+      reviewRequired: transaction.reviewRequired,
+    };
+  }
+
+  /**
+   * Cancels the user's own withdrawal while it awaits confirmation or review
+   */
+  async cancelWithdrawal(userId: string, transactionId: string): Promise<{ cancelled: boolean }> {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: transactionId },
+      select: { userId: true, type: true },
+    });
+
+    if (!transaction || transaction.userId !== userId || transaction.type !== TransactionType.WITHDRAWAL) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    const cancelled = await this.prisma.$transaction((tx) =>
+      cancelWithdrawal(tx, transactionId, { reason: 'Cancelled by user' }),
+    );
+
+    if (!cancelled) {
+      throw new BadRequestException('Withdrawal can no longer be cancelled');
+    }
+
+    this.logger.log(`Withdrawal ${transactionId} cancelled by user ${userId}`);
+
+    return { cancelled: true };
+  }
+
+  /**
+   * Confirmed withdrawals above the review threshold (admin)
+   */
+  async findWithdrawalsForReview(): Promise<WithdrawalReviewItemDto[]> {
+    const withdrawals = await this.prisma.transaction.findMany({
+      where: { type: TransactionType.WITHDRAWAL, status: TransactionStatus.AWAITING_REVIEW },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        user: {
+          select: { id: true, username: true, firstName: true, createdAt: true },
+        },
+      },
+    });
+
+    return withdrawals.map((w) => {
+      const metadata = (w.metadata as Record<string, unknown>) ?? {};
+      return {
+        id: w.id,
+        amount: w.amount.toString(),
+        currency: w.currency,
+        toAddress: typeof metadata.toAddress === 'string' ? metadata.toAddress : '',
+        createdAt: w.createdAt.toISOString(),
+        user: {
+          id: w.user.id,
+          username: w.user.username ?? undefined,
+          firstName: w.user.firstName ?? undefined,
+          registeredAt: w.user.createdAt.toISOString(),
+        },
+      };
+    });
+  }
+
+  async approveWithdrawal(reviewerId: string, transactionId: string): Promise<{ approved: boolean }> {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: transactionId },
+    });
+
+    if (!transaction || transaction.type !== TransactionType.WITHDRAWAL) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    // The review exists to get a second person to look at it
+    if (transaction.userId === reviewerId) {
+      throw new ForbiddenException('Cannot approve your own withdrawal');
+    }
+
+    const metadata = (transaction.metadata as Prisma.JsonObject | null) ?? {};
+    const updated = await this.prisma.transaction.updateMany({
+      where: { id: transactionId, status: TransactionStatus.AWAITING_REVIEW },
+      data: {
+        status: TransactionStatus.PENDING,
+        metadata: { ...metadata, reviewedBy: reviewerId, reviewedAt: new Date().toISOString() },
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new BadRequestException('Withdrawal is not awaiting review');
+    }
+
+    await this.enqueueWithdrawal(transaction.id);
+
+    this.logger.log(`Withdrawal ${transactionId} approved by ${reviewerId}`);
+
+    return { approved: true };
+  }
+
+  async rejectWithdrawal(
+    reviewerId: string,
+    transactionId: string,
+    reason: string,
+  ): Promise<{ rejected: boolean }> {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: transactionId },
     });
 
-    // Enqueue withdrawal job for background processing
+    if (!transaction || transaction.type !== TransactionType.WITHDRAWAL) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    const rejected = await this.prisma.$transaction((tx) =>
+      cancelWithdrawal(tx, transactionId, {
+        reason,
+        fromStatuses: [TransactionStatus.AWAITING_REVIEW],
+        metadata: { reviewedBy: reviewerId, reviewedAt: new Date().toISOString() },
+      }),
+    );
+
+    if (!rejected) {
+      throw new BadRequestException('Withdrawal is not awaiting review');
+    }
+
+    this.notificationService.send('WITHDRAWAL_REJECTED', transaction.userId, {
+      transactionId,
+      amount: transaction.amount.toString(),
+      currency: transaction.currency,
+      reason,
+      miniAppPath: '/',
+    });
+
+    this.logger.log(`Withdrawal ${transactionId} rejected by ${reviewerId}: ${reason}`);
+
+    return { rejected: true };
+  }
+
+  /**
+   * Hands a PENDING withdrawal to the withdrawal processor. The job id makes
+   * this safe to repeat; the scheduler also dispatches confirmed withdrawals.
+   */
+  private async enqueueWithdrawal(transactionId: string): Promise<void> {
+    const transaction = await this.prisma.transaction.findUniqueOrThrow({
+      where: { id: transactionId },
+    });
+    const metadata = (transaction.metadata as Record<string, unknown>) ?? {};
+
     await this.withdrawalQueue.add(
       `withdrawal-${transaction.id}`,
       {
         transactionId: transaction.id,
-        userId,
-        toAddress: user.walletAddress,
-        amount,
+        userId: transaction.userId,
+        toAddress: typeof metadata.toAddress === 'string' ? metadata.toAddress : '',
+        amount: transaction.amount.toString(),
+        currency: transaction.currency,
       },
-      CRITICAL_JOB_OPTIONS,
+      { ...CRITICAL_JOB_OPTIONS, jobId: `withdrawal-${transaction.id}` },
     );
 
     this.logger.log(`Withdrawal job enqueued for transaction ${transaction.id}`);
-
-    return {
-      transactionId: transaction.id,
-      status: 'PENDING',
-      estimatedTime: '5-10 minutes',
-    };
   }
 
-  /**
-   * Get withdrawal status by transaction ID.
-   */
   async getWithdrawalStatus(
     userId: string,
     transactionId: string,
   ): Promise<{
-    status: 'pending' | 'processing' | 'sent' | 'completed' | 'failed';
+    status: WithdrawalStatus;
     txHash?: string;
     failReason?: string;
   }> {
@@ -372,15 +638,25 @@ export class EscrowService {
     const metadata = (transaction.metadata as Record<string, unknown>) ?? {};
 
     // Determine detailed status:
+    // AWAITING_CONFIRMATION / AWAITING_REVIEW / CANCELLED → as is
+    // PENDING + included in a broadcast batch (or held for review after it) → 'sent'
     // PENDING + toAddress in metadata means job was queued → 'processing'
     // PENDING without metadata → 'pending' (should not happen normally)
     // CONFIRMED → 'completed'
     // FAILED → 'failed'
-    let status: 'pending' | 'processing' | 'sent' | 'completed' | 'failed';
+    let status: WithdrawalStatus;
     if (transaction.status === TransactionStatus.CONFIRMED) {
       status = 'completed';
     } else if (transaction.status === TransactionStatus.FAILED) {
       status = 'failed';
+    } else if (transaction.status === TransactionStatus.CANCELLED) {
+      status = 'cancelled';
+    } else if (transaction.status === TransactionStatus.AWAITING_CONFIRMATION) {
+      status = 'awaiting_confirmation';
+    } else if (transaction.status === TransactionStatus.AWAITING_REVIEW) {
+      status = 'awaiting_review';
+    } else if (transaction.outputStatus === 'SENT' || transaction.outputStatus === 'REVIEW') {
+      status = 'sent';
     } else if (metadata.toAddress) {
       status = 'processing';
     } else {
@@ -390,45 +666,124 @@ export class EscrowService {
     return {
       status,
       txHash: transaction.tonTxHash ?? undefined,
-      failReason: (metadata.error as string) ?? undefined,
+      failReason: (metadata.error as string) ?? (metadata.cancelReason as string) ?? undefined,
+    };
+  }
+
+  hasEscrowContractSupport(): boolean {
+    return this.tonWallet.hasEscrowContractSupport();
+  }
+
+  /**
+   * Derives the escrow contract of a CONTRACT-mode deal. The parties' current
+   * wallets are baked into it: the channel owner's receives the payout, the
+   * advertiser's the refund.
+   */
+  async prepareEscrowContract(deal: {
+    id: string;
+    amount: Prisma.Decimal;
+    platformFee: Prisma.Decimal;
+    advertiserId: string;
+    channelOwnerId: string;
+  }): Promise<{
+    escrowContractAddress: string;
+    escrowAdvertiserWallet: string;
+    escrowOwnerWallet: string;
+  }> {
+    if (!this.tonWallet.hasEscrowContractSupport()) {
+      throw new BadRequestException('On-chain escrow is not available');
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: [deal.advertiserId, deal.channelOwnerId] } },
+      select: { id: true, walletAddress: true },
+    });
+    const advertiserWallet = users.find((u) => u.id === deal.advertiserId)?.walletAddress;
+    const ownerWallet = users.find((u) => u.id === deal.channelOwnerId)?.walletAddress;
+
+    if (!advertiserWallet) {
+      throw new BadRequestException('Advertiser has no connected wallet for on-chain escrow');
+    }
+    if (!ownerWallet) {
+      throw new BadRequestException('Connect a wallet to receive the on-chain escrow payout');
+    }
+
+    const escrowContractAddress = this.tonWallet.getDealEscrowAddress({
+      dealId: deal.id,
+      advertiserWallet,
+      channelOwnerWallet: ownerWallet,
+      amount: deal.amount.toFixed(9),
+      fee: deal.platformFee.toFixed(9),
+    });
+
+    return {
+      escrowContractAddress,
+      escrowAdvertiserWallet: advertiserWallet,
+      escrowOwnerWallet: ownerWallet,
     };
   }
 
+  /**
+   * Marks a CONTRACT-mode deal for on-chain release or refund. The ledger is
+   * settled by EscrowReleaseService once the contract has paid out.
+   */
+  async requestEscrowContractSettlement(dealId: string, action: DealEscrowAction): Promise<void> {
+    await this.prisma.deal.update({
+      where: { id: dealId },
+      data: {
+        escrowContractStatus: action === 'RELEASE'
+          ? EscrowContractStatus.RELEASING
+          : EscrowContractStatus.REFUNDING,
+      },
+    });
+  }
+
+  /**
+   * Locks the advertiser's funds for a deal inside the caller's transaction.
+   * The user row stays locked until commit, so concurrent approvals and
+   * withdrawals cannot spend the checked balance meanwhile.
+   */
   async lockFundsForDeal(
+    tx: Prisma.TransactionClient,
     userId: string,
     dealId: string,
-    amount: string
+    amount: string,
+    currency: Currency = Currency.TON,
   ): Promise<void> {
     const amountDecimal = new Prisma.Decimal(amount);
 
-    await this.prisma.$transaction(async (tx) => {
-      const user = await tx.user.findUnique({
-        where: { id: userId },
-      });
+    await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+    });
 
-      if (!user || user.balanceTon.lessThan(amountDecimal)) {
-        throw new BadRequestException('Insufficient balance');
-      }
+    if (!user || user[USER_BALANCE_COLUMNS[currency].balance].lessThan(amountDecimal)) {
+      throw new BadRequestException(
+        `Advertiser has insufficient balance. Required: ${amount} ${currency}`
+      );
+    }
 
-      // Move from balance to frozen (use Decimal for precision)
-      await tx.user.update({
-        where: { id: userId },
-        data: {
-          balanceTon: { decrement: amountDecimal },
-          frozenTon: { increment: amountDecimal },
-        },
-      });
+    // Record escrow lock transaction
+    const lockTx = await tx.transaction.create({
+      data: {
+        amount: amountDecimal,
+        currency,
+        type: TransactionType.ESCROW_LOCK,
+        status: TransactionStatus.CONFIRMED,
+        userId,
+        dealId,
+      },
+    });
 
-      // Record escrow lock transaction
-      await tx.transaction.create({
-        data: {
-          amount: new Prisma.Decimal(amount),
-          type: TransactionType.ESCROW_LOCK,
-          status: TransactionStatus.CONFIRMED,
-          userId,
-          dealId,
-        },
-      });
+    // Move from balance to frozen
+    await postJournalEntry(tx, {
+      type: TransactionType.ESCROW_LOCK,
+      currency,
+      transactionId: lockTx.id,
+      dealId,
+      movements: [
+        { debit: userAvailable(userId), credit: userFrozen(userId), amount: amountDecimal },
+      ],
     });
   }
 
@@ -437,33 +792,19 @@ export class EscrowService {
     fromUserId: string,
     toUserId: string,
     amount: string,
-    fee: string
+    fee: string,
+    currency: Currency = Currency.TON,
   ): Promise<void> {
     const amountDecimal = new Prisma.Decimal(amount);
     const feeDecimal = new Prisma.Decimal(fee);
     const netAmount = amountDecimal.sub(feeDecimal);
 
     await this.prisma.$transaction(async (tx) => {
-      // Unfreeze from sender
-      await tx.user.update({
-        where: { id: fromUserId },
-        data: {
-          frozenTon: { decrement: amountDecimal },
-        },
-      });
-
-      // Add to recipient balance
-      await tx.user.update({
-        where: { id: toUserId },
-        data: {
-          balanceTon: { increment: netAmount },
-        },
-      });
-
       // Record escrow release
-      await tx.transaction.create({
+      const releaseTx = await tx.transaction.create({
         data: {
           amount: netAmount,
+          currency,
           type: TransactionType.ESCROW_RELEASE,
           status: TransactionStatus.CONFIRMED,
           userId: toUserId,
@@ -476,6 +817,7 @@ export class EscrowService {
         await tx.transaction.create({
           data: {
             amount: feeDecimal,
+            currency,
             type: TransactionType.FEE,
             status: TransactionStatus.CONFIRMED,
             userId: fromUserId,
@@ -483,36 +825,60 @@ export class EscrowService {
           },
         });
       }
+
+      // Unfreeze from sender: net amount to recipient, fee to platform
+      await postJournalEntry(tx, {
+        type: TransactionType.ESCROW_RELEASE,
+        currency,
+        transactionId: releaseTx.id,
+        dealId,
+        movements: [
+          { debit: userFrozen(fromUserId), credit: userAvailable(toUserId), amount: netAmount },
+          { debit: userFrozen(fromUserId), credit: PLATFORM_FEES_ACCOUNT, amount: feeDecimal },
+        ],
+      });
+
+      await creditReferralReward(tx, {
+        fee: feeDecimal,
+        currency,
+        payerId: fromUserId,
+        counterpartyId: toUserId,
+        dealId,
+      });
     });
   }
 
   async refundFundsFromDeal(
     dealId: string,
     userId: string,
-    amount: string
+    amount: string,
+    currency: Currency = Currency.TON,
   ): Promise<void> {
     const amountDecimal = new Prisma.Decimal(amount);
 
     await this.prisma.$transaction(async (tx) => {
-      // Move from frozen back to balance (use Decimal for precision)
-      await tx.user.update({
-        where: { id: userId },
-        data: {
-          frozenTon: { decrement: amountDecimal },
-          balanceTon: { increment: amountDecimal },
-        },
-      });
-
       // Record refund
-      await tx.transaction.create({
+      const refundTx = await tx.transaction.create({
         data: {
           amount: new Prisma.Decimal(amount),
+          currency,
           type: TransactionType.ESCROW_REFUND,
           status: TransactionStatus.CONFIRMED,
           userId,
           dealId,
         },
       });
+
+      // Move from frozen back to balance
+      await postJournalEntry(tx, {
+        type: TransactionType.ESCROW_REFUND,
+        currency,
+        transactionId: refundTx.id,
+        dealId,
+        movements: [
+          { debit: userFrozen(userId), credit: userAvailable(userId), amount: amountDecimal },
+        ],
+      });
     });
   }
 }
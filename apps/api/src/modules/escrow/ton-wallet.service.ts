@@ -1,6 +1,6 @@
 import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { TonWalletService as TonWallet } from '@tam/ton-utils';
+import { TonWalletService as TonWallet, DealEscrowOracle, DealEscrowParams } from '@tam/ton-utils';
 
 @Injectable()
 export class TonWalletService implements OnModuleInit {
@@ -8,6 +8,8 @@ export class TonWalletService implements OnModuleInit {
   private wallet: TonWallet | null = null;
   private initialized = false;
   private fallbackAddress: string | null = null;
+  private usdtJettonMaster: string | null = null;
+  private escrowOracle: DealEscrowOracle | null = null;
 
   constructor(private configService: ConfigService) {}
 
@@ -20,11 +22,16 @@ export class TonWalletService implements OnModuleInit {
     const network = this.configService.get<string>('TON_NETWORK') as 'mainnet' | 'testnet';
     const apiKey = this.configService.get<string>('TON_API_KEY');
     const fallbackAddr = this.configService.get<string>('TON_MASTER_WALLET_ADDRESS');
+    const usdtJettonMaster = this.configService.get<string>('USDT_JETTON_MASTER');
 
     if (fallbackAddr) {
       this.fallbackAddress = fallbackAddr;
     }
 
+    if (usdtJettonMaster) {
+      this.usdtJettonMaster = usdtJettonMaster;
+    }
+
     if (!mnemonic) {
       if (fallbackAddr) {
         this.logger.warn(
@@ -42,6 +49,7 @@ export class TonWalletService implements OnModuleInit {
         network: network ?? 'testnet',
         mnemonic,
         apiKey,
+        usdtJettonMaster,
       });
 
       const address = await this.wallet.initialize();
@@ -49,6 +57,24 @@ export class TonWalletService implements OnModuleInit {
       this.logger.log(`TON wallet initialized: ${address.toString()}`);
     } catch (error) {
       this.logger.error('Failed to initialize TON wallet', error);
+      return;
+    }
+
+    const escrowCode = this.configService.get<string>('DEAL_ESCROW_CODE');
+    const oracleMnemonic = this.configService.get<string>('ESCROW_ORACLE_MNEMONIC');
+
+    if (oracleMnemonic) {
+      try {
+        const oracle = new DealEscrowOracle({
+          network: network ?? 'testnet',
+          code: escrowCode || undefined,
+          mnemonic: oracleMnemonic,
+        });
+        await oracle.initialize();
+        this.escrowOracle = oracle;
+      } catch (error) {
+        this.logger.error('Failed to initialize escrow contract oracle', error);
+      }
     }
   }
 
@@ -67,6 +93,36 @@ export class TonWalletService implements OnModuleInit {
     return this.initialized || this.fallbackAddress !== null;
   }
 
+  /**
+   * Returns true if USDT (jetton) payments are configured.
+   * Deposits go to the master address either way.
+   */
+  hasJettonSupport(): boolean {
+    return this.usdtJettonMaster !== null;
+  }
+
+  /**
+   * Returns true if deals can use per-deal escrow contracts
+   * (requires the hot wallet, the contract code and the oracle key).
+   */
+  hasEscrowContractSupport(): boolean {
+    return this.initialized && this.escrowOracle !== null;
+  }
+
+  /**
+   * Address of the deal's escrow contract; the hot wallet receives the
+   * platform fee and leftover gas.
+   */
+  getDealEscrowAddress(params: Omit<DealEscrowParams, 'platformWallet'>): string {
+    if (!this.wallet || !this.escrowOracle) {
+      throw new Error('Escrow contracts not configured');
+    }
+    return this.escrowOracle.getAddressString({
+      ...params,
+      platformWallet: this.wallet.getAddressString(),
+    });
+  }
+
   getMasterAddress(): string {
     if (this.wallet) {
       return this.wallet.getAddressString();
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { FeeSchedule, UserRole } from '@tam/shared-types';
+import { ReferralProgram } from '@tam/prisma-client';
+import { FeesService } from './fees.service';
+import {
+  CreatePromoCodeDto,
+  FeeScheduleDto,
+  PromoCodeDto,
+  ReferralProgramDto,
+} from './dto/fees.dto';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
+
+@ApiTags('Admin')
+@Controller('admin/fees')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AdminFeesController {
+  constructor(private feesService: FeesService) {}
+
+  @Get('schedule')
+  @ApiOperation({ summary: 'Current platform fee schedule (admin)' })
+  async getSchedule(): Promise<FeeSchedule> {
+    return this.feesService.getSchedule();
+  }
+
+  @Put('schedule')
+  @ApiOperation({ summary: 'Replace the platform fee schedule (admin)' })
+  async updateSchedule(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: FeeScheduleDto,
+  ): Promise<FeeSchedule> {
+    return this.feesService.updateSchedule(user.id, dto);
+  }
+
+  @Get('referral-program')
+  @ApiOperation({ summary: 'Current referral revenue share (admin)' })
+  async getReferralProgram(): Promise<ReferralProgram> {
+    return this.feesService.getReferralProgram();
+  }
+
+  @Put('referral-program')
+  @ApiOperation({ summary: 'Change the referral revenue share (admin)' })
+  async updateReferralProgram(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: ReferralProgramDto,
+  ): Promise<ReferralProgram> {
+    return this.feesService.updateReferralProgram(user.id, dto);
+  }
+
+  @Get('promo-codes')
+  @ApiOperation({ summary: 'List promo codes (admin)' })
+  async listPromoCodes(): Promise<PromoCodeDto[]> {
+    return this.feesService.listPromoCodes();
+  }
+
+  @Post('promo-codes')
+  @ApiOperation({ summary: 'Create a promo code (admin)' })
+  async createPromoCode(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CreatePromoCodeDto,
+  ): Promise<PromoCodeDto> {
+    return this.feesService.createPromoCode(user.id, dto);
+  }
+
+  @Post('promo-codes/:id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop accepting a promo code (admin)' })
+  async deactivatePromoCode(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+  ): Promise<PromoCodeDto> {
+    return this.feesService.deactivatePromoCode(user.id, id);
+  }
+}
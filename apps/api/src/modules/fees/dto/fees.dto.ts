@@ -0,0 +1,203 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+// Regex for valid TON amount: positive number with up to 9 decimal places
+const TON_AMOUNT_REGEX = /^(?!0(\.0+)?$)\d{1,12}(\.\d{1,9})?$/;
+const TON_AMOUNT_MESSAGE =
+  'Amount must be a positive number with up to 9 decimal places';
+const PROMO_CODE_REGEX = /^[A-Za-z0-9_-]{3,32}$/;
+
+export class FeePreviewQueryDto {
+  @ApiProperty({ description: 'Channel the deal or folder placement is for' })
+  @IsString()
+  @IsNotEmpty()
+  channelId: string;
+
+  @ApiPropertyOptional({ description: 'Deal amount; required unless folderId is set', example: '10.5' })
+  @IsOptional()
+  @IsString()
+  @Matches(TON_AMOUNT_REGEX, { message: TON_AMOUNT_MESSAGE })
+  amount?: string;
+
+  @ApiPropertyOptional({ description: 'Preview a placement of the channel in this folder instead of a deal' })
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+
+  @ApiPropertyOptional({ description: 'Promo code (deals only)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  promoCode?: string;
+}
+
+export class FeeBreakdownDto {
+  @ApiProperty({ description: 'Default, placement or category rate, %' })
+  basePercent: number;
+
+  @ApiPropertyOptional({ description: 'Channel category whose rate was used' })
+  category?: string;
+
+  @ApiPropertyOptional({ description: 'Completed deals threshold of the owner tier applied' })
+  tierMinCompletedDeals?: number;
+
+  @ApiPropertyOptional({ description: 'Rate of the owner tier applied, %' })
+  tierPercent?: number;
+
+  @ApiPropertyOptional()
+  promoCode?: string;
+
+  @ApiPropertyOptional({ description: 'Share of the fee waived by the promo code, %' })
+  promoDiscountPercent?: number;
+
+  @ApiProperty({ description: 'Effective rate, %' })
+  feePercent: number;
+
+  @ApiProperty()
+  fee: string;
+}
+
+export class FeePreviewDto {
+  @ApiProperty()
+  amount: string;
+
+  @ApiProperty()
+  platformFee: string;
+
+  @ApiProperty({ description: 'Amount plus platform fee' })
+  total: string;
+
+  @ApiProperty({ type: FeeBreakdownDto })
+  breakdown: FeeBreakdownDto;
+
+  @ApiPropertyOptional({ description: 'Why the promo code was not applied' })
+  promoCodeError?: string;
+}
+
+export class FeeTierDto {
+  @ApiProperty({ description: 'Completed deals the channel owner needs' })
+  @IsInt()
+  @Min(1)
+  minCompletedDeals: number;
+
+  @ApiProperty({ description: 'Fee rate for the tier, %' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  feePercent: number;
+}
+
+export class FeeScheduleDto {
+  @ApiProperty({ description: 'Deal fee rate, %' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  defaultPercent: number;
+
+  @ApiProperty({ description: 'Folder placement fee rate, %' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  folderPlacementPercent: number;
+
+  @ApiProperty({
+    description: 'Deal fee rate per channel category, %',
+    example: { crypto: 7, education: 3 },
+  })
+  @IsObject()
+  categoryPercents: Record<string, number>;
+
+  @ApiProperty({ type: [FeeTierDto] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => FeeTierDto)
+  ownerTiers: FeeTierDto[];
+}
+
+export class ReferralProgramDto {
+  @ApiProperty({ description: 'Share of the platform fee paid to the referrer, %' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  sharePercent: number;
+
+  @ApiProperty({ description: 'Days after attribution during which rewards are paid' })
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  windowDays: number;
+}
+
+export class CreatePromoCodeDto {
+  @ApiProperty({ example: 'SPRING25' })
+  @IsString()
+  @Matches(PROMO_CODE_REGEX, { message: 'Code must be 3-32 letters, digits, "_" or "-"' })
+  code: string;
+
+  @ApiProperty({ description: 'Share of the platform fee waived, %' })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  discountPercent: number;
+
+  @ApiPropertyOptional({ description: 'Defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @ApiProperty()
+  @IsDateString()
+  validUntil: string;
+
+  @ApiPropertyOptional({ description: 'Total redemptions allowed; unlimited if omitted' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number;
+}
+
+export class PromoCodeDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  code: string;
+
+  @ApiProperty()
+  discountPercent: number;
+
+  @ApiProperty()
+  validFrom: string;
+
+  @ApiProperty()
+  validUntil: string;
+
+  @ApiPropertyOptional()
+  maxUses?: number;
+
+  @ApiProperty()
+  usedCount: number;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiProperty()
+  createdAt: string;
+}
@@ -0,0 +1,19 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { FeesService } from './fees.service';
+import { FeePreviewDto, FeePreviewQueryDto } from './dto/fees.dto';
+
+@ApiTags('Fees')
+@Controller('fees')
+@UseGuards(AuthGuard('jwt'))
+@ApiBearerAuth()
+export class FeesController {
+  constructor(private feesService: FeesService) {}
+
+  @Get('preview')
+  @ApiOperation({ summary: 'Platform fee for a deal or folder placement before creating it' })
+  async preview(@Query() query: FeePreviewQueryDto): Promise<FeePreviewDto> {
+    return this.feesService.preview(query);
+  }
+}
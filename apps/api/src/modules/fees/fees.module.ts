@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { FeesController } from './fees.controller';
+import { AdminFeesController } from './admin-fees.controller';
+import { FeesService } from './fees.service';
+
+@Module({
+  controllers: [FeesController, AdminFeesController],
+  providers: [FeesService],
+  exports: [FeesService],
+})
+export class FeesModule {}
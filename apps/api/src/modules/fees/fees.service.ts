@@ -0,0 +1,422 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  DealStatus,
+  FeeBreakdown,
+  FeeSchedule,
+  FEE_SCHEDULE_CONFIG_KEY,
+  PLATFORM_FEE_PERCENT,
+} from '@tam/shared-types';
+import {
+  Prisma,
+  PromoCode,
+  ReferralProgram,
+  getReferralProgram,
+  REFERRAL_PROGRAM_CONFIG_KEY,
+} from '@tam/prisma-client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import {
+  CreatePromoCodeDto,
+  FeePreviewDto,
+  FeePreviewQueryDto,
+  FeeScheduleDto,
+  PromoCodeDto,
+  ReferralProgramDto,
+} from './dto/fees.dto';
+
+const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  defaultPercent: PLATFORM_FEE_PERCENT,
+  folderPlacementPercent: PLATFORM_FEE_PERCENT,
+  categoryPercents: {},
+  ownerTiers: [],
+};
+
+export interface FeeQuote {
+  fee: Prisma.Decimal;
+  breakdown: FeeBreakdown;
+  promoCodeId?: string;
+}
+
+/**
+ * Platform fee engine. Rates come from the fee schedule in SystemConfig:
+ * a deal pays the lowest rate of its channel's categories (or the default),
+ * lowered further by the channel owner's tier and an advertiser promo code.
+ * The breakdown is stored with the deal or placement it was computed for.
+ */
+@Injectable()
+export class FeesService {
+  constructor(private prisma: PrismaService) {}
+
+  async getSchedule(): Promise<FeeSchedule> {
+    const config = await this.prisma.systemConfig.findUnique({
+      where: { key: FEE_SCHEDULE_CONFIG_KEY },
+    });
+    return { ...DEFAULT_FEE_SCHEDULE, ...((config?.value as Partial<FeeSchedule> | undefined) ?? {}) };
+  }
+
+  async updateSchedule(adminId: string, dto: FeeScheduleDto): Promise<FeeSchedule> {
+    const categoryPercents: Record<string, number> = {};
+    for (const [category, percent] of Object.entries(dto.categoryPercents)) {
+      if (typeof percent !== 'number' || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+        throw new BadRequestException(`Fee rate for category "${category}" must be between 0 and 100`);
+      }
+      categoryPercents[category.trim().toLowerCase()] = percent;
+    }
+
+    const thresholds = dto.ownerTiers.map((t) => t.minCompletedDeals);
+    if (new Set(thresholds).size !== thresholds.length) {
+      throw new BadRequestException('Owner tiers must have distinct minCompletedDeals');
+    }
+
+    const schedule: FeeSchedule = {
+      defaultPercent: dto.defaultPercent,
+      folderPlacementPercent: dto.folderPlacementPercent,
+      categoryPercents,
+      ownerTiers: dto.ownerTiers
+        .map((t) => ({ minCompletedDeals: t.minCompletedDeals, feePercent: t.feePercent }))
+        .sort((a, b) => a.minCompletedDeals - b.minCompletedDeals),
+    };
+
+    const previous = await this.getSchedule();
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.systemConfig.upsert({
+        where: { key: FEE_SCHEDULE_CONFIG_KEY },
+        create: { key: FEE_SCHEDULE_CONFIG_KEY, value: schedule },
+        update: { value: schedule },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'FEE_SCHEDULE_UPDATED',
+          entityType: 'SystemConfig',
+          entityId: FEE_SCHEDULE_CONFIG_KEY,
+          userId: adminId,
+          oldValue: previous,
+          newValue: schedule,
+        },
+      });
+    });
+
+    return schedule;
+  }
+
+  async getReferralProgram(): Promise<ReferralProgram> {
+    return getReferralProgram(this.prisma);
+  }
+
+  /**
+   * Share of collected fees paid to referrers; applies to fees collected
+   * from now on
+   */
+  async updateReferralProgram(adminId: string, dto: ReferralProgramDto): Promise<ReferralProgram> {
+    const program: ReferralProgram = { sharePercent: dto.sharePercent, windowDays: dto.windowDays };
+    const previous = await this.getReferralProgram();
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.systemConfig.upsert({
+        where: { key: REFERRAL_PROGRAM_CONFIG_KEY },
+        create: { key: REFERRAL_PROGRAM_CONFIG_KEY, value: { ...program } },
+        update: { value: { ...program } },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'REFERRAL_PROGRAM_UPDATED',
+          entityType: 'SystemConfig',
+          entityId: REFERRAL_PROGRAM_CONFIG_KEY,
+          userId: adminId,
+          oldValue: { ...previous },
+          newValue: { ...program },
+        },
+      });
+    });
+
+    return program;
+  }
+
+  /**
+   * Fee of a deal for a channel. An invalid promo code is rejected.
+   */
+  async quoteDeal(params: {
+    amount: Prisma.Decimal;
+    categories: string[];
+    channelOwnerId: string;
+    promoCode?: string;
+  }): Promise<FeeQuote> {
+    const schedule = await this.getSchedule();
+
+    let basePercent = schedule.defaultPercent;
+    let category: string | undefined;
+    for (const c of params.categories) {
+      const percent = schedule.categoryPercents[c.toLowerCase()];
+      if (percent !== undefined && (category === undefined || percent < basePercent)) {
+        basePercent = percent;
+        category = c;
+      }
+    }
+
+    const promo = params.promoCode ? await this.findValidPromoCode(params.promoCode) : null;
+
+    return this.quote(params.amount, schedule, basePercent, params.channelOwnerId, { category, promo });
+  }
+
+  /**
+   * Fee a channel owner pays on top of a folder placement price
+   */
+  async quoteFolderPlacement(params: {
+    amount: Prisma.Decimal;
+    channelOwnerId: string;
+  }): Promise<FeeQuote> {
+    const schedule = await this.getSchedule();
+    return this.quote(params.amount, schedule, schedule.folderPlacementPercent, params.channelOwnerId, {});
+  }
+
+  /**
+   * Counts a use of the promo code within the transaction creating the deal.
+   * Fails if the code ran out or expired since it was quoted.
+   */
+  async redeemPromoCode(tx: Prisma.TransactionClient, promoCodeId: string): Promise<void> {
+    const now = new Date();
+    const updated = await tx.promoCode.updateMany({
+      where: {
+        id: promoCodeId,
+        isActive: true,
+        validFrom: { lte: now },
+        validUntil: { gt: now },
+        OR: [{ maxUses: null }, { usedCount: { lt: tx.promoCode.fields.maxUses } }],
+      },
+      data: { usedCount: { increment: 1 } },
+    });
+    if (updated.count === 0) {
+      throw new BadRequestException('Promo code is no longer valid');
+    }
+  }
+
+  async preview(dto: FeePreviewQueryDto): Promise<FeePreviewDto> {
+    const channel = await this.prisma.channel.findUnique({
+      where: { id: dto.channelId },
+      select: { ownerId: true, categories: true },
+    });
+    if (!channel) {
+      throw new NotFoundException('Channel not found');
+    }
+
+    if (dto.folderId) {
+      const folder = await this.prisma.folder.findUnique({
+        where: { id: dto.folderId },
+        select: { pricePerChannel: true },
+      });
+      if (!folder) {
+        throw new NotFoundException('Folder not found');
+      }
+      if (!folder.pricePerChannel || folder.pricePerChannel.lte(0)) {
+        throw new BadRequestException('This folder does not accept paid placements');
+      }
+
+      const quote = await this.quoteFolderPlacement({
+        amount: folder.pricePerChannel,
+        channelOwnerId: channel.ownerId,
+      });
+      return this.mapPreview(folder.pricePerChannel, quote);
+    }
+
+    if (!dto.amount) {
+      throw new BadRequestException('amount is required for a deal preview');
+    }
+    const amount = new Prisma.Decimal(dto.amount);
+    const params = { amount, categories: channel.categories, channelOwnerId: channel.ownerId };
+
+    // An invalid code is reported next to the fee without it
+    try {
+      const quote = await this.quoteDeal({ ...params, promoCode: dto.promoCode?.trim() || undefined });
+      return this.mapPreview(amount, quote);
+    } catch (error) {
+      if (!(error instanceof BadRequestException)) throw error;
+      const quote = await this.quoteDeal(params);
+      return { ...this.mapPreview(amount, quote), promoCodeError: error.message };
+    }
+  }
+
+  async listPromoCodes(): Promise<PromoCodeDto[]> {
+    const codes = await this.prisma.promoCode.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+    return codes.map((c) => this.mapPromoCode(c));
+  }
+
+  async createPromoCode(adminId: string, dto: CreatePromoCodeDto): Promise<PromoCodeDto> {
+    const code = dto.code.toUpperCase();
+    const validFrom = dto.validFrom ? new Date(dto.validFrom) : new Date();
+    const validUntil = new Date(dto.validUntil);
+    if (validUntil <= validFrom) {
+      throw new BadRequestException('validUntil must be after validFrom');
+    }
+
+    const existing = await this.prisma.promoCode.findUnique({ where: { code } });
+    if (existing) {
+      throw new ConflictException('Promo code already exists');
+    }
+
+    const promo = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.promoCode.create({
+        data: {
+          code,
+          discountPercent: dto.discountPercent,
+          validFrom,
+          validUntil,
+          maxUses: dto.maxUses ?? null,
+          createdById: adminId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'PROMO_CODE_CREATED',
+          entityType: 'PromoCode',
+          entityId: created.id,
+          userId: adminId,
+          newValue: {
+            code,
+            discountPercent: dto.discountPercent,
+            validFrom: validFrom.toISOString(),
+            validUntil: validUntil.toISOString(),
+            maxUses: dto.maxUses ?? null,
+          },
+        },
+      });
+
+      return created;
+    });
+
+    return this.mapPromoCode(promo);
+  }
+
+  async deactivatePromoCode(adminId: string, id: string): Promise<PromoCodeDto> {
+    const promo = await this.prisma.promoCode.findUnique({ where: { id } });
+    if (!promo) {
+      throw new NotFoundException('Promo code not found');
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.promoCode.update({
+        where: { id },
+        data: { isActive: false },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'PROMO_CODE_DEACTIVATED',
+          entityType: 'PromoCode',
+          entityId: id,
+          userId: adminId,
+          oldValue: { isActive: promo.isActive },
+          newValue: { isActive: false },
+        },
+      });
+
+      return result;
+    });
+
+    return this.mapPromoCode(updated);
+  }
+
+  private async quote(
+    amount: Prisma.Decimal,
+    schedule: FeeSchedule,
+    basePercent: number,
+    channelOwnerId: string,
+    options: { category?: string; promo?: PromoCode | null },
+  ): Promise<FeeQuote> {
+    let rate = new Prisma.Decimal(basePercent);
+    const breakdown: Omit<FeeBreakdown, 'feePercent' | 'fee'> = {
+      basePercent,
+      ...(options.category && { category: options.category }),
+    };
+
+    if (schedule.ownerTiers.length > 0) {
+      const completedDeals = await this.prisma.deal.count({
+        where: { channelOwnerId, status: DealStatus.RELEASED },
+      });
+      const tier = schedule.ownerTiers
+        .filter((t) => completedDeals >= t.minCompletedDeals)
+        .sort((a, b) => b.minCompletedDeals - a.minCompletedDeals)[0];
+
+      if (tier && rate.greaterThan(tier.feePercent)) {
+        rate = new Prisma.Decimal(tier.feePercent);
+        breakdown.tierMinCompletedDeals = tier.minCompletedDeals;
+        breakdown.tierPercent = tier.feePercent;
+      }
+    }
+
+    if (options.promo) {
+      rate = rate.mul(100 - options.promo.discountPercent).div(100);
+      breakdown.promoCode = options.promo.code;
+      breakdown.promoDiscountPercent = options.promo.discountPercent;
+    }
+
+    const fee = amount.mul(rate).div(100).toDecimalPlaces(9);
+
+    return {
+      fee,
+      breakdown: {
+        ...breakdown,
+        feePercent: rate.toDecimalPlaces(4).toNumber(),
+        fee: fee.toString(),
+      },
+      promoCodeId: options.promo?.id,
+    };
+  }
+
+  /**
+   * Throws a BadRequestException saying why the code cannot be used
+   */
+  async findValidPromoCode(code: string): Promise<PromoCode> {
+    const promo = await this.prisma.promoCode.findUnique({
+      where: { code: code.toUpperCase() },
+    });
+    const now = new Date();
+
+    if (!promo || !promo.isActive) {
+      throw new BadRequestException('Promo code not found');
+    }
+    if (promo.validFrom > now) {
+      throw new BadRequestException('Promo code is not active yet');
+    }
+    if (promo.validUntil <= now) {
+      throw new BadRequestException('Promo code has expired');
+    }
+    if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) {
+      throw new BadRequestException('Promo code has been used up');
+    }
+    return promo;
+  }
+
+  private mapPreview(amount: Prisma.Decimal, quote: FeeQuote): FeePreviewDto {
+    return {
+      amount: amount.toString(),
+      platformFee: quote.fee.toString(),
+      total: amount.add(quote.fee).toString(),
+      breakdown: quote.breakdown,
+    };
+  }
+
+  private mapPromoCode(promo: PromoCode): PromoCodeDto {
+    return {
+      id: promo.id,
+      code: promo.code,
+      discountPercent: promo.discountPercent,
+      validFrom: promo.validFrom.toISOString(),
+      validUntil: promo.validUntil.toISOString(),
+      maxUses: promo.maxUses ?? undefined,
+      usedCount: promo.usedCount,
+      isActive: promo.isActive,
+      createdAt: promo.createdAt.toISOString(),
+    };
+  }
+}
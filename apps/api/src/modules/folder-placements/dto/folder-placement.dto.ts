@@ -1,5 +1,5 @@
 import { IsString, IsOptional, IsEnum } from 'class-validator';
-import { FolderPlacementStatus } from '@tam/shared-types';
+import { FeeBreakdown, FolderPlacementStatus } from '@tam/shared-types';
 
 export class CreateFolderPlacementDto {
   @IsString()
@@ -32,6 +32,7 @@ export interface FolderPlacementResponseDto {
   folderOwnerId: string;
   amount: string;
   platformFee: string;
+  feeBreakdown?: FeeBreakdown;  // Как была рассчитана комиссия
   status: FolderPlacementStatus;
   rejectionReason?: string;
   createdAt: Date;
@@ -13,6 +13,7 @@ import {
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 import { FolderPlacementsService } from './folder-placements.service';
 import {
   CreateFolderPlacementDto,
@@ -36,6 +37,7 @@ export class FolderPlacementsController {
    * POST /folders/:id/placements
    */
   @Post('folders/:id/placements')
+  @Idempotent()
   @HttpCode(HttpStatus.CREATED)
   async createPlacement(
     @Param('id') folderId: string,
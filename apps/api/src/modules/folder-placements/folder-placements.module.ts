@@ -4,9 +4,10 @@ import { FolderPlacementsService } from './folder-placements.service';
 import { PrismaModule } from '../../common/prisma/prisma.module';
 import { EscrowModule } from '../escrow/escrow.module';
 import { NotificationModule } from '../../common/notification/notification.module';
+import { FeesModule } from '../fees/fees.module';
 
 @Module({
-  imports: [PrismaModule, EscrowModule, NotificationModule],
+  imports: [PrismaModule, EscrowModule, NotificationModule, FeesModule],
   controllers: [FolderPlacementsController],
   providers: [FolderPlacementsService],
   exports: [FolderPlacementsService],
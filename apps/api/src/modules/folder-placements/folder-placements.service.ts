@@ -6,9 +6,9 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { Prisma } from '@tam/prisma-client';
-import { PLATFORM_FEE_PERCENT } from '@tam/shared-types';
+import { Prisma, postJournalEntry, userAvailable, userFrozen } from '@tam/prisma-client';
 import { NotificationService } from '../../common/notification/notification.service';
+import { FeesService } from '../fees/fees.service';
 import {
   CreateFolderPlacementDto,
   RejectPlacementDto,
@@ -24,6 +24,7 @@ export class FolderPlacementsService {
   constructor(
     private prisma: PrismaService,
     private notificationService: NotificationService,
+    private feesService: FeesService,
   ) {}
 
   /**
@@ -117,7 +118,10 @@ export class FolderPlacementsService {
 
     // Рассчитать сумму и комиссию
     const amount = folder.pricePerChannel;
-    const platformFee = amount.mul(PLATFORM_FEE_PERCENT).div(100);
+    const { fee: platformFee, breakdown: feeBreakdown } = await this.feesService.quoteFolderPlacement({
+      amount,
+      channelOwnerId: userId,
+    });
     const totalAmount = amount.add(platformFee);
 
     // Проверить баланс пользователя
@@ -144,6 +148,7 @@ export class FolderPlacementsService {
         folderOwnerId: folder.ownerId,
         amount,
         platformFee,
+        feeBreakdown,
         status: 'PENDING',
       },
       include: {
@@ -229,22 +234,8 @@ export class FolderPlacementsService {
 
     // Выполнить транзакцию
     const result = await this.prisma.$transaction(async (tx) => {
-      // 1. Блокировать средства у владельца канала
-      const channelOwner = await tx.user.update({
-        where: { id: placement.channelOwnerId },
-        data: {
-          balanceTon: { decrement: totalAmount },
-          frozenTon: { increment: totalAmount },
-        },
-      });
-
-      // Проверить что баланс не ушел в минус
-      if (channelOwner.balanceTon.lt(0)) {
-        throw new BadRequestException('Insufficient balance');
-      }
-
-      // 2. Создать транзакцию ESCROW_LOCK
-      await tx.transaction.create({
+      // 1. Создать транзакцию ESCROW_LOCK
+      const lockTx = await tx.transaction.create({
         data: {
           amount: totalAmount,
           type: 'ESCROW_LOCK',
@@ -260,6 +251,29 @@ export class FolderPlacementsService {
         },
       });
 
+      // 2. Блокировать средства у владельца канала
+      await postJournalEntry(tx, {
+        type: 'ESCROW_LOCK',
+        transactionId: lockTx.id,
+        folderPlacementId: placement.id,
+        movements: [
+          {
+            debit: userAvailable(placement.channelOwnerId),
+            credit: userFrozen(placement.channelOwnerId),
+            amount: totalAmount,
+          },
+        ],
+      });
+
+      // Проверить что баланс не ушел в минус
+      const channelOwner = await tx.user.findUniqueOrThrow({
+        where: { id: placement.channelOwnerId },
+        select: { balanceTon: true },
+      });
+      if (channelOwner.balanceTon.lt(0)) {
+        throw new BadRequestException('Insufficient balance');
+      }
+
       // 3. Обновить статус размещения (средства остаются в escrow на 3 дня)
       const updatedPlacement = await tx.folderPlacement.update({
         where: { id: placementId },
@@ -677,6 +691,7 @@ export class FolderPlacementsService {
       folderOwnerId: placement.folderOwnerId,
       amount: placement.amount.toString(),
       platformFee: placement.platformFee.toString(),
+      feeBreakdown: placement.feeBreakdown ?? undefined,
       status: placement.status,
       rejectionReason: placement.rejectionReason,
       createdAt: placement.createdAt,
@@ -25,6 +25,7 @@ import {
   SetPricePerChannelDto,
 } from './dto/folder.dto';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { UserRole } from '@tam/shared-types';
@@ -78,6 +79,7 @@ export class FoldersController {
   }
 
   @Post(':id/boost')
+  @Idempotent()
   @UseGuards(AuthGuard('jwt'))
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Boost a folder to appear higher in listings' })
@@ -17,7 +17,13 @@ import {
   UpdateFolderStatusDto,
   FolderStatus,
 } from './dto/folder.dto';
-import { Prisma, Folder } from '@tam/prisma-client';
+import {
+  Prisma,
+  Folder,
+  postJournalEntry,
+  userAvailable,
+  PLATFORM_FEES_ACCOUNT,
+} from '@tam/prisma-client';
 
 const MAX_FOLDERS_PER_USER = 10;
 
@@ -271,21 +277,8 @@ export class FoldersService {
     const newBoostUntil = new Date(currentBoostUntil.getTime() + dto.days * 24 * 60 * 60 * 1000);
 
     // Execute transaction: deduct balance, update folder boost, create transaction record
-    const [updated] = await this.prisma.$transaction([
-      this.prisma.folder.update({
-        where: { id },
-        data: {
-          boostAmount: amountPerDay,
-          boostUntil: newBoostUntil,
-        },
-      }),
-      this.prisma.user.update({
-        where: { id: userId },
-        data: {
-          balanceTon: { decrement: totalCost },
-        },
-      }),
-      this.prisma.transaction.create({
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const boostTx = await tx.transaction.create({
         data: {
           amount: totalCost,
           type: 'BOOST_FOLDER',
@@ -297,8 +290,24 @@ export class FoldersService {
             amountPerDay: dto.amountPerDay,
           },
         },
-      }),
-    ]);
+      });
+
+      await postJournalEntry(tx, {
+        type: 'BOOST_FOLDER',
+        transactionId: boostTx.id,
+        movements: [
+          { debit: userAvailable(userId), credit: PLATFORM_FEES_ACCOUNT, amount: totalCost },
+        ],
+      });
+
+      return tx.folder.update({
+        where: { id },
+        data: {
+          boostAmount: amountPerDay,
+          boostUntil: newBoostUntil,
+        },
+      });
+    });
 
     return this.mapToResponse(updated);
   }
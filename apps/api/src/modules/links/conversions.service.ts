@@ -0,0 +1,204 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Prisma, Campaign } from '@tam/prisma-client';
+import { POSTBACK_MAX_AGE_MS } from '@tam/shared-types';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import {
+  CampaignConversionStatsDto,
+  ChannelConversionStatsDto,
+  ConversionPostbackDto,
+  ConversionPostbackResponseDto,
+} from './dto/link.dto';
+
+/**
+ * Conversions reported server-to-server by advertisers. A postback is signed
+ * with the campaign's secret: X-Postback-Signature is the hex HMAC-SHA256 of
+ * "<X-Postback-Timestamp>.<raw body>", the timestamp in Unix seconds.
+ */
+@Injectable()
+export class ConversionsService {
+  constructor(private prisma: PrismaService) {}
+
+  async recordPostback(
+    campaignId: string,
+    rawBody: Buffer | undefined,
+    timestamp: string | undefined,
+    signature: string | undefined,
+    dto: ConversionPostbackDto,
+  ): Promise<ConversionPostbackResponseDto> {
+    const campaign = await this.prisma.campaign.findUnique({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    this.verifySignature(campaign, rawBody, timestamp, signature);
+
+    const attribution = await this.attribute(campaign.id, dto);
+
+    const existing = await this.prisma.conversion.findUnique({
+      where: { campaignId_orderId: { campaignId, orderId: dto.orderId } },
+    });
+    if (existing) {
+      return { conversionId: existing.id, dealId: existing.dealId, duplicate: true };
+    }
+
+    try {
+      const conversion = await this.prisma.conversion.create({
+        data: {
+          campaignId,
+          dealId: attribution.dealId,
+          clickId: attribution.clickId,
+          orderId: dto.orderId,
+          revenue: new Prisma.Decimal(dto.revenue ?? 0),
+        },
+      });
+      return { conversionId: conversion.id, dealId: conversion.dealId, duplicate: false };
+    } catch (error) {
+      // A concurrent retry of the same postback recorded it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const conversion = await this.prisma.conversion.findUniqueOrThrow({
+          where: { campaignId_orderId: { campaignId, orderId: dto.orderId } },
+        });
+        return { conversionId: conversion.id, dealId: conversion.dealId, duplicate: true };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Spend, conversions, CPA and ROAS of a campaign per channel. Spend is the
+   * amount plus fee of each deal whose ad has been posted.
+   */
+  async getCampaignStats(campaign: Campaign): Promise<CampaignConversionStatsDto> {
+    const [deals, conversions] = await Promise.all([
+      this.prisma.deal.findMany({
+        where: { campaignId: campaign.id, status: { in: ['POSTED', 'RELEASED', 'DISPUTED'] } },
+        select: {
+          id: true,
+          amount: true,
+          platformFee: true,
+          channelId: true,
+          channel: { select: { title: true } },
+        },
+      }),
+      this.prisma.conversion.groupBy({
+        by: ['dealId'],
+        where: { campaignId: campaign.id },
+        _count: { _all: true },
+        _sum: { revenue: true },
+      }),
+    ]);
+
+    const byDeal = new Map(conversions.map((c) => [c.dealId, c]));
+    const channels = new Map<string, { title: string; spend: Prisma.Decimal; conversions: number; revenue: Prisma.Decimal }>();
+
+    for (const deal of deals) {
+      const channel = channels.get(deal.channelId) ?? {
+        title: deal.channel.title,
+        spend: new Prisma.Decimal(0),
+        conversions: 0,
+        revenue: new Prisma.Decimal(0),
+      };
+      const dealConversions = byDeal.get(deal.id);
+      channels.set(deal.channelId, {
+        title: channel.title,
+        spend: channel.spend.add(deal.amount).add(deal.platformFee),
+        conversions: channel.conversions + (dealConversions?._count._all ?? 0),
+        revenue: channel.revenue.add(dealConversions?._sum.revenue ?? 0),
+      });
+    }
+
+    const rows: ChannelConversionStatsDto[] = [...channels].map(([channelId, c]) => ({
+      channelId,
+      channelTitle: c.title,
+      ...this.performance(c.spend, c.conversions, c.revenue),
+    }));
+
+    return {
+      campaignId: campaign.id,
+      currency: campaign.currency,
+      channels: rows,
+      ...this.performance(
+        [...channels.values()].reduce((sum, c) => sum.add(c.spend), new Prisma.Decimal(0)),
+        rows.reduce((sum, c) => sum + c.conversions, 0),
+        [...channels.values()].reduce((sum, c) => sum.add(c.revenue), new Prisma.Decimal(0)),
+      ),
+    };
+  }
+
+  private performance(spend: Prisma.Decimal, conversions: number, revenue: Prisma.Decimal) {
+    return {
+      spend: spend.toString(),
+      conversions,
+      revenue: revenue.toString(),
+      ...(conversions > 0 && { cpa: spend.div(conversions).toDecimalPlaces(9).toString() }),
+      ...(spend.gt(0) && { roas: revenue.div(spend).toDecimalPlaces(2).toNumber() }),
+    };
+  }
+
+  private verifySignature(
+    campaign: Campaign,
+    rawBody: Buffer | undefined,
+    timestamp: string | undefined,
+    signature: string | undefined,
+  ): void {
+    if (!campaign.postbackSecret || !rawBody || !timestamp || !signature) {
+      throw new UnauthorizedException('Missing postback signature');
+    }
+
+    const signedAt = Number(timestamp) * 1000;
+    if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > POSTBACK_MAX_AGE_MS) {
+      throw new UnauthorizedException('Postback timestamp is too old');
+    }
+
+    const expected = createHmac('sha256', campaign.postbackSecret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest();
+    const given = Buffer.from(signature, 'hex');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new UnauthorizedException('Invalid postback signature');
+    }
+  }
+
+  /**
+   * Deal (and click) a conversion belongs to: the reported click, or the
+   * reported deal. Either must belong to the campaign.
+   */
+  private async attribute(
+    campaignId: string,
+    dto: ConversionPostbackDto,
+  ): Promise<{ dealId: string; clickId: string | null }> {
+    if (dto.clickId) {
+      const click = await this.prisma.linkClick.findUnique({
+        where: { id: dto.clickId },
+        select: { id: true, dealId: true, deal: { select: { campaignId: true } } },
+      });
+      if (!click || click.deal.campaignId !== campaignId) {
+        throw new BadRequestException('Unknown click');
+      }
+      return { dealId: click.dealId, clickId: click.id };
+    }
+
+    if (dto.dealId) {
+      const deal = await this.prisma.deal.findFirst({
+        where: { id: dto.dealId, campaignId },
+        select: { id: true },
+      });
+      if (!deal) {
+        throw new BadRequestException('Unknown deal');
+      }
+      return { dealId: deal.id, clickId: null };
+    }
+
+    throw new BadRequestException('clickId or dealId is required');
+  }
+}
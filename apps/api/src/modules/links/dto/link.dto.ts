@@ -0,0 +1,134 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength, Matches } from 'class-validator';
+
+export class TrackedLinkStatsDto {
+  @ApiProperty({ description: 'Short link posted instead of the target URL' })
+  url: string;
+
+  @ApiProperty()
+  targetUrl: string;
+
+  @ApiProperty()
+  clicks: number;
+
+  @ApiProperty()
+  uniqueClicks: number;
+}
+
+export class ClickStatsDto {
+  @ApiPropertyOptional({ description: 'Latest views of the posts, when known' })
+  views?: number;
+
+  @ApiProperty()
+  clicks: number;
+
+  @ApiProperty({ description: 'Clicks by distinct visitors' })
+  uniqueClicks: number;
+
+  @ApiPropertyOptional({ description: 'Unique clicks per 100 views, when views are known' })
+  ctr?: number;
+}
+
+export class DealClickStatsDto extends ClickStatsDto {
+  @ApiProperty()
+  dealId: string;
+
+  @ApiProperty({ description: 'Whether the deal posts tracked links' })
+  trackLinks: boolean;
+
+  @ApiProperty({ type: [TrackedLinkStatsDto] })
+  links: TrackedLinkStatsDto[];
+}
+
+export class CampaignClickStatsDto extends ClickStatsDto {
+  @ApiProperty()
+  campaignId: string;
+
+  @ApiProperty({ type: [DealClickStatsDto], description: 'Deals of the campaign that track links' })
+  deals: DealClickStatsDto[];
+}
+
+export class ConversionPostbackDto {
+  @ApiProperty({ description: "Advertiser's id of the conversion, e.g. the order number; reporting it again is a no-op" })
+  @IsString()
+  @MaxLength(128)
+  orderId: string;
+
+  @ApiPropertyOptional({ description: 'Click id passed to the landing page through the {click_id} UTM placeholder' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  clickId?: string;
+
+  @ApiPropertyOptional({ description: 'Deal the conversion came from, when no click id is known' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  dealId?: string;
+
+  @ApiPropertyOptional({ description: 'Revenue of the conversion in the campaign currency', example: '12.5' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{1,12}(\.\d{1,9})?$/, { message: 'revenue must be a non-negative number with up to 9 decimal places' })
+  revenue?: string;
+}
+
+export class ConversionPostbackResponseDto {
+  @ApiProperty()
+  conversionId: string;
+
+  @ApiProperty()
+  dealId: string;
+
+  @ApiProperty({ description: 'The orderId had been reported before; nothing was recorded' })
+  duplicate: boolean;
+}
+
+export class ChannelConversionStatsDto {
+  @ApiProperty()
+  channelId: string;
+
+  @ApiProperty()
+  channelTitle: string;
+
+  @ApiProperty({ description: 'Amounts plus fees of the posted deals on the channel' })
+  spend: string;
+
+  @ApiProperty()
+  conversions: number;
+
+  @ApiProperty()
+  revenue: string;
+
+  @ApiPropertyOptional({ description: 'Cost per conversion' })
+  cpa?: string;
+
+  @ApiPropertyOptional({ description: 'Revenue per unit of spend' })
+  roas?: number;
+}
+
+export class CampaignConversionStatsDto {
+  @ApiProperty()
+  campaignId: string;
+
+  @ApiProperty()
+  currency: string;
+
+  @ApiProperty()
+  spend: string;
+
+  @ApiProperty()
+  conversions: number;
+
+  @ApiProperty()
+  revenue: string;
+
+  @ApiPropertyOptional()
+  cpa?: string;
+
+  @ApiPropertyOptional()
+  roas?: number;
+
+  @ApiProperty({ type: [ChannelConversionStatsDto] })
+  channels: ChannelConversionStatsDto[];
+}
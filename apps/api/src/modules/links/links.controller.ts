@@ -0,0 +1,39 @@
+import { Controller, Get, Param, Req, Res } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { LinksService } from './links.service';
+
+/**
+ * Public redirect route of tracked short links, opened from channel posts
+ * without authentication
+ */
+@ApiTags('Links')
+@Controller('l')
+export class LinksController {
+  constructor(private linksService: LinksService) {}
+
+  @Get(':code')
+  @ApiOperation({ summary: 'Follow a tracked short link' })
+  async follow(
+    @Param('code') code: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    const targetUrl = await this.linksService.recordClick(
+      code,
+      this.getClientIp(req),
+      req.headers['user-agent'] ?? '',
+    );
+
+    res.set('Cache-Control', 'private, no-store');
+    res.redirect(302, targetUrl);
+  }
+
+  private getClientIp(request: Request): string {
+    const forwarded = request.headers['x-forwarded-for'];
+    if (typeof forwarded === 'string') {
+      return forwarded.split(',')[0]?.trim() ?? 'unknown';
+    }
+    return request.ip ?? 'unknown';
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { LinksController } from './links.controller';
+import { PostbacksController } from './postbacks.controller';
+import { LinksService } from './links.service';
+import { ConversionsService } from './conversions.service';
+
+@Module({
+  controllers: [LinksController, PostbacksController],
+  providers: [LinksService, ConversionsService],
+  exports: [LinksService, ConversionsService],
+})
+export class LinksModule {}
@@ -0,0 +1,193 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { ClickStatsDto, DealClickStatsDto } from './dto/link.dto';
+
+// Link previews and crawlers open links without a reader behind them
+const BOT_USER_AGENT = /bot|crawler|spider|preview|facebookexternalhit|curl|wget/i;
+
+function coarseUserAgent(userAgent: string): string {
+  if (/iphone|ipad|ipod/i.test(userAgent)) return 'ios';
+  if (/android/i.test(userAgent)) return 'android';
+  if (/windows|macintosh|linux|cros/i.test(userAgent)) return 'desktop';
+  return 'other';
+}
+
+/**
+ * Appends a campaign's UTM template to a target URL. Template values may use
+ * {campaign_id}, {deal_id}, {channel} and {click_id}; parameters the URL
+ * already has are kept as they are.
+ */
+function applyUtmTemplate(targetUrl: string, template: string, vars: Record<string, string>): string {
+  let url: URL;
+  try {
+    url = new URL(targetUrl);
+  } catch {
+    return targetUrl;
+  }
+
+  for (const [key, value] of new URLSearchParams(template)) {
+    if (!url.searchParams.has(key)) {
+      url.searchParams.set(key, value.replace(/\{(\w+)\}/g, (match, name: string) => vars[name] ?? match));
+    }
+  }
+  return url.toString();
+}
+
+/**
+ * Tracked short links of deal posts: the workers rewrite links of opted-in
+ * deals when posting, this side redirects clicks and reports them.
+ */
+@Injectable()
+export class LinksService {
+  private readonly baseUrl: string;
+  private readonly hashSalt: string;
+
+  constructor(
+    private prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.baseUrl = configService.get<string>('LINK_TRACKING_URL', '').replace(/\/+$/, '');
+    this.hashSalt = configService.get<string>('LINK_HASH_SALT', '');
+  }
+
+  /**
+   * Logs a click on a short link and returns the URL to redirect to, with
+   * the campaign's UTM template applied. Only a salted hash of the
+   * visitor's IP and user agent is kept.
+   */
+  async recordClick(code: string, ip: string, userAgent: string): Promise<string> {
+    const link = await this.prisma.trackedLink.findUnique({
+      where: { code },
+      include: {
+        deal: {
+          select: {
+            campaignId: true,
+            channelId: true,
+            campaign: { select: { utmTemplate: true } },
+            channel: { select: { username: true } },
+          },
+        },
+      },
+    });
+
+    if (!link) {
+      throw new NotFoundException('Link not found');
+    }
+
+    const click = BOT_USER_AGENT.test(userAgent)
+      ? null
+      : await this.prisma.linkClick.create({
+          data: {
+            linkId: link.id,
+            dealId: link.dealId,
+            visitorHash: createHash('sha256')
+              .update(`${this.hashSalt}:${ip}:${userAgent}`)
+              .digest('hex')
+              .slice(0, 32),
+            userAgent: coarseUserAgent(userAgent),
+          },
+        });
+
+    const template = link.deal.campaign.utmTemplate;
+    if (!template) {
+      return link.targetUrl;
+    }
+
+    return applyUtmTemplate(link.targetUrl, template, {
+      campaign_id: link.deal.campaignId,
+      deal_id: link.dealId,
+      channel: link.deal.channel.username ?? link.deal.channelId,
+      click_id: click?.id ?? '',
+    });
+  }
+
+  /**
+   * Clicks, unique clicks and views of each deal. Views are the latest
+   * sampled post metrics, or the views recorded at verification.
+   */
+  async getDealStats(
+    deals: { id: string; trackLinks: boolean }[],
+  ): Promise<DealClickStatsDto[]> {
+    const dealIds = deals.map((d) => d.id);
+
+    const [viewsDeals, samples, links, linkClicks, linkVisitors, dealVisitors] = await Promise.all([
+      this.prisma.deal.findMany({
+        where: { id: { in: dealIds } },
+        select: { id: true, viewsAtVerification: true, slots: { select: { viewsAtVerification: true } } },
+      }),
+      this.prisma.dealPostMetric.findMany({
+        where: { dealId: { in: dealIds } },
+        orderBy: { sampledAt: 'desc' },
+        distinct: ['dealId', 'dealSlotId'],
+        select: { dealId: true, views: true },
+      }),
+      this.prisma.trackedLink.findMany({
+        where: { dealId: { in: dealIds } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.linkClick.groupBy({
+        by: ['linkId'],
+        where: { dealId: { in: dealIds } },
+        _count: { _all: true },
+      }),
+      this.prisma.linkClick.groupBy({
+        by: ['linkId', 'visitorHash'],
+        where: { dealId: { in: dealIds } },
+      }),
+      this.prisma.linkClick.groupBy({
+        by: ['dealId', 'visitorHash'],
+        where: { dealId: { in: dealIds } },
+      }),
+    ]);
+
+    const clicksByLink = new Map(linkClicks.map((c) => [c.linkId, c._count._all]));
+    const countBy = <K>(keys: K[]) =>
+      keys.reduce((map, key) => map.set(key, (map.get(key) ?? 0) + 1), new Map<K, number>());
+    const uniqueByLink = countBy(linkVisitors.map((v) => v.linkId));
+    const uniqueByDeal = countBy(dealVisitors.map((v) => v.dealId));
+
+    return deals.map((deal) => {
+      const dealSamples = samples.filter((s) => s.dealId === deal.id);
+      const verified = viewsDeals.find((d) => d.id === deal.id);
+      const views = dealSamples.length > 0
+        ? dealSamples.reduce((sum, s) => sum + s.views, 0)
+        : verified?.slots.length
+          ? verified.slots.reduce((sum, s) => sum + (s.viewsAtVerification ?? 0), 0)
+          : verified?.viewsAtVerification ?? undefined;
+
+      const dealLinks = links
+        .filter((l) => l.dealId === deal.id)
+        .map((l) => ({
+          url: `${this.baseUrl}/${l.code}`,
+          targetUrl: l.targetUrl,
+          clicks: clicksByLink.get(l.id) ?? 0,
+          uniqueClicks: uniqueByLink.get(l.id) ?? 0,
+        }));
+
+      return {
+        dealId: deal.id,
+        trackLinks: deal.trackLinks,
+        links: dealLinks,
+        ...this.totals(
+          views,
+          dealLinks.reduce((sum, l) => sum + l.clicks, 0),
+          uniqueByDeal.get(deal.id) ?? 0,
+        ),
+      };
+    });
+  }
+
+  /**
+   * Views, clicks and CTR; views and CTR are left out when no views are known
+   */
+  totals(views: number | undefined, clicks: number, uniqueClicks: number): ClickStatsDto {
+    return {
+      clicks,
+      uniqueClicks,
+      ...(views !== undefined && { views }),
+      ...(views && { ctr: Math.round((uniqueClicks / views) * 10000) / 100 }),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Controller, Post, Param, Body, Headers, Req, HttpCode, HttpStatus, RawBodyRequest } from '@nestjs/common';
+import { Request } from 'express';
+import { ApiTags, ApiOperation, ApiHeader } from '@nestjs/swagger';
+import { ConversionsService } from './conversions.service';
+import { ConversionPostbackDto, ConversionPostbackResponseDto } from './dto/link.dto';
+
+/**
+ * Server-to-server conversion postbacks, authenticated by the campaign's
+ * signing secret instead of a user session
+ */
+@ApiTags('Postbacks')
+@Controller('postbacks')
+export class PostbacksController {
+  constructor(private conversionsService: ConversionsService) {}
+
+  @Post(':campaignId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Report a conversion of a campaign' })
+  @ApiHeader({ name: 'X-Postback-Timestamp', description: 'Unix time in seconds the postback was signed at' })
+  @ApiHeader({ name: 'X-Postback-Signature', description: 'Hex HMAC-SHA256 of "<timestamp>.<raw body>" with the campaign secret' })
+  async report(
+    @Param('campaignId') campaignId: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-postback-timestamp') timestamp: string | undefined,
+    @Headers('x-postback-signature') signature: string | undefined,
+    @Body() dto: ConversionPostbackDto,
+  ): Promise<ConversionPostbackResponseDto> {
+    return this.conversionsService.recordPostback(campaignId, req.rawBody, timestamp, signature, dto);
+  }
+}
@@ -0,0 +1,25 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { ReconciliationService } from './reconciliation.service';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { UserRole } from '@tam/shared-types';
+
+@ApiTags('Admin')
+@Controller('admin/reconciliation')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class ReconciliationController {
+  constructor(private reconciliationService: ReconciliationService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Hot wallet vs ledger reconciliation snapshots (admin)' })
+  async findSnapshots(@Query('days') days?: string) {
+    const parsed = days ? parseInt(days, 10) : 30;
+    return this.reconciliationService.findSnapshots(
+      Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 365) : 30,
+    );
+  }
+}
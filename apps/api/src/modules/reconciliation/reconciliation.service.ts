@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../common/prisma/prisma.service';
+
+export interface ReconciliationSnapshotResponse {
+  id: string;
+  snapshotDate: string;
+  hotWalletBalance: string;
+  userBalanceTon: string;
+  userFrozenTon: string;
+  userAppealFrozenTon: string;
+  platformFees: string;
+  pendingWithdrawals: string;
+  escrowContracts: string;
+  suspense: string;
+  expectedBalance: string;
+  difference: string;
+  alertThreshold: string;
+  alerted: boolean;
+  updatedAt: string;
+}
+
+@Injectable()
+export class ReconciliationService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Daily hot wallet snapshots written by the workers, newest first
+   */
+  async findSnapshots(
+    days = 30,
+  ): Promise<{ latest: ReconciliationSnapshotResponse | null; items: ReconciliationSnapshotResponse[] }> {
+    const snapshots = await this.prisma.reconciliationSnapshot.findMany({
+      orderBy: { snapshotDate: 'desc' },
+      take: days,
+    });
+
+    const items = snapshots.map((s) => ({
+      id: s.id,
+      snapshotDate: s.snapshotDate.toISOString().slice(0, 10),
+      hotWalletBalance: s.hotWalletBalance.toString(),
+      userBalanceTon: s.userBalanceTon.toString(),
+      userFrozenTon: s.userFrozenTon.toString(),
+      userAppealFrozenTon: s.userAppealFrozenTon.toString(),
+      platformFees: s.platformFees.toString(),
+      pendingWithdrawals: s.pendingWithdrawals.toString(),
+      escrowContracts: s.escrowContracts.toString(),
+      suspense: s.suspense.toString(),
+      expectedBalance: s.expectedBalance.toString(),
+      difference: s.difference.toString(),
+      alertThreshold: s.alertThreshold.toString(),
+      alerted: s.alerted,
+      updatedAt: s.updatedAt.toISOString(),
+    }));
+
+    return { latest: items[0] ?? null, items };
+  }
+}
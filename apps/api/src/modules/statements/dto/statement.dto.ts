@@ -0,0 +1,42 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, Matches } from 'class-validator';
+import { StatementStatus, StatementSummary } from '@tam/shared-types';
+
+export const STATEMENT_FORMATS = ['csv', 'pdf'] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+export class RequestStatementDto {
+  @ApiProperty({ description: 'Completed month, YYYY-MM', example: '2026-09' })
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'month must be in YYYY-MM format' })
+  month: string;
+}
+
+export class StatementDownloadQueryDto {
+  @ApiPropertyOptional({ enum: STATEMENT_FORMATS, default: 'pdf' })
+  @IsOptional()
+  @IsIn(STATEMENT_FORMATS)
+  format?: StatementFormat;
+}
+
+export class StatementDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'Month, YYYY-MM' })
+  period: string;
+
+  @ApiProperty({ enum: StatementStatus })
+  status: string;
+
+  @ApiProperty({ description: 'Fiat currency transactions are valued in' })
+  fiatCurrency: string;
+
+  @ApiPropertyOptional({ description: 'Opening/closing balances and totals per currency', type: Object })
+  summary?: StatementSummary;
+
+  @ApiPropertyOptional()
+  generatedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Why generation failed; request the month again to retry' })
+  error?: string;
+}
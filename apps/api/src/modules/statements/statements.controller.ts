@@ -0,0 +1,49 @@
+import { Controller, Get, Post, Body, Param, Query, Res, UseGuards } from '@nestjs/common';
+import { Response } from 'express';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { StatementsService } from './statements.service';
+import { RequestStatementDto, StatementDownloadQueryDto, StatementDto } from './dto/statement.dto';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('Statements')
+@Controller('statements')
+@UseGuards(AuthGuard('jwt'))
+@ApiBearerAuth()
+export class StatementsController {
+  constructor(private statementsService: StatementsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Monthly statements of the current user' })
+  async findAll(@CurrentUser() user: CurrentUserData): Promise<StatementDto[]> {
+    return this.statementsService.findAll(user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Request the statement of a completed month' })
+  async request(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: RequestStatementDto,
+  ): Promise<StatementDto> {
+    return this.statementsService.request(user.id, dto);
+  }
+
+  @Get(':id/download')
+  @ApiOperation({ summary: 'Download a statement as CSV or PDF' })
+  async download(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Query() query: StatementDownloadQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const file = await this.statementsService.getFile(user.id, id, query.format ?? 'pdf');
+
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Length': file.buffer.length,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(file.buffer);
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Statement } from '@tam/prisma-client';
+import { StatementStatus, StatementSummary } from '@tam/shared-types';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { RequestStatementDto, StatementDto, StatementFormat } from './dto/statement.dto';
+
+const CONTENT_TYPES: Record<StatementFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+export interface StatementFile {
+  buffer: Buffer;
+  filename: string;
+  contentType: string;
+}
+
+/**
+ * Monthly statements are generated by the workers: last month's for every
+ * active user, other months on request. This side lists them, queues
+ * requests and serves the stored files.
+ */
+@Injectable()
+export class StatementsService {
+  constructor(
+    private prisma: PrismaService,
+    private storage: StorageService,
+  ) {}
+
+  async findAll(userId: string): Promise<StatementDto[]> {
+    const statements = await this.prisma.statement.findMany({
+      where: { userId },
+      orderBy: { periodStart: 'desc' },
+      take: 24,
+    });
+
+    return statements.map((s) => this.mapStatement(s));
+  }
+
+  /**
+   * Queues the statement of a completed month. A failed one is queued again,
+   * an existing one is returned as is.
+   */
+  async request(userId: string, dto: RequestStatementDto): Promise<StatementDto> {
+    const [year, month] = dto.month.split('-').map(Number) as [number, number];
+    const periodStart = new Date(Date.UTC(year, month - 1, 1));
+
+    const now = new Date();
+    if (periodStart >= new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))) {
+      throw new BadRequestException('Statements are available for completed months only');
+    }
+
+    const statement = await this.prisma.statement.upsert({
+      where: { userId_periodStart: { userId, periodStart } },
+      create: { userId, periodStart },
+      update: {},
+    });
+
+    if (statement.status === StatementStatus.FAILED) {
+      await this.prisma.statement.updateMany({
+        where: { id: statement.id, status: StatementStatus.FAILED },
+        data: { status: StatementStatus.PENDING, error: null },
+      });
+      return this.mapStatement({ ...statement, status: StatementStatus.PENDING, error: null });
+    }
+
+    return this.mapStatement(statement);
+  }
+
+  async getFile(userId: string, id: string, format: StatementFormat): Promise<StatementFile> {
+    const statement = await this.prisma.statement.findFirst({ where: { id, userId } });
+    if (!statement) {
+      throw new NotFoundException('Statement not found');
+    }
+    if (statement.status !== StatementStatus.READY) {
+      throw new ConflictException('Statement is not ready yet');
+    }
+
+    const key = format === 'csv' ? statement.csvKey : statement.pdfKey;
+    const buffer = key ? await this.storage.getObject(key) : null;
+    if (!buffer) {
+      throw new NotFoundException('Statement file not found');
+    }
+
+    return {
+      buffer,
+      filename: `statement-${formatPeriod(statement.periodStart)}.${format}`,
+      contentType: CONTENT_TYPES[format],
+    };
+  }
+
+  private mapStatement(s: Statement): StatementDto {
+    return {
+      id: s.id,
+      period: formatPeriod(s.periodStart),
+      status: s.status,
+      fiatCurrency: s.fiatCurrency,
+      summary: (s.summary as StatementSummary | null) ?? undefined,
+      generatedAt: s.generatedAt?.toISOString(),
+      error: s.error ?? undefined,
+    };
+  }
+}
+
+function formatPeriod(periodStart: Date): string {
+  return periodStart.toISOString().slice(0, 7);
+}
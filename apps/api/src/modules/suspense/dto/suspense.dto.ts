@@ -0,0 +1,84 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNotEmpty, IsEnum, MaxLength } from 'class-validator';
+import { Currency, SuspenseReason, SuspenseStatus } from '@tam/shared-types';
+
+export class SuspenseQueryDto {
+  @ApiPropertyOptional({ enum: SuspenseStatus, default: SuspenseStatus.PENDING })
+  @IsOptional()
+  @IsEnum(SuspenseStatus)
+  status?: SuspenseStatus;
+}
+
+class SuspenseAssignedUserDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional()
+  username?: string;
+
+  @ApiPropertyOptional()
+  firstName?: string;
+}
+
+export class SuspenseTransferDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  tonTxHash: string;
+
+  @ApiProperty({ enum: Currency })
+  currency: string;
+
+  @ApiProperty()
+  amount: string;
+
+  @ApiProperty({ description: 'Sender address; refunds go here' })
+  fromAddress: string;
+
+  @ApiPropertyOptional({ description: 'Comment the transfer was sent with' })
+  memo?: string;
+
+  @ApiProperty({ enum: SuspenseReason })
+  reason: string;
+
+  @ApiProperty({ enum: SuspenseStatus })
+  status: string;
+
+  @ApiProperty()
+  receivedAt: string;
+
+  @ApiPropertyOptional({ type: SuspenseAssignedUserDto })
+  assignedUser?: SuspenseAssignedUserDto;
+
+  @ApiPropertyOptional()
+  note?: string;
+
+  @ApiPropertyOptional({ description: 'Why the last refund attempt failed' })
+  refundError?: string;
+
+  @ApiPropertyOptional()
+  refundTxHash?: string;
+}
+
+export class AssignSuspenseDto {
+  @ApiProperty({ description: 'User id, Telegram id or @username to credit' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  user: string;
+
+  @ApiPropertyOptional({ description: 'Why the transfer belongs to this user' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class RefundSuspenseDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
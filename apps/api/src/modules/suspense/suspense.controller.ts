@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { UserRole } from '@tam/shared-types';
+import { SuspenseService } from './suspense.service';
+import {
+  AssignSuspenseDto,
+  RefundSuspenseDto,
+  SuspenseQueryDto,
+  SuspenseTransferDto,
+} from './dto/suspense.dto';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
+
+@ApiTags('Admin')
+@Controller('admin/suspense')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.MODERATOR)
+@ApiBearerAuth()
+export class SuspenseController {
+  constructor(private suspenseService: SuspenseService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Incoming transfers not matched to a deposit (admin/moderator)' })
+  async findAll(@Query() query: SuspenseQueryDto): Promise<SuspenseTransferDto[]> {
+    return this.suspenseService.findAll(query.status);
+  }
+
+  @Post(':id/assign')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Credit an unmatched transfer to a user (admin/moderator)' })
+  async assign(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: AssignSuspenseDto,
+  ): Promise<SuspenseTransferDto> {
+    return this.suspenseService.assign(user.id, id, dto);
+  }
+
+  @Post(':id/refund')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Refund an unmatched transfer to its sender (admin/moderator)' })
+  async refund(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: RefundSuspenseDto,
+  ): Promise<SuspenseTransferDto> {
+    return this.suspenseService.refund(user.id, id, dto.note);
+  }
+}
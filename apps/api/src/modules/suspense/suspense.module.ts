@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { SuspenseController } from './suspense.controller';
+import { SuspenseService } from './suspense.service';
+
+@Module({
+  controllers: [SuspenseController],
+  providers: [SuspenseService],
+})
+export class SuspenseModule {}
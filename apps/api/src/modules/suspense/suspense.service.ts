@@ -0,0 +1,216 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { SuspenseStatus, TransactionStatus, TransactionType } from '@tam/shared-types';
+import { normalizeWalletAddress } from '@tam/ton-utils';
+import {
+  Prisma,
+  postJournalEntry,
+  userAvailable,
+  SUSPENSE_ACCOUNT,
+} from '@tam/prisma-client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AssignSuspenseDto, SuspenseTransferDto } from './dto/suspense.dto';
+
+const ASSIGNED_USER_SELECT = { id: true, username: true, firstName: true } as const;
+
+type SuspenseTransferWithUser = Prisma.SuspenseTransferGetPayload<{
+  include: { assignedUser: { select: typeof ASSIGNED_USER_SELECT } };
+}>;
+
+/**
+ * Moderator side of unmatched incoming transfers recorded by the workers'
+ * deposit scanner. Assigning credits the funds to a user; a refund is
+ * requested here and sent by the workers.
+ */
+@Injectable()
+export class SuspenseService {
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(status: SuspenseStatus = SuspenseStatus.PENDING): Promise<SuspenseTransferDto[]> {
+    const transfers = await this.prisma.suspenseTransfer.findMany({
+      where: { status },
+      orderBy: { receivedAt: 'asc' },
+      take: 200,
+      include: { assignedUser: { select: ASSIGNED_USER_SELECT } },
+    });
+
+    return transfers.map((t) => this.mapTransfer(t));
+  }
+
+  async assign(moderatorId: string, id: string, dto: AssignSuspenseDto): Promise<SuspenseTransferDto> {
+    const user = await this.resolveUser(dto.user);
+
+    await this.prisma.$transaction(async (tx) => {
+      const transfer = await tx.suspenseTransfer.findUnique({ where: { id } });
+      if (!transfer) {
+        throw new NotFoundException('Transfer not found');
+      }
+
+      const updated = await tx.suspenseTransfer.updateMany({
+        where: { id, status: SuspenseStatus.PENDING },
+        data: {
+          status: SuspenseStatus.ASSIGNED,
+          assignedUserId: user.id,
+          resolvedById: moderatorId,
+          resolvedAt: new Date(),
+          note: dto.note ?? null,
+        },
+      });
+      if (updated.count === 0) {
+        throw new ConflictException(`Transfer is already ${transfer.status.toLowerCase()}`);
+      }
+
+      const transaction = await tx.transaction.create({
+        data: {
+          userId: user.id,
+          type: TransactionType.DEPOSIT,
+          status: TransactionStatus.CONFIRMED,
+          currency: transfer.currency,
+          amount: transfer.amount,
+          tonTxHash: transfer.tonTxHash,
+          metadata: {
+            suspenseTransferId: transfer.id,
+            from: transfer.fromAddress,
+            memo: transfer.memo,
+          },
+        },
+      });
+
+      await postJournalEntry(tx, {
+        type: 'DEPOSIT',
+        currency: transfer.currency,
+        description: `Suspense transfer ${transfer.id} assigned`,
+        transactionId: transaction.id,
+        movements: [
+          { debit: SUSPENSE_ACCOUNT, credit: userAvailable(user.id), amount: transfer.amount },
+        ],
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'SUSPENSE_ASSIGNED',
+          entityType: 'SuspenseTransfer',
+          entityId: transfer.id,
+          userId: moderatorId,
+          oldValue: { status: transfer.status },
+          newValue: {
+            status: SuspenseStatus.ASSIGNED,
+            assignedUserId: user.id,
+            transactionId: transaction.id,
+            amount: transfer.amount.toString(),
+            currency: transfer.currency,
+            note: dto.note ?? null,
+          },
+        },
+      });
+    });
+
+    return this.findOne(id);
+  }
+
+  async refund(moderatorId: string, id: string, note?: string): Promise<SuspenseTransferDto> {
+    await this.prisma.$transaction(async (tx) => {
+      const transfer = await tx.suspenseTransfer.findUnique({ where: { id } });
+      if (!transfer) {
+        throw new NotFoundException('Transfer not found');
+      }
+      if (!normalizeWalletAddress(transfer.fromAddress)) {
+        throw new BadRequestException('Sender address is not a valid wallet address');
+      }
+
+      const updated = await tx.suspenseTransfer.updateMany({
+        where: { id, status: SuspenseStatus.PENDING },
+        data: {
+          status: SuspenseStatus.REFUNDING,
+          resolvedById: moderatorId,
+          resolvedAt: new Date(),
+          note: note ?? null,
+          refundError: null,
+        },
+      });
+      if (updated.count === 0) {
+        throw new ConflictException(`Transfer is already ${transfer.status.toLowerCase()}`);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action: 'SUSPENSE_REFUND_REQUESTED',
+          entityType: 'SuspenseTransfer',
+          entityId: transfer.id,
+          userId: moderatorId,
+          oldValue: { status: transfer.status },
+          newValue: {
+            status: SuspenseStatus.REFUNDING,
+            toAddress: transfer.fromAddress,
+            amount: transfer.amount.toString(),
+            currency: transfer.currency,
+            note: note ?? null,
+          },
+        },
+      });
+    });
+
+    return this.findOne(id);
+  }
+
+  private async findOne(id: string): Promise<SuspenseTransferDto> {
+    const transfer = await this.prisma.suspenseTransfer.findUniqueOrThrow({
+      where: { id },
+      include: { assignedUser: { select: ASSIGNED_USER_SELECT } },
+    });
+    return this.mapTransfer(transfer);
+  }
+
+  /**
+   * Accepts a user id, a numeric Telegram id or an @username
+   */
+  private async resolveUser(ref: string): Promise<{ id: string }> {
+    const value = ref.trim();
+    let where: Prisma.UserWhereInput;
+
+    if (value.startsWith('@')) {
+      where = { username: { equals: value.slice(1), mode: 'insensitive' } };
+    } else if (/^\d+$/.test(value)) {
+      where = { telegramId: BigInt(value) };
+    } else {
+      where = { id: value };
+    }
+
+    const [user, other] = await this.prisma.user.findMany({ where, select: { id: true }, take: 2 });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (other) {
+      throw new ConflictException('Several users match, use the Telegram id instead');
+    }
+    return user;
+  }
+
+  private mapTransfer(t: SuspenseTransferWithUser): SuspenseTransferDto {
+    return {
+      id: t.id,
+      tonTxHash: t.tonTxHash,
+      currency: t.currency,
+      amount: t.amount.toString(),
+      fromAddress: t.fromAddress,
+      memo: t.memo ?? undefined,
+      reason: t.reason,
+      status: t.status,
+      receivedAt: t.receivedAt.toISOString(),
+      assignedUser: t.assignedUser
+        ? {
+            id: t.assignedUser.id,
+            username: t.assignedUser.username ?? undefined,
+            firstName: t.assignedUser.firstName ?? undefined,
+          }
+        : undefined,
+      note: t.note ?? undefined,
+      refundError: t.refundError ?? undefined,
+      refundTxHash: t.refundTxHash ?? undefined,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsOptional, IsString, Matches } from 'class-validator';
 import { validateTonAddress } from '@tam/security';
+import { Currency } from '@tam/shared-types';
 
 export class UpdateUserDto {
   @ApiPropertyOptional({ description: 'TON wallet address' })
@@ -47,6 +48,51 @@ export class UserResponseDto {
   createdAt: string;
 }
 
+class ReferralEarningDto {
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty()
+  amount: string;
+}
+
+class ReferralRewardDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  amount: string;
+
+  @ApiProperty({ enum: Currency })
+  currency: Currency;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class ReferralStatsDto {
+  @ApiPropertyOptional({ description: 'Own code; the link is t.me/<bot>?start=ref_<code>' })
+  referralCode?: string;
+
+  @ApiProperty({ description: 'Share of referred users\' platform fees paid out, %' })
+  sharePercent: number;
+
+  @ApiProperty({ description: 'Days after sign-up during which a referred user earns rewards' })
+  windowDays: number;
+
+  @ApiProperty()
+  referredCount: number;
+
+  @ApiProperty({ description: 'Referred users still within the reward window' })
+  activeReferredCount: number;
+
+  @ApiProperty({ type: [ReferralEarningDto] })
+  earnings: ReferralEarningDto[];
+
+  @ApiProperty({ type: [ReferralRewardDto] })
+  recentRewards: ReferralRewardDto[];
+}
+
 export class UserStatsDto {
   @ApiProperty()
   totalDeals: number;
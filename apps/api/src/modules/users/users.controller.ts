@@ -8,7 +8,7 @@ import {
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthGuard } from '@nestjs/passport';
 import { UsersService } from './users.service';
-import { UpdateUserDto, UserResponseDto, UserStatsDto } from './dto/user.dto';
+import { ReferralStatsDto, UpdateUserDto, UserResponseDto, UserStatsDto } from './dto/user.dto';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 
 @ApiTags('Users')
@@ -38,4 +38,10 @@ export class UsersController {
   async getMyStats(@CurrentUser() user: CurrentUserData): Promise<UserStatsDto> {
     return this.usersService.getStats(user.id);
   }
+
+  @Get('me/referrals')
+  @ApiOperation({ summary: 'Get referral code, referred users and referral earnings' })
+  async getMyReferrals(@CurrentUser() user: CurrentUserData): Promise<ReferralStatsDto> {
+    return this.usersService.getReferrals(user.id);
+  }
 }
@@ -5,8 +5,9 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { UpdateUserDto, UserResponseDto, UserStatsDto } from './dto/user.dto';
-import { DealStatus } from '@tam/shared-types';
+import { ReferralStatsDto, UpdateUserDto, UserResponseDto, UserStatsDto } from './dto/user.dto';
+import { Currency, DealStatus, TransactionStatus, TransactionType } from '@tam/shared-types';
+import { getReferralProgram } from '@tam/prisma-client';
 
 @Injectable()
 export class UsersService {
@@ -145,6 +146,58 @@ export class UsersService {
     };
   }
 
+  async getReferrals(id: string): Promise<ReferralStatsDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { referralCode: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const program = await getReferralProgram(this.prisma);
+    const windowStart = new Date(Date.now() - program.windowDays * 24 * 60 * 60 * 1000);
+    const rewardsWhere = {
+      userId: id,
+      type: TransactionType.REFERRAL_REWARD,
+      status: TransactionStatus.CONFIRMED,
+    };
+
+    const [referredCount, activeReferredCount, earnings, recentRewards] = await Promise.all([
+      this.prisma.user.count({ where: { referredById: id } }),
+      this.prisma.user.count({ where: { referredById: id, referredAt: { gte: windowStart } } }),
+      this.prisma.transaction.groupBy({
+        by: ['currency'],
+        where: rewardsWhere,
+        _sum: { amount: true },
+      }),
+      this.prisma.transaction.findMany({
+        where: rewardsWhere,
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+
+    return {
+      referralCode: user.referralCode ?? undefined,
+      sharePercent: program.sharePercent,
+      windowDays: program.windowDays,
+      referredCount,
+      activeReferredCount,
+      earnings: earnings.map((e) => ({
+        currency: e.currency as Currency,
+        amount: e._sum.amount?.toString() ?? '0',
+      })),
+      recentRewards: recentRewards.map((r) => ({
+        id: r.id,
+        amount: r.amount.toString(),
+        currency: r.currency as Currency,
+        createdAt: r.createdAt.toISOString(),
+      })),
+    };
+  }
+
   private mapToResponse(user: {
     id: string;
     telegramId: bigint;
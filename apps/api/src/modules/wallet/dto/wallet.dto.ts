@@ -1,5 +1,14 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsNumber, IsObject, IsString, ValidateNested } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 
 class DomainDto {
@@ -73,3 +82,48 @@ export class DisconnectWalletResponseDto {
   @ApiProperty({ description: 'Whether wallet was disconnected' })
   disconnected: boolean;
 }
+
+export class AddWithdrawalAddressDto {
+  @ApiProperty({ description: 'TON wallet address in any format' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  address: string;
+
+  @ApiPropertyOptional({ description: 'Label to recognize the address by' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  label?: string;
+}
+
+export class SetWithdrawalAllowlistDto {
+  @ApiProperty({ description: 'Only allow withdrawals to saved addresses' })
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class WithdrawalAddressDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'Normalized non-bounceable address' })
+  address: string;
+
+  @ApiPropertyOptional()
+  label?: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class WithdrawalAllowlistDto {
+  @ApiProperty({ description: 'Whether withdrawals are restricted to saved addresses' })
+  enabled: boolean;
+
+  @ApiPropertyOptional({ description: 'Withdrawals are locked until this time after a wallet or allowlist change' })
+  withdrawalsLockedUntil?: string;
+
+  @ApiProperty({ type: [WithdrawalAddressDto] })
+  addresses: WithdrawalAddressDto[];
+}
@@ -1,8 +1,11 @@
 import {
   Controller,
+  Get,
+  Post,
   Put,
   Delete,
   Body,
+  Param,
   UseGuards,
   HttpCode,
   HttpStatus,
@@ -15,6 +18,10 @@ import {
   ConnectWalletDto,
   WalletResponseDto,
   DisconnectWalletResponseDto,
+  AddWithdrawalAddressDto,
+  SetWithdrawalAllowlistDto,
+  WithdrawalAddressDto,
+  WithdrawalAllowlistDto,
 } from './dto/wallet.dto';
 import {
   CurrentUser,
@@ -55,4 +62,43 @@ export class WalletController {
     await this.walletService.disconnectWallet(user.id);
     return { disconnected: true };
   }
+
+  @Get('allowlist')
+  @ApiOperation({ summary: 'Get withdrawal address allowlist' })
+  async getAllowlist(
+    @CurrentUser() user: CurrentUserData,
+  ): Promise<WithdrawalAllowlistDto> {
+    return this.walletService.getWithdrawalAllowlist(user.id);
+  }
+
+  @Put('allowlist')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Enable or disable the withdrawal allowlist (disabling locks withdrawals)' })
+  async setAllowlistEnabled(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: SetWithdrawalAllowlistDto,
+  ): Promise<WithdrawalAllowlistDto> {
+    return this.walletService.setWithdrawalAllowlistEnabled(user.id, dto.enabled);
+  }
+
+  @Post('allowlist')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Add an address to the withdrawal allowlist' })
+  async addAllowlistAddress(
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: AddWithdrawalAddressDto,
+  ): Promise<WithdrawalAddressDto> {
+    return this.walletService.addWithdrawalAddress(user.id, dto.address, dto.label);
+  }
+
+  @Delete('allowlist/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove an address from the withdrawal allowlist' })
+  async removeAllowlistAddress(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+  ): Promise<{ removed: boolean }> {
+    await this.walletService.removeWithdrawalAddress(user.id, id);
+    return { removed: true };
+  }
 }
@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { NotificationModule } from '../../common/notification/notification.module';
 import { WalletController } from './wallet.controller';
 import { WalletService } from './wallet.service';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, NotificationModule],
   controllers: [WalletController],
   providers: [WalletService],
   exports: [WalletService],
@@ -7,10 +7,19 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../common/prisma/prisma.service';
+import { NotificationService } from '../../common/notification/notification.service';
 import {
   verifyTonProof,
+  normalizeWalletAddress,
   TonProofPayload,
 } from '@tam/ton-utils';
+import { WITHDRAWAL_LOCK_HOURS } from '@tam/shared-types';
+import {
+  WithdrawalAllowlistDto,
+  WithdrawalAddressDto,
+} from './dto/wallet.dto';
+
+const MAX_WITHDRAWAL_ADDRESSES = 20;
 
 @Injectable()
 export class WalletService {
@@ -19,6 +28,7 @@ export class WalletService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private notificationService: NotificationService,
   ) {}
 
   /**
@@ -56,7 +66,7 @@ export class WalletService {
     const walletAddress = result.address;
 
     // Use transaction with row-level locking to prevent race conditions
-    return this.prisma.$transaction(async (tx) => {
+    const connected = await this.prisma.$transaction(async (tx) => {
       // Check if this wallet is already connected to another user
       // Using raw query for SELECT ... FOR UPDATE
       const existingUsers = await tx.$queryRaw<
@@ -69,20 +79,40 @@ export class WalletService {
       }
 
       // Lock the current user row
-      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+      const currentUsers = await tx.$queryRaw<
+        Array<{ walletAddress: string | null }>
+      >`SELECT "walletAddress" FROM "User" WHERE id = ${userId} FOR UPDATE`;
+      const changed = currentUsers[0]?.walletAddress !== walletAddress;
+
+      // A new withdrawal destination locks withdrawals, so a hijacked session
+      // cannot connect its own wallet and drain the balance right away
+      const withdrawalsLockedUntil = changed ? this.getWithdrawalLockEnd() : null;
 
       // Update the user's wallet address
       await tx.user.update({
         where: { id: userId },
-        data: { walletAddress },
+        data: {
+          walletAddress,
+          ...(withdrawalsLockedUntil && { withdrawalsLockedUntil }),
+        },
       });
 
       this.logger.log(
         `Wallet ${walletAddress.slice(0, 10)}... connected to user ${userId}`,
       );
 
-      return { walletAddress };
+      return { walletAddress, withdrawalsLockedUntil };
     });
+
+    if (connected.withdrawalsLockedUntil) {
+      this.notificationService.send('WALLET_CHANGED', userId, {
+        toAddress: walletAddress,
+        lockedUntil: connected.withdrawalsLockedUntil.toISOString(),
+        miniAppPath: '/profile/security',
+      });
+    }
+
+    return { walletAddress };
   }
 
   /**
@@ -109,4 +139,129 @@ export class WalletService {
 
     this.logger.log(`Wallet disconnected for user ${userId}`);
   }
+
+  async getWithdrawalAllowlist(userId: string): Promise<WithdrawalAllowlistDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        withdrawalAllowlistEnabled: true,
+        withdrawalsLockedUntil: true,
+        withdrawalAddresses: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const lockedUntil = user.withdrawalsLockedUntil && user.withdrawalsLockedUntil > new Date()
+      ? user.withdrawalsLockedUntil.toISOString()
+      : undefined;
+
+    return {
+      enabled: user.withdrawalAllowlistEnabled,
+      withdrawalsLockedUntil: lockedUntil,
+      addresses: user.withdrawalAddresses.map((a) => this.mapWithdrawalAddress(a)),
+    };
+  }
+
+  /**
+   * Enabling the allowlist takes effect immediately; disabling it relaxes
+   * the restriction and locks withdrawals like a wallet change.
+   */
+  async setWithdrawalAllowlistEnabled(
+    userId: string,
+    enabled: boolean,
+  ): Promise<WithdrawalAllowlistDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { withdrawalAllowlistEnabled: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.withdrawalAllowlistEnabled !== enabled) {
+      const withdrawalsLockedUntil = enabled ? null : this.getWithdrawalLockEnd();
+
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          withdrawalAllowlistEnabled: enabled,
+          ...(withdrawalsLockedUntil && { withdrawalsLockedUntil }),
+        },
+      });
+
+      this.logger.log(`Withdrawal allowlist ${enabled ? 'enabled' : 'disabled'} for user ${userId}`);
+    }
+
+    return this.getWithdrawalAllowlist(userId);
+  }
+
+  async addWithdrawalAddress(
+    userId: string,
+    rawAddress: string,
+    label?: string,
+  ): Promise<WithdrawalAddressDto> {
+    const address = normalizeWalletAddress(rawAddress);
+    if (!address) {
+      throw new BadRequestException('Invalid TON address');
+    }
+
+    const count = await this.prisma.withdrawalAddress.count({ where: { userId } });
+    if (count >= MAX_WITHDRAWAL_ADDRESSES) {
+      throw new BadRequestException(
+        `You can save up to ${MAX_WITHDRAWAL_ADDRESSES} withdrawal addresses`,
+      );
+    }
+
+    const existing = await this.prisma.withdrawalAddress.findUnique({
+      where: { userId_address: { userId, address } },
+    });
+    if (existing) {
+      throw new ConflictException('Address is already on the allowlist');
+    }
+
+    const created = await this.prisma.withdrawalAddress.create({
+      data: { userId, address, label: label?.trim() || null },
+    });
+
+    return this.mapWithdrawalAddress(created);
+  }
+
+  async removeWithdrawalAddress(userId: string, id: string): Promise<void> {
+    const deleted = await this.prisma.withdrawalAddress.deleteMany({
+      where: { id, userId },
+    });
+
+    if (deleted.count === 0) {
+      throw new NotFoundException('Address not found');
+    }
+  }
+
+  /**
+   * End of the withdrawal lock starting now, or null if WITHDRAWAL_LOCK_HOURS is 0
+   */
+  private getWithdrawalLockEnd(): Date | null {
+    const hours = Number(
+      this.configService.get<string>('WITHDRAWAL_LOCK_HOURS', String(WITHDRAWAL_LOCK_HOURS)),
+    );
+    const lockHours = Number.isFinite(hours) && hours >= 0 ? hours : WITHDRAWAL_LOCK_HOURS;
+    return lockHours > 0 ? new Date(Date.now() + lockHours * 60 * 60 * 1000) : null;
+  }
+
+  private mapWithdrawalAddress(address: {
+    id: string;
+    address: string;
+    label: string | null;
+    createdAt: Date;
+  }): WithdrawalAddressDto {
+    return {
+      id: address.id,
+      address: address.address,
+      label: address.label ?? undefined,
+      createdAt: address.createdAt.toISOString(),
+    };
+  }
 }
@@ -2,13 +2,26 @@ import type { Bot } from 'grammy';
 import { InlineKeyboard } from 'grammy';
 import type { BotContext } from '../types.js';
 
+// Реферальная ссылка: t.me/<bot>?start=ref_<code>
+const REFERRAL_PAYLOAD_REGEX = /^ref_([A-Za-z0-9]{4,16})$/;
+
 export async function setupCommands(bot: Bot<BotContext>, webAppUrl: string): Promise<void> {
-  // /start command - единственная команда
+  // /start command
   bot.command('start', async (ctx) => {
     const firstName = ctx.session.user?.firstName ?? ctx.from?.first_name ?? '';
 
+    // Mini App, открытый из кнопки, не получает start_param,
+    // поэтому реферальный код передаём в URL
+    let url = webAppUrl;
+    const referralCode = REFERRAL_PAYLOAD_REGEX.exec(ctx.match)?.[1];
+    if (referralCode) {
+      const withRef = new URL(webAppUrl);
+      withRef.searchParams.set('ref', referralCode);
+      url = withRef.toString();
+    }
+
     const keyboard = new InlineKeyboard()
-      .webApp('Открыть', webAppUrl);
+      .webApp('Открыть', url);
 
     await ctx.reply(
       `Привет${firstName ? `, ${firstName}` : ''}! 👋\n\n` +
@@ -40,9 +53,9 @@ export async function setupCommands(bot: Bot<BotContext>, webAppUrl: string): Pr
     );
   });
 
-  // Устанавливаем только команду start в меню
   await bot.api.setMyCommands([
     { command: 'start', description: 'Запустить бота' },
+    { command: 'searches', description: 'Сохранённые поиски каналов' },
   ]);
 
   console.log('✅ Bot commands set successfully');
@@ -0,0 +1,93 @@
+import type { Bot } from 'grammy';
+import { InlineKeyboard } from 'grammy';
+import { prisma } from '@tam/prisma-client';
+import type { BotContext } from '../types.js';
+
+const TOGGLE_CALLBACK = 'ss_toggle';
+const DELETE_CALLBACK = 'ss_delete';
+const CALLBACK_PATTERN = new RegExp(`^(${TOGGLE_CALLBACK}|${DELETE_CALLBACK}):(\\w+)$`);
+
+/**
+ * /searches: saved channel searches of the user (created in the Mini App).
+ * Each can be opened in the catalogue, have its daily digest switched on or
+ * off, or be deleted.
+ */
+export function setupSavedSearchCommands(bot: Bot<BotContext>, webAppUrl: string): void {
+  bot.command('searches', async (ctx) => {
+    const user = ctx.session.user;
+    if (!user) return;
+
+    const { text, keyboard } = await renderSavedSearches(user.id, webAppUrl);
+    await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard });
+  });
+
+  bot.callbackQuery(CALLBACK_PATTERN, async (ctx) => {
+    const [, action, searchId] = ctx.match;
+    const user = ctx.session.user;
+
+    const search = await prisma.savedSearch.findUnique({
+      where: { id: searchId },
+    });
+
+    if (!user || !search || search.userId !== user.id) {
+      await ctx.answerCallbackQuery({ text: 'Поиск не найден' });
+      return;
+    }
+
+    if (action === DELETE_CALLBACK) {
+      await prisma.savedSearch.delete({ where: { id: search.id } });
+      await ctx.answerCallbackQuery({ text: 'Поиск удалён' });
+    } else {
+      const alertsEnabled = !search.alertsEnabled;
+      await prisma.savedSearch.update({
+        where: { id: search.id },
+        data: {
+          alertsEnabled,
+          // Re-enabled alerts start from now rather than catching up on the silent period
+          ...(alertsEnabled && { lastAlertedAt: new Date() }),
+        },
+      });
+      await ctx.answerCallbackQuery({
+        text: alertsEnabled ? 'Уведомления включены' : 'Уведомления выключены',
+      });
+    }
+
+    const { text, keyboard } = await renderSavedSearches(user.id, webAppUrl);
+    await ctx.editMessageText(text, { parse_mode: 'HTML', reply_markup: keyboard });
+  });
+}
+
+async function renderSavedSearches(
+  userId: string,
+  webAppUrl: string,
+): Promise<{ text: string; keyboard: InlineKeyboard }> {
+  const searches = await prisma.savedSearch.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const keyboard = new InlineKeyboard();
+
+  if (searches.length === 0) {
+    keyboard.webApp('Открыть каталог', `${webAppUrl}/channels`);
+    return {
+      text: 'У вас нет сохранённых поисков. Настройте фильтры в каталоге каналов и нажмите «Сохранить поиск»',
+      keyboard,
+    };
+  }
+
+  for (const search of searches) {
+    keyboard
+      .webApp(`🔎 ${search.name}`, `${webAppUrl}/channels?savedSearch=${search.id}`)
+      .text(search.alertsEnabled ? '🔔' : '🔕', `${TOGGLE_CALLBACK}:${search.id}`)
+      .text('🗑', `${DELETE_CALLBACK}:${search.id}`)
+      .row();
+  }
+
+  return {
+    text:
+      `🔎 <b>Сохранённые поиски</b>\n\n` +
+      `С включёнными уведомлениями (🔔) раз в день приходит сводка новых и подешевевших каналов`,
+    keyboard,
+  };
+}
@@ -0,0 +1,124 @@
+import type { Bot } from 'grammy';
+import { InlineKeyboard } from 'grammy';
+import { prisma, cancelWithdrawal, Prisma } from '@tam/prisma-client';
+import { WITHDRAWAL_CONFIRM_CALLBACK, WITHDRAWAL_CANCEL_CALLBACK } from '@tam/shared-types';
+import type { BotContext } from '../types.js';
+
+const CALLBACK_PATTERN = new RegExp(
+  `^(${WITHDRAWAL_CONFIRM_CALLBACK}|${WITHDRAWAL_CANCEL_CALLBACK}):(\\w+)$`,
+);
+
+/**
+ * Confirm/cancel buttons of the WITHDRAWAL_CONFIRMATION notification.
+ * A confirmed withdrawal becomes PENDING (or AWAITING_REVIEW above the review
+ * threshold); the workers scheduler hands PENDING withdrawals to the
+ * withdrawal processor.
+ */
+export function setupWithdrawalCallbacks(bot: Bot<BotContext>, webAppUrl: string): void {
+  bot.callbackQuery(CALLBACK_PATTERN, async (ctx) => {
+    const [, action, transactionId] = ctx.match;
+    const user = ctx.session.user;
+
+    const withdrawal = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+    });
+
+    if (!user || !withdrawal || withdrawal.userId !== user.id || withdrawal.type !== 'WITHDRAWAL') {
+      await ctx.answerCallbackQuery({ text: 'Вывод не найден' });
+      return;
+    }
+
+    const amount = `${withdrawal.amount.toString()} ${withdrawal.currency}`;
+
+    if (action === WITHDRAWAL_CANCEL_CALLBACK) {
+      const cancelled = await prisma.$transaction((tx) =>
+        cancelWithdrawal(tx, withdrawal.id, { reason: 'Cancelled in the bot' }),
+      );
+
+      await ctx.answerCallbackQuery({
+        text: cancelled ? 'Вывод отменён' : 'Вывод уже обработан',
+      });
+      if (cancelled) {
+        await ctx.editMessageText(
+          `🚫 Вывод <b>${amount}</b> отменён. Средства возвращены на баланс`,
+          { parse_mode: 'HTML' },
+        );
+      }
+      return;
+    }
+
+    if (withdrawal.status !== 'AWAITING_CONFIRMATION') {
+      await ctx.answerCallbackQuery({ text: 'Вывод уже обработан' });
+      await ctx.editMessageReplyMarkup();
+      return;
+    }
+
+    if (withdrawal.confirmationExpiresAt && withdrawal.confirmationExpiresAt < new Date()) {
+      await prisma.$transaction((tx) =>
+        cancelWithdrawal(tx, withdrawal.id, {
+          reason: 'Not confirmed in time',
+          fromStatuses: ['AWAITING_CONFIRMATION'],
+        }),
+      );
+      await ctx.answerCallbackQuery({ text: 'Время подтверждения истекло' });
+      await ctx.editMessageText(
+        `⏰ Вывод <b>${amount}</b> не подтверждён вовремя и отменён. Средства возвращены на баланс`,
+        { parse_mode: 'HTML' },
+      );
+      return;
+    }
+
+    const nextStatus = withdrawal.reviewRequired ? 'AWAITING_REVIEW' : 'PENDING';
+    const confirmed = await prisma.transaction.updateMany({
+      where: { id: withdrawal.id, status: 'AWAITING_CONFIRMATION' },
+      data: {
+        status: nextStatus,
+        metadata: {
+          ...((withdrawal.metadata as Prisma.JsonObject | null) ?? {}),
+          confirmedAt: new Date().toISOString(),
+        },
+      },
+    });
+
+    if (confirmed.count === 0) {
+      await ctx.answerCallbackQuery({ text: 'Вывод уже обработан' });
+      return;
+    }
+
+    await ctx.answerCallbackQuery({ text: 'Вывод подтверждён' });
+
+    if (nextStatus === 'AWAITING_REVIEW') {
+      await ctx.editMessageText(
+        `✅ Вывод <b>${amount}</b> подтверждён и отправлен на проверку модератору`,
+        { parse_mode: 'HTML' },
+      );
+      await notifyReviewers(bot, webAppUrl, amount);
+    } else {
+      await ctx.editMessageText(
+        `✅ Вывод <b>${amount}</b> подтверждён и будет отправлен в течение нескольких минут`,
+        { parse_mode: 'HTML' },
+      );
+    }
+  });
+}
+
+async function notifyReviewers(bot: Bot<BotContext>, webAppUrl: string, amount: string): Promise<void> {
+  const reviewers = await prisma.user.findMany({
+    where: { role: { in: ['ADMIN', 'MODERATOR'] } },
+    select: { telegramId: true },
+  });
+
+  const keyboard = new InlineKeyboard().webApp('Открыть', `${webAppUrl}/moderation`);
+
+  for (const reviewer of reviewers) {
+    try {
+      await bot.api.sendMessage(
+        reviewer.telegramId.toString(),
+        `🔎 Вывод <b>${amount}</b> ожидает проверки`,
+        { parse_mode: 'HTML', reply_markup: keyboard },
+      );
+    } catch (error) {
+      console.error(`Failed to notify reviewer ${reviewer.telegramId}:`, error);
+    }
+  }
+}
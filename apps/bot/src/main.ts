@@ -1,6 +1,8 @@
 import { Bot, session, GrammyError, HttpError } from 'grammy';
 import { prisma } from '@tam/prisma-client';
 import { setupCommands } from './commands/index.js';
+import { setupWithdrawalCallbacks } from './commands/withdrawals.js';
+import { setupSavedSearchCommands } from './commands/saved-searches.js';
 import { authMiddleware } from './middlewares/auth.middleware.js';
 import { rateLimitMiddleware } from './middlewares/rate-limit.middleware.js';
 import type { BotContext, SessionData } from './types.js';
@@ -33,6 +35,12 @@ bot.use(rateLimitMiddleware);
 // Auth middleware - creates/fetches user from DB
 bot.use(authMiddleware);
 
+// Withdrawal confirmation buttons
+setupWithdrawalCallbacks(bot, WEBAPP_URL);
+
+// /searches: saved channel searches and their alerts
+setupSavedSearchCommands(bot, WEBAPP_URL);
+
 // Error handler
 bot.catch((err) => {
   const ctx = err.ctx;
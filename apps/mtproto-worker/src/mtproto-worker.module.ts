@@ -9,6 +9,7 @@ import { PostVerificationService } from './services/post-verification.service';
 import { AutopostService } from './services/autopost.service';
 import { FolderSyncService } from './services/folder-sync.service';
 import { StatsSchedulerService } from './services/stats-scheduler.service';
+import { PostMetricsService } from './services/post-metrics.service';
 import { ChannelStatsProcessor } from './processors/channel-stats.processor';
 import { PostVerificationProcessor } from './processors/post-verification.processor';
 import { AutopostProcessor } from './processors/autopost.processor';
@@ -45,6 +46,7 @@ import { FolderSyncController } from './controllers/folder-sync.controller';
     AutopostService,
     FolderSyncService,
     StatsSchedulerService,
+    PostMetricsService,
     ChannelStatsProcessor,
     PostVerificationProcessor,
     AutopostProcessor,
@@ -0,0 +1,189 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import {
+  DealStatus,
+  POST_METRICS_HOURLY_WINDOW_MS,
+  POST_METRICS_HOURLY_INTERVAL_MS,
+  POST_METRICS_DAILY_INTERVAL_MS,
+  POST_METRICS_TRACKING_DAYS,
+} from '@tam/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { TelegramClientService } from './telegram-client.service';
+
+interface TrackedPost {
+  dealId: string;
+  dealSlotId: string | null;
+  telegramChannelId: string;
+  messageId: number;
+  postedAt: Date;
+  lastSampledAt: Date | null;
+}
+
+/**
+ * Samples views, forwards, reactions and replies of posted ads into
+ * DealPostMetric: hourly during the first day after posting, then daily
+ * until the tracking period ends.
+ */
+@Injectable()
+export class PostMetricsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PostMetricsService.name);
+  private tickInterval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  // Check for due samples every 10 minutes
+  private readonly TICK_INTERVAL_MS = 10 * 60 * 1000;
+  // Pause between Telegram requests to avoid rate limiting
+  private readonly REQUEST_DELAY_MS = 1000;
+
+  constructor(
+    private prisma: PrismaService,
+    private telegramClient: TelegramClientService
+  ) {}
+
+  async onModuleInit() {
+    // Wait a bit for Telegram client to initialize
+    setTimeout(() => this.startScheduler(), 15000);
+  }
+
+  private startScheduler() {
+    this.logger.log('Starting post metrics scheduler');
+
+    this.sampleDuePosts();
+    this.tickInterval = setInterval(() => {
+      this.sampleDuePosts();
+    }, this.TICK_INTERVAL_MS);
+  }
+
+  private async sampleDuePosts() {
+    if (this.running) return;
+    if (!this.telegramClient.isInitialized()) {
+      this.logger.warn('Telegram client not ready, skipping post metrics sampling');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const now = Date.now();
+      const duePosts = (await this.getTrackedPosts(now)).filter((post) =>
+        this.isDue(post, now)
+      );
+
+      if (duePosts.length === 0) return;
+      this.logger.log(`Sampling metrics of ${duePosts.length} posts`);
+
+      let sampled = 0;
+      for (const post of duePosts) {
+        const metrics = await this.telegramClient.getMessageMetrics(
+          post.telegramChannelId,
+          post.messageId
+        );
+
+        // Deleted or unreadable posts are left to post verification
+        if (metrics) {
+          await this.prisma.dealPostMetric.create({
+            data: {
+              dealId: post.dealId,
+              dealSlotId: post.dealSlotId,
+              ...metrics,
+            },
+          });
+          sampled++;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, this.REQUEST_DELAY_MS));
+      }
+
+      this.logger.log(`Sampled metrics of ${sampled}/${duePosts.length} posts`);
+    } catch (error) {
+      this.logger.error(`Failed to sample post metrics: ${error}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Posts published within the tracking period: single-post deals and
+   * the slots of multi-slot deals, each with its latest sample time
+   */
+  private async getTrackedPosts(now: number): Promise<TrackedPost[]> {
+    const since = new Date(now - POST_METRICS_TRACKING_DAYS * POST_METRICS_DAILY_INTERVAL_MS);
+    const channelSelect = { select: { username: true, telegramId: true } };
+    const latestMetric = {
+      orderBy: { sampledAt: 'desc' as const },
+      take: 1,
+      select: { sampledAt: true },
+    };
+
+    const [deals, slots] = await Promise.all([
+      this.prisma.deal.findMany({
+        where: {
+          status: { in: [DealStatus.POSTED, DealStatus.RELEASED, DealStatus.DISPUTED] },
+          postMessageId: { not: null },
+          actualPostTime: { gte: since },
+          slots: { none: {} },
+        },
+        select: {
+          id: true,
+          postMessageId: true,
+          actualPostTime: true,
+          channel: channelSelect,
+          metrics: { where: { dealSlotId: null }, ...latestMetric },
+        },
+      }),
+      this.prisma.dealSlot.findMany({
+        where: {
+          status: { in: ['POSTED', 'RELEASED', 'DISPUTED'] },
+          postMessageId: { not: null },
+          actualPostTime: { gte: since },
+        },
+        select: {
+          id: true,
+          dealId: true,
+          postMessageId: true,
+          actualPostTime: true,
+          deal: { select: { channel: channelSelect } },
+          metrics: latestMetric,
+        },
+      }),
+    ]);
+
+    const telegramChannelId = (channel: { username: string | null; telegramId: bigint }) =>
+      channel.username ? `@${channel.username}` : channel.telegramId.toString();
+
+    return [
+      ...deals.map((deal) => ({
+        dealId: deal.id,
+        dealSlotId: null,
+        telegramChannelId: telegramChannelId(deal.channel),
+        messageId: deal.postMessageId!,
+        postedAt: deal.actualPostTime!,
+        lastSampledAt: deal.metrics[0]?.sampledAt ?? null,
+      })),
+      ...slots.map((slot) => ({
+        dealId: slot.dealId,
+        dealSlotId: slot.id,
+        telegramChannelId: telegramChannelId(slot.deal.channel),
+        messageId: slot.postMessageId!,
+        postedAt: slot.actualPostTime!,
+        lastSampledAt: slot.metrics[0]?.sampledAt ?? null,
+      })),
+    ];
+  }
+
+  private isDue(post: TrackedPost, now: number): boolean {
+    if (!post.lastSampledAt) return true;
+
+    const interval =
+      now - post.postedAt.getTime() < POST_METRICS_HOURLY_WINDOW_MS
+        ? POST_METRICS_HOURLY_INTERVAL_MS
+        : POST_METRICS_DAILY_INTERVAL_MS;
+
+    // Half a tick of slack keeps samples from drifting a whole tick late
+    return now - post.lastSampledAt.getTime() >= interval - this.TICK_INTERVAL_MS / 2;
+  }
+
+  onModuleDestroy() {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+    }
+  }
+}
@@ -209,6 +209,24 @@ export class TelegramClientService implements OnModuleInit, OnModuleDestroy {
     return message?.views ?? 0;
   }
 
+  /**
+   * Engagement counters of a channel post, or null if it can't be read
+   */
+  async getMessageMetrics(
+    channelId: string | number,
+    messageId: number
+  ): Promise<{ views: number; forwards: number; reactions: number; replies: number } | null> {
+    const message = await this.getMessage(channelId, messageId);
+    if (!message) return null;
+
+    return {
+      views: message.views ?? 0,
+      forwards: message.forwards ?? 0,
+      reactions: message.reactions?.results.reduce((sum, r) => sum + r.count, 0) ?? 0,
+      replies: message.replies?.replies ?? 0,
+    };
+  }
+
   async checkMessageExists(
     channelId: string | number,
     messageId: number
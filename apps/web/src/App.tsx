@@ -5,6 +5,7 @@ import { useAuthStore } from './store/auth.store';
 import { Layout } from './components/Layout';
 import { ChannelsPage } from './pages/ChannelsPage';
 import { ChannelDetailsPage } from './pages/ChannelDetailsPage';
+import { ChannelComparePage } from './pages/ChannelComparePage';
 import { ChannelSettingsPage } from './pages/ChannelSettingsPage';
 import { CampaignsPage } from './pages/CampaignsPage';
 import { CampaignDetailsPage } from './pages/CampaignDetailsPage';
@@ -16,6 +17,7 @@ import { FolderDetailsPage } from './pages/FolderDetailsPage';
 import { ModerationPage } from './pages/ModerationPage';
 import { LoginPage } from './pages/LoginPage';
 import { NotificationsPage } from './pages/NotificationsPage';
+import { SecurityPage } from './pages/SecurityPage';
 import { BriefsPage } from './pages/BriefsPage';
 
 interface ErrorBoundaryState {
@@ -164,6 +166,7 @@ export function App() {
           <Routes>
             <Route path="/" element={<ProfilePage />} />
             <Route path="/channels" element={<ChannelsPage />} />
+            <Route path="/channels/compare" element={<ChannelComparePage />} />
             <Route path="/channels/:id/settings" element={<ChannelSettingsPage />} />
             <Route path="/channels/:id" element={<ChannelDetailsPage />} />
             <Route path="/folders" element={<FoldersPage />} />
@@ -174,6 +177,7 @@ export function App() {
             <Route path="/deals" element={<DealsPage />} />
             <Route path="/deals/:id" element={<DealDetailsPage />} />
             <Route path="/profile/notifications" element={<NotificationsPage />} />
+            <Route path="/profile/security" element={<SecurityPage />} />
             <Route path="/moderation" element={<ModerationPage />} />
           </Routes>
         </ErrorBoundary>
@@ -0,0 +1,48 @@
+import { api } from './client';
+
+// Types
+export interface CheckoutItem {
+  channelId: string;
+  amount?: string;
+  adFormat?: string;
+  scheduledPostTime?: string;
+  slots?: { scheduledPostTime: string }[];
+}
+
+export interface CheckoutRequest {
+  campaignId: string;
+  contentType: string;
+  contentText?: string;
+  promoCode?: string;
+  trackLinks?: boolean;
+  items: CheckoutItem[];
+}
+
+export interface CheckoutItemResult {
+  channelId: string;
+  channelTitle?: string;
+  status: 'CREATED' | 'FAILED';
+  dealId?: string;
+  amount?: string;
+  platformFee?: string;
+  error?: string;
+}
+
+export interface CheckoutResult {
+  checkoutId: string;
+  currency: 'TON' | 'USDT';
+  totalLocked: string;
+  created: number;
+  failed: number;
+  items: CheckoutItemResult[];
+}
+
+// API Methods
+export const checkoutApi = {
+  /**
+   * Creates a deal on every channel of the cart and locks their funds at once
+   */
+  checkout: async (request: CheckoutRequest) => {
+    return api.post<CheckoutResult>('/deals/checkout', request);
+  },
+};
@@ -4,6 +4,32 @@ interface RequestOptions extends RequestInit {
   data?: unknown;
 }
 
+// Money-moving endpoints that honor the Idempotency-Key header
+const IDEMPOTENT_ENDPOINTS = [
+  /^\/escrow\/withdrawal\/create$/,
+  /^\/deals$/,
+  /^\/deals\/checkout$/,
+  /^\/deals\/[^/]+\/approve$/,
+  /^\/deals\/[^/]+\/offers\/[^/]+\/accept$/,
+  /^\/channels\/[^/]+\/boost$/,
+  /^\/folders\/[^/]+\/boost$/,
+  /^\/folders\/[^/]+\/placements$/,
+  /^\/recurring-deals$/,
+];
+
+// Retries of idempotent requests after a dropped connection or a gateway error
+const IDEMPOTENT_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+const RETRYABLE_STATUSES = [502, 503, 504];
+// A retry that finds the first attempt still running gets 503 with Retry-After;
+// keep polling that long for its response to be replayed
+const IN_FLIGHT_POLL_MS = 60_000;
+
+function isIdempotentRequest(endpoint: string, method?: string): boolean {
+  const path = endpoint.split('?')[0];
+  return method === 'POST' && IDEMPOTENT_ENDPOINTS.some((pattern) => pattern.test(path));
+}
+
 class ApiClient {
   private baseUrl: string;
 
@@ -35,12 +61,21 @@ class ApiClient {
       ...(options.headers as Record<string, string>),
     };
 
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+    // One key per call: every retry below repeats the same operation, so the
+    // API executes it at most once
+    const idempotent = isIdempotentRequest(endpoint, options.method);
+    if (idempotent && !headers['Idempotency-Key']) {
+      headers['Idempotency-Key'] = crypto.randomUUID();
+    }
+
+    const send = () => fetch(`${this.baseUrl}${endpoint}`, {
       ...fetchOptions,
       headers,
       body: data ? JSON.stringify(data) : undefined,
     });
 
+    const response = idempotent ? await this.sendWithRetries(send) : await send();
+
     if (!response.ok) {
       const error = await response.json().catch(() => ({ message: 'Request failed' }));
       throw new Error(error.message ?? `HTTP ${response.status}`);
@@ -50,6 +85,49 @@ class ApiClient {
     return { data: responseData };
   }
 
+  /**
+   * Authenticated GET of a file
+   */
+  async download(endpoint: string): Promise<Blob> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      headers: this.getAuthHeader(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Request failed' }));
+      throw new Error(error.message ?? `HTTP ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  private async sendWithRetries(send: () => Promise<Response>): Promise<Response> {
+    const pollUntil = Date.now() + IN_FLIGHT_POLL_MS;
+    let retries = 0;
+
+    for (;;) {
+      let delay: number;
+      try {
+        const response = await send();
+        const retryAfter = Number(response.headers.get('Retry-After'));
+
+        if (response.status === 503 && retryAfter > 0 && Date.now() < pollUntil) {
+          delay = retryAfter * 1000;
+        } else if (retries < IDEMPOTENT_RETRIES && RETRYABLE_STATUSES.includes(response.status)) {
+          delay = RETRY_DELAY_MS * ++retries;
+        } else {
+          return response;
+        }
+      } catch (error) {
+        if (retries >= IDEMPOTENT_RETRIES) {
+          throw error;
+        }
+        delay = RETRY_DELAY_MS * ++retries;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
   get<T>(endpoint: string, options?: RequestOptions) {
     return this.request<T>(endpoint, { ...options, method: 'GET' });
   }
@@ -0,0 +1,43 @@
+import { api } from './client';
+
+// Types
+export interface FeeBreakdown {
+  basePercent: number;
+  category?: string;
+  tierMinCompletedDeals?: number;
+  tierPercent?: number;
+  promoCode?: string;
+  promoDiscountPercent?: number;
+  feePercent: number;
+  fee: string;
+}
+
+export interface FeePreview {
+  amount: string;
+  platformFee: string;
+  total: string;
+  breakdown: FeeBreakdown;
+  promoCodeError?: string;
+}
+
+export interface FeePreviewParams {
+  channelId: string;
+  amount?: string;
+  folderId?: string;
+  promoCode?: string;
+}
+
+// API Methods
+export const feesApi = {
+  /**
+   * Platform fee of a deal (amount) or folder placement (folderId) before creating it
+   */
+  preview: async (params: FeePreviewParams) => {
+    const query = new URLSearchParams({ channelId: params.channelId });
+    if (params.amount) query.append('amount', params.amount);
+    if (params.folderId) query.append('folderId', params.folderId);
+    if (params.promoCode) query.append('promoCode', params.promoCode);
+
+    return api.get<FeePreview>(`/fees/preview?${query}`);
+  },
+};
@@ -1,4 +1,5 @@
 import { api } from './client';
+import type { FeeBreakdown } from './fees';
 
 // Types
 export interface FolderPlacement {
@@ -9,6 +10,7 @@ export interface FolderPlacement {
   folderOwnerId: string;
   amount: string;
   platformFee: string;
+  feeBreakdown?: FeeBreakdown;
   status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
   rejectionReason?: string;
   createdAt: string;
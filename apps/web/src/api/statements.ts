@@ -0,0 +1,61 @@
+import { api } from './client';
+
+// Types
+export type StatementStatus = 'PENDING' | 'READY' | 'FAILED';
+export type StatementFormat = 'csv' | 'pdf';
+
+export interface StatementTotal {
+  amount: string;
+  fiatAmount?: string;
+}
+
+export interface StatementCurrencySummary {
+  currency: string;
+  openingBalance: string;
+  closingBalance: string;
+  totals: Partial<Record<
+    'DEPOSIT' | 'INCOME' | 'SPENT' | 'FEE' | 'BOOST' | 'WITHDRAWAL' | 'REFERRAL' | 'OTHER',
+    StatementTotal
+  >>;
+}
+
+export interface Statement {
+  id: string;
+  period: string;
+  status: StatementStatus;
+  fiatCurrency: string;
+  summary?: {
+    fiatCurrency: string;
+    currencies: StatementCurrencySummary[];
+    lineCount: number;
+  };
+  generatedAt?: string;
+  error?: string;
+}
+
+// API Methods
+export const statementsApi = {
+  list: async () => {
+    return api.get<Statement[]>('/statements');
+  },
+
+  /**
+   * Queues the statement of a completed month (YYYY-MM)
+   */
+  request: async (month: string) => {
+    return api.post<Statement>('/statements', { month });
+  },
+
+  /**
+   * Downloads the file and hands it to the browser
+   */
+  download: async (statement: Statement, format: StatementFormat) => {
+    const blob = await api.download(`/statements/${statement.id}/download?format=${format}`);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `statement-${statement.period}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  },
+};
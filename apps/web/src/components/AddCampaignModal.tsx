@@ -5,11 +5,14 @@ import { api } from '../api/client';
 import { useTelegram } from '../hooks/useTelegram';
 import { useTranslation } from '../i18n';
 
+type Currency = 'TON' | 'USDT';
+
 interface CampaignData {
   id: string;
   title: string;
   description?: string;
   totalBudget: string;
+  currency?: Currency;
   categories: string[];
   targetLanguages: string[];
   isPublic?: boolean;
@@ -58,6 +61,7 @@ export function AddCampaignModal({ isOpen, onClose, campaign }: AddCampaignModal
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [totalBudget, setTotalBudget] = useState('');
+  const [currency, setCurrency] = useState<Currency>('TON');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -76,6 +80,7 @@ export function AddCampaignModal({ isOpen, onClose, campaign }: AddCampaignModal
       setTitle(campaign.title);
       setDescription(campaign.description || '');
       setTotalBudget(campaign.totalBudget);
+      setCurrency(campaign.currency || 'TON');
       setSelectedCategories(campaign.categories);
       setSelectedLanguages(campaign.targetLanguages);
       setIsPublic(campaign.isPublic || false);
@@ -92,6 +97,7 @@ export function AddCampaignModal({ isOpen, onClose, campaign }: AddCampaignModal
         title,
         description: description || undefined,
         totalBudget,
+        currency,
         categories: selectedCategories,
         targetLanguages: selectedLanguages,
         ...(isPublic && { isPublic: true }),
@@ -154,6 +160,7 @@ export function AddCampaignModal({ isOpen, onClose, campaign }: AddCampaignModal
     setRequirements('');
     setMinSubscribers('');
     setMaxBudgetPerDeal('');
+    setCurrency('TON');
   };
 
   const handleCategoryToggle = (catId: string) => {
@@ -260,6 +267,27 @@ export function AddCampaignModal({ isOpen, onClose, campaign }: AddCampaignModal
             placeholder="100.00"
             className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
           />
+          {/* Currency is fixed once the campaign exists */}
+          <div className="flex gap-2 mt-2">
+            {(['TON', 'USDT'] as Currency[]).map((c) => (
+              <button
+                key={c}
+                type="button"
+                disabled={isEditMode}
+                onClick={() => {
+                  setCurrency(c);
+                  hapticSelection?.();
+                }}
+                className={`flex-1 py-2 rounded-xl text-sm font-medium transition-all duration-200 disabled:opacity-60 ${
+                  currency === c
+                    ? 'bg-accent/20 border-accent text-accent border'
+                    : 'bg-white/5 border border-white/10 text-tg-hint'
+                }`}
+              >
+                {c}
+              </button>
+            ))}
+          </div>
           <p className="text-xs text-tg-hint mt-1">
             {t.modals.createCampaign.budgetHint}
           </p>
@@ -7,6 +7,7 @@ interface PublicCampaign {
   title: string;
   description?: string;
   totalBudget: string;
+  currency?: 'TON' | 'USDT';
   categories: string[];
   targetLanguages: string[];
   briefText?: string;
@@ -51,7 +52,7 @@ export function BriefDetailModal({ isOpen, onClose, campaign, onApply }: BriefDe
         {/* Budget */}
         <div className="p-3 rounded-xl bg-white/5 border border-white/10">
           <p className="text-xs text-tg-hint mb-1 font-medium">{t.campaigns.budget}</p>
-          <p className="text-xl font-bold text-tg-link">{campaign.totalBudget} TON</p>
+          <p className="text-xl font-bold text-tg-link">{campaign.totalBudget} {campaign.currency ?? 'TON'}</p>
         </div>
 
         {/* Brief Text (full, no line-clamp) */}
@@ -101,7 +102,7 @@ export function BriefDetailModal({ isOpen, onClose, campaign, onApply }: BriefDe
         {/* Max budget per deal */}
         {campaign.maxBudgetPerDeal && (
           <div className="text-sm text-tg-text-secondary">
-            {t.briefs.maxBudgetPerDeal}: {campaign.maxBudgetPerDeal} TON
+            {t.briefs.maxBudgetPerDeal}: {campaign.maxBudgetPerDeal} {campaign.currency ?? 'TON'}
           </div>
         )}
 
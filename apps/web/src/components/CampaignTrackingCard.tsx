@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Target, KeyRound, Copy } from 'lucide-react';
+import { api } from '../api/client';
+import { Card, Button } from './ui';
+import { useTelegram } from '../hooks/useTelegram';
+import { useTranslation } from '../i18n';
+
+interface CampaignTracking {
+  utmTemplate?: string;
+  postbackUrl?: string;
+  hasPostbackSecret: boolean;
+}
+
+interface ConversionPerformance {
+  spend: string;
+  conversions: number;
+  revenue: string;
+  cpa?: string;
+  roas?: number;
+}
+
+interface CampaignConversionStats extends ConversionPerformance {
+  currency: string;
+  channels: (ConversionPerformance & { channelId: string; channelTitle: string })[];
+}
+
+interface CampaignTrackingCardProps {
+  campaignId: string;
+}
+
+// Conversions reported by the advertiser's server, with CPA and ROAS per channel
+export function CampaignTrackingCard({ campaignId }: CampaignTrackingCardProps) {
+  const { hapticFeedback, hapticNotification } = useTelegram();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [utmTemplate, setUtmTemplate] = useState('');
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: tracking } = useQuery({
+    queryKey: ['campaign-tracking', campaignId],
+    queryFn: async () => {
+      const response = await api.get<CampaignTracking>(`/campaigns/${campaignId}/tracking`);
+      return response.data;
+    },
+  });
+
+  const { data: stats } = useQuery({
+    queryKey: ['campaign-conversions', campaignId],
+    queryFn: async () => {
+      const response = await api.get<CampaignConversionStats>(`/campaigns/${campaignId}/conversions`);
+      return response.data;
+    },
+  });
+
+  useEffect(() => {
+    setUtmTemplate(tracking?.utmTemplate ?? '');
+  }, [tracking?.utmTemplate]);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      await api.patch(`/campaigns/${campaignId}`, { utmTemplate: utmTemplate.trim() });
+    },
+    onSuccess: () => {
+      hapticNotification?.('success');
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['campaign-tracking', campaignId] });
+    },
+    onError: (err: Error) => {
+      hapticNotification?.('error');
+      setError(err.message);
+    },
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post<{ postbackSecret: string }>(`/campaigns/${campaignId}/tracking/secret`);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      hapticNotification?.('success');
+      setNewSecret(data.postbackSecret);
+      queryClient.invalidateQueries({ queryKey: ['campaign-tracking', campaignId] });
+    },
+    onError: () => hapticNotification?.('error'),
+  });
+
+  const copy = (value: string) => {
+    hapticFeedback?.('light');
+    navigator.clipboard?.writeText(value);
+  };
+
+  const currency = stats?.currency ?? '';
+
+  return (
+    <Card>
+      <div className="flex items-center gap-2 mb-1">
+        <Target size={18} className="text-accent" />
+        <h3 className="font-semibold">{t.campaigns.conversionTracking}</h3>
+      </div>
+      <p className="text-xs text-tg-hint mb-3">{t.campaigns.conversionTrackingHint}</p>
+
+      {/* Performance per channel */}
+      {stats && stats.channels.length > 0 && (
+        <div className="mb-4">
+          <div className="grid grid-cols-3 gap-2 mb-2 text-center">
+            <div className="p-2 rounded-xl bg-white/5">
+              <p className="font-bold">{stats.conversions}</p>
+              <p className="text-xs text-tg-hint">{t.campaigns.conversions}</p>
+            </div>
+            <div className="p-2 rounded-xl bg-white/5">
+              <p className="font-bold">{stats.cpa ? `${parseFloat(stats.cpa).toFixed(2)} ${currency}` : '—'}</p>
+              <p className="text-xs text-tg-hint">{t.campaigns.cpa}</p>
+            </div>
+            <div className="p-2 rounded-xl bg-white/5">
+              <p className="font-bold text-accent">{stats.roas != null ? `${stats.roas}×` : '—'}</p>
+              <p className="text-xs text-tg-hint">{t.campaigns.roas}</p>
+            </div>
+          </div>
+          <div className="space-y-1">
+            {stats.channels.map((channel) => (
+              <div key={channel.channelId} className="flex items-center justify-between gap-3 text-xs">
+                <span className="truncate">{channel.channelTitle}</span>
+                <span className="shrink-0 text-tg-hint">
+                  {channel.conversions} · {t.campaigns.cpa} {channel.cpa ? parseFloat(channel.cpa).toFixed(2) : '—'}
+                  {' · '}{t.campaigns.roas} {channel.roas != null ? `${channel.roas}×` : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* UTM template */}
+      <label className="block text-sm font-medium text-tg-hint mb-2">{t.campaigns.utmTemplate}</label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={utmTemplate}
+          onChange={(e) => setUtmTemplate(e.target.value)}
+          placeholder="utm_source=telegram&utm_content={channel}"
+          maxLength={500}
+          className="flex-1 min-w-0 px-4 py-2 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors text-sm"
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => saveTemplateMutation.mutate()}
+          loading={saveTemplateMutation.isPending}
+          disabled={utmTemplate.trim() === (tracking?.utmTemplate ?? '')}
+        >
+          {t.common.save}
+        </Button>
+      </div>
+      <p className="text-xs text-tg-hint mt-1">{t.campaigns.utmTemplateHint}</p>
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+
+      {/* Postback */}
+      <div className="mt-4">
+        <p className="text-sm font-medium text-tg-hint mb-2">{t.campaigns.postback}</p>
+        {tracking?.postbackUrl && (
+          <button
+            type="button"
+            onClick={() => copy(tracking.postbackUrl!)}
+            className="flex items-center gap-2 w-full p-2 rounded-xl bg-white/5 text-xs font-mono text-left break-all"
+          >
+            <Copy size={14} className="shrink-0 text-tg-hint" />
+            POST {tracking.postbackUrl}
+          </button>
+        )}
+        {newSecret && (
+          <button
+            type="button"
+            onClick={() => copy(newSecret)}
+            className="flex items-center gap-2 w-full p-2 mt-2 rounded-xl bg-accent/10 text-xs font-mono text-left break-all"
+          >
+            <Copy size={14} className="shrink-0 text-accent" />
+            {newSecret}
+          </button>
+        )}
+        <p className="text-xs text-tg-hint mt-1">
+          {newSecret ? t.campaigns.postbackSecretOnce : t.campaigns.postbackHint}
+        </p>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="mt-2"
+          onClick={() => rotateSecretMutation.mutate()}
+          loading={rotateSecretMutation.isPending}
+        >
+          <KeyRound size={14} />
+          {tracking?.hasPostbackSecret ? t.campaigns.rotateSecret : t.campaigns.generateSecret}
+        </Button>
+      </div>
+    </Card>
+  );
+}
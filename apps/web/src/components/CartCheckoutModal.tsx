@@ -0,0 +1,471 @@
+import { useState, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { FileText, Image, Video, File, Megaphone, Calendar, Plus, X, CheckCircle, XCircle } from 'lucide-react';
+import { Modal, Button } from './ui';
+import { api } from '../api/client';
+import { checkoutApi, CheckoutItem, CheckoutResult } from '../api/checkout';
+import { useCartStore, cartItemPrice, CartCurrency } from '../store/cart.store';
+import { useTelegram } from '../hooks/useTelegram';
+import { useTranslation } from '../i18n';
+
+// Multi-slot deals: the API accepts 2 to 10 posts
+const MAX_SLOTS = 10;
+
+const AD_FORMAT_OPTIONS = [
+  { key: '1_24', label: '1/24h' },
+  { key: '2_48', label: '2/48h' },
+  { key: 'no_delete', label: 'No delete' },
+  { key: 'repost', label: 'Repost' },
+] as const;
+
+interface Campaign {
+  id: string;
+  title: string;
+  totalBudget: string;
+  spentBudget: string;
+  currency?: CartCurrency;
+  status: string;
+}
+
+interface CartCheckoutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function CartCheckoutModal({ isOpen, onClose }: CartCheckoutModalProps) {
+  const { items, remove, update, removeMany } = useCartStore();
+  const [selectedCampaign, setSelectedCampaign] = useState('');
+  const [contentType, setContentType] = useState('TEXT');
+  const [contentText, setContentText] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const [trackLinks, setTrackLinks] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CheckoutResult | null>(null);
+
+  // Minimum datetime: 1 hour from now
+  const minScheduleTime = useMemo(() => {
+    const d = new Date();
+    d.setHours(d.getHours() + 1);
+    d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+    return d.toISOString().slice(0, 16);
+  }, []);
+
+  const { hapticNotification, hapticSelection } = useTelegram();
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  const contentTypes = [
+    { id: 'TEXT', label: 'Text', icon: FileText },
+    { id: 'PHOTO', label: 'Photo', icon: Image },
+    { id: 'VIDEO', label: 'Video', icon: Video },
+    { id: 'DOCUMENT', label: 'Document', icon: File },
+  ];
+
+  const { data: campaignsData, isLoading: campaignsLoading } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: async () => {
+      const response = await api.get<{ items: Campaign[] }>('/campaigns');
+      return response.data;
+    },
+    enabled: isOpen,
+  });
+
+  // USDT campaigns only when every channel in the cart accepts USDT
+  const acceptsUsdt = items.every((item) => !!item.pricePerPostUsdt);
+  const activeCampaigns = campaignsData?.items.filter(
+    (c) => (c.status === 'ACTIVE' || c.status === 'DRAFT') && (c.currency !== 'USDT' || acceptsUsdt),
+  ) || [];
+
+  // Every deal is settled in the selected campaign's currency
+  const currency: CartCurrency = activeCampaigns.find((c) => c.id === selectedCampaign)?.currency ?? 'TON';
+  const subtotal = items.reduce((sum, item) => sum + parseFloat(cartItemPrice(item, currency)), 0);
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (checkoutItems: CheckoutItem[]) => {
+      const response = await checkoutApi.checkout({
+        campaignId: selectedCampaign,
+        contentType,
+        contentText: contentText || undefined,
+        promoCode: promoCode.trim() || undefined,
+        ...(trackLinks && { trackLinks }),
+        items: checkoutItems,
+      });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      hapticNotification?.(data.failed > 0 ? 'warning' : 'success');
+      // Channels that could not be bought stay in the cart
+      removeMany(data.items.filter((i) => i.status === 'CREATED').map((i) => i.channelId));
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ['deals'] });
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      queryClient.invalidateQueries({ queryKey: ['campaign', selectedCampaign] });
+    },
+    onError: (err: Error) => {
+      hapticNotification?.('error');
+      setError(err.message);
+    },
+  });
+
+  const handleClose = () => {
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!selectedCampaign) {
+      setError(t.modals.createDeal.errorCampaign);
+      return;
+    }
+
+    if (!contentText.trim()) {
+      setError(t.modals.createDeal.errorContent);
+      return;
+    }
+
+    if (items.some((item) => item.slotTimes.some((time) => !time))) {
+      setError(t.modals.createDeal.errorPostTimes);
+      return;
+    }
+
+    checkoutMutation.mutate(
+      items.map((item) => {
+        const times = item.slotTimes.map((time) => new Date(time).toISOString());
+        return {
+          channelId: item.channelId,
+          amount: cartItemPrice(item, currency),
+          adFormat: item.adFormat || undefined,
+          ...(times.length === 1 && { scheduledPostTime: times[0] }),
+          ...(times.length > 1 && { slots: times.map((time) => ({ scheduledPostTime: time })) }),
+        };
+      }),
+    );
+  };
+
+  if (result) {
+    return (
+      <Modal isOpen={isOpen} onClose={handleClose} title={t.modals.cart.resultsTitle}>
+        <div className="space-y-4">
+          <div className="p-3 rounded-xl bg-white/5 text-sm">
+            <p>
+              {t.modals.cart.resultsSummary
+                .replace('{created}', String(result.created))
+                .replace('{total}', String(result.created + result.failed))}
+            </p>
+            <p className="text-tg-hint mt-1">
+              {t.modals.cart.locked}: {result.totalLocked} {result.currency}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {result.items.map((item) => (
+              <div key={item.channelId} className="flex items-start gap-3 p-3 rounded-xl bg-white/5">
+                {item.status === 'CREATED' ? (
+                  <CheckCircle size={18} className="text-green-400 shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle size={18} className="text-red-400 shrink-0 mt-0.5" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{item.channelTitle ?? item.channelId}</p>
+                  {item.status === 'CREATED' ? (
+                    <p className="text-xs text-tg-hint">
+                      {item.amount} + {item.platformFee} {result.currency}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-red-400">{item.error}</p>
+                  )}
+                </div>
+                {item.dealId && (
+                  <Link to={`/deals/${item.dealId}`} onClick={handleClose} className="text-sm text-accent shrink-0">
+                    {t.modals.cart.openDeal}
+                  </Link>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {result.failed > 0 && (
+            <p className="text-xs text-tg-hint">{t.modals.cart.failedStayInCart}</p>
+          )}
+
+          <Button variant="primary" fullWidth onClick={handleClose}>
+            {t.modals.cart.done}
+          </Button>
+        </div>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={t.modals.cart.title}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {items.length === 0 ? (
+          <p className="text-sm text-tg-hint text-center py-6">{t.modals.cart.empty}</p>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => {
+              const formatPrices = item.formatPrices?.[currency];
+              return (
+                <div key={item.channelId} className="p-3 rounded-xl bg-white/5 space-y-2">
+                  <div className="flex items-center gap-3">
+                    {item.avatarUrl ? (
+                      <img src={item.avatarUrl} alt={item.title} className="w-10 h-10 rounded-xl object-cover" />
+                    ) : (
+                      <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-accent/20 to-accent-light/20 flex items-center justify-center font-bold text-accent">
+                        {item.title[0]}
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium truncate">{item.title}</p>
+                      <p className="text-xs text-accent">
+                        {cartItemPrice(item, currency)} {currency}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => { hapticSelection?.(); remove(item.channelId); }}
+                      className="p-2 rounded-lg text-tg-hint hover:bg-white/10"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+
+                  {/* Ad format - only if the channel has formatPrices in this currency */}
+                  {formatPrices && Object.keys(formatPrices).length > 0 && (
+                    <div className="flex gap-1.5 flex-wrap">
+                      {AD_FORMAT_OPTIONS.filter((opt) => formatPrices[opt.key]).map((opt) => (
+                        <button
+                          key={opt.key}
+                          type="button"
+                          onClick={() => {
+                            hapticSelection?.();
+                            update(item.channelId, { adFormat: item.adFormat === opt.key ? '' : opt.key });
+                          }}
+                          className={`px-2.5 py-1 rounded-lg text-xs transition-all duration-200 ${
+                            item.adFormat === opt.key
+                              ? 'bg-accent/20 border-accent text-accent border'
+                              : 'bg-white/5 border border-white/10 text-tg-hint'
+                          }`}
+                        >
+                          {opt.label} · {formatPrices[opt.key]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Post times: none posts right after approval, two or more split the deal */}
+                  {item.slotTimes.map((time, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Calendar size={14} className="text-tg-hint shrink-0" />
+                      <input
+                        type="datetime-local"
+                        value={time}
+                        onChange={(e) =>
+                          update(item.channelId, {
+                            slotTimes: item.slotTimes.map((value, i) => (i === index ? e.target.value : value)),
+                          })
+                        }
+                        min={minScheduleTime}
+                        className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm focus:border-accent focus:outline-none"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => update(item.channelId, { slotTimes: item.slotTimes.filter((_, i) => i !== index) })}
+                        className="p-1.5 rounded-lg text-tg-hint hover:bg-white/10"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  ))}
+                  {item.slotTimes.length < MAX_SLOTS && (
+                    <button
+                      type="button"
+                      onClick={() => { hapticSelection?.(); update(item.channelId, { slotTimes: [...item.slotTimes, ''] }); }}
+                      className="flex items-center gap-1 text-xs text-accent"
+                    >
+                      <Plus size={12} /> {item.slotTimes.length === 0 ? t.modals.cart.schedulePost : t.modals.createDeal.addPost}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Campaign Selection */}
+        <div>
+          <label className="block text-sm font-medium text-tg-hint mb-2">
+            {t.modals.createDeal.selectCampaign}
+          </label>
+          {campaignsLoading ? (
+            <div className="h-12 skeleton rounded-xl" />
+          ) : activeCampaigns.length === 0 ? (
+            <div className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/20">
+              <div className="flex items-center gap-2 mb-2">
+                <Megaphone size={18} className="text-amber-400" />
+                <p className="text-sm font-medium text-amber-400">{t.modals.createDeal.noCampaigns}</p>
+              </div>
+              <p className="text-xs text-amber-300/80">
+                {t.modals.createDeal.createCampaignFirst}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {activeCampaigns.map((campaign) => {
+                const remaining = parseFloat(campaign.totalBudget) - parseFloat(campaign.spentBudget);
+                const isSelected = selectedCampaign === campaign.id;
+                return (
+                  <button
+                    key={campaign.id}
+                    type="button"
+                    onClick={() => {
+                      hapticSelection?.();
+                      setSelectedCampaign(campaign.id);
+                    }}
+                    className={`w-full p-3 rounded-xl text-left transition-all duration-200 ${
+                      isSelected
+                        ? 'bg-accent/20 border-accent border'
+                        : 'bg-white/5 border border-white/10 hover:bg-white/10'
+                    }`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <p className="font-medium">{campaign.title}</p>
+                      <p className={`text-sm ${remaining < subtotal ? 'text-red-400' : 'text-green-400'}`}>
+                        {remaining.toFixed(2)} {campaign.currency ?? 'TON'} {t.modals.createDeal.left}
+                      </p>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Content Type */}
+        <div>
+          <label className="block text-sm font-medium text-tg-hint mb-2">
+            {t.modals.createDeal.contentType}
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {contentTypes.map((type) => {
+              const Icon = type.icon;
+              const isSelected = contentType === type.id;
+              return (
+                <button
+                  key={type.id}
+                  type="button"
+                  onClick={() => {
+                    hapticSelection?.();
+                    setContentType(type.id);
+                  }}
+                  className={`flex items-center gap-2 p-3 rounded-xl text-sm transition-all duration-200 ${
+                    isSelected
+                      ? 'bg-accent/20 border-accent text-accent border'
+                      : 'bg-white/5 border border-white/10 text-tg-hint'
+                  }`}
+                >
+                  <Icon size={18} />
+                  <span>{type.label}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Ad Content */}
+        <div>
+          <label className="block text-sm font-medium text-tg-hint mb-2">
+            {t.modals.createDeal.adContent} <span className="text-red-400">*</span>
+          </label>
+          <textarea
+            value={contentText}
+            onChange={(e) => setContentText(e.target.value)}
+            placeholder={t.modals.createDeal.adContentPlaceholder}
+            rows={4}
+            className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors resize-none"
+          />
+          <p className="text-xs text-tg-hint mt-1">{t.modals.cart.sameContent}</p>
+        </div>
+
+        {/* Click tracking */}
+        <button
+          type="button"
+          onClick={() => {
+            hapticSelection?.();
+            setTrackLinks(!trackLinks);
+          }}
+          className={`flex items-center justify-between w-full px-4 py-3 rounded-xl border transition-all duration-200 ${
+            trackLinks
+              ? 'bg-accent/10 border-accent/30'
+              : 'bg-white/5 border-white/10'
+          }`}
+        >
+          <div className="text-left">
+            <span className={`font-medium ${trackLinks ? 'text-accent' : 'text-tg-hint'}`}>
+              {t.modals.createDeal.trackLinks}
+            </span>
+            <p className="text-xs text-tg-hint mt-0.5">{t.modals.createDeal.trackLinksHint}</p>
+          </div>
+          <div className={`w-12 h-6 shrink-0 rounded-full transition-all duration-200 relative ${
+            trackLinks ? 'bg-accent' : 'bg-white/20'
+          }`}>
+            <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-all duration-200 ${
+              trackLinks ? 'left-7' : 'left-1'
+            }`} />
+          </div>
+        </button>
+
+        {/* Promo Code */}
+        <div>
+          <label className="block text-sm font-medium text-tg-hint mb-2">
+            {t.modals.createDeal.promoCode}
+          </label>
+          <input
+            type="text"
+            value={promoCode}
+            onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+            placeholder={t.modals.createDeal.promoCodePlaceholder}
+            maxLength={32}
+            className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors uppercase"
+          />
+        </div>
+
+        {/* Summary */}
+        <div className="p-3 rounded-xl bg-white/5 space-y-1 text-sm">
+          <div className="flex justify-between font-medium">
+            <span className="text-tg-hint">
+              {t.modals.cart.subtotal.replace('{count}', String(items.length))}
+            </span>
+            <span>{subtotal.toFixed(2)} {currency}</span>
+          </div>
+          <p className="text-xs text-tg-hint">{t.modals.cart.lockHint}</p>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Submit */}
+        <Button
+          type="submit"
+          variant="primary"
+          fullWidth
+          loading={checkoutMutation.isPending}
+          disabled={
+            checkoutMutation.isPending || items.length === 0 || !selectedCampaign || activeCampaigns.length === 0 || !contentText.trim()
+          }
+        >
+          {t.modals.cart.checkout.replace('{count}', String(items.length))}
+        </Button>
+      </form>
+    </Modal>
+  );
+}
@@ -3,8 +3,9 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Modal, Button } from './ui';
 import { api } from '../api/client';
 import { useTelegram } from '../hooks/useTelegram';
-import { FileText, Image, Video, File, Megaphone, Calendar } from 'lucide-react';
+import { FileText, Image, Video, File, Megaphone, Calendar, Clock, Eye, Plus, X, Repeat } from 'lucide-react';
 import { useTranslation } from '../i18n';
+import { feesApi } from '../api/fees';
 
 interface Channel {
   id: string;
@@ -12,9 +13,28 @@ interface Channel {
   username?: string;
   avatarUrl?: string;
   pricePerPost: string;
-  formatPrices?: Record<string, string>;
+  pricePerPostUsdt?: string;
+  formatPrices?: Partial<Record<Currency, Record<string, string>>>;
 }
 
+type Currency = 'TON' | 'USDT';
+
+// Multi-slot deals: the API accepts 2 to 10 posts
+const MIN_SLOTS = 2;
+const MAX_SLOTS = 10;
+
+type ViewsShortfallPolicy = 'RELEASE' | 'PRO_RATA' | 'DISPUTE';
+const VIEWS_SHORTFALL_POLICIES: ViewsShortfallPolicy[] = ['PRO_RATA', 'DISPUTE', 'RELEASE'];
+
+// Recurring series: days between posts and the API's 2 to 52 posts
+const REPEAT_INTERVAL_OPTIONS = [7, 14, 30] as const;
+const MIN_REPEAT_COUNT = 2;
+const MAX_REPEAT_COUNT = 52;
+
+// Content deadline overrides in hours; the API accepts 1 to 168
+const SUBMISSION_HOURS_OPTIONS = [6, 12, 48, 72] as const;
+const APPROVAL_HOURS_OPTIONS = [3, 6, 24, 48] as const;
+
 const AD_FORMAT_OPTIONS = [
   { key: '1_24', label: '1/24h' },
   { key: '2_48', label: '2/48h' },
@@ -27,6 +47,7 @@ interface Campaign {
   title: string;
   totalBudget: string;
   spentBudget: string;
+  currency?: Currency;
   status: string;
 }
 
@@ -43,6 +64,19 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
   const [contentType, setContentType] = useState('TEXT');
   const [contentText, setContentText] = useState('');
   const [scheduledPostTime, setScheduledPostTime] = useState('');
+  // Post times of a multi-slot deal; empty for a single post
+  const [slotTimes, setSlotTimes] = useState<string[]>([]);
+  const [onChainEscrow, setOnChainEscrow] = useState(false);
+  const [promoCode, setPromoCode] = useState('');
+  const [minViewsRequired, setMinViewsRequired] = useState('');
+  const [viewsShortfallPolicy, setViewsShortfallPolicy] = useState<ViewsShortfallPolicy>('PRO_RATA');
+  // Empty: platform default content deadlines
+  const [trackLinks, setTrackLinks] = useState(false);
+  const [repeatDays, setRepeatDays] = useState('');
+  const [repeatCount, setRepeatCount] = useState('4');
+  const [contentSubmissionHours, setContentSubmissionHours] = useState('');
+  const [contentApprovalHours, setContentApprovalHours] = useState('');
+  const [debouncedFeeInput, setDebouncedFeeInput] = useState({ amount: '', promoCode: '' });
   const [error, setError] = useState<string | null>(null);
 
   // Minimum datetime: 1 hour from now
@@ -64,51 +98,111 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
     { id: 'DOCUMENT', label: 'Document', icon: File },
   ];
 
+  // Fetch user's campaigns
+  const { data: campaignsData, isLoading: campaignsLoading } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: async () => {
+      const response = await api.get<{ items: Campaign[] }>('/campaigns');
+      return response.data;
+    },
+    enabled: isOpen,
+  });
+
+  // Only campaigns in a currency the channel accepts
+  const activeCampaigns = campaignsData?.items.filter(
+    (c) => (c.status === 'ACTIVE' || c.status === 'DRAFT') && (c.currency !== 'USDT' || !!channel?.pricePerPostUsdt),
+  ) || [];
+
+  // The deal is settled in the selected campaign's currency
+  const currency: Currency = activeCampaigns.find((c) => c.id === selectedCampaign)?.currency ?? 'TON';
+  const basePrice = (currency === 'USDT' ? channel?.pricePerPostUsdt : channel?.pricePerPost) ?? '';
+  const formatPrices = channel?.formatPrices?.[currency];
+  const hasFormatPrices = !!formatPrices && Object.keys(formatPrices).length > 0;
+
   // Set default amount from channel price
   useEffect(() => {
-    if (channel?.pricePerPost) {
-      setAmount(channel.pricePerPost);
-    }
     setAdFormat('');
   }, [channel]);
 
-  // When adFormat changes, update amount from formatPrices
+  // When adFormat or currency changes, update amount from formatPrices
   useEffect(() => {
-    if (adFormat && channel?.formatPrices?.[adFormat]) {
-      setAmount(channel.formatPrices[adFormat]);
-    } else if (!adFormat && channel?.pricePerPost) {
-      setAmount(channel.pricePerPost);
+    if (adFormat && formatPrices?.[adFormat]) {
+      setAmount(formatPrices[adFormat]);
+    } else {
+      setAmount(basePrice);
     }
-  }, [adFormat, channel]);
+  }, [adFormat, basePrice, formatPrices]);
 
-  // Fetch user's campaigns
-  const { data: campaignsData, isLoading: campaignsLoading } = useQuery({
-    queryKey: ['campaigns'],
+  // Debounce fee preview input
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedFeeInput({ amount, promoCode: promoCode.trim() });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [amount, promoCode]);
+
+  const { data: feePreview } = useQuery({
+    queryKey: ['feePreview', 'deal', channel?.id, debouncedFeeInput.amount, debouncedFeeInput.promoCode],
     queryFn: async () => {
-      const response = await api.get<{ items: Campaign[] }>('/campaigns');
+      const response = await feesApi.preview({
+        channelId: channel!.id,
+        amount: debouncedFeeInput.amount,
+        promoCode: debouncedFeeInput.promoCode || undefined,
+      });
       return response.data;
     },
-    enabled: isOpen,
+    enabled: isOpen && !!channel && parseFloat(debouncedFeeInput.amount) > 0,
   });
 
-  const activeCampaigns = campaignsData?.items.filter(c => c.status === 'ACTIVE' || c.status === 'DRAFT') || [];
+  const isMultiSlot = slotTimes.length > 0;
+  const isRecurring = repeatDays !== '' && !isMultiSlot;
 
   const createMutation = useMutation({
     mutationFn: async () => {
+      // A recurring series posts the same content every period
+      if (isRecurring) {
+        const response = await api.post('/recurring-deals', {
+          campaignId: selectedCampaign,
+          channelId: channel?.id,
+          amount,
+          adFormat: adFormat || undefined,
+          contentType,
+          contentText,
+          ...(trackLinks && { trackLinks }),
+          firstPostTime: new Date(scheduledPostTime).toISOString(),
+          intervalDays: Number(repeatDays),
+          occurrences: Number(repeatCount),
+        });
+        return response.data;
+      }
+
       const response = await api.post('/deals', {
         campaignId: selectedCampaign,
         channelId: channel?.id,
         amount,
         contentType,
         contentText: contentText || undefined,
-        scheduledPostTime: scheduledPostTime ? new Date(scheduledPostTime).toISOString() : undefined,
+        scheduledPostTime: scheduledPostTime && !isMultiSlot ? new Date(scheduledPostTime).toISOString() : undefined,
         adFormat: adFormat || undefined,
+        ...(isMultiSlot && {
+          slots: slotTimes.map((time) => ({ scheduledPostTime: new Date(time).toISOString() })),
+        }),
+        ...(onChainEscrow && currency === 'TON' && !isMultiSlot && { escrowMode: 'CONTRACT' }),
+        promoCode: promoCode.trim() || undefined,
+        ...(parseInt(minViewsRequired) > 0 && {
+          minViewsRequired: parseInt(minViewsRequired),
+          viewsShortfallPolicy,
+        }),
+        ...(trackLinks && { trackLinks }),
+        contentSubmissionHours: contentSubmissionHours ? Number(contentSubmissionHours) : undefined,
+        contentApprovalHours: contentApprovalHours ? Number(contentApprovalHours) : undefined,
       });
       return response.data;
     },
     onSuccess: () => {
       hapticNotification?.('success');
       queryClient.invalidateQueries({ queryKey: ['deals'] });
+      queryClient.invalidateQueries({ queryKey: ['recurring-deals'] });
       queryClient.invalidateQueries({ queryKey: ['campaigns'] });
       queryClient.invalidateQueries({ queryKey: ['campaign', selectedCampaign] });
       onClose();
@@ -127,6 +221,15 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
     setContentType('TEXT');
     setContentText('');
     setScheduledPostTime('');
+    setSlotTimes([]);
+    setOnChainEscrow(false);
+    setPromoCode('');
+    setMinViewsRequired('');
+    setViewsShortfallPolicy('PRO_RATA');
+    setContentSubmissionHours('');
+    setContentApprovalHours('');
+    setRepeatDays('');
+    setRepeatCount('4');
     setError(null);
   };
 
@@ -149,6 +252,16 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
       return;
     }
 
+    if (slotTimes.some((time) => !time)) {
+      setError(t.modals.createDeal.errorPostTimes);
+      return;
+    }
+
+    if (isRecurring && !scheduledPostTime) {
+      setError(t.modals.createDeal.errorFirstPostTime);
+      return;
+    }
+
     createMutation.mutate();
   };
 
@@ -178,24 +291,22 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
           </div>
           <div className="ml-auto text-right">
             <p className="font-bold text-accent">
-              {channel.formatPrices && Object.keys(channel.formatPrices).length > 0
-                ? `${channel.pricePerPost}+`
-                : channel.pricePerPost}
+              {hasFormatPrices ? `${basePrice}+` : basePrice}
             </p>
-            <p className="text-xs text-tg-hint">TON/post</p>
+            <p className="text-xs text-tg-hint">{currency}/post</p>
           </div>
         </div>
 
-        {/* Ad Format Selection - only if channel has formatPrices */}
-        {channel.formatPrices && Object.keys(channel.formatPrices).length > 0 && (
+        {/* Ad Format Selection - only if channel has formatPrices in this currency */}
+        {hasFormatPrices && (
           <div>
             <label className="block text-sm font-medium text-tg-hint mb-2">
               {t.modals.createDeal.selectFormat}
             </label>
             <div className="grid grid-cols-2 gap-2">
-              {AD_FORMAT_OPTIONS.filter((opt) => channel.formatPrices?.[opt.key]).map((opt) => {
+              {AD_FORMAT_OPTIONS.filter((opt) => formatPrices?.[opt.key]).map((opt) => {
                 const isSelected = adFormat === opt.key;
-                const price = channel.formatPrices![opt.key];
+                const price = formatPrices![opt.key];
                 return (
                   <button
                     key={opt.key}
@@ -212,7 +323,7 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
                   >
                     <p className="text-sm font-medium">{opt.label}</p>
                     <p className={`text-xs mt-1 ${isSelected ? 'text-accent' : 'text-tg-hint'}`}>
-                      {price} TON
+                      {price} {currency}
                     </p>
                   </button>
                 );
@@ -260,7 +371,7 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
                     <div className="flex justify-between items-center">
                       <p className="font-medium">{campaign.title}</p>
                       <p className={`text-sm ${remaining < parseFloat(amount || '0') ? 'text-red-400' : 'text-green-400'}`}>
-                        {remaining.toFixed(2)} TON {t.modals.createDeal.left}
+                        {remaining.toFixed(2)} {campaign.currency ?? 'TON'} {t.modals.createDeal.left}
                       </p>
                     </div>
                   </button>
@@ -281,11 +392,11 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
             min="0"
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
-            placeholder={channel.pricePerPost}
+            placeholder={basePrice}
             className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
           />
           <p className="text-xs text-tg-hint mt-1">
-            {t.modals.createDeal.channelPrice}: {channel.pricePerPost} TON
+            {t.modals.createDeal.channelPrice}: {basePrice} {currency}
           </p>
         </div>
 
@@ -338,22 +449,302 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
         </div>
 
         {/* Schedule Post Time */}
-        <div>
-          <label className="block text-sm font-medium text-tg-hint mb-2">
-            <Calendar size={14} className="inline mr-1" />
-            {t.modals.createDeal.schedulePost}
-          </label>
-          <input
-            type="datetime-local"
-            value={scheduledPostTime}
-            onChange={(e) => setScheduledPostTime(e.target.value)}
-            min={minScheduleTime}
-            className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
-          />
-          <p className="text-xs text-tg-hint mt-1">
-            {scheduledPostTime ? t.modals.createDeal.schedulePostHint : t.modals.createDeal.postImmediately}
-          </p>
-        </div>
+        {isMultiSlot ? (
+          <div>
+            <label className="block text-sm font-medium text-tg-hint mb-2">
+              <Calendar size={14} className="inline mr-1" />
+              {t.modals.createDeal.posts}
+            </label>
+            <div className="space-y-2">
+              {slotTimes.map((time, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-14 shrink-0 text-xs text-tg-hint">
+                    {t.modals.createDeal.postNumber.replace('{n}', String(index + 1))}
+                  </span>
+                  <input
+                    type="datetime-local"
+                    value={time}
+                    onChange={(e) => setSlotTimes(slotTimes.map((value, i) => (i === index ? e.target.value : value)))}
+                    min={minScheduleTime}
+                    className="flex-1 min-w-0 px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      hapticSelection?.();
+                      // Below two posts the deal goes back to a single post
+                      setSlotTimes(slotTimes.length > MIN_SLOTS ? slotTimes.filter((_, i) => i !== index) : []);
+                    }}
+                    className="p-2 rounded-lg text-tg-hint hover:bg-white/10"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {slotTimes.length < MAX_SLOTS && (
+              <button
+                type="button"
+                onClick={() => { hapticSelection?.(); setSlotTimes([...slotTimes, '']); }}
+                className="flex items-center gap-1 mt-2 text-sm text-accent"
+              >
+                <Plus size={14} /> {t.modals.createDeal.addPost}
+              </button>
+            )}
+            <p className="text-xs text-tg-hint mt-1">
+              {t.modals.createDeal.multiPostHint.replace('{count}', String(slotTimes.length))}
+            </p>
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-tg-hint mb-2">
+              <Calendar size={14} className="inline mr-1" />
+              {t.modals.createDeal.schedulePost}
+            </label>
+            <input
+              type="datetime-local"
+              value={scheduledPostTime}
+              onChange={(e) => setScheduledPostTime(e.target.value)}
+              min={minScheduleTime}
+              className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
+            />
+            <p className="text-xs text-tg-hint mt-1">
+              {scheduledPostTime ? t.modals.createDeal.schedulePostHint : t.modals.createDeal.postImmediately}
+            </p>
+            {!isRecurring && (
+              <button
+                type="button"
+                onClick={() => {
+                  hapticSelection?.();
+                  setSlotTimes([scheduledPostTime, ...Array(MIN_SLOTS - 1).fill('')]);
+                  setOnChainEscrow(false);
+                }}
+                className="flex items-center gap-1 mt-2 text-sm text-accent"
+              >
+                <Plus size={14} /> {t.modals.createDeal.splitIntoPosts}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Recurring series (single post per period) */}
+        {!isMultiSlot && (
+          <div>
+            <label className="block text-sm font-medium text-tg-hint mb-2">
+              <Repeat size={14} className="inline mr-1" />
+              {t.modals.createDeal.repeat}
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={repeatDays}
+                onChange={(e) => {
+                  setRepeatDays(e.target.value);
+                  // Series are priced without promo codes
+                  if (e.target.value) setPromoCode('');
+                }}
+                className="w-full px-3 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors text-sm"
+              >
+                <option value="">{t.modals.createDeal.repeatOnce}</option>
+                {REPEAT_INTERVAL_OPTIONS.map((days) => (
+                  <option key={days} value={days}>{t.modals.createDeal.repeatEvery.replace('{days}', String(days))}</option>
+                ))}
+              </select>
+              {isRecurring && (
+                <input
+                  type="number"
+                  min={MIN_REPEAT_COUNT}
+                  max={MAX_REPEAT_COUNT}
+                  step="1"
+                  value={repeatCount}
+                  onChange={(e) => setRepeatCount(e.target.value)}
+                  aria-label={t.modals.createDeal.repeatCount}
+                  className="w-full px-3 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors text-sm"
+                />
+              )}
+            </div>
+            {isRecurring && <p className="text-xs text-tg-hint mt-1">{t.modals.createDeal.repeatHint}</p>}
+          </div>
+        )}
+
+        {/* Content deadlines */}
+        {!isRecurring && (
+          <div>
+            <label className="block text-sm font-medium text-tg-hint mb-2">
+              <Clock size={14} className="inline mr-1" />
+              {t.modals.createDeal.contentDeadlines}
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={contentSubmissionHours}
+                onChange={(e) => setContentSubmissionHours(e.target.value)}
+                className="w-full px-3 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors text-sm"
+              >
+                <option value="">{t.modals.createDeal.submissionDeadline}: 24h</option>
+                {SUBMISSION_HOURS_OPTIONS.map((h) => (
+                  <option key={h} value={h}>{t.modals.createDeal.submissionDeadline}: {h}h</option>
+                ))}
+              </select>
+              <select
+                value={contentApprovalHours}
+                onChange={(e) => setContentApprovalHours(e.target.value)}
+                className="w-full px-3 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors text-sm"
+              >
+                <option value="">{t.modals.createDeal.reviewDeadline}: 12h</option>
+                {APPROVAL_HOURS_OPTIONS.map((h) => (
+                  <option key={h} value={h}>{t.modals.createDeal.reviewDeadline}: {h}h</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-tg-hint mt-1">{t.modals.createDeal.contentDeadlinesHint}</p>
+          </div>
+        )}
+
+        {/* On-chain escrow (TON only, single post) */}
+        {currency === 'TON' && !isMultiSlot && !isRecurring && (
+          <button
+            type="button"
+            onClick={() => {
+              hapticSelection?.();
+              if (!onChainEscrow && viewsShortfallPolicy === 'PRO_RATA') setViewsShortfallPolicy('DISPUTE');
+              setOnChainEscrow(!onChainEscrow);
+            }}
+            className={`flex items-center justify-between w-full px-4 py-3 rounded-xl border transition-all duration-200 ${
+              onChainEscrow
+                ? 'bg-accent/10 border-accent/30'
+                : 'bg-white/5 border-white/10'
+            }`}
+          >
+            <div className="text-left">
+              <span className={`font-medium ${onChainEscrow ? 'text-accent' : 'text-tg-hint'}`}>
+                {t.modals.createDeal.onChainEscrow}
+              </span>
+              <p className="text-xs text-tg-hint mt-0.5">{t.modals.createDeal.onChainEscrowHint}</p>
+            </div>
+            <div className={`w-12 h-6 shrink-0 rounded-full transition-all duration-200 relative ${
+              onChainEscrow ? 'bg-accent' : 'bg-white/20'
+            }`}>
+              <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-all duration-200 ${
+                onChainEscrow ? 'left-7' : 'left-1'
+              }`} />
+            </div>
+          </button>
+        )}
+
+        {/* Click tracking */}
+        <button
+          type="button"
+          onClick={() => {
+            hapticSelection?.();
+            setTrackLinks(!trackLinks);
+          }}
+          className={`flex items-center justify-between w-full px-4 py-3 rounded-xl border transition-all duration-200 ${
+            trackLinks
+              ? 'bg-accent/10 border-accent/30'
+              : 'bg-white/5 border-white/10'
+          }`}
+        >
+          <div className="text-left">
+            <span className={`font-medium ${trackLinks ? 'text-accent' : 'text-tg-hint'}`}>
+              {t.modals.createDeal.trackLinks}
+            </span>
+            <p className="text-xs text-tg-hint mt-0.5">{t.modals.createDeal.trackLinksHint}</p>
+          </div>
+          <div className={`w-12 h-6 shrink-0 rounded-full transition-all duration-200 relative ${
+            trackLinks ? 'bg-accent' : 'bg-white/20'
+          }`}>
+            <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-all duration-200 ${
+              trackLinks ? 'left-7' : 'left-1'
+            }`} />
+          </div>
+        </button>
+
+        {/* Views guarantee */}
+        {!isRecurring && (
+          <div>
+            <label className="block text-sm font-medium text-tg-hint mb-2">
+              <Eye size={14} className="inline mr-1" />
+              {t.modals.createDeal.minViews}
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={minViewsRequired}
+              onChange={(e) => setMinViewsRequired(e.target.value)}
+              placeholder={t.modals.createDeal.minViewsPlaceholder}
+              className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
+            />
+            {parseInt(minViewsRequired) > 0 && (
+              <>
+                <div className="grid grid-cols-3 gap-2 mt-2">
+                  {VIEWS_SHORTFALL_POLICIES.map((policy) => {
+                    // A contract pays out all or nothing
+                    const unavailable = policy === 'PRO_RATA' && onChainEscrow && currency === 'TON' && !isMultiSlot;
+                    return (
+                      <button
+                        key={policy}
+                        type="button"
+                        disabled={unavailable}
+                        onClick={() => { hapticSelection?.(); setViewsShortfallPolicy(policy); }}
+                        className={`py-2 rounded-lg text-xs transition-all duration-200 disabled:opacity-40 ${
+                          viewsShortfallPolicy === policy
+                            ? 'bg-accent/20 border-accent text-accent border'
+                            : 'bg-white/5 border border-white/10 text-tg-hint'
+                        }`}
+                      >
+                        {t.modals.createDeal.viewsPolicies[policy]}
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-tg-hint mt-1">{t.modals.createDeal.viewsPolicyHints[viewsShortfallPolicy]}</p>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Promo Code */}
+        {!isRecurring && (
+          <div>
+            <label className="block text-sm font-medium text-tg-hint mb-2">
+              {t.modals.createDeal.promoCode}
+            </label>
+            <input
+              type="text"
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+              placeholder={t.modals.createDeal.promoCodePlaceholder}
+              maxLength={32}
+              className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors uppercase"
+            />
+            {feePreview?.promoCodeError && (
+              <p className="text-xs text-red-400 mt-1">{feePreview.promoCodeError}</p>
+            )}
+            {feePreview?.breakdown.promoCode && (
+              <p className="text-xs text-green-400 mt-1">
+                {t.modals.createDeal.promoApplied
+                  .replace('{code}', feePreview.breakdown.promoCode)
+                  .replace('{percent}', String(feePreview.breakdown.promoDiscountPercent))}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Fee Summary */}
+        {feePreview && (
+          <div className="p-3 rounded-xl bg-white/5 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-tg-hint">
+                {t.modals.createDeal.platformFee} ({feePreview.breakdown.feePercent}%)
+              </span>
+              <span>{feePreview.platformFee} {currency}</span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span className="text-tg-hint">{t.modals.createDeal.total}</span>
+              <span>{feePreview.total} {currency}</span>
+            </div>
+          </div>
+        )}
 
         {/* Error */}
         {error && (
@@ -370,7 +761,11 @@ export function CreateDealModal({ isOpen, onClose, channel }: CreateDealModalPro
           loading={createMutation.isPending}
           disabled={createMutation.isPending || !selectedCampaign || activeCampaigns.length === 0 || !contentText.trim()}
         >
-          {t.modals.createDeal.createFor} {amount || '0'} TON
+          {isRecurring
+            ? t.modals.createDeal.createSeriesFor
+                .replace('{count}', repeatCount || '0')
+                .replace('{amount}', `${amount || '0'} ${currency}`)
+            : `${t.modals.createDeal.createFor} ${amount || '0'} ${currency}`}
         </Button>
       </form>
     </Modal>
@@ -1,9 +1,9 @@
 import { useState, useEffect } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Modal, Button } from './ui';
 import { api } from '../api/client';
 import { useTelegram } from '../hooks/useTelegram';
-import { Settings, FileText, Image, Video, Share2, Check, PenLine } from 'lucide-react';
+import { Settings, FileText, Image, Video, Share2, Check, PenLine, TrendingUp } from 'lucide-react';
 import { useTranslation } from '../i18n';
 
 interface EditAdConditionsModalProps {
@@ -19,6 +19,24 @@ interface EditAdConditionsModalProps {
   };
 }
 
+interface FormatPricing {
+  format: string;
+  price?: string;
+  cpm?: string;
+  peerCount: number;
+  benchmarkCpm?: string;
+  recommendedMin?: string;
+  recommendedPrice?: string;
+  recommendedMax?: string;
+}
+
+interface ChannelPricing {
+  avgViews: number;
+  benchmark?: 'categories' | 'language' | 'size';
+  peerCount: number;
+  formats: FormatPricing[];
+}
+
 const formatOptions = [
   { value: 'TEXT', icon: FileText },
   { value: 'PHOTO', icon: Image },
@@ -85,6 +103,15 @@ export function EditAdConditionsModal({
     }
   }, [isOpen, currentConditions]);
 
+  const { data: pricing } = useQuery({
+    queryKey: ['channel-pricing', channelId],
+    queryFn: async () => {
+      const response = await api.get<ChannelPricing>(`/channels/${channelId}/pricing`);
+      return response.data;
+    },
+    enabled: isOpen,
+  });
+
   // Get effective duration value
   const effectiveDuration = isCustomDuration ? `${customHours}H` : postDuration;
 
@@ -197,6 +224,15 @@ export function EditAdConditionsModal({
               TON
             </span>
           </div>
+          {pricing && (
+            <PriceRecommendations
+              pricing={pricing}
+              onUse={(price) => {
+                hapticSelection?.();
+                setPricePerPost(price);
+              }}
+            />
+          )}
         </div>
 
         {/* Ad Formats */}
@@ -387,3 +423,72 @@ export function EditAdConditionsModal({
     </Modal>
   );
 }
+
+interface PriceRecommendationsProps {
+  pricing: ChannelPricing;
+  // Sets the price per post to the recommendation for the basic 1/24h post
+  onUse: (price: string) => void;
+}
+
+// CPM of the channel per ad format against similar channels, with the recommended price range
+function PriceRecommendations({ pricing, onUse }: PriceRecommendationsProps) {
+  const { t } = useTranslation();
+
+  const formatLabels: Record<string, string> = {
+    '1_24': t.channels.format1_24,
+    '2_48': t.channels.format2_48,
+    'no_delete': t.channels.formatNoDelete,
+    'repost': t.channels.formatRepost,
+  };
+
+  const recommended = pricing.formats.filter((f) => f.recommendedPrice !== undefined);
+
+  return (
+    <div className="mt-3 p-3 rounded-xl bg-white/5">
+      <p className="text-sm font-medium flex items-center gap-2 mb-1">
+        <TrendingUp size={16} className="text-accent" />
+        {t.channels.recommendedPrices}
+      </p>
+      {recommended.length === 0 ? (
+        <p className="text-xs text-tg-hint">
+          {pricing.avgViews > 0 ? t.channels.pricingNotEnoughPeers : t.channels.pricingNoViews}
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-tg-hint mb-2">
+            {pricing.benchmark && t.channels.pricingBenchmark[pricing.benchmark].replace('{count}', pricing.peerCount.toString())}
+          </p>
+          <div className="space-y-2">
+            {recommended.map((f) => (
+              <div key={f.format} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">{formatLabels[f.format] || f.format}</span>
+                  <p className="text-xs text-tg-hint">
+                    {f.cpm !== undefined
+                      ? `${t.channels.yourCpm} ${Number(f.cpm).toFixed(3)} · `
+                      : ''}
+                    {t.channels.medianCpm} {Number(f.benchmarkCpm).toFixed(3)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className="font-semibold text-accent">
+                    {f.recommendedMin}–{f.recommendedMax} TON
+                  </span>
+                  {f.format === '1_24' && f.recommendedPrice && (
+                    <button
+                      type="button"
+                      onClick={() => onUse(f.recommendedPrice as string)}
+                      className="px-2 py-1 rounded-lg text-xs font-medium bg-accent/20 text-accent"
+                    >
+                      {t.channels.useRecommended} {f.recommendedPrice}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -12,7 +12,7 @@ import {
   Wallet,
 } from 'lucide-react';
 import { Modal, Button } from '../ui';
-import { useDeposit } from '../../hooks/useDeposit';
+import { useDeposit, DepositCurrency } from '../../hooks/useDeposit';
 import { useWalletStore } from '../../store/wallet.store';
 import { useTelegram } from '../../hooks/useTelegram';
 import { useTranslation } from '../../i18n';
@@ -23,12 +23,14 @@ interface DepositModalProps {
 }
 
 const QUICK_AMOUNTS = ['1', '5', '10', '50', '100'];
+const CURRENCIES: DepositCurrency[] = ['TON', 'USDT'];
 
 export function DepositModal({ isOpen, onClose }: DepositModalProps) {
   const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState<DepositCurrency>('TON');
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [tonConnectUI] = useTonConnectUI();
-  const { createDeposit, sendViaTonConnect, depositInfo, error, reset } = useDeposit();
+  const { createDeposit, sendViaTonConnect, depositInfo, receivedAmount, error, reset } = useDeposit();
   const { depositStatus } = useWalletStore();
   const { hapticFeedback, hapticNotification } = useTelegram();
   const { t } = useTranslation();
@@ -40,10 +42,10 @@ export function DepositModal({ isOpen, onClose }: DepositModalProps) {
     hapticFeedback?.('medium');
 
     try {
-      const deposit = await createDeposit(amount);
+      const deposit = await createDeposit(amount, currency);
 
-      // Try TonConnect auto-send if wallet is connected
-      if (isWalletConnected && deposit) {
+      // Try TonConnect auto-send if wallet is connected (TON only)
+      if (isWalletConnected && deposit && currency === 'TON') {
         await sendViaTonConnect(deposit);
       }
     } catch {
@@ -51,15 +53,21 @@ export function DepositModal({ isOpen, onClose }: DepositModalProps) {
     }
   };
 
+  // Left to pay after a partial payment
+  const remainingAmount = depositInfo && receivedAmount
+    ? String(Math.max(parseFloat((Number(depositInfo.amount) - Number(receivedAmount)).toFixed(9)), 0))
+    : null;
+
   const handleTonConnectSend = async () => {
     if (!depositInfo) return;
     hapticFeedback?.('medium');
-    await sendViaTonConnect(depositInfo);
+    await sendViaTonConnect(remainingAmount ? { ...depositInfo, amount: remainingAmount } : depositInfo);
   };
 
   const handleClose = () => {
     reset();
     setAmount('');
+    setCurrency('TON');
     setCopiedField(null);
     onClose();
   };
@@ -104,7 +112,7 @@ export function DepositModal({ isOpen, onClose }: DepositModalProps) {
                 {t.wallet.depositCompleted}
               </h3>
               <p className="text-sm text-tg-text-secondary mb-4">
-                {amount} TON {t.wallet.credited}
+                {receivedAmount ?? amount} {currency} {t.wallet.credited}
               </p>
               <Button variant="primary" fullWidth onClick={handleClose}>
                 {t.wallet.done}
@@ -137,11 +145,25 @@ export function DepositModal({ isOpen, onClose }: DepositModalProps) {
       return (
         <div className="space-y-4">
           <div className="text-center mb-2">
-            <p className="text-2xl font-bold text-tg-text">{depositInfo.amount} TON</p>
+            <p className="text-2xl font-bold text-tg-text">{depositInfo.amount} {depositInfo.currency}</p>
           </div>
 
+          {depositInfo.currency === 'USDT' && (
+            <p className="text-xs text-tg-text-secondary text-center">{t.wallet.usdtDepositHint}</p>
+          )}
+
+          {receivedAmount && remainingAmount && (
+            <p className="text-sm text-tg-text bg-tg-warning/10 rounded-tg p-3">
+              {t.wallet.depositPartial
+                .replace('{received}', receivedAmount)
+                .replace('{amount}', depositInfo.amount)
+                .replace('{remaining}', remainingAmount)
+                .replace(/\{currency\}/g, depositInfo.currency)}
+            </p>
+          )}
+
           {/* Quick pay button if wallet connected */}
-          {isWalletConnected && (
+          {isWalletConnected && depositInfo.currency === 'TON' && (
             <Button variant="primary" fullWidth onClick={handleTonConnectSend}>
               <Wallet size={18} />
               {t.wallet.payNow}
@@ -202,6 +224,30 @@ export function DepositModal({ isOpen, onClose }: DepositModalProps) {
     // Amount input screen
     return (
       <div className="space-y-4">
+        <div>
+          <label className="text-sm font-medium text-tg-text-secondary mb-2 block">
+            {t.wallet.currency}
+          </label>
+          <div className="flex gap-2">
+            {CURRENCIES.map((c) => (
+              <button
+                key={c}
+                onClick={() => {
+                  setCurrency(c);
+                  hapticFeedback?.('light');
+                }}
+                className={`flex-1 py-2 rounded-tg text-sm font-medium transition-colors ${
+                  currency === c
+                    ? 'bg-tg-link text-white'
+                    : 'bg-tg-bg-secondary text-tg-text-secondary hover:text-tg-text'
+                }`}
+              >
+                {c}
+              </button>
+            ))}
+          </div>
+        </div>
+
         <div>
           <label className="text-sm font-medium text-tg-text-secondary mb-2 block">
             {t.wallet.depositAmount}
@@ -217,7 +263,7 @@ export function DepositModal({ isOpen, onClose }: DepositModalProps) {
               step="0.1"
             />
             <span className="absolute right-4 top-1/2 -translate-y-1/2 text-tg-text-secondary font-medium">
-              TON
+              {currency}
             </span>
           </div>
         </div>
@@ -238,14 +284,14 @@ export function DepositModal({ isOpen, onClose }: DepositModalProps) {
                   : 'bg-tg-bg-secondary text-tg-text-secondary hover:text-tg-text'
               }`}
             >
-              {qa} TON
+              {qa} {currency}
             </motion.button>
           ))}
         </div>
 
         {/* Min deposit info */}
         <p className="text-xs text-tg-text-secondary">
-          {t.wallet.minDeposit}: 1 TON
+          {t.wallet.minDeposit}: 1 {currency}
         </p>
 
         {error && (
@@ -7,6 +7,9 @@ import {
   XCircle,
   Clock,
   AlertTriangle,
+  MessageCircle,
+  ShieldCheck,
+  Ban,
 } from 'lucide-react';
 import { Modal, Button } from '../ui';
 import { useWithdraw } from '../../hooks/useWithdraw';
@@ -14,30 +17,42 @@ import { useWalletStore } from '../../store/wallet.store';
 import { useTelegram } from '../../hooks/useTelegram';
 import { useTranslation } from '../../i18n';
 
+type Currency = 'TON' | 'USDT';
+
 interface WithdrawModalProps {
   isOpen: boolean;
   onClose: () => void;
   balance: string;
+  usdtBalance?: string;
 }
 
+const CURRENCIES: Currency[] = ['TON', 'USDT'];
 const NETWORK_FEE = '0.05'; // Estimated network fee in TON
+// USDT network fees are paid by the platform in TON
+const WITHDRAW_RULES: Record<Currency, { min: number; fee: number }> = {
+  TON: { min: 0.5, fee: parseFloat(NETWORK_FEE) },
+  USDT: { min: 1, fee: 0 },
+};
 
-export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps) {
+export function WithdrawModal({ isOpen, onClose, balance: tonBalance, usdtBalance = '0' }: WithdrawModalProps) {
   const [amount, setAmount] = useState('');
-  const { createWithdrawal, error, reset } = useWithdraw();
+  const [currency, setCurrency] = useState<Currency>('TON');
+  const { createWithdrawal, cancelWithdrawal, error, reset } = useWithdraw();
   const { withdrawStatus, walletAddress } = useWalletStore();
   const { hapticFeedback, hapticNotification } = useTelegram();
   const { t } = useTranslation();
 
+  const balance = currency === 'USDT' ? usdtBalance : tonBalance;
+  const rules = WITHDRAW_RULES[currency];
   const numBalance = parseFloat(balance) || 0;
   const numAmount = parseFloat(amount) || 0;
-  const maxWithdraw = Math.max(0, numBalance - parseFloat(NETWORK_FEE));
+  const maxWithdraw = Math.max(0, numBalance - rules.fee);
 
   const validationError = (() => {
     if (!amount) return null;
-    if (numAmount < 0.5) return t.wallet.minWithdraw + ': 0.5 TON';
+    if (numAmount < rules.min) return `${t.wallet.minWithdraw}: ${rules.min} ${currency}`;
     if (numAmount > numBalance) return t.wallet.insufficientBalance;
-    if (numAmount + parseFloat(NETWORK_FEE) > numBalance) return t.wallet.insufficientForFee;
+    if (numAmount + rules.fee > numBalance) return t.wallet.insufficientForFee;
     return null;
   })();
 
@@ -46,7 +61,7 @@ export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps)
     hapticFeedback?.('medium');
 
     try {
-      await createWithdrawal(amount);
+      await createWithdrawal(amount, currency);
       hapticNotification?.('success');
     } catch {
       hapticNotification?.('error');
@@ -56,6 +71,7 @@ export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps)
   const handleClose = () => {
     reset();
     setAmount('');
+    setCurrency('TON');
     onClose();
   };
 
@@ -66,8 +82,59 @@ export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps)
     }
   };
 
+  const handleCancelWithdrawal = async () => {
+    hapticFeedback?.('medium');
+    await cancelWithdrawal();
+  };
+
   const renderContent = () => {
     // Status screens
+    if (withdrawStatus === 'awaiting_confirmation' || withdrawStatus === 'awaiting_review') {
+      const awaitingReview = withdrawStatus === 'awaiting_review';
+      return (
+        <div className="text-center py-6">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-tg-link/10 flex items-center justify-center">
+            {awaitingReview
+              ? <ShieldCheck size={32} className="text-tg-link" />
+              : <MessageCircle size={32} className="text-tg-link" />}
+          </div>
+          <h3 className="text-lg font-semibold text-tg-text mb-2">
+            {awaitingReview ? t.wallet.withdrawReviewTitle : t.wallet.withdrawConfirmTitle}
+          </h3>
+          <p className="text-sm text-tg-text-secondary mb-4">
+            {awaitingReview ? t.wallet.withdrawReviewHint : t.wallet.withdrawConfirmHint}
+          </p>
+          {error && (
+            <p className="text-sm text-tg-error bg-tg-error/10 rounded-tg p-3 mb-4">
+              {error}
+            </p>
+          )}
+          <Button variant="secondary" fullWidth onClick={handleCancelWithdrawal}>
+            {t.wallet.cancelWithdrawal}
+          </Button>
+        </div>
+      );
+    }
+
+    if (withdrawStatus === 'cancelled') {
+      return (
+        <div className="text-center py-6">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-tg-bg-secondary flex items-center justify-center">
+            <Ban size={32} className="text-tg-text-secondary" />
+          </div>
+          <h3 className="text-lg font-semibold text-tg-text mb-2">
+            {t.wallet.withdrawCancelled}
+          </h3>
+          <p className="text-sm text-tg-text-secondary mb-4">
+            {t.wallet.withdrawCancelledHint}
+          </p>
+          <Button variant="primary" fullWidth onClick={handleClose}>
+            {t.wallet.done}
+          </Button>
+        </div>
+      );
+    }
+
     if (withdrawStatus === 'pending' || withdrawStatus === 'processing') {
       return (
         <div className="text-center py-6">
@@ -99,7 +166,7 @@ export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps)
             {t.wallet.withdrawCompleted}
           </h3>
           <p className="text-sm text-tg-text-secondary mb-4">
-            {amount} TON {t.wallet.sentToWallet}
+            {amount} {currency} {t.wallet.sentToWallet}
           </p>
           <Button variant="primary" fullWidth onClick={handleClose}>
             {t.wallet.done}
@@ -140,10 +207,31 @@ export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps)
           </div>
         )}
 
+        {/* Currency */}
+        <div className="flex gap-2">
+          {CURRENCIES.map((c) => (
+            <button
+              key={c}
+              onClick={() => {
+                setCurrency(c);
+                setAmount('');
+                hapticFeedback?.('light');
+              }}
+              className={`flex-1 py-2 rounded-tg text-sm font-medium transition-colors ${
+                currency === c
+                  ? 'bg-tg-link text-white'
+                  : 'bg-tg-bg-secondary text-tg-text-secondary hover:text-tg-text'
+              }`}
+            >
+              {c}
+            </button>
+          ))}
+        </div>
+
         {/* Balance */}
         <div className="flex items-center justify-between p-3 rounded-tg bg-tg-bg-secondary">
           <span className="text-sm text-tg-text-secondary">{t.wallet.availableBalance}</span>
-          <span className="text-sm font-semibold text-tg-text">{balance} TON</span>
+          <span className="text-sm font-semibold text-tg-text">{balance} {currency}</span>
         </div>
 
         {/* Amount input */}
@@ -158,7 +246,7 @@ export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps)
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               className="tg-input text-lg pr-24"
-              min="0.5"
+              min={rules.min}
               step="0.1"
             />
             <button
@@ -171,10 +259,12 @@ export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps)
         </div>
 
         {/* Fee info */}
-        <div className="flex items-center gap-2 text-xs text-tg-text-secondary">
-          <AlertTriangle size={12} />
-          <span>{t.wallet.networkFee}: ~{NETWORK_FEE} TON</span>
-        </div>
+        {rules.fee > 0 && (
+          <div className="flex items-center gap-2 text-xs text-tg-text-secondary">
+            <AlertTriangle size={12} />
+            <span>{t.wallet.networkFee}: ~{NETWORK_FEE} TON</span>
+          </div>
+        )}
 
         {/* Validation error */}
         {validationError && (
@@ -197,7 +287,7 @@ export function WithdrawModal({ isOpen, onClose, balance }: WithdrawModalProps)
           onClick={handleWithdraw}
         >
           <ArrowUpFromLine size={18} />
-          {t.wallet.withdrawButton} {amount ? `${amount} TON` : ''}
+          {t.wallet.withdrawButton} {amount ? `${amount} ${currency}` : ''}
         </Button>
       </div>
     );
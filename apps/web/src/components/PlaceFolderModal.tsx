@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { Modal, Button } from './ui';
 import { api } from '../api/client';
@@ -6,6 +6,7 @@ import { useTelegram } from '../hooks/useTelegram';
 import { Folder, AlertCircle } from 'lucide-react';
 import { useTranslation } from '../i18n';
 import { folderPlacementsApi } from '../api/folderPlacements';
+import { feesApi } from '../api/fees';
 
 interface PlaceFolderModalProps {
   isOpen: boolean;
@@ -24,8 +25,6 @@ interface FolderOption {
   categories: string[];
 }
 
-const PLATFORM_FEE_PERCENT = 5;
-
 export function PlaceFolderModal({
   isOpen,
   onClose,
@@ -58,17 +57,18 @@ export function PlaceFolderModal({
   const selectedFolder = folders.find(f => f.id === selectedFolderId);
   const price = selectedFolder?.pricePerChannel || '0';
 
-  const { amount, platformFee, total } = useMemo(() => {
-    const priceNum = parseFloat(price);
-    const fee = (priceNum * PLATFORM_FEE_PERCENT) / 100;
-    const totalCost = priceNum + fee;
+  const { data: feePreview } = useQuery({
+    queryKey: ['feePreview', 'placement', selectedFolderId, channelId],
+    queryFn: async () => {
+      const response = await feesApi.preview({ channelId, folderId: selectedFolderId });
+      return response.data;
+    },
+    enabled: isOpen && !!selectedFolderId,
+  });
 
-    return {
-      amount: priceNum.toFixed(2),
-      platformFee: fee.toFixed(2),
-      total: totalCost.toFixed(2),
-    };
-  }, [price]);
+  const amount = parseFloat(feePreview?.amount ?? price).toFixed(2);
+  const platformFee = feePreview ? parseFloat(feePreview.platformFee).toFixed(2) : '—';
+  const total = parseFloat(feePreview?.total ?? price).toFixed(2);
 
   const hasEnoughBalance = parseFloat(userBalance) >= parseFloat(total);
 
@@ -228,7 +228,7 @@ export function PlaceFolderModal({
 
               <div className="flex items-center justify-between text-sm">
                 <span className="text-[var(--tg-theme-hint-color)]">
-                  {t.folders.placementFee} ({PLATFORM_FEE_PERCENT}%)
+                  {t.folders.placementFee}{feePreview && ` (${feePreview.breakdown.feePercent}%)`}
                 </span>
                 <span className="text-[var(--tg-theme-text-color)] font-medium">
                   {platformFee} TON
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Repeat, Pause, Play, X, Check } from 'lucide-react';
+import { api } from '../api/client';
+import { Card, Button, Badge, StaggerContainer, StaggerItem } from './ui';
+import { useTelegram } from '../hooks/useTelegram';
+import { useTranslation } from '../i18n';
+
+type RecurringDealStatus = 'PENDING' | 'ACTIVE' | 'PAUSED' | 'CANCELLED' | 'COMPLETED';
+type Role = 'advertiser' | 'channel_owner';
+
+interface RecurringDeal {
+  id: string;
+  status: RecurringDealStatus;
+  currency: string;
+  amount: string;
+  intervalDays: number;
+  occurrences: number;
+  createdCount: number;
+  nextPostTime?: string;
+  pausedReason?: string;
+  pausedBy?: Role;
+  channelTitle?: string;
+  campaignTitle?: string;
+}
+
+const statusVariants: Record<RecurringDealStatus, 'default' | 'primary' | 'success' | 'warning' | 'error'> = {
+  PENDING: 'warning',
+  ACTIVE: 'success',
+  PAUSED: 'warning',
+  CANCELLED: 'default',
+  COMPLETED: 'primary',
+};
+
+interface RecurringDealsSectionProps {
+  role: Role;
+}
+
+// Recurring series of the user on one side; hidden while there are none
+export function RecurringDealsSection({ role }: RecurringDealsSectionProps) {
+  const { hapticNotification, showConfirm } = useTelegram();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: series } = useQuery({
+    queryKey: ['recurring-deals', role],
+    queryFn: async () => {
+      const response = await api.get<RecurringDeal[]>(`/recurring-deals?role=${role}`);
+      return response.data;
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'approve' | 'reject' | 'pause' | 'resume' | 'cancel' }) =>
+      api.post(`/recurring-deals/${id}/${action}`, {}),
+    onSuccess: () => {
+      hapticNotification?.('success');
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['recurring-deals'] });
+    },
+    onError: (err: Error) => {
+      hapticNotification?.('error');
+      const msg = err.message || '';
+      setError(
+        msg.startsWith('BOT_NOT_ADMIN:')
+          ? t.dealDetails.botNotAdminMessage.replace('{bot}', msg.split(':')[1] || 'bot')
+          : msg,
+      );
+    },
+  });
+
+  const cancelSeries = async (id: string) => {
+    if (await showConfirm(t.deals.confirmCancelSeries)) {
+      actionMutation.mutate({ id, action: 'cancel' });
+    }
+  };
+
+  if (!series || series.length === 0) return null;
+
+  const isPending = (id: string) => actionMutation.isPending && actionMutation.variables?.id === id;
+
+  return (
+    <div className="mb-4">
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-tg-text-secondary mb-2">
+        <Repeat size={16} />
+        {t.deals.recurring}
+      </h2>
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+      <StaggerContainer className="space-y-3">
+        {series.map((s) => {
+          const canResume = s.status === 'PAUSED' && (!s.pausedBy || s.pausedBy === role);
+          const canCancel = s.status === 'ACTIVE' || s.status === 'PAUSED' || (s.status === 'PENDING' && role === 'advertiser');
+          return (
+            <StaggerItem key={s.id}>
+              <Card>
+                <div className="flex justify-between items-start gap-3 mb-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{s.channelTitle}</p>
+                    {s.campaignTitle && <p className="text-xs text-tg-text-secondary truncate">{s.campaignTitle}</p>}
+                  </div>
+                  <Badge variant={statusVariants[s.status]} size="sm">
+                    {t.deals.recurringStatuses[s.status]}
+                  </Badge>
+                </div>
+                <p className="text-sm">
+                  <span className="font-bold text-tg-link">{s.amount} {s.currency}</span>{' '}
+                  <span className="text-tg-text-secondary">{t.deals.recurringPerPost}</span>
+                </p>
+                <p className="text-xs text-tg-text-secondary mt-1">
+                  {t.deals.recurringSchedule
+                    .replace('{days}', String(s.intervalDays))
+                    .replace('{created}', String(s.createdCount))
+                    .replace('{total}', String(s.occurrences))}
+                </p>
+                {s.nextPostTime && (s.status === 'ACTIVE' || s.status === 'PENDING') && (
+                  <p className="text-xs text-tg-text-secondary mt-1">
+                    {t.deals.recurringNextPost}: {new Date(s.nextPostTime).toLocaleString()}
+                  </p>
+                )}
+                {s.status === 'PAUSED' && s.pausedReason && (
+                  <p className="text-xs text-tg-warning mt-1">{s.pausedReason}</p>
+                )}
+
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {s.status === 'PENDING' && role === 'channel_owner' && (
+                    <>
+                      <Button
+                        size="sm"
+                        onClick={() => actionMutation.mutate({ id: s.id, action: 'approve' })}
+                        loading={isPending(s.id) && actionMutation.variables?.action === 'approve'}
+                        disabled={isPending(s.id)}
+                      >
+                        <Check size={14} /> {t.deals.approveSeries}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => actionMutation.mutate({ id: s.id, action: 'reject' })}
+                        disabled={isPending(s.id)}
+                      >
+                        {t.deals.rejectSeries}
+                      </Button>
+                    </>
+                  )}
+                  {s.status === 'ACTIVE' && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => actionMutation.mutate({ id: s.id, action: 'pause' })}
+                      disabled={isPending(s.id)}
+                    >
+                      <Pause size={14} /> {t.deals.pauseSeries}
+                    </Button>
+                  )}
+                  {canResume && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => actionMutation.mutate({ id: s.id, action: 'resume' })}
+                      disabled={isPending(s.id)}
+                    >
+                      <Play size={14} /> {t.deals.resumeSeries}
+                    </Button>
+                  )}
+                  {canCancel && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => cancelSeries(s.id)}
+                      disabled={isPending(s.id)}
+                    >
+                      <X size={14} /> {t.deals.cancelSeries}
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            </StaggerItem>
+          );
+        })}
+      </StaggerContainer>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { Modal, Button } from './ui';
 import { api } from '../api/client';
@@ -6,6 +6,7 @@ import { useTelegram } from '../hooks/useTelegram';
 import { Folder, AlertCircle, Users, CheckCircle } from 'lucide-react';
 import { useTranslation } from '../i18n';
 import { folderPlacementsApi } from '../api/folderPlacements';
+import { feesApi } from '../api/fees';
 
 interface RequestPlacementModalProps {
   isOpen: boolean;
@@ -25,8 +26,6 @@ interface UserChannel {
   status: string;
 }
 
-const PLATFORM_FEE_PERCENT = 5;
-
 export function RequestPlacementModal({
   isOpen,
   onClose,
@@ -79,17 +78,20 @@ export function RequestPlacementModal({
 
   const availableChannels = channels.filter(c => getChannelStatus(c.id) === 'available');
 
-  const { amount, platformFee, total } = useMemo(() => {
-    const priceNum = parseFloat(folderPrice);
-    const fee = (priceNum * PLATFORM_FEE_PERCENT) / 100;
-    const totalCost = priceNum + fee;
+  // The fee depends on the owner, so any of their channels gives the same preview
+  const previewChannelId = selectedChannelId || availableChannels[0]?.id;
+  const { data: feePreview } = useQuery({
+    queryKey: ['feePreview', 'placement', folderId, previewChannelId],
+    queryFn: async () => {
+      const response = await feesApi.preview({ channelId: previewChannelId!, folderId });
+      return response.data;
+    },
+    enabled: isOpen && !!previewChannelId,
+  });
 
-    return {
-      amount: priceNum.toFixed(2),
-      platformFee: fee.toFixed(2),
-      total: totalCost.toFixed(2),
-    };
-  }, [folderPrice]);
+  const amount = parseFloat(folderPrice).toFixed(2);
+  const platformFee = feePreview ? parseFloat(feePreview.platformFee).toFixed(2) : '—';
+  const total = parseFloat(feePreview?.total ?? folderPrice).toFixed(2);
 
   const hasEnoughBalance = parseFloat(userBalance) >= parseFloat(total);
 
@@ -266,7 +268,7 @@ export function RequestPlacementModal({
 
               <div className="flex items-center justify-between text-sm">
                 <span className="text-[var(--tg-theme-hint-color)]">
-                  {t.folders.placementFee} ({PLATFORM_FEE_PERCENT}%)
+                  {t.folders.placementFee}{feePreview && ` (${feePreview.breakdown.feePercent}%)`}
                 </span>
                 <span className="text-[var(--tg-theme-text-color)] font-medium">
                   {platformFee} TON
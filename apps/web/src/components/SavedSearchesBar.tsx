@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Bookmark, Bell, BellOff, X, Plus } from 'lucide-react';
+import { api } from '../api/client';
+import { Button } from './ui';
+import { useTelegram } from '../hooks/useTelegram';
+import { useTranslation } from '../i18n';
+
+export interface SavedSearchFilters {
+  search?: string;
+  sortBy?: string;
+  categories?: string[];
+  minSubscribers?: number;
+  maxSubscribers?: number;
+  minPrice?: string;
+  maxPrice?: string;
+  minCpm?: string;
+  maxCpm?: string;
+  language?: string;
+}
+
+interface SavedSearch {
+  id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alertsEnabled: boolean;
+}
+
+interface SavedSearchesBarProps {
+  // Filters currently applied on the page, saved as a new search
+  filters: SavedSearchFilters;
+  canSave: boolean;
+  onApply: (filters: SavedSearchFilters) => void;
+  // Saved search to apply once loaded (?savedSearch= link from a digest)
+  applyId?: string | null;
+  onApplied?: () => void;
+}
+
+// Saved catalogue searches: tap to apply, bell toggles the daily digest
+export function SavedSearchesBar({ filters, canSave, onApply, applyId, onApplied }: SavedSearchesBarProps) {
+  const { hapticNotification, hapticSelection, showConfirm } = useTelegram();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: searches } = useQuery({
+    queryKey: ['saved-searches'],
+    queryFn: async () => {
+      const response = await api.get<SavedSearch[]>('/saved-searches');
+      return response.data;
+    },
+  });
+
+  useEffect(() => {
+    const search = applyId ? searches?.find((s) => s.id === applyId) : undefined;
+    if (search) {
+      onApply(search.filters);
+      onApplied?.();
+    }
+  }, [applyId, searches]);
+
+  const onSuccess = () => {
+    hapticNotification?.('success');
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+  };
+  const onError = (err: Error) => {
+    hapticNotification?.('error');
+    setError(err.message);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.post('/saved-searches', { name: name.trim(), filters }),
+    onSuccess: () => {
+      onSuccess();
+      setNaming(false);
+      setName('');
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (search: SavedSearch) =>
+      api.patch(`/saved-searches/${search.id}`, { alertsEnabled: !search.alertsEnabled }),
+    onSuccess,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/saved-searches/${id}`),
+    onSuccess,
+    onError,
+  });
+
+  const deleteSearch = async (search: SavedSearch) => {
+    if (await showConfirm(t.savedSearches.confirmDelete.replace('{name}', search.name))) {
+      deleteMutation.mutate(search.id);
+    }
+  };
+
+  if (!searches?.length && !canSave) return null;
+
+  return (
+    <div className="mb-3">
+      <div className="flex gap-2 overflow-x-auto hide-scrollbar">
+        {searches?.map((search) => (
+          <div
+            key={search.id}
+            className="flex-shrink-0 flex items-center gap-1 pl-3 pr-1 py-1 rounded-tg bg-tg-bg-secondary text-sm"
+          >
+            <button
+              onClick={() => {
+                hapticSelection?.();
+                onApply(search.filters);
+              }}
+              className="flex items-center gap-1.5 font-medium text-tg-text whitespace-nowrap"
+            >
+              <Bookmark size={14} className="text-tg-link" />
+              {search.name}
+            </button>
+            <button
+              onClick={() => toggleMutation.mutate(search)}
+              disabled={toggleMutation.isPending}
+              className="p-1.5 text-tg-text-secondary"
+              aria-label={search.alertsEnabled ? t.savedSearches.alertsOn : t.savedSearches.alertsOff}
+            >
+              {search.alertsEnabled ? <Bell size={14} className="text-tg-link" /> : <BellOff size={14} />}
+            </button>
+            <button
+              onClick={() => deleteSearch(search)}
+              disabled={deleteMutation.isPending}
+              className="p-1.5 text-tg-text-secondary"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        {canSave && !naming && (
+          <button
+            onClick={() => {
+              hapticSelection?.();
+              setNaming(true);
+            }}
+            className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-tg text-sm font-medium text-tg-link bg-tg-link/10 whitespace-nowrap"
+          >
+            <Plus size={14} />
+            {t.savedSearches.save}
+          </button>
+        )}
+      </div>
+
+      {naming && (
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t.savedSearches.namePlaceholder}
+            maxLength={100}
+            autoFocus
+            className="flex-1 min-w-0 px-3 py-2 rounded-tg bg-tg-bg-secondary border border-tg-separator text-tg-text text-sm focus:outline-none focus:border-tg-link"
+          />
+          <Button
+            size="sm"
+            onClick={() => createMutation.mutate()}
+            loading={createMutation.isPending}
+            disabled={!name.trim()}
+          >
+            {t.common.save}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setNaming(false)}>
+            <X size={14} />
+          </Button>
+        </div>
+      )}
+      {naming && <p className="text-xs text-tg-text-secondary mt-1">{t.savedSearches.alertsHint}</p>}
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+}
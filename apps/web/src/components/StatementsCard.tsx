@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileText, Download, Loader2 } from 'lucide-react';
+import { statementsApi, Statement, StatementFormat } from '../api/statements';
+import { useTelegram } from '../hooks/useTelegram';
+import { useTranslation } from '../i18n';
+
+// Completed months a statement can be requested for, newest first
+function completedMonths(count: number): string[] {
+  const now = new Date();
+  return Array.from({ length: count }, (_, i) =>
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1 - i, 1)).toISOString().slice(0, 7),
+  );
+}
+
+export function StatementsCard() {
+  const { hapticFeedback, hapticNotification } = useTelegram();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const months = completedMonths(12);
+  const [month, setMonth] = useState(months[0] ?? '');
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const { data: statements, isLoading } = useQuery({
+    queryKey: ['statements'],
+    queryFn: async () => {
+      const response = await statementsApi.list();
+      return response.data;
+    },
+    // Poll while the workers are generating a statement
+    refetchInterval: (query) =>
+      query.state.data?.some((s) => s.status === 'PENDING') ? 5000 : false,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      await statementsApi.request(month);
+    },
+    onSuccess: () => {
+      hapticNotification?.('success');
+      queryClient.invalidateQueries({ queryKey: ['statements'] });
+    },
+    onError: () => hapticNotification?.('error'),
+  });
+
+  const handleDownload = async (statement: Statement, format: StatementFormat) => {
+    hapticFeedback?.('light');
+    setDownloadError(null);
+    try {
+      await statementsApi.download(statement, format);
+    } catch (error) {
+      setDownloadError(error instanceof Error ? error.message : t.profile.downloadFailed);
+    }
+  };
+
+  return (
+    <div className="tg-card">
+      <div className="flex items-center gap-2 mb-1">
+        <FileText size={16} className="text-tg-link" />
+        <h2 className="font-semibold text-tg-text">{t.profile.statements}</h2>
+      </div>
+      <p className="text-xs text-tg-text-secondary mb-3">{t.profile.statementsDescription}</p>
+
+      <div className="flex gap-2 mb-3">
+        <select
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          className="flex-1 px-3 py-2 rounded-tg text-sm font-medium bg-tg-bg-secondary text-tg-text border-none focus:outline-none appearance-none cursor-pointer"
+        >
+          {months.map((m) => (
+            <option key={m} value={m}>{m}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => requestMutation.mutate()}
+          disabled={requestMutation.isPending || !month}
+          className="px-4 py-2 rounded-tg text-sm font-medium bg-tg-link text-white disabled:opacity-50"
+        >
+          {t.profile.generateStatement}
+        </button>
+      </div>
+
+      {downloadError && (
+        <p className="text-xs text-tg-error mb-2">{downloadError}</p>
+      )}
+
+      {isLoading ? (
+        <div className="h-12 skeleton rounded-tg" />
+      ) : !statements?.length ? (
+        <p className="text-sm text-tg-text-secondary text-center py-3">{t.profile.noStatements}</p>
+      ) : (
+        <div className="space-y-2">
+          {statements.map((statement) => (
+            <div
+              key={statement.id}
+              className="flex items-center justify-between p-2.5 rounded-tg bg-tg-bg-secondary"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-tg-text">{statement.period}</p>
+                {statement.status === 'READY' ? (
+                  <p className="text-xs text-tg-text-secondary truncate">
+                    {statement.summary?.currencies
+                      .map((c) => `${c.closingBalance} ${c.currency}`)
+                      .join(' · ')}
+                  </p>
+                ) : statement.status === 'PENDING' ? (
+                  <p className="flex items-center gap-1 text-xs text-tg-text-secondary">
+                    <Loader2 size={12} className="animate-spin" /> {t.profile.statementPending}
+                  </p>
+                ) : (
+                  <p className="text-xs text-tg-error">{t.profile.statementFailed}</p>
+                )}
+              </div>
+              {statement.status === 'READY' && (
+                <div className="flex gap-1 flex-shrink-0">
+                  {(['pdf', 'csv'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleDownload(statement, format)}
+                      className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-tg-link/10 text-tg-link"
+                    >
+                      <Download size={12} /> {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
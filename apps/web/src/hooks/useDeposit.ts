@@ -8,25 +8,31 @@ import { useWalletStore } from '../store/wallet.store';
 const DEPOSIT_WALLET_ADDRESS = import.meta.env.VITE_DEPOSIT_WALLET_ADDRESS ?? '';
 const POLL_INTERVAL = 5000; // 5 seconds
 
+export type DepositCurrency = 'TON' | 'USDT';
+
 interface DepositCreateResponse {
   address: string;
   memo: string;
   amount: string;
+  currency: DepositCurrency;
   expiresAt: string;
   depositAddressId: string;
 }
 
 interface DepositStatusResponse {
-  status: 'pending' | 'confirming' | 'completed' | 'expired' | 'failed';
+  status: 'pending' | 'confirming' | 'partial' | 'completed' | 'expired' | 'failed';
   txHash?: string;
   amount?: string;
+  receivedAmount?: string;
 }
 
 /**
  * Hook for handling the deposit flow:
  * 1. POST /escrow/deposit → get depositId, address, memo
  * 2. Either send via TonConnect OR show address+memo for manual transfer
- * 3. Poll status until completed
+ *    (USDT is always sent manually: the memo goes into the jetton transfer comment)
+ * 3. Poll status until completed. A partial payment is credited right away
+ *    and the same memo stays open for the rest.
  */
 export function useDeposit() {
   const [tonConnectUI] = useTonConnectUI();
@@ -34,8 +40,10 @@ export function useDeposit() {
   const { setDepositStatus } = useWalletStore();
   const [error, setError] = useState<string | null>(null);
   const [depositInfo, setDepositInfo] = useState<DepositCreateResponse | null>(null);
+  const [receivedAmount, setReceivedAmount] = useState<string | null>(null);
   const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const abortRef = useRef(false);
+  const receivedRef = useRef<string | null>(null);
 
   const stopPolling = useCallback(() => {
     if (pollRef.current) {
@@ -68,7 +76,21 @@ export function useDeposit() {
           );
           const { status } = response.data;
 
-          if (status === 'completed') {
+          if (status === 'partial' && response.data.receivedAmount) {
+            const received = response.data.receivedAmount;
+            if (receivedRef.current !== received) {
+              receivedRef.current = received;
+              setReceivedAmount(received);
+              queryClient.invalidateQueries({ queryKey: ['balance'] });
+              queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            }
+            // Back to the payment screen for the remaining amount
+            setDepositStatus('awaiting_tx', depositAddressId);
+          } else if (status === 'completed') {
+            // Credited amount, which may differ from the requested one
+            if (response.data.receivedAmount && Number(response.data.receivedAmount) > 0) {
+              setReceivedAmount(response.data.receivedAmount);
+            }
             setDepositStatus('completed', depositAddressId);
             stopPolling();
             queryClient.invalidateQueries({ queryKey: ['balance'] });
@@ -90,13 +112,14 @@ export function useDeposit() {
    * Does NOT send the transaction yet.
    */
   const createDeposit = useCallback(
-    async (amountTon: string) => {
+    async (amount: string, currency: DepositCurrency = 'TON') => {
       setError(null);
       abortRef.current = false;
 
       try {
         const response = await api.post<DepositCreateResponse>('/escrow/deposit', {
-          amount: amountTon,
+          amount,
+          currency,
         });
         const deposit = response.data;
         // Ensure address is set (fallback to env var)
@@ -161,6 +184,8 @@ export function useDeposit() {
   const reset = useCallback(() => {
     setError(null);
     setDepositInfo(null);
+    setReceivedAmount(null);
+    receivedRef.current = null;
     setDepositStatus('idle');
     stopPolling();
     abortRef.current = true;
@@ -170,6 +195,7 @@ export function useDeposit() {
     createDeposit,
     sendViaTonConnect,
     depositInfo,
+    receivedAmount,
     error,
     reset,
   };
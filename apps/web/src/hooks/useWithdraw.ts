@@ -9,10 +9,20 @@ interface WithdrawalCreateResponse {
   transactionId: string;
   status: string;
   estimatedTime: string;
+  confirmationExpiresAt: string;
+  reviewRequired: boolean;
 }
 
 interface WithdrawalStatusResponse {
-  status: 'pending' | 'processing' | 'sent' | 'completed' | 'failed';
+  status:
+    | 'awaiting_confirmation'
+    | 'awaiting_review'
+    | 'pending'
+    | 'processing'
+    | 'sent'
+    | 'completed'
+    | 'failed'
+    | 'cancelled';
   txHash?: string;
   failReason?: string;
 }
@@ -20,7 +30,8 @@ interface WithdrawalStatusResponse {
 /**
  * Hook for handling the withdrawal flow:
  * 1. POST /escrow/withdrawal/create → create withdrawal
- * 2. Poll status until completed or failed
+ * 2. User confirms it in the bot chat (large amounts then wait for review)
+ * 3. Poll status until completed, failed or cancelled
  */
 export function useWithdraw() {
   const queryClient = useQueryClient();
@@ -65,11 +76,14 @@ export function useWithdraw() {
             stopPolling();
             queryClient.invalidateQueries({ queryKey: ['balance'] });
             queryClient.invalidateQueries({ queryKey: ['transactions'] });
-          } else if (status === 'failed') {
-            setWithdrawStatus('failed', transactionId);
+          } else if (status === 'failed' || status === 'cancelled') {
+            setWithdrawStatus(status, transactionId);
             stopPolling();
             queryClient.invalidateQueries({ queryKey: ['balance'] });
-          } else if (status === 'processing') {
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+          } else if (status === 'awaiting_review') {
+            setWithdrawStatus('awaiting_review', transactionId);
+          } else if (status === 'pending' || status === 'processing') {
             setWithdrawStatus('processing', transactionId);
           }
         } catch {
@@ -81,7 +95,7 @@ export function useWithdraw() {
   );
 
   const createWithdrawal = useCallback(
-    async (amountTon: string) => {
+    async (amount: string, currency: 'TON' | 'USDT' = 'TON') => {
       setError(null);
       setWithdrawStatus('pending');
       abortRef.current = false;
@@ -89,11 +103,13 @@ export function useWithdraw() {
       try {
         const response = await api.post<WithdrawalCreateResponse>(
           '/escrow/withdrawal/create',
-          { amount: amountTon },
+          { amount, currency },
         );
         const withdrawal = response.data;
         setWithdrawalInfo(withdrawal);
-        setWithdrawStatus('pending', withdrawal.transactionId);
+        setWithdrawStatus('awaiting_confirmation', withdrawal.transactionId);
+        // Funds are debited until the withdrawal is sent or cancelled
+        queryClient.invalidateQueries({ queryKey: ['balance'] });
 
         // Start polling
         pollStatus(withdrawal.transactionId);
@@ -106,9 +122,24 @@ export function useWithdraw() {
         throw e;
       }
     },
-    [setWithdrawStatus, pollStatus],
+    [setWithdrawStatus, pollStatus, queryClient],
   );
 
+  const cancelWithdrawal = useCallback(async () => {
+    if (!withdrawalInfo) return;
+    setError(null);
+
+    try {
+      await api.post(`/escrow/withdrawal/${withdrawalInfo.transactionId}/cancel`);
+      stopPolling();
+      setWithdrawStatus('cancelled', withdrawalInfo.transactionId);
+      queryClient.invalidateQueries({ queryKey: ['balance'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to cancel withdrawal');
+    }
+  }, [withdrawalInfo, stopPolling, setWithdrawStatus, queryClient]);
+
   const reset = useCallback(() => {
     setError(null);
     setWithdrawalInfo(null);
@@ -119,6 +150,7 @@ export function useWithdraw() {
 
   return {
     createWithdrawal,
+    cancelWithdrawal,
     withdrawalInfo,
     error,
     reset,
@@ -66,6 +66,20 @@ export const en = {
     role: 'Role',
     browsePublish: 'Browse & publish',
     manageAds: 'Manage ads',
+    referrals: 'Referral Program',
+    referralDescription: 'Earn {percent}% of the platform fee on deals of users you invite',
+    referralLink: 'Your referral link',
+    copied: 'Copied',
+    referred: 'Invited',
+    activeReferred: 'Earning',
+    referralEarnings: 'Earned',
+    statements: 'Statements',
+    statementsDescription: 'Monthly balances and transactions with USD values, as PDF or CSV',
+    generateStatement: 'Generate',
+    noStatements: 'No statements yet',
+    statementPending: 'Generating…',
+    statementFailed: 'Generation failed, try again',
+    downloadFailed: 'Download failed',
   },
 
   // Channels Page
@@ -81,6 +95,9 @@ export const en = {
     addFirstChannel: 'Add your first channel',
     openChannel: 'Open Channel',
     createDeal: 'Create Deal',
+    cart: 'Cart',
+    addToCart: 'Add to cart',
+    removeFromCart: 'Remove from cart',
     onModeration: 'On Moderation',
     activeStatus: 'Active',
     rejectedStatus: 'Rejected',
@@ -170,6 +187,18 @@ export const en = {
     pricingByFormat: 'Pricing by format',
     samePriceForAll: 'Same price for all',
     setFormatPrices: 'Set individual price for each format',
+    // Price recommendations
+    recommendedPrices: 'Recommended prices',
+    pricingBenchmark: {
+      categories: 'By CPM (price per 1000 views) of {count} channels of your size, language and categories',
+      language: 'By CPM (price per 1000 views) of {count} channels of your size and language',
+      size: 'By CPM (price per 1000 views) of {count} channels of your size',
+    },
+    pricingNotEnoughPeers: 'Not enough similar channels to recommend a price yet',
+    pricingNoViews: 'Recommendations appear once the channel has view statistics',
+    yourCpm: 'your CPM',
+    medianCpm: 'median CPM',
+    useRecommended: 'Use',
   },
 
   // Campaigns Page
@@ -186,6 +215,18 @@ export const en = {
     completed: 'Completed',
     cancelled: 'Cancelled',
     editCampaign: 'Edit Campaign',
+    conversionTracking: 'Conversion tracking',
+    conversionTrackingHint: 'Your server reports conversions from tracked links to the postback URL; CPA and ROAS are counted per channel.',
+    conversions: 'Conversions',
+    cpa: 'CPA',
+    roas: 'ROAS',
+    utmTemplate: 'UTM template',
+    utmTemplateHint: 'Added to tracked links when clicked. Placeholders: {campaign_id}, {deal_id}, {channel}, {click_id}.',
+    postback: 'Conversion postback',
+    postbackHint: 'Send JSON { orderId, clickId or dealId, revenue } with X-Postback-Timestamp (Unix seconds) and X-Postback-Signature: hex HMAC-SHA256 of "timestamp.body" with your secret. Revenue is in the campaign currency.',
+    postbackSecretOnce: 'Copy the secret now: it is shown only once and the previous one no longer works.',
+    generateSecret: 'Generate secret',
+    rotateSecret: 'New secret',
   },
 
   // Channel Admins
@@ -253,6 +294,23 @@ export const en = {
     awaitingApproval: 'awaiting approval',
     amount: 'Amount',
     status: 'Status',
+    recurring: 'Recurring series',
+    recurringSchedule: 'Every {days} days · {created} of {total} posts',
+    recurringNextPost: 'Next post',
+    recurringPerPost: 'per post',
+    recurringStatuses: {
+      PENDING: 'Awaiting approval',
+      ACTIVE: 'Active',
+      PAUSED: 'Paused',
+      CANCELLED: 'Cancelled',
+      COMPLETED: 'Completed',
+    },
+    approveSeries: 'Approve series',
+    rejectSeries: 'Reject',
+    pauseSeries: 'Pause',
+    resumeSeries: 'Resume',
+    cancelSeries: 'Cancel series',
+    confirmCancelSeries: 'Cancel the series? Deals already created are kept.',
   },
 
   // Deal Details
@@ -277,6 +335,29 @@ export const en = {
     adPublished: 'Ad is published!',
     youWillReceive: 'You will receive',
     automatically: 'automatically',
+    onChainEscrow: 'On-chain escrow',
+    escrowContractAfterApproval: 'The escrow contract is deployed once the channel owner approves',
+    viewsGuarantee: 'Views guarantee',
+    viewsTarget: '{views} views per post',
+    viewsCollected: '{views} collected',
+    viewsPolicies: {
+      RELEASE: 'Paid in full',
+      PRO_RATA: 'Pro-rata payout',
+      DISPUTE: 'Dispute on shortfall',
+    },
+    viewsPolicyHints: {
+      RELEASE: 'The post is paid in full whatever its views.',
+      PRO_RATA: 'Below the target the payout follows the views and the rest is refunded. Under half of the target the deal goes to dispute.',
+      DISPUTE: 'Below the target the deal goes to dispute for a moderator to decide.',
+    },
+    escrowContractStatuses: {
+      DEPLOYING: 'Deploying',
+      FUNDED: 'Funded',
+      RELEASING: 'Paying out',
+      REFUNDING: 'Refunding',
+      RELEASED: 'Paid out',
+      REFUNDED: 'Refunded',
+    },
     payment: 'Payment',
     fundsLocked: 'Funds locked in escrow',
     released: 'Released',
@@ -291,13 +372,24 @@ export const en = {
     back: 'Back',
     progress: 'Progress',
     dealAmount: 'Deal Amount',
-    fee: 'Fee (5%)',
+    fee: 'Fee',
     total: 'Total',
     loading: 'Loading...',
     noText: 'No text',
     adContent: 'Ad Content',
     postLink: 'Post Link',
     openPost: 'Open Post',
+    postMetrics: 'Post performance',
+    linkClicks: 'Clicks',
+    uniqueClicks: 'Unique',
+    ctr: 'CTR',
+    postMetricsEmpty: 'The first metrics appear within an hour after posting.',
+    postMetricLabels: {
+      views: 'Views',
+      forwards: 'Forwards',
+      reactions: 'Reactions',
+      replies: 'Replies',
+    },
     yourActions: 'Your Actions',
     // Advertiser statuses
     waitingForApproval: 'Waiting for approval',
@@ -354,11 +446,48 @@ export const en = {
     draftContent: 'Draft Content',
     draftContentPlaceholder: 'Enter the ad content draft...',
     ownerPreparingContent: 'Channel owner is preparing content',
+    contentDueBy: 'Content due by {date}. Otherwise the deal is cancelled and the funds are refunded.',
+    reviewDueBy: 'Review due by {date}. Otherwise the draft is approved automatically.',
     reviewDraftContent: 'Review the draft content and approve or request changes',
     contentApprovedScheduling: 'Content approved! Post will be scheduled',
     // Steps
     stepContent: 'Content',
     stepApprovedContent: 'Approved',
+    // Multi-slot deals
+    posts: 'Posts',
+    postsProgress: '{released} of {total} paid out',
+    postNumber: 'Post {n}',
+    ownContent: 'Own content',
+    slotScheduled: 'Scheduled',
+    slotPosted: 'Posted',
+    slotVerifiedBy: 'Verification until',
+    slotReleased: 'Paid out',
+    offers: 'Offers',
+    noOffers: 'No counter-offers yet. Either side can propose other terms before the deal is approved.',
+    offerByYou: 'You',
+    offerByAdvertiser: 'Advertiser',
+    offerByChannelOwner: 'Channel owner',
+    offerStatuses: {
+      PENDING: 'Awaiting answer',
+      ACCEPTED: 'Accepted',
+      COUNTERED: 'Countered',
+      CLOSED: 'Closed',
+    },
+    offerPostAfterApproval: 'Posted right after approval',
+    offerAmount: 'Amount',
+    offerPostTime: 'Post time (empty — right after approval)',
+    offerMessagePlaceholder: 'Comment for the other side (optional)',
+    proposeTerms: 'Propose other terms',
+    counterOffer: 'Counter',
+    sendOffer: 'Send offer',
+    acceptOffer: 'Accept',
+    acceptOfferHint: 'Accepting approves the deal at these terms and locks the new amount in escrow.',
+    slotStatuses: {
+      SCHEDULED: 'Scheduled',
+      POSTED: 'Verifying',
+      RELEASED: 'Paid out',
+      DISPUTED: 'On hold',
+    },
   },
 
   // Folders Page
@@ -471,6 +600,24 @@ export const en = {
     appealType: 'Type',
     appealReason: 'Reason',
     noAppeals: 'No pending appeals',
+    withdrawals: 'Withdrawals',
+    noWithdrawals: 'No withdrawals to review',
+    withdrawalTo: 'To',
+    registered: 'Registered',
+    suspense: 'Unmatched',
+    noSuspense: 'No unmatched transfers',
+    suspenseFrom: 'From',
+    suspenseMemo: 'Memo',
+    suspenseReasons: {
+      NO_MEMO: 'No memo',
+      UNKNOWN_MEMO: 'Unknown memo',
+      CURRENCY_MISMATCH: 'Wrong currency',
+    },
+    assign: 'Assign',
+    assignTo: '@username or Telegram ID',
+    notePlaceholder: 'Note (optional)',
+    refundToSender: 'Refund',
+    refundFailed: 'Last refund failed: {error}',
   },
 
   // Appeals
@@ -605,6 +752,59 @@ export const en = {
       schedulePost: 'Schedule Post (optional)',
       schedulePostHint: 'Post will be published at the scheduled time',
       postImmediately: 'Leave empty to post immediately after approval',
+      splitIntoPosts: 'Split into several posts',
+      posts: 'Posts',
+      postNumber: 'Post {n}',
+      addPost: 'Add post',
+      multiPostHint: 'The amount is split across {count} posts; each is paid out after its own verification',
+      errorPostTimes: 'Set a time for every post',
+      repeat: 'Repeat',
+      repeatOnce: 'Once',
+      repeatEvery: 'Every {days} days',
+      repeatCount: 'Number of posts',
+      repeatHint: 'The channel owner approves the series once. Each post becomes a deal funded a day before it goes out; the series pauses if your balance runs short.',
+      errorFirstPostTime: 'Set the time of the first post',
+      createSeriesFor: 'Request {count} posts for {amount} each',
+      onChainEscrow: 'On-chain escrow',
+      onChainEscrowHint: 'Funds are held in a dedicated smart contract and paid out directly to wallets. Both sides need a connected wallet.',
+      trackLinks: 'Track link clicks',
+      trackLinksHint: 'Links in the post are replaced with short links that count clicks. Their text and formatting stay the same.',
+      minViews: 'Guaranteed views per post',
+      minViewsPlaceholder: 'No guarantee',
+      viewsPolicies: {
+        PRO_RATA: 'Pro-rata',
+        DISPUTE: 'Dispute',
+        RELEASE: 'Pay in full',
+      },
+      viewsPolicyHints: {
+        PRO_RATA: 'A post below the target is paid in proportion to its views, the rest is refunded to you. Under half of the target goes to dispute.',
+        DISPUTE: 'A post below the target is held in a dispute for a moderator to decide.',
+        RELEASE: 'The target is informational: the post is paid in full whatever its views.',
+      },
+      contentDeadlines: 'Content deadlines',
+      submissionDeadline: 'Draft',
+      reviewDeadline: 'Review',
+      contentDeadlinesHint: 'If the owner sends no draft in time, the deal is cancelled and refunded. A draft you do not review in time is approved automatically.',
+      promoCode: 'Promo code',
+      promoCodePlaceholder: 'Enter a promo code (optional)',
+      platformFee: 'Platform fee',
+      promoApplied: '{code}: {percent}% off the fee',
+      total: 'Total',
+    },
+    cart: {
+      title: 'Cart',
+      empty: 'The cart is empty. Add channels from the catalog.',
+      schedulePost: 'Schedule post',
+      sameContent: 'The same creative is sent to every channel in the cart',
+      subtotal: 'Prices of {count} channels',
+      lockHint: 'Prices plus platform fees are locked at checkout. A channel that rejects the deal refunds only its share.',
+      checkout: 'Buy {count} channels',
+      resultsTitle: 'Checkout results',
+      resultsSummary: '{created} of {total} deals created',
+      locked: 'Locked in escrow',
+      openDeal: 'Open',
+      failedStayInCart: 'Channels that could not be bought stay in the cart',
+      done: 'Done',
     },
   },
 
@@ -615,6 +815,9 @@ export const en = {
     delete: 'Delete',
     confirmDelete: 'Are you sure you want to delete this?',
     created: 'Created',
+    views: 'Views',
+    linkClicks: 'Clicks',
+    ctr: 'CTR',
     remaining: 'Remaining',
     description: 'Description',
     targetCategories: 'Target Categories',
@@ -678,13 +881,39 @@ export const en = {
     allLanguages: 'All languages',
     sortBy: 'Sort by',
     sortBySubscribers: 'Subscribers',
+    sortByRelevance: 'Relevance',
     sortByPriceAsc: 'Price (low)',
     sortByPriceDesc: 'Price (high)',
+    sortByCpm: 'CPM (low)',
+    cpm: 'CPM (TON per 1000 views)',
     sortByRating: 'Rating',
     sortByNewest: 'Newest',
     searchPlaceholder: 'Search channels...',
   },
 
+  // Saved channel searches
+  savedSearches: {
+    save: 'Save search',
+    namePlaceholder: 'Search name',
+    alertsHint: 'A daily digest of new and cheaper matching channels arrives in the bot',
+    alertsOn: 'Alerts on',
+    alertsOff: 'Alerts off',
+    confirmDelete: 'Delete saved search "{name}"?',
+  },
+
+  // Channel comparison
+  compare: {
+    title: 'Compare channels',
+    add: 'Add to comparison',
+    remove: 'Remove from comparison',
+    open: 'Compare',
+    clear: 'Clear',
+    pickChannels: 'Pick at least 2 channels in the catalogue to compare',
+    subscribers: 'Subscribers',
+    cpm: 'CPM',
+    cpmHint: 'CPM is the price per 1000 average views. Best values are highlighted',
+  },
+
   // Wallet / Deposit / Withdraw
   wallet: {
     // Deposit
@@ -700,6 +929,9 @@ export const en = {
     depositFailed: 'Deposit Failed',
     depositExpired: 'Deposit expired. Please try again.',
     done: 'Done',
+    currency: 'Currency',
+    usdtDepositHint: 'Send USDT (jetton on TON) from your wallet app to this address and put the memo in the comment field.',
+    depositPartial: 'Received {received} of {amount} {currency} and credited to your balance. Send the remaining {remaining} {currency} with the same memo.',
     // Withdraw
     withdrawTo: 'Withdraw to',
     availableBalance: 'Available balance',
@@ -715,6 +947,24 @@ export const en = {
     sentToWallet: 'sent to your wallet',
     withdrawFailed: 'Withdrawal Failed',
     withdrawError: 'Something went wrong. Your funds have been refunded.',
+    withdrawConfirmTitle: 'Confirm in Telegram',
+    withdrawConfirmHint: 'We sent a message to your chat with the bot. Tap "Confirm" there within 15 minutes, or the withdrawal will be cancelled.',
+    withdrawReviewTitle: 'Under Review',
+    withdrawReviewHint: 'Large withdrawals are checked by a moderator before they are sent. This usually takes a few hours.',
+    withdrawCancelled: 'Withdrawal Cancelled',
+    withdrawCancelledHint: 'The funds have been returned to your balance.',
+    cancelWithdrawal: 'Cancel withdrawal',
+    // Withdrawal security
+    security: 'Withdrawal security',
+    lockedUntil: 'Withdrawals are locked until {date} after a wallet change',
+    allowlist: 'Address allowlist',
+    allowlistHint: 'Only allow withdrawals to the addresses below. Turning this off locks withdrawals for 24 hours.',
+    allowlistEmpty: 'No saved addresses',
+    addAddress: 'Add address',
+    addressPlaceholder: 'TON address',
+    labelPlaceholder: 'Label (optional)',
+    remove: 'Remove',
+    currentWallet: 'Connected wallet',
   },
 
   // Reviews
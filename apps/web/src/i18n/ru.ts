@@ -68,6 +68,20 @@ export const ru: TranslationKeys = {
     role: 'Роль',
     browsePublish: 'Просмотр и публикация',
     manageAds: 'Управление рекламой',
+    referrals: 'Реферальная программа',
+    referralDescription: 'Получайте {percent}% комиссии платформы со сделок приглашённых пользователей',
+    referralLink: 'Ваша реферальная ссылка',
+    copied: 'Скопировано',
+    referred: 'Приглашено',
+    activeReferred: 'Приносят доход',
+    referralEarnings: 'Заработано',
+    statements: 'Выписки',
+    statementsDescription: 'Балансы и операции за месяц с оценкой в USD, в PDF или CSV',
+    generateStatement: 'Сформировать',
+    noStatements: 'Выписок пока нет',
+    statementPending: 'Формируется…',
+    statementFailed: 'Не удалось сформировать, попробуйте снова',
+    downloadFailed: 'Не удалось скачать',
   },
 
   // Channels Page
@@ -83,6 +97,9 @@ export const ru: TranslationKeys = {
     addFirstChannel: 'Добавьте свой первый канал',
     openChannel: 'Открыть канал',
     createDeal: 'Создать сделку',
+    cart: 'Корзина',
+    addToCart: 'В корзину',
+    removeFromCart: 'Убрать из корзины',
     onModeration: 'На модерации',
     activeStatus: 'Активен',
     rejectedStatus: 'Отклонен',
@@ -172,6 +189,18 @@ export const ru: TranslationKeys = {
     pricingByFormat: 'Цены по форматам',
     samePriceForAll: 'Единая цена',
     setFormatPrices: 'Установить цену для каждого формата',
+    // Price recommendations
+    recommendedPrices: 'Рекомендуемые цены',
+    pricingBenchmark: {
+      categories: 'По CPM (цена за 1000 просмотров) {count} каналов вашего размера, языка и категорий',
+      language: 'По CPM (цена за 1000 просмотров) {count} каналов вашего размера и языка',
+      size: 'По CPM (цена за 1000 просмотров) {count} каналов вашего размера',
+    },
+    pricingNotEnoughPeers: 'Пока недостаточно похожих каналов для рекомендации цены',
+    pricingNoViews: 'Рекомендации появятся, когда у канала будет статистика просмотров',
+    yourCpm: 'ваш CPM',
+    medianCpm: 'медианный CPM',
+    useRecommended: 'Применить',
   },
 
   // Campaigns Page
@@ -188,6 +217,18 @@ export const ru: TranslationKeys = {
     completed: 'Завершена',
     cancelled: 'Отменена',
     editCampaign: 'Редактировать кампанию',
+    conversionTracking: 'Отслеживание конверсий',
+    conversionTrackingHint: 'Ваш сервер сообщает о конверсиях с отслеживаемых ссылок на postback URL; CPA и ROAS считаются по каждому каналу.',
+    conversions: 'Конверсии',
+    cpa: 'CPA',
+    roas: 'ROAS',
+    utmTemplate: 'UTM-шаблон',
+    utmTemplateHint: 'Добавляется к отслеживаемым ссылкам при переходе. Подстановки: {campaign_id}, {deal_id}, {channel}, {click_id}.',
+    postback: 'Postback конверсий',
+    postbackHint: 'Отправляйте JSON { orderId, clickId или dealId, revenue } с заголовками X-Postback-Timestamp (Unix-секунды) и X-Postback-Signature: hex HMAC-SHA256 от "timestamp.body" с вашим секретом. Выручка — в валюте кампании.',
+    postbackSecretOnce: 'Скопируйте секрет сейчас: он показывается один раз, а прежний больше не действует.',
+    generateSecret: 'Создать секрет',
+    rotateSecret: 'Новый секрет',
   },
 
   // Channel Admins
@@ -255,6 +296,23 @@ export const ru: TranslationKeys = {
     awaitingApproval: 'ожидает одобрения',
     amount: 'Сумма',
     status: 'Статус',
+    recurring: 'Серии размещений',
+    recurringSchedule: 'Каждые {days} дн. · {created} из {total} постов',
+    recurringNextPost: 'Следующий пост',
+    recurringPerPost: 'за пост',
+    recurringStatuses: {
+      PENDING: 'Ожидает одобрения',
+      ACTIVE: 'Активна',
+      PAUSED: 'Приостановлена',
+      CANCELLED: 'Отменена',
+      COMPLETED: 'Завершена',
+    },
+    approveSeries: 'Одобрить серию',
+    rejectSeries: 'Отклонить',
+    pauseSeries: 'Пауза',
+    resumeSeries: 'Возобновить',
+    cancelSeries: 'Отменить серию',
+    confirmCancelSeries: 'Отменить серию? Уже созданные сделки сохранятся.',
   },
 
   // Deal Details
@@ -279,6 +337,29 @@ export const ru: TranslationKeys = {
     adPublished: 'Реклама опубликована!',
     youWillReceive: 'Вы получите',
     automatically: 'автоматически',
+    onChainEscrow: 'Ончейн-эскроу',
+    escrowContractAfterApproval: 'Контракт эскроу будет развёрнут после одобрения владельцем канала',
+    viewsGuarantee: 'Гарантия просмотров',
+    viewsTarget: '{views} просмотров на пост',
+    viewsCollected: 'набрано {views}',
+    viewsPolicies: {
+      RELEASE: 'Полная оплата',
+      PRO_RATA: 'Пропорциональная выплата',
+      DISPUTE: 'Спор при недоборе',
+    },
+    viewsPolicyHints: {
+      RELEASE: 'Пост оплачивается полностью при любых просмотрах.',
+      PRO_RATA: 'Ниже цели выплата пропорциональна просмотрам, остаток возвращается. Меньше половины цели — сделка уходит в спор.',
+      DISPUTE: 'Ниже цели сделка уходит в спор на решение модератора.',
+    },
+    escrowContractStatuses: {
+      DEPLOYING: 'Развёртывается',
+      FUNDED: 'Пополнен',
+      RELEASING: 'Выплата',
+      REFUNDING: 'Возврат',
+      RELEASED: 'Выплачено',
+      REFUNDED: 'Возвращено',
+    },
     payment: 'Выплата',
     fundsLocked: 'Средства заблокированы в эскроу',
     released: 'Выплачено',
@@ -293,13 +374,24 @@ export const ru: TranslationKeys = {
     back: 'Назад',
     progress: 'Прогресс',
     dealAmount: 'Сумма сделки',
-    fee: 'Комиссия (5%)',
+    fee: 'Комиссия',
     total: 'Итого',
     loading: 'Загрузка...',
     noText: 'Нет текста',
     adContent: 'Контент рекламы',
     postLink: 'Ссылка на пост',
     openPost: 'Открыть пост',
+    postMetrics: 'Статистика поста',
+    linkClicks: 'Переходы',
+    uniqueClicks: 'Уникальные',
+    ctr: 'CTR',
+    postMetricsEmpty: 'Первые данные появятся в течение часа после публикации.',
+    postMetricLabels: {
+      views: 'Просмотры',
+      forwards: 'Репосты',
+      reactions: 'Реакции',
+      replies: 'Ответы',
+    },
     yourActions: 'Ваши действия',
     // Advertiser statuses
     waitingForApproval: 'Ожидание одобрения',
@@ -356,11 +448,48 @@ export const ru: TranslationKeys = {
     draftContent: 'Черновик контента',
     draftContentPlaceholder: 'Введите черновик рекламного контента...',
     ownerPreparingContent: 'Владелец канала готовит контент',
+    contentDueBy: 'Контент нужно отправить до {date}. Иначе сделка будет отменена, средства вернутся рекламодателю.',
+    reviewDueBy: 'Проверить контент нужно до {date}. Иначе он будет одобрен автоматически.',
     reviewDraftContent: 'Просмотрите черновик и одобрите или запросите изменения',
     contentApprovedScheduling: 'Контент одобрен! Пост будет запланирован',
     // Steps
     stepContent: 'Контент',
     stepApprovedContent: 'Одобрено',
+    // Multi-slot deals
+    posts: 'Посты',
+    postsProgress: 'Выплачено {released} из {total}',
+    postNumber: 'Пост {n}',
+    ownContent: 'Свой контент',
+    slotScheduled: 'Запланирован',
+    slotPosted: 'Опубликован',
+    slotVerifiedBy: 'Проверка до',
+    slotReleased: 'Выплачено',
+    offers: 'Предложения',
+    noOffers: 'Встречных предложений пока нет. Любая сторона может предложить другие условия до одобрения сделки.',
+    offerByYou: 'Вы',
+    offerByAdvertiser: 'Рекламодатель',
+    offerByChannelOwner: 'Владелец канала',
+    offerStatuses: {
+      PENDING: 'Ожидает ответа',
+      ACCEPTED: 'Принято',
+      COUNTERED: 'Встречное',
+      CLOSED: 'Закрыто',
+    },
+    offerPostAfterApproval: 'Публикация сразу после одобрения',
+    offerAmount: 'Сумма',
+    offerPostTime: 'Время публикации (пусто — сразу после одобрения)',
+    offerMessagePlaceholder: 'Комментарий для другой стороны (необязательно)',
+    proposeTerms: 'Предложить другие условия',
+    counterOffer: 'Встречное',
+    sendOffer: 'Отправить',
+    acceptOffer: 'Принять',
+    acceptOfferHint: 'Принятие одобряет сделку на этих условиях и блокирует новую сумму в эскроу.',
+    slotStatuses: {
+      SCHEDULED: 'Запланирован',
+      POSTED: 'Проверка',
+      RELEASED: 'Выплачено',
+      DISPUTED: 'Заморожен',
+    },
   },
 
   // Folders Page
@@ -473,6 +602,24 @@ export const ru: TranslationKeys = {
     appealType: 'Тип',
     appealReason: 'Причина',
     noAppeals: 'Нет ожидающих апелляций',
+    withdrawals: 'Выводы',
+    noWithdrawals: 'Нет выводов на проверку',
+    withdrawalTo: 'Куда',
+    registered: 'Регистрация',
+    suspense: 'Без привязки',
+    noSuspense: 'Нет неопознанных переводов',
+    suspenseFrom: 'Отправитель',
+    suspenseMemo: 'Memo',
+    suspenseReasons: {
+      NO_MEMO: 'Без memo',
+      UNKNOWN_MEMO: 'Неизвестный memo',
+      CURRENCY_MISMATCH: 'Не та валюта',
+    },
+    assign: 'Зачислить',
+    assignTo: '@username или Telegram ID',
+    notePlaceholder: 'Комментарий (необязательно)',
+    refundToSender: 'Вернуть',
+    refundFailed: 'Последний возврат не удался: {error}',
   },
 
   // Appeals
@@ -607,6 +754,59 @@ export const ru: TranslationKeys = {
       schedulePost: 'Запланировать публикацию (необязательно)',
       schedulePostHint: 'Пост будет опубликован в запланированное время',
       postImmediately: 'Оставьте пустым для публикации сразу после одобрения',
+      splitIntoPosts: 'Разделить на несколько постов',
+      posts: 'Посты',
+      postNumber: 'Пост {n}',
+      addPost: 'Добавить пост',
+      multiPostHint: 'Сумма делится на {count} поста; каждый оплачивается после своей проверки',
+      errorPostTimes: 'Укажите время для каждого поста',
+      repeat: 'Повтор',
+      repeatOnce: 'Один раз',
+      repeatEvery: 'Каждые {days} дн.',
+      repeatCount: 'Количество постов',
+      repeatHint: 'Владелец канала одобряет серию один раз. Каждый пост становится сделкой, которая оплачивается за сутки до публикации; при нехватке баланса серия приостанавливается.',
+      errorFirstPostTime: 'Укажите время первого поста',
+      createSeriesFor: 'Запросить {count} постов по {amount}',
+      onChainEscrow: 'Ончейн-эскроу',
+      onChainEscrowHint: 'Средства хранятся в отдельном смарт-контракте и выплачиваются напрямую на кошельки. Обеим сторонам нужен подключённый кошелёк.',
+      trackLinks: 'Считать переходы по ссылкам',
+      trackLinksHint: 'Ссылки в посте заменяются короткими ссылками со счётчиком переходов. Текст и оформление не меняются.',
+      minViews: 'Гарантия просмотров на пост',
+      minViewsPlaceholder: 'Без гарантии',
+      viewsPolicies: {
+        PRO_RATA: 'Пропорционально',
+        DISPUTE: 'Спор',
+        RELEASE: 'Полная оплата',
+      },
+      viewsPolicyHints: {
+        PRO_RATA: 'Пост ниже цели оплачивается пропорционально просмотрам, остаток возвращается вам. Меньше половины цели — спор.',
+        DISPUTE: 'Пост ниже цели передаётся в спор на решение модератора.',
+        RELEASE: 'Цель справочная: пост оплачивается полностью при любых просмотрах.',
+      },
+      contentDeadlines: 'Сроки по контенту',
+      submissionDeadline: 'Черновик',
+      reviewDeadline: 'Проверка',
+      contentDeadlinesHint: 'Если владелец не отправит черновик вовремя, сделка отменяется с возвратом средств. Непроверенный вовремя черновик одобряется автоматически.',
+      promoCode: 'Промокод',
+      promoCodePlaceholder: 'Введите промокод (необязательно)',
+      platformFee: 'Комиссия платформы',
+      promoApplied: '{code}: скидка {percent}% на комиссию',
+      total: 'Итого',
+    },
+    cart: {
+      title: 'Корзина',
+      empty: 'Корзина пуста. Добавьте каналы из каталога.',
+      schedulePost: 'Запланировать пост',
+      sameContent: 'Один и тот же креатив отправляется во все каналы корзины',
+      subtotal: 'Цены {count} каналов',
+      lockHint: 'Цены и комиссии платформы блокируются при оформлении. Если канал отклонит сделку, вернётся только его доля.',
+      checkout: 'Купить {count} каналов',
+      resultsTitle: 'Результаты оформления',
+      resultsSummary: 'Создано сделок: {created} из {total}',
+      locked: 'Заблокировано в эскроу',
+      openDeal: 'Открыть',
+      failedStayInCart: 'Каналы, которые не удалось купить, остались в корзине',
+      done: 'Готово',
     },
   },
 
@@ -617,6 +817,9 @@ export const ru: TranslationKeys = {
     delete: 'Удалить',
     confirmDelete: 'Вы уверены, что хотите удалить?',
     created: 'Создано',
+    views: 'Просмотры',
+    linkClicks: 'Переходы',
+    ctr: 'CTR',
     remaining: 'Осталось',
     description: 'Описание',
     targetCategories: 'Целевые категории',
@@ -680,13 +883,39 @@ export const ru: TranslationKeys = {
     allLanguages: 'Все языки',
     sortBy: 'Сортировка',
     sortBySubscribers: 'Подписчики',
+    sortByRelevance: 'Релевантность',
     sortByPriceAsc: 'Цена (мин.)',
     sortByPriceDesc: 'Цена (макс.)',
+    sortByCpm: 'CPM (мин.)',
+    cpm: 'CPM (TON за 1000 просмотров)',
     sortByRating: 'Рейтинг',
     sortByNewest: 'Новые',
     searchPlaceholder: 'Поиск каналов...',
   },
 
+  // Saved channel searches
+  savedSearches: {
+    save: 'Сохранить поиск',
+    namePlaceholder: 'Название поиска',
+    alertsHint: 'Раз в день бот пришлёт сводку новых и подешевевших подходящих каналов',
+    alertsOn: 'Уведомления включены',
+    alertsOff: 'Уведомления выключены',
+    confirmDelete: 'Удалить сохранённый поиск «{name}»?',
+  },
+
+  // Channel comparison
+  compare: {
+    title: 'Сравнение каналов',
+    add: 'Добавить к сравнению',
+    remove: 'Убрать из сравнения',
+    open: 'Сравнить',
+    clear: 'Очистить',
+    pickChannels: 'Выберите в каталоге хотя бы 2 канала для сравнения',
+    subscribers: 'Подписчики',
+    cpm: 'CPM',
+    cpmHint: 'CPM — цена за 1000 средних просмотров. Лучшие значения выделены',
+  },
+
   // Wallet / Deposit / Withdraw
   wallet: {
     // Deposit
@@ -702,6 +931,9 @@ export const ru: TranslationKeys = {
     depositFailed: 'Ошибка пополнения',
     depositExpired: 'Время пополнения истекло. Попробуйте снова.',
     done: 'Готово',
+    currency: 'Валюта',
+    usdtDepositHint: 'Отправьте USDT (жетон в сети TON) из приложения кошелька на этот адрес и укажите memo в поле комментария.',
+    depositPartial: 'Получено {received} из {amount} {currency}, сумма зачислена на баланс. Отправьте оставшиеся {remaining} {currency} с тем же memo.',
     // Withdraw
     withdrawTo: 'Вывод на',
     availableBalance: 'Доступный баланс',
@@ -717,6 +949,24 @@ export const ru: TranslationKeys = {
     sentToWallet: 'отправлено на кошелек',
     withdrawFailed: 'Ошибка вывода',
     withdrawError: 'Что-то пошло не так. Средства возвращены на баланс.',
+    withdrawConfirmTitle: 'Подтвердите в Telegram',
+    withdrawConfirmHint: 'Мы отправили сообщение в чат с ботом. Нажмите «Подтвердить» в течение 15 минут, иначе вывод будет отменён.',
+    withdrawReviewTitle: 'На проверке',
+    withdrawReviewHint: 'Крупные выводы проверяет модератор перед отправкой. Обычно это занимает несколько часов.',
+    withdrawCancelled: 'Вывод отменён',
+    withdrawCancelledHint: 'Средства возвращены на баланс.',
+    cancelWithdrawal: 'Отменить вывод',
+    // Withdrawal security
+    security: 'Безопасность вывода',
+    lockedUntil: 'Вывод заблокирован до {date} после смены кошелька',
+    allowlist: 'Белый список адресов',
+    allowlistHint: 'Разрешить вывод только на адреса из списка. Отключение блокирует вывод на 24 часа.',
+    allowlistEmpty: 'Нет сохранённых адресов',
+    addAddress: 'Добавить адрес',
+    addressPlaceholder: 'Адрес TON',
+    labelPlaceholder: 'Название (необязательно)',
+    remove: 'Удалить',
+    currentWallet: 'Подключённый кошелёк',
   },
 
   // Reviews
@@ -16,14 +16,17 @@ import {
 import { api } from '../api/client';
 import { Card, Button, StatusBadge, PageTransition, StaggerContainer, StaggerItem } from '../components/ui';
 import { useTelegram } from '../hooks/useTelegram';
+import { useAuthStore } from '../store/auth.store';
 import { useTranslation } from '../i18n';
 import { AddCampaignModal } from '../components/AddCampaignModal';
+import { CampaignTrackingCard } from '../components/CampaignTrackingCard';
 
 interface Campaign {
   id: string;
   title: string;
   description?: string;
   totalBudget: string;
+  currency?: 'TON' | 'USDT';
   spentBudget: string;
   categories: string[];
   targetLanguages: string[];
@@ -38,6 +41,17 @@ interface Campaign {
   createdAt: string;
 }
 
+interface ClickStats {
+  views?: number;
+  clicks: number;
+  uniqueClicks: number;
+  ctr?: number;
+}
+
+interface CampaignClickStats extends ClickStats {
+  deals: (ClickStats & { dealId: string })[];
+}
+
 interface Deal {
   id: string;
   channelId: string;
@@ -63,6 +77,7 @@ export function CampaignDetailsPage() {
   const queryClient = useQueryClient();
   const { hapticFeedback, hapticNotification } = useTelegram();
   const { t, translateCategory } = useTranslation();
+  const { user } = useAuthStore();
   const [showEditModal, setShowEditModal] = useState(false);
 
   const getCategoryLabel = (cat: string): string => {
@@ -96,6 +111,18 @@ export function CampaignDetailsPage() {
     enabled: !!id,
   });
 
+  // Clicks on tracked links, reported to the campaign's advertiser
+  const { data: clickStats } = useQuery({
+    queryKey: ['campaign-clicks', id],
+    queryFn: async () => {
+      const response = await api.get<CampaignClickStats>(`/campaigns/${id}/clicks`);
+      return response.data;
+    },
+    enabled: !!id && !!campaign && campaign.advertiserId === user?.id,
+  });
+
+  const dealClicks = new Map(clickStats?.deals.map((d) => [d.dealId, d]));
+
   const deleteMutation = useMutation({
     mutationFn: async () => {
       await api.delete(`/campaigns/${id}`);
@@ -188,7 +215,7 @@ export function CampaignDetailsPage() {
                 <div className="flex justify-between items-end mb-2">
                   <div>
                     <p className="text-3xl font-bold text-accent">{campaign.spentBudget}</p>
-                    <p className="text-sm text-tg-hint">of {campaign.totalBudget} TON</p>
+                    <p className="text-sm text-tg-hint">of {campaign.totalBudget} {campaign.currency ?? 'TON'}</p>
                   </div>
                   <p className="text-lg font-semibold">{getProgress().toFixed(0)}%</p>
                 </div>
@@ -268,9 +295,32 @@ export function CampaignDetailsPage() {
                   <p className="text-xs text-tg-hint">{t.ui.remaining}</p>
                 </div>
               </div>
+              {clickStats && clickStats.deals.length > 0 && (
+                <div className="grid grid-cols-3 gap-3 mt-3">
+                  <div className="text-center p-3 rounded-xl bg-white/5">
+                    <p className="text-2xl font-bold">{clickStats.views?.toLocaleString() ?? '—'}</p>
+                    <p className="text-xs text-tg-hint">{t.ui.views}</p>
+                  </div>
+                  <div className="text-center p-3 rounded-xl bg-white/5">
+                    <p className="text-2xl font-bold">{clickStats.uniqueClicks.toLocaleString()}</p>
+                    <p className="text-xs text-tg-hint">{t.ui.linkClicks}</p>
+                  </div>
+                  <div className="text-center p-3 rounded-xl bg-white/5">
+                    <p className="text-2xl font-bold text-accent">{clickStats.ctr != null ? `${clickStats.ctr}%` : '—'}</p>
+                    <p className="text-xs text-tg-hint">{t.ui.ctr}</p>
+                  </div>
+                </div>
+              )}
             </Card>
           </StaggerItem>
 
+          {/* Conversion tracking */}
+          {campaign.advertiserId === user?.id && (
+            <StaggerItem>
+              <CampaignTrackingCard campaignId={campaign.id} />
+            </StaggerItem>
+          )}
+
           {/* Deals */}
           <StaggerItem>
             <Card>
@@ -307,23 +357,32 @@ export function CampaignDetailsPage() {
                 </div>
               ) : (
                 <div className="space-y-2">
-                  {deals?.items.map((deal) => (
-                    <div
-                      key={deal.id}
-                      className="flex items-center justify-between p-3 rounded-xl bg-white/5"
-                    >
-                      <div>
-                        <p className="font-medium">{deal.channelTitle}</p>
-                        {deal.channelUsername && (
-                          <p className="text-sm text-accent">@{deal.channelUsername}</p>
-                        )}
+                  {deals?.items.map((deal) => {
+                    const clicks = dealClicks.get(deal.id);
+                    return (
+                      <div
+                        key={deal.id}
+                        className="flex items-center justify-between p-3 rounded-xl bg-white/5"
+                      >
+                        <div>
+                          <p className="font-medium">{deal.channelTitle}</p>
+                          {deal.channelUsername && (
+                            <p className="text-sm text-accent">@{deal.channelUsername}</p>
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <p className="font-semibold">{deal.amount} {campaign.currency ?? 'TON'}</p>
+                          <StatusBadge status={deal.status} />
+                          {clicks && (
+                            <p className="text-xs text-tg-hint mt-1">
+                              {clicks.uniqueClicks} {t.ui.linkClicks.toLowerCase()}
+                              {clicks.ctr != null && ` · CTR ${clicks.ctr}%`}
+                            </p>
+                          )}
+                        </div>
                       </div>
-                      <div className="text-right">
-                        <p className="font-semibold">{deal.amount} TON</p>
-                        <StatusBadge status={deal.status} />
-                      </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </Card>
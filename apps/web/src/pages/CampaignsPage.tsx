@@ -14,6 +14,7 @@ interface Campaign {
   title: string;
   description?: string;
   totalBudget: string;
+  currency?: 'TON' | 'USDT';
   spentBudget: string;
   status: string;
   dealsCount: number;
@@ -95,7 +96,7 @@ export function CampaignsPage() {
                   </div>
 
                   <div className="flex justify-between text-sm text-tg-text-secondary mb-2">
-                    <span>{t.campaigns.budget}: {campaign.spentBudget}/{campaign.totalBudget} TON</span>
+                    <span>{t.campaigns.budget}: {campaign.spentBudget}/{campaign.totalBudget} {campaign.currency ?? 'TON'}</span>
                     <span>{campaign.dealsCount} {t.campaigns.dealsCount}</span>
                   </div>
 
@@ -0,0 +1,373 @@
+import { useSearchParams, useNavigate, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Users, X, CheckCircle, BarChart3, Globe, Tag, Star } from 'lucide-react';
+import { api } from '../api/client';
+import { Card, Button, PageTransition, ErrorCard } from '../components/ui';
+import { MiniLineChart, DonutChart } from '../components/ChannelStatsCharts';
+import { useTelegram } from '../hooks/useTelegram';
+import { useCompareStore } from '../store/compare.store';
+import { useTranslation } from '../i18n';
+
+interface HistoryPoint {
+  date: string;
+  value: number;
+}
+
+interface CompareChannel {
+  id: string;
+  title: string;
+  username?: string;
+  avatarUrl?: string;
+  subscriberCount: number;
+  avgViews: number;
+  engagementRate: number;
+  subscriberGrowthWeek: number;
+  subscriberGrowthMonth: number;
+  rating: number;
+  reviewsCount: number;
+  successRate: number;
+  completedDealsCount: number;
+  isVerified: boolean;
+  hasVerifiedStats: boolean;
+  formats: Array<{ format: string; price?: string; cpm?: string }>;
+  audienceGeo: Record<string, number>;
+  languageStats: Record<string, number>;
+  subscribersHistory: HistoryPoint[];
+  viewsHistory: HistoryPoint[];
+}
+
+interface ChannelComparison {
+  channels: CompareChannel[];
+  countries: string[];
+  languages: string[];
+}
+
+interface MetricRow {
+  label: string;
+  value: (channel: CompareChannel) => number | undefined;
+  format: (value: number) => string;
+  // CPM: the cheaper the better
+  lowerIsBetter?: boolean;
+}
+
+const KEY_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16'];
+const COLUMN_MIN_WIDTH = 128;
+
+export function ChannelComparePage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { hapticFeedback, hapticSelection } = useTelegram();
+  const { t } = useTranslation();
+  const { channelIds: picked, toggle } = useCompareStore();
+
+  const ids = (searchParams.get('ids') ?? '').split(',').filter(Boolean);
+
+  const { data, isLoading, error, refetch, isRefetching } = useQuery({
+    queryKey: ['channels-compare', ids.join(',')],
+    queryFn: async () => {
+      const response = await api.get<ChannelComparison>(`/channels/compare?ids=${ids.join(',')}`);
+      return response.data;
+    },
+    enabled: ids.length >= 2,
+  });
+
+  const removeChannel = (channelId: string) => {
+    hapticSelection?.();
+    if (picked.includes(channelId)) toggle(channelId);
+
+    const rest = ids.filter((id) => id !== channelId);
+    if (rest.length < 2) {
+      navigate('/channels');
+    } else {
+      setSearchParams({ ids: rest.join(',') });
+    }
+  };
+
+  const header = (
+    <div className="flex items-center gap-3 mb-4">
+      <button
+        onClick={() => {
+          hapticFeedback?.('light');
+          navigate('/channels');
+        }}
+        className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center"
+      >
+        <ArrowLeft size={20} />
+      </button>
+      <h1 className="text-xl font-bold">{t.compare.title}</h1>
+    </div>
+  );
+
+  if (ids.length < 2) {
+    return (
+      <PageTransition>
+        <div className="p-4">
+          {header}
+          <Card className="text-center py-12">
+            <p className="text-tg-hint font-medium">{t.compare.pickChannels}</p>
+            <Button variant="secondary" className="mt-4" onClick={() => navigate('/channels')}>
+              <ArrowLeft size={18} /> {t.ui.back}
+            </Button>
+          </Card>
+        </div>
+      </PageTransition>
+    );
+  }
+
+  if (!data && isLoading) {
+    return (
+      <PageTransition>
+        <div className="p-4">
+          {header}
+          <div className="h-32 skeleton rounded-2xl mb-4" />
+          <div className="h-48 skeleton rounded-2xl mb-4" />
+          <div className="h-32 skeleton rounded-2xl" />
+        </div>
+      </PageTransition>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <PageTransition>
+        <div className="p-4">
+          {header}
+          <ErrorCard onRetry={() => refetch()} isRetrying={isRefetching} />
+        </div>
+      </PageTransition>
+    );
+  }
+
+  const { channels, countries, languages } = data;
+
+  const formatLabels: Record<string, string> = {
+    '1_24': t.channels.format1_24,
+    '2_48': t.channels.format2_48,
+    'no_delete': t.channels.formatNoDelete,
+    'repost': t.channels.formatRepost,
+  };
+
+  const metrics: MetricRow[] = [
+    { label: t.compare.subscribers, value: (c) => c.subscriberCount, format: formatNumber },
+    { label: t.channels.avgViews, value: (c) => c.avgViews, format: formatNumber },
+    { label: t.channels.er, value: (c) => c.engagementRate, format: (v) => `${v.toFixed(1)}%` },
+    { label: t.channels.growthWeek, value: (c) => c.subscriberGrowthWeek, format: formatGrowth },
+    { label: t.channels.growthMonth, value: (c) => c.subscriberGrowthMonth, format: formatGrowth },
+  ];
+
+  const trustMetrics: MetricRow[] = [
+    { label: t.channels.rating, value: (c) => (c.reviewsCount > 0 ? c.rating : undefined), format: (v) => v.toFixed(1) },
+    { label: t.channels.successRate, value: (c) => (c.completedDealsCount > 0 ? c.successRate : undefined), format: (v) => `${v.toFixed(0)}%` },
+    { label: t.channels.completedDeals, value: (c) => c.completedDealsCount, format: (v) => v.toString() },
+  ];
+
+  const priceMetrics: MetricRow[] = channels[0].formats.flatMap(({ format }) => [
+    {
+      label: `${formatLabels[format] || format}, TON`,
+      value: (c: CompareChannel) => parsePrice(c.formats.find((f) => f.format === format)?.price),
+      format: (v: number) => v.toString(),
+      lowerIsBetter: true,
+    },
+    {
+      label: `${formatLabels[format] || format}, ${t.compare.cpm}`,
+      value: (c: CompareChannel) => parsePrice(c.formats.find((f) => f.format === format)?.cpm),
+      format: (v: number) => v.toFixed(3),
+      lowerIsBetter: true,
+    },
+  ]);
+
+  // Same color for a language in every donut
+  const languageColor = (language: string) => KEY_COLORS[languages.indexOf(language) % KEY_COLORS.length];
+  const donutColors = (stats: Record<string, number>) =>
+    Object.entries(stats)
+      .filter(([, value]) => value > 0)
+      .sort(([, a], [, b]) => b - a)
+      .map(([language]) => languageColor(language));
+
+  const columns = { gridTemplateColumns: `repeat(${channels.length}, minmax(${COLUMN_MIN_WIDTH}px, 1fr))` };
+
+  const renderMetrics = (rows: MetricRow[]) =>
+    rows.map((row) => {
+      const values = channels.map(row.value);
+      const known = values.filter((v): v is number => v !== undefined);
+      const best = known.length > 1 ? (row.lowerIsBetter ? Math.min(...known) : Math.max(...known)) : undefined;
+
+      return (
+        <div key={row.label} className="py-2 border-b border-white/5 last:border-0">
+          <p className="text-xs text-tg-hint mb-1">{row.label}</p>
+          <div className="grid gap-2" style={columns}>
+            {values.map((value, index) => (
+              <span
+                key={channels[index].id}
+                className={`text-sm font-semibold ${value !== undefined && value === best ? 'text-green-400' : ''}`}
+              >
+                {value !== undefined ? row.format(value) : '—'}
+              </span>
+            ))}
+          </div>
+        </div>
+      );
+    });
+
+  return (
+    <PageTransition>
+      <div className="p-4 pb-24">
+        {header}
+
+        <div className="overflow-x-auto hide-scrollbar -mx-4 px-4">
+          <div className="space-y-4" style={{ minWidth: channels.length * COLUMN_MIN_WIDTH }}>
+            {/* Channels */}
+            <div className="grid gap-2" style={columns}>
+              {channels.map((channel) => (
+                <Card key={channel.id} className="relative p-3">
+                  <button
+                    onClick={() => removeChannel(channel.id)}
+                    className="absolute top-2 right-2 p-1 text-tg-hint"
+                    aria-label={t.compare.remove}
+                  >
+                    <X size={14} />
+                  </button>
+                  <Link to={`/channels/${channel.id}`} className="flex flex-col items-center text-center gap-2">
+                    {channel.avatarUrl ? (
+                      <img src={channel.avatarUrl} alt="" className="w-12 h-12 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-12 h-12 rounded-full bg-white/10 flex items-center justify-center">
+                        <Users size={20} className="text-tg-hint" />
+                      </div>
+                    )}
+                    <span className="text-sm font-semibold line-clamp-2 flex items-center gap-1">
+                      {channel.title}
+                      {channel.isVerified && <CheckCircle size={12} className="text-blue-400 flex-shrink-0" />}
+                    </span>
+                    {channel.username && <span className="text-xs text-tg-hint">@{channel.username}</span>}
+                  </Link>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <h3 className="font-semibold mb-2 flex items-center gap-2">
+                <Users size={18} className="text-accent" />
+                {t.channels.statistics}
+              </h3>
+              {renderMetrics(metrics)}
+            </Card>
+
+            <Card>
+              <h3 className="font-semibold mb-2 flex items-center gap-2">
+                <Tag size={18} className="text-accent" />
+                {t.channels.pricingByFormat}
+              </h3>
+              <p className="text-xs text-tg-hint mb-1">{t.compare.cpmHint}</p>
+              {renderMetrics(priceMetrics)}
+            </Card>
+
+            <Card>
+              <h3 className="font-semibold mb-2 flex items-center gap-2">
+                <Star size={18} className="text-accent" />
+                {t.channels.trust}
+              </h3>
+              {renderMetrics(trustMetrics)}
+            </Card>
+
+            <Card>
+              <h3 className="font-semibold mb-4 flex items-center gap-2">
+                <BarChart3 size={18} className="text-accent" />
+                {t.channels.historyCharts}
+              </h3>
+              {[
+                { label: t.channels.subscribersHistory, color: '#3B82F6', history: (c: CompareChannel) => c.subscribersHistory },
+                { label: t.channels.viewsHistory, color: '#10B981', history: (c: CompareChannel) => c.viewsHistory },
+              ].map((chart) => (
+                <div key={chart.label} className="mb-4 last:mb-0">
+                  <p className="text-xs text-tg-hint mb-2">{chart.label}</p>
+                  <div className="grid gap-2" style={columns}>
+                    {channels.map((channel) =>
+                      chart.history(channel).length > 1 ? (
+                        <MiniLineChart key={channel.id} data={chart.history(channel)} color={chart.color} height={60} />
+                      ) : (
+                        <span key={channel.id} className="text-xs text-tg-hint">{t.common.noData}</span>
+                      )
+                    )}
+                  </div>
+                </div>
+              ))}
+            </Card>
+
+            {(countries.length > 0 || languages.length > 0) && (
+              <Card>
+                <h3 className="font-semibold mb-2 flex items-center gap-2">
+                  <Globe size={18} className="text-accent" />
+                  {t.channels.audience}
+                </h3>
+
+                {countries.length > 0 && (
+                  <div className="mb-4">
+                    <p className="text-sm text-tg-hint mb-1">{t.channels.geography}</p>
+                    {countries.map((country) => (
+                      <div key={country} className="py-1.5">
+                        <p className="text-xs font-medium mb-1">{country}</p>
+                        <div className="grid gap-2" style={columns}>
+                          {channels.map((channel) => (
+                            <div key={channel.id} className="flex items-center gap-2">
+                              <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full rounded-full bg-blue-500"
+                                  style={{ width: `${channel.audienceGeo[country] ?? 0}%` }}
+                                />
+                              </div>
+                              <span className="text-xs w-9 text-right">{channel.audienceGeo[country] ?? 0}%</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {languages.length > 0 && (
+                  <div>
+                    <p className="text-sm text-tg-hint mb-2">{t.channels.languageStats}</p>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 mb-3">
+                      {languages.map((language) => (
+                        <span key={language} className="flex items-center gap-1.5 text-xs">
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: languageColor(language) }} />
+                          {language}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="grid gap-2 justify-items-center" style={columns}>
+                      {channels.map((channel) => (
+                        <DonutChart
+                          key={channel.id}
+                          data={channel.languageStats}
+                          colors={donutColors(channel.languageStats)}
+                          size={96}
+                          strokeWidth={12}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
+
+function parsePrice(value?: string): number | undefined {
+  return value !== undefined ? Number(value) : undefined;
+}
+
+function formatNumber(num: number): string {
+  if (Math.abs(num) >= 1000000) return (num / 1000000).toFixed(1) + 'M';
+  if (Math.abs(num) >= 1000) return (num / 1000).toFixed(1) + 'K';
+  return num.toString();
+}
+
+function formatGrowth(num: number): string {
+  return num > 0 ? `+${formatNumber(num)}` : formatNumber(num);
+}
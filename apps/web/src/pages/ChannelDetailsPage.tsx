@@ -56,7 +56,8 @@ interface ChannelDetails {
   subscriberCount: number;
   avgViews: number;
   pricePerPost: string;
-  formatPrices?: Record<string, string>;
+  pricePerPostUsdt?: string;
+  formatPrices?: Partial<Record<'TON' | 'USDT', Record<string, string>>>;
   categories: string[];
   language: string;
   status: string;
@@ -351,11 +352,14 @@ export function ChannelDetailsPage() {
                   )}
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-1">
-                      {channel.formatPrices && Object.keys(channel.formatPrices).length > 0 && (
+                      {channel.formatPrices?.TON && Object.keys(channel.formatPrices.TON).length > 0 && (
                         <span className="text-sm text-tg-hint">{t.channels.fromPrice}</span>
                       )}
                       <span className="text-2xl font-bold text-accent">{channel.pricePerPost}</span>
                       <span className="text-tg-hint">TON</span>
+                      {channel.pricePerPostUsdt && (
+                        <span className="text-sm text-tg-hint">/ {channel.pricePerPostUsdt} USDT</span>
+                      )}
                     </div>
                     <p className="text-sm text-tg-hint">{t.channels.pricePerPost}</p>
                   </div>
@@ -783,21 +787,24 @@ export function ChannelDetailsPage() {
               </div>
 
               {/* Format Prices Table */}
-              {channel.formatPrices && Object.keys(channel.formatPrices).length > 0 && (
+              {channel.formatPrices?.TON && Object.keys(channel.formatPrices.TON).length > 0 && (
                 <div className="mb-4">
                   <p className="text-sm text-tg-hint mb-2">{t.channels.pricingByFormat}</p>
                   <div className="space-y-2">
-                    {Object.entries(channel.formatPrices).map(([key, price]) => {
+                    {Object.entries(channel.formatPrices.TON).map(([key, price]) => {
                       const labels: Record<string, string> = {
                         '1_24': t.channels.format1_24,
                         '2_48': t.channels.format2_48,
                         'no_delete': t.channels.formatNoDelete,
                         'repost': t.channels.formatRepost,
                       };
+                      const usdtPrice = channel.formatPrices?.USDT?.[key];
                       return (
                         <div key={key} className="flex justify-between items-center p-3 rounded-xl bg-white/5">
                           <span className="text-sm font-medium">{labels[key] || key}</span>
-                          <span className="text-sm font-bold text-accent">{price} TON</span>
+                          <span className="text-sm font-bold text-accent">
+                            {price} TON{usdtPrice && ` / ${usdtPrice} USDT`}
+                          </span>
                         </div>
                       );
                     })}
@@ -935,6 +942,7 @@ export function ChannelDetailsPage() {
             username: channel.username,
             avatarUrl: channel.avatarUrl,
             pricePerPost: channel.pricePerPost,
+            pricePerPostUsdt: channel.pricePerPostUsdt,
             formatPrices: channel.formatPrices,
           }}
         />
@@ -13,7 +13,8 @@ interface ChannelDetails {
   title: string;
   username?: string;
   pricePerPost: string;
-  formatPrices?: Record<string, string>;
+  pricePerPostUsdt?: string;
+  formatPrices?: Partial<Record<Currency, Record<string, string>>>;
   categories: string[];
   adFormats: string[];
   postDuration: string;
@@ -22,6 +23,10 @@ interface ChannelDetails {
   description?: string;
 }
 
+type Currency = 'TON' | 'USDT';
+
+const CURRENCIES: Currency[] = ['TON', 'USDT'];
+
 const FORMAT_PRICE_KEYS = [
   { id: '1_24', label: '1/24ч', labelEn: '1/24h' },
   { id: '2_48', label: '2/48ч', labelEn: '2/48h' },
@@ -68,8 +73,9 @@ export function ChannelSettingsPage() {
 
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [pricePerPost, setPricePerPost] = useState('');
+  const [pricePerPostUsdt, setPricePerPostUsdt] = useState('');
   const [useFormatPrices, setUseFormatPrices] = useState(false);
-  const [formatPrices, setFormatPrices] = useState<Record<string, string>>({});
+  const [formatPrices, setFormatPrices] = useState<Record<Currency, Record<string, string>>>({ TON: {}, USDT: {} });
   const [adFormats, setAdFormats] = useState<string[]>(['TEXT']);
   const [postDuration, setPostDuration] = useState('24H');
   const [customDuration, setCustomDuration] = useState('');
@@ -129,9 +135,10 @@ export function ChannelSettingsPage() {
     if (channel) {
       setSelectedCategories(channel.categories || []);
       setPricePerPost(channel.pricePerPost || '');
-      if (channel.formatPrices && Object.keys(channel.formatPrices).length > 0) {
+      setPricePerPostUsdt(channel.pricePerPostUsdt || '');
+      if (channel.formatPrices && Object.keys(channel.formatPrices.TON ?? {}).length > 0) {
         setUseFormatPrices(true);
-        setFormatPrices(channel.formatPrices);
+        setFormatPrices({ TON: channel.formatPrices.TON ?? {}, USDT: channel.formatPrices.USDT ?? {} });
       }
       setAdFormats(channel.adFormats?.length ? channel.adFormats : ['TEXT']);
       const duration = channel.postDuration || '24H';
@@ -151,15 +158,21 @@ export function ChannelSettingsPage() {
   const updateMutation = useMutation({
     mutationFn: async () => {
       const finalDuration = postDuration === 'CUSTOM' ? `${customDuration}H` : postDuration;
-      // Filter out empty format prices
+      // Filter out empty format prices and currencies without any price
       const cleanFormatPrices = useFormatPrices
         ? Object.fromEntries(
-            Object.entries(formatPrices).filter(([, v]) => v && parseFloat(v) > 0)
+            CURRENCIES.map((currency) => [
+              currency,
+              Object.fromEntries(
+                Object.entries(formatPrices[currency]).filter(([, v]) => v && parseFloat(v) > 0)
+              ),
+            ]).filter(([, prices]) => Object.keys(prices).length > 0)
           )
         : undefined;
       const response = await api.patch(`/channels/${id}`, {
         categories: selectedCategories,
         pricePerPost: useFormatPrices ? undefined : pricePerPost,
+        pricePerPostUsdt: useFormatPrices ? undefined : pricePerPostUsdt,
         formatPrices: cleanFormatPrices,
         adFormats,
         postDuration: finalDuration,
@@ -221,7 +234,7 @@ export function ChannelSettingsPage() {
     }
 
     if (useFormatPrices) {
-      const filledPrices = Object.values(formatPrices).filter((v) => v && parseFloat(v) > 0);
+      const filledPrices = Object.values(formatPrices.TON).filter((v) => v && parseFloat(v) > 0);
       if (filledPrices.length === 0) {
         setError('Укажите хотя бы одну цену по формату');
         return;
@@ -328,7 +341,7 @@ export function ChannelSettingsPage() {
           <Card>
             <label className="flex items-center gap-2 text-sm font-medium mb-3">
               <span>💰</span>
-              Цены за размещение (TON)
+              Цены за размещение (TON / USDT)
             </label>
 
             {/* Toggle: single price vs format prices */}
@@ -358,41 +371,63 @@ export function ChannelSettingsPage() {
             </div>
 
             {!useFormatPrices ? (
-              <div className="relative">
-                <input
-                  type="number"
-                  step="0.01"
-                  min="0.1"
-                  value={pricePerPost}
-                  onChange={(e) => setPricePerPost(e.target.value)}
-                  placeholder="0.00"
-                  className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors pr-16"
-                />
-                <span className="absolute right-4 top-1/2 -translate-y-1/2 text-tg-hint text-sm">TON</span>
+              <div className="space-y-3">
+                <div className="relative">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.1"
+                    value={pricePerPost}
+                    onChange={(e) => setPricePerPost(e.target.value)}
+                    placeholder="0.00"
+                    className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors pr-16"
+                  />
+                  <span className="absolute right-4 top-1/2 -translate-y-1/2 text-tg-hint text-sm">TON</span>
+                </div>
+                <div className="relative">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={pricePerPostUsdt}
+                    onChange={(e) => setPricePerPostUsdt(e.target.value)}
+                    placeholder="0.00"
+                    className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors pr-16"
+                  />
+                  <span className="absolute right-4 top-1/2 -translate-y-1/2 text-tg-hint text-sm">USDT</span>
+                </div>
+                <p className="text-xs text-tg-hint">
+                  Оставьте цену в USDT пустой, если не принимаете оплату в USDT
+                </p>
               </div>
             ) : (
               <div className="space-y-3">
                 {FORMAT_PRICE_KEYS.map((fmt) => (
                   <div key={fmt.id} className="flex items-center gap-3">
                     <span className="text-sm font-medium w-28 text-tg-hint">{fmt.label}</span>
-                    <div className="relative flex-1">
-                      <input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        value={formatPrices[fmt.id] || ''}
-                        onChange={(e) =>
-                          setFormatPrices((prev) => ({ ...prev, [fmt.id]: e.target.value }))
-                        }
-                        placeholder="0.00"
-                        className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors pr-16 text-sm"
-                      />
-                      <span className="absolute right-4 top-1/2 -translate-y-1/2 text-tg-hint text-xs">TON</span>
-                    </div>
+                    {CURRENCIES.map((currency) => (
+                      <div key={currency} className="relative flex-1">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={formatPrices[currency][fmt.id] || ''}
+                          onChange={(e) =>
+                            setFormatPrices((prev) => ({
+                              ...prev,
+                              [currency]: { ...prev[currency], [fmt.id]: e.target.value },
+                            }))
+                          }
+                          placeholder="0.00"
+                          className="w-full px-3 py-2.5 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors pr-14 text-sm"
+                        />
+                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-tg-hint text-xs">{currency}</span>
+                      </div>
+                    ))}
                   </div>
                 ))}
                 <p className="text-xs text-tg-hint">
-                  Оставьте пустым форматы, которые не предлагаете
+                  Оставьте пустым форматы, которые не предлагаете. Цены в USDT необязательны
                 </p>
               </div>
             )}
@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSearchParams, useNavigate, Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Users, Eye, Plus, Zap, Clock, CheckCircle, XCircle, ShoppingCart, ChevronRight, FileText, Image as ImageIcon, Video, Repeat, Ban, Megaphone, Star, SlidersHorizontal, X, Search, Scale } from 'lucide-react';
+import { Users, Eye, Plus, Zap, Clock, CheckCircle, XCircle, ShoppingCart, ChevronRight, FileText, Image as ImageIcon, Video, Repeat, Ban, Megaphone, Star, SlidersHorizontal, X, Search, Scale, Check, ShoppingBag, GitCompare } from 'lucide-react';
 import { api } from '../api/client';
 import { Card, Button, ChannelCardSkeleton, PageTransition, StaggerContainer, StaggerItem, ErrorCard } from '../components/ui';
 import { useTelegram } from '../hooks/useTelegram';
@@ -10,6 +10,10 @@ import { useAuthStore } from '../store/auth.store';
 import { AddChannelModal } from '../components/AddChannelModal';
 import { BoostModal } from '../components/BoostModal';
 import { CreateDealModal } from '../components/CreateDealModal';
+import { CartCheckoutModal } from '../components/CartCheckoutModal';
+import { SavedSearchesBar, SavedSearchFilters } from '../components/SavedSearchesBar';
+import { useCartStore } from '../store/cart.store';
+import { useCompareStore, MAX_COMPARE_CHANNELS } from '../store/compare.store';
 import { useTranslation } from '../i18n';
 
 interface Channel {
@@ -20,7 +24,9 @@ interface Channel {
   subscriberCount: number;
   avgViews: number;
   pricePerPost: string;
-  formatPrices?: Record<string, string>;
+  pricePerPostUsdt?: string;
+  formatPrices?: Partial<Record<'TON' | 'USDT', Record<string, string>>>;
+  cpm?: string;
   categories: string[];
   language: string;
   status: string;
@@ -39,15 +45,42 @@ interface Channel {
   reviewsCount: number;
 }
 
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+interface RangeFacet {
+  min: string;
+  max?: string;
+  count: number;
+}
+
 interface PaginatedChannels {
   items: Channel[];
   total: number;
   page: number;
   totalPages: number;
+  facets: {
+    categories: FacetCount[];
+    languages: FacetCount[];
+    priceBuckets: RangeFacet[];
+    subscriberBuckets: RangeFacet[];
+  };
 }
 
 type ViewMode = 'all' | 'my';
 
+const languageOptions = [
+  { value: 'ru', label: 'Русский' },
+  { value: 'en', label: 'English' },
+  { value: 'uk', label: 'Українська' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'fr', label: 'Français' },
+  { value: 'es', label: 'Español' },
+  { value: 'other', label: 'Other' },
+];
+
 export function ChannelsPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
@@ -58,6 +91,7 @@ export function ChannelsPage() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [boostChannel, setBoostChannel] = useState<Channel | null>(null);
   const [dealChannel, setDealChannel] = useState<Channel | null>(null);
+  const [showCart, setShowCart] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [searchInput, setSearchInput] = useState('');
   const [searchDebounced, setSearchDebounced] = useState('');
@@ -67,11 +101,16 @@ export function ChannelsPage() {
     subscribersMax: '',
     priceMin: '',
     priceMax: '',
+    cpmMin: '',
+    cpmMax: '',
     language: '',
   });
 
   const { hapticFeedback, hapticNotification, hapticSelection } = useTelegram();
   const { user, isAuthenticated } = useAuthStore();
+  const { items: cartItems, add: addToCart, remove: removeFromCart } = useCartStore();
+  const isInCart = (channelId: string) => cartItems.some((item) => item.channelId === channelId);
+  const { channelIds: compareIds, toggle: toggleCompare } = useCompareStore();
   const { t, translateCategory } = useTranslation();
   const queryClient = useQueryClient();
 
@@ -129,6 +168,8 @@ export function ChannelsPage() {
       if (filters.subscribersMax) params.set('maxSubscribers', filters.subscribersMax);
       if (filters.priceMin) params.set('minPrice', filters.priceMin);
       if (filters.priceMax) params.set('maxPrice', filters.priceMax);
+      if (filters.cpmMin) params.set('minCpm', filters.cpmMin);
+      if (filters.cpmMax) params.set('maxCpm', filters.cpmMax);
       if (filters.language) params.set('language', filters.language);
       const response = await api.get<PaginatedChannels>(`/channels?${params}`);
       return response.data;
@@ -193,10 +234,41 @@ export function ChannelsPage() {
   };
 
   const currentChannels = viewMode === 'all' ? (data?.items ?? []) : (myChannels ?? []);
+  const facets = data?.facets;
+  const facetCount = (list: FacetCount[] | undefined, value: string) => list?.find((f) => f.value === value)?.count ?? 0;
   const currentLoading = viewMode === 'all' ? isLoading : isLoadingMy;
   const currentError = viewMode === 'all' ? error : errorMy;
 
-  const hasActiveFilters = filters.subscribersMin || filters.subscribersMax || filters.priceMin || filters.priceMax || filters.language;
+  const hasActiveFilters = filters.subscribersMin || filters.subscribersMax || filters.priceMin || filters.priceMax || filters.cpmMin || filters.cpmMax || filters.language;
+
+  const savedSearchFilters: SavedSearchFilters = {
+    ...(searchDebounced !== '' && { search: searchDebounced }),
+    ...(sortBy !== '' && { sortBy }),
+    ...(selectedCategory !== null && { categories: [selectedCategory] }),
+    ...(filters.subscribersMin !== '' && { minSubscribers: Number(filters.subscribersMin) }),
+    ...(filters.subscribersMax !== '' && { maxSubscribers: Number(filters.subscribersMax) }),
+    ...(filters.priceMin !== '' && { minPrice: filters.priceMin }),
+    ...(filters.priceMax !== '' && { maxPrice: filters.priceMax }),
+    ...(filters.cpmMin !== '' && { minCpm: filters.cpmMin }),
+    ...(filters.cpmMax !== '' && { maxCpm: filters.cpmMax }),
+    ...(filters.language !== '' && { language: filters.language }),
+  };
+
+  const applySavedSearch = (saved: SavedSearchFilters) => {
+    setSearchInput(saved.search ?? '');
+    setSearchDebounced(saved.search ?? '');
+    setSortBy(saved.sortBy ?? '');
+    setSelectedCategory(saved.categories?.[0] ?? null);
+    setFilters({
+      subscribersMin: saved.minSubscribers?.toString() ?? '',
+      subscribersMax: saved.maxSubscribers?.toString() ?? '',
+      priceMin: saved.minPrice ?? '',
+      priceMax: saved.maxPrice ?? '',
+      cpmMin: saved.minCpm ?? '',
+      cpmMax: saved.maxCpm ?? '',
+      language: saved.language ?? '',
+    });
+  };
 
   const handleResetFilters = () => {
     hapticFeedback?.('light');
@@ -205,6 +277,8 @@ export function ChannelsPage() {
       subscribersMax: '',
       priceMin: '',
       priceMax: '',
+      cpmMin: '',
+      cpmMax: '',
       language: '',
     });
     setSortBy('');
@@ -216,17 +290,45 @@ export function ChannelsPage() {
       <div className="p-4">
         <div className="flex items-center justify-between mb-4">
           <h1 className="text-xl font-bold text-tg-text">{t.channels.title}</h1>
-          <Button
-            variant="primary"
-            size="sm"
-            onClick={() => {
-              hapticFeedback?.('light');
-              setShowAddModal(true);
-            }}
-          >
-            <Plus size={18} />
-            {t.common.add}
-          </Button>
+          <div className="flex gap-2">
+            {compareIds.length >= 2 && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  hapticFeedback?.('light');
+                  navigate(`/channels/compare?ids=${compareIds.join(',')}`);
+                }}
+              >
+                <GitCompare size={18} />
+                {t.compare.open} ({compareIds.length})
+              </Button>
+            )}
+            {cartItems.length > 0 && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  hapticFeedback?.('light');
+                  setShowCart(true);
+                }}
+              >
+                <ShoppingBag size={18} />
+                {t.channels.cart} ({cartItems.length})
+              </Button>
+            )}
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => {
+                hapticFeedback?.('light');
+                setShowAddModal(true);
+              }}
+            >
+              <Plus size={18} />
+              {t.common.add}
+            </Button>
+          </div>
         </div>
 
         {/* View Mode Toggle */}
@@ -285,6 +387,17 @@ export function ChannelsPage() {
           </div>
         )}
 
+        {/* Saved searches - only for All Channels */}
+        {viewMode === 'all' && isAuthenticated && (
+          <SavedSearchesBar
+            filters={savedSearchFilters}
+            canSave={Object.keys(savedSearchFilters).length > 0}
+            onApply={applySavedSearch}
+            applyId={searchParams.get('savedSearch')}
+            onApplied={() => setSearchParams({})}
+          />
+        )}
+
         {/* Sort + Category Filter + Filter Button - only for All Channels */}
         {viewMode === 'all' && (
           <div className="flex gap-2 pb-4 mb-4">
@@ -297,9 +410,14 @@ export function ChannelsPage() {
               }}
               className="flex-shrink-0 px-3 py-2 rounded-tg text-sm font-medium bg-tg-bg-secondary text-tg-text-secondary border-none focus:outline-none appearance-none cursor-pointer"
             >
-              <option value="">{t.filters.sortBySubscribers}</option>
+              {/* Without an explicit sort a search is ranked by relevance */}
+              <option value="">{searchDebounced ? t.filters.sortByRelevance : t.filters.sortBySubscribers}</option>
+              {searchDebounced
+                ? <option value="subscribers">{t.filters.sortBySubscribers}</option>
+                : <option value="relevance">{t.filters.sortByRelevance}</option>}
               <option value="price">{t.filters.sortByPriceAsc}</option>
               <option value="priceDesc">{t.filters.sortByPriceDesc}</option>
+              <option value="cpm">{t.filters.sortByCpm}</option>
               <option value="rating">{t.filters.sortByRating}</option>
               <option value="newest">{t.filters.sortByNewest}</option>
             </select>
@@ -341,6 +459,9 @@ export function ChannelsPage() {
                   >
                     <span>{cat.emoji}</span>
                     <span>{cat.label}</span>
+                    {cat.id && facets && (
+                      <span className="text-xs opacity-70">{facetCount(facets.categories, cat.id)}</span>
+                    )}
                   </motion.button>
                 );
               })}
@@ -391,6 +512,19 @@ export function ChannelsPage() {
                       className="flex-1 px-3 py-2 rounded-tg bg-tg-bg border border-tg-separator text-tg-text text-sm focus:outline-none focus:border-tg-link"
                     />
                   </div>
+                  {facets && (
+                    <RangeFacetChips
+                      buckets={facets.subscriberBuckets}
+                      // maxSubscribers is inclusive, the bucket bound is not
+                      toMax={(max) => String(Number(max) - 1)}
+                      format={(bound) => formatNumber(Number(bound)).replace('.0', '')}
+                      selected={{ min: filters.subscribersMin, max: filters.subscribersMax }}
+                      onSelect={(min, max) => {
+                        hapticSelection?.();
+                        setFilters(prev => ({ ...prev, subscribersMin: min, subscribersMax: max }));
+                      }}
+                    />
+                  )}
                 </div>
 
                 {/* Price Range */}
@@ -417,6 +551,44 @@ export function ChannelsPage() {
                       className="flex-1 px-3 py-2 rounded-tg bg-tg-bg border border-tg-separator text-tg-text text-sm focus:outline-none focus:border-tg-link"
                     />
                   </div>
+                  {facets && (
+                    <RangeFacetChips
+                      buckets={facets.priceBuckets}
+                      toMax={(max) => max}
+                      format={(bound) => bound}
+                      selected={{ min: filters.priceMin, max: filters.priceMax }}
+                      onSelect={(min, max) => {
+                        hapticSelection?.();
+                        setFilters(prev => ({ ...prev, priceMin: min, priceMax: max }));
+                      }}
+                    />
+                  )}
+                </div>
+
+                {/* CPM Range */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-tg-text mb-2">
+                    {t.filters.cpm}
+                  </label>
+                  <div className="flex gap-2 items-center">
+                    <input
+                      type="number"
+                      step="0.01"
+                      placeholder={t.filters.from}
+                      value={filters.cpmMin}
+                      onChange={(e) => setFilters(prev => ({ ...prev, cpmMin: e.target.value }))}
+                      className="flex-1 px-3 py-2 rounded-tg bg-tg-bg border border-tg-separator text-tg-text text-sm focus:outline-none focus:border-tg-link"
+                    />
+                    <span className="text-tg-text-secondary">—</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      placeholder={t.filters.to}
+                      value={filters.cpmMax}
+                      onChange={(e) => setFilters(prev => ({ ...prev, cpmMax: e.target.value }))}
+                      className="flex-1 px-3 py-2 rounded-tg bg-tg-bg border border-tg-separator text-tg-text text-sm focus:outline-none focus:border-tg-link"
+                    />
+                  </div>
                 </div>
 
                 {/* Language Filter */}
@@ -430,13 +602,11 @@ export function ChannelsPage() {
                     className="w-full px-3 py-2 rounded-tg bg-tg-bg border border-tg-separator text-tg-text text-sm focus:outline-none focus:border-tg-link"
                   >
                     <option value="">{t.filters.allLanguages}</option>
-                    <option value="ru">Русский</option>
-                    <option value="en">English</option>
-                    <option value="uk">Українська</option>
-                    <option value="de">Deutsch</option>
-                    <option value="fr">Français</option>
-                    <option value="es">Español</option>
-                    <option value="other">Other</option>
+                    {languageOptions.map((lang) => (
+                      <option key={lang.value} value={lang.value}>
+                        {lang.label}{facets ? ` (${facetCount(facets.languages, lang.value)})` : ''}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
@@ -570,7 +740,7 @@ export function ChannelsPage() {
                     <div className="flex items-center gap-2">
                       <div className="text-right">
                         <p className="text-lg font-bold text-tg-link">
-                          {channel.formatPrices && Object.keys(channel.formatPrices).length > 0
+                          {channel.formatPrices?.TON && Object.keys(channel.formatPrices.TON).length > 0
                             ? `${t.channels.fromPrice} ${channel.pricePerPost}`
                             : channel.pricePerPost}
                         </p>
@@ -589,6 +759,11 @@ export function ChannelsPage() {
                       <Eye size={14} />
                       <span>{formatNumber(channel.avgViews)} avg</span>
                     </div>
+                    {channel.cpm && (
+                      <div className="text-sm text-tg-text-secondary">
+                        CPM {Number(channel.cpm).toFixed(2)}
+                      </div>
+                    )}
                     {channel.rating > 0 && (
                       <div className="flex items-center gap-1.5 text-sm">
                         <Star size={14} className="fill-tg-warning text-tg-warning" />
@@ -677,18 +852,57 @@ export function ChannelsPage() {
                         </button>
                       </>
                     ) : (
-                      <button
-                        type="button"
-                        className="flex-1 tg-btn-primary flex items-center justify-center gap-2"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          hapticFeedback?.('medium');
-                          setDealChannel(channel);
-                        }}
-                      >
-                        <ShoppingCart size={18} />
-                        {t.channels.createDeal}
-                      </button>
+                      <>
+                        <button
+                          type="button"
+                          className="flex-1 tg-btn-primary flex items-center justify-center gap-2"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            hapticFeedback?.('medium');
+                            setDealChannel(channel);
+                          }}
+                        >
+                          <ShoppingCart size={18} />
+                          {t.channels.createDeal}
+                        </button>
+                        <button
+                          type="button"
+                          title={isInCart(channel.id) ? t.channels.removeFromCart : t.channels.addToCart}
+                          className={`tg-btn-secondary flex items-center justify-center ${isInCart(channel.id) ? 'text-tg-link' : ''}`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            hapticSelection?.();
+                            if (isInCart(channel.id)) {
+                              removeFromCart(channel.id);
+                            } else {
+                              addToCart({
+                                channelId: channel.id,
+                                title: channel.title,
+                                username: channel.username,
+                                avatarUrl: channel.avatarUrl,
+                                pricePerPost: channel.pricePerPost,
+                                pricePerPostUsdt: channel.pricePerPostUsdt,
+                                formatPrices: channel.formatPrices,
+                              });
+                            }
+                          }}
+                        >
+                          {isInCart(channel.id) ? <Check size={18} /> : <ShoppingBag size={18} />}
+                        </button>
+                        <button
+                          type="button"
+                          title={compareIds.includes(channel.id) ? t.compare.remove : t.compare.add}
+                          disabled={!compareIds.includes(channel.id) && compareIds.length >= MAX_COMPARE_CHANNELS}
+                          className={`tg-btn-secondary flex items-center justify-center disabled:opacity-50 ${compareIds.includes(channel.id) ? 'text-tg-link' : ''}`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            hapticSelection?.();
+                            toggleCompare(channel.id);
+                          }}
+                        >
+                          <GitCompare size={18} />
+                        </button>
+                      </>
                     )
                   ) : channel.status === 'REJECTED' && channel.ownerId === user?.id ? (
                     appealingChannelId === channel.id ? (
@@ -779,6 +993,11 @@ export function ChannelsPage() {
         onClose={() => setDealChannel(null)}
         channel={dealChannel}
       />
+
+      <CartCheckoutModal
+        isOpen={showCart}
+        onClose={() => setShowCart(false)}
+      />
     </PageTransition>
   );
 }
@@ -789,6 +1008,39 @@ function formatNumber(num: number): string {
   return num.toString();
 }
 
+interface RangeFacetChipsProps {
+  buckets: RangeFacet[];
+  toMax: (max: string) => string;
+  format: (bound: string) => string;
+  selected: { min: string; max: string };
+  onSelect: (min: string, max: string) => void;
+}
+
+// Quick range picks with the number of matching channels; tapping the selected one clears it
+function RangeFacetChips({ buckets, toMax, format, selected, onSelect }: RangeFacetChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-2">
+      {buckets.map((bucket) => {
+        const max = bucket.max ? toMax(bucket.max) : '';
+        const isActive = selected.min === bucket.min && selected.max === max;
+        if (bucket.count === 0 && !isActive) return null;
+        return (
+          <button
+            key={bucket.min}
+            onClick={() => (isActive ? onSelect('', '') : onSelect(bucket.min, max))}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+              isActive ? 'bg-tg-link text-white' : 'bg-tg-bg text-tg-text-secondary'
+            }`}
+          >
+            {bucket.max ? `${format(bucket.min)}–${format(bucket.max)}` : `${format(bucket.min)}+`}
+            <span className="ml-1 opacity-70">{bucket.count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 function getDurationLabel(duration: string, t: ReturnType<typeof useTranslation>['t']): string {
   const durationMap: Record<string, string> = {
     '24H': t.channels.duration24h,
@@ -17,18 +17,85 @@ import {
   Star,
   Edit3,
   MessageCircle,
+  Repeat,
+  Eye,
+  BarChart3,
 } from 'lucide-react';
 import { api } from '../api/client';
+import type { FeeBreakdown } from '../api/fees';
 import { Card, Button, StatusBadge, PageTransition, StaggerContainer, StaggerItem } from '../components/ui';
 import { useTelegram } from '../hooks/useTelegram';
 import { useAuthStore } from '../store/auth.store';
 import { useTranslation } from '../i18n';
 import { ReviewModal } from '../components/ReviewModal';
+import { MiniLineChart } from '../components/ChannelStatsCharts';
+
+type DealSlotStatus = 'SCHEDULED' | 'POSTED' | 'RELEASED' | 'DISPUTED';
+
+interface DealSlot {
+  id: string;
+  position: number;
+  status: DealSlotStatus;
+  scheduledPostTime: string;
+  contentType?: string;
+  contentText?: string;
+  contentMediaUrls: string[];
+  postUrl?: string;
+  actualPostTime?: string;
+  viewsAtVerification?: number;
+  verificationDeadline?: string;
+  amount: string;
+  platformFee: string;
+  releasedAt?: string;
+}
+
+type ViewsShortfallPolicy = 'RELEASE' | 'PRO_RATA' | 'DISPUTE';
+
+type DealOfferStatus = 'PENDING' | 'ACCEPTED' | 'COUNTERED' | 'CLOSED';
+
+interface DealOffer {
+  id: string;
+  proposedBy: 'advertiser' | 'channel_owner';
+  status: DealOfferStatus;
+  amount: string;
+  platformFee: string;
+  adFormat?: string;
+  scheduledPostTime?: string;
+  message?: string;
+  respondedAt?: string;
+  createdAt: string;
+}
+
+const AD_FORMAT_OPTIONS = [
+  { key: '1_24', label: '1/24h' },
+  { key: '2_48', label: '2/48h' },
+  { key: 'no_delete', label: 'No delete' },
+  { key: 'repost', label: 'Repost' },
+] as const;
+
+const offerStatusColor: Record<DealOfferStatus, string> = {
+  PENDING: 'text-amber-400',
+  ACCEPTED: 'text-green-400',
+  COUNTERED: 'text-tg-hint',
+  CLOSED: 'text-tg-hint',
+};
+
+// Value for a datetime-local input in local time
+function toLocalInput(value: string): string {
+  const d = new Date(value);
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 16);
+}
 
 interface Deal {
   id: string;
   amount: string;
   platformFee: string;
+  feeBreakdown?: FeeBreakdown;
+  currency?: 'TON' | 'USDT';
+  escrowMode?: 'CUSTODIAL' | 'CONTRACT';
+  escrowContractAddress?: string;
+  escrowContractStatus?: 'DEPLOYING' | 'FUNDED' | 'RELEASING' | 'REFUNDING' | 'RELEASED' | 'REFUNDED';
   status: string;
   contentType: string;
   contentText?: string;
@@ -37,8 +104,11 @@ interface Deal {
   scheduledPostTime?: string;
   actualPostTime?: string;
   minViewsRequired?: number;
+  viewsShortfallPolicy: ViewsShortfallPolicy;
   viewsAtVerification?: number;
   verificationDeadline?: string;
+  trackLinks: boolean;
+  contentDeadline?: string;
   disputeReason?: string;
   disputeDescription?: string;
   campaignId: string;
@@ -56,10 +126,26 @@ interface Deal {
   contentRevisionNote?: string;
   contentRevisionCount?: number;
   adFormat?: string;
+  slots?: DealSlot[];
+  offers?: DealOffer[];
   createdAt: string;
   updatedAt: string;
 }
 
+const slotStatusIcon: Record<DealSlotStatus, typeof Clock> = {
+  SCHEDULED: Calendar,
+  POSTED: Clock,
+  RELEASED: CheckCircle,
+  DISPUTED: AlertCircle,
+};
+
+const slotStatusColor: Record<DealSlotStatus, string> = {
+  SCHEDULED: 'text-tg-hint',
+  POSTED: 'text-amber-400',
+  RELEASED: 'text-green-400',
+  DISPUTED: 'text-red-400',
+};
+
 interface DealMessage {
   id: string;
   dealId: string;
@@ -69,6 +155,44 @@ interface DealMessage {
   createdAt: string;
 }
 
+interface DealPostMetric {
+  sampledAt: string;
+  slotPosition?: number;
+  views: number;
+  forwards: number;
+  reactions: number;
+  replies: number;
+}
+
+interface DealClickStats {
+  views?: number;
+  clicks: number;
+  uniqueClicks: number;
+  ctr?: number;
+  links: { url: string; targetUrl: string; clicks: number; uniqueClicks: number }[];
+}
+
+type PostMetricTotals = Omit<DealPostMetric, 'sampledAt' | 'slotPosition'>;
+
+/**
+ * Running totals over all posts of the deal: each sample updates its post's
+ * counters, so a multi-slot deal charts its combined reach
+ */
+function postMetricTotals(samples: DealPostMetric[]): { date: string; totals: PostMetricTotals }[] {
+  const latest = new Map<number, PostMetricTotals>();
+  return samples.map(({ sampledAt, slotPosition, ...metrics }) => {
+    latest.set(slotPosition ?? 0, metrics);
+    const totals = { views: 0, forwards: 0, reactions: 0, replies: 0 };
+    for (const m of latest.values()) {
+      totals.views += m.views;
+      totals.forwards += m.forwards;
+      totals.reactions += m.reactions;
+      totals.replies += m.replies;
+    }
+    return { date: sampledAt, totals };
+  });
+}
+
 interface Appeal {
   id: string;
   type: string;
@@ -126,6 +250,13 @@ export function DealDetailsPage() {
   const [draftContentText, setDraftContentText] = useState('');
   const [showRevisionForm, setShowRevisionForm] = useState(false);
   const [revisionNote, setRevisionNote] = useState('');
+  // Counter-offer states
+  const [showOfferForm, setShowOfferForm] = useState(false);
+  const [offerAmount, setOfferAmount] = useState('');
+  const [offerAdFormat, setOfferAdFormat] = useState('');
+  const [offerPostTime, setOfferPostTime] = useState('');
+  const [offerMessage, setOfferMessage] = useState('');
+  const [offerError, setOfferError] = useState<string | null>(null);
   // Messaging states
   const [messageText, setMessageText] = useState('');
   const [showMessages, setShowMessages] = useState(false);
@@ -267,6 +398,58 @@ export function DealDetailsPage() {
     onError: () => hapticNotification?.('error'),
   });
 
+  // Counter-offers: either party proposes other terms, the other accepts or counters
+  const proposeOfferMutation = useMutation({
+    mutationFn: () =>
+      api.post(`/deals/${id}/offers`, {
+        amount: offerAmount || undefined,
+        adFormat: offerAdFormat || undefined,
+        scheduledPostTime: offerPostTime ? new Date(offerPostTime).toISOString() : undefined,
+        message: offerMessage.trim() || undefined,
+      }),
+    onSuccess: () => {
+      hapticNotification?.('success');
+      queryClient.invalidateQueries({ queryKey: ['deal', id] });
+      setShowOfferForm(false);
+      setOfferMessage('');
+      setOfferError(null);
+    },
+    onError: (error: Error) => {
+      hapticNotification?.('error');
+      setOfferError(error.message);
+    },
+  });
+
+  const acceptOfferMutation = useMutation({
+    mutationFn: (offerId: string) => api.post(`/deals/${id}/offers/${offerId}/accept`),
+    onSuccess: () => {
+      hapticNotification?.('success');
+      setOfferError(null);
+      queryClient.invalidateQueries({ queryKey: ['deal', id] });
+      queryClient.invalidateQueries({ queryKey: ['deals'] });
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+    },
+    onError: (error: Error) => {
+      hapticNotification?.('error');
+      const msg = error.message || '';
+      setOfferError(
+        msg.startsWith('BOT_NOT_ADMIN:')
+          ? t.dealDetails.botNotAdminMessage.replace('{bot}', msg.split(':')[1] || 'bot')
+          : msg,
+      );
+    },
+  });
+
+  const openOfferForm = () => {
+    if (!deal) return;
+    hapticFeedback?.('light');
+    setOfferAmount(deal.amount);
+    setOfferAdFormat(deal.adFormat ?? '');
+    setOfferPostTime(deal.scheduledPostTime ? toLocalInput(deal.scheduledPostTime) : '');
+    setOfferError(null);
+    setShowOfferForm(true);
+  };
+
   // Messaging
   const { data: messagesData } = useQuery({
     queryKey: ['deal-messages', id],
@@ -287,6 +470,27 @@ export function DealDetailsPage() {
     onError: () => hapticNotification?.('error'),
   });
 
+  // Post metrics, sampled by the worker after posting
+  const isPosted = !!deal?.actualPostTime || !!deal?.slots?.some((s) => s.actualPostTime);
+  const { data: metricsData } = useQuery({
+    queryKey: ['deal-metrics', id],
+    queryFn: async () => {
+      const response = await api.get<{ dealId: string; samples: DealPostMetric[] }>(`/deals/${id}/metrics`);
+      return response.data;
+    },
+    enabled: !!id && isPosted,
+  });
+  const { data: clickStats } = useQuery({
+    queryKey: ['deal-clicks', id],
+    queryFn: async () => {
+      const response = await api.get<DealClickStats>(`/deals/${id}/clicks`);
+      return response.data;
+    },
+    enabled: !!id && isPosted && !!deal?.trackLinks,
+  });
+  const metricsSeries = postMetricTotals(metricsData?.samples ?? []);
+  const latestMetrics = metricsSeries[metricsSeries.length - 1]?.totals;
+
   useEffect(() => {
     if (messagesData?.items?.length) {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -300,6 +504,20 @@ export function DealDetailsPage() {
   const channelUsername = deal?.channelUsername;
   const campaignTitle = deal?.campaignTitle;
 
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(language === 'ru' ? 'ru-RU' : 'en-US');
+
+  const myRole = isAdvertiser ? 'advertiser' : 'channel_owner';
+  // The scheduler cancels an unsubmitted deal and approves an unreviewed draft at this time
+  const contentDeadlineNote = deal?.contentDeadline && (
+    <p className="text-xs text-amber-400 mt-2">
+      {(deal.status === 'CONTENT_PENDING' ? t.dealDetails.contentDueBy : t.dealDetails.reviewDueBy)
+        .replace('{date}', formatDateTime(deal.contentDeadline))}
+    </p>
+  );
+  const openOffer = deal?.offers?.find((o) => o.status === 'PENDING');
+  const canNegotiate = deal?.status === 'PENDING' && !deal.slots;
+
   // Calculate total with fee
   const totalAmount = deal ? (parseFloat(deal.amount) + parseFloat(deal.platformFee)).toFixed(2) : '0';
 
@@ -407,19 +625,69 @@ export function DealDetailsPage() {
               <div className="relative flex justify-between items-center">
                 <div>
                   <p className="text-sm text-tg-hint">{t.dealDetails.dealAmount}</p>
-                  <p className="text-3xl font-bold text-accent">{deal.amount} TON</p>
+                  <p className="text-3xl font-bold text-accent">{deal.amount} {deal.currency ?? 'TON'}</p>
                 </div>
                 <div className="text-right">
-                  <p className="text-sm text-tg-hint">{t.dealDetails.fee}</p>
-                  <p className="text-lg font-semibold">{deal.platformFee} TON</p>
-                  <p className="text-xs text-tg-hint mt-1">{t.dealDetails.total}: {totalAmount} TON</p>
+                  <p className="text-sm text-tg-hint">
+                    {t.dealDetails.fee}{deal.feeBreakdown && ` (${deal.feeBreakdown.feePercent}%)`}
+                  </p>
+                  <p className="text-lg font-semibold">{deal.platformFee} {deal.currency ?? 'TON'}</p>
+                  <p className="text-xs text-tg-hint mt-1">{t.dealDetails.total}: {totalAmount} {deal.currency ?? 'TON'}</p>
                 </div>
               </div>
             </Card>
           </StaggerItem>
 
+          {/* On-chain escrow */}
+          {deal.escrowMode === 'CONTRACT' && (
+            <StaggerItem>
+              <Card>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <Lock size={16} className="text-accent" />
+                    <p className="font-medium">{t.dealDetails.onChainEscrow}</p>
+                  </div>
+                  {deal.escrowContractStatus && (
+                    <span className="text-xs text-tg-hint">
+                      {t.dealDetails.escrowContractStatuses[deal.escrowContractStatus]}
+                    </span>
+                  )}
+                </div>
+                {deal.escrowContractAddress ? (
+                  <p className="text-xs font-mono text-tg-hint break-all">{deal.escrowContractAddress}</p>
+                ) : (
+                  <p className="text-xs text-tg-hint">{t.dealDetails.escrowContractAfterApproval}</p>
+                )}
+              </Card>
+            </StaggerItem>
+          )}
+
+          {/* Views guarantee */}
+          {deal.minViewsRequired ? (
+            <StaggerItem>
+              <Card>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <Eye size={16} className="text-accent" />
+                    <p className="font-medium">{t.dealDetails.viewsGuarantee}</p>
+                  </div>
+                  <span className="text-xs text-tg-hint">{t.dealDetails.viewsPolicies[deal.viewsShortfallPolicy]}</span>
+                </div>
+                <p className="text-sm">
+                  {t.dealDetails.viewsTarget.replace('{views}', deal.minViewsRequired.toLocaleString())}
+                  {deal.viewsAtVerification != null && !deal.slots && (
+                    <span className={deal.viewsAtVerification >= deal.minViewsRequired ? 'text-green-400' : 'text-amber-400'}>
+                      {' · '}{t.dealDetails.viewsCollected.replace('{views}', deal.viewsAtVerification.toLocaleString())}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-tg-hint mt-1">{t.dealDetails.viewsPolicyHints[deal.viewsShortfallPolicy]}</p>
+              </Card>
+            </StaggerItem>
+          ) : null}
+
           {/* Scheduled Time */}
-          {deal.scheduledPostTime && (
+          {deal.scheduledPostTime && !deal.slots && (
             <StaggerItem>
               <Card className="bg-amber-500/10 border border-amber-500/20">
                 <div className="flex items-center gap-3">
@@ -433,6 +701,83 @@ export function DealDetailsPage() {
             </StaggerItem>
           )}
 
+          {/* Per-slot timeline of a multi-slot deal */}
+          {deal.slots && (
+            <StaggerItem>
+              <Card>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold flex items-center gap-2">
+                    <Calendar size={18} />
+                    {t.dealDetails.posts}
+                  </h3>
+                  <span className="text-xs text-tg-hint">
+                    {t.dealDetails.postsProgress
+                      .replace('{released}', String(deal.slots.filter((s) => s.status === 'RELEASED').length))
+                      .replace('{total}', String(deal.slots.length))}
+                  </span>
+                </div>
+                <div className="space-y-3">
+                  {deal.slots.map((slot, index) => {
+                    const Icon = slotStatusIcon[slot.status];
+                    const isLast = index === deal.slots!.length - 1;
+                    return (
+                      <div key={slot.id} className="flex gap-3">
+                        <div className="flex flex-col items-center">
+                          <div className={`w-8 h-8 rounded-full bg-white/5 flex items-center justify-center ${slotStatusColor[slot.status]}`}>
+                            <Icon size={16} />
+                          </div>
+                          {!isLast && <div className="flex-1 w-0.5 bg-white/10 mt-1" />}
+                        </div>
+                        <div className="flex-1 min-w-0 pb-1">
+                          <div className="flex items-center justify-between">
+                            <p className="font-medium text-sm">
+                              {t.dealDetails.postNumber.replace('{n}', String(slot.position))}
+                              {slot.contentText && (
+                                <span className="ml-2 text-xs text-tg-hint">{t.dealDetails.ownContent}</span>
+                              )}
+                            </p>
+                            <span className={`text-xs ${slotStatusColor[slot.status]}`}>
+                              {t.dealDetails.slotStatuses[slot.status]}
+                            </span>
+                          </div>
+                          <div className="text-xs text-tg-hint space-y-0.5 mt-1">
+                            <p>{t.dealDetails.slotScheduled}: {formatDateTime(slot.scheduledPostTime)}</p>
+                            {slot.actualPostTime && (
+                              <p>
+                                {t.dealDetails.slotPosted}: {formatDateTime(slot.actualPostTime)}
+                                {slot.postUrl && (
+                                  <a
+                                    href={slot.postUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="ml-1 text-accent inline-flex items-center gap-0.5"
+                                  >
+                                    {t.dealDetails.openPost} <ExternalLink size={10} />
+                                  </a>
+                                )}
+                              </p>
+                            )}
+                            {slot.status === 'POSTED' && slot.verificationDeadline && (
+                              <p>{t.dealDetails.slotVerifiedBy}: {formatDateTime(slot.verificationDeadline)}</p>
+                            )}
+                            {slot.releasedAt && (
+                              <p className="text-green-400">
+                                {t.dealDetails.slotReleased}: {slot.amount} {deal.currency ?? 'TON'} · {formatDateTime(slot.releasedAt)}
+                              </p>
+                            )}
+                            {!slot.releasedAt && (
+                              <p>{slot.amount} {deal.currency ?? 'TON'}</p>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            </StaggerItem>
+          )}
+
           {/* Channel & Campaign Info */}
           <StaggerItem>
             <Card>
@@ -461,6 +806,151 @@ export function DealDetailsPage() {
             </Card>
           </StaggerItem>
 
+          {/* Counter-offer thread */}
+          {(canNegotiate || deal.offers) && (
+            <StaggerItem>
+              <Card>
+                <h3 className="font-semibold mb-3 flex items-center gap-2">
+                  <Repeat size={18} />
+                  {t.dealDetails.offers}
+                </h3>
+
+                {deal.offers ? (
+                  <div className="space-y-2 mb-3">
+                    {deal.offers.map((offer) => (
+                      <div
+                        key={offer.id}
+                        className={`p-3 rounded-xl border ${
+                          offer.proposedBy === myRole ? 'bg-accent/10 border-accent/20 ml-6' : 'bg-white/5 border-white/10 mr-6'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-xs text-tg-hint">
+                            {offer.proposedBy === myRole
+                              ? t.dealDetails.offerByYou
+                              : offer.proposedBy === 'advertiser'
+                                ? t.dealDetails.offerByAdvertiser
+                                : t.dealDetails.offerByChannelOwner}
+                            {' · '}{formatDateTime(offer.createdAt)}
+                          </span>
+                          <span className={`text-xs ${offerStatusColor[offer.status]}`}>
+                            {t.dealDetails.offerStatuses[offer.status]}
+                          </span>
+                        </div>
+                        <p className="font-semibold">
+                          {offer.amount} {deal.currency ?? 'TON'}
+                          <span className="ml-1 text-xs font-normal text-tg-hint">
+                            + {offer.platformFee} {t.dealDetails.fee.toLowerCase()}
+                          </span>
+                        </p>
+                        <p className="text-xs text-tg-hint mt-0.5">
+                          {offer.adFormat && `${AD_FORMAT_OPTIONS.find((f) => f.key === offer.adFormat)?.label ?? offer.adFormat} · `}
+                          {offer.scheduledPostTime ? formatDateTime(offer.scheduledPostTime) : t.dealDetails.offerPostAfterApproval}
+                        </p>
+                        {offer.message && <p className="text-sm mt-2 whitespace-pre-wrap">{offer.message}</p>}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-tg-hint mb-3">{t.dealDetails.noOffers}</p>
+                )}
+
+                {offerError && (
+                  <div className="p-3 mb-3 rounded-xl bg-red-500/10 border border-red-500/30">
+                    <p className="text-sm text-red-400">{offerError}</p>
+                  </div>
+                )}
+
+                {canNegotiate && (showOfferForm ? (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="block text-xs text-tg-hint mb-1">{t.dealDetails.offerAmount} ({deal.currency ?? 'TON'})</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={offerAmount}
+                        onChange={(e) => setOfferAmount(e.target.value)}
+                        className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {AD_FORMAT_OPTIONS.map((opt) => (
+                        <button
+                          key={opt.key}
+                          type="button"
+                          onClick={() => setOfferAdFormat(offerAdFormat === opt.key ? '' : opt.key)}
+                          className={`py-2 rounded-lg text-xs transition-all duration-200 ${
+                            offerAdFormat === opt.key
+                              ? 'bg-accent/20 border-accent text-accent border'
+                              : 'bg-white/5 border border-white/10 text-tg-hint'
+                          }`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
+                    <div>
+                      <label className="block text-xs text-tg-hint mb-1">{t.dealDetails.offerPostTime}</label>
+                      <input
+                        type="datetime-local"
+                        value={offerPostTime}
+                        onChange={(e) => setOfferPostTime(e.target.value)}
+                        className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
+                      />
+                    </div>
+                    <textarea
+                      value={offerMessage}
+                      onChange={(e) => setOfferMessage(e.target.value)}
+                      placeholder={t.dealDetails.offerMessagePlaceholder}
+                      rows={2}
+                      maxLength={1000}
+                      className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors resize-none"
+                    />
+                    <div className="flex gap-2">
+                      <Button variant="secondary" fullWidth onClick={() => setShowOfferForm(false)}>
+                        {t.dealDetails.cancel}
+                      </Button>
+                      <Button
+                        variant="primary"
+                        fullWidth
+                        loading={proposeOfferMutation.isPending}
+                        disabled={!offerAmount || parseFloat(offerAmount) <= 0}
+                        onClick={() => proposeOfferMutation.mutate()}
+                      >
+                        {t.dealDetails.sendOffer}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button variant="secondary" fullWidth onClick={openOfferForm}>
+                      <Repeat size={18} />
+                      {openOffer && openOffer.proposedBy !== myRole ? t.dealDetails.counterOffer : t.dealDetails.proposeTerms}
+                    </Button>
+                    {openOffer && openOffer.proposedBy !== myRole && (
+                      <Button
+                        variant="primary"
+                        fullWidth
+                        loading={acceptOfferMutation.isPending}
+                        onClick={() => {
+                          hapticFeedback?.('medium');
+                          acceptOfferMutation.mutate(openOffer.id);
+                        }}
+                      >
+                        <CheckCircle size={18} />
+                        {t.dealDetails.acceptOffer}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {canNegotiate && openOffer && openOffer.proposedBy !== myRole && (
+                  <p className="text-xs text-tg-hint mt-2">{t.dealDetails.acceptOfferHint}</p>
+                )}
+              </Card>
+            </StaggerItem>
+          )}
+
           {/* Ad Content Preview */}
           <StaggerItem>
             <Card>
@@ -501,6 +991,65 @@ export function DealDetailsPage() {
             </StaggerItem>
           )}
 
+          {/* Post metrics over time */}
+          {isPosted && (
+            <StaggerItem>
+              <Card>
+                <h3 className="font-semibold mb-3 flex items-center gap-2">
+                  <BarChart3 size={18} />
+                  {t.dealDetails.postMetrics}
+                </h3>
+                {latestMetrics ? (
+                  <>
+                    <MiniLineChart
+                      data={metricsSeries.map((p) => ({ date: p.date, value: p.totals.views }))}
+                      color="#3B82F6"
+                      height={80}
+                    />
+                    <div className="grid grid-cols-4 gap-2 mt-3 text-center">
+                      {(['views', 'forwards', 'reactions', 'replies'] as const).map((key) => (
+                        <div key={key}>
+                          <p className="font-semibold">{latestMetrics[key].toLocaleString()}</p>
+                          <p className="text-xs text-tg-hint">{t.dealDetails.postMetricLabels[key]}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-tg-hint">{t.dealDetails.postMetricsEmpty}</p>
+                )}
+                {clickStats && (
+                  <div className="mt-3 pt-3 border-t border-white/10">
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      <div>
+                        <p className="font-semibold">{clickStats.clicks.toLocaleString()}</p>
+                        <p className="text-xs text-tg-hint">{t.dealDetails.linkClicks}</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold">{clickStats.uniqueClicks.toLocaleString()}</p>
+                        <p className="text-xs text-tg-hint">{t.dealDetails.uniqueClicks}</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-accent">{clickStats.ctr != null ? `${clickStats.ctr}%` : '—'}</p>
+                        <p className="text-xs text-tg-hint">{t.dealDetails.ctr}</p>
+                      </div>
+                    </div>
+                    {clickStats.links.length > 1 && (
+                      <div className="space-y-1 mt-3">
+                        {clickStats.links.map((link) => (
+                          <div key={link.url} className="flex items-center justify-between gap-3 text-xs">
+                            <span className="truncate text-tg-hint">{link.targetUrl}</span>
+                            <span className="shrink-0">{link.clicks} / {link.uniqueClicks}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </Card>
+            </StaggerItem>
+          )}
+
           {/* Actions for Advertiser */}
           {isAdvertiser && (
             <StaggerItem>
@@ -525,6 +1074,7 @@ export function DealDetailsPage() {
                     <Edit3 size={32} className="mx-auto text-amber-500 mb-2" />
                     <p className="font-medium">{t.dealDetails.contentPending}</p>
                     <p className="text-sm text-tg-hint mt-1">{t.dealDetails.ownerPreparingContent}</p>
+                    {contentDeadlineNote}
                   </div>
                 )}
 
@@ -532,6 +1082,7 @@ export function DealDetailsPage() {
                 {deal.status === 'CONTENT_SUBMITTED' && (
                   <div className="space-y-3">
                     <p className="text-sm text-tg-hint">{t.dealDetails.reviewDraftContent}</p>
+                    {contentDeadlineNote}
 
                     {/* Show draft content */}
                     {deal.draftContentText && (
@@ -752,6 +1303,7 @@ export function DealDetailsPage() {
                 {/* CONTENT_PENDING - channel owner submits content */}
                 {deal.status === 'CONTENT_PENDING' && (
                   <div className="space-y-3">
+                    {contentDeadlineNote}
                     {/* Show brief from advertiser */}
                     {deal.briefText && (
                       <div className="p-4 rounded-xl bg-accent/5 border border-accent/20">
@@ -797,6 +1349,7 @@ export function DealDetailsPage() {
                     <Clock size={32} className="mx-auto text-amber-500 mb-2" />
                     <p className="font-medium">{t.dealDetails.contentSubmitted}</p>
                     <p className="text-sm text-tg-hint mt-1">{t.dealDetails.waitingForApproval}</p>
+                    {contentDeadlineNote}
                   </div>
                 )}
 
@@ -827,7 +1380,7 @@ export function DealDetailsPage() {
                     <CheckCircle size={32} className="mx-auto text-green-500 mb-2" />
                     <p className="font-semibold text-green-500">{t.dealDetails.adPublishedSuccess}</p>
                     <p className="text-sm text-tg-hint mt-1">
-                      {t.dealDetails.youWillReceive} <span className="text-accent font-medium">{deal.amount} TON</span> {t.dealDetails.automatically}
+                      {t.dealDetails.youWillReceive} <span className="text-accent font-medium">{deal.amount} {deal.currency ?? 'TON'}</span> {t.dealDetails.automatically}
                     </p>
                     {deal.verificationDeadline && (
                       <div className="mt-3 p-3 rounded-xl bg-green-500/10 border border-green-500/20">
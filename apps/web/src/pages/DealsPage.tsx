@@ -6,6 +6,7 @@ import { api } from '../api/client';
 import { Card, Button, StatusBadge, CardSkeleton, PageTransition, SegmentedControl, StaggerContainer, StaggerItem, ErrorCard } from '../components/ui';
 import { useTelegram } from '../hooks/useTelegram';
 import { useTranslation } from '../i18n';
+import { RecurringDealsSection } from '../components/RecurringDealsSection';
 
 interface Deal {
   id: string;
@@ -73,6 +74,8 @@ export function DealsPage() {
           className="mb-4"
         />
 
+        <RecurringDealsSection role={role} />
+
         {isLoading && <div className="space-y-3">{[1, 2, 3].map((i) => <CardSkeleton key={i} />)}</div>}
 
         {error && (
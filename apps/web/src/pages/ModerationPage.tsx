@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { CheckCircle, XCircle, Clock, Radio, FolderOpen, ExternalLink, Scale, AlertTriangle } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, Radio, FolderOpen, ExternalLink, Scale, AlertTriangle, Wallet, HelpCircle, Undo2 } from 'lucide-react';
 import { api } from '../api/client';
 import { Card, Button, PageTransition, StaggerContainer, StaggerItem } from '../components/ui';
 import { useTelegram } from '../hooks/useTelegram';
@@ -46,7 +46,34 @@ interface Appeal {
   createdAt: string;
 }
 
-type Tab = 'channels' | 'folders' | 'appeals';
+interface WithdrawalReview {
+  id: string;
+  amount: string;
+  currency: string;
+  toAddress: string;
+  createdAt: string;
+  user: {
+    id: string;
+    username?: string;
+    firstName?: string;
+    registeredAt: string;
+  };
+}
+
+interface SuspenseTransfer {
+  id: string;
+  tonTxHash: string;
+  currency: string;
+  amount: string;
+  fromAddress: string;
+  memo?: string;
+  reason: 'NO_MEMO' | 'UNKNOWN_MEMO' | 'CURRENCY_MISMATCH';
+  status: string;
+  receivedAt: string;
+  refundError?: string;
+}
+
+type Tab = 'channels' | 'folders' | 'appeals' | 'withdrawals' | 'suspense';
 
 export function ModerationPage() {
   const [activeTab, setActiveTab] = useState<Tab>('channels');
@@ -54,6 +81,9 @@ export function ModerationPage() {
   const [rejectReason, setRejectReason] = useState('');
   const [resolvingId, setResolvingId] = useState<string | null>(null);
   const [adminNotes, setAdminNotes] = useState('');
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+  const [assignTo, setAssignTo] = useState('');
+  const [suspenseNote, setSuspenseNote] = useState('');
 
   const { hapticFeedback, hapticNotification, hapticSelection } = useTelegram();
   const queryClient = useQueryClient();
@@ -84,6 +114,22 @@ export function ModerationPage() {
     },
   });
 
+  const { data: withdrawals, isLoading: loadingWithdrawals } = useQuery({
+    queryKey: ['review-withdrawals'],
+    queryFn: async () => {
+      const response = await api.get<WithdrawalReview[]>('/admin/withdrawals/review');
+      return response.data;
+    },
+  });
+
+  const { data: suspenseTransfers, isLoading: loadingSuspense } = useQuery({
+    queryKey: ['suspense-transfers'],
+    queryFn: async () => {
+      const response = await api.get<SuspenseTransfer[]>('/admin/suspense');
+      return response.data;
+    },
+  });
+
   const pendingAppeals = appeals?.filter((a) => a.status === 'PENDING') ?? [];
 
   const approveChannelMutation = useMutation({
@@ -162,7 +208,71 @@ export function ModerationPage() {
     onError: () => hapticNotification?.('error'),
   });
 
-  const isLoading = activeTab === 'channels' ? loadingChannels : activeTab === 'folders' ? loadingFolders : loadingAppeals;
+  const approveWithdrawalMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.post(`/admin/withdrawals/${id}/approve`);
+      return response.data;
+    },
+    onSuccess: () => {
+      hapticNotification?.('success');
+      queryClient.invalidateQueries({ queryKey: ['review-withdrawals'] });
+    },
+    onError: () => hapticNotification?.('error'),
+  });
+
+  const rejectWithdrawalMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const response = await api.post(`/admin/withdrawals/${id}/reject`, { reason });
+      return response.data;
+    },
+    onSuccess: () => {
+      hapticNotification?.('success');
+      queryClient.invalidateQueries({ queryKey: ['review-withdrawals'] });
+      setRejectingId(null);
+      setRejectReason('');
+    },
+    onError: () => hapticNotification?.('error'),
+  });
+
+  const resetSuspenseForm = () => {
+    setAssigningId(null);
+    setAssignTo('');
+    setSuspenseNote('');
+  };
+
+  const assignSuspenseMutation = useMutation({
+    mutationFn: async ({ id, user, note }: { id: string; user: string; note?: string }) => {
+      const response = await api.post(`/admin/suspense/${id}/assign`, { user, note });
+      return response.data;
+    },
+    onSuccess: () => {
+      hapticNotification?.('success');
+      queryClient.invalidateQueries({ queryKey: ['suspense-transfers'] });
+      resetSuspenseForm();
+    },
+    onError: () => hapticNotification?.('error'),
+  });
+
+  const refundSuspenseMutation = useMutation({
+    mutationFn: async ({ id, note }: { id: string; note?: string }) => {
+      const response = await api.post(`/admin/suspense/${id}/refund`, { note });
+      return response.data;
+    },
+    onSuccess: () => {
+      hapticNotification?.('success');
+      queryClient.invalidateQueries({ queryKey: ['suspense-transfers'] });
+      resetSuspenseForm();
+    },
+    onError: () => hapticNotification?.('error'),
+  });
+
+  const isLoading = {
+    channels: loadingChannels,
+    folders: loadingFolders,
+    appeals: loadingAppeals,
+    withdrawals: loadingWithdrawals,
+    suspense: loadingSuspense,
+  }[activeTab];
 
   const getAppealTypeLabel = (type: string) => {
     switch (type) {
@@ -193,13 +303,13 @@ export function ModerationPage() {
         </div>
 
         {/* Tab Toggle */}
-        <div className="flex gap-2 mb-4">
+        <div className="flex gap-2 mb-4 overflow-x-auto">
           <button
             onClick={() => {
               hapticSelection?.();
               setActiveTab('channels');
             }}
-            className={`flex-1 flex items-center justify-center gap-1 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+            className={`flex-1 min-w-fit flex items-center justify-center gap-1 px-3 py-2.5 rounded-xl text-sm font-medium whitespace-nowrap transition-all duration-200 ${
               activeTab === 'channels'
                 ? 'bg-accent text-white'
                 : 'bg-white/5 text-tg-hint hover:bg-white/10'
@@ -213,7 +323,7 @@ export function ModerationPage() {
               hapticSelection?.();
               setActiveTab('folders');
             }}
-            className={`flex-1 flex items-center justify-center gap-1 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+            className={`flex-1 min-w-fit flex items-center justify-center gap-1 px-3 py-2.5 rounded-xl text-sm font-medium whitespace-nowrap transition-all duration-200 ${
               activeTab === 'folders'
                 ? 'bg-accent text-white'
                 : 'bg-white/5 text-tg-hint hover:bg-white/10'
@@ -227,7 +337,7 @@ export function ModerationPage() {
               hapticSelection?.();
               setActiveTab('appeals');
             }}
-            className={`flex-1 flex items-center justify-center gap-1 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+            className={`flex-1 min-w-fit flex items-center justify-center gap-1 px-3 py-2.5 rounded-xl text-sm font-medium whitespace-nowrap transition-all duration-200 ${
               activeTab === 'appeals'
                 ? 'bg-accent text-white'
                 : 'bg-white/5 text-tg-hint hover:bg-white/10'
@@ -236,6 +346,34 @@ export function ModerationPage() {
             <Scale size={14} />
             {t.moderation.appeals} ({pendingAppeals.length})
           </button>
+          <button
+            onClick={() => {
+              hapticSelection?.();
+              setActiveTab('withdrawals');
+            }}
+            className={`flex-1 min-w-fit flex items-center justify-center gap-1 px-3 py-2.5 rounded-xl text-sm font-medium whitespace-nowrap transition-all duration-200 ${
+              activeTab === 'withdrawals'
+                ? 'bg-accent text-white'
+                : 'bg-white/5 text-tg-hint hover:bg-white/10'
+            }`}
+          >
+            <Wallet size={14} />
+            {t.moderation.withdrawals} ({withdrawals?.length ?? 0})
+          </button>
+          <button
+            onClick={() => {
+              hapticSelection?.();
+              setActiveTab('suspense');
+            }}
+            className={`flex-1 min-w-fit flex items-center justify-center gap-1 px-3 py-2.5 rounded-xl text-sm font-medium whitespace-nowrap transition-all duration-200 ${
+              activeTab === 'suspense'
+                ? 'bg-accent text-white'
+                : 'bg-white/5 text-tg-hint hover:bg-white/10'
+            }`}
+          >
+            <HelpCircle size={14} />
+            {t.moderation.suspense} ({suspenseTransfers?.length ?? 0})
+          </button>
         </div>
 
         {/* Loading */}
@@ -274,6 +412,26 @@ export function ModerationPage() {
           </Card>
         )}
 
+        {/* Empty State - Withdrawals */}
+        {!isLoading && activeTab === 'withdrawals' && withdrawals?.length === 0 && (
+          <Card className="text-center py-12">
+            <div className="w-16 h-16 mx-auto rounded-2xl bg-tg-secondary-bg flex items-center justify-center mb-4">
+              <Wallet size={32} className="text-green-400" />
+            </div>
+            <p className="font-semibold">{t.moderation.noWithdrawals}</p>
+          </Card>
+        )}
+
+        {/* Empty State - Suspense */}
+        {!isLoading && activeTab === 'suspense' && suspenseTransfers?.length === 0 && (
+          <Card className="text-center py-12">
+            <div className="w-16 h-16 mx-auto rounded-2xl bg-tg-secondary-bg flex items-center justify-center mb-4">
+              <HelpCircle size={32} className="text-green-400" />
+            </div>
+            <p className="font-semibold">{t.moderation.noSuspense}</p>
+          </Card>
+        )}
+
         {/* Pending Items */}
         <StaggerContainer className="space-y-4">
           {activeTab === 'channels' && pendingChannels?.map((channel) => (
@@ -603,6 +761,201 @@ export function ModerationPage() {
               </Card>
             </StaggerItem>
           ))}
+
+          {activeTab === 'withdrawals' && withdrawals?.map((withdrawal) => (
+            <StaggerItem key={withdrawal.id}>
+              <Card>
+                <div className="flex items-start gap-3 mb-3">
+                  <div className="w-11 h-11 rounded-xl bg-gradient-to-br from-emerald-500/20 to-teal-500/20 flex items-center justify-center">
+                    <Wallet size={20} className="text-emerald-400" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold truncate">
+                      {withdrawal.user.username ? `@${withdrawal.user.username}` : withdrawal.user.firstName ?? withdrawal.user.id}
+                    </h3>
+                    <p className="text-xs text-tg-hint">
+                      {t.moderation.registered}: {new Date(withdrawal.user.registeredAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-bold text-accent">{withdrawal.amount}</p>
+                    <p className="text-xs text-tg-hint">{withdrawal.currency}</p>
+                  </div>
+                </div>
+
+                <div className="p-3 rounded-xl bg-white/5 mb-4">
+                  <p className="text-xs text-tg-hint mb-1">{t.moderation.withdrawalTo}</p>
+                  <p className="text-sm font-mono break-all">{withdrawal.toAddress}</p>
+                  <p className="text-xs text-tg-hint mt-2">{new Date(withdrawal.createdAt).toLocaleString()}</p>
+                </div>
+
+                {rejectingId === withdrawal.id ? (
+                  <div className="space-y-3">
+                    <textarea
+                      value={rejectReason}
+                      onChange={(e) => setRejectReason(e.target.value)}
+                      placeholder={t.moderation.rejectionReason}
+                      className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors resize-none"
+                      rows={2}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        variant="secondary"
+                        fullWidth
+                        onClick={() => {
+                          setRejectingId(null);
+                          setRejectReason('');
+                        }}
+                      >
+                        {t.moderation.cancel}
+                      </Button>
+                      <Button
+                        variant="primary"
+                        fullWidth
+                        loading={rejectWithdrawalMutation.isPending}
+                        disabled={!rejectReason.trim()}
+                        onClick={() => rejectWithdrawalMutation.mutate({ id: withdrawal.id, reason: rejectReason })}
+                        className="!bg-red-500"
+                      >
+                        {t.moderation.reject}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="secondary"
+                      fullWidth
+                      onClick={() => {
+                        hapticFeedback?.('light');
+                        setRejectingId(withdrawal.id);
+                      }}
+                    >
+                      <XCircle size={18} />
+                      {t.moderation.reject}
+                    </Button>
+                    <Button
+                      variant="primary"
+                      fullWidth
+                      loading={approveWithdrawalMutation.isPending}
+                      onClick={() => {
+                        hapticFeedback?.('medium');
+                        approveWithdrawalMutation.mutate(withdrawal.id);
+                      }}
+                    >
+                      <CheckCircle size={18} />
+                      {t.moderation.approve}
+                    </Button>
+                  </div>
+                )}
+              </Card>
+            </StaggerItem>
+          ))}
+
+          {activeTab === 'suspense' && suspenseTransfers?.map((transfer) => (
+            <StaggerItem key={transfer.id}>
+              <Card>
+                <div className="flex items-start gap-3 mb-3">
+                  <div className="w-11 h-11 rounded-xl bg-gradient-to-br from-sky-500/20 to-indigo-500/20 flex items-center justify-center">
+                    <HelpCircle size={20} className="text-sky-400" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-400 text-xs font-medium">
+                      {t.moderation.suspenseReasons[transfer.reason]}
+                    </span>
+                    <p className="text-xs text-tg-hint mt-1">{new Date(transfer.receivedAt).toLocaleString()}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-bold text-accent">{transfer.amount}</p>
+                    <p className="text-xs text-tg-hint">{transfer.currency}</p>
+                  </div>
+                </div>
+
+                <div className="p-3 rounded-xl bg-white/5 mb-3 space-y-2">
+                  <div>
+                    <p className="text-xs text-tg-hint mb-1">{t.moderation.suspenseFrom}</p>
+                    <p className="text-sm font-mono break-all">{transfer.fromAddress}</p>
+                  </div>
+                  {transfer.memo && (
+                    <div>
+                      <p className="text-xs text-tg-hint mb-1">{t.moderation.suspenseMemo}</p>
+                      <p className="text-sm font-mono break-all">{transfer.memo}</p>
+                    </div>
+                  )}
+                </div>
+
+                {transfer.refundError && (
+                  <div className="flex items-center gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20 mb-3">
+                    <AlertTriangle size={16} className="text-red-400 flex-shrink-0" />
+                    <p className="text-sm text-red-400">{t.moderation.refundFailed.replace('{error}', transfer.refundError)}</p>
+                  </div>
+                )}
+
+                {assigningId === transfer.id ? (
+                  <div className="space-y-3">
+                    <input
+                      value={assignTo}
+                      onChange={(e) => setAssignTo(e.target.value)}
+                      placeholder={t.moderation.assignTo}
+                      className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors"
+                    />
+                    <textarea
+                      value={suspenseNote}
+                      onChange={(e) => setSuspenseNote(e.target.value)}
+                      placeholder={t.moderation.notePlaceholder}
+                      className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-accent focus:outline-none transition-colors resize-none"
+                      rows={2}
+                    />
+                    <div className="flex gap-2">
+                      <Button variant="secondary" fullWidth onClick={resetSuspenseForm}>
+                        {t.moderation.cancel}
+                      </Button>
+                      <Button
+                        variant="primary"
+                        fullWidth
+                        loading={assignSuspenseMutation.isPending}
+                        disabled={!assignTo.trim()}
+                        onClick={() => assignSuspenseMutation.mutate({
+                          id: transfer.id,
+                          user: assignTo.trim(),
+                          note: suspenseNote.trim() || undefined,
+                        })}
+                      >
+                        <CheckCircle size={18} />
+                        {t.moderation.assign}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="secondary"
+                      fullWidth
+                      loading={refundSuspenseMutation.isPending && refundSuspenseMutation.variables?.id === transfer.id}
+                      onClick={() => {
+                        hapticFeedback?.('medium');
+                        refundSuspenseMutation.mutate({ id: transfer.id });
+                      }}
+                    >
+                      <Undo2 size={18} />
+                      {t.moderation.refundToSender}
+                    </Button>
+                    <Button
+                      variant="primary"
+                      fullWidth
+                      onClick={() => {
+                        hapticFeedback?.('light');
+                        setAssigningId(transfer.id);
+                      }}
+                    >
+                      <CheckCircle size={18} />
+                      {t.moderation.assign}
+                    </Button>
+                  </div>
+                )}
+              </Card>
+            </StaggerItem>
+          ))}
         </StaggerContainer>
       </div>
     </PageTransition>
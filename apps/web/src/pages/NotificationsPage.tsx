@@ -4,7 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import {
   Bell, ChevronLeft, CheckCheck, Clock,
   MessageSquare, ShieldCheck, ShieldX, Megaphone,
-  Wallet, AlertTriangle, XCircle, Timer, FolderPlus,
+  Wallet, AlertTriangle, XCircle, Timer, FolderPlus, Repeat, Search,
 } from 'lucide-react';
 import { api } from '../api/client';
 import { PageTransition, StaggerContainer, StaggerItem } from '../components/ui';
@@ -34,15 +34,32 @@ const typeConfig: Record<string, { icon: typeof Bell; color: string; bgColor: st
   DEAL_CANCELLED: { icon: XCircle, color: 'text-tg-text-secondary', bgColor: 'bg-tg-bg-secondary' },
   DEAL_POSTED: { icon: Megaphone, color: 'text-tg-link', bgColor: 'bg-tg-link/10' },
   DEAL_AUTO_RELEASED: { icon: Wallet, color: 'text-tg-success', bgColor: 'bg-tg-success/10' },
+  DEAL_PARTIALLY_RELEASED: { icon: Wallet, color: 'text-tg-warning', bgColor: 'bg-tg-warning/10' },
   DEAL_DISPUTED: { icon: AlertTriangle, color: 'text-tg-warning', bgColor: 'bg-tg-warning/10' },
   DEAL_RESOLVED_RELEASE: { icon: ShieldCheck, color: 'text-tg-success', bgColor: 'bg-tg-success/10' },
   DEAL_RESOLVED_REFUND: { icon: Wallet, color: 'text-tg-link', bgColor: 'bg-tg-link/10' },
   DEAL_EXPIRED: { icon: Timer, color: 'text-tg-text-secondary', bgColor: 'bg-tg-bg-secondary' },
+  DEAL_COUNTER_OFFER: { icon: MessageSquare, color: 'text-tg-warning', bgColor: 'bg-tg-warning/10' },
+  DEAL_OFFER_ACCEPTED: { icon: ShieldCheck, color: 'text-tg-success', bgColor: 'bg-tg-success/10' },
+  RECURRING_DEAL_REQUESTED: { icon: Repeat, color: 'text-tg-link', bgColor: 'bg-tg-link/10' },
+  RECURRING_DEAL_APPROVED: { icon: ShieldCheck, color: 'text-tg-success', bgColor: 'bg-tg-success/10' },
+  RECURRING_DEAL_PAUSED: { icon: Timer, color: 'text-tg-warning', bgColor: 'bg-tg-warning/10' },
+  RECURRING_DEAL_CANCELLED: { icon: XCircle, color: 'text-tg-text-secondary', bgColor: 'bg-tg-bg-secondary' },
+  RECURRING_DEAL_FAILED: { icon: AlertTriangle, color: 'text-tg-error', bgColor: 'bg-tg-error/10' },
   CHANNEL_APPROVED: { icon: ShieldCheck, color: 'text-tg-success', bgColor: 'bg-tg-success/10' },
   CHANNEL_REJECTED: { icon: ShieldX, color: 'text-tg-error', bgColor: 'bg-tg-error/10' },
+  SAVED_SEARCH_MATCHES: { icon: Search, color: 'text-tg-link', bgColor: 'bg-tg-link/10' },
   PLACEMENT_REQUESTED: { icon: FolderPlus, color: 'text-tg-link', bgColor: 'bg-tg-link/10' },
   PLACEMENT_APPROVED: { icon: ShieldCheck, color: 'text-tg-success', bgColor: 'bg-tg-success/10' },
   PLACEMENT_REJECTED: { icon: ShieldX, color: 'text-tg-error', bgColor: 'bg-tg-error/10' },
+  CONTENT_SUBMISSION_REMINDER: { icon: Clock, color: 'text-tg-warning', bgColor: 'bg-tg-warning/10' },
+  CONTENT_REVIEW_REMINDER: { icon: Clock, color: 'text-tg-warning', bgColor: 'bg-tg-warning/10' },
+  CONTENT_DEADLINE_MISSED: { icon: Timer, color: 'text-tg-error', bgColor: 'bg-tg-error/10' },
+  CONTENT_AUTO_APPROVED: { icon: ShieldCheck, color: 'text-tg-success', bgColor: 'bg-tg-success/10' },
+  WITHDRAWAL_CONFIRMATION: { icon: Wallet, color: 'text-tg-link', bgColor: 'bg-tg-link/10' },
+  WITHDRAWAL_REJECTED: { icon: ShieldX, color: 'text-tg-error', bgColor: 'bg-tg-error/10' },
+  WITHDRAWAL_EXPIRED: { icon: Timer, color: 'text-tg-text-secondary', bgColor: 'bg-tg-bg-secondary' },
+  WALLET_CHANGED: { icon: AlertTriangle, color: 'text-tg-warning', bgColor: 'bg-tg-warning/10' },
 };
 
 function formatTime(dateStr: string): string {
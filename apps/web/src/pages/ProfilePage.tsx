@@ -5,7 +5,7 @@ import { motion } from 'framer-motion';
 import {
   User, Wallet, Radio, Megaphone, Bell, Shield, ChevronRight,
   TrendingUp, TrendingDown, Lock, ArrowDownToLine, ArrowUpFromLine,
-  Clock, Globe
+  Clock, Globe, Gift, Copy, Check
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth.store';
 import { api } from '../api/client';
@@ -13,6 +13,7 @@ import { AnimatedCounter, BalanceDisplay, PageTransition } from '../components/u
 import { WalletButton } from '../components/WalletButton';
 import { DepositModal } from '../components/Modals/DepositModal';
 import { WithdrawModal } from '../components/Modals/WithdrawModal';
+import { StatementsCard } from '../components/StatementsCard';
 import { useWalletConnect } from '../hooks/useWalletConnect';
 import { useTelegram } from '../hooks/useTelegram';
 import { useTranslation } from '../i18n';
@@ -31,6 +32,10 @@ interface Balance {
   available: string;
   frozen: string;
   total: string;
+  usdt?: {
+    available: string;
+    frozen: string;
+  };
 }
 
 interface Transaction {
@@ -41,6 +46,17 @@ interface Transaction {
   createdAt: string;
 }
 
+interface ReferralStats {
+  referralCode?: string;
+  sharePercent: number;
+  windowDays: number;
+  referredCount: number;
+  activeReferredCount: number;
+  earnings: { currency: string; amount: string }[];
+}
+
+const BOT_USERNAME = import.meta.env.VITE_BOT_USERNAME as string;
+
 const txTypeConfig: Record<string, { icon: typeof ArrowDownToLine; color: string; bgColor: string; sign: '+' | '-' }> = {
   DEPOSIT: { icon: ArrowDownToLine, color: 'text-tg-success', bgColor: 'bg-tg-success/10', sign: '+' },
   WITHDRAWAL: { icon: ArrowUpFromLine, color: 'text-tg-error', bgColor: 'bg-tg-error/10', sign: '-' },
@@ -48,6 +64,7 @@ const txTypeConfig: Record<string, { icon: typeof ArrowDownToLine; color: string
   ESCROW_RELEASE: { icon: Wallet, color: 'text-tg-success', bgColor: 'bg-tg-success/10', sign: '+' },
   ESCROW_REFUND: { icon: ArrowDownToLine, color: 'text-tg-link', bgColor: 'bg-tg-link/10', sign: '+' },
   FEE: { icon: ArrowUpFromLine, color: 'text-tg-text-secondary', bgColor: 'bg-tg-bg-secondary', sign: '-' },
+  REFERRAL_REWARD: { icon: Gift, color: 'text-tg-success', bgColor: 'bg-tg-success/10', sign: '+' },
 };
 
 export function ProfilePage() {
@@ -60,6 +77,7 @@ export function ProfilePage() {
 
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ['userStats'],
@@ -85,6 +103,26 @@ export function ProfilePage() {
     },
   });
 
+  const { data: referrals } = useQuery({
+    queryKey: ['referrals'],
+    queryFn: async () => {
+      const response = await api.get<ReferralStats>('/users/me/referrals');
+      return response.data;
+    },
+  });
+
+  const referralLink = referrals?.referralCode
+    ? `https://t.me/${BOT_USERNAME}?start=ref_${referrals.referralCode}`
+    : null;
+
+  const copyReferralLink = () => {
+    if (!referralLink) return;
+    navigator.clipboard.writeText(referralLink);
+    setLinkCopied(true);
+    hapticFeedback?.('light');
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
   const settingsItems = [
     { icon: Radio, label: t.profile.myChannels, path: '/channels?view=my', color: 'text-tg-link', bgColor: 'bg-tg-link/10' },
     { icon: Bell, label: t.profile.notifications, path: '/profile/notifications', color: 'text-tg-warning', bgColor: 'bg-tg-warning/10' },
@@ -161,6 +199,14 @@ export function ProfilePage() {
                 <Lock size={14} />
                 <span>{balance?.frozen ?? user?.frozenTon ?? '0'} TON {t.profile.inEscrow}</span>
               </div>
+              {balance?.usdt && (parseFloat(balance.usdt.available) > 0 || parseFloat(balance.usdt.frozen) > 0) && (
+                <div className="flex items-center gap-2 text-sm text-tg-text-secondary mt-1">
+                  <Wallet size={14} />
+                  <span>
+                    {balance.usdt.available} USDT · {balance.usdt.frozen} USDT {t.profile.inEscrow}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -255,6 +301,57 @@ export function ProfilePage() {
             </div>
           </div>
 
+          {/* Referral Program */}
+          {referrals && referralLink && (
+            <div>
+              <div className="tg-card">
+                <div className="flex items-center gap-2 mb-1">
+                  <Gift size={16} className="text-tg-success" />
+                  <h2 className="font-semibold text-tg-text">{t.profile.referrals}</h2>
+                </div>
+                <p className="text-xs text-tg-text-secondary mb-3">
+                  {t.profile.referralDescription.replace('{percent}', String(referrals.sharePercent))}
+                </p>
+                <p className="text-xs text-tg-text-secondary mb-1">{t.profile.referralLink}</p>
+                <button
+                  onClick={copyReferralLink}
+                  className="w-full flex items-center justify-between gap-2 p-2.5 rounded-tg bg-tg-bg-secondary mb-3"
+                >
+                  <span className="text-sm font-mono text-tg-text truncate">{referralLink}</span>
+                  {linkCopied ? (
+                    <span className="flex items-center gap-1 text-xs text-tg-success flex-shrink-0">
+                      <Check size={14} /> {t.profile.copied}
+                    </span>
+                  ) : (
+                    <Copy size={14} className="text-tg-text-secondary flex-shrink-0" />
+                  )}
+                </button>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="tg-stat">
+                    <p className="text-xl font-bold text-tg-text"><AnimatedCounter value={referrals.referredCount} decimals={0} /></p>
+                    <p className="text-xs text-tg-text-secondary">{t.profile.referred}</p>
+                  </div>
+                  <div className="tg-stat">
+                    <p className="text-xl font-bold text-tg-link"><AnimatedCounter value={referrals.activeReferredCount} decimals={0} /></p>
+                    <p className="text-xs text-tg-text-secondary">{t.profile.activeReferred}</p>
+                  </div>
+                  <div className="tg-stat">
+                    {referrals.earnings.length === 0 ? (
+                      <p className="text-base font-bold text-tg-success">0 TON</p>
+                    ) : (
+                      referrals.earnings.map((e) => (
+                        <p key={e.currency} className="text-base font-bold text-tg-success">
+                          {e.amount} {e.currency}
+                        </p>
+                      ))
+                    )}
+                    <p className="text-xs text-tg-text-secondary">{t.profile.referralEarnings}</p>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Transactions */}
           <div>
             <div className="tg-card">
@@ -312,6 +409,11 @@ export function ProfilePage() {
             </div>
           </div>
 
+          {/* Statements */}
+          <div>
+            <StatementsCard />
+          </div>
+
           {/* Settings */}
           <div>
             <div className="tg-card">
@@ -403,6 +505,7 @@ export function ProfilePage() {
         isOpen={showWithdrawModal}
         onClose={() => setShowWithdrawModal(false)}
         balance={balance?.available ?? user?.balanceTon ?? '0'}
+        usdtBalance={balance?.usdt?.available}
       />
     </PageTransition>
   );
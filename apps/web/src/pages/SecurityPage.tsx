@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, Lock, ShieldCheck, Trash2, Plus } from 'lucide-react';
+import { api } from '../api/client';
+import { Button, PageTransition } from '../components/ui';
+import { useWalletStore } from '../store/wallet.store';
+import { useTelegram } from '../hooks/useTelegram';
+import { useTranslation } from '../i18n';
+
+interface WithdrawalAddress {
+  id: string;
+  address: string;
+  label?: string;
+  createdAt: string;
+}
+
+interface WithdrawalAllowlist {
+  enabled: boolean;
+  withdrawalsLockedUntil?: string;
+  addresses: WithdrawalAddress[];
+}
+
+export function SecurityPage() {
+  const { hapticFeedback, hapticNotification } = useTelegram();
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { walletAddress } = useWalletStore();
+  const [address, setAddress] = useState('');
+  const [label, setLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: allowlist, isLoading } = useQuery({
+    queryKey: ['withdrawalAllowlist'],
+    queryFn: async () => {
+      const response = await api.get<WithdrawalAllowlist>('/user/wallet/allowlist');
+      return response.data;
+    },
+  });
+
+  const onError = (err: Error) => {
+    hapticNotification?.('error');
+    setError(err.message);
+  };
+
+  const setEnabled = useMutation({
+    mutationFn: (enabled: boolean) => api.put<WithdrawalAllowlist>('/user/wallet/allowlist', { enabled }),
+    onSuccess: (response) => {
+      hapticFeedback?.('medium');
+      setError(null);
+      queryClient.setQueryData(['withdrawalAllowlist'], response.data);
+    },
+    onError,
+  });
+
+  const addAddress = useMutation({
+    mutationFn: () => api.post('/user/wallet/allowlist', { address: address.trim(), label: label.trim() || undefined }),
+    onSuccess: () => {
+      hapticNotification?.('success');
+      setError(null);
+      setAddress('');
+      setLabel('');
+      queryClient.invalidateQueries({ queryKey: ['withdrawalAllowlist'] });
+    },
+    onError,
+  });
+
+  const removeAddress = useMutation({
+    mutationFn: (id: string) => api.delete(`/user/wallet/allowlist/${id}`),
+    onSuccess: () => {
+      hapticFeedback?.('light');
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['withdrawalAllowlist'] });
+    },
+    onError,
+  });
+
+  const enabled = allowlist?.enabled ?? false;
+
+  return (
+    <PageTransition>
+      <div className="p-4 pb-24">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-5">
+          <motion.button
+            whileTap={{ scale: 0.95 }}
+            onClick={() => { hapticFeedback?.('light'); navigate('/'); }}
+            className="w-9 h-9 rounded-tg bg-tg-bg-secondary flex items-center justify-center"
+          >
+            <ChevronLeft size={20} className="text-tg-text" />
+          </motion.button>
+          <h1 className="text-xl font-bold text-tg-text">{t.wallet.security}</h1>
+        </div>
+
+        <div className="space-y-3">
+          {/* Withdrawal lock */}
+          {allowlist?.withdrawalsLockedUntil && (
+            <div className="flex items-start gap-3 p-3 rounded-tg bg-tg-warning/10">
+              <Lock size={18} className="text-tg-warning flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-tg-text">
+                {t.wallet.lockedUntil.replace('{date}', new Date(allowlist.withdrawalsLockedUntil).toLocaleString())}
+              </p>
+            </div>
+          )}
+
+          {/* Allowlist toggle */}
+          <div className="tg-card">
+            <button
+              type="button"
+              disabled={isLoading || setEnabled.isPending}
+              onClick={() => setEnabled.mutate(!enabled)}
+              className="flex items-center justify-between w-full"
+            >
+              <div className="flex items-center gap-3 text-left">
+                <div className="w-9 h-9 rounded-tg bg-tg-success/10 flex items-center justify-center flex-shrink-0">
+                  <ShieldCheck size={18} className="text-tg-success" />
+                </div>
+                <div>
+                  <p className="font-medium text-tg-text">{t.wallet.allowlist}</p>
+                  <p className="text-xs text-tg-text-secondary mt-0.5">{t.wallet.allowlistHint}</p>
+                </div>
+              </div>
+              <div className={`w-11 h-6 rounded-full p-0.5 flex-shrink-0 ml-3 transition-colors ${enabled ? 'bg-tg-success' : 'bg-tg-bg-secondary'}`}>
+                <div className={`w-5 h-5 rounded-full bg-white transition-transform ${enabled ? 'translate-x-5' : ''}`} />
+              </div>
+            </button>
+          </div>
+
+          {/* Saved addresses */}
+          <div className="tg-card space-y-2">
+            {isLoading ? (
+              <div className="h-12 skeleton rounded-tg" />
+            ) : allowlist?.addresses.length === 0 ? (
+              <p className="text-sm text-tg-text-secondary text-center py-3">{t.wallet.allowlistEmpty}</p>
+            ) : (
+              allowlist?.addresses.map((a) => (
+                <div key={a.id} className="flex items-center justify-between gap-2 p-2.5 rounded-tg bg-tg-bg-secondary">
+                  <div className="min-w-0">
+                    {a.label && <p className="text-sm font-medium text-tg-text truncate">{a.label}</p>}
+                    <p className="text-xs font-mono text-tg-text-secondary break-all">
+                      {a.address}
+                      {a.address === walletAddress && ` · ${t.wallet.currentWallet}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => removeAddress.mutate(a.id)}
+                    disabled={removeAddress.isPending}
+                    aria-label={t.wallet.remove}
+                    className="w-8 h-8 rounded-tg flex items-center justify-center text-tg-error hover:bg-tg-error/10 flex-shrink-0"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))
+            )}
+
+            {/* Add address */}
+            <div className="space-y-2 pt-2">
+              <input
+                type="text"
+                placeholder={t.wallet.addressPlaceholder}
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                className="tg-input font-mono text-sm"
+              />
+              <input
+                type="text"
+                placeholder={t.wallet.labelPlaceholder}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                maxLength={64}
+                className="tg-input text-sm"
+              />
+              {walletAddress && !allowlist?.addresses.some((a) => a.address === walletAddress) && (
+                <button
+                  type="button"
+                  onClick={() => setAddress(walletAddress)}
+                  className="text-xs text-tg-link"
+                >
+                  {t.wallet.currentWallet}: {walletAddress.slice(0, 8)}...{walletAddress.slice(-8)}
+                </button>
+              )}
+              <Button
+                variant="secondary"
+                fullWidth
+                disabled={!address.trim() || addAddress.isPending}
+                onClick={() => addAddress.mutate()}
+              >
+                <Plus size={16} />
+                {t.wallet.addAddress}
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-tg-error bg-tg-error/10 rounded-tg p-3">{error}</p>
+          )}
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
@@ -50,7 +50,9 @@ export const useAuthStore = create<AuthState>()(
       authenticate: async (initData: string) => {
         set({ isLoading: true, error: null });
         try {
-          const response = await api.post<AuthResponse>('/auth/telegram', { initData });
+          // Set by the bot when the app was opened from a referral link
+          const referralCode = new URLSearchParams(window.location.search).get('ref') ?? undefined;
+          const response = await api.post<AuthResponse>('/auth/telegram', { initData, referralCode });
           const { accessToken, refreshToken, user } = response.data;
 
           set({
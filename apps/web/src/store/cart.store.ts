@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type CartCurrency = 'TON' | 'USDT';
+
+export interface CartItem {
+  channelId: string;
+  title: string;
+  username?: string;
+  avatarUrl?: string;
+  pricePerPost: string;
+  pricePerPostUsdt?: string;
+  formatPrices?: Partial<Record<CartCurrency, Record<string, string>>>;
+  adFormat: string;
+  // One time for a single post, two or more for a multi-slot deal; empty posts right after approval
+  slotTimes: string[];
+}
+
+interface CartState {
+  items: CartItem[];
+
+  add: (item: Omit<CartItem, 'adFormat' | 'slotTimes'>) => void;
+  remove: (channelId: string) => void;
+  update: (channelId: string, patch: Partial<Pick<CartItem, 'adFormat' | 'slotTimes'>>) => void;
+  removeMany: (channelIds: string[]) => void;
+  clear: () => void;
+}
+
+export const useCartStore = create<CartState>()(
+  persist(
+    (set) => ({
+      items: [],
+
+      add: (item) =>
+        set((state) =>
+          state.items.some((i) => i.channelId === item.channelId)
+            ? state
+            : { items: [...state.items, { ...item, adFormat: '', slotTimes: [] }] },
+        ),
+
+      remove: (channelId) =>
+        set((state) => ({ items: state.items.filter((i) => i.channelId !== channelId) })),
+
+      update: (channelId, patch) =>
+        set((state) => ({
+          items: state.items.map((i) => (i.channelId === channelId ? { ...i, ...patch } : i)),
+        })),
+
+      removeMany: (channelIds) =>
+        set((state) => ({ items: state.items.filter((i) => !channelIds.includes(i.channelId)) })),
+
+      clear: () => set({ items: [] }),
+    }),
+    {
+      name: 'cart-storage',
+    }
+  )
+);
+
+/**
+ * Price of the item in the currency: its ad format's price or the base price
+ */
+export function cartItemPrice(item: CartItem, currency: CartCurrency): string {
+  const formatPrice = item.adFormat ? item.formatPrices?.[currency]?.[item.adFormat] : undefined;
+  return formatPrice ?? (currency === 'USDT' ? item.pricePerPostUsdt : item.pricePerPost) ?? '0';
+}
@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+
+export const MAX_COMPARE_CHANNELS = 5;
+
+interface CompareState {
+  channelIds: string[];
+
+  // Adds the channel or removes it if already picked; ignored once the list is full
+  toggle: (channelId: string) => void;
+  clear: () => void;
+}
+
+export const useCompareStore = create<CompareState>()((set) => ({
+  channelIds: [],
+
+  toggle: (channelId) =>
+    set((state) => {
+      if (state.channelIds.includes(channelId)) {
+        return { channelIds: state.channelIds.filter((id) => id !== channelId) };
+      }
+      return state.channelIds.length < MAX_COMPARE_CHANNELS
+        ? { channelIds: [...state.channelIds, channelId] }
+        : state;
+    }),
+
+  clear: () => set({ channelIds: [] }),
+}));
@@ -2,7 +2,16 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
 type DepositStatus = 'idle' | 'awaiting_tx' | 'confirming' | 'completed' | 'failed';
-type WithdrawStatus = 'idle' | 'pending' | 'processing' | 'sent' | 'completed' | 'failed';
+type WithdrawStatus =
+  | 'idle'
+  | 'pending'
+  | 'awaiting_confirmation'
+  | 'awaiting_review'
+  | 'processing'
+  | 'sent'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
 
 interface WalletState {
   // Wallet connection
@@ -2,9 +2,11 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { QUEUE_NAMES, NotificationJobData, NOTIFICATION_JOB_OPTIONS } from '@tam/queue-contracts';
+import { dealStatusFromSlots, rewriteTrackedLinks } from '@tam/prisma-client';
 import { PrismaService } from '../prisma/prisma.service';
 
 const BOT_TOKEN = process.env.BOT_TOKEN;
+const LINK_TRACKING_URL = process.env.LINK_TRACKING_URL?.replace(/\/+$/, '');
 
 interface TelegramMessage {
   message_id: number;
@@ -107,6 +109,7 @@ export class AdPosterService {
     contentText: string | null;
     contentMediaUrls: string[];
     channelId: string;
+    trackLinks: boolean;
   }): Promise<{ success: boolean; messageId?: number; postUrl?: string; error?: string; channelTitle?: string }> {
     const channel = await this.prisma.channel.findUnique({
       where: { id: deal.channelId },
@@ -126,7 +129,14 @@ export class AdPosterService {
       }
     }
 
-    const text = deal.contentText || '';
+    let text = deal.contentText || '';
+    if (deal.trackLinks && text) {
+      if (LINK_TRACKING_URL) {
+        text = await rewriteTrackedLinks(this.prisma, deal.id, text, LINK_TRACKING_URL);
+      } else {
+        this.logger.warn(`LINK_TRACKING_URL not configured, posting deal ${deal.id} with its original links`);
+      }
+    }
     const mediaUrls = deal.contentMediaUrls || [];
 
     let result: TelegramResponse;
@@ -182,9 +192,11 @@ export class AdPosterService {
 
     const now = new Date();
 
+    // Multi-slot deals are posted slot by slot in processScheduledSlots
     const scheduledDeals = await this.prisma.deal.findMany({
       where: {
         status: 'SCHEDULED',
+        slots: { none: {} },
         contentText: { not: null },
         OR: [
           { scheduledPostTime: null },
@@ -198,6 +210,7 @@ export class AdPosterService {
       where: {
         status: 'POSTED',
         postUrl: null,
+        slots: { none: {} },
         contentText: { not: null },
       },
       take: 5,
@@ -205,6 +218,8 @@ export class AdPosterService {
 
     const dealsToPost = [...scheduledDeals, ...postedWithoutUrl];
 
+    await this.processScheduledSlots(now);
+
     if (dealsToPost.length === 0) return;
 
     this.logger.log(`Found ${dealsToPost.length} deals to post (${scheduledDeals.length} scheduled, ${postedWithoutUrl.length} posted without URL)`);
@@ -218,6 +233,7 @@ export class AdPosterService {
         contentText: deal.contentText,
         contentMediaUrls: deal.contentMediaUrls,
         channelId: deal.channelId,
+        trackLinks: deal.trackLinks,
       });
 
       if (result.success) {
@@ -277,4 +293,127 @@ export class AdPosterService {
       await new Promise((resolve) => setTimeout(resolve, 2000));
     }
   }
+
+  /**
+   * Posts due slots of multi-slot deals. Each slot gets its own message and
+   * verification deadline; the deal moves to POSTED with its last slot.
+   */
+  private async processScheduledSlots(now: Date): Promise<void> {
+    const slots = await this.prisma.dealSlot.findMany({
+      where: {
+        status: 'SCHEDULED',
+        scheduledPostTime: { lte: now },
+        deal: { status: { in: ['SCHEDULED', 'POSTED'] } },
+      },
+      include: { deal: true },
+      orderBy: { scheduledPostTime: 'asc' },
+      take: 10,
+    });
+
+    if (slots.length === 0) return;
+
+    this.logger.log(`Found ${slots.length} deal slots to post`);
+
+    for (const slot of slots) {
+      const deal = slot.deal;
+      this.logger.log(`Processing slot ${slot.position} of deal ${deal.id}...`);
+
+      // Slot content when set, otherwise the deal's approved content
+      const ownContent = slot.contentText !== null || slot.contentMediaUrls.length > 0;
+      const result = await this.postAdToChannel({
+        id: deal.id,
+        contentType: slot.contentType ?? deal.contentType,
+        contentText: ownContent ? slot.contentText : deal.contentText,
+        contentMediaUrls: ownContent ? slot.contentMediaUrls : deal.contentMediaUrls,
+        channelId: deal.channelId,
+        trackLinks: deal.trackLinks,
+      });
+
+      if (result.success) {
+        const postedAt = new Date();
+        const verificationDeadline = new Date(postedAt.getTime() + 48 * 60 * 60 * 1000);
+
+        const nextStatus = await this.prisma.$transaction(async (tx) => {
+          await tx.dealSlot.update({
+            where: { id: slot.id },
+            data: {
+              postMessageId: result.messageId ?? null,
+              postUrl: result.postUrl ?? null,
+              actualPostTime: postedAt,
+              verificationDeadline,
+            },
+          });
+
+          // A dispute opened meanwhile holds the slot and the deal
+          await tx.dealSlot.updateMany({
+            where: { id: slot.id, status: 'SCHEDULED' },
+            data: { status: 'POSTED' },
+          });
+
+          const siblings = await tx.dealSlot.findMany({
+            where: { dealId: deal.id },
+            select: { status: true },
+          });
+          const status = dealStatusFromSlots(siblings);
+
+          // The deal itself links to its first post
+          const { count } = await tx.deal.updateMany({
+            where: { id: deal.id, status: { in: ['SCHEDULED', 'POSTED'] } },
+            data: {
+              status,
+              ...(!deal.actualPostTime && {
+                actualPostTime: postedAt,
+                postMessageId: result.messageId ?? null,
+                postUrl: result.postUrl ?? null,
+              }),
+            },
+          });
+
+          if (count > 0) {
+            await tx.dealStatusHistory.create({
+              data: {
+                dealId: deal.id,
+                fromStatus: deal.status,
+                toStatus: status,
+                reason: `Post ${slot.position} of ${siblings.length} auto-posted by bot`,
+              },
+            });
+          }
+
+          return status;
+        });
+
+        this.logger.log(`Posted slot ${slot.position} of deal ${deal.id} (now ${nextStatus}), message ID: ${result.messageId}`);
+
+        this.notificationQueue.add('DEAL_POSTED', {
+          type: 'DEAL_POSTED',
+          recipientUserId: deal.advertiserId,
+          data: {
+            dealId: deal.id,
+            channelId: deal.channelId,
+            channelTitle: result.channelTitle,
+            miniAppPath: `/deals/${deal.id}`,
+          },
+        }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+          this.logger.error(`Failed to queue DEAL_POSTED notification: ${e}`),
+        );
+      } else {
+        this.logger.warn(`Failed to post slot ${slot.position} of deal ${deal.id}: ${result.error}`);
+
+        if (result.error?.includes('not enough rights') || result.error?.includes('chat not found')) {
+          await this.prisma.dealStatusHistory.create({
+            data: {
+              dealId: deal.id,
+              fromStatus: deal.status,
+              toStatus: deal.status,
+              reason: `Posting of post ${slot.position} failed: ${result.error}. Bot needs admin rights in channel.`,
+            },
+          });
+        }
+      }
+
+      // Small delay between posts to avoid rate limiting
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+  }
 }
@@ -0,0 +1,377 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IncomingTransfer } from '@tam/ton-utils';
+import { TransactionStatus, SuspenseReason, DepositAmountMismatch } from '@tam/shared-types';
+import {
+  Prisma,
+  postJournalEntry,
+  userAvailable,
+  HOT_WALLET_ACCOUNT,
+  SUSPENSE_ACCOUNT,
+} from '@tam/prisma-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TonWalletService } from '../ton-wallet/ton-wallet.service';
+
+// A deposit up to 1% short of the expected amount still completes it (wallet fees)
+const DEPOSIT_TOLERANCE_PERCENT = 1;
+// 100 transactions per page; a gap larger than this is logged, not retried
+const MAX_SCAN_PAGES = 50;
+
+/**
+ * Detects deposits by walking the hot wallet's transaction history from the
+ * checkpoint stored in DepositScanCursor, so no transfer is missed however
+ * many arrive between two scans. Transfers are matched to DepositAddress
+ * rows by memo, including expired ones: a late deposit is still credited.
+ * A deposit can be paid in parts; the address stays active until the
+ * expected amount has arrived or it expires. Whatever arrives is credited;
+ * overpaid and underpaid deposits are flagged on the DepositAddress.
+ * Transfers matching no deposit go to suspense for a moderator, except the
+ * platform's own inbound messages (jetton excesses, escrow contract payouts).
+ */
+@Injectable()
+export class DepositScannerService {
+  private readonly logger = new Logger(DepositScannerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private tonWallet: TonWalletService,
+  ) {}
+
+  async scanDeposits(): Promise<void> {
+    await this.expireDeposits();
+
+    if (!this.tonWallet.isInitialized()) {
+      this.logger.warn('TON wallet not initialized, skipping deposit scan');
+      return;
+    }
+
+    const address = this.tonWallet.getAddressString();
+    const stored = await this.prisma.depositScanCursor.findUnique({ where: { address } });
+
+    // First scan: go back to the oldest open deposit
+    let sinceTimestamp: number | undefined;
+    if (!stored) {
+      const oldest = await this.prisma.depositAddress.findFirst({
+        where: { isActive: true },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      });
+      sinceTimestamp = Math.floor((oldest?.createdAt ?? new Date()).getTime() / 1000);
+    }
+
+    const result = await this.tonWallet.scanIncomingTransfers(
+      stored ? { lt: stored.lt, hash: stored.hash } : null,
+      { sinceTimestamp, maxPages: MAX_SCAN_PAGES },
+    );
+
+    if (!result.complete) {
+      this.logger.error(
+        `Deposit scan stopped after ${MAX_SCAN_PAGES} pages before reaching lt ${stored?.lt}; older transfers were not checked`,
+      );
+    }
+
+    // Oldest first, so partial payments add up in order. A failure leaves the
+    // cursor in place and the next scan retries; credited transfers are skipped.
+    for (const transfer of result.transfers) {
+      await this.processTransfer(transfer);
+    }
+
+    if (result.cursor) {
+      await this.prisma.depositScanCursor.upsert({
+        where: { address },
+        create: { address, lt: result.cursor.lt, hash: result.cursor.hash },
+        update: { lt: result.cursor.lt, hash: result.cursor.hash },
+      });
+    }
+  }
+
+  private async processTransfer(transfer: IncomingTransfer): Promise<void> {
+    // Fee and leftover gas paid back by escrow contracts are booked when the deal settles
+    if (await this.isFromEscrowContract(transfer)) {
+      return;
+    }
+
+    if (!transfer.memo) {
+      await this.recordSuspense(transfer, SuspenseReason.NO_MEMO);
+      return;
+    }
+
+    const depositAddress = await this.prisma.depositAddress.findUnique({
+      where: { memo: transfer.memo },
+    });
+
+    if (!depositAddress) {
+      await this.recordSuspense(transfer, SuspenseReason.UNKNOWN_MEMO);
+      return;
+    }
+    if (depositAddress.currency !== transfer.currency) {
+      await this.recordSuspense(transfer, SuspenseReason.CURRENCY_MISMATCH);
+      return;
+    }
+
+    if (transfer.bounced) {
+      await this.recordBounce(depositAddress.id, transfer);
+      return;
+    }
+
+    await this.creditDeposit(depositAddress, transfer);
+  }
+
+  private async creditDeposit(
+    depositAddress: { id: string; userId: string; memo: string; expiresAt: Date; expectedAmount: Prisma.Decimal | null },
+    transfer: IncomingTransfer,
+  ): Promise<void> {
+    const amount = new Prisma.Decimal(transfer.amount);
+    const late = transfer.timestamp * 1000 > depositAddress.expiresAt.getTime();
+
+    const credited = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.transaction.findUnique({
+        where: { tonTxHash: transfer.hash },
+        select: { id: true },
+      });
+      if (existing) {
+        return false;
+      }
+
+      const updated = await tx.depositAddress.update({
+        where: { id: depositAddress.id },
+        data: { receivedAmount: { increment: amount } },
+      });
+
+      const expected = depositAddress.expectedAmount;
+      const minRequired = expected?.mul(100 - DEPOSIT_TOLERANCE_PERCENT).div(100);
+      const maxExpected = expected?.mul(100 + DEPOSIT_TOLERANCE_PERCENT).div(100);
+      const partial = minRequired !== undefined && updated.receivedAmount.lessThan(minRequired);
+      const overpaid = maxExpected !== undefined && updated.receivedAmount.greaterThan(maxExpected);
+      const closed = !partial || updated.expiresAt < new Date();
+
+      if (closed) {
+        await tx.depositAddress.update({
+          where: { id: depositAddress.id },
+          data: {
+            isActive: false,
+            amountMismatch: overpaid
+              ? DepositAmountMismatch.OVERPAID
+              : partial ? DepositAmountMismatch.UNDERPAID : null,
+          },
+        });
+      }
+
+      const metadata = {
+        depositAddressId: depositAddress.id,
+        memo: depositAddress.memo,
+        from: transfer.from,
+        ...(late && { late: true }),
+        ...(partial && { partial: true }),
+        ...(overpaid && { overpaid: true }),
+      };
+
+      // The first transfer confirms the deposit created by the API (also when
+      // it already failed on expiry); further transfers get their own rows
+      const pendingTx = await tx.transaction.findFirst({
+        where: {
+          userId: depositAddress.userId,
+          type: 'DEPOSIT',
+          status: { in: [TransactionStatus.PENDING, TransactionStatus.FAILED] },
+          tonTxHash: null,
+          metadata: {
+            path: ['depositAddressId'],
+            equals: depositAddress.id,
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const transaction = pendingTx
+        ? await tx.transaction.update({
+            where: { id: pendingTx.id },
+            data: {
+              status: TransactionStatus.CONFIRMED,
+              tonTxHash: transfer.hash,
+              amount,
+              metadata: { ...((pendingTx.metadata as Record<string, unknown>) ?? {}), ...metadata },
+            },
+          })
+        : await tx.transaction.create({
+            data: {
+              userId: depositAddress.userId,
+              type: 'DEPOSIT',
+              status: TransactionStatus.CONFIRMED,
+              currency: transfer.currency,
+              amount,
+              tonTxHash: transfer.hash,
+              metadata,
+            },
+          });
+
+      // Credit user balance against the hot wallet
+      await postJournalEntry(tx, {
+        type: 'DEPOSIT',
+        currency: transfer.currency,
+        transactionId: transaction.id,
+        movements: [
+          { debit: HOT_WALLET_ACCOUNT, credit: userAvailable(depositAddress.userId), amount },
+        ],
+      });
+
+      return true;
+    });
+
+    if (credited) {
+      this.logger.log(
+        `Deposit confirmed: ${transfer.hash} for ${transfer.amount} ${transfer.currency} (${depositAddress.id}${late ? ', late' : ''})`,
+      );
+    }
+  }
+
+  /**
+   * The wallet returned the value to the sender, so nothing is credited. The
+   * bounce is kept on the deposit transaction for support; the deposit stays
+   * open for another attempt.
+   */
+  private async recordBounce(depositAddressId: string, transfer: IncomingTransfer): Promise<void> {
+    this.logger.warn(
+      `Deposit ${depositAddressId} bounced: ${transfer.amount} ${transfer.currency} returned to ${transfer.from} (tx ${transfer.hash})`,
+    );
+
+    await this.prisma.$transaction(async (tx) => {
+      const deposit = await tx.transaction.findFirst({
+        where: {
+          type: 'DEPOSIT',
+          metadata: {
+            path: ['depositAddressId'],
+            equals: depositAddressId,
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+      if (!deposit) return;
+
+      const metadata = (deposit.metadata as Record<string, unknown>) ?? {};
+      const bounces = Array.isArray(metadata.bounces) ? metadata.bounces : [];
+      if (bounces.some((b) => (b as { txHash?: string })?.txHash === transfer.hash)) return;
+
+      await tx.transaction.update({
+        where: { id: deposit.id },
+        data: {
+          metadata: {
+            ...metadata,
+            bounces: [
+              ...bounces,
+              { txHash: transfer.hash, amount: transfer.amount, from: transfer.from, at: new Date(transfer.timestamp * 1000).toISOString() },
+            ],
+          },
+        },
+      });
+    });
+  }
+
+  private async isFromEscrowContract(transfer: IncomingTransfer): Promise<boolean> {
+    if (transfer.currency !== 'TON') {
+      return false;
+    }
+
+    const deal = await this.prisma.deal.findUnique({
+      where: { escrowContractAddress: this.tonWallet.formatEscrowAddress(transfer.from) },
+      select: { id: true },
+    });
+
+    return deal !== null;
+  }
+
+  /**
+   * Holds a transfer that matches no deposit on the SUSPENSE account until a
+   * moderator assigns or refunds it. Bounced transfers already went back.
+   */
+  private async recordSuspense(transfer: IncomingTransfer, reason: SuspenseReason): Promise<void> {
+    if (transfer.bounced) {
+      this.logger.warn(
+        `Unmatched transfer bounced: ${transfer.amount} ${transfer.currency} returned to ${transfer.from} (tx ${transfer.hash})`,
+      );
+      return;
+    }
+
+    const amount = new Prisma.Decimal(transfer.amount);
+    if (amount.isZero()) return;
+
+    const recorded = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.suspenseTransfer.findUnique({
+        where: { tonTxHash: transfer.hash },
+        select: { id: true },
+      });
+      if (existing) {
+        return false;
+      }
+
+      await tx.suspenseTransfer.create({
+        data: {
+          tonTxHash: transfer.hash,
+          currency: transfer.currency,
+          amount,
+          fromAddress: transfer.from,
+          memo: transfer.memo ?? null,
+          reason,
+          receivedAt: new Date(transfer.timestamp * 1000),
+        },
+      });
+
+      await postJournalEntry(tx, {
+        type: 'DEPOSIT',
+        currency: transfer.currency,
+        description: `Unmatched transfer ${transfer.hash}`,
+        movements: [
+          { debit: HOT_WALLET_ACCOUNT, credit: SUSPENSE_ACCOUNT, amount },
+        ],
+      });
+
+      return true;
+    });
+
+    if (recorded) {
+      this.logger.warn(
+        `Incoming ${transfer.amount} ${transfer.currency} from ${transfer.from} moved to suspense: ${reason}${transfer.memo ? ` "${transfer.memo}"` : ''} (tx ${transfer.hash})`,
+      );
+    }
+  }
+
+  /**
+   * Closes deposits past expiresAt. Nothing received: the pending transaction
+   * fails. A transfer arriving later still confirms it. Partly paid: flagged
+   * as underpaid.
+   */
+  private async expireDeposits(): Promise<void> {
+    const expired = await this.prisma.depositAddress.findMany({
+      where: { isActive: true, expiresAt: { lt: new Date() } },
+      select: { id: true, receivedAmount: true },
+    });
+
+    for (const depositAddress of expired) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.depositAddress.update({
+          where: { id: depositAddress.id },
+          data: {
+            isActive: false,
+            ...(depositAddress.receivedAmount.greaterThan(0) && {
+              amountMismatch: DepositAmountMismatch.UNDERPAID,
+            }),
+          },
+        });
+
+        await tx.transaction.updateMany({
+          where: {
+            status: TransactionStatus.PENDING,
+            type: 'DEPOSIT',
+            metadata: {
+              path: ['depositAddressId'],
+              equals: depositAddress.id,
+            },
+          },
+          data: {
+            status: TransactionStatus.FAILED,
+          },
+        });
+      });
+
+      this.logger.log(`Deposit ${depositAddress.id} expired`);
+    }
+  }
+}
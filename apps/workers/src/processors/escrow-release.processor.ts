@@ -2,26 +2,50 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Interval } from '@nestjs/schedule';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
+import {
+  Prisma,
+  Deal,
+  postJournalEntry,
+  userAvailable,
+  userFrozen,
+  PLATFORM_FEES_ACCOUNT,
+  HOT_WALLET_ACCOUNT,
+  ESCROW_CONTRACT_ACCOUNT,
+  USER_BALANCE_COLUMNS,
+  creditReferralReward,
+  dealStatusFromSlots,
+  viewsGuaranteeOutcome,
+  proRataShares,
+  ViewsGuaranteeOutcome,
+} from '@tam/prisma-client';
 import { PrismaService } from '../prisma/prisma.service';
-import { PLATFORM_FEE_PERCENT, DisputeReason } from '@tam/shared-types';
+import { TonWalletService } from '../ton-wallet/ton-wallet.service';
+import { BatchSeqno } from '@tam/ton-utils';
+import { PLATFORM_FEE_PERCENT, PRO_RATA_MIN_VIEWS_PERCENT, DisputeReason, FeeBreakdown } from '@tam/shared-types';
 import { QUEUE_NAMES, NotificationJobData, NOTIFICATION_JOB_OPTIONS } from '@tam/queue-contracts';
 
 const BOT_TOKEN = process.env.BOT_TOKEN;
 const VERIFICATION_LOG_CHAT_ID = process.env.VERIFICATION_LOG_CHAT_ID;
 
+// Re-send a settlement message that has not landed after this long
+const ESCROW_CONTRACT_RESEND_MS = 10 * 60 * 1000;
+
 @Injectable()
 export class EscrowReleaseService {
   private readonly logger = new Logger(EscrowReleaseService.name);
 
   constructor(
     private prisma: PrismaService,
+    private tonWallet: TonWalletService,
     @InjectQueue(QUEUE_NAMES.NOTIFICATION) private notificationQueue: Queue<NotificationJobData>,
   ) {}
 
   @Interval(60000)
   async processAll(): Promise<void> {
     await this.processEscrowRelease();
+    await this.processSlotEscrowRelease();
     await this.processFolderPlacementEscrowRelease();
+    await this.processEscrowContracts();
   }
 
   /**
@@ -84,11 +108,12 @@ export class EscrowReleaseService {
 
     const now = new Date();
 
-    // Find deals that are POSTED and past verification deadline
+    // Find deals that are POSTED and past verification deadline; multi-slot deals are released per slot
     const deals = await this.prisma.deal.findMany({
       where: {
         status: 'POSTED',
         verificationDeadline: { lte: now },
+        slots: { none: {} },
       },
       include: { channel: { select: { title: true, telegramId: true } } },
       take: 10,
@@ -100,6 +125,8 @@ export class EscrowReleaseService {
       this.logger.log(`Processing deal ${deal.id}...`);
 
       try {
+        let views = deal.viewsAtVerification;
+
         // Verify post still exists before releasing funds
         if (deal.postMessageId) {
           const channel = (deal as any).channel;
@@ -115,6 +142,7 @@ export class EscrowReleaseService {
                 data: { viewsAtVerification: verification.views },
               });
               this.logger.log(`Deal ${deal.id}: final views at release = ${verification.views}`);
+              views = verification.views;
             }
 
             if (!verification.exists) {
@@ -162,82 +190,106 @@ export class EscrowReleaseService {
           }
         }
 
+        // Views guarantee agreed at creation: full, pro-rata or disputed
+        const outcome = this.viewsOutcome(deal, views);
+        if (outcome.action === 'DISPUTE') {
+          await this.disputeLowViews(deal, deal.channel?.title, views!);
+          continue;
+        }
+        const shares = outcome.action === 'PRO_RATA'
+          ? proRataShares(deal.amount, deal.platformFee, outcome.ratio)
+          : { payout: deal.amount, fee: deal.platformFee, refund: new Prisma.Decimal(0) };
+
         await this.prisma.$transaction(async (tx) => {
           const channelOwnerId = deal.channelOwnerId;
           const advertiserId = deal.advertiserId;
-          const dealAmount = deal.amount;
-          const platformFee = deal.platformFee;
-          const totalFrozen = dealAmount.add(platformFee);
-          const payoutAmount = dealAmount; // Channel owner gets deal amount (fee goes to platform)
+          const totalFrozen = deal.amount.add(deal.platformFee);
+          // Channel owner gets the (delivered share of the) deal amount, the fee goes to platform
+          const payoutAmount = shares.payout;
+          const platformFee = shares.fee;
 
-          // Get advertiser to verify frozen funds
+          // Get advertiser to verify frozen funds in the deal's currency
           const advertiser = await tx.user.findUnique({
             where: { id: advertiserId },
-            select: { frozenTon: true },
           });
 
-          if (!advertiser || advertiser.frozenTon.lessThan(totalFrozen)) {
+          if (!advertiser || advertiser[USER_BALANCE_COLUMNS[deal.currency].frozen].lessThan(totalFrozen)) {
             throw new Error(`Insufficient frozen funds for advertiser ${advertiserId}`);
           }
 
-          // Deduct from advertiser's frozen balance
-          await tx.user.update({
-            where: { id: advertiserId },
-            data: {
-              frozenTon: { decrement: totalFrozen },
-            },
-          });
+          const onChain = deal.escrowMode === 'CONTRACT';
 
-          // Add payout to channel owner's balance
-          await tx.user.update({
-            where: { id: channelOwnerId },
-            data: {
-              balanceTon: { increment: payoutAmount },
-            },
-          });
-
-          // Create release transaction for channel owner
-          await tx.transaction.create({
-            data: {
-              amount: payoutAmount,
-              type: 'ESCROW_RELEASE',
-              status: 'CONFIRMED',
-              userId: channelOwnerId,
-              dealId: deal.id,
-              metadata: {
-                action: 'payout_received',
-                fromUserId: advertiserId,
-              },
-            },
-          });
-
-          // Create fee transaction (for platform accounting)
-          if (platformFee.greaterThan(0)) {
-            await tx.transaction.create({
+          if (!onChain) {
+            // Create release transaction for channel owner
+            const releaseTx = await tx.transaction.create({
               data: {
-                amount: platformFee,
-                type: 'FEE',
+                amount: payoutAmount,
+                currency: deal.currency,
+                type: 'ESCROW_RELEASE',
                 status: 'CONFIRMED',
-                userId: advertiserId,
+                userId: channelOwnerId,
                 dealId: deal.id,
                 metadata: {
-                  action: 'platform_fee',
-                  feePercent: PLATFORM_FEE_PERCENT,
+                  action: 'payout_received',
+                  fromUserId: advertiserId,
                 },
               },
             });
+
+            // Create fee transaction (for platform accounting)
+            if (platformFee.greaterThan(0)) {
+              await tx.transaction.create({
+                data: {
+                  amount: platformFee,
+                  currency: deal.currency,
+                  type: 'FEE',
+                  status: 'CONFIRMED',
+                  userId: advertiserId,
+                  dealId: deal.id,
+                  metadata: {
+                    action: 'platform_fee',
+                    feePercent: (deal.feeBreakdown as FeeBreakdown | null)?.feePercent ?? PLATFORM_FEE_PERCENT,
+                  },
+                },
+              });
+            }
+
+            // Move advertiser's frozen funds: payout to channel owner, fee to platform
+            await postJournalEntry(tx, {
+              type: 'ESCROW_RELEASE',
+              currency: deal.currency,
+              transactionId: releaseTx.id,
+              dealId: deal.id,
+              movements: [
+                { debit: userFrozen(advertiserId), credit: userAvailable(channelOwnerId), amount: payoutAmount },
+                { debit: userFrozen(advertiserId), credit: PLATFORM_FEES_ACCOUNT, amount: platformFee },
+              ],
+            });
+
+            await creditReferralReward(tx, {
+              fee: platformFee,
+              currency: deal.currency,
+              payerId: advertiserId,
+              counterpartyId: channelOwnerId,
+              dealId: deal.id,
+            });
+
+            await this.refundViewsShortfall(tx, deal, shares.refund);
           }
 
-          // Update deal status to RELEASED
+          // Update deal status to RELEASED; contract deals are paid out on-chain by processEscrowContracts
           await tx.deal.update({
             where: { id: deal.id },
-            data: { status: 'RELEASED' },
+            data: {
+              status: 'RELEASED',
+              ...(onChain && { escrowContractStatus: 'RELEASING' as const }),
+            },
           });
 
           // Update campaign spentBudget
           await tx.campaign.update({
             where: { id: deal.campaignId },
-            data: { spentBudget: { increment: dealAmount } },
+            data: { spentBudget: { increment: payoutAmount } },
           });
 
           // Record status change
@@ -246,12 +298,14 @@ export class EscrowReleaseService {
               dealId: deal.id,
               fromStatus: 'POSTED',
               toStatus: 'RELEASED',
-              reason: 'Funds released after verification period',
+              reason: outcome.action === 'PRO_RATA'
+                ? `Funds released pro-rata: ${views}/${deal.minViewsRequired} views. Refunded ${shares.refund.toString()} ${deal.currency}`
+                : 'Funds released after verification period',
             },
           });
         });
 
-        this.logger.log(`Successfully released funds for deal ${deal.id}. Paid ${deal.amount} TON to channel owner.`);
+        this.logger.log(`Successfully released funds for deal ${deal.id}. Paid ${shares.payout} ${deal.currency} to channel owner.`);
 
         // Check if campaign budget is running low (>=80% spent)
         try {
@@ -281,11 +335,17 @@ export class EscrowReleaseService {
           this.logger.error(`Error checking campaign budget: ${e}`);
         }
 
+        if (outcome.action === 'PRO_RATA') {
+          this.notifyPartialRelease(deal, deal.channel?.title, shares, views!);
+          continue;
+        }
+
         const notifData = {
           dealId: deal.id,
           channelId: deal.channelId,
           channelTitle: (deal as any).channel?.title,
           amount: deal.amount.toString(),
+          currency: deal.currency,
           miniAppPath: `/deals/${deal.id}`,
         };
 
@@ -304,6 +364,246 @@ export class EscrowReleaseService {
     }
   }
 
+  /**
+   * Обрабатывает опубликованные слоты сделок, у которых истёк verificationDeadline
+   * Each verified slot pays out its share; the deal is RELEASED with its last slot
+   */
+  private async processSlotEscrowRelease(): Promise<void> {
+    const now = new Date();
+
+    // Disputed deals hold their slots until the dispute is resolved
+    const slots = await this.prisma.dealSlot.findMany({
+      where: {
+        status: 'POSTED',
+        verificationDeadline: { lte: now },
+        deal: { status: { in: ['SCHEDULED', 'POSTED'] } },
+      },
+      include: { deal: { include: { channel: { select: { title: true, telegramId: true } } } } },
+      orderBy: { verificationDeadline: 'asc' },
+      take: 10,
+    });
+
+    if (slots.length === 0) return;
+
+    this.logger.log(`Found ${slots.length} deal slots ready for release`);
+
+    for (const slot of slots) {
+      const deal = slot.deal;
+      this.logger.log(`Processing slot ${slot.position} of deal ${deal.id}...`);
+
+      try {
+        let views: number | undefined;
+
+        // Verify the slot's post still exists before releasing its share
+        const chatId = deal.channel?.telegramId ? Number(deal.channel.telegramId) : null;
+        if (slot.postMessageId && chatId) {
+          const verification = await this.verifyPostExists(chatId, slot.postMessageId);
+          views = verification.views;
+
+          if (!verification.exists) {
+            this.logger.warn(`Post ${slot.position} deleted for deal ${deal.id}, auto-disputing`);
+
+            await this.prisma.$transaction(async (tx) => {
+              await tx.dealSlot.updateMany({
+                where: { dealId: deal.id, status: { not: 'RELEASED' } },
+                data: { status: 'DISPUTED' },
+              });
+
+              await tx.deal.update({
+                where: { id: deal.id },
+                data: {
+                  status: 'DISPUTED',
+                  disputeReason: DisputeReason.EARLY_DELETION,
+                  disputeDescription: `Automatically disputed: ad post ${slot.position} was deleted from the channel before its verification period ended.`,
+                },
+              });
+
+              await tx.dealStatusHistory.create({
+                data: {
+                  dealId: deal.id,
+                  fromStatus: deal.status,
+                  toStatus: 'DISPUTED',
+                  reason: `Post ${slot.position} deleted before verification deadline (auto-detected)`,
+                },
+              });
+            });
+
+            for (const uid of [deal.channelOwnerId, deal.advertiserId]) {
+              this.notificationQueue.add('DEAL_DISPUTED', {
+                type: 'DEAL_DISPUTED',
+                recipientUserId: uid,
+                data: {
+                  dealId: deal.id,
+                  channelId: deal.channelId,
+                  channelTitle: deal.channel?.title,
+                  reason: `Post ${slot.position} deleted before verification deadline`,
+                  miniAppPath: `/deals/${deal.id}`,
+                },
+              }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+                this.logger.error(`Failed to queue dispute notification: ${e.message}`),
+              );
+            }
+
+            continue;
+          }
+        }
+
+        // The deal's views guarantee applies to each of its posts
+        views ??= slot.viewsAtVerification ?? undefined;
+        const outcome = this.viewsOutcome(deal, views);
+        if (outcome.action === 'DISPUTE') {
+          await this.disputeLowViews(deal, deal.channel?.title, views!, slot);
+          continue;
+        }
+        const shares = outcome.action === 'PRO_RATA'
+          ? proRataShares(slot.amount, slot.platformFee, outcome.ratio)
+          : { payout: slot.amount, fee: slot.platformFee, refund: new Prisma.Decimal(0) };
+
+        const nextStatus = await this.prisma.$transaction(async (tx) => {
+          // Guards against a dispute opened since the slot was loaded
+          const { count } = await tx.dealSlot.updateMany({
+            where: { id: slot.id, status: 'POSTED' },
+            data: {
+              status: 'RELEASED',
+              releasedAt: now,
+              ...(views != null && { viewsAtVerification: views }),
+            },
+          });
+          if (count === 0) {
+            throw new Error(`Slot ${slot.id} is no longer POSTED`);
+          }
+
+          const advertiser = await tx.user.findUnique({
+            where: { id: deal.advertiserId },
+          });
+
+          if (!advertiser || advertiser[USER_BALANCE_COLUMNS[deal.currency].frozen].lessThan(slot.amount.add(slot.platformFee))) {
+            throw new Error(`Insufficient frozen funds for advertiser ${deal.advertiserId}`);
+          }
+
+          const releaseTx = await tx.transaction.create({
+            data: {
+              amount: shares.payout,
+              currency: deal.currency,
+              type: 'ESCROW_RELEASE',
+              status: 'CONFIRMED',
+              userId: deal.channelOwnerId,
+              dealId: deal.id,
+              metadata: {
+                action: 'payout_received',
+                fromUserId: deal.advertiserId,
+                dealSlotId: slot.id,
+                slotPosition: slot.position,
+              },
+            },
+          });
+
+          if (shares.fee.greaterThan(0)) {
+            await tx.transaction.create({
+              data: {
+                amount: shares.fee,
+                currency: deal.currency,
+                type: 'FEE',
+                status: 'CONFIRMED',
+                userId: deal.advertiserId,
+                dealId: deal.id,
+                metadata: {
+                  action: 'platform_fee',
+                  feePercent: (deal.feeBreakdown as FeeBreakdown | null)?.feePercent ?? PLATFORM_FEE_PERCENT,
+                  dealSlotId: slot.id,
+                },
+              },
+            });
+          }
+
+          await postJournalEntry(tx, {
+            type: 'ESCROW_RELEASE',
+            currency: deal.currency,
+            description: `Post ${slot.position} released`,
+            transactionId: releaseTx.id,
+            dealId: deal.id,
+            movements: [
+              { debit: userFrozen(deal.advertiserId), credit: userAvailable(deal.channelOwnerId), amount: shares.payout },
+              { debit: userFrozen(deal.advertiserId), credit: PLATFORM_FEES_ACCOUNT, amount: shares.fee },
+            ],
+          });
+
+          await creditReferralReward(tx, {
+            fee: shares.fee,
+            currency: deal.currency,
+            payerId: deal.advertiserId,
+            counterpartyId: deal.channelOwnerId,
+            dealId: deal.id,
+            dealSlotId: slot.id,
+          });
+
+          await this.refundViewsShortfall(tx, deal, shares.refund, slot);
+
+          await tx.campaign.update({
+            where: { id: deal.campaignId },
+            data: { spentBudget: { increment: shares.payout } },
+          });
+
+          const siblings = await tx.dealSlot.findMany({
+            where: { dealId: deal.id },
+            select: { status: true },
+          });
+          const status = dealStatusFromSlots(siblings);
+
+          await tx.deal.update({
+            where: { id: deal.id },
+            data: { status },
+          });
+
+          await tx.dealStatusHistory.create({
+            data: {
+              dealId: deal.id,
+              fromStatus: deal.status,
+              toStatus: status,
+              reason: outcome.action === 'PRO_RATA'
+                ? `Funds for post ${slot.position} of ${siblings.length} released pro-rata: ${views}/${deal.minViewsRequired} views. Refunded ${shares.refund.toString()} ${deal.currency}`
+                : `Funds for post ${slot.position} of ${siblings.length} released after verification period`,
+            },
+          });
+
+          return status;
+        });
+
+        this.logger.log(
+          `Released slot ${slot.position} of deal ${deal.id}: paid ${shares.payout} ${deal.currency} to channel owner (deal now ${nextStatus})`,
+        );
+
+        if (outcome.action === 'PRO_RATA') {
+          this.notifyPartialRelease(deal, deal.channel?.title, shares, views!);
+        }
+
+        // Both parties are told once the whole deal is paid out
+        if (nextStatus !== 'RELEASED') continue;
+
+        const notifData = {
+          dealId: deal.id,
+          channelId: deal.channelId,
+          channelTitle: deal.channel?.title,
+          amount: deal.amount.toString(),
+          currency: deal.currency,
+          miniAppPath: `/deals/${deal.id}`,
+        };
+
+        for (const uid of [deal.channelOwnerId, deal.advertiserId]) {
+          this.notificationQueue.add('DEAL_AUTO_RELEASED', {
+            type: 'DEAL_AUTO_RELEASED',
+            recipientUserId: uid,
+            data: notifData,
+          }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+            this.logger.error(`Failed to queue notification: ${e.message}`),
+          );
+        }
+      } catch (error) {
+        this.logger.error(`Error releasing slot ${slot.id} of deal ${deal.id}:`, error);
+      }
+    }
+  }
+
   /**
    * Обрабатывает APPROVED размещения в папках, у которых истёк escrowReleaseAt
    * Автоматически выплачивает средства владельцу папки
@@ -346,24 +646,8 @@ export class EscrowReleaseService {
             throw new Error(`Insufficient frozen funds for channel owner ${channelOwnerId}`);
           }
 
-          // 1. Deduct from channel owner's frozen balance
-          await tx.user.update({
-            where: { id: channelOwnerId },
-            data: {
-              frozenTon: { decrement: totalFrozen },
-            },
-          });
-
-          // 2. Add payout to folder owner's balance
-          await tx.user.update({
-            where: { id: folderOwnerId },
-            data: {
-              balanceTon: { increment: amount },
-            },
-          });
-
-          // 3. Create FOLDER_PLACEMENT transaction for folder owner
-          await tx.transaction.create({
+          // 1. Create FOLDER_PLACEMENT transaction for folder owner
+          const placementTx = await tx.transaction.create({
             data: {
               amount: amount,
               type: 'FOLDER_PLACEMENT',
@@ -379,7 +663,7 @@ export class EscrowReleaseService {
             },
           });
 
-          // 4. Create FEE transaction for platform
+          // 2. Create FEE transaction for platform
           if (platformFee.greaterThan(0)) {
             await tx.transaction.create({
               data: {
@@ -390,6 +674,7 @@ export class EscrowReleaseService {
                 folderPlacementId: placement.id,
                 metadata: {
                   feeType: 'FOLDER_PLACEMENT',
+                  feePercent: (placement.feeBreakdown as FeeBreakdown | null)?.feePercent ?? PLATFORM_FEE_PERCENT,
                   folderId: placement.folderId,
                   channelId: placement.channelId,
                 },
@@ -397,7 +682,25 @@ export class EscrowReleaseService {
             });
           }
 
-          // 5. Update placement status to COMPLETED
+          // 3. Move channel owner's frozen funds: payout to folder owner, fee to platform
+          await postJournalEntry(tx, {
+            type: 'FOLDER_PLACEMENT',
+            transactionId: placementTx.id,
+            folderPlacementId: placement.id,
+            movements: [
+              { debit: userFrozen(channelOwnerId), credit: userAvailable(folderOwnerId), amount },
+              { debit: userFrozen(channelOwnerId), credit: PLATFORM_FEES_ACCOUNT, amount: platformFee },
+            ],
+          });
+
+          await creditReferralReward(tx, {
+            fee: platformFee,
+            payerId: channelOwnerId,
+            counterpartyId: folderOwnerId,
+            folderPlacementId: placement.id,
+          });
+
+          // 4. Update placement status to COMPLETED
           await tx.folderPlacement.update({
             where: { id: placement.id },
             data: {
@@ -430,4 +733,435 @@ export class EscrowReleaseService {
       }
     }
   }
+
+  /**
+   * Views guarantee outcome of a post. A contract pays out all or nothing,
+   * so a pro-rata shortfall on a contract deal goes to dispute.
+   */
+  private viewsOutcome(deal: Deal, views: number | null | undefined): ViewsGuaranteeOutcome {
+    const outcome = viewsGuaranteeOutcome(deal, views, PRO_RATA_MIN_VIEWS_PERCENT);
+    return outcome.action === 'PRO_RATA' && deal.escrowMode === 'CONTRACT'
+      ? { action: 'DISPUTE' }
+      : outcome;
+  }
+
+  /**
+   * Returns the undelivered share of a pro-rata release to the advertiser
+   */
+  private async refundViewsShortfall(
+    tx: Prisma.TransactionClient,
+    deal: Deal,
+    refund: Prisma.Decimal,
+    slot?: { id: string; position: number },
+  ): Promise<void> {
+    if (refund.lessThanOrEqualTo(0)) return;
+
+    const refundTx = await tx.transaction.create({
+      data: {
+        amount: refund,
+        currency: deal.currency,
+        type: 'ESCROW_REFUND',
+        status: 'CONFIRMED',
+        userId: deal.advertiserId,
+        dealId: deal.id,
+        metadata: {
+          action: 'views_shortfall_refund',
+          minViewsRequired: deal.minViewsRequired,
+          ...(slot && { dealSlotId: slot.id, slotPosition: slot.position }),
+        },
+      },
+    });
+
+    await postJournalEntry(tx, {
+      type: 'ESCROW_REFUND',
+      currency: deal.currency,
+      description: 'Views guarantee shortfall refund',
+      transactionId: refundTx.id,
+      dealId: deal.id,
+      movements: [
+        { debit: userFrozen(deal.advertiserId), credit: userAvailable(deal.advertiserId), amount: refund },
+      ],
+    });
+  }
+
+  /**
+   * A post missed its views guarantee under the DISPUTE policy (or too far
+   * under PRO_RATA): the deal is held for an admin to decide
+   */
+  private async disputeLowViews(
+    deal: Deal,
+    channelTitle: string | undefined,
+    views: number,
+    slot?: { id: string; position: number },
+  ): Promise<void> {
+    const target = deal.minViewsRequired!;
+    this.logger.warn(`Deal ${deal.id}: ${views}/${target} views${slot ? ` on post ${slot.position}` : ''}, auto-disputing`);
+
+    await this.prisma.$transaction(async (tx) => {
+      if (slot) {
+        await tx.dealSlot.update({
+          where: { id: slot.id },
+          data: { viewsAtVerification: views },
+        });
+        await tx.dealSlot.updateMany({
+          where: { dealId: deal.id, status: { not: 'RELEASED' } },
+          data: { status: 'DISPUTED' },
+        });
+      }
+
+      await tx.deal.update({
+        where: { id: deal.id },
+        data: {
+          status: 'DISPUTED',
+          disputeReason: DisputeReason.LOW_VIEWS,
+          disputeDescription: `Automatically disputed: ${slot ? `ad post ${slot.position}` : 'the ad post'} collected ${views} of ${target} guaranteed views.`,
+        },
+      });
+
+      await tx.dealStatusHistory.create({
+        data: {
+          dealId: deal.id,
+          fromStatus: deal.status,
+          toStatus: 'DISPUTED',
+          reason: `${slot ? `Post ${slot.position}: ` : ''}${views}/${target} views at verification deadline (${deal.viewsShortfallPolicy} guarantee)`,
+        },
+      });
+    });
+
+    for (const uid of [deal.channelOwnerId, deal.advertiserId]) {
+      this.notificationQueue.add('DEAL_DISPUTED', {
+        type: 'DEAL_DISPUTED',
+        recipientUserId: uid,
+        data: {
+          dealId: deal.id,
+          channelId: deal.channelId,
+          channelTitle,
+          reason: `Views below guarantee: ${views}/${target}`,
+          miniAppPath: `/deals/${deal.id}`,
+        },
+      }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+        this.logger.error(`Failed to queue dispute notification: ${e.message}`),
+      );
+    }
+  }
+
+  private notifyPartialRelease(
+    deal: Deal,
+    channelTitle: string | undefined,
+    shares: { payout: Prisma.Decimal; refund: Prisma.Decimal },
+    views: number,
+  ): void {
+    for (const uid of [deal.channelOwnerId, deal.advertiserId]) {
+      this.notificationQueue.add('DEAL_PARTIALLY_RELEASED', {
+        type: 'DEAL_PARTIALLY_RELEASED',
+        recipientUserId: uid,
+        data: {
+          dealId: deal.id,
+          channelId: deal.channelId,
+          channelTitle,
+          amount: shares.payout.toString(),
+          refundAmount: shares.refund.toString(),
+          currency: deal.currency,
+          views,
+          minViews: deal.minViewsRequired ?? undefined,
+          miniAppPath: `/deals/${deal.id}`,
+        },
+      }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+        this.logger.error(`Failed to queue DEAL_PARTIALLY_RELEASED notification: ${e.message}`),
+      );
+    }
+  }
+
+  /**
+   * Drives per-deal escrow contracts (CONTRACT escrow mode): deploys and funds
+   * them after approval, sends the oracle-signed release or refund, and
+   * settles the ledger once the contract has paid out and destroyed itself.
+   */
+  private async processEscrowContracts(): Promise<void> {
+    const deals = await this.prisma.deal.findMany({
+      where: { escrowContractStatus: { in: ['DEPLOYING', 'RELEASING', 'REFUNDING'] } },
+      orderBy: { updatedAt: 'asc' },
+      take: 10,
+    });
+
+    if (deals.length === 0) return;
+
+    if (!this.tonWallet.hasEscrowContractSupport()) {
+      this.logger.warn(`${deals.length} deals wait for their escrow contract, but escrow contracts are not configured`);
+      return;
+    }
+
+    for (const deal of deals) {
+      try {
+        await this.processEscrowContract(deal);
+      } catch (error) {
+        this.logger.error(`Error processing escrow contract for deal ${deal.id}:`, error);
+      }
+    }
+  }
+
+  private async processEscrowContract(deal: Deal): Promise<void> {
+    // Set on approval together with the DEPLOYING status
+    const address = deal.escrowContractAddress!;
+    const totalFrozen = deal.amount.add(deal.platformFee);
+    const canSend = !deal.escrowContractSentAt
+      || Date.now() - deal.escrowContractSentAt.getTime() > ESCROW_CONTRACT_RESEND_MS;
+
+    if (!deal.escrowContractFundedAt) {
+      // Settled before a deploy was ever signed: the funds never left the hot wallet
+      const deploySigned = !!deal.escrowContractSentAt || deal.escrowDeploySeqno !== null;
+      if (deal.escrowContractStatus !== 'DEPLOYING' && !deploySigned) {
+        await this.settleEscrowContractDeal(deal, false);
+        return;
+      }
+
+      const state = await this.tonWallet.getContractState(address);
+
+      if (state.active && new Prisma.Decimal(state.balance).greaterThanOrEqualTo(totalFrozen)) {
+        await this.prisma.$transaction(async (tx) => {
+          await postJournalEntry(tx, {
+            type: 'ESCROW_LOCK',
+            description: 'Escrow contract funded',
+            dealId: deal.id,
+            movements: [
+              { debit: ESCROW_CONTRACT_ACCOUNT, credit: HOT_WALLET_ACCOUNT, amount: totalFrozen },
+            ],
+          });
+
+          await tx.deal.update({
+            where: { id: deal.id },
+            data: { escrowContractFundedAt: new Date(), escrowContractSentAt: null },
+          });
+
+          // A release/refund may have been requested meanwhile; keep it
+          await tx.deal.updateMany({
+            where: { id: deal.id, escrowContractStatus: 'DEPLOYING' },
+            data: { escrowContractStatus: 'FUNDED' },
+          });
+        });
+
+        this.logger.log(`Escrow contract ${address} funded for deal ${deal.id}`);
+        return;
+      }
+
+      // The deploy left the hot wallet, the contract is funded once it lands
+      if (!deal.escrowContractSentAt) {
+        await this.deployEscrowContract(deal);
+      }
+      return;
+    }
+
+    if (deal.escrowContractStatus === 'DEPLOYING') return;
+
+    // The contract pays out and destroys itself in the same transaction
+    const state = await this.tonWallet.getContractState(address);
+    if (!state.active) {
+      await this.settleEscrowContractDeal(deal, true);
+      return;
+    }
+
+    if (canSend) {
+      const action = deal.escrowContractStatus === 'RELEASING' ? 'RELEASE' : 'REFUND';
+      await this.tonWallet.settleDealEscrow(address, deal.id, action);
+
+      await this.prisma.deal.update({
+        where: { id: deal.id },
+        data: { escrowContractSentAt: new Date() },
+      });
+
+      this.logger.log(`Escrow contract ${address}: ${action} sent for deal ${deal.id}`);
+    }
+  }
+
+  /**
+   * Sends the deploy signed with a seqno stored on the deal beforehand. The
+   * wallet accepts a seqno once, so sending it again never funds the contract
+   * twice; a new seqno is signed only once the deploy provably did not leave.
+   */
+  private async deployEscrowContract(deal: Deal): Promise<void> {
+    const address = deal.escrowContractAddress!;
+    const reserved = await this.reserveDeploySeqno(deal);
+
+    const result = await this.tonWallet.deployDealEscrow(
+      {
+        id: deal.id,
+        escrowContractAddress: address,
+        advertiserWallet: deal.escrowAdvertiserWallet!,
+        ownerWallet: deal.escrowOwnerWallet!,
+      },
+      deal.amount.toFixed(9),
+      deal.platformFee.toFixed(9),
+      reserved,
+    );
+
+    if (result.status === 'pending') {
+      throw new Error(`Escrow contract deploy not confirmed: ${result.error}`);
+    }
+
+    if (result.status === 'not_sent') {
+      await this.prisma.deal.updateMany({
+        where: { id: deal.id, escrowDeploySeqno: reserved.seqno },
+        data: { escrowDeploySeqno: null, escrowDeployValidUntil: null },
+      });
+      this.logger.warn(`Escrow contract ${address} deploy (seqno ${reserved.seqno}) not sent for deal ${deal.id}, will sign it again`);
+      return;
+    }
+
+    await this.prisma.deal.update({
+      where: { id: deal.id },
+      data: { escrowContractSentAt: new Date() },
+    });
+
+    this.logger.log(`Escrow contract ${address} deploy sent for deal ${deal.id}`);
+  }
+
+  /**
+   * Seqno the deploy is signed with. A new one is stored before anything is
+   * signed, and only if no other run stored one for the deal first.
+   */
+  private async reserveDeploySeqno(deal: {
+    id: string;
+    escrowDeploySeqno: number | null;
+    escrowDeployValidUntil: Date | null;
+  }): Promise<BatchSeqno> {
+    if (deal.escrowDeploySeqno !== null && deal.escrowDeployValidUntil !== null) {
+      return {
+        seqno: deal.escrowDeploySeqno,
+        validUntil: Math.floor(deal.escrowDeployValidUntil.getTime() / 1000),
+      };
+    }
+
+    const reserved = await this.tonWallet.reserveBatchSeqno();
+    const stored = await this.prisma.deal.updateMany({
+      where: { id: deal.id, escrowDeploySeqno: null },
+      data: { escrowDeploySeqno: reserved.seqno, escrowDeployValidUntil: new Date(reserved.validUntil * 1000) },
+    });
+
+    if (stored.count === 0) {
+      const current = await this.prisma.deal.findUniqueOrThrow({ where: { id: deal.id } });
+      return this.reserveDeploySeqno(current);
+    }
+
+    return reserved;
+  }
+
+  /**
+   * Settles the ledger of a released/refunded contract deal. When the
+   * contract was never deployed the funds are still in the hot wallet and
+   * the deal is settled like a custodial one.
+   */
+  private async settleEscrowContractDeal(deal: Deal, onChain: boolean): Promise<void> {
+    const release = deal.escrowContractStatus === 'RELEASING';
+    const totalFrozen = deal.amount.add(deal.platformFee);
+
+    await this.prisma.$transaction(async (tx) => {
+      if (release) {
+        const releaseTx = await tx.transaction.create({
+          data: {
+            amount: deal.amount,
+            currency: deal.currency,
+            type: 'ESCROW_RELEASE',
+            status: 'CONFIRMED',
+            userId: deal.channelOwnerId,
+            dealId: deal.id,
+            metadata: onChain
+              ? {
+                  action: 'payout_onchain',
+                  contractAddress: deal.escrowContractAddress,
+                  toAddress: deal.escrowOwnerWallet,
+                }
+              : {
+                  action: 'payout_received',
+                  fromUserId: deal.advertiserId,
+                },
+          },
+        });
+
+        if (deal.platformFee.greaterThan(0)) {
+          await tx.transaction.create({
+            data: {
+              amount: deal.platformFee,
+              currency: deal.currency,
+              type: 'FEE',
+              status: 'CONFIRMED',
+              userId: deal.advertiserId,
+              dealId: deal.id,
+              metadata: {
+                action: 'platform_fee',
+                feePercent: (deal.feeBreakdown as FeeBreakdown | null)?.feePercent ?? PLATFORM_FEE_PERCENT,
+              },
+            },
+          });
+        }
+
+        // On-chain: the payout leaves the platform, the fee comes back to the hot wallet
+        await postJournalEntry(tx, {
+          type: 'ESCROW_RELEASE',
+          currency: deal.currency,
+          transactionId: releaseTx.id,
+          dealId: deal.id,
+          movements: onChain
+            ? [
+                { debit: userFrozen(deal.advertiserId), credit: ESCROW_CONTRACT_ACCOUNT, amount: totalFrozen },
+                { debit: HOT_WALLET_ACCOUNT, credit: PLATFORM_FEES_ACCOUNT, amount: deal.platformFee },
+              ]
+            : [
+                { debit: userFrozen(deal.advertiserId), credit: userAvailable(deal.channelOwnerId), amount: deal.amount },
+                { debit: userFrozen(deal.advertiserId), credit: PLATFORM_FEES_ACCOUNT, amount: deal.platformFee },
+              ],
+        });
+
+        await creditReferralReward(tx, {
+          fee: deal.platformFee,
+          currency: deal.currency,
+          payerId: deal.advertiserId,
+          counterpartyId: deal.channelOwnerId,
+          dealId: deal.id,
+        });
+      } else {
+        const refundTx = await tx.transaction.create({
+          data: {
+            amount: totalFrozen,
+            currency: deal.currency,
+            type: 'ESCROW_REFUND',
+            status: 'CONFIRMED',
+            userId: deal.advertiserId,
+            dealId: deal.id,
+            metadata: onChain
+              ? {
+                  action: 'refund_onchain',
+                  contractAddress: deal.escrowContractAddress,
+                  toAddress: deal.escrowAdvertiserWallet,
+                }
+              : {
+                  action: 'refund_before_deploy',
+                },
+          },
+        });
+
+        await postJournalEntry(tx, {
+          type: 'ESCROW_REFUND',
+          currency: deal.currency,
+          transactionId: refundTx.id,
+          dealId: deal.id,
+          movements: [
+            {
+              debit: userFrozen(deal.advertiserId),
+              credit: onChain ? ESCROW_CONTRACT_ACCOUNT : userAvailable(deal.advertiserId),
+              amount: totalFrozen,
+            },
+          ],
+        });
+      }
+
+      await tx.deal.update({
+        where: { id: deal.id },
+        data: { escrowContractStatus: release ? 'RELEASED' : 'REFUNDED' },
+      });
+    });
+
+    this.logger.log(
+      `Deal ${deal.id} escrow contract ${release ? 'released' : 'refunded'}${onChain ? ' on-chain' : ' before deploy'}`,
+    );
+  }
 }
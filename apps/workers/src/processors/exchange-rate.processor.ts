@@ -0,0 +1,65 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Currency, Prisma } from '@tam/prisma-client';
+import { STATEMENT_FIAT_CURRENCY } from '@tam/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+
+const RATES_API_URL = process.env.EXCHANGE_RATES_API_URL ?? 'https://api.coingecko.com/api/v3/simple/price';
+
+// CoinGecko ids of the currencies the platform holds
+const COIN_IDS: Record<Currency, string> = {
+  TON: 'the-open-network',
+  USDT: 'tether',
+};
+
+/**
+ * Records the fiat rate of every platform currency, so statements can value
+ * each transaction at the rate of its time. A failed fetch only leaves a gap;
+ * statements fall back to the nearest earlier rate.
+ */
+@Injectable()
+export class ExchangeRateService {
+  private readonly logger = new Logger(ExchangeRateService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async recordRates(): Promise<void> {
+    const fiat = STATEMENT_FIAT_CURRENCY.toLowerCase();
+    const query = new URLSearchParams({
+      ids: Object.values(COIN_IDS).join(','),
+      vs_currencies: fiat,
+    });
+
+    // { "the-open-network": { "usd": 5.12 }, ... }
+    let prices: Record<string, Record<string, number> | undefined>;
+    try {
+      const response = await fetch(`${RATES_API_URL}?${query}`);
+      if (!response.ok) {
+        this.logger.warn(`Exchange rates request failed: HTTP ${response.status}`);
+        return;
+      }
+      prices = (await response.json()) as typeof prices;
+    } catch (error) {
+      this.logger.warn(`Exchange rates request failed: ${error}`);
+      return;
+    }
+
+    const recordedAt = new Date();
+    const rates = (Object.keys(COIN_IDS) as Currency[]).flatMap((currency) => {
+      const price = prices[COIN_IDS[currency]]?.[fiat];
+      if (typeof price !== 'number' || !(price > 0)) {
+        this.logger.warn(`No ${STATEMENT_FIAT_CURRENCY} rate returned for ${currency}`);
+        return [];
+      }
+      return [{
+        currency,
+        fiatCurrency: STATEMENT_FIAT_CURRENCY,
+        rate: new Prisma.Decimal(price).toDecimalPlaces(9),
+        recordedAt,
+      }];
+    });
+
+    if (rates.length > 0) {
+      await this.prisma.exchangeRate.createMany({ data: rates });
+    }
+  }
+}
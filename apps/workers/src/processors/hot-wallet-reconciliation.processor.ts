@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { QUEUE_NAMES, NotificationJobData, NOTIFICATION_JOB_OPTIONS } from '@tam/queue-contracts';
+import {
+  Prisma,
+  PLATFORM_FEES_ACCOUNT,
+  ESCROW_CONTRACT_ACCOUNT,
+  SUSPENSE_ACCOUNT,
+  ledgerAccountCode,
+  ledgerAccountBalance,
+  UNSENT_WITHDRAWAL_STATUSES,
+} from '@tam/prisma-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TonWalletService } from '../ton-wallet/ton-wallet.service';
+
+// Alert when |hot wallet - expected| exceeds this many TON
+const DEFAULT_ALERT_THRESHOLD_TON = '1';
+
+/**
+ * Compares the on-chain hot wallet balance with the platform's obligations
+ * and stores one ReconciliationSnapshot per day. Admins are alerted in
+ * Telegram when the difference exceeds RECONCILIATION_ALERT_THRESHOLD_TON.
+ */
+@Injectable()
+export class HotWalletReconciliationService {
+  private readonly logger = new Logger(HotWalletReconciliationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private tonWallet: TonWalletService,
+    private configService: ConfigService,
+    @InjectQueue(QUEUE_NAMES.NOTIFICATION) private notificationQueue: Queue<NotificationJobData>,
+  ) {}
+
+  async createSnapshot(): Promise<void> {
+    if (!this.tonWallet.isInitialized()) {
+      this.logger.warn('TON wallet not initialized, skipping hot wallet reconciliation');
+      return;
+    }
+
+    const hotWalletBalance = new Prisma.Decimal(await this.tonWallet.getBalance());
+
+    const users = await this.prisma.user.aggregate({
+      _sum: { balanceTon: true, frozenTon: true, appealFrozenTon: true },
+    });
+    const userBalanceTon = users._sum.balanceTon ?? new Prisma.Decimal(0);
+    const userFrozenTon = users._sum.frozenTon ?? new Prisma.Decimal(0);
+    // Informational only: appeal-frozen funds are already part of balanceTon
+    const userAppealFrozenTon = users._sum.appealFrozenTon ?? new Prisma.Decimal(0);
+
+    // Accrued platform fees (deal/placement fees and boosts) from the ledger
+    const fees = await this.prisma.ledgerPosting.aggregate({
+      where: { account: { code: ledgerAccountCode(PLATFORM_FEES_ACCOUNT) } },
+      _sum: { amount: true },
+    });
+    const platformFees = ledgerAccountBalance(
+      'PLATFORM_FEES',
+      fees._sum.amount ?? new Prisma.Decimal(0),
+    );
+
+    // Withdrawals are debited from users on creation but leave the wallet only once sent
+    const withdrawals = await this.prisma.transaction.aggregate({
+      where: {
+        type: 'WITHDRAWAL',
+        status: { in: ['PENDING', ...UNSENT_WITHDRAWAL_STATUSES] },
+        currency: 'TON',
+      },
+      _sum: { amount: true },
+    });
+    const pendingWithdrawals = withdrawals._sum.amount ?? new Prisma.Decimal(0);
+
+    // Frozen funds of CONTRACT-mode deals sit in their escrow contracts, not in the hot wallet
+    const contracts = await this.prisma.ledgerPosting.aggregate({
+      where: { account: { code: ledgerAccountCode(ESCROW_CONTRACT_ACCOUNT) } },
+      _sum: { amount: true },
+    });
+    const escrowContracts = ledgerAccountBalance(
+      'ESCROW_CONTRACT',
+      contracts._sum.amount ?? new Prisma.Decimal(0),
+    );
+
+    // Unmatched transfers held for moderators are still in the hot wallet
+    const suspended = await this.prisma.ledgerPosting.aggregate({
+      where: { account: { code: ledgerAccountCode(SUSPENSE_ACCOUNT) } },
+      _sum: { amount: true },
+    });
+    const suspense = ledgerAccountBalance(
+      'SUSPENSE',
+      suspended._sum.amount ?? new Prisma.Decimal(0),
+    );
+
+    const expectedBalance = userBalanceTon
+      .add(userFrozenTon)
+      .add(platformFees)
+      .add(pendingWithdrawals)
+      .add(suspense)
+      .sub(escrowContracts);
+    const difference = hotWalletBalance.sub(expectedBalance);
+    const alertThreshold = new Prisma.Decimal(
+      this.configService.get<string>('RECONCILIATION_ALERT_THRESHOLD_TON', DEFAULT_ALERT_THRESHOLD_TON),
+    );
+    const exceedsThreshold = difference.abs().greaterThan(alertThreshold);
+
+    const now = new Date();
+    const snapshotDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    const existing = await this.prisma.reconciliationSnapshot.findUnique({
+      where: { snapshotDate },
+      select: { alerted: true },
+    });
+
+    const values = {
+      hotWalletBalance,
+      userBalanceTon,
+      userFrozenTon,
+      userAppealFrozenTon,
+      platformFees,
+      pendingWithdrawals,
+      escrowContracts,
+      suspense,
+      expectedBalance,
+      difference,
+      alertThreshold,
+    };
+
+    // Alert at most once per day
+    const shouldAlert = exceedsThreshold && !existing?.alerted;
+
+    await this.prisma.reconciliationSnapshot.upsert({
+      where: { snapshotDate },
+      create: { snapshotDate, ...values, alerted: shouldAlert },
+      update: { ...values, ...(shouldAlert && { alerted: true }) },
+    });
+
+    this.logger.log(
+      `Hot wallet reconciliation: wallet=${hotWalletBalance} expected=${expectedBalance} difference=${difference}`,
+    );
+
+    if (!exceedsThreshold) return;
+
+    this.logger.error(
+      `Hot wallet difference ${difference} TON exceeds threshold ${alertThreshold} TON`,
+    );
+
+    if (shouldAlert) {
+      await this.alertAdmins(difference, hotWalletBalance, expectedBalance);
+    }
+  }
+
+  private async alertAdmins(
+    difference: Prisma.Decimal,
+    hotWalletBalance: Prisma.Decimal,
+    expectedBalance: Prisma.Decimal,
+  ): Promise<void> {
+    const admins = await this.prisma.user.findMany({
+      where: { role: 'ADMIN' },
+      select: { id: true },
+    });
+
+    for (const admin of admins) {
+      this.notificationQueue.add('RECONCILIATION_MISMATCH', {
+        type: 'RECONCILIATION_MISMATCH',
+        recipientUserId: admin.id,
+        data: {
+          amount: difference.toString(),
+          hotWalletBalance: hotWalletBalance.toString(),
+          expectedBalance: expectedBalance.toString(),
+          miniAppPath: '/moderation',
+        },
+      }, NOTIFICATION_JOB_OPTIONS).catch((err) => {
+        this.logger.error(`Failed to queue RECONCILIATION_MISMATCH notification: ${err.message}`);
+      });
+    }
+  }
+}
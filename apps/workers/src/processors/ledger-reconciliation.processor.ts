@@ -0,0 +1,168 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  Prisma,
+  Currency,
+  LedgerAccountType,
+  ledgerAccountBalance,
+  cachedUserBalances,
+  USER_BALANCE_COLUMNS,
+} from '@tam/prisma-client';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Recomputes user balances from ledger postings and compares them with the
+ * cached User balance columns of every currency.
+ * Drift is only flagged (log + AuditLog), never corrected automatically.
+ */
+@Injectable()
+export class LedgerReconciliationService {
+  private readonly logger = new Logger(LedgerReconciliationService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async reconcile(): Promise<void> {
+    const unbalancedEntries = await this.findUnbalancedEntries();
+    const driftedUsers = await this.findDriftedUsers();
+
+    if (unbalancedEntries === 0 && driftedUsers === 0) {
+      this.logger.log('Ledger reconciliation passed');
+    } else {
+      this.logger.error(
+        `Ledger reconciliation failed: ${unbalancedEntries} unbalanced entries, ${driftedUsers} users with drift`,
+      );
+    }
+  }
+
+  /**
+   * Every journal entry must sum to zero (debits == credits)
+   */
+  private async findUnbalancedEntries(): Promise<number> {
+    const unbalanced = await this.prisma.ledgerPosting.groupBy({
+      by: ['entryId'],
+      _sum: { amount: true },
+      having: { amount: { _sum: { not: 0 } } },
+    });
+
+    for (const row of unbalanced) {
+      this.logger.error(
+        `Ledger entry ${row.entryId} is unbalanced by ${row._sum.amount?.toString() ?? '?'}`,
+      );
+
+      await this.prisma.auditLog.create({
+        data: {
+          action: 'LEDGER_ENTRY_UNBALANCED',
+          entityType: 'LedgerEntry',
+          entityId: row.entryId,
+          newValue: { imbalance: row._sum.amount?.toString() ?? null },
+        },
+      });
+    }
+
+    return unbalanced.length;
+  }
+
+  private async findDriftedUsers(): Promise<number> {
+    const sums = await this.prisma.ledgerPosting.groupBy({
+      by: ['accountId'],
+      _sum: { amount: true },
+    });
+    const sumByAccount = new Map(
+      sums.map((row) => [row.accountId, row._sum.amount ?? new Prisma.Decimal(0)]),
+    );
+
+    const accounts = await this.prisma.ledgerAccount.findMany({
+      where: { userId: { not: null } },
+      select: { id: true, type: true, currency: true, userId: true },
+    });
+
+    // userId:currency → account type → balance
+    const ledgerByUser = new Map<string, Partial<Record<LedgerAccountType, Prisma.Decimal>>>();
+    for (const account of accounts) {
+      if (!account.userId) continue;
+      const key = `${account.userId}:${account.currency}`;
+      const balances = ledgerByUser.get(key) ?? {};
+      balances[account.type] = ledgerAccountBalance(
+        account.type,
+        sumByAccount.get(account.id) ?? new Prisma.Decimal(0),
+      );
+      ledgerByUser.set(key, balances);
+    }
+
+    // Users with any cached balance or any ledger account
+    const users = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { balanceTon: { not: 0 } },
+          { frozenTon: { not: 0 } },
+          { appealFrozenTon: { not: 0 } },
+          { balanceUsdt: { not: 0 } },
+          { frozenUsdt: { not: 0 } },
+          { appealFrozenUsdt: { not: 0 } },
+          { ledgerAccounts: { some: {} } },
+        ],
+      },
+      select: {
+        id: true,
+        balanceTon: true,
+        frozenTon: true,
+        appealFrozenTon: true,
+        balanceUsdt: true,
+        frozenUsdt: true,
+        appealFrozenUsdt: true,
+      },
+    });
+
+    let drifted = 0;
+
+    for (const user of users) {
+      let userDrifted = false;
+
+      for (const currency of Object.keys(USER_BALANCE_COLUMNS) as Currency[]) {
+        const columns = USER_BALANCE_COLUMNS[currency];
+        const expected = cachedUserBalances(ledgerByUser.get(`${user.id}:${currency}`) ?? {});
+        const cached = {
+          balance: user[columns.balance],
+          frozen: user[columns.frozen],
+          appealFrozen: user[columns.appealFrozen],
+        };
+
+        if (
+          cached.balance.equals(expected.balance) &&
+          cached.frozen.equals(expected.frozen) &&
+          cached.appealFrozen.equals(expected.appealFrozen)
+        ) {
+          continue;
+        }
+
+        userDrifted = true;
+        this.logger.error(
+          `${currency} balance drift for user ${user.id}: cached balance=${cached.balance} frozen=${cached.frozen} appealFrozen=${cached.appealFrozen}, ` +
+            `ledger balance=${expected.balance} frozen=${expected.frozen} appealFrozen=${expected.appealFrozen}`,
+        );
+
+        await this.prisma.auditLog.create({
+          data: {
+            action: 'LEDGER_DRIFT_DETECTED',
+            entityType: 'User',
+            entityId: user.id,
+            userId: user.id,
+            oldValue: {
+              [columns.balance]: cached.balance.toString(),
+              [columns.frozen]: cached.frozen.toString(),
+              [columns.appealFrozen]: cached.appealFrozen.toString(),
+            },
+            newValue: {
+              [columns.balance]: expected.balance.toString(),
+              [columns.frozen]: expected.frozen.toString(),
+              [columns.appealFrozen]: expected.appealFrozen.toString(),
+            },
+          },
+        });
+      }
+
+      if (userDrifted) drifted++;
+    }
+
+    return drifted;
+  }
+}
@@ -3,6 +3,7 @@ import { Logger } from '@nestjs/common';
 import { Job, UnrecoverableError } from 'bullmq';
 import { ConfigService } from '@nestjs/config';
 import { QUEUE_NAMES, NotificationJobData, NotificationType } from '@tam/queue-contracts';
+import { WITHDRAWAL_CONFIRM_CALLBACK, WITHDRAWAL_CANCEL_CALLBACK } from '@tam/shared-types';
 import { PrismaService } from '../prisma/prisma.service';
 
 // Simple token-bucket rate limiter (25 msg/sec)
@@ -31,6 +32,14 @@ class RateLimiter {
 interface MessageTemplate {
   text: string;
   buttonText: string;
+  /** Handled by the bot (apps/bot), shown above the web_app button */
+  callbackButtons?: Array<{ text: string; callbackData: string }>;
+}
+
+function formatLockedUntil(lockedUntil?: string): string {
+  return lockedUntil
+    ? new Date(lockedUntil).toLocaleString('ru-RU', { timeZone: 'UTC' }) + ' UTC'
+    : '?';
 }
 
 function buildMessage(
@@ -39,7 +48,7 @@ function buildMessage(
 ): MessageTemplate {
   const channel = data.channelTitle ?? 'канал';
   const folder = data.folderTitle ?? 'папка';
-  const amount = data.amount ? `${data.amount} TON` : '';
+  const amount = data.amount ? `${data.amount} ${data.currency ?? 'TON'}` : '';
   const reason = data.reason ?? 'не указана';
   const campaignTitle = data.campaignTitle ?? 'кампания';
 
@@ -74,6 +83,11 @@ function buildMessage(
         text: `💰 Сделка по <b>${channel}</b> завершена. Средства (${amount}) выплачены`,
         buttonText: 'Подробнее',
       };
+    case 'DEAL_PARTIALLY_RELEASED':
+      return {
+        text: `📉 Реклама в <b>${channel}</b> набрала ${data.views ?? 0} из ${data.minViews ?? 0} просмотров. Выплачено ${amount}, возвращено рекламодателю ${data.refundAmount ?? '0'} ${data.currency ?? 'TON'}`,
+        buttonText: 'Подробнее',
+      };
     case 'DEAL_DISPUTED':
       return {
         text: `⚠️ Открыт спор по сделке в <b>${channel}</b>. Причина: ${reason}`,
@@ -94,6 +108,41 @@ function buildMessage(
         text: `⏰ Заявка на рекламу в <b>${channel}</b> истекла`,
         buttonText: 'Подробнее',
       };
+    case 'DEAL_COUNTER_OFFER':
+      return {
+        text: `🤝 Встречное предложение по рекламе в <b>${channel}</b>: ${amount}`,
+        buttonText: 'Открыть сделку',
+      };
+    case 'DEAL_OFFER_ACCEPTED':
+      return {
+        text: `✅ Предложение по рекламе в <b>${channel}</b> принято. Сделка одобрена на ${amount}`,
+        buttonText: 'Подробнее',
+      };
+    case 'RECURRING_DEAL_REQUESTED':
+      return {
+        text: `🔁 Новая заявка на серию размещений в <b>${channel}</b>: ${amount} за пост`,
+        buttonText: 'Посмотреть',
+      };
+    case 'RECURRING_DEAL_APPROVED':
+      return {
+        text: `✅ Серия размещений в <b>${channel}</b> одобрена. Сделки будут создаваться по расписанию`,
+        buttonText: 'Подробнее',
+      };
+    case 'RECURRING_DEAL_PAUSED':
+      return {
+        text: `⏸ Серия размещений в <b>${channel}</b> приостановлена. Причина: ${reason}`,
+        buttonText: 'Подробнее',
+      };
+    case 'RECURRING_DEAL_CANCELLED':
+      return {
+        text: `❌ Серия размещений в <b>${channel}</b> отменена. Причина: ${reason}`,
+        buttonText: 'Подробнее',
+      };
+    case 'RECURRING_DEAL_FAILED':
+      return {
+        text: `⚠️ Не удалось создать очередную сделку серии в <b>${channel}</b>: ${reason}. Серия приостановлена`,
+        buttonText: 'Подробнее',
+      };
     case 'CHANNEL_APPROVED':
       return {
         text: `✅ Канал <b>${channel}</b> одобрен и доступен на маркетплейсе!`,
@@ -104,6 +153,18 @@ function buildMessage(
         text: `❌ Канал <b>${channel}</b> отклонён. Причина: ${reason}`,
         buttonText: 'Подробнее',
       };
+    case 'SAVED_SEARCH_MATCHES': {
+      const matches = data.matches ?? [];
+      const lines = matches.map((m) =>
+        `• <b>${m.channelTitle}</b> — ${m.price} TON${m.previousPrice ? ` (было ${m.previousPrice} TON)` : ''}`,
+      );
+      const more = (data.matchCount ?? matches.length) - matches.length;
+      return {
+        text: `🔎 Новые и подешевевшие каналы по поиску «${data.savedSearchName ?? ''}»:\n\n${lines.join('\n')}` +
+          (more > 0 ? `\n…и ещё ${more}` : ''),
+        buttonText: 'Смотреть каналы',
+      };
+    }
     case 'PLACEMENT_REQUESTED':
       return {
         text: `📩 Новая заявка на размещение в <b>${folder}</b>`,
@@ -159,6 +220,26 @@ function buildMessage(
         text: `❌ Контент для рекламы в <b>${channel}</b> отклонён. Причина: ${reason}`,
         buttonText: 'Подробнее',
       };
+    case 'CONTENT_SUBMISSION_REMINDER':
+      return {
+        text: `⏰ Отправьте контент для рекламы в <b>${channel}</b> до ${formatLockedUntil(data.deadline)}, иначе сделка будет отменена`,
+        buttonText: 'Отправить контент',
+      };
+    case 'CONTENT_REVIEW_REMINDER':
+      return {
+        text: `⏰ Проверьте контент для рекламы в <b>${channel}</b> до ${formatLockedUntil(data.deadline)}, иначе он будет одобрен автоматически`,
+        buttonText: 'Посмотреть',
+      };
+    case 'CONTENT_DEADLINE_MISSED':
+      return {
+        text: `⌛ Контент для рекламы в <b>${channel}</b> не отправлен вовремя. Сделка отменена, средства (${amount}) возвращены рекламодателю`,
+        buttonText: 'Подробнее',
+      };
+    case 'CONTENT_AUTO_APPROVED':
+      return {
+        text: `✅ Контент для рекламы в <b>${channel}</b> не проверен вовремя и одобрен автоматически`,
+        buttonText: 'Подробнее',
+      };
     case 'DEAL_MESSAGE':
       return {
         text: `💬 Новое сообщение по сделке в <b>${channel}</b>`,
@@ -174,6 +255,35 @@ function buildMessage(
         text: `⚠️ Бюджет кампании <b>${campaignTitle}</b> заканчивается (осталось ${data.budgetPercentRemaining ?? 0}%)`,
         buttonText: 'Подробнее',
       };
+    case 'RECONCILIATION_MISMATCH':
+      return {
+        text: `🚨 Расхождение баланса hot-кошелька: <b>${amount}</b>\nНа кошельке: ${data.hotWalletBalance ?? '?'} TON\nПо учёту: ${data.expectedBalance ?? '?'} TON`,
+        buttonText: 'Открыть',
+      };
+    case 'WITHDRAWAL_CONFIRMATION':
+      return {
+        text: `💸 Подтвердите вывод <b>${amount}</b> на кошелёк\n<code>${data.toAddress ?? '?'}</code>\n\nЕсли вы не создавали этот вывод, отмените его`,
+        buttonText: 'Открыть',
+        callbackButtons: [
+          { text: '✅ Подтвердить', callbackData: `${WITHDRAWAL_CONFIRM_CALLBACK}:${data.transactionId}` },
+          { text: '❌ Отменить', callbackData: `${WITHDRAWAL_CANCEL_CALLBACK}:${data.transactionId}` },
+        ],
+      };
+    case 'WITHDRAWAL_REJECTED':
+      return {
+        text: `❌ Вывод <b>${amount}</b> отклонён. Причина: ${reason}\nСредства возвращены на баланс`,
+        buttonText: 'Подробнее',
+      };
+    case 'WITHDRAWAL_EXPIRED':
+      return {
+        text: `⏰ Вывод <b>${amount}</b> не подтверждён вовремя и отменён. Средства возвращены на баланс`,
+        buttonText: 'Подробнее',
+      };
+    case 'WALLET_CHANGED':
+      return {
+        text: `🔐 Кошелёк для вывода изменён. Вывод средств заблокирован до ${formatLockedUntil(data.lockedUntil)}\n\nЕсли это были не вы, обратитесь в поддержку`,
+        buttonText: 'Открыть',
+      };
     default:
       return { text: 'Новое уведомление', buttonText: 'Открыть' };
   }
@@ -219,18 +329,23 @@ export class NotificationProcessor extends WorkerHost {
     const miniAppPath = data.miniAppPath || '';
     const webAppUrl = this.miniAppUrl ? `${this.miniAppUrl}${miniAppPath}` : '';
 
-    // 3. Build inline keyboard with web_app button
-    const inlineKeyboard = webAppUrl
-      ? {
-          inline_keyboard: [
-            [
-              {
-                text: template.buttonText,
-                web_app: { url: webAppUrl },
-              },
-            ],
-          ],
-        }
+    // 3. Build inline keyboard: bot callback buttons, then the web_app button
+    const keyboardRows: Array<Array<Record<string, unknown>>> = [];
+    if (template.callbackButtons) {
+      keyboardRows.push(
+        template.callbackButtons.map((b) => ({ text: b.text, callback_data: b.callbackData })),
+      );
+    }
+    if (webAppUrl) {
+      keyboardRows.push([
+        {
+          text: template.buttonText,
+          web_app: { url: webAppUrl },
+        },
+      ]);
+    }
+    const inlineKeyboard = keyboardRows.length > 0
+      ? { inline_keyboard: keyboardRows }
       : undefined;
 
     // 4. Rate limit
@@ -0,0 +1,135 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { QUEUE_NAMES, NotificationJobData, NOTIFICATION_JOB_OPTIONS } from '@tam/queue-contracts';
+import { SAVED_SEARCH_DIGEST_MAX_CHANNELS } from '@tam/shared-types';
+import {
+  Prisma,
+  SavedSearch,
+  ChannelSearchFilters,
+  parseChannelSearchFilters,
+  parseChannelSearchQuery,
+  channelSearchWhere,
+  enableChannelSearchTypoTolerance,
+} from '@tam/prisma-client';
+import { PrismaService } from '../prisma/prisma.service';
+
+interface DigestChannel {
+  title: string;
+  pricePerPost: Prisma.Decimal;
+  previousPricePerPost: Prisma.Decimal | null;
+}
+
+/**
+ * Digest of each saved search with alerts on: channels matching its filters
+ * that became ACTIVE or got cheaper since the previous digest.
+ */
+@Injectable()
+export class SavedSearchAlertsService {
+  private readonly logger = new Logger(SavedSearchAlertsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @InjectQueue(QUEUE_NAMES.NOTIFICATION) private notificationQueue: Queue<NotificationJobData>,
+  ) {}
+
+  async sendAlerts(): Promise<void> {
+    const searches = await this.prisma.savedSearch.findMany({
+      where: { alertsEnabled: true },
+    });
+
+    let sent = 0;
+    for (const search of searches) {
+      try {
+        if (await this.sendDigest(search)) sent++;
+      } catch (error) {
+        this.logger.error(`Saved search ${search.id}: digest failed: ${error}`);
+      }
+    }
+
+    if (sent > 0) {
+      this.logger.log(`Sent ${sent} saved search digests`);
+    }
+  }
+
+  private async sendDigest(search: SavedSearch): Promise<boolean> {
+    const filters = parseChannelSearchFilters(search.filters);
+    if (!filters) {
+      this.logger.warn(`Saved search ${search.id}: stored filters are invalid, skipped`);
+      return false;
+    }
+
+    const since = search.lastAlertedAt ?? search.createdAt;
+    const until = new Date();
+
+    // Claim the window, so a concurrent run does not send it twice
+    const { count } = await this.prisma.savedSearch.updateMany({
+      where: { id: search.id, lastAlertedAt: search.lastAlertedAt },
+      data: { lastAlertedAt: until },
+    });
+    if (count === 0) return false;
+
+    try {
+      return await this.queueDigest(search, filters, since, until);
+    } catch (error) {
+      // Give the window back, so the next run sends its matches
+      await this.prisma.savedSearch.updateMany({
+        where: { id: search.id, lastAlertedAt: until },
+        data: { lastAlertedAt: search.lastAlertedAt },
+      });
+      throw error;
+    }
+  }
+
+  private async queueDigest(
+    search: SavedSearch,
+    filters: ChannelSearchFilters,
+    since: Date,
+    until: Date,
+  ): Promise<boolean> {
+    const text = parseChannelSearchQuery(filters.search);
+    const where = channelSearchWhere({ ...filters, status: 'ACTIVE' }, text);
+    const fresh = Prisma.sql`(
+      ("listedAt" > ${since} AND "listedAt" <= ${until})
+      OR ("priceDroppedAt" > ${since} AND "priceDroppedAt" <= ${until})
+    )`;
+
+    const { channels, total } = await this.prisma.$transaction(async (tx) => {
+      await enableChannelSearchTypoTolerance(tx);
+
+      const channels = await tx.$queryRaw<DigestChannel[]>`
+        SELECT
+          title,
+          "pricePerPost",
+          CASE WHEN "priceDroppedAt" > ${since} THEN "previousPricePerPost" END AS "previousPricePerPost"
+        FROM "Channel"
+        WHERE ${where} AND ${fresh}
+        ORDER BY "subscriberCount" DESC
+        LIMIT ${SAVED_SEARCH_DIGEST_MAX_CHANNELS}
+      `;
+      const [{ total }] = await tx.$queryRaw<[{ total: number }]>`
+        SELECT count(*)::int AS total FROM "Channel" WHERE ${where} AND ${fresh}
+      `;
+      return { channels, total };
+    });
+
+    if (total === 0) return false;
+
+    await this.notificationQueue.add('SAVED_SEARCH_MATCHES', {
+      type: 'SAVED_SEARCH_MATCHES',
+      recipientUserId: search.userId,
+      data: {
+        savedSearchName: search.name,
+        matches: channels.map((c) => ({
+          channelTitle: c.title,
+          price: c.pricePerPost.toString(),
+          ...(c.previousPricePerPost && { previousPrice: c.previousPricePerPost.toString() }),
+        })),
+        matchCount: total,
+        miniAppPath: `/channels?savedSearch=${search.id}`,
+      },
+    }, NOTIFICATION_JOB_OPTIONS);
+
+    return true;
+  }
+}
@@ -3,9 +3,36 @@ import { Logger, OnModuleInit } from '@nestjs/common';
 import { Job, Queue } from 'bullmq';
 import { InjectQueue } from '@nestjs/bullmq';
 import { QUEUE_NAMES, SchedulerJobData, ChannelStatsJobData, NotificationJobData, DEFAULT_JOB_OPTIONS, NOTIFICATION_JOB_OPTIONS } from '@tam/queue-contracts';
-import { DisputeReason } from '@tam/shared-types';
+import {
+  DisputeReason,
+  CONTENT_SUBMISSION_DEADLINE_MS,
+  CONTENT_APPROVAL_DEADLINE_MS,
+  CONTENT_DEADLINE_REMINDER_MS,
+  POST_VERIFICATION_DEADLINE_MS,
+  RECURRING_DEAL_LEAD_MS,
+} from '@tam/shared-types';
+import {
+  Deal,
+  RecurringDeal,
+  USER_BALANCE_COLUMNS,
+  dealStatusFromSlots,
+  recurringPostTime,
+  upcomingRecurringOccurrence,
+  postJournalEntry,
+  userAvailable,
+  userFrozen,
+  userAppealFrozen,
+} from '@tam/prisma-client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AdPosterService } from './ad-poster.processor';
+import { LedgerReconciliationService } from './ledger-reconciliation.processor';
+import { HotWalletReconciliationService } from './hot-wallet-reconciliation.processor';
+import { WithdrawalDispatchService } from './withdrawal-dispatch.processor';
+import { DepositScannerService } from './deposit-scanner.processor';
+import { SuspenseRefundService } from './suspense-refund.processor';
+import { ExchangeRateService } from './exchange-rate.processor';
+import { StatementService } from './statement.processor';
+import { SavedSearchAlertsService } from './saved-search-alerts.processor';
 
 // Deal expiry timeout (7 days for PENDING deals)
 const PENDING_EXPIRY_DAYS = 7;
@@ -22,6 +49,14 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
   constructor(
     private prisma: PrismaService,
     private adPosterService: AdPosterService,
+    private ledgerReconciliationService: LedgerReconciliationService,
+    private hotWalletReconciliationService: HotWalletReconciliationService,
+    private withdrawalDispatchService: WithdrawalDispatchService,
+    private depositScannerService: DepositScannerService,
+    private suspenseRefundService: SuspenseRefundService,
+    private exchangeRateService: ExchangeRateService,
+    private statementService: StatementService,
+    private savedSearchAlertsService: SavedSearchAlertsService,
     @InjectQueue(QUEUE_NAMES.SCHEDULER) private schedulerQueue: Queue,
     @InjectQueue(QUEUE_NAMES.CHANNEL_STATS) private channelStatsQueue: Queue<ChannelStatsJobData>,
     @InjectQueue(QUEUE_NAMES.NOTIFICATION) private notificationQueue: Queue<NotificationJobData>,
@@ -45,6 +80,26 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
       }
     );
 
+    // Remind about and enforce content deadlines every 5 minutes
+    await this.schedulerQueue.add(
+      'check-content-deadlines',
+      { type: 'CHECK_CONTENT_DEADLINES' },
+      {
+        repeat: { every: 5 * 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Create and fund the deals of recurring series ahead of their post time every 10 minutes
+    await this.schedulerQueue.add(
+      'materialize-recurring-deals',
+      { type: 'MATERIALIZE_RECURRING_DEALS' },
+      {
+        repeat: { every: 10 * 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
     // Check for scheduled posts every minute
     await this.schedulerQueue.add(
       'check-scheduled-posts',
@@ -85,6 +140,106 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
       }
     );
 
+    // Reconcile ledger against cached user balances every hour
+    await this.schedulerQueue.add(
+      'reconcile-ledger',
+      { type: 'RECONCILE_LEDGER' },
+      {
+        repeat: { every: 60 * 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Compare hot wallet balance with platform obligations once a day
+    await this.schedulerQueue.add(
+      'reconcile-hot-wallet',
+      { type: 'RECONCILE_HOT_WALLET' },
+      {
+        repeat: { every: 24 * 60 * 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Expire unconfirmed withdrawals and dispatch confirmed ones every minute
+    await this.schedulerQueue.add(
+      'process-withdrawal-requests',
+      { type: 'PROCESS_WITHDRAWAL_REQUESTS' },
+      {
+        repeat: { every: 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Scan the hot wallet for new deposits every 30 seconds
+    await this.schedulerQueue.add(
+      'scan-deposits',
+      { type: 'SCAN_DEPOSITS' },
+      {
+        repeat: { every: 30 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Send refunds of unmatched transfers requested by moderators every minute
+    await this.schedulerQueue.add(
+      'process-suspense-refunds',
+      { type: 'PROCESS_SUSPENSE_REFUNDS' },
+      {
+        repeat: { every: 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Drop stored idempotent responses past their replay window every hour
+    await this.schedulerQueue.add(
+      'purge-idempotency-keys',
+      { type: 'PURGE_IDEMPOTENCY_KEYS' },
+      {
+        repeat: { every: 60 * 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Record fiat rates for statements every hour
+    await this.schedulerQueue.add(
+      'record-exchange-rates',
+      { type: 'RECORD_EXCHANGE_RATES' },
+      {
+        repeat: { every: 60 * 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Queue last month's statements; runs daily so a missed run is caught up
+    await this.schedulerQueue.add(
+      'schedule-monthly-statements',
+      { type: 'SCHEDULE_MONTHLY_STATEMENTS' },
+      {
+        repeat: { every: 24 * 60 * 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Generate queued and user-requested statements every minute
+    await this.schedulerQueue.add(
+      'generate-statements',
+      { type: 'GENERATE_STATEMENTS' },
+      {
+        repeat: { every: 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
+    // Send saved search digests (new and cheaper matching channels) once a day
+    await this.schedulerQueue.add(
+      'send-saved-search-alerts',
+      { type: 'SEND_SAVED_SEARCH_ALERTS' },
+      {
+        repeat: { every: 24 * 60 * 60 * 1000 },
+        removeOnComplete: true,
+      }
+    );
+
     this.logger.log('Recurring jobs scheduled');
   }
 
@@ -95,6 +250,12 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
       case 'CHECK_EXPIRED_DEALS':
         await this.checkExpiredDeals();
         break;
+      case 'CHECK_CONTENT_DEADLINES':
+        await this.checkContentDeadlines();
+        break;
+      case 'MATERIALIZE_RECURRING_DEALS':
+        await this.materializeRecurringDeals();
+        break;
       case 'CHECK_SCHEDULED_POSTS':
         await this.adPosterService.processScheduledPosts();
         break;
@@ -107,6 +268,36 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
       case 'CHECK_APPEAL_DEADLINES':
         await this.checkAppealDeadlines();
         break;
+      case 'RECONCILE_LEDGER':
+        await this.ledgerReconciliationService.reconcile();
+        break;
+      case 'RECONCILE_HOT_WALLET':
+        await this.hotWalletReconciliationService.createSnapshot();
+        break;
+      case 'PROCESS_WITHDRAWAL_REQUESTS':
+        await this.withdrawalDispatchService.processWithdrawalRequests();
+        break;
+      case 'SCAN_DEPOSITS':
+        await this.depositScannerService.scanDeposits();
+        break;
+      case 'PROCESS_SUSPENSE_REFUNDS':
+        await this.suspenseRefundService.processRefunds();
+        break;
+      case 'RECORD_EXCHANGE_RATES':
+        await this.exchangeRateService.recordRates();
+        break;
+      case 'SCHEDULE_MONTHLY_STATEMENTS':
+        await this.statementService.scheduleMonthlyStatements();
+        break;
+      case 'GENERATE_STATEMENTS':
+        await this.statementService.generatePendingStatements();
+        break;
+      case 'PURGE_IDEMPOTENCY_KEYS':
+        await this.purgeIdempotencyKeys();
+        break;
+      case 'SEND_SAVED_SEARCH_ALERTS':
+        await this.savedSearchAlertsService.sendAlerts();
+        break;
       default:
         this.logger.warn(`Unknown scheduler job type: ${type}`);
     }
@@ -128,12 +319,46 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
       include: { channel: { select: { title: true } } },
     });
 
+    let expired = 0;
     for (const deal of expiredPendingDeals) {
-      await this.prisma.$transaction(async (tx) => {
-        await tx.deal.update({
-          where: { id: deal.id },
+      const moved = await this.prisma.$transaction(async (tx) => {
+        // Skip if the deal was approved, rejected or cancelled meanwhile
+        const { count } = await tx.deal.updateMany({
+          where: { id: deal.id, status: 'PENDING' },
           data: { status: 'EXPIRED' },
         });
+        if (count === 0) return false;
+
+        await tx.dealOffer.updateMany({
+          where: { dealId: deal.id, status: 'PENDING' },
+          data: { status: 'CLOSED', respondedAt: now },
+        });
+
+        // Funds of a cart checkout deal were locked at checkout: return its share
+        if (deal.checkoutId) {
+          const total = deal.amount.add(deal.platformFee);
+          const refundTx = await tx.transaction.create({
+            data: {
+              amount: total,
+              currency: deal.currency,
+              type: 'ESCROW_REFUND',
+              status: 'CONFIRMED',
+              userId: deal.advertiserId,
+              dealId: deal.id,
+              metadata: { action: 'expired_checkout_refund', checkoutId: deal.checkoutId },
+            },
+          });
+
+          await postJournalEntry(tx, {
+            type: 'ESCROW_REFUND',
+            currency: deal.currency,
+            transactionId: refundTx.id,
+            dealId: deal.id,
+            movements: [
+              { debit: userFrozen(deal.advertiserId), credit: userAvailable(deal.advertiserId), amount: total },
+            ],
+          });
+        }
 
         await tx.dealStatusHistory.create({
           data: {
@@ -143,8 +368,13 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
             reason: `Deal expired after ${PENDING_EXPIRY_DAYS} days without approval`,
           },
         });
+
+        return true;
       });
 
+      if (!moved) continue;
+      expired++;
+
       this.logger.log(`Deal ${deal.id} expired (was PENDING for more than ${PENDING_EXPIRY_DAYS} days)`);
 
       this.notificationQueue.add('DEAL_EXPIRED', {
@@ -165,7 +395,7 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
     await this.checkStuckScheduledDeals(now);
 
     this.logger.log(
-      `Checked expired deals: ${expiredPendingDeals.length} PENDING deals expired`
+      `Checked expired deals: ${expired} PENDING deals expired`
     );
   }
 
@@ -176,10 +406,12 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
   private async checkStuckScheduledDeals(now: Date): Promise<void> {
     const stuckThreshold = new Date(now.getTime() - STUCK_SCHEDULED_HOURS * 60 * 60 * 1000);
 
+    // Multi-slot deals stay SCHEDULED across their posts; the ad poster retries each slot
     const stuckDeals = await this.prisma.deal.findMany({
       where: {
         status: 'SCHEDULED',
         scheduledPostTime: { lt: stuckThreshold },
+        slots: { none: {} },
       },
       include: { channel: { select: { title: true } } },
     });
@@ -192,35 +424,48 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
       try {
         await this.prisma.$transaction(async (tx) => {
           const totalFrozen = deal.amount.add(deal.platformFee);
+          const onChain = deal.escrowMode === 'CONTRACT';
 
-          // Refund frozen funds to advertiser balance
-          await tx.user.update({
-            where: { id: deal.advertiserId },
-            data: {
-              frozenTon: { decrement: totalFrozen },
-              balanceTon: { increment: totalFrozen },
-            },
-          });
+          if (!onChain) {
+            // Create refund transaction
+            const refundTx = await tx.transaction.create({
+              data: {
+                amount: totalFrozen,
+                currency: deal.currency,
+                type: 'ESCROW_REFUND',
+                status: 'CONFIRMED',
+                userId: deal.advertiserId,
+                dealId: deal.id,
+                metadata: {
+                  action: 'stuck_deal_refund',
+                  reason: `Deal stuck in SCHEDULED for >${STUCK_SCHEDULED_HOURS}h`,
+                },
+              },
+            });
 
-          // Create refund transaction
-          await tx.transaction.create({
-            data: {
-              amount: totalFrozen,
+            // Refund frozen funds to advertiser balance
+            await postJournalEntry(tx, {
               type: 'ESCROW_REFUND',
-              status: 'CONFIRMED',
-              userId: deal.advertiserId,
+              currency: deal.currency,
+              transactionId: refundTx.id,
               dealId: deal.id,
-              metadata: {
-                action: 'stuck_deal_refund',
-                reason: `Deal stuck in SCHEDULED for >${STUCK_SCHEDULED_HOURS}h`,
-              },
-            },
-          });
+              movements: [
+                {
+                  debit: userFrozen(deal.advertiserId),
+                  credit: userAvailable(deal.advertiserId),
+                  amount: totalFrozen,
+                },
+              ],
+            });
+          }
 
-          // Cancel the deal
+          // Cancel the deal; contract deals are refunded on-chain by EscrowReleaseService
           await tx.deal.update({
             where: { id: deal.id },
-            data: { status: 'CANCELLED' },
+            data: {
+              status: 'CANCELLED',
+              ...(onChain && { escrowContractStatus: 'REFUNDING' }),
+            },
           });
 
           await tx.dealStatusHistory.create({
@@ -259,6 +504,408 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
     }
   }
 
+  /**
+   * Enforces content deadlines of approved deals: reminds whoever's turn it
+   * is, then refunds a deal whose owner never submitted a draft and
+   * auto-approves a draft the advertiser never reviewed.
+   */
+  private async checkContentDeadlines(): Promise<void> {
+    const now = new Date();
+
+    await this.sendContentDeadlineReminders(now);
+
+    const overdueDeals = await this.prisma.deal.findMany({
+      where: {
+        status: { in: ['CONTENT_PENDING', 'CONTENT_SUBMITTED'] },
+        contentDeadline: { lt: now },
+      },
+      include: { channel: { select: { title: true } } },
+      orderBy: { contentDeadline: 'asc' },
+      take: 50,
+    });
+
+    for (const deal of overdueDeals) {
+      try {
+        if (deal.status === 'CONTENT_PENDING') {
+          await this.cancelMissedContentSubmission(deal, deal.channel.title);
+        } else {
+          await this.autoApproveContent(deal, deal.channel.title, now);
+        }
+      } catch (error) {
+        this.logger.error(`Error enforcing content deadline for deal ${deal.id}:`, error);
+      }
+    }
+
+    if (overdueDeals.length > 0) {
+      this.logger.log(`Checked content deadlines: ${overdueDeals.length} deals past their deadline`);
+    }
+  }
+
+  /**
+   * One reminder per content step, once its deadline is near
+   */
+  private async sendContentDeadlineReminders(now: Date): Promise<void> {
+    const deals = await this.prisma.deal.findMany({
+      where: {
+        status: { in: ['CONTENT_PENDING', 'CONTENT_SUBMITTED'] },
+        contentDeadline: { gt: now, lte: new Date(now.getTime() + CONTENT_DEADLINE_REMINDER_MS) },
+        contentReminderSentAt: null,
+      },
+      include: { channel: { select: { title: true } } },
+    });
+
+    for (const deal of deals) {
+      const { count } = await this.prisma.deal.updateMany({
+        where: { id: deal.id, status: deal.status, contentReminderSentAt: null },
+        data: { contentReminderSentAt: now },
+      });
+      if (count === 0) continue;
+
+      // The owner owes a draft; a submitted draft waits for the advertiser
+      const submission = deal.status === 'CONTENT_PENDING';
+      const type = submission ? 'CONTENT_SUBMISSION_REMINDER' : 'CONTENT_REVIEW_REMINDER';
+
+      this.notificationQueue.add(type, {
+        type,
+        recipientUserId: submission ? deal.channelOwnerId : deal.advertiserId,
+        data: {
+          dealId: deal.id,
+          channelId: deal.channelId,
+          channelTitle: deal.channel.title,
+          deadline: deal.contentDeadline!.toISOString(),
+          miniAppPath: `/deals/${deal.id}`,
+        },
+      }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+        this.logger.error(`Failed to queue ${type} notification: ${e.message}`),
+      );
+    }
+  }
+
+  /**
+   * The channel owner missed the submission deadline: the deal is cancelled
+   * and the advertiser's locked funds are returned
+   */
+  private async cancelMissedContentSubmission(deal: Deal, channelTitle: string): Promise<void> {
+    const totalFrozen = deal.amount.add(deal.platformFee);
+    const onChain = deal.escrowMode === 'CONTRACT';
+    const hours = deal.contentSubmissionHours ?? CONTENT_SUBMISSION_DEADLINE_MS / (60 * 60 * 1000);
+
+    const cancelled = await this.prisma.$transaction(async (tx) => {
+      // Skip if the owner submitted meanwhile
+      const { count } = await tx.deal.updateMany({
+        where: { id: deal.id, status: 'CONTENT_PENDING', contentDeadline: deal.contentDeadline },
+        data: {
+          status: 'CANCELLED',
+          contentDeadline: null,
+          // Contract deals are refunded on-chain by EscrowReleaseService
+          ...(onChain && { escrowContractStatus: 'REFUNDING' }),
+        },
+      });
+      if (count === 0) return false;
+
+      if (!onChain) {
+        const refundTx = await tx.transaction.create({
+          data: {
+            amount: totalFrozen,
+            currency: deal.currency,
+            type: 'ESCROW_REFUND',
+            status: 'CONFIRMED',
+            userId: deal.advertiserId,
+            dealId: deal.id,
+            metadata: { action: 'content_deadline_refund' },
+          },
+        });
+
+        await postJournalEntry(tx, {
+          type: 'ESCROW_REFUND',
+          currency: deal.currency,
+          transactionId: refundTx.id,
+          dealId: deal.id,
+          movements: [
+            { debit: userFrozen(deal.advertiserId), credit: userAvailable(deal.advertiserId), amount: totalFrozen },
+          ],
+        });
+      }
+
+      await tx.dealStatusHistory.create({
+        data: {
+          dealId: deal.id,
+          fromStatus: 'CONTENT_PENDING',
+          toStatus: 'CANCELLED',
+          reason: `Auto-cancelled: content not submitted within ${hours}h. Funds refunded: ${totalFrozen.toString()} ${deal.currency}`,
+        },
+      });
+
+      return true;
+    });
+
+    if (!cancelled) return;
+
+    this.logger.log(`Deal ${deal.id}: content submission deadline missed, cancelled and refunded ${totalFrozen} ${deal.currency}`);
+
+    for (const uid of [deal.advertiserId, deal.channelOwnerId]) {
+      this.notificationQueue.add('CONTENT_DEADLINE_MISSED', {
+        type: 'CONTENT_DEADLINE_MISSED',
+        recipientUserId: uid,
+        data: {
+          dealId: deal.id,
+          channelId: deal.channelId,
+          channelTitle,
+          amount: totalFrozen.toString(),
+          currency: deal.currency,
+          miniAppPath: `/deals/${deal.id}`,
+        },
+      }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+        this.logger.error(`Failed to queue CONTENT_DEADLINE_MISSED notification: ${e.message}`),
+      );
+    }
+  }
+
+  /**
+   * The advertiser missed the review deadline: the submitted draft is
+   * approved as if the advertiser had approved it
+   */
+  private async autoApproveContent(deal: Deal, channelTitle: string, now: Date): Promise<void> {
+    const hours = deal.contentApprovalHours ?? CONTENT_APPROVAL_DEADLINE_MS / (60 * 60 * 1000);
+
+    const nextStatus = await this.prisma.$transaction(async (tx) => {
+      const slots = await tx.dealSlot.findMany({
+        where: { dealId: deal.id },
+        select: { status: true },
+      });
+
+      // Multi-slot deals: the ad poster publishes each slot at its own time
+      const hasScheduledTime = deal.scheduledPostTime !== null && deal.scheduledPostTime > now;
+      const status = slots.length > 0
+        ? dealStatusFromSlots(slots)
+        : hasScheduledTime ? 'SCHEDULED' : 'POSTED';
+
+      const { count } = await tx.deal.updateMany({
+        where: { id: deal.id, status: 'CONTENT_SUBMITTED', contentDeadline: deal.contentDeadline },
+        data: {
+          status,
+          contentText: deal.draftContentText,
+          contentMediaUrls: deal.draftContentMediaUrls,
+          contentDeadline: null,
+          ...(slots.length === 0 && {
+            verificationDeadline: new Date(
+              (hasScheduledTime ? deal.scheduledPostTime!.getTime() : now.getTime()) + POST_VERIFICATION_DEADLINE_MS,
+            ),
+            ...(!hasScheduledTime && { actualPostTime: now }),
+          }),
+        },
+      });
+      if (count === 0) return null;
+
+      await tx.dealStatusHistory.create({
+        data: {
+          dealId: deal.id,
+          fromStatus: 'CONTENT_SUBMITTED',
+          toStatus: status,
+          reason: `Content auto-approved: not reviewed by advertiser within ${hours}h`,
+        },
+      });
+
+      return status;
+    });
+
+    if (!nextStatus) return;
+
+    this.logger.log(`Deal ${deal.id}: content review deadline missed, auto-approved. Status: ${nextStatus}`);
+
+    const notifData = {
+      dealId: deal.id,
+      channelId: deal.channelId,
+      channelTitle,
+      miniAppPath: `/deals/${deal.id}`,
+    };
+
+    this.notificationQueue.add('CONTENT_APPROVED', {
+      type: 'CONTENT_APPROVED',
+      recipientUserId: deal.channelOwnerId,
+      data: notifData,
+    }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+      this.logger.error(`Failed to queue CONTENT_APPROVED notification: ${e.message}`),
+    );
+
+    this.notificationQueue.add('CONTENT_AUTO_APPROVED', {
+      type: 'CONTENT_AUTO_APPROVED',
+      recipientUserId: deal.advertiserId,
+      data: notifData,
+    }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+      this.logger.error(`Failed to queue CONTENT_AUTO_APPROVED notification: ${e.message}`),
+    );
+  }
+
+  /**
+   * Creates the deal of each active recurring series whose next post is due
+   * within RECURRING_DEAL_LEAD_MS. The owner approved the series once, so
+   * the deal is funded and scheduled right away; a series that can't be
+   * funded is paused and both sides are notified.
+   */
+  private async materializeRecurringDeals(): Promise<void> {
+    const now = new Date();
+
+    const dueSeries = await this.prisma.recurringDeal.findMany({
+      where: {
+        status: 'ACTIVE',
+        nextPostTime: { lte: new Date(now.getTime() + RECURRING_DEAL_LEAD_MS) },
+      },
+      include: { channel: { select: { title: true, status: true } } },
+      take: 100,
+    });
+
+    for (const series of dueSeries) {
+      try {
+        await this.materializeOccurrence(series, series.channel, now);
+      } catch (error) {
+        this.logger.error(`Recurring deal ${series.id}: failed to create occurrence ${series.nextOccurrence}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private async materializeOccurrence(
+    series: RecurringDeal,
+    channel: { title: string; status: string },
+    now: Date,
+  ): Promise<void> {
+    const occurrence = series.nextOccurrence;
+    // Set while the series is active
+    const postTime = series.nextPostTime!;
+
+    // Missed while the workers were down: skip to the next period still ahead
+    if (postTime <= now) {
+      const upcoming = upcomingRecurringOccurrence(series, occurrence + 1, now);
+      await this.prisma.recurringDeal.updateMany({
+        where: { id: series.id, status: 'ACTIVE', nextOccurrence: occurrence },
+        data: upcoming
+          ? { nextOccurrence: upcoming.occurrence, nextPostTime: upcoming.postTime }
+          : { status: 'COMPLETED', nextPostTime: null },
+      });
+      this.logger.warn(`Recurring deal ${series.id}: occurrence ${occurrence} missed its post time, skipped`);
+      return;
+    }
+
+    const total = series.amount.add(series.platformFee);
+    const following = occurrence < series.occurrences ? occurrence + 1 : null;
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      if (channel.status !== 'ACTIVE') {
+        return { failure: 'channel is not active' };
+      }
+
+      // The user row stays locked until commit, so concurrent withdrawals and
+      // approvals cannot spend the checked balance meanwhile
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${series.advertiserId} FOR UPDATE`;
+      const advertiser = await tx.user.findUnique({
+        where: { id: series.advertiserId },
+      });
+      const available = advertiser?.[USER_BALANCE_COLUMNS[series.currency].balance];
+      if (!available || available.lessThan(total)) {
+        return {
+          failure: `insufficient balance: ${total.toString()} ${series.currency} required, ${available?.toString() ?? '0'} ${series.currency} available`,
+        };
+      }
+
+      // Claim the period; a concurrent run, pause or cancellation wins otherwise
+      const { count } = await tx.recurringDeal.updateMany({
+        where: { id: series.id, status: 'ACTIVE', nextOccurrence: occurrence },
+        data: following
+          ? { nextOccurrence: following, nextPostTime: recurringPostTime(series, following) }
+          : { status: 'COMPLETED', nextOccurrence: occurrence + 1, nextPostTime: null },
+      });
+      if (count === 0) return null;
+
+      const deal = await tx.deal.create({
+        data: {
+          amount: series.amount,
+          platformFee: series.platformFee,
+          feeBreakdown: series.feeBreakdown ?? undefined,
+          currency: series.currency,
+          status: 'SCHEDULED',
+          contentType: series.contentType,
+          contentText: series.contentText,
+          contentMediaUrls: series.contentMediaUrls,
+          scheduledPostTime: postTime,
+          verificationDeadline: new Date(postTime.getTime() + POST_VERIFICATION_DEADLINE_MS),
+          trackLinks: series.trackLinks,
+          adFormat: series.adFormat,
+          campaignId: series.campaignId,
+          channelId: series.channelId,
+          advertiserId: series.advertiserId,
+          channelOwnerId: series.channelOwnerId,
+          recurringDealId: series.id,
+          occurrence,
+        },
+      });
+
+      const lockTx = await tx.transaction.create({
+        data: {
+          amount: total,
+          currency: series.currency,
+          type: 'ESCROW_LOCK',
+          status: 'CONFIRMED',
+          userId: series.advertiserId,
+          dealId: deal.id,
+          metadata: { action: 'recurring_deal_lock', recurringDealId: series.id, occurrence },
+        },
+      });
+
+      await postJournalEntry(tx, {
+        type: 'ESCROW_LOCK',
+        currency: series.currency,
+        transactionId: lockTx.id,
+        dealId: deal.id,
+        movements: [
+          { debit: userAvailable(series.advertiserId), credit: userFrozen(series.advertiserId), amount: total },
+        ],
+      });
+
+      await tx.dealStatusHistory.create({
+        data: {
+          dealId: deal.id,
+          fromStatus: null,
+          toStatus: 'SCHEDULED',
+          reason: `Post ${occurrence} of ${series.occurrences} of recurring deal ${series.id}. Funds locked: ${total.toString()} ${series.currency}`,
+        },
+      });
+
+      return { dealId: deal.id };
+    });
+
+    if (!result) return;
+
+    if ('dealId' in result) {
+      this.logger.log(`Recurring deal ${series.id}: created deal ${result.dealId} for post ${occurrence}/${series.occurrences}`);
+      return;
+    }
+
+    const { count } = await this.prisma.recurringDeal.updateMany({
+      where: { id: series.id, status: 'ACTIVE', nextOccurrence: occurrence },
+      data: { status: 'PAUSED', pausedReason: result.failure, pausedBy: null },
+    });
+    if (count === 0) return;
+
+    this.logger.warn(`Recurring deal ${series.id}: post ${occurrence} not created (${result.failure}), series paused`);
+
+    for (const uid of [series.advertiserId, series.channelOwnerId]) {
+      this.notificationQueue.add('RECURRING_DEAL_FAILED', {
+        type: 'RECURRING_DEAL_FAILED',
+        recipientUserId: uid,
+        data: {
+          channelId: series.channelId,
+          channelTitle: channel.title,
+          amount: total.toString(),
+          currency: series.currency,
+          reason: result.failure,
+          miniAppPath: '/deals',
+        },
+      }, NOTIFICATION_JOB_OPTIONS).catch((e) =>
+        this.logger.error(`Failed to queue RECURRING_DEAL_FAILED notification: ${e.message}`),
+      );
+    }
+  }
+
   /**
    * Proactively checks POSTED deals approaching verification deadline.
    * Verifies post existence and auto-disputes if post was deleted early.
@@ -441,15 +1088,31 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
         await this.prisma.$transaction(async (tx) => {
           if (deal.status === 'RELEASED') {
             // Channel owner received funds, unfreeze netAmount
-            await tx.user.update({
-              where: { id: deal.channelOwnerId },
-              data: { appealFrozenTon: { decrement: netAmount } },
+            await postJournalEntry(tx, {
+              description: 'Appeal window expired: unfreeze',
+              currency: deal.currency,
+              dealId: deal.id,
+              movements: [
+                {
+                  debit: userAppealFrozen(deal.channelOwnerId),
+                  credit: userAvailable(deal.channelOwnerId),
+                  amount: netAmount,
+                },
+              ],
             });
           } else if (deal.status === 'REFUNDED') {
             // Advertiser received refund, unfreeze totalFrozen
-            await tx.user.update({
-              where: { id: deal.advertiserId },
-              data: { appealFrozenTon: { decrement: totalFrozen } },
+            await postJournalEntry(tx, {
+              description: 'Appeal window expired: unfreeze',
+              currency: deal.currency,
+              dealId: deal.id,
+              movements: [
+                {
+                  debit: userAppealFrozen(deal.advertiserId),
+                  credit: userAvailable(deal.advertiserId),
+                  amount: totalFrozen,
+                },
+              ],
             });
           }
 
@@ -527,6 +1190,19 @@ export class SchedulerProcessor extends WorkerHost implements OnModuleInit {
     this.logger.log(`Queued stats updates for ${activeChannels.length} channels`);
   }
 
+  /**
+   * Deletes expired idempotency keys; their requests can no longer be replayed
+   */
+  private async purgeIdempotencyKeys(): Promise<void> {
+    const { count } = await this.prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Purged ${count} expired idempotency keys`);
+    }
+  }
+
   @OnWorkerEvent('failed')
   onFailed(job: Job, error: Error) {
     this.logger.error(`Scheduler job ${job.id} failed: ${error.message}`);
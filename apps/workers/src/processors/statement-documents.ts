@@ -0,0 +1,184 @@
+import { Currency, Prisma } from '@tam/prisma-client';
+import { StatementCategory, StatementSummary } from '@tam/shared-types';
+
+export interface StatementLine {
+  date: Date;
+  category: StatementCategory;
+  type: string;            // Ledger entry type
+  description: string;
+  reference: string;       // Deal, folder placement, transaction or ledger entry id
+  currency: Currency;
+  amount: Prisma.Decimal;  // Inflows positive, outflows negative
+  rate: Prisma.Decimal | null;
+  fiatAmount: Prisma.Decimal | null;
+}
+
+export interface StatementDocument {
+  period: string;          // YYYY-MM
+  periodStart: Date;
+  periodEnd: Date;         // Exclusive
+  accountName: string;
+  generatedAt: Date;
+  summary: StatementSummary;
+  lines: StatementLine[];
+}
+
+export const CATEGORY_LABELS: Record<StatementCategory, string> = {
+  DEPOSIT: 'Deposits',
+  INCOME: 'Income',
+  SPENT: 'Ad payments',
+  FEE: 'Platform fees',
+  BOOST: 'Boosts',
+  WITHDRAWAL: 'Withdrawals',
+  REFERRAL: 'Referral rewards',
+  OTHER: 'Other',
+};
+
+/**
+ * One row per movement, for spreadsheets and accounting software.
+ * Starts with a BOM so Excel reads it as UTF-8.
+ */
+export function renderStatementCsv(doc: StatementDocument): Buffer {
+  const fiat = doc.summary.fiatCurrency;
+  const rows = [
+    ['Date', 'Type', 'Category', 'Description', 'Reference', 'Currency', 'Amount', `${fiat} rate`, `${fiat} amount`],
+    ...doc.lines.map((line) => [
+      line.date.toISOString(),
+      line.type,
+      CATEGORY_LABELS[line.category],
+      line.description,
+      line.reference,
+      line.currency,
+      line.amount.toString(),
+      line.rate?.toString() ?? '',
+      line.fiatAmount?.toFixed(2) ?? '',
+    ]),
+  ];
+
+  return Buffer.from('\uFEFF' + rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n', 'utf8');
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// A4 in points, monospaced text
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 8;
+const LEADING = 11;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+/**
+ * Printable statement: per-currency summary followed by every movement
+ */
+export function renderStatementPdf(doc: StatementDocument): Buffer {
+  const fiat = doc.summary.fiatCurrency;
+  const lastDay = new Date(doc.periodEnd.getTime() - 1).toISOString().slice(0, 10);
+  const text: string[] = [
+    'TELEGRAM ADS MARKETPLACE - ACCOUNT STATEMENT',
+    '',
+    `Period:     ${doc.period} (${doc.periodStart.toISOString().slice(0, 10)} to ${lastDay}, UTC)`,
+    `Account:    ${doc.accountName}`,
+    `Generated:  ${formatDateTime(doc.generatedAt)} UTC`,
+    `${fiat} values use the rate recorded closest to each movement.`,
+  ];
+
+  for (const currency of doc.summary.currencies) {
+    text.push('', `${currency.currency.padEnd(35)}${fiat.padStart(20)}`);
+    text.push(summaryRow('Opening balance', currency.openingBalance));
+    for (const category of Object.keys(CATEGORY_LABELS) as StatementCategory[]) {
+      const total = currency.totals[category];
+      if (total) {
+        text.push(summaryRow(CATEGORY_LABELS[category], total.amount, total.fiatAmount ?? 'n/a'));
+      }
+    }
+    text.push(summaryRow('Closing balance', currency.closingBalance));
+  }
+
+  text.push('', 'MOVEMENTS', '');
+  text.push(
+    `${'Date'.padEnd(16)} ${'Category'.padEnd(16)} ${'Amount'.padStart(16)} ${'Cur'.padEnd(4)} ` +
+      `${`${fiat} rate`.padStart(10)} ${`${fiat} amount`.padStart(12)} Reference`,
+  );
+  if (doc.lines.length === 0) {
+    text.push('No movements in this period');
+  }
+  for (const line of doc.lines) {
+    text.push(
+      `${formatDateTime(line.date).padEnd(16)} ${CATEGORY_LABELS[line.category].padEnd(16)} ` +
+        `${line.amount.toString().padStart(16)} ${line.currency.padEnd(4)} ` +
+        `${(line.rate?.toFixed(4) ?? '').padStart(10)} ${(line.fiatAmount?.toFixed(2) ?? '').padStart(12)} ` +
+        line.reference,
+    );
+  }
+
+  return renderTextPdf(text);
+}
+
+function summaryRow(label: string, amount: string, fiatAmount?: string): string {
+  return `  ${label.padEnd(18)}${amount.padStart(15)}${(fiatAmount ?? '').padStart(20)}`;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * Minimal PDF 1.4 writer: built-in Courier font, one text line per row,
+ * paginated. Characters outside printable ASCII are replaced.
+ */
+function renderTextPdf(lines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+  if (pages.length === 0) {
+    pages.push([]);
+  }
+
+  // Objects 1-3: catalog, page tree, font; then a page and its content per page
+  const pageObjectId = (page: number) => 4 + page * 2;
+  const pageObjectIds = pages.map((_, i) => pageObjectId(i));
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((pageLines, i) => {
+    const content = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map((line) => `(${pdfString(line)}) Tj T*`),
+      'ET',
+    ].join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageObjectId(i) + 1} 0 R >>`,
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function pdfString(value: string): string {
+  return value.replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, '\\$&');
+}
@@ -0,0 +1,323 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Currency, Prisma, Statement, TransactionType } from '@tam/prisma-client';
+import {
+  STATEMENT_FIAT_CURRENCY,
+  StatementCategory,
+  StatementCurrencySummary,
+  StatementStatus,
+  StatementTotal,
+} from '@tam/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import {
+  StatementDocument,
+  StatementLine,
+  renderStatementCsv,
+  renderStatementPdf,
+} from './statement-documents';
+
+// Statements generated per run
+const BATCH_SIZE = 20;
+// A movement is valued at a rate recorded at most this far from it
+const MAX_RATE_AGE_MS = 24 * 60 * 60 * 1000;
+
+interface RatePoint {
+  recordedAt: Date;
+  rate: Prisma.Decimal;
+}
+
+/**
+ * Monthly account statements built from the ledger: opening and closing
+ * balance per currency and every movement of the user's accounts, valued in
+ * fiat at the rate of its time. Statements of the previous month are queued
+ * for every active user; users can request any other past month.
+ */
+@Injectable()
+export class StatementService {
+  private readonly logger = new Logger(StatementService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private storage: StorageService,
+  ) {}
+
+  /**
+   * Queues last month's statement of every user whose accounts moved in it
+   */
+  async scheduleMonthlyStatements(): Promise<void> {
+    const now = new Date();
+    const periodEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+
+    const accounts = await this.prisma.ledgerAccount.findMany({
+      where: {
+        userId: { not: null },
+        postings: { some: { entry: { createdAt: { gte: periodStart, lt: periodEnd } } } },
+      },
+      select: { userId: true },
+      distinct: ['userId'],
+    });
+
+    const { count } = await this.prisma.statement.createMany({
+      data: accounts.flatMap((a) => (a.userId ? [{ userId: a.userId, periodStart }] : [])),
+      skipDuplicates: true,
+    });
+
+    if (count > 0) {
+      this.logger.log(`Queued ${count} statements for ${formatPeriod(periodStart)}`);
+    }
+  }
+
+  async generatePendingStatements(): Promise<void> {
+    const pending = await this.prisma.statement.findMany({
+      where: { status: StatementStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const statement of pending) {
+      try {
+        await this.generate(statement);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Statement ${statement.id} failed: ${message}`);
+        await this.prisma.statement.update({
+          where: { id: statement.id },
+          data: { status: StatementStatus.FAILED, error: message },
+        });
+      }
+    }
+  }
+
+  private async generate(statement: Statement): Promise<void> {
+    const periodStart = statement.periodStart;
+    const periodEnd = new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 1));
+    const period = formatPeriod(periodStart);
+
+    const [user, accounts] = await Promise.all([
+      this.prisma.user.findUniqueOrThrow({
+        where: { id: statement.userId },
+        select: { telegramId: true, username: true, firstName: true, lastName: true },
+      }),
+      this.prisma.ledgerAccount.findMany({
+        where: { userId: statement.userId },
+        select: { id: true, currency: true },
+      }),
+    ]);
+    const accountIds = accounts.map((a) => a.id);
+    const zero = new Prisma.Decimal(0);
+
+    // User accounts are credit-normal: the balance is the negated posting sum
+    const openingSums = await this.prisma.ledgerPosting.groupBy({
+      by: ['accountId'],
+      where: { accountId: { in: accountIds }, entry: { createdAt: { lt: periodStart } } },
+      _sum: { amount: true },
+    });
+    const opening = new Map<Currency, Prisma.Decimal>();
+    for (const row of openingSums) {
+      const currency = accounts.find((a) => a.id === row.accountId)?.currency;
+      if (!currency) continue;
+      opening.set(currency, (opening.get(currency) ?? zero).sub(row._sum.amount ?? zero));
+    }
+
+    const entries = await this.prisma.ledgerEntry.findMany({
+      where: {
+        createdAt: { gte: periodStart, lt: periodEnd },
+        postings: { some: { accountId: { in: accountIds } } },
+      },
+      include: {
+        postings: { select: { accountId: true, amount: true, account: { select: { type: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const lines: StatementLine[] = [];
+    for (const entry of entries) {
+      // Moves between the user's own accounts (escrow lock, refund) net to zero
+      const delta = entry.postings
+        .filter((p) => accountIds.includes(p.accountId))
+        .reduce((sum, p) => sum.sub(p.amount), zero);
+      if (delta.isZero()) continue;
+
+      const line = {
+        date: entry.createdAt,
+        type: entry.type ?? 'ADJUSTMENT',
+        description: entry.description ?? '',
+        reference: entry.dealId ?? entry.folderPlacementId ?? entry.transactionId ?? entry.id,
+        currency: entry.currency,
+        rate: null,
+        fiatAmount: null,
+      };
+      const category = categorize(entry.type, delta);
+
+      if (category === 'SPENT') {
+        // The payer's outflow includes the platform fee credited in the same entry
+        const credited = entry.postings
+          .filter((p) => p.account.type === 'PLATFORM_FEES')
+          .reduce((sum, p) => sum.sub(p.amount), zero);
+        const fee = Prisma.Decimal.min(Prisma.Decimal.max(credited, zero), delta.neg());
+        if (fee.greaterThan(0)) {
+          lines.push({ ...line, category: 'FEE', amount: fee.neg() });
+        }
+        if (!delta.add(fee).isZero()) {
+          lines.push({ ...line, category, amount: delta.add(fee) });
+        }
+      } else {
+        lines.push({ ...line, category, amount: delta });
+      }
+    }
+
+    await this.applyRates(lines, periodStart, periodEnd);
+
+    const currencies = [...new Set<Currency>([...opening.keys(), ...lines.map((l) => l.currency)])];
+    if (currencies.length === 0) {
+      currencies.push('TON');
+    }
+
+    const summaries: StatementCurrencySummary[] = currencies.map((currency) => {
+      const currencyLines = lines.filter((l) => l.currency === currency);
+      const openingBalance = opening.get(currency) ?? zero;
+      const closingBalance = currencyLines.reduce((sum, l) => sum.add(l.amount), openingBalance);
+
+      const totals: Partial<Record<StatementCategory, StatementTotal>> = {};
+      for (const category of new Set(currencyLines.map((l) => l.category))) {
+        const categoryLines = currencyLines.filter((l) => l.category === category);
+        const priced = categoryLines.every((l) => l.fiatAmount !== null);
+        totals[category] = {
+          amount: categoryLines.reduce((sum, l) => sum.add(l.amount), zero).toString(),
+          ...(priced && {
+            fiatAmount: categoryLines.reduce((sum, l) => sum.add(l.fiatAmount ?? zero), zero).toFixed(2),
+          }),
+        };
+      }
+
+      return {
+        currency: currency as StatementCurrencySummary['currency'],
+        openingBalance: openingBalance.toString(),
+        closingBalance: closingBalance.toString(),
+        totals,
+      };
+    });
+
+    const doc: StatementDocument = {
+      period,
+      periodStart,
+      periodEnd,
+      accountName: [
+        user.username ? `@${user.username}` : [user.firstName, user.lastName].filter(Boolean).join(' '),
+        `(Telegram ID ${user.telegramId})`,
+      ].join(' '),
+      generatedAt: new Date(),
+      summary: {
+        fiatCurrency: STATEMENT_FIAT_CURRENCY,
+        currencies: summaries,
+        lineCount: lines.length,
+      },
+      lines,
+    };
+
+    // Random suffix: the bucket is also served publicly for avatars
+    const keyBase = `statements/${statement.userId}/${period}-${randomBytes(12).toString('hex')}`;
+    const csvKey = await this.storage.uploadBuffer(renderStatementCsv(doc), `${keyBase}.csv`, 'text/csv');
+    const pdfKey = await this.storage.uploadBuffer(renderStatementPdf(doc), `${keyBase}.pdf`, 'application/pdf');
+
+    await this.prisma.statement.update({
+      where: { id: statement.id },
+      data: {
+        status: StatementStatus.READY,
+        fiatCurrency: STATEMENT_FIAT_CURRENCY,
+        summary: doc.summary as unknown as Prisma.InputJsonValue,
+        csvKey,
+        pdfKey,
+        error: null,
+        generatedAt: doc.generatedAt,
+      },
+    });
+
+    this.logger.log(`Statement ${period} of user ${statement.userId} generated: ${lines.length} movements`);
+  }
+
+  /**
+   * Values each line at the last rate recorded before it, or the first one
+   * after it if there is none close enough
+   */
+  private async applyRates(lines: StatementLine[], periodStart: Date, periodEnd: Date): Promise<void> {
+    const currencies = [...new Set(lines.map((l) => l.currency))];
+    if (currencies.length === 0) return;
+
+    const rates = await this.prisma.exchangeRate.findMany({
+      where: {
+        currency: { in: currencies },
+        fiatCurrency: STATEMENT_FIAT_CURRENCY,
+        recordedAt: {
+          gte: new Date(periodStart.getTime() - MAX_RATE_AGE_MS),
+          lt: new Date(periodEnd.getTime() + MAX_RATE_AGE_MS),
+        },
+      },
+      select: { currency: true, recordedAt: true, rate: true },
+      orderBy: { recordedAt: 'asc' },
+    });
+
+    const byCurrency = new Map<Currency, RatePoint[]>();
+    for (const rate of rates) {
+      const points = byCurrency.get(rate.currency) ?? [];
+      points.push(rate);
+      byCurrency.set(rate.currency, points);
+    }
+
+    for (const line of lines) {
+      const rate = rateAt(byCurrency.get(line.currency) ?? [], line.date);
+      if (rate) {
+        line.rate = rate;
+        line.fiatAmount = line.amount.mul(rate).toDecimalPlaces(2);
+      }
+    }
+  }
+}
+
+function categorize(type: TransactionType | null, delta: Prisma.Decimal): StatementCategory {
+  switch (type) {
+    case 'DEPOSIT':
+      return 'DEPOSIT';
+    case 'WITHDRAWAL':
+      return 'WITHDRAWAL';
+    case 'ESCROW_RELEASE':
+    case 'FOLDER_PLACEMENT':
+      return delta.isPositive() ? 'INCOME' : 'SPENT';
+    case 'FEE':
+      return 'FEE';
+    case 'BOOST_CHANNEL':
+    case 'BOOST_FOLDER':
+      return 'BOOST';
+    case 'REFERRAL_REWARD':
+      return 'REFERRAL';
+    default:
+      return 'OTHER';
+  }
+}
+
+/**
+ * Points are sorted by recordedAt
+ */
+function rateAt(points: RatePoint[], date: Date): Prisma.Decimal | null {
+  let before: RatePoint | undefined;
+  let after: RatePoint | undefined;
+  for (const point of points) {
+    if (point.recordedAt <= date) {
+      before = point;
+    } else {
+      after = point;
+      break;
+    }
+  }
+
+  const time = date.getTime();
+  if (before && time - before.recordedAt.getTime() <= MAX_RATE_AGE_MS) return before.rate;
+  if (after && after.recordedAt.getTime() - time <= MAX_RATE_AGE_MS) return after.rate;
+  return null;
+}
+
+function formatPeriod(periodStart: Date): string {
+  return periodStart.toISOString().slice(0, 7);
+}
@@ -0,0 +1,133 @@
+import { Logger } from '@nestjs/common';
+import { Prisma, postJournalEntry } from '@tam/prisma-client';
+import { BatchSendResult } from '@tam/ton-utils';
+import { SuspenseRefundService } from './suspense-refund.processor';
+import { PrismaService } from '../prisma/prisma.service';
+import { TonWalletService } from '../ton-wallet/ton-wallet.service';
+
+jest.mock('@tam/prisma-client', () => ({
+  ...jest.requireActual('@tam/prisma-client'),
+  postJournalEntry: jest.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+describe('SuspenseRefundService', () => {
+  let refund: Record<string, unknown>;
+  let prisma: {
+    suspenseTransfer: { findMany: jest.Mock; updateMany: jest.Mock };
+    auditLog: { create: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let tonWallet: { isInitialized: jest.Mock; reserveBatchSeqno: jest.Mock; sendBatch: jest.Mock };
+  let service: SuspenseRefundService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  function sendResult(result: BatchSendResult) {
+    tonWallet.sendBatch.mockResolvedValue(result);
+  }
+
+  // Refund signed with seqno 7, its message expired `ago` ms ago
+  function signed(ago: number) {
+    refund.refundSeqno = 7;
+    refund.refundValidUntil = new Date(Math.floor((Date.now() - ago) / 1000) * 1000);
+  }
+
+  beforeEach(() => {
+    jest.mocked(postJournalEntry).mockReset();
+
+    refund = {
+      id: 'refund-1',
+      status: 'REFUNDING',
+      fromAddress: 'EQDtFpEwcFAEcRe5mLVh2N6C0x-_hJEM7W61_JLnSF74p4q2',
+      amount: new Prisma.Decimal('3'),
+      currency: 'TON',
+      resolvedById: 'moderator-1',
+      refundSeqno: null,
+      refundValidUntil: null,
+    };
+    prisma = {
+      suspenseTransfer: {
+        findMany: jest.fn(async () => [refund]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      auditLog: { create: jest.fn() },
+      $transaction: jest.fn(async (fn: (tx: unknown) => unknown) => fn(prisma)),
+    };
+    tonWallet = {
+      isInitialized: jest.fn().mockReturnValue(true),
+      reserveBatchSeqno: jest.fn().mockResolvedValue({ seqno: 9, validUntil: 1_750_000_060 }),
+      sendBatch: jest.fn(),
+    };
+
+    service = new SuspenseRefundService(
+      prisma as unknown as PrismaService,
+      tonWallet as unknown as TonWalletService,
+    );
+  });
+
+  const statusUpdates = () =>
+    prisma.suspenseTransfer.updateMany.mock.calls
+      .map(([args]) => args.data.status)
+      .filter((status) => status !== undefined);
+
+  it('stores the seqno before the refund is sent', async () => {
+    sendResult({ status: 'pending', outputs: [] });
+
+    await service.processRefunds();
+
+    expect(prisma.suspenseTransfer.updateMany).toHaveBeenCalledWith({
+      where: { id: 'refund-1', status: 'REFUNDING', refundSeqno: null },
+      data: { refundSeqno: 9, refundValidUntil: new Date(1_750_000_060_000) },
+    });
+    expect(prisma.suspenseTransfer.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      tonWallet.sendBatch.mock.invocationCallOrder[0]!,
+    );
+  });
+
+  it('books a refund found in the transaction of its seqno', async () => {
+    signed(0);
+    sendResult({ status: 'settled', hash: 'tx', outputs: [{ id: 'refund-1', status: 'sent', messageHash: 'msg' }] });
+
+    await service.processRefunds();
+
+    expect(tonWallet.sendBatch).toHaveBeenCalledWith(expect.any(Array), {
+      seqno: 7,
+      validUntil: (refund.refundValidUntil as Date).getTime() / 1000,
+    });
+    expect(statusUpdates()).toEqual(['REFUNDED']);
+    expect(postJournalEntry).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns a refund proven not sent to the moderator queue', async () => {
+    signed(HOUR * 2);
+    sendResult({ status: 'not_sent', outputs: [{ id: 'refund-1', status: 'failed' }] });
+
+    await service.processRefunds();
+
+    expect(statusUpdates()).toEqual(['PENDING']);
+    expect(postJournalEntry).not.toHaveBeenCalled();
+  });
+
+  it('keeps retrying an unresolved refund for a while', async () => {
+    signed(HOUR / 2);
+    sendResult({ status: 'pending', outputs: [], error: 'Transaction of seqno 7 not found' });
+
+    await service.processRefunds();
+
+    expect(statusUpdates()).toEqual([]);
+  });
+
+  it('leaves a refund unresolved long after its expiry for manual review', async () => {
+    signed(HOUR * 2);
+    sendResult({ status: 'pending', outputs: [], error: 'Transaction of seqno 7 not found' });
+
+    await service.processRefunds();
+
+    expect(statusUpdates()).toEqual(['REFUND_REVIEW']);
+    expect(postJournalEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SuspenseStatus } from '@tam/shared-types';
+import {
+  postJournalEntry,
+  HOT_WALLET_ACCOUNT,
+  SUSPENSE_ACCOUNT,
+} from '@tam/prisma-client';
+import { BatchSeqno } from '@tam/ton-utils';
+import { PrismaService } from '../prisma/prisma.service';
+import { TonWalletService } from '../ton-wallet/ton-wallet.service';
+
+// How long a refund may stay unresolved after its message expired before a person has to check it
+const REFUND_REVIEW_AFTER_MS = 60 * 60 * 1000;
+
+/**
+ * Sends the refunds moderators requested for unmatched transfers back to
+ * their senders. Each refund stores its seqno before it is signed; one whose
+ * send was not confirmed keeps it and is resumed on the next run instead of
+ * being sent again. A refund that stays unresolved goes to REFUND_REVIEW, and
+ * only one proven not sent returns to the moderator queue.
+ */
+@Injectable()
+export class SuspenseRefundService {
+  private readonly logger = new Logger(SuspenseRefundService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private tonWallet: TonWalletService,
+  ) {}
+
+  async processRefunds(): Promise<void> {
+    if (!this.tonWallet.isInitialized()) {
+      return;
+    }
+
+    const refunds = await this.prisma.suspenseTransfer.findMany({
+      where: { status: SuspenseStatus.REFUNDING },
+      orderBy: { resolvedAt: 'asc' },
+    });
+
+    for (const refund of refunds) {
+      const reserved = await this.reserveSeqno(refund);
+      if (!reserved) continue;
+
+      const result = await this.tonWallet.sendBatch(
+        [
+          {
+            id: refund.id,
+            toAddress: refund.fromAddress,
+            amount: refund.amount.toString(),
+            memo: `Refund ${refund.id}`,
+            currency: refund.currency,
+          },
+        ],
+        reserved,
+      );
+
+      const output = result.outputs[0];
+
+      if (result.status === 'pending' || output?.status === 'pending') {
+        // Long past its expiry and still unresolved: it may have been paid, so never re-send it
+        if (Date.now() > reserved.validUntil * 1000 + REFUND_REVIEW_AFTER_MS) {
+          await this.prisma.suspenseTransfer.updateMany({
+            where: { id: refund.id, status: SuspenseStatus.REFUNDING },
+            data: {
+              status: SuspenseStatus.REFUND_REVIEW,
+              refundError: result.error ?? output?.error ?? 'Refund outcome unknown',
+            },
+          });
+          this.logger.error(
+            `Suspense refund ${refund.id} (seqno ${reserved.seqno}) unresolved, left for manual review: ${result.error ?? output?.error}`,
+          );
+          continue;
+        }
+
+        this.logger.error(`Suspense refund ${refund.id} not confirmed, will retry: ${result.error ?? output?.error}`);
+        continue;
+      }
+
+      if (result.status === 'not_sent' || output?.status !== 'sent') {
+        // Nothing left the wallet: back to the moderator queue
+        await this.prisma.suspenseTransfer.updateMany({
+          where: { id: refund.id, status: SuspenseStatus.REFUNDING },
+          data: {
+            status: SuspenseStatus.PENDING,
+            refundSeqno: null,
+            refundValidUntil: null,
+            refundError: output?.error ?? 'Refund was not sent',
+          },
+        });
+        this.logger.error(`Suspense refund ${refund.id} failed: ${output?.error ?? 'not sent'}`);
+        continue;
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        const updated = await tx.suspenseTransfer.updateMany({
+          where: { id: refund.id, status: SuspenseStatus.REFUNDING },
+          data: {
+            status: SuspenseStatus.REFUNDED,
+            refundTxHash: output.messageHash ?? null,
+            refundError: null,
+          },
+        });
+        if (updated.count === 0) return;
+
+        await postJournalEntry(tx, {
+          type: 'WITHDRAWAL',
+          currency: refund.currency,
+          description: `Suspense refund ${refund.id}`,
+          movements: [
+            { debit: SUSPENSE_ACCOUNT, credit: HOT_WALLET_ACCOUNT, amount: refund.amount },
+          ],
+        });
+
+        await tx.auditLog.create({
+          data: {
+            action: 'SUSPENSE_REFUNDED',
+            entityType: 'SuspenseTransfer',
+            entityId: refund.id,
+            userId: refund.resolvedById,
+            newValue: {
+              toAddress: refund.fromAddress,
+              amount: refund.amount.toString(),
+              currency: refund.currency,
+              refundTxHash: output.messageHash ?? null,
+            },
+          },
+        });
+      });
+
+      this.logger.log(
+        `Suspense transfer ${refund.id} refunded: ${refund.amount} ${refund.currency} to ${refund.fromAddress}`,
+      );
+    }
+  }
+
+  /**
+   * Seqno the refund is signed with, stored before anything is signed.
+   * Null if the refund is no longer REFUNDING.
+   */
+  private async reserveSeqno(refund: {
+    id: string;
+    refundSeqno: number | null;
+    refundValidUntil: Date | null;
+  }): Promise<BatchSeqno | null> {
+    if (refund.refundSeqno !== null && refund.refundValidUntil !== null) {
+      return {
+        seqno: refund.refundSeqno,
+        validUntil: Math.floor(refund.refundValidUntil.getTime() / 1000),
+      };
+    }
+
+    const reserved = await this.tonWallet.reserveBatchSeqno();
+    const stored = await this.prisma.suspenseTransfer.updateMany({
+      where: { id: refund.id, status: SuspenseStatus.REFUNDING, refundSeqno: null },
+      data: { refundSeqno: reserved.seqno, refundValidUntil: new Date(reserved.validUntil * 1000) },
+    });
+
+    return stored.count > 0 ? reserved : null;
+  }
+}
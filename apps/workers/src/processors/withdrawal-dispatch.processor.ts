@@ -0,0 +1,107 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import {
+  QUEUE_NAMES,
+  WithdrawalJobData,
+  NotificationJobData,
+  CRITICAL_JOB_OPTIONS,
+  NOTIFICATION_JOB_OPTIONS,
+} from '@tam/queue-contracts';
+import { TransactionStatus } from '@tam/shared-types';
+import { cancelWithdrawal } from '@tam/prisma-client';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Moves withdrawal requests along after the API created them: cancels the
+ * ones not confirmed in the bot in time, and hands confirmed (or
+ * admin-approved) ones to the withdrawal processor.
+ */
+@Injectable()
+export class WithdrawalDispatchService {
+  private readonly logger = new Logger(WithdrawalDispatchService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @InjectQueue(QUEUE_NAMES.WITHDRAWAL_PROCESSOR) private withdrawalQueue: Queue<WithdrawalJobData>,
+    @InjectQueue(QUEUE_NAMES.NOTIFICATION) private notificationQueue: Queue<NotificationJobData>,
+  ) {}
+
+  async processWithdrawalRequests(): Promise<void> {
+    await this.expireUnconfirmed();
+    await this.dispatchPending();
+  }
+
+  private async expireUnconfirmed(): Promise<void> {
+    const expired = await this.prisma.transaction.findMany({
+      where: {
+        type: 'WITHDRAWAL',
+        status: TransactionStatus.AWAITING_CONFIRMATION,
+        confirmationExpiresAt: { lt: new Date() },
+      },
+      select: { id: true, userId: true, amount: true, currency: true },
+    });
+
+    for (const withdrawal of expired) {
+      const cancelled = await this.prisma.$transaction((tx) =>
+        cancelWithdrawal(tx, withdrawal.id, {
+          reason: 'Not confirmed in time',
+          fromStatuses: [TransactionStatus.AWAITING_CONFIRMATION],
+        }),
+      );
+
+      if (!cancelled) continue;
+
+      this.logger.log(`Withdrawal ${withdrawal.id} was not confirmed in time, cancelled`);
+
+      this.notificationQueue.add('WITHDRAWAL_EXPIRED', {
+        type: 'WITHDRAWAL_EXPIRED',
+        recipientUserId: withdrawal.userId,
+        data: {
+          transactionId: withdrawal.id,
+          amount: withdrawal.amount.toString(),
+          currency: withdrawal.currency,
+          miniAppPath: '/',
+        },
+      }, NOTIFICATION_JOB_OPTIONS).catch((err) => {
+        this.logger.error(`Failed to queue WITHDRAWAL_EXPIRED notification: ${err.message}`);
+      });
+    }
+  }
+
+  /**
+   * The job id is derived from the transaction, so a withdrawal whose job is
+   * still queued is not added twice. Once a job has claimed it into a batch
+   * the withdrawal is no longer picked up here.
+   */
+  private async dispatchPending(): Promise<void> {
+    const pending = await this.prisma.transaction.findMany({
+      where: {
+        type: 'WITHDRAWAL',
+        status: TransactionStatus.PENDING,
+        withdrawalBatchId: null,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const withdrawal of pending) {
+      const metadata = (withdrawal.metadata as Record<string, unknown>) ?? {};
+
+      await this.withdrawalQueue.add(
+        `withdrawal-${withdrawal.id}`,
+        {
+          transactionId: withdrawal.id,
+          userId: withdrawal.userId,
+          toAddress: typeof metadata.toAddress === 'string' ? metadata.toAddress : '',
+          amount: withdrawal.amount.toString(),
+          currency: withdrawal.currency,
+        },
+        { ...CRITICAL_JOB_OPTIONS, jobId: `withdrawal-${withdrawal.id}` },
+      );
+    }
+
+    if (pending.length > 0) {
+      this.logger.log(`Dispatched ${pending.length} pending withdrawals`);
+    }
+  }
+}
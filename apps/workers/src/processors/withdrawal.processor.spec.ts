@@ -0,0 +1,235 @@
+import { Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, postJournalEntry } from '@tam/prisma-client';
+import { BatchSendResult } from '@tam/ton-utils';
+import { WithdrawalJobData } from '@tam/queue-contracts';
+import { WithdrawalProcessor } from './withdrawal.processor';
+import { PrismaService } from '../prisma/prisma.service';
+import { TonWalletService } from '../ton-wallet/ton-wallet.service';
+
+jest.mock('@tam/prisma-client', () => ({
+  ...jest.requireActual('@tam/prisma-client'),
+  postJournalEntry: jest.fn(),
+}));
+
+const TO_ADDRESS = 'EQDtFpEwcFAEcRe5mLVh2N6C0x-_hJEM7W61_JLnSF74p4q2';
+const VALID_UNTIL = new Date('2026-01-01T00:01:00Z');
+
+function withdrawal(id: string) {
+  return {
+    id,
+    userId: `user-${id}`,
+    amount: new Prisma.Decimal('1.5'),
+    currency: 'TON',
+    status: 'PENDING',
+    withdrawalBatchId: 'batch-1',
+    metadata: { toAddress: TO_ADDRESS },
+  };
+}
+
+function job(attemptsMade = 0): Job<WithdrawalJobData> {
+  return {
+    data: { transactionId: 'a', userId: 'user-a', toAddress: TO_ADDRESS, amount: '1.5', currency: 'TON' },
+    attemptsMade,
+    opts: { attempts: 5 },
+  } as unknown as Job<WithdrawalJobData>;
+}
+
+const LAST_ATTEMPT = 4;
+
+describe('WithdrawalProcessor', () => {
+  let batch: { id: string; status: string; seqno: number | null; validUntil: Date | null; transactions: unknown[] };
+  let prisma: {
+    transaction: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    withdrawalBatch: { findUniqueOrThrow: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let tonWallet: { isInitialized: jest.Mock; reserveBatchSeqno: jest.Mock; sendBatch: jest.Mock };
+  let processor: WithdrawalProcessor;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  function sendResult(result: BatchSendResult) {
+    tonWallet.sendBatch.mockResolvedValue(result);
+  }
+
+  beforeEach(() => {
+    jest.mocked(postJournalEntry).mockReset();
+
+    batch = {
+      id: 'batch-1',
+      status: 'SENDING',
+      seqno: 7,
+      validUntil: VALID_UNTIL,
+      transactions: [withdrawal('a'), withdrawal('b')],
+    };
+    prisma = {
+      transaction: {
+        findUnique: jest.fn().mockResolvedValue(withdrawal('a')),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      withdrawalBatch: {
+        findUniqueOrThrow: jest.fn(async () => batch),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      $transaction: jest.fn(async (arg: unknown) =>
+        typeof arg === 'function' ? arg(prisma) : Promise.all(arg as Promise<unknown>[]),
+      ),
+    };
+    tonWallet = {
+      isInitialized: jest.fn().mockReturnValue(true),
+      reserveBatchSeqno: jest.fn().mockResolvedValue({ seqno: 9, validUntil: VALID_UNTIL.getTime() / 1000 }),
+      sendBatch: jest.fn(),
+    };
+
+    processor = new WithdrawalProcessor(
+      prisma as unknown as PrismaService,
+      tonWallet as unknown as TonWalletService,
+      new ConfigService(),
+    );
+  });
+
+  const refundedIds = () =>
+    jest.mocked(postJournalEntry).mock.calls.map(([, entry]) => entry.transactionId);
+
+  it('stores a new seqno before the batch is sent', async () => {
+    batch.seqno = null;
+    batch.validUntil = null;
+    sendResult({ status: 'settled', outputs: [] });
+
+    await processor.process(job());
+
+    expect(prisma.withdrawalBatch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', seqno: null },
+      data: { seqno: 9, validUntil: VALID_UNTIL },
+    });
+    expect(prisma.withdrawalBatch.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      tonWallet.sendBatch.mock.invocationCallOrder[0]!,
+    );
+    expect(tonWallet.sendBatch).toHaveBeenCalledWith(expect.any(Array), {
+      seqno: 9,
+      validUntil: VALID_UNTIL.getTime() / 1000,
+    });
+  });
+
+  it('resumes a batch with its stored seqno', async () => {
+    sendResult({ status: 'settled', outputs: [] });
+
+    await processor.process(job());
+
+    expect(tonWallet.reserveBatchSeqno).not.toHaveBeenCalled();
+    expect(tonWallet.sendBatch).toHaveBeenCalledWith(expect.any(Array), {
+      seqno: 7,
+      validUntil: VALID_UNTIL.getTime() / 1000,
+    });
+  });
+
+  it('confirms sent outputs and refunds only the ones the wallet skipped', async () => {
+    sendResult({
+      status: 'settled',
+      hash: 'tx-hash',
+      outputs: [
+        { id: 'a', status: 'sent', messageHash: 'msg-a' },
+        { id: 'b', status: 'failed', error: 'Output was not sent by the wallet' },
+      ],
+    });
+
+    await processor.process(job());
+
+    expect(prisma.transaction.update).toHaveBeenCalledWith({
+      where: { id: 'a' },
+      data: { status: 'CONFIRMED', outputStatus: 'CONFIRMED', tonTxHash: 'msg-a' },
+    });
+    expect(refundedIds()).toEqual(['b']);
+    expect(prisma.withdrawalBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { status: 'CONFIRMED', tonTxHash: 'tx-hash' },
+    });
+  });
+
+  it('waits for a jetton transfer the jetton wallet has not processed yet', async () => {
+    sendResult({
+      status: 'settled',
+      hash: 'tx-hash',
+      outputs: [
+        { id: 'a', status: 'sent', messageHash: 'msg-a' },
+        { id: 'b', status: 'pending', error: 'Jetton transfer not processed yet' },
+      ],
+    });
+
+    await expect(processor.process(job())).rejects.toThrow();
+
+    expect(refundedIds()).toEqual([]);
+    expect(prisma.withdrawalBatch.update).not.toHaveBeenCalled();
+  });
+
+  it('leaves an unprocessed jetton transfer on the last attempt for review', async () => {
+    sendResult({
+      status: 'settled',
+      hash: 'tx-hash',
+      outputs: [{ id: 'b', status: 'pending', error: 'Jetton transfer not processed yet' }],
+    });
+
+    await expect(processor.process(job(LAST_ATTEMPT))).rejects.toThrow();
+
+    expect(refundedIds()).toEqual([]);
+    expect(prisma.withdrawalBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { status: 'REVIEW', error: expect.any(String) },
+    });
+  });
+
+  it('retries an unresolved batch without refunding it', async () => {
+    sendResult({ status: 'pending', outputs: [], error: 'Transaction of seqno 7 not found' });
+
+    await expect(processor.process(job())).rejects.toThrow('Transaction of seqno 7 not found');
+
+    expect(refundedIds()).toEqual([]);
+    expect(prisma.withdrawalBatch.update).not.toHaveBeenCalled();
+  });
+
+  it('leaves a batch still unresolved on the last attempt for review', async () => {
+    sendResult({ status: 'pending', outputs: [], error: 'Transaction of seqno 7 not found' });
+
+    await expect(processor.process(job(LAST_ATTEMPT))).rejects.toThrow();
+
+    expect(refundedIds()).toEqual([]);
+    expect(prisma.transaction.updateMany).toHaveBeenCalledWith({
+      where: { withdrawalBatchId: 'batch-1', status: 'PENDING' },
+      data: { outputStatus: 'REVIEW' },
+    });
+    expect(prisma.withdrawalBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { status: 'REVIEW', error: 'Transaction of seqno 7 not found' },
+    });
+  });
+
+  it('releases the seqno of a batch that was not sent so the next attempt signs a new one', async () => {
+    sendResult({ status: 'not_sent', outputs: [] });
+
+    await expect(processor.process(job())).rejects.toThrow();
+
+    expect(refundedIds()).toEqual([]);
+    expect(prisma.withdrawalBatch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', seqno: 7 },
+      data: { seqno: null, validUntil: null },
+    });
+  });
+
+  it('refunds every output of a batch that was not sent on the last attempt', async () => {
+    sendResult({ status: 'not_sent', outputs: [] });
+
+    await expect(processor.process(job(LAST_ATTEMPT))).rejects.toThrow();
+
+    expect(refundedIds()).toEqual(['a', 'b']);
+    expect(prisma.withdrawalBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { status: 'FAILED', error: 'Batch was not sent' },
+    });
+  });
+});
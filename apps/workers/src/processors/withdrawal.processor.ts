@@ -1,28 +1,52 @@
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Job } from 'bullmq';
 import { QUEUE_NAMES, WithdrawalJobData } from '@tam/queue-contracts';
+import { MAX_BATCH_OUTPUTS, BatchSeqno } from '@tam/ton-utils';
 import { TransactionStatus } from '@tam/shared-types';
 import { PrismaService } from '../prisma/prisma.service';
 import { TonWalletService } from '../ton-wallet/ton-wallet.service';
-import { Prisma } from '@tam/prisma-client';
+import {
+  Prisma,
+  Currency,
+  postJournalEntry,
+  userAvailable,
+  HOT_WALLET_ACCOUNT,
+} from '@tam/prisma-client';
+
+// Outputs per external message; the wallet itself allows up to MAX_BATCH_OUTPUTS
+const DEFAULT_WITHDRAWAL_BATCH_SIZE = 50;
 
 @Processor(QUEUE_NAMES.WITHDRAWAL_PROCESSOR)
 export class WithdrawalProcessor extends WorkerHost {
   private readonly logger = new Logger(WithdrawalProcessor.name);
+  private readonly batchSize: number;
 
   constructor(
     private prisma: PrismaService,
-    private tonWallet: TonWalletService
+    private tonWallet: TonWalletService,
+    private configService: ConfigService
   ) {
     super();
+    const configured = Number(
+      this.configService.get<string>('WITHDRAWAL_BATCH_SIZE', String(DEFAULT_WITHDRAWAL_BATCH_SIZE))
+    );
+    this.batchSize = Number.isInteger(configured) && configured > 0
+      ? Math.min(configured, MAX_BATCH_OUTPUTS)
+      : DEFAULT_WITHDRAWAL_BATCH_SIZE;
   }
 
+  /**
+   * Each job carries a single withdrawal, but sends it together with other
+   * PENDING withdrawals (TON and USDT alike) in one multi-output transfer. Jobs whose withdrawal was
+   * already completed by another job's batch are skipped.
+   */
   async process(job: Job<WithdrawalJobData>): Promise<void> {
-    const { transactionId, userId, toAddress, amount } = job.data;
+    const { transactionId, toAddress, amount } = job.data;
 
     this.logger.log(
-      `Processing withdrawal: ${transactionId} - ${amount} TON to ${toAddress} (attempt ${job.attemptsMade + 1})`
+      `Processing withdrawal: ${transactionId} - ${amount} ${job.data.currency ?? 'TON'} to ${toAddress} (attempt ${job.attemptsMade + 1})`
     );
 
     // Verify transaction is still PENDING (avoid double-processing)
@@ -41,47 +65,221 @@ export class WithdrawalProcessor extends WorkerHost {
       throw new Error('TON wallet not initialized');
     }
 
-    // Send TON
-    const result = await this.tonWallet.sendTon(
-      toAddress,
-      amount,
-      `Withdrawal ${transactionId.slice(0, 8)}`
-    );
+    // Resume the batch this withdrawal already belongs to, or claim a new one
+    const batchId = transaction.withdrawalBatchId ?? (await this.claimBatch(transactionId));
+    const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 5);
 
-    if (result.success && result.hash) {
-      // Update transaction as confirmed
-      await this.prisma.transaction.update({
-        where: { id: transactionId },
-        data: {
-          status: TransactionStatus.CONFIRMED,
-          tonTxHash: result.hash,
+    await this.processBatch(batchId, isLastAttempt);
+  }
+
+  /**
+   * Claims the given withdrawal plus the oldest unbatched PENDING withdrawals
+   */
+  private async claimBatch(transactionId: string): Promise<string> {
+    return this.prisma.$transaction(async (tx) => {
+      const others = await tx.transaction.findMany({
+        where: {
+          type: 'WITHDRAWAL',
+          status: TransactionStatus.PENDING,
+          withdrawalBatchId: null,
+          id: { not: transactionId },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: this.batchSize - 1,
+        select: { id: true },
+      });
+
+      const batch = await tx.withdrawalBatch.create({
+        data: { outputCount: 0 },
+      });
+
+      // Guarded by withdrawalBatchId: null so concurrent workers never share an output
+      const claimed = await tx.transaction.updateMany({
+        where: {
+          id: { in: [transactionId, ...others.map((t) => t.id)] },
+          status: TransactionStatus.PENDING,
+          withdrawalBatchId: null,
         },
+        data: { withdrawalBatchId: batch.id, outputStatus: 'QUEUED' },
+      });
+
+      await tx.withdrawalBatch.update({
+        where: { id: batch.id },
+        data: { outputCount: claimed.count },
       });
 
-      this.logger.log(`Withdrawal ${transactionId} confirmed: ${result.hash}`);
-    } else {
-      // Only handle as final failure on last attempt
-      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 5)) {
-        await this.handleFailedWithdrawal(transactionId, userId, amount, result.error);
+      this.logger.log(`Withdrawal batch ${batch.id} claimed ${claimed.count} outputs`);
+
+      return batch.id;
+    });
+  }
+
+  private async processBatch(batchId: string, isLastAttempt: boolean): Promise<void> {
+    const batch = await this.prisma.withdrawalBatch.findUniqueOrThrow({
+      where: { id: batchId },
+      include: {
+        transactions: { where: { status: TransactionStatus.PENDING } },
+      },
+    });
+
+    if (batch.status !== 'SENDING' || batch.transactions.length === 0) {
+      return;
+    }
+
+    const outputs = batch.transactions.map((t) => {
+      const metadata = (t.metadata as Record<string, unknown>) ?? {};
+      return {
+        id: t.id,
+        toAddress: typeof metadata.toAddress === 'string' ? metadata.toAddress : '',
+        amount: t.amount.toString(),
+        memo: `Withdrawal ${t.id}`,
+        currency: t.currency,
+      };
+    });
+
+    const reserved = await this.reserveSeqno(batch);
+
+    await this.prisma.transaction.updateMany({
+      where: { withdrawalBatchId: batchId, status: TransactionStatus.PENDING },
+      data: { outputStatus: 'SENT' },
+    });
+
+    const result = await this.tonWallet.sendBatch(outputs, reserved);
+
+    if (result.status === 'pending') {
+      // The wallet may have accepted the batch: never refund, leave it to a person
+      if (isLastAttempt) {
+        await this.holdForReview(batchId, reserved.seqno, result.error ?? 'Batch outcome unknown');
+      }
+      throw new Error(result.error ?? 'Withdrawal batch not confirmed');
+    }
+
+    if (result.status === 'not_sent') {
+      if (isLastAttempt) {
+        for (const t of batch.transactions) {
+          await this.handleFailedWithdrawal(t, 'Batch was not sent');
+        }
+        await this.prisma.withdrawalBatch.update({
+          where: { id: batchId },
+          data: { status: 'FAILED', error: 'Batch was not sent' },
+        });
+      } else {
+        // Nothing left the wallet, so the next attempt may sign it with a new seqno
+        await this.prisma.$transaction([
+          this.prisma.transaction.updateMany({
+            where: { withdrawalBatchId: batchId, status: TransactionStatus.PENDING },
+            data: { outputStatus: 'QUEUED' },
+          }),
+          this.prisma.withdrawalBatch.updateMany({
+            where: { id: batchId, seqno: reserved.seqno },
+            data: { seqno: null, validUntil: null },
+          }),
+        ]);
       }
-      throw new Error(result.error ?? 'Withdrawal failed');
+      throw new Error(`Withdrawal batch ${batchId} was not sent with seqno ${reserved.seqno}`);
     }
+
+    // Record per-output results; failed outputs are refunded individually
+    let sent = 0;
+    let pending = 0;
+    for (const output of result.outputs) {
+      const t = batch.transactions.find((bt) => bt.id === output.id);
+      if (!t) continue;
+
+      if (output.status === 'sent') {
+        sent++;
+        await this.prisma.transaction.update({
+          where: { id: t.id },
+          data: {
+            status: TransactionStatus.CONFIRMED,
+            outputStatus: 'CONFIRMED',
+            tonTxHash: output.messageHash ?? null,
+          },
+        });
+      } else if (output.status === 'failed') {
+        await this.handleFailedWithdrawal(t, output.error);
+      } else {
+        pending++;
+      }
+    }
+
+    // USDT outputs wait until our jetton wallet has processed them
+    if (pending > 0) {
+      if (isLastAttempt) {
+        await this.holdForReview(batchId, reserved.seqno, 'Jetton transfers not processed');
+      }
+      throw new Error(`Withdrawal batch ${batchId}: ${pending} jetton transfers not processed yet`);
+    }
+
+    await this.prisma.withdrawalBatch.update({
+      where: { id: batchId },
+      data: { status: 'CONFIRMED', tonTxHash: result.hash ?? null },
+    });
+
+    this.logger.log(
+      `Withdrawal batch ${batchId} confirmed: ${sent}/${result.outputs.length} outputs sent (${result.hash})`
+    );
+  }
+
+  /**
+   * Parks the batch's still PENDING outputs: they may have been paid, so they
+   * are neither refunded nor sent again until someone checks them.
+   */
+  private async holdForReview(batchId: string, seqno: number, error: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.transaction.updateMany({
+        where: { withdrawalBatchId: batchId, status: TransactionStatus.PENDING },
+        data: { outputStatus: 'REVIEW' },
+      }),
+      this.prisma.withdrawalBatch.update({
+        where: { id: batchId },
+        data: { status: 'REVIEW', error },
+      }),
+    ]);
+
+    this.logger.error(`Withdrawal batch ${batchId} (seqno ${seqno}) unresolved, left for manual review: ${error}`);
+  }
+
+  /**
+   * Seqno the batch is signed with. A new one is stored before anything is
+   * signed, and only if no other job stored one for the batch first.
+   */
+  private async reserveSeqno(batch: {
+    id: string;
+    seqno: number | null;
+    validUntil: Date | null;
+  }): Promise<BatchSeqno> {
+    if (batch.seqno !== null && batch.validUntil !== null) {
+      return { seqno: batch.seqno, validUntil: Math.floor(batch.validUntil.getTime() / 1000) };
+    }
+
+    const reserved = await this.tonWallet.reserveBatchSeqno();
+    const stored = await this.prisma.withdrawalBatch.updateMany({
+      where: { id: batch.id, seqno: null },
+      data: { seqno: reserved.seqno, validUntil: new Date(reserved.validUntil * 1000) },
+    });
+
+    if (stored.count === 0) {
+      const current = await this.prisma.withdrawalBatch.findUniqueOrThrow({ where: { id: batch.id } });
+      return this.reserveSeqno(current);
+    }
+
+    return reserved;
   }
 
   private async handleFailedWithdrawal(
-    transactionId: string,
-    userId: string,
-    amount: string,
+    withdrawal: { id: string; userId: string; amount: Prisma.Decimal; currency: Currency },
     error?: string
   ): Promise<void> {
-    const amountDecimal = new Prisma.Decimal(amount);
+    const { id: transactionId, userId, amount: amountDecimal, currency } = withdrawal;
 
-    await this.prisma.$transaction(async (tx) => {
-      // Mark transaction as failed
-      await tx.transaction.update({
-        where: { id: transactionId },
+    const refunded = await this.prisma.$transaction(async (tx) => {
+      // Mark transaction as failed (only once, outputs of a resumed batch may already be settled)
+      const updated = await tx.transaction.updateMany({
+        where: { id: transactionId, status: TransactionStatus.PENDING },
         data: {
           status: TransactionStatus.FAILED,
+          outputStatus: 'FAILED',
           metadata: {
             error: error ?? 'Unknown error',
             failedAt: new Date().toISOString(),
@@ -89,16 +287,27 @@ export class WithdrawalProcessor extends WorkerHost {
         },
       });
 
-      // Refund user balance (use Decimal for precision)
-      await tx.user.update({
-        where: { id: userId },
-        data: {
-          balanceTon: { increment: amountDecimal },
-        },
+      if (updated.count === 0) {
+        return false;
+      }
+
+      // Refund user balance: reverse the withdrawal posting
+      await postJournalEntry(tx, {
+        type: 'WITHDRAWAL',
+        currency,
+        description: 'Failed withdrawal refund',
+        transactionId,
+        movements: [
+          { debit: HOT_WALLET_ACCOUNT, credit: userAvailable(userId), amount: amountDecimal },
+        ],
       });
+
+      return true;
     });
 
-    this.logger.error(`Withdrawal ${transactionId} failed permanently: ${error}`);
+    if (refunded) {
+      this.logger.error(`Withdrawal ${transactionId} failed permanently: ${error}`);
+    }
   }
 
   @OnWorkerEvent('failed')
@@ -0,0 +1,46 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+
+/**
+ * Writes generated files to the MinIO bucket the API serves them from.
+ * Uses the same MINIO_* settings as the API's StorageService, which creates
+ * the bucket.
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly s3Client: S3Client;
+  private readonly bucket: string;
+
+  constructor(private configService: ConfigService) {
+    const endpoint = this.configService.get<string>('MINIO_ENDPOINT', 'localhost');
+    const port = this.configService.get<number>('MINIO_PORT', 9000);
+    const useSSL = this.configService.get<string>('MINIO_USE_SSL', 'false') === 'true';
+    this.bucket = this.configService.get<string>('MINIO_BUCKET', 'tam-avatars');
+
+    this.s3Client = new S3Client({
+      endpoint: `${useSSL ? 'https' : 'http'}://${endpoint}:${port}`,
+      region: 'us-east-1', // MinIO requires a region, but ignores it
+      credentials: {
+        accessKeyId: this.configService.get<string>('MINIO_ROOT_USER', 'minioadmin'),
+        secretAccessKey: this.configService.get<string>('MINIO_ROOT_PASSWORD', 'minioadmin'),
+      },
+      forcePathStyle: true, // Required for MinIO
+    });
+  }
+
+  async uploadBuffer(buffer: Buffer, key: string, contentType: string): Promise<string> {
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: buffer,
+        ContentType: contentType,
+      }),
+    );
+
+    this.logger.log(`Uploaded file to ${key}`);
+    return key;
+  }
+}
@@ -1,12 +1,27 @@
 import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { TonWalletService as TonWallet } from '@tam/ton-utils';
+import {
+  TonWalletService as TonWallet,
+  BatchOutput,
+  BatchSeqno,
+  BatchSendResult,
+  DeployResult,
+  TransactionCursor,
+  TransactionScanResult,
+  DealEscrowOracle,
+  DealEscrowAction,
+  DEAL_ESCROW_GAS_RESERVE,
+  formatDealEscrowAddress,
+} from '@tam/ton-utils';
+import { Prisma } from '@tam/prisma-client';
 
 @Injectable()
 export class TonWalletService implements OnModuleInit {
   private readonly logger = new Logger(TonWalletService.name);
   private wallet: TonWallet | null = null;
   private initialized = false;
+  private escrowOracle: DealEscrowOracle | null = null;
+  private network: 'mainnet' | 'testnet' = 'testnet';
 
   constructor(private configService: ConfigService) {}
 
@@ -18,6 +33,9 @@ export class TonWalletService implements OnModuleInit {
     const mnemonic = this.configService.get<string>('TON_MASTER_WALLET_MNEMONIC');
     const network = this.configService.get<string>('TON_NETWORK') as 'mainnet' | 'testnet';
     const apiKey = this.configService.get<string>('TON_API_KEY');
+    const usdtJettonMaster = this.configService.get<string>('USDT_JETTON_MASTER');
+
+    this.network = network ?? 'testnet';
 
     if (!mnemonic) {
       this.logger.warn('TON_MASTER_WALLET_MNEMONIC not configured');
@@ -29,6 +47,7 @@ export class TonWalletService implements OnModuleInit {
         network: network ?? 'testnet',
         mnemonic,
         apiKey,
+        usdtJettonMaster,
       });
 
       const address = await this.wallet.initialize();
@@ -36,6 +55,27 @@ export class TonWalletService implements OnModuleInit {
       this.logger.log(`TON wallet initialized: ${address.toString()}`);
     } catch (error) {
       this.logger.error('Failed to initialize TON wallet', error);
+      return;
+    }
+
+    const escrowCode = this.configService.get<string>('DEAL_ESCROW_CODE');
+    const oracleMnemonic = this.configService.get<string>('ESCROW_ORACLE_MNEMONIC');
+
+    if (!oracleMnemonic) {
+      this.logger.log('ESCROW_ORACLE_MNEMONIC not configured, escrow contracts disabled');
+      return;
+    }
+
+    try {
+      const oracle = new DealEscrowOracle({
+        network: network ?? 'testnet',
+        code: escrowCode || undefined,
+        mnemonic: oracleMnemonic,
+      });
+      await oracle.initialize();
+      this.escrowOracle = oracle;
+    } catch (error) {
+      this.logger.error('Failed to initialize escrow contract oracle', error);
     }
   }
 
@@ -43,6 +83,13 @@ export class TonWalletService implements OnModuleInit {
     return this.initialized;
   }
 
+  async getBalance(): Promise<string> {
+    if (!this.wallet) {
+      throw new Error('TON wallet not initialized');
+    }
+    return this.wallet.getBalance();
+  }
+
   async sendTon(
     toAddress: string,
     amount: string,
@@ -54,21 +101,97 @@ export class TonWalletService implements OnModuleInit {
     return this.wallet.sendTon(toAddress, amount, memo);
   }
 
-  async verifyDeposit(
-    expectedMemo: string,
-    expectedAmount: string,
-    sinceTimestamp: number
-  ): Promise<{
-    found: boolean;
-    transaction?: {
-      hash: string;
-      amount: string;
-      from: string;
+  async reserveBatchSeqno(): Promise<BatchSeqno> {
+    if (!this.wallet) {
+      throw new Error('TON wallet not initialized');
+    }
+    return this.wallet.reserveBatchSeqno();
+  }
+
+  async sendBatch(outputs: BatchOutput[], reserved: BatchSeqno): Promise<BatchSendResult> {
+    if (!this.wallet) {
+      throw new Error('TON wallet not initialized');
+    }
+    return this.wallet.sendBatch(outputs, reserved);
+  }
+
+  hasEscrowContractSupport(): boolean {
+    return this.initialized && this.escrowOracle !== null;
+  }
+
+  /**
+   * Deploys the deal's escrow contract funded with amount + fee and the gas
+   * reserve, signed with the reserved seqno. The contract is re-derived from
+   * the deal's stored parties and must match the address recorded when the
+   * deal was approved.
+   */
+  async deployDealEscrow(
+    deal: { id: string; escrowContractAddress: string; advertiserWallet: string; ownerWallet: string },
+    amount: string,
+    fee: string,
+    reserved: BatchSeqno,
+  ): Promise<DeployResult> {
+    if (!this.wallet || !this.escrowOracle) {
+      throw new Error('Escrow contracts not configured');
+    }
+
+    const params = {
+      dealId: deal.id,
+      advertiserWallet: deal.advertiserWallet,
+      channelOwnerWallet: deal.ownerWallet,
+      platformWallet: this.wallet.getAddressString(),
+      amount,
+      fee,
     };
-  }> {
+
+    if (this.escrowOracle.getAddressString(params) !== deal.escrowContractAddress) {
+      throw new Error('Escrow contract address mismatch');
+    }
+
+    const contract = this.escrowOracle.getContract(params);
+
+    const value = new Prisma.Decimal(amount).add(fee).add(DEAL_ESCROW_GAS_RESERVE);
+    return this.wallet.deployContract(contract, value.toFixed(9), reserved);
+  }
+
+  /**
+   * The address in the form escrow contract addresses are stored in
+   */
+  formatEscrowAddress(address: string): string {
+    return formatDealEscrowAddress(address, this.network);
+  }
+
+  async getContractState(address: string): Promise<{ active: boolean; balance: string }> {
+    if (!this.wallet) {
+      throw new Error('TON wallet not initialized');
+    }
+    return this.wallet.getContractState(address);
+  }
+
+  /**
+   * Sends the oracle-signed release or refund to a funded escrow contract
+   */
+  async settleDealEscrow(address: string, dealId: string, action: DealEscrowAction): Promise<void> {
+    if (!this.wallet || !this.escrowOracle) {
+      throw new Error('Escrow contracts not configured');
+    }
+    await this.wallet.sendExternalMessage(address, this.escrowOracle.buildSettlement(dealId, action));
+  }
+
+  getAddressString(): string {
+    if (!this.wallet) {
+      throw new Error('TON wallet not initialized');
+    }
+    return this.wallet.getAddressString();
+  }
+
+  async scanIncomingTransfers(
+    after: TransactionCursor | null,
+    options: { sinceTimestamp?: number; maxPages?: number } = {}
+  ): Promise<TransactionScanResult> {
     if (!this.wallet) {
       throw new Error('TON wallet not initialized');
     }
-    return this.wallet.verifyDeposit(expectedMemo, expectedAmount, sinceTimestamp);
+    return this.wallet.scanIncomingTransfers(after, options);
   }
 }
@@ -4,13 +4,21 @@ import { BullModule } from '@nestjs/bullmq';
 import { ScheduleModule } from '@nestjs/schedule';
 import { QUEUE_NAMES } from '@tam/queue-contracts';
 import { PrismaModule } from './prisma/prisma.module';
-import { DepositWatcherProcessor } from './processors/deposit-watcher.processor';
 import { SchedulerProcessor } from './processors/scheduler.processor';
 import { WithdrawalProcessor } from './processors/withdrawal.processor';
 import { EscrowReleaseService } from './processors/escrow-release.processor';
 import { NotificationProcessor } from './processors/notification.processor';
 import { AdPosterService } from './processors/ad-poster.processor';
+import { LedgerReconciliationService } from './processors/ledger-reconciliation.processor';
+import { HotWalletReconciliationService } from './processors/hot-wallet-reconciliation.processor';
+import { WithdrawalDispatchService } from './processors/withdrawal-dispatch.processor';
+import { DepositScannerService } from './processors/deposit-scanner.processor';
+import { SuspenseRefundService } from './processors/suspense-refund.processor';
+import { ExchangeRateService } from './processors/exchange-rate.processor';
+import { StatementService } from './processors/statement.processor';
+import { SavedSearchAlertsService } from './processors/saved-search-alerts.processor';
 import { TonWalletModule } from './ton-wallet/ton-wallet.module';
+import { StorageModule } from './storage/storage.module';
 
 @Module({
   imports: [
@@ -30,7 +38,6 @@ import { TonWalletModule } from './ton-wallet/ton-wallet.module';
       inject: [ConfigService],
     }),
     BullModule.registerQueue(
-      { name: QUEUE_NAMES.DEPOSIT_WATCHER },
       { name: QUEUE_NAMES.WITHDRAWAL_PROCESSOR },
       { name: QUEUE_NAMES.SCHEDULER },
       { name: QUEUE_NAMES.CHANNEL_STATS },
@@ -38,14 +45,22 @@ import { TonWalletModule } from './ton-wallet/ton-wallet.module';
     ),
     PrismaModule,
     TonWalletModule,
+    StorageModule,
   ],
   providers: [
-    DepositWatcherProcessor,
     SchedulerProcessor,
     WithdrawalProcessor,
     EscrowReleaseService,
     NotificationProcessor,
     AdPosterService,
+    LedgerReconciliationService,
+    HotWalletReconciliationService,
+    WithdrawalDispatchService,
+    DepositScannerService,
+    SuspenseRefundService,
+    ExchangeRateService,
+    StatementService,
+    SavedSearchAlertsService,
   ],
 })
 export class WorkersModule {}
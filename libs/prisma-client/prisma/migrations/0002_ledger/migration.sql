@@ -0,0 +1,122 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('USER_AVAILABLE', 'USER_FROZEN', 'USER_APPEAL_FROZEN', 'PLATFORM_FEES', 'HOT_WALLET');
+
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "LedgerAccountType" NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "type" "TransactionType",
+    "description" TEXT,
+    "transactionId" TEXT,
+    "dealId" TEXT,
+    "folderPlacementId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerPosting" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "amount" DECIMAL(20,9) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerPosting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_code_key" ON "LedgerAccount"("code");
+
+-- CreateIndex
+CREATE INDEX "LedgerAccount_type_idx" ON "LedgerAccount"("type");
+
+-- CreateIndex
+CREATE INDEX "LedgerAccount_userId_idx" ON "LedgerAccount"("userId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_transactionId_idx" ON "LedgerEntry"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_dealId_idx" ON "LedgerEntry"("dealId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_folderPlacementId_idx" ON "LedgerEntry"("folderPlacementId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_createdAt_idx" ON "LedgerEntry"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerPosting_entryId_idx" ON "LedgerPosting"("entryId");
+
+-- CreateIndex
+CREATE INDEX "LedgerPosting_accountId_idx" ON "LedgerPosting"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "LedgerAccount" ADD CONSTRAINT "LedgerAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerPosting" ADD CONSTRAINT "LedgerPosting_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "LedgerEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerPosting" ADD CONSTRAINT "LedgerPosting_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "LedgerAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Opening balances: carry existing User balance columns into the journal so that
+-- the cached columns reconcile from day one. Each user account is credited against
+-- HOT_WALLET; confirmed FEE/BOOST transactions open PLATFORM_FEES the same way.
+INSERT INTO "LedgerAccount" ("id", "code", "type", "userId")
+VALUES
+    (gen_random_uuid()::text, 'PLATFORM_FEES', 'PLATFORM_FEES', NULL),
+    (gen_random_uuid()::text, 'HOT_WALLET', 'HOT_WALLET', NULL);
+
+INSERT INTO "LedgerAccount" ("id", "code", "type", "userId")
+SELECT gen_random_uuid()::text, a."type"::text || ':' || u."id", a."type", u."id"
+FROM "User" u
+CROSS JOIN (VALUES
+    ('USER_AVAILABLE'::"LedgerAccountType"),
+    ('USER_FROZEN'::"LedgerAccountType"),
+    ('USER_APPEAL_FROZEN'::"LedgerAccountType")
+) AS a("type")
+WHERE u."balanceTon" <> 0 OR u."frozenTon" <> 0 OR u."appealFrozenTon" <> 0;
+
+INSERT INTO "LedgerEntry" ("id", "description")
+VALUES ('ledger_opening_balance', 'Opening balance migrated from User balance columns');
+
+INSERT INTO "LedgerPosting" ("id", "entryId", "accountId", "amount")
+SELECT gen_random_uuid()::text, 'ledger_opening_balance', la."id",
+    -(CASE la."type"
+        WHEN 'USER_AVAILABLE' THEN u."balanceTon" - u."appealFrozenTon"
+        WHEN 'USER_FROZEN' THEN u."frozenTon"
+        ELSE u."appealFrozenTon"
+    END)
+FROM "LedgerAccount" la
+JOIN "User" u ON u."id" = la."userId";
+
+INSERT INTO "LedgerPosting" ("id", "entryId", "accountId", "amount")
+SELECT gen_random_uuid()::text, 'ledger_opening_balance', la."id",
+    -COALESCE((
+        SELECT SUM(t."amount") FROM "Transaction" t
+        WHERE t."status" = 'CONFIRMED' AND t."type" IN ('FEE', 'BOOST_CHANNEL', 'BOOST_FOLDER')
+    ), 0)
+FROM "LedgerAccount" la
+WHERE la."code" = 'PLATFORM_FEES';
+
+INSERT INTO "LedgerPosting" ("id", "entryId", "accountId", "amount")
+SELECT gen_random_uuid()::text, 'ledger_opening_balance', la."id",
+    -COALESCE((SELECT SUM(p."amount") FROM "LedgerPosting" p WHERE p."entryId" = 'ledger_opening_balance'), 0)
+FROM "LedgerAccount" la
+WHERE la."code" = 'HOT_WALLET';
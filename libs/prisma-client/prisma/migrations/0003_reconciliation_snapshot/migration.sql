@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ReconciliationSnapshot" (
+    "id" TEXT NOT NULL,
+    "snapshotDate" DATE NOT NULL,
+    "hotWalletBalance" DECIMAL(20,9) NOT NULL,
+    "userBalanceTon" DECIMAL(20,9) NOT NULL,
+    "userFrozenTon" DECIMAL(20,9) NOT NULL,
+    "userAppealFrozenTon" DECIMAL(20,9) NOT NULL,
+    "platformFees" DECIMAL(20,9) NOT NULL,
+    "pendingWithdrawals" DECIMAL(20,9) NOT NULL,
+    "expectedBalance" DECIMAL(20,9) NOT NULL,
+    "difference" DECIMAL(20,9) NOT NULL,
+    "alertThreshold" DECIMAL(20,9) NOT NULL,
+    "alerted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReconciliationSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReconciliationSnapshot_snapshotDate_key" ON "ReconciliationSnapshot"("snapshotDate");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationSnapshot_createdAt_idx" ON "ReconciliationSnapshot"("createdAt");
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "WithdrawalBatchStatus" AS ENUM ('SENDING', 'CONFIRMED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "WithdrawalOutputStatus" AS ENUM ('QUEUED', 'SENT', 'CONFIRMED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "outputStatus" "WithdrawalOutputStatus",
+ADD COLUMN     "withdrawalBatchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "WithdrawalBatch" (
+    "id" TEXT NOT NULL,
+    "status" "WithdrawalBatchStatus" NOT NULL DEFAULT 'SENDING',
+    "seqno" INTEGER,
+    "tonTxHash" TEXT,
+    "outputCount" INTEGER NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WithdrawalBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_withdrawalBatchId_idx" ON "Transaction"("withdrawalBatchId");
+
+-- CreateIndex
+CREATE INDEX "WithdrawalBatch_status_idx" ON "WithdrawalBatch"("status");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_withdrawalBatchId_fkey" FOREIGN KEY ("withdrawalBatchId") REFERENCES "WithdrawalBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
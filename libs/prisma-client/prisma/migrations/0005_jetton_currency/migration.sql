@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "Currency" AS ENUM ('TON', 'USDT');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "appealFrozenUsdt" DECIMAL(20,9) NOT NULL DEFAULT 0,
+ADD COLUMN     "balanceUsdt" DECIMAL(20,9) NOT NULL DEFAULT 0,
+ADD COLUMN     "frozenUsdt" DECIMAL(20,9) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Channel" ADD COLUMN     "pricePerPostUsdt" DECIMAL(20,9);
+
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'TON';
+
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'TON';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'TON';
+
+-- AlterTable
+ALTER TABLE "DepositAddress" ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'TON';
+
+-- AlterTable
+ALTER TABLE "LedgerAccount" ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'TON';
+
+-- AlterTable
+ALTER TABLE "LedgerEntry" ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'TON';
+
+-- Format prices become per-currency: {"1_24": "10"} -> {"TON": {"1_24": "10"}}
+UPDATE "Channel"
+SET "formatPrices" = jsonb_build_object('TON', "formatPrices")
+WHERE "formatPrices" IS NOT NULL AND NOT ("formatPrices" ? 'TON');
@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "LedgerAccountType" ADD VALUE 'ESCROW_CONTRACT';
+
+-- CreateEnum
+CREATE TYPE "EscrowMode" AS ENUM ('CUSTODIAL', 'CONTRACT');
+
+-- CreateEnum
+CREATE TYPE "EscrowContractStatus" AS ENUM ('DEPLOYING', 'FUNDED', 'RELEASING', 'REFUNDING', 'RELEASED', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN     "escrowAdvertiserWallet" TEXT,
+ADD COLUMN     "escrowContractAddress" TEXT,
+ADD COLUMN     "escrowContractFundedAt" TIMESTAMP(3),
+ADD COLUMN     "escrowContractSentAt" TIMESTAMP(3),
+ADD COLUMN     "escrowContractStatus" "EscrowContractStatus",
+ADD COLUMN     "escrowMode" "EscrowMode" NOT NULL DEFAULT 'CUSTODIAL',
+ADD COLUMN     "escrowOwnerWallet" TEXT;
+
+-- AlterTable
+ALTER TABLE "ReconciliationSnapshot" ADD COLUMN     "escrowContracts" DECIMAL(20,9) NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Deal_escrowContractAddress_key" ON "Deal"("escrowContractAddress");
+
+-- CreateIndex
+CREATE INDEX "Deal_escrowContractStatus_idx" ON "Deal"("escrowContractStatus");
@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "TransactionStatus" ADD VALUE 'AWAITING_CONFIRMATION';
+ALTER TYPE "TransactionStatus" ADD VALUE 'AWAITING_REVIEW';
+ALTER TYPE "TransactionStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "withdrawalsLockedUntil" TIMESTAMP(3),
+ADD COLUMN     "withdrawalAllowlistEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "confirmationExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "reviewRequired" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "WithdrawalAddress" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "label" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WithdrawalAddress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WithdrawalAddress_userId_address_key" ON "WithdrawalAddress"("userId", "address");
+
+-- AddForeignKey
+ALTER TABLE "WithdrawalAddress" ADD CONSTRAINT "WithdrawalAddress_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
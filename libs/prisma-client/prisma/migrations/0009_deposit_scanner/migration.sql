@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "DepositAddress" ADD COLUMN     "expectedAmount" DECIMAL(20,9),
+ADD COLUMN     "receivedAmount" DECIMAL(20,9) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DepositScanCursor" (
+    "address" TEXT NOT NULL,
+    "lt" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DepositScanCursor_pkey" PRIMARY KEY ("address")
+);
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "SuspenseReason" AS ENUM ('NO_MEMO', 'UNKNOWN_MEMO', 'CURRENCY_MISMATCH');
+
+-- CreateEnum
+CREATE TYPE "SuspenseStatus" AS ENUM ('PENDING', 'ASSIGNED', 'REFUNDING', 'REFUNDED');
+
+-- CreateEnum
+CREATE TYPE "DepositAmountMismatch" AS ENUM ('OVERPAID', 'UNDERPAID');
+
+-- AlterEnum
+ALTER TYPE "LedgerAccountType" ADD VALUE 'SUSPENSE';
+
+-- AlterTable
+ALTER TABLE "DepositAddress" ADD COLUMN     "amountMismatch" "DepositAmountMismatch";
+
+-- AlterTable
+ALTER TABLE "ReconciliationSnapshot" ADD COLUMN     "suspense" DECIMAL(20,9) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "SuspenseTransfer" (
+    "id" TEXT NOT NULL,
+    "tonTxHash" TEXT NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "amount" DECIMAL(20,9) NOT NULL,
+    "fromAddress" TEXT NOT NULL,
+    "memo" TEXT,
+    "reason" "SuspenseReason" NOT NULL,
+    "status" "SuspenseStatus" NOT NULL DEFAULT 'PENDING',
+    "receivedAt" TIMESTAMP(3) NOT NULL,
+    "assignedUserId" TEXT,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "note" TEXT,
+    "refundSeqno" INTEGER,
+    "refundTxHash" TEXT,
+    "refundError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SuspenseTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SuspenseTransfer_tonTxHash_key" ON "SuspenseTransfer"("tonTxHash");
+
+-- CreateIndex
+CREATE INDEX "SuspenseTransfer_status_idx" ON "SuspenseTransfer"("status");
+
+-- CreateIndex
+CREATE INDEX "SuspenseTransfer_createdAt_idx" ON "SuspenseTransfer"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SuspenseTransfer" ADD CONSTRAINT "SuspenseTransfer_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
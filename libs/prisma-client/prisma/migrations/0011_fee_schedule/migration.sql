@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN "feeBreakdown" JSONB,
+ADD COLUMN "promoCodeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "FolderPlacement" ADD COLUMN "feeBreakdown" JSONB;
+
+-- CreateTable
+CREATE TABLE "PromoCode" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "discountPercent" INTEGER NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "maxUses" INTEGER,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromoCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCode_code_key" ON "PromoCode"("code");
+
+-- CreateIndex
+CREATE INDEX "PromoCode_validUntil_idx" ON "PromoCode"("validUntil");
+
+-- AddForeignKey
+ALTER TABLE "Deal" ADD CONSTRAINT "Deal_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "PromoCode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
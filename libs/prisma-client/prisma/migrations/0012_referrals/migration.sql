@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'REFERRAL_REWARD';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "referralCode" TEXT,
+ADD COLUMN "referredById" TEXT,
+ADD COLUMN "referredAt" TIMESTAMP(3);
+
+-- Existing users already signed up: give them a code so they cannot be attributed later
+UPDATE "User" SET "referralCode" = upper(substr(md5(random()::text || "id"), 1, 10));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_referralCode_key" ON "User"("referralCode");
+
+-- CreateIndex
+CREATE INDEX "User_referredById_idx" ON "User"("referredById");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_referredById_fkey" FOREIGN KEY ("referredById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "StatementStatus" AS ENUM ('PENDING', 'READY', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "fiatCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(20,9) NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Statement" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "status" "StatementStatus" NOT NULL DEFAULT 'PENDING',
+    "fiatCurrency" TEXT NOT NULL DEFAULT 'USD',
+    "summary" JSONB,
+    "csvKey" TEXT,
+    "pdfKey" TEXT,
+    "error" TEXT,
+    "generatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Statement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_currency_fiatCurrency_recordedAt_idx" ON "ExchangeRate"("currency", "fiatCurrency", "recordedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Statement_userId_periodStart_key" ON "Statement"("userId", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "Statement_status_idx" ON "Statement"("status");
+
+-- AddForeignKey
+ALTER TABLE "Statement" ADD CONSTRAINT "Statement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "DealSlotStatus" AS ENUM ('SCHEDULED', 'POSTED', 'RELEASED', 'DISPUTED');
+
+-- CreateTable
+CREATE TABLE "DealSlot" (
+    "id" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "status" "DealSlotStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "scheduledPostTime" TIMESTAMP(3) NOT NULL,
+    "contentType" "ContentType",
+    "contentText" TEXT,
+    "contentMediaUrls" TEXT[],
+    "postUrl" TEXT,
+    "postMessageId" INTEGER,
+    "actualPostTime" TIMESTAMP(3),
+    "viewsAtVerification" INTEGER,
+    "verificationDeadline" TIMESTAMP(3),
+    "amount" DECIMAL(20,9) NOT NULL,
+    "platformFee" DECIMAL(20,9) NOT NULL,
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DealSlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DealSlot_dealId_position_key" ON "DealSlot"("dealId", "position");
+
+-- CreateIndex
+CREATE INDEX "DealSlot_status_scheduledPostTime_idx" ON "DealSlot"("status", "scheduledPostTime");
+
+-- CreateIndex
+CREATE INDEX "DealSlot_status_verificationDeadline_idx" ON "DealSlot"("status", "verificationDeadline");
+
+-- AddForeignKey
+ALTER TABLE "DealSlot" ADD CONSTRAINT "DealSlot_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "Deal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
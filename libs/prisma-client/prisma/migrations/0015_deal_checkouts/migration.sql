@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN "checkoutId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DealCheckout" (
+    "id" TEXT NOT NULL,
+    "advertiserId" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "totalAmount" DECIMAL(20,9) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DealCheckout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Deal_checkoutId_idx" ON "Deal"("checkoutId");
+
+-- CreateIndex
+CREATE INDEX "DealCheckout_advertiserId_idx" ON "DealCheckout"("advertiserId");
+
+-- CreateIndex
+CREATE INDEX "DealCheckout_campaignId_idx" ON "DealCheckout"("campaignId");
+
+-- AddForeignKey
+ALTER TABLE "Deal" ADD CONSTRAINT "Deal_checkoutId_fkey" FOREIGN KEY ("checkoutId") REFERENCES "DealCheckout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DealCheckout" ADD CONSTRAINT "DealCheckout_advertiserId_fkey" FOREIGN KEY ("advertiserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DealCheckout" ADD CONSTRAINT "DealCheckout_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
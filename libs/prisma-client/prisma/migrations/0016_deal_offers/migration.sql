@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "DealOfferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'COUNTERED', 'CLOSED');
+
+-- CreateTable
+CREATE TABLE "DealOffer" (
+    "id" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "proposedById" TEXT NOT NULL,
+    "status" "DealOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "amount" DECIMAL(20,9) NOT NULL,
+    "platformFee" DECIMAL(20,9) NOT NULL,
+    "adFormat" TEXT,
+    "scheduledPostTime" TIMESTAMP(3),
+    "message" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DealOffer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DealOffer_dealId_createdAt_idx" ON "DealOffer"("dealId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DealOffer_dealId_status_idx" ON "DealOffer"("dealId", "status");
+
+-- CreateIndex
+CREATE INDEX "DealOffer_proposedById_idx" ON "DealOffer"("proposedById");
+
+-- AddForeignKey
+ALTER TABLE "DealOffer" ADD CONSTRAINT "DealOffer_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "Deal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DealOffer" ADD CONSTRAINT "DealOffer_proposedById_fkey" FOREIGN KEY ("proposedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN     "contentApprovalHours" INTEGER,
+ADD COLUMN     "contentDeadline" TIMESTAMP(3),
+ADD COLUMN     "contentReminderSentAt" TIMESTAMP(3),
+ADD COLUMN     "contentSubmissionHours" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Deal_contentDeadline_idx" ON "Deal"("contentDeadline");
+
+-- Deals already waiting on content get the default deadlines from now
+UPDATE "Deal" SET "contentDeadline" = NOW() + INTERVAL '24 hours' WHERE "status" = 'CONTENT_PENDING';
+UPDATE "Deal" SET "contentDeadline" = NOW() + INTERVAL '12 hours' WHERE "status" = 'CONTENT_SUBMITTED';
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "DisputeReason" ADD VALUE 'LOW_VIEWS';
+
+-- CreateEnum
+CREATE TYPE "ViewsShortfallPolicy" AS ENUM ('RELEASE', 'PRO_RATA', 'DISPUTE');
+
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN     "viewsShortfallPolicy" "ViewsShortfallPolicy" NOT NULL DEFAULT 'RELEASE';
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "DealPostMetric" (
+    "id" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "dealSlotId" TEXT,
+    "views" INTEGER NOT NULL,
+    "forwards" INTEGER NOT NULL,
+    "reactions" INTEGER NOT NULL,
+    "replies" INTEGER NOT NULL,
+    "sampledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DealPostMetric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DealPostMetric_dealId_sampledAt_idx" ON "DealPostMetric"("dealId", "sampledAt");
+
+-- CreateIndex
+CREATE INDEX "DealPostMetric_dealSlotId_sampledAt_idx" ON "DealPostMetric"("dealSlotId", "sampledAt");
+
+-- AddForeignKey
+ALTER TABLE "DealPostMetric" ADD CONSTRAINT "DealPostMetric_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "Deal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DealPostMetric" ADD CONSTRAINT "DealPostMetric_dealSlotId_fkey" FOREIGN KEY ("dealSlotId") REFERENCES "DealSlot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN "trackLinks" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "TrackedLink" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "targetUrl" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TrackedLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LinkClick" (
+    "id" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "visitorHash" TEXT NOT NULL,
+    "userAgent" TEXT NOT NULL,
+    "clickedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LinkClick_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackedLink_code_key" ON "TrackedLink"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackedLink_dealId_targetUrl_key" ON "TrackedLink"("dealId", "targetUrl");
+
+-- CreateIndex
+CREATE INDEX "LinkClick_linkId_visitorHash_idx" ON "LinkClick"("linkId", "visitorHash");
+
+-- CreateIndex
+CREATE INDEX "LinkClick_dealId_visitorHash_idx" ON "LinkClick"("dealId", "visitorHash");
+
+-- AddForeignKey
+ALTER TABLE "TrackedLink" ADD CONSTRAINT "TrackedLink_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "Deal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LinkClick" ADD CONSTRAINT "LinkClick_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "TrackedLink"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LinkClick" ADD CONSTRAINT "LinkClick_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "Deal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
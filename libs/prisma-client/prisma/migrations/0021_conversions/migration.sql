@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN "utmTemplate" TEXT,
+ADD COLUMN "postbackSecret" TEXT;
+
+-- CreateTable
+CREATE TABLE "Conversion" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "clickId" TEXT,
+    "orderId" TEXT NOT NULL,
+    "revenue" DECIMAL(20,9) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Conversion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Conversion_campaignId_orderId_key" ON "Conversion"("campaignId", "orderId");
+
+-- CreateIndex
+CREATE INDEX "Conversion_dealId_idx" ON "Conversion"("dealId");
+
+-- AddForeignKey
+ALTER TABLE "Conversion" ADD CONSTRAINT "Conversion_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Conversion" ADD CONSTRAINT "Conversion_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "Deal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Conversion" ADD CONSTRAINT "Conversion_clickId_fkey" FOREIGN KEY ("clickId") REFERENCES "LinkClick"("id") ON DELETE SET NULL ON UPDATE CASCADE;
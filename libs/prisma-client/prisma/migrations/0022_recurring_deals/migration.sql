@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "RecurringDealStatus" AS ENUM ('PENDING', 'ACTIVE', 'PAUSED', 'CANCELLED', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN "recurringDealId" TEXT,
+ADD COLUMN "occurrence" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RecurringDeal" (
+    "id" TEXT NOT NULL,
+    "status" "RecurringDealStatus" NOT NULL DEFAULT 'PENDING',
+    "currency" "Currency" NOT NULL,
+    "amount" DECIMAL(20,9) NOT NULL,
+    "platformFee" DECIMAL(20,9) NOT NULL,
+    "feeBreakdown" JSONB,
+    "adFormat" TEXT,
+    "contentType" "ContentType" NOT NULL DEFAULT 'TEXT',
+    "contentText" TEXT NOT NULL,
+    "contentMediaUrls" TEXT[],
+    "trackLinks" BOOLEAN NOT NULL DEFAULT false,
+    "intervalDays" INTEGER NOT NULL,
+    "occurrences" INTEGER NOT NULL,
+    "firstPostTime" TIMESTAMP(3) NOT NULL,
+    "nextOccurrence" INTEGER NOT NULL DEFAULT 1,
+    "nextPostTime" TIMESTAMP(3),
+    "pausedReason" TEXT,
+    "pausedBy" TEXT,
+    "campaignId" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "advertiserId" TEXT NOT NULL,
+    "channelOwnerId" TEXT NOT NULL,
+    "approvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringDeal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringDeal_status_nextPostTime_idx" ON "RecurringDeal"("status", "nextPostTime");
+
+-- CreateIndex
+CREATE INDEX "RecurringDeal_advertiserId_idx" ON "RecurringDeal"("advertiserId");
+
+-- CreateIndex
+CREATE INDEX "RecurringDeal_channelOwnerId_idx" ON "RecurringDeal"("channelOwnerId");
+
+-- CreateIndex
+CREATE INDEX "RecurringDeal_channelId_idx" ON "RecurringDeal"("channelId");
+
+-- CreateIndex
+CREATE INDEX "Deal_recurringDealId_idx" ON "Deal"("recurringDealId");
+
+-- AddForeignKey
+ALTER TABLE "Deal" ADD CONSTRAINT "Deal_recurringDealId_fkey" FOREIGN KEY ("recurringDealId") REFERENCES "RecurringDeal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringDeal" ADD CONSTRAINT "RecurringDeal_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringDeal" ADD CONSTRAINT "RecurringDeal_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "Channel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringDeal" ADD CONSTRAINT "RecurringDeal_advertiserId_fkey" FOREIGN KEY ("advertiserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringDeal" ADD CONSTRAINT "RecurringDeal_channelOwnerId_fkey" FOREIGN KEY ("channelOwnerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
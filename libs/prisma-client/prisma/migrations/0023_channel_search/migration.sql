@@ -0,0 +1,35 @@
+-- Trigram matching for typo-tolerant channel search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Channel" ADD COLUMN "searchVector" tsvector;
+
+-- Search document: title and username weigh most, then description, categories and language.
+-- The 'simple' configuration keeps it language-agnostic (channels are mixed ru/en/...).
+CREATE OR REPLACE FUNCTION channel_search_vector() RETURNS trigger AS $$
+BEGIN
+    NEW."searchVector" :=
+        setweight(to_tsvector('simple', coalesce(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(NEW.username, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(NEW.description, '')), 'B') ||
+        setweight(to_tsvector('simple', array_to_string(NEW.categories, ' ')), 'C') ||
+        setweight(to_tsvector('simple', coalesce(NEW.language, '')), 'D');
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Channel_searchVector_trigger"
+    BEFORE INSERT OR UPDATE OF title, username, description, categories, language ON "Channel"
+    FOR EACH ROW EXECUTE FUNCTION channel_search_vector();
+
+-- Backfill existing channels
+UPDATE "Channel" SET title = title;
+
+-- CreateIndex
+CREATE INDEX "Channel_searchVector_idx" ON "Channel" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Channel_title_idx" ON "Channel" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Channel_username_idx" ON "Channel" USING GIN ("username" gin_trgm_ops);
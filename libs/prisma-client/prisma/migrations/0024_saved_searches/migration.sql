@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Channel" ADD COLUMN "listedAt" TIMESTAMP(3),
+ADD COLUMN "previousPricePerPost" DECIMAL(20,9),
+ADD COLUMN "priceDroppedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "alertsEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastAlertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Channel_listedAt_idx" ON "Channel"("listedAt");
+
+-- CreateIndex
+CREATE INDEX "Channel_priceDroppedAt_idx" ON "Channel"("priceDroppedAt");
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_userId_idx" ON "SavedSearch"("userId");
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_alertsEnabled_idx" ON "SavedSearch"("alertsEnabled");
+
+-- AddForeignKey
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
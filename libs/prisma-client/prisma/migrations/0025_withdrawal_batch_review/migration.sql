@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "WithdrawalBatchStatus" ADD VALUE 'REVIEW';
+
+-- AlterEnum
+ALTER TYPE "WithdrawalOutputStatus" ADD VALUE 'REVIEW';
+
+-- AlterTable
+ALTER TABLE "WithdrawalBatch" ADD COLUMN "validUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "SuspenseTransfer" ADD COLUMN "refundValidUntil" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SuspenseStatus" ADD VALUE 'REFUND_REVIEW';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN "escrowDeploySeqno" INTEGER,
+ADD COLUMN "escrowDeployValidUntil" TIMESTAMP(3);
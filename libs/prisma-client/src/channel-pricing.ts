@@ -0,0 +1,19 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Effective CPM: price in TON per 1000 average post views. Null without views,
+ * since the price then says nothing about the reach it buys.
+ */
+export function channelCpm(price: Prisma.Decimal | string, avgViews: number): Prisma.Decimal | null {
+  if (avgViews <= 0) {
+    return null;
+  }
+
+  return new Prisma.Decimal(price).mul(1000).div(avgViews).toDecimalPlaces(4);
+}
+
+/**
+ * CPM of the cheapest post (pricePerPost) over "Channel", for catalogue
+ * filters and sorting. NULL for channels without views.
+ */
+export const CHANNEL_CPM_SQL = Prisma.sql`("pricePerPost" * 1000 / NULLIF("avgViews", 0))`;
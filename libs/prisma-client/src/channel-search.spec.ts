@@ -0,0 +1,40 @@
+import { parseChannelSearchFilters } from './channel-search.js';
+
+describe('parseChannelSearchFilters', () => {
+  it('keeps the filters of a search saved through the API', () => {
+    expect(
+      parseChannelSearchFilters({
+        search: 'crypto news',
+        categories: ['crypto', 'news'],
+        minSubscribers: 1000,
+        maxPrice: '20.5',
+        minCpm: '.5',
+        language: 'en',
+        sortBy: 'price',
+      }),
+    ).toEqual({
+      search: 'crypto news',
+      categories: ['crypto', 'news'],
+      minSubscribers: 1000,
+      maxPrice: '20.5',
+      minCpm: '.5',
+      language: 'en',
+    });
+  });
+
+  it('drops empty values and the status, which the caller sets', () => {
+    expect(parseChannelSearchFilters({ search: null, status: 'PENDING' })).toEqual({});
+  });
+
+  it('rejects values the search queries would fail or misread on', () => {
+    expect(parseChannelSearchFilters({ minPrice: '1e3' })).toBeNull();
+    expect(parseChannelSearchFilters({ maxCpm: 'cheap' })).toBeNull();
+    expect(parseChannelSearchFilters({ minSubscribers: 10.5 })).toBeNull();
+    expect(parseChannelSearchFilters({ maxSubscribers: '100' })).toBeNull();
+    expect(parseChannelSearchFilters({ categories: 'crypto' })).toBeNull();
+    expect(parseChannelSearchFilters({ categories: ['crypto', 1] })).toBeNull();
+    expect(parseChannelSearchFilters({ search: ['crypto'] })).toBeNull();
+    expect(parseChannelSearchFilters(['crypto'])).toBeNull();
+    expect(parseChannelSearchFilters(null)).toBeNull();
+  });
+});
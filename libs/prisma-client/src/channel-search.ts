@@ -0,0 +1,155 @@
+import { Prisma } from '@prisma/client';
+import { CHANNEL_CPM_SQL } from './channel-pricing.js';
+
+/**
+ * Channel search filters shared by the catalogue (GET /channels) and saved
+ * search alerts. Matching runs on Postgres: a weighted tsvector over title,
+ * username, description, categories and language (kept up to date by a
+ * trigger), plus pg_trgm word similarity on title and username for typos.
+ */
+export interface ChannelSearchFilters {
+  search?: string | undefined;
+  categories?: string[] | undefined;
+  minSubscribers?: number | undefined;
+  maxSubscribers?: number | undefined;
+  minPrice?: string | undefined; // TON
+  maxPrice?: string | undefined;
+  minCpm?: string | undefined; // TON per 1000 views of the cheapest post
+  maxCpm?: string | undefined;
+  language?: string | undefined;
+  status?: string | undefined; // default ACTIVE
+}
+
+// What IsNumberString accepts, so the "::decimal" casts cannot fail
+const NUMERIC = /^[+-]?([0-9]*[.])?[0-9]+$/;
+
+const isText = (value: Prisma.JsonValue): value is string => typeof value === 'string';
+const isNumeric = (value: Prisma.JsonValue): value is string => isText(value) && NUMERIC.test(value);
+
+/**
+ * Filters of a saved search from their stored JSON, checked the way the API
+ * checks them on save. Null when any value is not of its type; status is
+ * left to the caller.
+ */
+export function parseChannelSearchFilters(json: Prisma.JsonValue): ChannelSearchFilters | null {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return null;
+  }
+
+  const filters: ChannelSearchFilters = {};
+  for (const key of ['search', 'language'] as const) {
+    const value = json[key];
+    if (value === undefined || value === null) continue;
+    if (!isText(value)) return null;
+    filters[key] = value;
+  }
+  for (const key of ['minPrice', 'maxPrice', 'minCpm', 'maxCpm'] as const) {
+    const value = json[key];
+    if (value === undefined || value === null) continue;
+    if (!isNumeric(value)) return null;
+    filters[key] = value;
+  }
+  for (const key of ['minSubscribers', 'maxSubscribers'] as const) {
+    const value = json[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value)) return null;
+    filters[key] = value;
+  }
+
+  const categories = json.categories;
+  if (categories !== undefined && categories !== null) {
+    if (!Array.isArray(categories) || !categories.every(isText)) return null;
+    filters.categories = categories;
+  }
+
+  return filters;
+}
+
+// Facet whose own filter is dropped when counting it
+export type ChannelSearchFacet = 'categories' | 'language' | 'price' | 'subscribers';
+
+export interface ChannelTextQuery {
+  // Prefix tsquery: "crypt:* & news:*"
+  tsquery: string;
+  // Normalized phrase for trigram matching
+  phrase: string;
+}
+
+// Minimal trigram word similarity for a misspelled word to still match
+const TYPO_SIMILARITY_THRESHOLD = '0.4';
+const MAX_QUERY_TERMS = 8;
+
+export function parseChannelSearchQuery(search: string | undefined): ChannelTextQuery | null {
+  const terms = (search ?? '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_QUERY_TERMS);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return {
+    tsquery: terms.map((term) => `${term}:*`).join(' & '),
+    phrase: terms.join(' '),
+  };
+}
+
+/**
+ * Lowers the "<%" threshold so a typo or two still matches. Scoped to the
+ * transaction, so run the search queries on the same tx.
+ */
+export async function enableChannelSearchTypoTolerance(tx: Prisma.TransactionClient): Promise<void> {
+  await tx.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${TYPO_SIMILARITY_THRESHOLD}, true)`;
+}
+
+/** WHERE clause over "Channel" for the filters, optionally without one facet's filter */
+export function channelSearchWhere(
+  filters: ChannelSearchFilters,
+  text: ChannelTextQuery | null,
+  except?: ChannelSearchFacet,
+): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`status = ${filters.status ?? 'ACTIVE'}::text::"ChannelStatus"`,
+  ];
+
+  if (filters.categories?.length && except !== 'categories') {
+    conditions.push(Prisma.sql`categories && ${filters.categories}`);
+  }
+  if (filters.language && except !== 'language') {
+    conditions.push(Prisma.sql`language = ${filters.language}`);
+  }
+  if (except !== 'price') {
+    if (filters.minPrice !== undefined) {
+      conditions.push(Prisma.sql`"pricePerPost" >= ${filters.minPrice}::decimal`);
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(Prisma.sql`"pricePerPost" <= ${filters.maxPrice}::decimal`);
+    }
+  }
+  // Channels without views have no CPM and drop out of a CPM filter
+  if (filters.minCpm !== undefined) {
+    conditions.push(Prisma.sql`${CHANNEL_CPM_SQL} >= ${filters.minCpm}::decimal`);
+  }
+  if (filters.maxCpm !== undefined) {
+    conditions.push(Prisma.sql`${CHANNEL_CPM_SQL} <= ${filters.maxCpm}::decimal`);
+  }
+  if (except !== 'subscribers') {
+    if (filters.minSubscribers !== undefined) {
+      conditions.push(Prisma.sql`"subscriberCount" >= ${filters.minSubscribers}`);
+    }
+    if (filters.maxSubscribers !== undefined) {
+      conditions.push(Prisma.sql`"subscriberCount" <= ${filters.maxSubscribers}`);
+    }
+  }
+  if (text) {
+    conditions.push(Prisma.sql`(
+      "searchVector" @@ to_tsquery('simple', ${text.tsquery})
+      OR ${text.phrase} <% title
+      OR ${text.phrase} <% username
+    )`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
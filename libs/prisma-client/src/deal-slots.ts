@@ -0,0 +1,61 @@
+import { Prisma, DealSlotStatus, DealStatus } from '@prisma/client';
+
+interface SlotShare {
+  status: DealSlotStatus;
+  amount: Prisma.Decimal;
+  platformFee: Prisma.Decimal;
+}
+
+/**
+ * Aggregate status of a multi-slot deal once its content is approved:
+ * SCHEDULED while posts are pending, POSTED until every post is verified
+ * and paid out, then RELEASED. A disputed slot holds the whole deal.
+ */
+export function dealStatusFromSlots(slots: { status: DealSlotStatus }[]): DealStatus {
+  if (slots.some((s) => s.status === 'DISPUTED')) return 'DISPUTED';
+  if (slots.every((s) => s.status === 'RELEASED')) return 'RELEASED';
+  if (slots.some((s) => s.status === 'SCHEDULED')) return 'SCHEDULED';
+  return 'POSTED';
+}
+
+/**
+ * Amount and fee of a deal still held in escrow. Released slots of a
+ * multi-slot deal have been paid out already; disputes, refunds and appeals
+ * settle only the rest. Single-post deals have no slots.
+ */
+export function unreleasedDealAmounts(
+  deal: { amount: Prisma.Decimal; platformFee: Prisma.Decimal },
+  slots: SlotShare[] = [],
+): { amount: Prisma.Decimal; platformFee: Prisma.Decimal } {
+  if (slots.length === 0) {
+    return { amount: deal.amount, platformFee: deal.platformFee };
+  }
+
+  const held = slots.filter((s) => s.status !== 'RELEASED');
+  return {
+    amount: held.reduce((sum, s) => sum.add(s.amount), new Prisma.Decimal(0)),
+    platformFee: held.reduce((sum, s) => sum.add(s.platformFee), new Prisma.Decimal(0)),
+  };
+}
+
+/**
+ * Splits a deal's amount and fee evenly across its slots; rounding
+ * leftovers go to the last slot so the shares add up exactly.
+ */
+export function splitDealAmounts(
+  amount: Prisma.Decimal,
+  platformFee: Prisma.Decimal,
+  count: number,
+): { amount: Prisma.Decimal; platformFee: Prisma.Decimal }[] {
+  const amountShare = amount.div(count).toDecimalPlaces(9, Prisma.Decimal.ROUND_DOWN);
+  const feeShare = platformFee.div(count).toDecimalPlaces(9, Prisma.Decimal.ROUND_DOWN);
+
+  return Array.from({ length: count }, (_, i) =>
+    i < count - 1
+      ? { amount: amountShare, platformFee: feeShare }
+      : {
+          amount: amount.sub(amountShare.mul(count - 1)),
+          platformFee: platformFee.sub(feeShare.mul(count - 1)),
+        },
+  );
+}
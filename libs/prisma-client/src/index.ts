@@ -19,3 +19,12 @@ if (process.env.NODE_ENV !== 'production') {
 
 export { PrismaClient };
 export * from '@prisma/client';
+export * from './ledger.js';
+export * from './withdrawals.js';
+export * from './referrals.js';
+export * from './deal-slots.js';
+export * from './views-guarantee.js';
+export * from './tracked-links.js';
+export * from './recurring-deals.js';
+export * from './channel-search.js';
+export * from './channel-pricing.js';
@@ -0,0 +1,117 @@
+import { Prisma } from '@prisma/client';
+import {
+  HOT_WALLET_ACCOUNT,
+  PLATFORM_FEES_ACCOUNT,
+  postJournalEntry,
+  userAppealFrozen,
+  userAvailable,
+  userFrozen,
+} from './ledger.js';
+
+const d = (value: string) => new Prisma.Decimal(value);
+
+describe('postJournalEntry', () => {
+  let tx: {
+    ledgerEntry: { create: jest.Mock };
+    ledgerAccount: { upsert: jest.Mock };
+    ledgerPosting: { create: jest.Mock };
+    user: { update: jest.Mock };
+  };
+
+  beforeEach(() => {
+    tx = {
+      ledgerEntry: { create: jest.fn().mockResolvedValue({ id: 'entry-1' }) },
+      // Account ids are their codes, so postings can be read back by code
+      ledgerAccount: { upsert: jest.fn(async ({ where }) => ({ id: where.code })) },
+      ledgerPosting: { create: jest.fn() },
+      user: { update: jest.fn() },
+    };
+  });
+
+  const post = (input: Parameters<typeof postJournalEntry>[1]) =>
+    postJournalEntry(tx as unknown as Prisma.TransactionClient, input);
+
+  // Posted amount per account code
+  const postings = (): Record<string, string> =>
+    Object.fromEntries(
+      tx.ledgerPosting.create.mock.calls.map(([{ data }]) => [data.accountId, data.amount.toString()]),
+    );
+
+  const userUpdate = (userId: string) =>
+    tx.user.update.mock.calls.find(([args]) => args.where.id === userId)?.[0].data;
+
+  it('posts every movement as a debit and a credit that sum to zero', async () => {
+    const entryId = await post({
+      type: 'ESCROW_RELEASE',
+      movements: [
+        { debit: userFrozen('adv'), credit: userAvailable('owner'), amount: d('10') },
+        { debit: userFrozen('adv'), credit: PLATFORM_FEES_ACCOUNT, amount: d('0.5') },
+      ],
+    });
+
+    expect(entryId).toBe('entry-1');
+    expect(postings()).toEqual({
+      'USER_FROZEN:adv': '10.5',
+      'USER_AVAILABLE:owner': '-10',
+      PLATFORM_FEES: '-0.5',
+    });
+
+    const total = Object.values(postings()).reduce((sum, amount) => sum.add(amount), d('0'));
+    expect(total.isZero()).toBe(true);
+  });
+
+  it('nets movements in and out of the same account and skips what cancels out', async () => {
+    await post({
+      movements: [
+        { debit: userAvailable('u'), credit: userFrozen('u'), amount: d('5') },
+        { debit: userFrozen('u'), credit: userAvailable('u'), amount: d('5') },
+        { debit: HOT_WALLET_ACCOUNT, credit: userAvailable('u'), amount: d('0') },
+      ],
+    });
+
+    expect(tx.ledgerPosting.create).not.toHaveBeenCalled();
+  });
+
+  it('keeps the currency in the account codes and the cached columns', async () => {
+    await post({
+      currency: 'USDT',
+      movements: [{ debit: HOT_WALLET_ACCOUNT, credit: userAvailable('u'), amount: d('3') }],
+    });
+
+    expect(postings()).toEqual({ 'USDT:HOT_WALLET': '3', 'USDT:USER_AVAILABLE:u': '-3' });
+    expect(tx.ledgerEntry.create).toHaveBeenCalledWith({ data: expect.objectContaining({ currency: 'USDT' }) });
+    expect(userUpdate('u')).toEqual({
+      balanceUsdt: { increment: d('3') },
+      frozenUsdt: { increment: d('0') },
+      appealFrozenUsdt: { increment: d('0') },
+    });
+  });
+
+  it('updates the cached balances of each user once, appeal-frozen funds included in the balance', async () => {
+    await post({
+      movements: [
+        { debit: userAvailable('u'), credit: userFrozen('u'), amount: d('4') },
+        { debit: userFrozen('u'), credit: userAppealFrozen('u'), amount: d('1') },
+      ],
+    });
+
+    expect(tx.user.update).toHaveBeenCalledTimes(1);
+    expect(userUpdate('u')).toEqual({
+      balanceTon: { increment: d('-3') },
+      frozenTon: { increment: d('3') },
+      appealFrozenTon: { increment: d('1') },
+    });
+  });
+
+  it('rejects negative amounts and user accounts without a user', async () => {
+    await expect(
+      post({ movements: [{ debit: HOT_WALLET_ACCOUNT, credit: userAvailable('u'), amount: d('-1') }] }),
+    ).rejects.toThrow('must not be negative');
+
+    await expect(
+      post({ movements: [{ debit: HOT_WALLET_ACCOUNT, credit: { type: 'USER_AVAILABLE' }, amount: d('1') }] }),
+    ).rejects.toThrow('requires a userId');
+
+    expect(tx.ledgerEntry.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import { Prisma, Currency, LedgerAccountType, TransactionType } from '@prisma/client';
+
+/**
+ * Reference to a ledger account. User accounts carry the owning userId;
+ * platform accounts (PLATFORM_FEES, HOT_WALLET, ESCROW_CONTRACT, SUSPENSE) are singletons.
+ */
+export interface LedgerAccountRef {
+  type: LedgerAccountType;
+  userId?: string;
+}
+
+/**
+ * A single balanced movement: `amount` is debited from one account and
+ * credited to another. For user (liability) accounts a debit decreases the
+ * balance and a credit increases it; for asset accounts (HOT_WALLET,
+ * ESCROW_CONTRACT) it is the reverse.
+ */
+export interface LedgerMovement {
+  debit: LedgerAccountRef;
+  credit: LedgerAccountRef;
+  amount: Prisma.Decimal;
+}
+
+export interface JournalEntryInput {
+  type?: TransactionType;
+  /** Every movement of an entry is in this currency (default TON) */
+  currency?: Currency;
+  description?: string;
+  transactionId?: string;
+  dealId?: string;
+  folderPlacementId?: string;
+  movements: LedgerMovement[];
+}
+
+export interface CachedUserBalances {
+  balance: Prisma.Decimal;
+  frozen: Prisma.Decimal;
+  appealFrozen: Prisma.Decimal;
+}
+
+type UserBalanceColumn =
+  | 'balanceTon' | 'frozenTon' | 'appealFrozenTon'
+  | 'balanceUsdt' | 'frozenUsdt' | 'appealFrozenUsdt';
+
+/**
+ * Cached User columns holding each currency's balances
+ */
+export const USER_BALANCE_COLUMNS: Record<
+  Currency,
+  Record<keyof CachedUserBalances, UserBalanceColumn>
+> = {
+  TON: { balance: 'balanceTon', frozen: 'frozenTon', appealFrozen: 'appealFrozenTon' },
+  USDT: { balance: 'balanceUsdt', frozen: 'frozenUsdt', appealFrozen: 'appealFrozenUsdt' },
+};
+
+export const PLATFORM_FEES_ACCOUNT: LedgerAccountRef = { type: 'PLATFORM_FEES' };
+export const HOT_WALLET_ACCOUNT: LedgerAccountRef = { type: 'HOT_WALLET' };
+export const ESCROW_CONTRACT_ACCOUNT: LedgerAccountRef = { type: 'ESCROW_CONTRACT' };
+export const SUSPENSE_ACCOUNT: LedgerAccountRef = { type: 'SUSPENSE' };
+
+export function userAvailable(userId: string): LedgerAccountRef {
+  return { type: 'USER_AVAILABLE', userId };
+}
+
+export function userFrozen(userId: string): LedgerAccountRef {
+  return { type: 'USER_FROZEN', userId };
+}
+
+export function userAppealFrozen(userId: string): LedgerAccountRef {
+  return { type: 'USER_APPEAL_FROZEN', userId };
+}
+
+/**
+ * TON account codes carry no prefix (they predate multi-currency support);
+ * other currencies are prefixed, e.g. "USDT:USER_AVAILABLE:<userId>".
+ */
+export function ledgerAccountCode(ref: LedgerAccountRef, currency: Currency = 'TON'): string {
+  const code = ref.userId ? `${ref.type}:${ref.userId}` : ref.type;
+  return currency === 'TON' ? code : `${currency}:${code}`;
+}
+
+/**
+ * Converts a raw posting sum (debits positive) into the account's natural
+ * balance: asset accounts (HOT_WALLET, ESCROW_CONTRACT) are debit-normal,
+ * every other account is credit-normal.
+ */
+export function ledgerAccountBalance(
+  type: LedgerAccountType,
+  postingSum: Prisma.Decimal,
+): Prisma.Decimal {
+  return type === 'HOT_WALLET' || type === 'ESCROW_CONTRACT' ? postingSum : postingSum.neg();
+}
+
+/**
+ * Maps user account balances onto the cached User columns.
+ * The balance includes appeal-frozen funds, matching how the API reports it.
+ */
+export function cachedUserBalances(
+  balances: Partial<Record<LedgerAccountType, Prisma.Decimal>>,
+): CachedUserBalances {
+  const zero = new Prisma.Decimal(0);
+  const available = balances.USER_AVAILABLE ?? zero;
+  const frozen = balances.USER_FROZEN ?? zero;
+  const appealFrozen = balances.USER_APPEAL_FROZEN ?? zero;
+
+  return {
+    balance: available.add(appealFrozen),
+    frozen,
+    appealFrozen,
+  };
+}
+
+/**
+ * Posts a balanced journal entry and updates the cached User balance columns
+ * for every user account it touches. Must be called inside a $transaction so
+ * the entry and the cache update commit together.
+ */
+export async function postJournalEntry(
+  tx: Prisma.TransactionClient,
+  input: JournalEntryInput,
+): Promise<string> {
+  const currency = input.currency ?? 'TON';
+  // Net posting amount per account code (debit positive, credit negative)
+  const deltas = new Map<string, { ref: LedgerAccountRef; amount: Prisma.Decimal }>();
+
+  const addDelta = (ref: LedgerAccountRef, amount: Prisma.Decimal) => {
+    if (ref.type.startsWith('USER_') && !ref.userId) {
+      throw new Error(`Ledger account ${ref.type} requires a userId`);
+    }
+    const code = ledgerAccountCode(ref, currency);
+    const existing = deltas.get(code);
+    deltas.set(code, {
+      ref,
+      amount: existing ? existing.amount.add(amount) : amount,
+    });
+  };
+
+  for (const movement of input.movements) {
+    if (movement.amount.isNegative()) {
+      throw new Error('Ledger movement amount must not be negative');
+    }
+    if (movement.amount.isZero()) {
+      continue;
+    }
+    addDelta(movement.debit, movement.amount);
+    addDelta(movement.credit, movement.amount.neg());
+  }
+
+  const postings = [...deltas.values()].filter((d) => !d.amount.isZero());
+
+  const entry = await tx.ledgerEntry.create({
+    data: {
+      type: input.type ?? null,
+      currency,
+      description: input.description ?? null,
+      transactionId: input.transactionId ?? null,
+      dealId: input.dealId ?? null,
+      folderPlacementId: input.folderPlacementId ?? null,
+    },
+  });
+
+  const userDeltas = new Map<string, CachedUserBalances>();
+
+  for (const posting of postings) {
+    const code = ledgerAccountCode(posting.ref, currency);
+    const account = await tx.ledgerAccount.upsert({
+      where: { code },
+      create: {
+        code,
+        type: posting.ref.type,
+        currency,
+        userId: posting.ref.userId ?? null,
+      },
+      update: {},
+    });
+
+    await tx.ledgerPosting.create({
+      data: {
+        entryId: entry.id,
+        accountId: account.id,
+        amount: posting.amount,
+      },
+    });
+
+    if (posting.ref.userId) {
+      const change = cachedUserBalances({
+        [posting.ref.type]: ledgerAccountBalance(posting.ref.type, posting.amount),
+      });
+      const previous = userDeltas.get(posting.ref.userId);
+      userDeltas.set(posting.ref.userId, previous
+        ? {
+            balance: previous.balance.add(change.balance),
+            frozen: previous.frozen.add(change.frozen),
+            appealFrozen: previous.appealFrozen.add(change.appealFrozen),
+          }
+        : change);
+    }
+  }
+
+  const columns = USER_BALANCE_COLUMNS[currency];
+  for (const [userId, delta] of userDeltas) {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        [columns.balance]: { increment: delta.balance },
+        [columns.frozen]: { increment: delta.frozen },
+        [columns.appealFrozen]: { increment: delta.appealFrozen },
+      },
+    });
+  }
+
+  return entry.id;
+}
@@ -0,0 +1,31 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RecurringSchedule {
+  firstPostTime: Date;
+  intervalDays: number;
+  occurrences: number;
+}
+
+/** Post time of a period of a recurring series, counted from 1 */
+export function recurringPostTime(series: RecurringSchedule, occurrence: number): Date {
+  return new Date(series.firstPostTime.getTime() + (occurrence - 1) * series.intervalDays * DAY_MS);
+}
+
+/**
+ * First period from `from` on whose post time is still ahead of `now`.
+ * Periods missed while a series was pending or paused are skipped, not
+ * posted late. Null once the series has no periods left.
+ */
+export function upcomingRecurringOccurrence(
+  series: RecurringSchedule,
+  from: number,
+  now: Date,
+): { occurrence: number; postTime: Date } | null {
+  for (let occurrence = from; occurrence <= series.occurrences; occurrence++) {
+    const postTime = recurringPostTime(series, occurrence);
+    if (postTime > now) {
+      return { occurrence, postTime };
+    }
+  }
+  return null;
+}
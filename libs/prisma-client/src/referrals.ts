@@ -0,0 +1,114 @@
+import { Prisma, Currency } from '@prisma/client';
+import { postJournalEntry, userAvailable, PLATFORM_FEES_ACCOUNT } from './ledger.js';
+
+/** SystemConfig key holding the ReferralProgram */
+export const REFERRAL_PROGRAM_CONFIG_KEY = 'referral_program';
+
+export interface ReferralProgram {
+  /** Share of the platform fee paid to the referrer, % */
+  sharePercent: number;
+  /** Days after attribution during which the referred user's fees earn rewards */
+  windowDays: number;
+}
+
+export const DEFAULT_REFERRAL_PROGRAM: ReferralProgram = {
+  sharePercent: 20,
+  windowDays: 365,
+};
+
+export async function getReferralProgram(
+  client: Prisma.TransactionClient,
+): Promise<ReferralProgram> {
+  const config = await client.systemConfig.findUnique({
+    where: { key: REFERRAL_PROGRAM_CONFIG_KEY },
+  });
+  return { ...DEFAULT_REFERRAL_PROGRAM, ...((config?.value as Partial<ReferralProgram> | undefined) ?? {}) };
+}
+
+export interface ReferralRewardInput {
+  /** Platform fee just collected */
+  fee: Prisma.Decimal;
+  currency?: Currency;
+  /** User who paid the fee; their referrer is rewarded first */
+  payerId: string;
+  /** Other party; their referrer is rewarded if the payer was not referred */
+  counterpartyId: string;
+  dealId?: string;
+  /** Released slot of a multi-slot deal; each slot's fee is rewarded on its own */
+  dealSlotId?: string;
+  folderPlacementId?: string;
+}
+
+/**
+ * Pays the referrer of a party their share of a collected platform fee, out
+ * of PLATFORM_FEES. Call it in the transaction that books the fee. At most
+ * one reward per deal (or deal slot) or placement, so a fee collected again
+ * after an appeal is not rewarded twice; a refunded fee does not claw it back.
+ */
+export async function creditReferralReward(
+  tx: Prisma.TransactionClient,
+  { fee, currency = 'TON', payerId, counterpartyId, dealId, dealSlotId, folderPlacementId }: ReferralRewardInput,
+): Promise<void> {
+  if (fee.lessThanOrEqualTo(0)) return;
+
+  const program = await getReferralProgram(tx);
+  if (program.sharePercent <= 0) return;
+
+  const windowStart = new Date(Date.now() - program.windowDays * 24 * 60 * 60 * 1000);
+  const parties = await tx.user.findMany({
+    where: { id: { in: [payerId, counterpartyId] } },
+    select: { id: true, referredById: true, referredAt: true },
+  });
+
+  // A referrer who is a party to the deal does not earn on it
+  const referred = [payerId, counterpartyId]
+    .map((id) => parties.find((p) => p.id === id))
+    .find((p) =>
+      p?.referredById &&
+      p.referredAt && p.referredAt >= windowStart &&
+      p.referredById !== payerId && p.referredById !== counterpartyId,
+    );
+  if (!referred?.referredById) return;
+
+  const existing = await tx.transaction.findMany({
+    where: {
+      type: 'REFERRAL_REWARD',
+      ...(dealId ? { dealId } : { folderPlacementId: folderPlacementId ?? null }),
+    },
+    select: { metadata: true },
+  });
+  // Slot rewards carry their slot; the deal-level reward carries none
+  if (existing.some((r) => (r.metadata as { dealSlotId?: string } | null)?.dealSlotId === dealSlotId)) return;
+
+  const amount = fee.mul(program.sharePercent).div(100).toDecimalPlaces(9);
+  if (amount.isZero()) return;
+
+  const reward = await tx.transaction.create({
+    data: {
+      amount,
+      currency,
+      type: 'REFERRAL_REWARD',
+      status: 'CONFIRMED',
+      userId: referred.referredById,
+      dealId: dealId ?? null,
+      folderPlacementId: folderPlacementId ?? null,
+      metadata: {
+        referredUserId: referred.id,
+        fee: fee.toString(),
+        sharePercent: program.sharePercent,
+        ...(dealSlotId && { dealSlotId }),
+      },
+    },
+  });
+
+  await postJournalEntry(tx, {
+    type: 'REFERRAL_REWARD',
+    currency,
+    transactionId: reward.id,
+    ...(dealId && { dealId }),
+    ...(folderPlacementId && { folderPlacementId }),
+    movements: [
+      { debit: PLATFORM_FEES_ACCOUNT, credit: userAvailable(referred.referredById), amount },
+    ],
+  });
+}
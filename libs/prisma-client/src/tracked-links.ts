@@ -0,0 +1,99 @@
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+
+const CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+// Bare URL in post text; trailing punctuation belongs to the sentence
+const BARE_URL = /https?:\/\/[^\s<>"']+[^\s<>"'.,;:!?)]/g;
+const ANCHOR_HREF = /^(<a\s[^>]*href\s*=\s*)(["'])(.*?)\2/i;
+
+/** Random short link code, unambiguous when read aloud */
+export function generateLinkCode(): string {
+  const bytes = randomBytes(CODE_LENGTH);
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Rewrites the http(s) links of a post written in Telegram HTML into the
+ * deal's tracked short links. Anchor hrefs are replaced in place; bare URLs
+ * keep their visible text and are wrapped in an anchor. Text inside code
+ * and pre blocks is left alone, as are links already pointing at baseUrl.
+ * A URL gets one short link per deal, so reposting reuses it.
+ */
+export async function rewriteTrackedLinks(
+  client: Prisma.TransactionClient,
+  dealId: string,
+  html: string,
+  baseUrl: string,
+): Promise<string> {
+  const shortUrls = new Map<string, string>();
+  const shortUrl = async (rawUrl: string): Promise<string> => {
+    const targetUrl = decodeEntities(rawUrl);
+    let url = shortUrls.get(targetUrl);
+    if (!url) {
+      const link = await client.trackedLink.upsert({
+        where: { dealId_targetUrl: { dealId, targetUrl } },
+        create: { dealId, targetUrl, code: generateLinkCode() },
+        update: {},
+      });
+      url = `${baseUrl}/${link.code}`;
+      shortUrls.set(targetUrl, url);
+    }
+    return url;
+  };
+  const isTrackable = (url: string) => /^https?:\/\//i.test(url) && !url.startsWith(baseUrl);
+
+  let inAnchor = false;
+  let inCode = false;
+  const parts: string[] = [];
+
+  for (const token of html.split(/(<[^>]*>)/)) {
+    if (token.startsWith('<')) {
+      const tag = token.toLowerCase();
+      if (/^<a[\s>]/.test(tag)) {
+        inAnchor = true;
+        const href = ANCHOR_HREF.exec(token);
+        if (href?.[3] && isTrackable(href[3])) {
+          const url = await shortUrl(href[3]);
+          parts.push(token.replace(ANCHOR_HREF, `$1$2${url}$2`));
+          continue;
+        }
+      } else if (tag === '</a>') {
+        inAnchor = false;
+      } else if (/^<(code|pre)[\s>]/.test(tag)) {
+        inCode = true;
+      } else if (/^<\/(code|pre)>/.test(tag)) {
+        inCode = false;
+      }
+      parts.push(token);
+      continue;
+    }
+
+    if (inAnchor || inCode) {
+      parts.push(token);
+      continue;
+    }
+
+    let text = '';
+    let last = 0;
+    for (const match of token.matchAll(BARE_URL)) {
+      const url = match[0];
+      text += token.slice(last, match.index);
+      text += isTrackable(url) ? `<a href="${await shortUrl(url)}">${url}</a>` : url;
+      last = (match.index ?? 0) + url.length;
+    }
+    parts.push(text + token.slice(last));
+  }
+
+  return parts.join('');
+}
@@ -0,0 +1,57 @@
+import { Prisma, ViewsShortfallPolicy } from '@prisma/client';
+import { proRataShares, viewsGuaranteeOutcome } from './views-guarantee.js';
+
+const d = (value: string) => new Prisma.Decimal(value);
+const MIN_PERCENT = 30;
+
+const deal = (minViewsRequired: number | null, viewsShortfallPolicy: ViewsShortfallPolicy) => ({
+  minViewsRequired,
+  viewsShortfallPolicy,
+});
+
+describe('viewsGuaranteeOutcome', () => {
+  it('releases posts that met the target, deals without one and unreadable views', () => {
+    expect(viewsGuaranteeOutcome(deal(1000, 'DISPUTE'), 1000, MIN_PERCENT)).toEqual({ action: 'RELEASE' });
+    expect(viewsGuaranteeOutcome(deal(null, 'DISPUTE'), 10, MIN_PERCENT)).toEqual({ action: 'RELEASE' });
+    expect(viewsGuaranteeOutcome(deal(1000, 'DISPUTE'), null, MIN_PERCENT)).toEqual({ action: 'RELEASE' });
+    expect(viewsGuaranteeOutcome(deal(1000, 'PRO_RATA'), undefined, MIN_PERCENT)).toEqual({ action: 'RELEASE' });
+  });
+
+  it('applies the policy agreed for a shortfall', () => {
+    expect(viewsGuaranteeOutcome(deal(1000, 'RELEASE'), 100, MIN_PERCENT)).toEqual({ action: 'RELEASE' });
+    expect(viewsGuaranteeOutcome(deal(1000, 'DISPUTE'), 999, MIN_PERCENT)).toEqual({ action: 'DISPUTE' });
+    expect(viewsGuaranteeOutcome(deal(1000, 'PRO_RATA'), 600, MIN_PERCENT)).toEqual({
+      action: 'PRO_RATA',
+      ratio: d('0.6'),
+    });
+  });
+
+  it('disputes a pro-rata post below the minimum share instead of paying next to nothing', () => {
+    expect(viewsGuaranteeOutcome(deal(1000, 'PRO_RATA'), 299, MIN_PERCENT)).toEqual({ action: 'DISPUTE' });
+    expect(viewsGuaranteeOutcome(deal(1000, 'PRO_RATA'), 300, MIN_PERCENT)).toEqual({
+      action: 'PRO_RATA',
+      ratio: d('0.3'),
+    });
+  });
+});
+
+describe('proRataShares', () => {
+  it('pays out and charges the fee on the delivered share and refunds the rest', () => {
+    expect(proRataShares(d('10'), d('0.5'), d('0.6'))).toEqual({
+      payout: d('6'),
+      fee: d('0.3'),
+      refund: d('4.2'),
+    });
+  });
+
+  it('rounds the payout and fee down to nanotons and refunds exactly what is left', () => {
+    const amount = d('1');
+    const fee = d('0.05');
+    const { payout, fee: charged, refund } = proRataShares(amount, fee, d('2').div(3));
+
+    expect(payout).toEqual(d('0.666666666'));
+    expect(charged).toEqual(d('0.033333333'));
+    expect(payout.add(charged).add(refund)).toEqual(amount.add(fee));
+    expect(refund.decimalPlaces()).toBeLessThanOrEqual(9);
+  });
+});
@@ -0,0 +1,48 @@
+import { Prisma, ViewsShortfallPolicy } from '@prisma/client';
+
+export type ViewsGuaranteeOutcome =
+  | { action: 'RELEASE' }
+  | { action: 'PRO_RATA'; ratio: Prisma.Decimal }
+  | { action: 'DISPUTE' };
+
+/**
+ * How a post's escrow is settled given the views it collected. Posts that
+ * met minViewsRequired, deals without a target and posts whose views could
+ * not be read are released in full. A pro-rata post below minPercent of the
+ * target is disputed rather than paid out next to nothing.
+ */
+export function viewsGuaranteeOutcome(
+  deal: { minViewsRequired: number | null; viewsShortfallPolicy: ViewsShortfallPolicy },
+  views: number | null | undefined,
+  minPercent: number,
+): ViewsGuaranteeOutcome {
+  const target = deal.minViewsRequired;
+  if (!target || views == null || views >= target) {
+    return { action: 'RELEASE' };
+  }
+
+  switch (deal.viewsShortfallPolicy) {
+    case 'DISPUTE':
+      return { action: 'DISPUTE' };
+    case 'PRO_RATA':
+      return views * 100 < target * minPercent
+        ? { action: 'DISPUTE' }
+        : { action: 'PRO_RATA', ratio: new Prisma.Decimal(views).div(target) };
+    default:
+      return { action: 'RELEASE' };
+  }
+}
+
+/**
+ * Splits a post's escrowed amount and fee for a pro-rata release: the
+ * delivered share is paid out and charged the fee, the rest is refunded.
+ */
+export function proRataShares(
+  amount: Prisma.Decimal,
+  platformFee: Prisma.Decimal,
+  ratio: Prisma.Decimal,
+): { payout: Prisma.Decimal; fee: Prisma.Decimal; refund: Prisma.Decimal } {
+  const payout = amount.mul(ratio).toDecimalPlaces(9, Prisma.Decimal.ROUND_DOWN);
+  const fee = platformFee.mul(ratio).toDecimalPlaces(9, Prisma.Decimal.ROUND_DOWN);
+  return { payout, fee, refund: amount.add(platformFee).sub(payout).sub(fee) };
+}
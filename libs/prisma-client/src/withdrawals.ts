@@ -0,0 +1,68 @@
+import { Prisma, TransactionStatus } from '@prisma/client';
+import { postJournalEntry, userAvailable, HOT_WALLET_ACCOUNT } from './ledger.js';
+
+/**
+ * Withdrawals debited from the user that are not yet handed to the
+ * withdrawal processor and can still be cancelled
+ */
+export const UNSENT_WITHDRAWAL_STATUSES: TransactionStatus[] = [
+  'AWAITING_CONFIRMATION',
+  'AWAITING_REVIEW',
+];
+
+export interface CancelWithdrawalOptions {
+  reason: string;
+  /** Statuses the withdrawal may be cancelled from (default: all unsent) */
+  fromStatuses?: TransactionStatus[];
+  /** Merged into the transaction metadata, e.g. the reviewer */
+  metadata?: Prisma.JsonObject;
+}
+
+/**
+ * Cancels an unsent withdrawal and returns its amount to the user's
+ * available balance. Returns false if the withdrawal is not in one of
+ * `fromStatuses` (already confirmed, sent or cancelled).
+ */
+export async function cancelWithdrawal(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  { reason, fromStatuses = UNSENT_WITHDRAWAL_STATUSES, metadata }: CancelWithdrawalOptions,
+): Promise<boolean> {
+  const withdrawal = await tx.transaction.findUnique({
+    where: { id: transactionId },
+  });
+
+  if (!withdrawal || withdrawal.type !== 'WITHDRAWAL' || !fromStatuses.includes(withdrawal.status)) {
+    return false;
+  }
+
+  // Guarded by the status read above, so concurrent cancel/confirm calls apply once
+  const updated = await tx.transaction.updateMany({
+    where: { id: transactionId, status: withdrawal.status },
+    data: {
+      status: 'CANCELLED',
+      metadata: {
+        ...((withdrawal.metadata as Prisma.JsonObject | null) ?? {}),
+        ...metadata,
+        cancelReason: reason,
+        cancelledAt: new Date().toISOString(),
+      },
+    },
+  });
+
+  if (updated.count === 0) {
+    return false;
+  }
+
+  await postJournalEntry(tx, {
+    type: 'WITHDRAWAL',
+    currency: withdrawal.currency,
+    description: 'Cancelled withdrawal refund',
+    transactionId,
+    movements: [
+      { debit: HOT_WALLET_ACCOUNT, credit: userAvailable(withdrawal.userId), amount: withdrawal.amount },
+    ],
+  });
+
+  return true;
+}
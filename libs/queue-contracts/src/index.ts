@@ -1,6 +1,5 @@
 // Queue names
 export const QUEUE_NAMES = {
-  DEPOSIT_WATCHER: 'deposit-watcher',
   WITHDRAWAL_PROCESSOR: 'withdrawal-processor',
   SCHEDULER: 'scheduler',
   CHANNEL_STATS: 'channel-stats',
@@ -12,16 +11,6 @@ export const QUEUE_NAMES = {
 
 export type QueueName = (typeof QUEUE_NAMES)[keyof typeof QUEUE_NAMES];
 
-// Job types for deposit watcher
-export interface DepositWatcherJobData {
-  depositAddressId: string;
-  userId: string;
-  memo: string;
-  expectedAmount: string;
-  createdAt: number;
-  expiresAt: number;
-}
-
 export interface DepositConfirmedJobData {
   depositAddressId: string;
   userId: string;
@@ -36,6 +25,7 @@ export interface WithdrawalJobData {
   userId: string;
   toAddress: string;
   amount: string;
+  currency?: 'TON' | 'USDT'; // default TON
 }
 
 export interface WithdrawalCompletedJobData {
@@ -47,7 +37,7 @@ export interface WithdrawalCompletedJobData {
 
 // Job types for scheduler
 export interface SchedulerJobData {
-  type: 'CHECK_EXPIRED_DEALS' | 'CHECK_VERIFICATION_DEADLINES' | 'UPDATE_CHANNEL_STATS' | 'CHECK_SCHEDULED_POSTS' | 'CHECK_APPEAL_DEADLINES';
+  type: 'CHECK_EXPIRED_DEALS' | 'CHECK_VERIFICATION_DEADLINES' | 'UPDATE_CHANNEL_STATS' | 'CHECK_SCHEDULED_POSTS' | 'CHECK_APPEAL_DEADLINES' | 'RECONCILE_LEDGER' | 'RECONCILE_HOT_WALLET' | 'PURGE_IDEMPOTENCY_KEYS' | 'PROCESS_WITHDRAWAL_REQUESTS' | 'SCAN_DEPOSITS' | 'PROCESS_SUSPENSE_REFUNDS' | 'RECORD_EXCHANGE_RATES' | 'SCHEDULE_MONTHLY_STATEMENTS' | 'GENERATE_STATEMENTS' | 'CHECK_CONTENT_DEADLINES' | 'MATERIALIZE_RECURRING_DEALS' | 'SEND_SAVED_SEARCH_ALERTS';
 }
 
 export interface DealExpiryCheckJobData {
@@ -130,11 +120,20 @@ export type NotificationType =
   | 'DEAL_CANCELLED'
   | 'DEAL_POSTED'
   | 'DEAL_AUTO_RELEASED'
+  | 'DEAL_PARTIALLY_RELEASED'
   | 'DEAL_DISPUTED'
   | 'DEAL_RESOLVED_RELEASE'
   | 'DEAL_RESOLVED_REFUND'
   | 'DEAL_EXPIRED'
+  | 'DEAL_COUNTER_OFFER'
+  | 'DEAL_OFFER_ACCEPTED'
+  | 'RECURRING_DEAL_REQUESTED'
+  | 'RECURRING_DEAL_APPROVED'
+  | 'RECURRING_DEAL_PAUSED'
+  | 'RECURRING_DEAL_CANCELLED'
+  | 'RECURRING_DEAL_FAILED'
   | 'CHANNEL_APPROVED'
+  | 'SAVED_SEARCH_MATCHES'
   | 'CHANNEL_REJECTED'
   | 'PLACEMENT_REQUESTED'
   | 'PLACEMENT_APPROVED'
@@ -147,9 +146,18 @@ export type NotificationType =
   | 'CONTENT_SUBMITTED'
   | 'CONTENT_APPROVED'
   | 'CONTENT_REJECTED'
+  | 'CONTENT_SUBMISSION_REMINDER'
+  | 'CONTENT_REVIEW_REMINDER'
+  | 'CONTENT_DEADLINE_MISSED'
+  | 'CONTENT_AUTO_APPROVED'
   | 'DEAL_MESSAGE'
   | 'CAMPAIGN_STATUS_CHANGED'
-  | 'CAMPAIGN_BUDGET_LOW';
+  | 'CAMPAIGN_BUDGET_LOW'
+  | 'RECONCILIATION_MISMATCH'
+  | 'WITHDRAWAL_CONFIRMATION'
+  | 'WITHDRAWAL_REJECTED'
+  | 'WITHDRAWAL_EXPIRED'
+  | 'WALLET_CHANGED';
 
 export interface NotificationJobData {
   type: NotificationType;
@@ -160,6 +168,7 @@ export interface NotificationJobData {
     channelTitle?: string;
     folderTitle?: string;
     amount?: string;
+    currency?: string; // currency of amount, default TON
     reason?: string;
     miniAppPath?: string;
     appealId?: string;
@@ -167,6 +176,19 @@ export interface NotificationJobData {
     campaignTitle?: string;
     newStatus?: string;
     budgetPercentRemaining?: number;
+    hotWalletBalance?: string;
+    expectedBalance?: string;
+    transactionId?: string;
+    toAddress?: string;
+    lockedUntil?: string; // ISO date
+    deadline?: string; // ISO date
+    refundAmount?: string; // same currency as amount
+    views?: number;
+    minViews?: number;
+    savedSearchName?: string;
+    // Digest of a saved search: first matches, previousPrice set on a price drop
+    matches?: Array<{ channelTitle: string; price: string; previousPrice?: string }>;
+    matchCount?: number;
   };
 }
 
@@ -1,16 +1,39 @@
-// Platform fee percentage (e.g., 5%)
+// Platform fee percentage (e.g., 5%); default until a fee schedule is saved
 export const PLATFORM_FEE_PERCENT = 5;
+// SystemConfig key holding the FeeSchedule
+export const FEE_SCHEDULE_CONFIG_KEY = 'fee_schedule';
+// Fiat currency statements value transactions in
+export const STATEMENT_FIAT_CURRENCY = 'USD';
 
 // Minimum amounts in TON
 export const MIN_DEPOSIT_TON = '1';
 export const MIN_WITHDRAWAL_TON = '0.5';
 export const MIN_DEAL_AMOUNT_TON = '1';
 
+// Minimum amounts in USDT
+export const MIN_DEPOSIT_USDT = '1';
+export const MIN_WITHDRAWAL_USDT = '1';
+
 // Network fees
 export const ESTIMATED_NETWORK_FEE_TON = '0.05';
+// TON attached to a jetton transfer to pay for forwarding (excess is returned)
+export const JETTON_TRANSFER_TON = '0.05';
 
 // Withdrawal limits
 export const DAILY_WITHDRAWAL_LIMIT_TON = '1000';
+export const DAILY_WITHDRAWAL_LIMIT_USDT = '5000';
+
+// Withdrawal security (lock and thresholds can be overridden via env)
+export const WITHDRAWAL_CONFIRMATION_TTL_MS = 15 * 60 * 1000; // Confirm in the bot within 15 minutes
+export const WITHDRAWAL_LOCK_HOURS = 24; // After a wallet change or allowlist relaxation
+export const WITHDRAWAL_REVIEW_THRESHOLD_TON = '500'; // Larger withdrawals need admin approval
+export const WITHDRAWAL_REVIEW_THRESHOLD_USDT = '2500';
+// Bot callback data prefixes, followed by ":<transactionId>"
+export const WITHDRAWAL_CONFIRM_CALLBACK = 'wd_confirm';
+export const WITHDRAWAL_CANCEL_CALLBACK = 'wd_cancel';
+
+// Jetton decimals
+export const USDT_DECIMALS = 6;
 
 // Time limits in milliseconds
 export const DEPOSIT_EXPIRY_MS = 30 * 60 * 1000; // 30 minutes
@@ -19,6 +42,33 @@ export const CONTENT_APPROVAL_DEADLINE_MS = 12 * 60 * 60 * 1000; // 12 hours
 export const POST_VERIFICATION_DEADLINE_MS = 48 * 60 * 60 * 1000; // 48 hours
 export const DEAL_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
+// Content deadlines: a deal can override the defaults above, in whole hours
+export const MIN_CONTENT_DEADLINE_HOURS = 1;
+export const MAX_CONTENT_DEADLINE_HOURS = 7 * 24;
+export const CONTENT_DEADLINE_REMINDER_MS = 3 * 60 * 60 * 1000; // Reminder 3 hours before the deadline
+
+// Ad post metrics: sampled hourly the first day after posting, then daily
+export const POST_METRICS_HOURLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const POST_METRICS_HOURLY_INTERVAL_MS = 60 * 60 * 1000;
+export const POST_METRICS_DAILY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+export const POST_METRICS_TRACKING_DAYS = 7;
+
+// Conversion postbacks signed longer ago than this are rejected as replays
+export const POSTBACK_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Multi-slot deals: several posts under one deal, each paid out on its own
+export const MIN_DEAL_SLOTS = 2;
+export const MAX_DEAL_SLOTS = 10;
+
+// Cart checkout: channels bought with one creative in a single request
+export const MAX_CHECKOUT_ITEMS = 50;
+
+// Recurring deals: each period's deal is created and funded this long before its post time
+export const RECURRING_DEAL_LEAD_MS = 24 * 60 * 60 * 1000;
+export const MIN_RECURRING_INTERVAL_DAYS = 1;
+export const MAX_RECURRING_INTERVAL_DAYS = 31;
+export const MAX_RECURRING_OCCURRENCES = 52;
+
 // JWT
 export const JWT_ACCESS_EXPIRY = '15m';
 export const JWT_REFRESH_EXPIRY = '7d';
@@ -36,6 +86,22 @@ export const MAX_PAGE_SIZE = 100;
 export const MAX_CHANNELS_PER_USER = 50;
 export const MIN_SUBSCRIBERS_FOR_LISTING = 100;
 
+// Channel search facets: bucket boundaries (lower bound inclusive)
+export const CHANNEL_PRICE_BUCKETS_TON = ['5', '20', '50', '100'];
+export const CHANNEL_SUBSCRIBER_BUCKETS = [1000, 10000, 50000, 100000];
+
+// Saved searches: alerts about newly listed or cheaper matching channels
+export const MAX_SAVED_SEARCHES_PER_USER = 20;
+export const SAVED_SEARCH_DIGEST_MAX_CHANNELS = 10; // Listed in one digest message
+
+// Channel comparison
+export const MAX_COMPARE_CHANNELS = 5;
+export const COMPARE_AUDIENCE_KEYS_LIMIT = 8; // Countries / languages aligned across compared channels
+
+// Price recommendations: CPM benchmark against channels of the same size bucket
+export const PRICING_MIN_PEERS = 5; // With fewer peers the benchmark drops categories, then language
+export const PRICING_MAX_PEERS = 500; // Most recently updated peers taken into the benchmark
+
 // Content limits
 export const MAX_CONTENT_TEXT_LENGTH = 4096;
 export const MAX_MEDIA_URLS = 10;
@@ -44,6 +110,8 @@ export const MAX_MEDIA_SIZE_MB = 50;
 // Verification
 export const MIN_POST_DURATION_HOURS = 24;
 export const MIN_VIEWS_PERCENTAGE = 50; // Minimum percentage of avg views required
+// Below this share of minViewsRequired a pro-rata deal is disputed instead of paid out
+export const PRO_RATA_MIN_VIEWS_PERCENT = MIN_VIEWS_PERCENTAGE;
 
 // Appeal windows
 export const APPEAL_WINDOW_DISPUTE_MS = 48 * 60 * 60 * 1000; // 48 hours for deal disputes
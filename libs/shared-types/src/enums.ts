@@ -46,6 +46,14 @@ export enum DealStatus {
   /** @deprecated use RELEASED */ VERIFIED = 'VERIFIED',
 }
 
+export enum RecurringDealStatus {
+  PENDING = 'PENDING',       // Series awaits the channel owner's approval
+  ACTIVE = 'ACTIVE',         // A deal is created for each period
+  PAUSED = 'PAUSED',         // Paused by either side, or for lack of balance
+  CANCELLED = 'CANCELLED',
+  COMPLETED = 'COMPLETED',   // Every occurrence has been created
+}
+
 export enum TransactionType {
   DEPOSIT = 'DEPOSIT',
   WITHDRAWAL = 'WITHDRAWAL',
@@ -57,12 +65,74 @@ export enum TransactionType {
   BOOST_FOLDER = 'BOOST_FOLDER',
   FOLDER_PLACEMENT = 'FOLDER_PLACEMENT',
   APPEAL_REVERSAL = 'APPEAL_REVERSAL',
+  REFERRAL_REWARD = 'REFERRAL_REWARD',
+}
+
+export enum Currency {
+  TON = 'TON',
+  USDT = 'USDT',   // USDT jetton on TON
+}
+
+export enum EscrowMode {
+  CUSTODIAL = 'CUSTODIAL',   // Funds stay in the platform hot wallet
+  CONTRACT = 'CONTRACT',     // Funds are held in a per-deal escrow contract
+}
+
+export enum EscrowContractStatus {
+  DEPLOYING = 'DEPLOYING',
+  FUNDED = 'FUNDED',
+  RELEASING = 'RELEASING',
+  REFUNDING = 'REFUNDING',
+  RELEASED = 'RELEASED',
+  REFUNDED = 'REFUNDED',
+}
+
+export enum DealSlotStatus {
+  SCHEDULED = 'SCHEDULED',   // Waiting for its post time (or for the deal's content approval)
+  POSTED = 'POSTED',         // Posted, funds held until the verification deadline
+  RELEASED = 'RELEASED',     // Verified, its share paid out to the channel owner
+  DISPUTED = 'DISPUTED',     // Held by a dispute; settled with the deal
+}
+
+export enum DealOfferStatus {
+  PENDING = 'PENDING',       // Waiting for the other party
+  ACCEPTED = 'ACCEPTED',     // Terms applied to the deal, which was approved with them
+  COUNTERED = 'COUNTERED',   // Answered with another offer
+  CLOSED = 'CLOSED',         // The deal moved on without it
 }
 
 export enum TransactionStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
   FAILED = 'FAILED',
+  AWAITING_CONFIRMATION = 'AWAITING_CONFIRMATION',
+  AWAITING_REVIEW = 'AWAITING_REVIEW',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum SuspenseReason {
+  NO_MEMO = 'NO_MEMO',
+  UNKNOWN_MEMO = 'UNKNOWN_MEMO',
+  CURRENCY_MISMATCH = 'CURRENCY_MISMATCH',
+}
+
+export enum SuspenseStatus {
+  PENDING = 'PENDING',             // Waiting for a moderator
+  ASSIGNED = 'ASSIGNED',           // Credited to a user
+  REFUNDING = 'REFUNDING',         // Refund to the sender requested
+  REFUNDED = 'REFUNDED',
+  REFUND_REVIEW = 'REFUND_REVIEW', // Refund could not be confirmed, check manually
+}
+
+export enum DepositAmountMismatch {
+  OVERPAID = 'OVERPAID',
+  UNDERPAID = 'UNDERPAID',
+}
+
+export enum StatementStatus {
+  PENDING = 'PENDING',
+  READY = 'READY',
+  FAILED = 'FAILED',
 }
 
 export enum ContentType {
@@ -77,9 +147,16 @@ export enum DisputeReason {
   WRONG_CONTENT = 'WRONG_CONTENT',
   EARLY_DELETION = 'EARLY_DELETION',
   FAKE_STATISTICS = 'FAKE_STATISTICS',
+  LOW_VIEWS = 'LOW_VIEWS',
   OTHER = 'OTHER',
 }
 
+export enum ViewsShortfallPolicy {
+  RELEASE = 'RELEASE',
+  PRO_RATA = 'PRO_RATA',
+  DISPUTE = 'DISPUTE',
+}
+
 export enum FolderStatus {
   PENDING = 'PENDING',
   ACTIVE = 'ACTIVE',
@@ -7,8 +7,10 @@ import {
   TransactionStatus,
   ContentType,
   DisputeReason,
+  ViewsShortfallPolicy,
   FolderStatus,
   FolderPlacementStatus,
+  Currency,
 } from './enums.js';
 
 export interface IUser {
@@ -60,6 +62,7 @@ export interface IDeal {
   id: string;
   amount: string;
   platformFee: string;
+  feeBreakdown?: FeeBreakdown;
   status: DealStatus;
   contentType: ContentType;
   contentText?: string;
@@ -69,6 +72,7 @@ export interface IDeal {
   scheduledPostTime?: Date;
   actualPostTime?: Date;
   minViewsRequired?: number;
+  viewsShortfallPolicy: ViewsShortfallPolicy;
   viewsAtVerification?: number;
   verificationDeadline?: Date;
   disputeReason?: DisputeReason;
@@ -150,6 +154,7 @@ export interface IFolderPlacement {
   folderOwnerId: string;
   amount: string;
   platformFee: string;
+  feeBreakdown?: FeeBreakdown;
   status: FolderPlacementStatus;
   rejectionReason?: string;
   createdAt: Date;
@@ -158,3 +163,61 @@ export interface IFolderPlacement {
   escrowReleaseAt?: Date;
   completedAt?: Date;
 }
+
+// Fee types are stored as JSON columns. They are type aliases, not interfaces,
+// so that they are assignable to Prisma's JSON input types without a cast.
+
+// Platform fee rates, stored in SystemConfig under FEE_SCHEDULE_CONFIG_KEY
+export type FeeSchedule = {
+  defaultPercent: number;
+  folderPlacementPercent: number;
+  categoryPercents: Record<string, number>;   // Channel category -> deal fee rate
+  ownerTiers: FeeTier[];                      // Lower rates for channel owners with more completed deals
+};
+
+export type FeeTier = {
+  minCompletedDeals: number;
+  feePercent: number;
+};
+
+// How the platform fee of a deal or folder placement was computed
+export type FeeBreakdown = {
+  basePercent: number;           // Default, placement or category rate
+  category?: string;             // Category whose rate was used
+  tierMinCompletedDeals?: number; // Owner tier applied, if it lowered the rate
+  tierPercent?: number;
+  promoCode?: string;
+  promoDiscountPercent?: number; // Share of the fee waived by the promo code
+  feePercent: number;            // Effective rate
+  fee: string;
+};
+
+// How a monthly statement groups the ledger movements of a user
+export type StatementCategory =
+  | 'DEPOSIT'
+  | 'INCOME'      // Deal payouts and folder placement earnings
+  | 'SPENT'       // Deal and folder placement payments, without the fee
+  | 'FEE'
+  | 'BOOST'
+  | 'WITHDRAWAL'
+  | 'REFERRAL'
+  | 'OTHER';
+
+// Signed total of a category: inflows positive, outflows negative
+export interface StatementTotal {
+  amount: string;
+  fiatAmount?: string;   // Missing if a movement had no recorded rate
+}
+
+export interface StatementCurrencySummary {
+  currency: Currency;
+  openingBalance: string;
+  closingBalance: string;
+  totals: Partial<Record<StatementCategory, StatementTotal>>;
+}
+
+export interface StatementSummary {
+  fiatCurrency: string;
+  currencies: StatementCurrencySummary[];
+  lineCount: number;
+}
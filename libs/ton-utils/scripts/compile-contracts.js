@@ -0,0 +1,56 @@
+/**
+ * Compiles contracts/deal_escrow.fc and writes the code cell to
+ * src/deal-escrow.code.ts, which deal-escrow.contract.ts loads.
+ * Run after changing the contract: pnpm --filter @tam/ton-utils compile:contracts
+ *
+ * The code is part of every escrow address, so a changed contract gives new
+ * deals new addresses; contracts already deployed keep their old code.
+ */
+
+const { readFileSync, writeFileSync } = require('fs');
+const path = require('path');
+const { compileFunc } = require('@ton-community/func-js');
+
+const CONTRACTS_DIR = path.join(__dirname, '..', 'contracts');
+const OUTPUT = path.join(__dirname, '..', 'src', 'deal-escrow.code.ts');
+
+async function compileDealEscrow() {
+  const result = await compileFunc({
+    targets: ['deal_escrow.fc'],
+    sources: (file) => readFileSync(path.join(CONTRACTS_DIR, file), 'utf8'),
+  });
+
+  if (result.status === 'error') {
+    throw new Error(result.message);
+  }
+
+  return result.codeBoc;
+}
+
+async function main() {
+  const codeBoc = await compileDealEscrow();
+
+  writeFileSync(
+    OUTPUT,
+    [
+      '// Generated by scripts/compile-contracts.js from contracts/deal_escrow.fc, do not edit',
+      '',
+      '/**',
+      ' * Compiled deal escrow contract code cell, base64 BOC',
+      ' */',
+      `export const DEAL_ESCROW_CODE_BOC = '${codeBoc}';`,
+      '',
+    ].join('\n'),
+  );
+
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+module.exports = { compileDealEscrow };
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,6 @@
+// Generated by scripts/compile-contracts.js from contracts/deal_escrow.fc, do not edit
+
+/**
+ * Compiled deal escrow contract code cell, base64 BOC
+ */
+export const DEAL_ESCROW_CODE_BOC = 'te6ccgEBCAEA6wABFP8A9KQT9LzyyAsBAgEgAgMCAUgEBQL48oMI1xgg0//TH9MfMPgju/JjhA8hghBSRUxTuiKCEFJFRkS6sfL07UTQ0//T//oA+gDUMND6QPpA+kAwUIa68qQH+QFAg/kQ8qX4J28iMFMWoL7ypvgAAoIQUkVMU7qOGWwSA6BxcIAQyMsFUATPFlj6AhLLaskB+wDjDQYHAATQMAAzoYWf2omhp/+n//QB9AGoYaH0gfSB9IBg2CsAMDNsE3FwgBDIywVQBM8WWPoCEstqyQH7AAAwcIEAoHCAEMjLBVAEzxZY+gISy2rJAfsA';
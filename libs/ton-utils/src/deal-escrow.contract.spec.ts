@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { compileFunc } from '@ton-community/func-js';
+import { Blockchain, SandboxContract, SendMessageResult, TreasuryContract } from '@ton/sandbox';
+import { Address, Cell, toNano } from '@ton/core';
+import { KeyPair, keyPairFromSeed } from '@ton/crypto';
+import { DealEscrowContract, dealEscrowCode, dealEscrowId } from './deal-escrow.contract.js';
+
+const DEAL_ID = 'deal-1';
+const AMOUNT = toNano('10');
+const FEE = toNano('0.5');
+const FUNDING = AMOUNT + FEE + toNano('0.05');
+
+// TON received by `to` from the escrow contract in a settlement
+function paidTo(result: SendMessageResult, from: Address, to: Address): bigint {
+  return result.transactions
+    .map((tx) => tx.inMessage)
+    .filter((m) => m?.info.type === 'internal' && m.info.src.equals(from) && m.info.dest.equals(to))
+    .reduce((sum, m) => sum + (m!.info.type === 'internal' ? m!.info.value.coins : 0n), 0n);
+}
+
+describe('deal_escrow.fc', () => {
+  it('is bundled as compiled from contracts/deal_escrow.fc', async () => {
+    const contracts = path.join(__dirname, '..', 'contracts');
+    const result = await compileFunc({
+      targets: ['deal_escrow.fc'],
+      sources: (file) => readFileSync(path.join(contracts, file), 'utf8'),
+    });
+
+    // Run `pnpm --filter @tam/ton-utils compile:contracts` after changing the contract
+    if (result.status !== 'ok') {
+      throw new Error(result.message);
+    }
+    expect(Cell.fromBase64(result.codeBoc).hash().equals(dealEscrowCode().hash())).toBe(true);
+  });
+
+  describe('DealEscrowContract', () => {
+    let blockchain: Blockchain;
+    let oracle: KeyPair;
+    let platform: SandboxContract<TreasuryContract>;
+    let advertiser: SandboxContract<TreasuryContract>;
+    let channelOwner: SandboxContract<TreasuryContract>;
+    let escrow: SandboxContract<DealEscrowContract>;
+
+    beforeEach(async () => {
+      blockchain = await Blockchain.create();
+      oracle = keyPairFromSeed(Buffer.alloc(32, 7));
+      platform = await blockchain.treasury('platform');
+      advertiser = await blockchain.treasury('advertiser');
+      channelOwner = await blockchain.treasury('channel-owner');
+
+      escrow = blockchain.openContract(
+        DealEscrowContract.createFromConfig(
+          {
+            dealId: DEAL_ID,
+            oraclePublicKey: oracle.publicKey,
+            advertiser: advertiser.address,
+            channelOwner: channelOwner.address,
+            platform: platform.address,
+            amount: AMOUNT,
+            fee: FEE,
+          },
+          dealEscrowCode(),
+        ),
+      );
+
+      await escrow.sendDeploy(platform.getSender(), FUNDING);
+    });
+
+    it('deploys funded with the deal baked into its data', async () => {
+      const contract = await blockchain.getContract(escrow.address);
+      expect(contract.accountState?.type).toBe('active');
+      expect(contract.balance).toBeGreaterThanOrEqual(AMOUNT + FEE);
+
+      const data = await escrow.getEscrowData();
+      expect(data.dealId).toBe(dealEscrowId(DEAL_ID));
+      expect(data.amount).toBe(AMOUNT);
+      expect(data.fee).toBe(FEE);
+      expect(data.advertiser.equals(advertiser.address)).toBe(true);
+      expect(data.channelOwner.equals(channelOwner.address)).toBe(true);
+      expect(data.platform.equals(platform.address)).toBe(true);
+    });
+
+    it('releases the amount to the channel owner and the rest to the platform', async () => {
+      const result = await escrow.sendSettlement(DEAL_ID, 'RELEASE', oracle.secretKey);
+
+      expect(paidTo(result, escrow.address, channelOwner.address)).toBe(AMOUNT);
+      expect(paidTo(result, escrow.address, platform.address)).toBeGreaterThan(FEE);
+      expect(paidTo(result, escrow.address, advertiser.address)).toBe(0n);
+      expect((await blockchain.getContract(escrow.address)).accountState?.type).not.toBe('active');
+    });
+
+    it('refunds the amount and the fee to the advertiser', async () => {
+      const result = await escrow.sendSettlement(DEAL_ID, 'REFUND', oracle.secretKey);
+
+      expect(paidTo(result, escrow.address, advertiser.address)).toBe(AMOUNT + FEE);
+      expect(paidTo(result, escrow.address, channelOwner.address)).toBe(0n);
+      expect((await blockchain.getContract(escrow.address)).accountState?.type).not.toBe('active');
+    });
+
+    it('rejects a settlement not signed by the oracle', async () => {
+      const other = keyPairFromSeed(Buffer.alloc(32, 8));
+
+      await expect(escrow.sendSettlement(DEAL_ID, 'RELEASE', other.secretKey)).rejects.toThrow();
+
+      const contract = await blockchain.getContract(escrow.address);
+      expect(contract.accountState?.type).toBe('active');
+      expect(contract.balance).toBeGreaterThanOrEqual(AMOUNT + FEE);
+    });
+
+    it('rejects a settlement signed for another deal', async () => {
+      await expect(escrow.sendSettlement('deal-2', 'REFUND', oracle.secretKey)).rejects.toThrow();
+
+      expect((await blockchain.getContract(escrow.address)).accountState?.type).toBe('active');
+    });
+  });
+});
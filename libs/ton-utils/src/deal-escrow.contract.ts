@@ -0,0 +1,251 @@
+import {
+  Address,
+  Cell,
+  Contract,
+  ContractProvider,
+  Sender,
+  SendMode,
+  beginCell,
+  contractAddress,
+  toNano,
+} from '@ton/ton';
+import { sign, mnemonicToPrivateKey, KeyPair } from '@ton/crypto';
+import { createHash } from 'crypto';
+import { DEAL_ESCROW_CODE_BOC } from './deal-escrow.code.js';
+
+/**
+ * Settlement opcodes understood by contracts/deal_escrow.fc
+ */
+export const DEAL_ESCROW_OP = {
+  RELEASE: 0x52454c53,
+  REFUND: 0x52454644,
+} as const;
+
+export type DealEscrowAction = keyof typeof DEAL_ESCROW_OP;
+
+/**
+ * TON sent on top of amount + fee when funding a contract. Pays for storage
+ * and the settlement's gas; the unspent part is returned to the platform.
+ */
+export const DEAL_ESCROW_GAS_RESERVE = '0.05';
+
+// Signed settlement messages are rejected by the contract after this long
+const SETTLEMENT_TTL_SECONDS = 5 * 60;
+
+export interface DealEscrowConfig {
+  dealId: string;
+  oraclePublicKey: Buffer;
+  advertiser: Address;
+  channelOwner: Address;
+  platform: Address;
+  /** Paid to the channel owner on release (nanotons) */
+  amount: bigint;
+  /** Paid to the platform on release, refunded with the amount otherwise (nanotons) */
+  fee: bigint;
+}
+
+export interface DealEscrowData {
+  dealId: bigint;
+  amount: bigint;
+  fee: bigint;
+  advertiser: Address;
+  channelOwner: Address;
+  platform: Address;
+}
+
+/**
+ * Code cell of contracts/deal_escrow.fc, compiled by scripts/compile-contracts.js
+ */
+export function dealEscrowCode(): Cell {
+  return Cell.fromBase64(DEAL_ESCROW_CODE_BOC);
+}
+
+/**
+ * On-chain deal id: SHA-256 of the database id. Part of the contract data
+ * (so every deal gets its own address) and of every signed settlement.
+ */
+export function dealEscrowId(dealId: string): bigint {
+  return BigInt('0x' + createHash('sha256').update(dealId).digest('hex'));
+}
+
+/**
+ * Escrow contract addresses are stored in this form (bounceable, test-only
+ * on testnet); format any other address the same way to look one up.
+ */
+export function formatDealEscrowAddress(address: Address | string, network: 'mainnet' | 'testnet'): string {
+  return (typeof address === 'string' ? Address.parse(address) : address).toString({
+    bounceable: true,
+    testOnly: network === 'testnet',
+  });
+}
+
+export function dealEscrowConfigToCell(config: DealEscrowConfig): Cell {
+  return beginCell()
+    .storeUint(dealEscrowId(config.dealId), 256)
+    .storeBuffer(config.oraclePublicKey, 32)
+    .storeCoins(config.amount)
+    .storeCoins(config.fee)
+    .storeRef(
+      beginCell()
+        .storeAddress(config.advertiser)
+        .storeAddress(config.channelOwner)
+        .storeAddress(config.platform)
+        .endCell(),
+    )
+    .endCell();
+}
+
+/**
+ * Builds an oracle-signed settlement external message body
+ */
+export function buildDealEscrowSettlement(
+  dealId: string,
+  action: DealEscrowAction,
+  secretKey: Buffer,
+  validUntil: number = Math.floor(Date.now() / 1000) + SETTLEMENT_TTL_SECONDS,
+): Cell {
+  const payload = beginCell()
+    .storeUint(dealEscrowId(dealId), 256)
+    .storeUint(DEAL_ESCROW_OP[action], 32)
+    .storeUint(validUntil, 32)
+    .endCell();
+
+  return beginCell()
+    .storeBuffer(sign(payload.hash(), secretKey))
+    .storeSlice(payload.beginParse())
+    .endCell();
+}
+
+/**
+ * Wrapper for contracts/deal_escrow.fc. Implements the @ton/core Contract
+ * interface, so it can be opened both by TonClient and by a sandbox
+ * blockchain emulator.
+ */
+export class DealEscrowContract implements Contract {
+  constructor(
+    readonly address: Address,
+    readonly init?: { code: Cell; data: Cell },
+  ) {}
+
+  static createFromAddress(address: Address): DealEscrowContract {
+    return new DealEscrowContract(address);
+  }
+
+  static createFromConfig(config: DealEscrowConfig, code: Cell, workchain = 0): DealEscrowContract {
+    const data = dealEscrowConfigToCell(config);
+    const init = { code, data };
+    return new DealEscrowContract(contractAddress(workchain, init), init);
+  }
+
+  async sendDeploy(provider: ContractProvider, via: Sender, value: bigint): Promise<void> {
+    await provider.internal(via, {
+      value,
+      sendMode: SendMode.PAY_GAS_SEPARATELY,
+      body: beginCell().endCell(),
+    });
+  }
+
+  async sendSettlement(
+    provider: ContractProvider,
+    dealId: string,
+    action: DealEscrowAction,
+    secretKey: Buffer,
+    validUntil?: number,
+  ): Promise<void> {
+    await provider.external(buildDealEscrowSettlement(dealId, action, secretKey, validUntil));
+  }
+
+  async getEscrowData(provider: ContractProvider): Promise<DealEscrowData> {
+    const { stack } = await provider.get('get_escrow_data', []);
+    return {
+      dealId: stack.readBigNumber(),
+      amount: stack.readBigNumber(),
+      fee: stack.readBigNumber(),
+      advertiser: stack.readAddress(),
+      channelOwner: stack.readAddress(),
+      platform: stack.readAddress(),
+    };
+  }
+}
+
+export interface DealEscrowOracleConfig {
+  network: 'mainnet' | 'testnet';
+  /** Code cell as base64 BOC; defaults to the build of contracts/deal_escrow.fc */
+  code?: string;
+  /** Oracle key mnemonic; the public key is baked into every contract */
+  mnemonic: string;
+}
+
+/**
+ * Deal parties and amounts as stored on the Deal (wallet addresses in any
+ * format, amounts in TON)
+ */
+export interface DealEscrowParams {
+  dealId: string;
+  advertiserWallet: string;
+  channelOwnerWallet: string;
+  platformWallet: string;
+  amount: string;
+  fee: string;
+}
+
+/**
+ * Holds the escrow contract code and the platform oracle key. Derives the
+ * contract for a deal and signs its settlement messages.
+ */
+export class DealEscrowOracle {
+  private code: Cell;
+  private keyPair: KeyPair | null = null;
+  private network: 'mainnet' | 'testnet';
+
+  // Cleared after initialize(), like the hot wallet mnemonic
+  private _tempMnemonic: string | null;
+
+  constructor(config: DealEscrowOracleConfig) {
+    this.network = config.network;
+    this.code = Cell.fromBase64(config.code ?? DEAL_ESCROW_CODE_BOC);
+    this._tempMnemonic = config.mnemonic;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.keyPair) {
+      return;
+    }
+    if (!this._tempMnemonic) {
+      throw new Error('Oracle mnemonic not available');
+    }
+
+    this.keyPair = await mnemonicToPrivateKey(this._tempMnemonic.split(' '));
+    this._tempMnemonic = null;
+  }
+
+  getContract(params: DealEscrowParams): DealEscrowContract {
+    return DealEscrowContract.createFromConfig(
+      {
+        dealId: params.dealId,
+        oraclePublicKey: this.getKeyPair().publicKey,
+        advertiser: Address.parse(params.advertiserWallet),
+        channelOwner: Address.parse(params.channelOwnerWallet),
+        platform: Address.parse(params.platformWallet),
+        amount: toNano(params.amount),
+        fee: toNano(params.fee),
+      },
+      this.code,
+    );
+  }
+
+  getAddressString(params: DealEscrowParams): string {
+    return formatDealEscrowAddress(this.getContract(params).address, this.network);
+  }
+
+  buildSettlement(dealId: string, action: DealEscrowAction): Cell {
+    return buildDealEscrowSettlement(dealId, action, this.getKeyPair().secretKey);
+  }
+
+  private getKeyPair(): KeyPair {
+    if (!this.keyPair) {
+      throw new Error('Oracle not initialized');
+    }
+    return this.keyPair;
+  }
+}
@@ -1,3 +1,4 @@
 export * from './wallet.service.js';
 export * from './memo-generator.js';
 export * from './ton-proof.service.js';
+export * from './deal-escrow.contract.js';
@@ -157,9 +157,23 @@ export async function verifyTonProof(
     return { valid: false, error: 'Invalid signature' };
   }
 
-  // Return normalized non-bounceable address
-  const normalizedAddress = address.toString({ bounceable: false, testOnly: false });
-  return { valid: true, address: normalizedAddress };
+  return { valid: true, address: toWalletAddressString(address) };
+}
+
+/**
+ * Normalizes a wallet address in any format to the non-bounceable form
+ * stored in User.walletAddress. Returns null for an invalid address.
+ */
+export function normalizeWalletAddress(rawAddress: string): string | null {
+  try {
+    return toWalletAddressString(Address.parse(rawAddress.trim()));
+  } catch {
+    return null;
+  }
+}
+
+function toWalletAddressString(address: Address): string {
+  return address.toString({ bounceable: false, testOnly: false });
 }
 
 /**
@@ -0,0 +1,444 @@
+import { Address, beginCell, Cell, contractAddress, Dictionary, Message, Transaction, toNano } from '@ton/core';
+import { createHash } from 'crypto';
+import { BatchOutput, TonWalletService } from './wallet.service.js';
+
+const MNEMONIC = (
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon ' +
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art'
+);
+const RECIPIENT = 'EQDtFpEwcFAEcRe5mLVh2N6C0x-_hJEM7W61_JLnSF74p4q2';
+const NOW = 1_750_000_000;
+
+const JETTON_MASTER = Address.parse('EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs');
+const JETTON_WALLET = Address.parse('EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT');
+
+interface FakeChain {
+  seqno: number;
+  /** Newest first, like toncenter returns them */
+  transactions: Transaction[];
+  /** History of the platform's jetton wallet, newest first */
+  jettonTransactions?: Transaction[];
+  sent: Array<{ seqno: number; timeout?: number }>;
+}
+
+function output(id: string): BatchOutput {
+  return { id, toAddress: RECIPIENT, amount: '1', memo: `Withdrawal ${id}` };
+}
+
+function commentMessage(from: Address, memo: string): Message {
+  return {
+    info: {
+      type: 'internal',
+      ihrDisabled: true,
+      bounce: false,
+      bounced: false,
+      src: from,
+      dest: Address.parse(RECIPIENT),
+      value: { coins: toNano('1') },
+      ihrFee: 0n,
+      forwardFee: 0n,
+      createdLt: 0n,
+      createdAt: NOW,
+    },
+    init: null,
+    body: beginCell().storeUint(0, 32).storeStringTail(memo).endCell(),
+  };
+}
+
+// query_id the wallet gives the jetton transfer of an output
+function jettonQueryId(memo: string): bigint {
+  return BigInt('0x' + createHash('sha256').update(memo).digest('hex').slice(0, 16));
+}
+
+// Transfer request from the hot wallet to its jetton wallet
+function jettonTransferMessage(from: Address, memo: string): Message {
+  return {
+    ...commentMessage(from, memo),
+    info: { ...commentMessage(from, memo).info, dest: JETTON_WALLET } as Message['info'],
+    body: beginCell()
+      .storeUint(0x0f8a7ea5, 32)
+      .storeUint(jettonQueryId(memo), 64)
+      .storeCoins(1_000_000n)
+      .storeAddress(Address.parse(RECIPIENT))
+      .storeAddress(from)
+      .storeBit(0)
+      .storeCoins(1n)
+      .storeBit(1)
+      .storeRef(beginCell().storeUint(0, 32).storeStringTail(memo).endCell())
+      .endCell(),
+  };
+}
+
+/**
+ * Jetton wallet transaction processing a transfer request; a successful one
+ * passes the jettons on with an internal_transfer
+ */
+function jettonWalletTransaction(wallet: Address, lt: number, memo: string, aborted = false): Transaction {
+  const request = jettonTransferMessage(wallet, memo);
+  const out = Dictionary.empty<number, Message>();
+  if (!aborted) {
+    out.set(0, {
+      ...request,
+      info: { ...request.info, src: JETTON_WALLET, dest: Address.parse(RECIPIENT) } as Message['info'],
+      body: beginCell().storeUint(0x178d4519, 32).storeUint(jettonQueryId(memo), 64).endCell(),
+    });
+  }
+
+  return {
+    lt: BigInt(lt),
+    now: NOW,
+    inMessage: request,
+    outMessages: out,
+    description: { type: 'generic', aborted },
+    hash: () => Buffer.alloc(32, lt),
+  } as unknown as Transaction;
+}
+
+/**
+ * Wallet transaction of an owner-signed external message with the given seqno
+ */
+function signedTransaction(wallet: Address, lt: number, seqno: number, outMessages: Message[]): Transaction {
+  const out = Dictionary.empty<number, Message>();
+  outMessages.forEach((message, i) => out.set(i, message));
+
+  return {
+    lt: BigInt(lt),
+    now: NOW,
+    inMessage: {
+      info: { type: 'external-in', src: null, dest: wallet, importFee: 0n },
+      init: null,
+      body: beginCell()
+        .storeUint(0x7369676e, 32)
+        .storeUint(0, 32) // wallet_id
+        .storeUint(NOW + 60, 32) // valid_until
+        .storeUint(seqno, 32)
+        .endCell(),
+    },
+    outMessages: out,
+    description: { type: 'generic', aborted: false },
+    hash: () => Buffer.alloc(32, lt),
+  } as unknown as Transaction;
+}
+
+// A deposit or any other transaction not started by the owner
+function otherTransaction(lt: number): Transaction {
+  return {
+    lt: BigInt(lt),
+    now: NOW,
+    inMessage: null,
+    outMessages: Dictionary.empty<number, Message>(),
+    description: { type: 'generic', aborted: false },
+    hash: () => Buffer.alloc(32, lt),
+  } as unknown as Transaction;
+}
+
+// Replaces the toncenter client; sleeping moves the fake clock instead
+function useFakeChain(wallet: TonWalletService, chain: FakeChain): void {
+  const internals = wallet as unknown as { client: unknown; sleep: (ms: number) => Promise<void> };
+  internals.client = {
+    open: () => ({
+      getSeqno: async () => chain.seqno,
+      sendTransfer: async (args: { seqno: number; timeout?: number }) => {
+        chain.sent.push(args);
+      },
+    }),
+    getTransactions: async (address: Address, options: { limit: number; lt?: string }) =>
+      (address.equals(JETTON_WALLET) ? chain.jettonTransactions ?? [] : chain.transactions)
+        .filter((tx) => options.lt === undefined || tx.lt < BigInt(options.lt))
+        .slice(0, options.limit),
+  };
+  internals.sleep = async (ms) => {
+    jest.setSystemTime(Date.now() + ms);
+  };
+}
+
+describe('TonWalletService.sendBatch', () => {
+  let wallet: TonWalletService;
+  let address: Address;
+  let chain: FakeChain;
+
+  beforeAll(async () => {
+    wallet = new TonWalletService({
+      network: 'testnet',
+      mnemonic: MNEMONIC,
+      usdtJettonMaster: JETTON_MASTER.toString(),
+    });
+    address = await wallet.initialize();
+    (wallet as unknown as { usdtJettonWallet: Address }).usdtJettonWallet = JETTON_WALLET;
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW * 1000 });
+    chain = { seqno: 7, transactions: [], sent: [] };
+
+    useFakeChain(wallet, chain);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('signs the batch with the reserved seqno and expiry', async () => {
+    const reserved = await wallet.reserveBatchSeqno();
+    chain.transactions = [signedTransaction(address, 10, 7, [commentMessage(address, 'Withdrawal a')])];
+    const send = wallet.sendBatch([output('a')], reserved);
+    chain.seqno = 8;
+
+    const result = await send;
+
+    expect(reserved).toEqual({ seqno: 7, validUntil: NOW + 60 });
+    expect(chain.sent).toEqual([expect.objectContaining({ seqno: 7, timeout: NOW + 60 })]);
+    expect(result.status).toBe('settled');
+    expect(result.outputs).toEqual([expect.objectContaining({ id: 'a', status: 'sent' })]);
+  });
+
+  it('reads the outcome from the transaction of the seqno, however old', async () => {
+    // The batch's transaction is buried under a page of later ones
+    chain.seqno = 9;
+    chain.transactions = [
+      ...Array.from({ length: 150 }, (_, i) => otherTransaction(1000 - i)),
+      signedTransaction(address, 500, 8, [commentMessage(address, 'Withdrawal b')]),
+      signedTransaction(address, 400, 7, [commentMessage(address, 'Withdrawal a')]),
+    ];
+
+    const result = await wallet.sendBatch([output('a'), output('b')], { seqno: 7, validUntil: NOW + 60 });
+
+    expect(chain.sent).toHaveLength(0);
+    expect(result.status).toBe('settled');
+    expect(result.hash).toBe(Buffer.alloc(32, 400).toString('hex'));
+    expect(result.outputs).toEqual([
+      expect.objectContaining({ id: 'a', status: 'sent' }),
+      expect.objectContaining({ id: 'b', status: 'failed' }),
+    ]);
+  });
+
+  it('is not_sent when the seqno was used by another message', async () => {
+    chain.seqno = 8;
+    chain.transactions = [signedTransaction(address, 10, 7, [commentMessage(address, 'Refund x')])];
+
+    const result = await wallet.sendBatch([output('a')], { seqno: 7, validUntil: NOW + 60 });
+
+    expect(result.status).toBe('not_sent');
+  });
+
+  it('is pending when the seqno was used but its transaction is not found', async () => {
+    chain.seqno = 8;
+    chain.transactions = [signedTransaction(address, 10, 6, [])];
+
+    const result = await wallet.sendBatch([output('a')], { seqno: 7, validUntil: NOW + 60 });
+
+    expect(result.status).toBe('pending');
+    expect(result.outputs.every((o) => o.status === 'pending')).toBe(true);
+  });
+
+  it('is not_sent once an unused seqno expired', async () => {
+    const result = await wallet.sendBatch([output('a')], { seqno: 7, validUntil: NOW - 120 });
+
+    expect(chain.sent).toHaveLength(0);
+    expect(result.status).toBe('not_sent');
+  });
+
+  it('never treats an unused seqno 0 as expired, it is signed without expiry', async () => {
+    chain.seqno = 0;
+
+    const result = await wallet.sendBatch([output('a')], { seqno: 0, validUntil: NOW - 120 });
+
+    expect(result.status).toBe('pending');
+  });
+
+  describe('USDT outputs', () => {
+    const usdt = (id: string): BatchOutput => ({ ...output(id), currency: 'USDT' });
+
+    beforeEach(() => {
+      chain.seqno = 8;
+      chain.transactions = [
+        signedTransaction(address, 10, 7, [
+          commentMessage(address, 'Withdrawal a'),
+          jettonTransferMessage(address, 'Withdrawal u'),
+        ]),
+      ];
+    });
+
+    it('are sent once the jetton wallet passed the jettons on', async () => {
+      chain.jettonTransactions = [jettonWalletTransaction(address, 11, 'Withdrawal u')];
+
+      const result = await wallet.sendBatch([output('a'), usdt('u')], { seqno: 7, validUntil: NOW + 60 });
+
+      expect(result.status).toBe('settled');
+      expect(result.outputs.map((o) => o.status)).toEqual(['sent', 'sent']);
+    });
+
+    it('fail when the jetton wallet bounced the transfer', async () => {
+      chain.jettonTransactions = [jettonWalletTransaction(address, 11, 'Withdrawal u', true)];
+
+      const result = await wallet.sendBatch([output('a'), usdt('u')], { seqno: 7, validUntil: NOW + 60 });
+
+      expect(result.outputs).toEqual([
+        expect.objectContaining({ id: 'a', status: 'sent' }),
+        expect.objectContaining({ id: 'u', status: 'failed', error: 'Jetton transfer bounced' }),
+      ]);
+    });
+
+    it('stay pending until the jetton wallet processed the transfer', async () => {
+      // Older jetton wallet history only
+      chain.jettonTransactions = [jettonWalletTransaction(address, 9, 'Withdrawal u')];
+
+      const result = await wallet.sendBatch([output('a'), usdt('u')], { seqno: 7, validUntil: NOW + 60 });
+
+      expect(result.status).toBe('settled');
+      expect(result.outputs.map((o) => o.status)).toEqual(['sent', 'pending']);
+    });
+  });
+
+  it('settles outputs with invalid addresses without signing anything', async () => {
+    const result = await wallet.sendBatch(
+      [{ ...output('a'), toAddress: 'not an address' }],
+      { seqno: 7, validUntil: NOW + 60 },
+    );
+
+    expect(chain.sent).toHaveLength(0);
+    expect(result).toEqual({
+      status: 'settled',
+      outputs: [{ id: 'a', status: 'failed', error: 'Invalid address' }],
+    });
+  });
+
+  describe('deployContract', () => {
+    const init = { code: beginCell().storeUint(1, 8).endCell(), data: Cell.EMPTY };
+    const contract = { address: contractAddress(0, init), init };
+
+    // Deploy message of `contract` in a wallet transaction
+    const deployMessage = (): Message => {
+      const message = commentMessage(address, 'deploy');
+      return { ...message, info: { ...message.info, dest: contract.address } as Message['info'] };
+    };
+
+    it('is settled without sending again once its seqno carried the deploy', async () => {
+      chain.seqno = 8;
+      chain.transactions = [signedTransaction(address, 10, 7, [deployMessage()])];
+
+      const result = await wallet.deployContract(contract, '10.55', { seqno: 7, validUntil: NOW + 60 });
+
+      expect(chain.sent).toHaveLength(0);
+      expect(result).toEqual({ status: 'settled', hash: Buffer.alloc(32, 10).toString('hex') });
+    });
+
+    it('is not_sent when its seqno was used by another message', async () => {
+      chain.seqno = 8;
+      chain.transactions = [signedTransaction(address, 10, 7, [commentMessage(address, 'Withdrawal a')])];
+
+      const result = await wallet.deployContract(contract, '10.55', { seqno: 7, validUntil: NOW + 60 });
+
+      expect(chain.sent).toHaveLength(0);
+      expect(result.status).toBe('not_sent');
+    });
+  });
+});
+
+describe('TonWalletService.scanIncomingTransfers', () => {
+  const SENDER = Address.parse(RECIPIENT);
+
+  let wallet: TonWalletService;
+  let address: Address;
+  let chain: FakeChain;
+
+  function incoming(lt: number, from: Address, body: Cell, bounced = false): Transaction {
+    return {
+      lt: BigInt(lt),
+      now: NOW,
+      inMessage: {
+        info: {
+          type: 'internal',
+          ihrDisabled: true,
+          bounce: false,
+          bounced,
+          src: from,
+          dest: address,
+          value: { coins: toNano('0.5') },
+          ihrFee: 0n,
+          forwardFee: 0n,
+          createdLt: 0n,
+          createdAt: NOW,
+        },
+        init: null,
+        body,
+      },
+      outMessages: Dictionary.empty<number, Message>(),
+      description: { type: 'generic', aborted: false },
+      hash: () => Buffer.alloc(32, lt),
+    } as unknown as Transaction;
+  }
+
+  const comment = (text: string) => beginCell().storeUint(0, 32).storeStringTail(text).endCell();
+
+  // TEP-74 transfer_notification with the comment as forward payload
+  const notification = (units: bigint, text: string) =>
+    beginCell()
+      .storeUint(0x7362d09c, 32)
+      .storeUint(0, 64)
+      .storeCoins(units)
+      .storeAddress(SENDER)
+      .storeBit(1)
+      .storeRef(comment(text))
+      .endCell();
+
+  const excesses = () => beginCell().storeUint(0xd53276db, 32).storeUint(0, 64).endCell();
+
+  beforeAll(async () => {
+    wallet = new TonWalletService({
+      network: 'testnet',
+      mnemonic: MNEMONIC,
+      usdtJettonMaster: JETTON_MASTER.toString(),
+    });
+    address = await wallet.initialize();
+    (wallet as unknown as { usdtJettonWallet: Address }).usdtJettonWallet = JETTON_WALLET;
+  });
+
+  beforeEach(() => {
+    chain = { seqno: 7, transactions: [], sent: [] };
+    useFakeChain(wallet, chain);
+  });
+
+  const scan = async () => (await wallet.scanIncomingTransfers(null, { sinceTimestamp: 0 })).transfers;
+
+  it('returns TON transfers with and without a comment', async () => {
+    chain.transactions = [incoming(2, SENDER, beginCell().endCell()), incoming(1, SENDER, comment('DEP-1'))];
+
+    const transfers = await scan();
+
+    // Oldest first
+    expect(transfers.map((t) => [t.currency, t.amount, t.memo])).toEqual([
+      ['TON', '0.5', 'DEP-1'],
+      ['TON', '0.5', undefined],
+    ]);
+  });
+
+  it('returns USDT notified by the platform jetton wallet, from the original sender', async () => {
+    chain.transactions = [incoming(1, JETTON_WALLET, notification(2_500_000n, 'DEP-2'))];
+
+    const transfers = await scan();
+
+    expect(transfers).toEqual([
+      expect.objectContaining({ currency: 'USDT', amount: '2.5', memo: 'DEP-2', from: SENDER.toString() }),
+    ]);
+  });
+
+  it('ignores jetton excesses returned for our own transfers', async () => {
+    const recipientJettonWallet = Address.parse('EQBynBO23ywHy_CgarY9NK9FTz0yDsG82PtcbSTQgGoXwiuA');
+    chain.transactions = [incoming(2, recipientJettonWallet, excesses()), incoming(1, JETTON_WALLET, excesses())];
+
+    expect(await scan()).toEqual([]);
+  });
+
+  it('ignores transfer notifications not sent by the platform jetton wallet', async () => {
+    chain.transactions = [incoming(1, SENDER, notification(2_500_000n, 'DEP-2'))];
+
+    expect(await scan()).toEqual([]);
+  });
+
+  it('ignores bounced messages', async () => {
+    chain.transactions = [incoming(1, SENDER, comment('Withdrawal a'), true)];
+
+    expect(await scan()).toEqual([]);
+  });
+});
@@ -7,16 +7,44 @@ import {
   fromNano,
   Cell,
   SendMode,
+  MessageRelaxed,
+  beginCell,
+  storeMessage,
+  JettonMaster,
+  Slice,
+  Contract,
+  StateInit,
+  external,
+  Transaction,
 } from '@ton/ton';
 import { mnemonicToPrivateKey, mnemonicNew } from '@ton/crypto';
+import { createHash } from 'crypto';
 import { KeyPair } from '@ton/crypto';
 
 export interface WalletConfig {
   network: 'mainnet' | 'testnet';
   mnemonic: string;
   apiKey?: string;
+  /** USDT jetton master address; enables jetton deposits and withdrawals */
+  usdtJettonMaster?: string;
 }
 
+export type WalletCurrency = 'TON' | 'USDT';
+
+// USDT on TON uses 6 decimals
+const USDT_DECIMALS = 6;
+
+// TEP-74 jetton opcodes
+const JETTON_TRANSFER_OP = 0x0f8a7ea5;
+const JETTON_TRANSFER_NOTIFICATION_OP = 0x7362d09c;
+const JETTON_EXCESSES_OP = 0xd53276db;
+const JETTON_INTERNAL_TRANSFER_OP = 0x178d4519;
+
+// TON attached to an outgoing jetton transfer; the excess is returned to the wallet
+const JETTON_TRANSFER_VALUE = '0.05';
+// TON forwarded to the recipient so its wallet emits a transfer notification with the comment
+const JETTON_FORWARD_VALUE = 1n;
+
 export interface TransactionInfo {
   hash: string;
   lt: string;
@@ -28,12 +56,123 @@ export interface TransactionInfo {
   success: boolean;
 }
 
+/**
+ * Incoming TON or USDT transfer found by scanIncomingTransfers
+ */
+export interface IncomingTransfer extends TransactionInfo {
+  currency: WalletCurrency;
+  /** The wallet rejected the message and its value went back to the sender */
+  bounced: boolean;
+}
+
+/**
+ * Position in the wallet's transaction history (the last processed transaction)
+ */
+export interface TransactionCursor {
+  lt: string;
+  hash: string;
+}
+
+export interface TransactionScanResult {
+  /** Oldest first */
+  transfers: IncomingTransfer[];
+  /** Newest transaction seen; pass it to the next scan */
+  cursor: TransactionCursor | null;
+  /** false when maxPages was reached before the previous cursor */
+  complete: boolean;
+}
+
+// Page size of getTransactions in scanIncomingTransfers
+const SCAN_PAGE_SIZE = 100;
+
 export interface SendResult {
   success: boolean;
   hash?: string;
   error?: string;
 }
 
+/**
+ * Wallet V5R1 accepts up to 255 out actions per external message
+ */
+export const MAX_BATCH_OUTPUTS = 255;
+
+export interface BatchOutput {
+  /** Caller's identifier for the output (e.g. Transaction id) */
+  id: string;
+  toAddress: string;
+  amount: string;
+  /** Comment attached to the message; must be unique within the batch */
+  memo: string;
+  /** USDT outputs are sent as jetton transfers (default TON) */
+  currency?: WalletCurrency;
+}
+
+/**
+ * sent: left the wallet (USDT: our jetton wallet passed the jettons on)
+ * failed: provably not paid; skipped by the wallet or the jetton transfer bounced
+ * pending: not known yet; must not be refunded
+ */
+export type BatchOutputStatus = 'sent' | 'failed' | 'pending';
+
+export interface BatchOutputResult {
+  id: string;
+  status: BatchOutputStatus;
+  messageHash?: string;
+  error?: string;
+}
+
+/**
+ * Seqno and expiry a batch is signed with. Store both before sending: they
+ * are what tells later whether the wallet accepted the batch.
+ */
+export interface BatchSeqno {
+  seqno: number;
+  /** Unix time after which the wallet rejects the message */
+  validUntil: number;
+}
+
+/**
+ * settled: the wallet transaction of the seqno was found; see each output
+ * not_sent: nothing left the wallet; sign the outputs again with a new seqno
+ * pending: the outcome is not known yet; nothing may be refunded
+ */
+export type BatchSendStatus = 'settled' | 'not_sent' | 'pending';
+
+export interface BatchSendResult {
+  status: BatchSendStatus;
+  /** Wallet transaction that consumed the seqno */
+  hash?: string;
+  /** Per-output results, meaningful only when settled */
+  outputs: BatchOutputResult[];
+  error?: string;
+}
+
+/**
+ * Outcome of a contract deploy signed with a reserved seqno, in the terms of
+ * BatchSendStatus: settled means the deploy message left the wallet
+ */
+export interface DeployResult {
+  status: BatchSendStatus;
+  /** Wallet transaction that consumed the seqno */
+  hash?: string;
+  error?: string;
+}
+
+// Outcome of signing messages with a reserved seqno
+type ReservedSendResult =
+  | { status: 'settled'; tx: Transaction }
+  | { status: 'not_sent' | 'pending'; error?: string };
+
+// Lifetime of a signed batch; after it (plus the margin) an unused seqno proves nothing was sent
+const BATCH_MESSAGE_TTL = 60;
+// Allowance for clock drift between us and the chain, and for indexer lag
+const BATCH_EXPIRY_MARGIN = 30;
+// Pages of SCAN_PAGE_SIZE transactions searched for the transaction of a seqno
+const SEQNO_LOOKUP_MAX_PAGES = 20;
+
+// Wallet V5R1 op of an external message signed by the owner
+const WALLET_SIGNED_EXTERNAL_OP = 0x7369676e;
+
 export class TonWalletService {
   private client: TonClient;
   private wallet: WalletContractV5R1 | null = null;
@@ -41,9 +180,14 @@ export class TonWalletService {
   private walletAddress: Address | null = null;
   private network: 'mainnet' | 'testnet';
   private initialized = false;
+  private usdtJettonMaster: Address | null;
+  private usdtJettonWallet: Address | null = null;
 
   constructor(config: WalletConfig) {
     this.network = config.network;
+    this.usdtJettonMaster = config.usdtJettonMaster
+      ? Address.parse(config.usdtJettonMaster)
+      : null;
 
     const endpoint =
       config.network === 'mainnet'
@@ -117,6 +261,28 @@ export class TonWalletService {
     return fromNano(balance);
   }
 
+  hasJettonSupport(): boolean {
+    return this.usdtJettonMaster !== null;
+  }
+
+  /**
+   * Address of the platform's own USDT jetton wallet, resolved once from
+   * the jetton master. Incoming USDT arrives as transfer notifications from
+   * this wallet; outgoing USDT is sent by messaging it.
+   */
+  async getJettonWalletAddress(): Promise<Address> {
+    if (!this.usdtJettonMaster) {
+      throw new Error('USDT jetton master not configured');
+    }
+
+    if (!this.usdtJettonWallet) {
+      const master = this.client.open(JettonMaster.create(this.usdtJettonMaster));
+      this.usdtJettonWallet = await master.getWalletAddress(this.getAddress());
+    }
+
+    return this.usdtJettonWallet;
+  }
+
   async sendTon(
     toAddress: string,
     amount: string,
@@ -167,18 +333,361 @@ export class TonWalletService {
     }
   }
 
-  private async getSeqno(): Promise<number> {
-    if (!this.wallet) {
+  /**
+   * Deploys a contract by sending `amount` with its StateInit attached,
+   * signed with a seqno from reserveBatchSeqno. Like sendBatch, calling it
+   * again with the same seqno never sends the value twice. Messages to an
+   * already deployed contract simply top it up.
+   */
+  async deployContract(
+    contract: Contract & { init?: StateInit | null },
+    amount: string,
+    reserved: BatchSeqno
+  ): Promise<DeployResult> {
+    if (!this.wallet || !this.keyPair) {
       throw new Error('Wallet not initialized');
     }
+    if (!contract.init) {
+      throw new Error('Contract has no StateInit');
+    }
 
-    const contract = this.client.open(this.wallet);
+    try {
+      const sent = await this.sendReserved(
+        [
+          internal({
+            to: contract.address,
+            value: toNano(amount),
+            init: contract.init,
+            bounce: false,
+          }),
+        ],
+        reserved,
+      );
+
+      if (sent.status !== 'settled') {
+        return sent;
+      }
+
+      // The seqno was used by another message, or the wallet skipped the deploy
+      const deployed = [...sent.tx.outMessages.values()].some(
+        (m) => m.info.type === 'internal' && m.info.dest.equals(contract.address),
+      );
+      if (!deployed) {
+        return { status: 'not_sent' };
+      }
+
+      return { status: 'settled', hash: sent.tx.hash().toString('hex') };
+    } catch (error) {
+      return { status: 'pending', error: error instanceof Error ? error.message : 'Deploy failed' };
+    }
+  }
+
+  async getContractState(address: string): Promise<{ active: boolean; balance: string }> {
+    const state = await this.client.getContractState(Address.parse(address));
+    return { active: state.state === 'active', balance: fromNano(state.balance) };
+  }
+
+  /**
+   * Sends an external message to a contract; it pays its own gas
+   */
+  async sendExternalMessage(address: string, body: Cell): Promise<void> {
+    const message = external({ to: Address.parse(address), body });
+    await this.client.sendFile(beginCell().store(storeMessage(message)).endCell().toBoc());
+  }
+
+  /**
+   * Reserves the seqno and expiry of the next batch. The caller stores them
+   * before calling sendBatch, so that a batch interrupted at any point can be
+   * resolved instead of being sent again or refunded blindly.
+   */
+  async reserveBatchSeqno(): Promise<BatchSeqno> {
+    return {
+      seqno: await this.getSeqno(),
+      validUntil: Math.floor(Date.now() / 1000) + BATCH_MESSAGE_TTL,
+    };
+  }
+
+  /**
+   * Sends several transfers in a single external message (one seqno round-trip)
+   * signed with a reserved seqno. Calling it again with the same seqno is safe:
+   * the wallet accepts a seqno only once, and once it is used the outcome is
+   * read from the wallet transaction that consumed it. Each output is matched
+   * by its memo against that transaction's outgoing messages; outputs skipped
+   * by the wallet (IGNORE_ERRORS) come back failed. USDT outputs are sent only
+   * once our jetton wallet processed the transfer request without bouncing.
+   */
+  async sendBatch(outputs: BatchOutput[], reserved: BatchSeqno): Promise<BatchSendResult> {
+    if (!this.wallet || !this.keyPair) {
+      throw new Error('Wallet not initialized');
+    }
+
+    if (outputs.length > MAX_BATCH_OUTPUTS) {
+      throw new Error(`Batch exceeds ${MAX_BATCH_OUTPUTS} outputs`);
+    }
+
+    const results = new Map<string, BatchOutputResult>();
+    const messages: MessageRelaxed[] = [];
+    const unresolved = (status: 'not_sent' | 'pending', error?: string): BatchSendResult => ({
+      status,
+      outputs: outputs.map((o) => results.get(o.id) ?? { id: o.id, status: status === 'not_sent' ? 'failed' : 'pending' }),
+      ...(error !== undefined && { error }),
+    });
 
     try {
-      return await contract.getSeqno();
-    } catch {
-      return 0;
+      for (const output of outputs) {
+        let destination: Address;
+        try {
+          destination = Address.parse(output.toAddress);
+        } catch {
+          results.set(output.id, { id: output.id, status: 'failed', error: 'Invalid address' });
+          continue;
+        }
+
+        const comment = new Cell().asBuilder();
+        comment.storeUint(0, 32); // op = 0 for comment
+        comment.storeStringTail(output.memo);
+
+        if (output.currency === 'USDT') {
+          messages.push(
+            internal({
+              to: await this.getJettonWalletAddress(),
+              value: toNano(JETTON_TRANSFER_VALUE),
+              body: this.buildJettonTransferBody(
+                jettonQueryId(output.memo),
+                destination,
+                toUnits(output.amount, USDT_DECIMALS),
+                comment.endCell(),
+              ),
+              bounce: true,
+            }),
+          );
+          continue;
+        }
+
+        messages.push(
+          internal({
+            to: destination,
+            value: toNano(output.amount),
+            body: comment.endCell(),
+            bounce: false,
+          }),
+        );
+      }
+
+      // Nothing to sign, so nothing can have been sent
+      if (messages.length === 0) {
+        return { status: 'settled', outputs: outputs.map((o) => results.get(o.id)!) };
+      }
+
+      const sent = await this.sendReserved(messages, reserved);
+      if (sent.status !== 'settled') {
+        return unresolved(sent.status, sent.error);
+      }
+      const tx = sent.tx;
+
+      const found = findOutgoingMessages(
+        tx,
+        new Set(outputs.filter((o) => !results.has(o.id)).map((o) => o.memo)),
+      );
+
+      // The seqno was used by another message, or the wallet skipped every output
+      if (found.size === 0) {
+        return unresolved('not_sent');
+      }
+
+      const jettonTransfers = outputs.some((o) => o.currency === 'USDT' && found.has(o.memo))
+        ? await this.findJettonTransfers(tx)
+        : new Map<bigint, boolean>();
+
+      for (const output of outputs) {
+        if (results.has(output.id)) continue;
+
+        const messageHash = found.get(output.memo);
+        if (!messageHash) {
+          results.set(output.id, { id: output.id, status: 'failed', error: 'Output was not sent by the wallet' });
+          continue;
+        }
+
+        // A USDT output only left when our jetton wallet passed the jettons on
+        const jettonsSent = output.currency === 'USDT'
+          ? jettonTransfers.get(jettonQueryId(output.memo))
+          : true;
+
+        if (jettonsSent === undefined) {
+          results.set(output.id, { id: output.id, status: 'pending', messageHash, error: 'Jetton transfer not processed yet' });
+        } else if (jettonsSent) {
+          results.set(output.id, { id: output.id, status: 'sent', messageHash });
+        } else {
+          results.set(output.id, { id: output.id, status: 'failed', messageHash, error: 'Jetton transfer bounced' });
+        }
+      }
+
+      return {
+        status: 'settled',
+        hash: tx.hash().toString('hex'),
+        outputs: outputs.map((o) => results.get(o.id)!),
+      };
+    } catch (error) {
+      return unresolved('pending', error instanceof Error ? error.message : 'Batch send failed');
+    }
+  }
+
+  /**
+   * Signs `messages` with a reserved seqno and sends them while the seqno is
+   * unused and the message valid, then resolves the wallet transaction that
+   * consumed the seqno. It may have been consumed by another message: the
+   * caller checks the transaction for its own messages.
+   */
+  private async sendReserved(messages: MessageRelaxed[], reserved: BatchSeqno): Promise<ReservedSendResult> {
+    if (!this.wallet || !this.keyPair) {
+      throw new Error('Wallet not initialized');
+    }
+
+    let currentSeqno = await this.getSeqno();
+
+    if (currentSeqno < reserved.seqno) {
+      return { status: 'pending', error: `Wallet seqno ${currentSeqno} is behind seqno ${reserved.seqno}` };
+    }
+
+    if (currentSeqno === reserved.seqno) {
+      if (Math.floor(Date.now() / 1000) < reserved.validUntil) {
+        const contract = this.client.open(this.wallet);
+
+        await contract.sendTransfer({
+          seqno: reserved.seqno,
+          timeout: reserved.validUntil,
+          secretKey: this.keyPair.secretKey,
+          messages,
+          sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+        });
+      }
+
+      currentSeqno = await this.waitForSeqnoAfter(
+        reserved.seqno,
+        reserved.validUntil + BATCH_EXPIRY_MARGIN,
+      );
+
+      if (currentSeqno === reserved.seqno) {
+        // Seqno 0 is signed without an expiry, so it never proves anything
+        return reserved.seqno > 0 && Math.floor(Date.now() / 1000) > reserved.validUntil + BATCH_EXPIRY_MARGIN
+          ? { status: 'not_sent' }
+          : { status: 'pending', error: 'Message not confirmed yet' };
+      }
+    }
+
+    const tx = await this.findSeqnoTransaction(reserved);
+    if (!tx) {
+      return { status: 'pending', error: `Transaction of seqno ${reserved.seqno} not found` };
+    }
+
+    return { status: 'settled', tx };
+  }
+
+  /**
+   * Walks the wallet's history back to the transaction of the external
+   * message signed with the given seqno. Seqnos only grow, and the message
+   * cannot have been accepted before it was signed, which bounds the search.
+   */
+  private async findSeqnoTransaction(reserved: BatchSeqno): Promise<Transaction | null> {
+    const notBefore = reserved.validUntil - BATCH_MESSAGE_TTL - BATCH_EXPIRY_MARGIN;
+    let page: { lt: string; hash: string } | undefined;
+
+    for (let i = 0; i < SEQNO_LOOKUP_MAX_PAGES; i++) {
+      const transactions = await this.client.getTransactions(this.getAddress(), {
+        limit: SCAN_PAGE_SIZE,
+        ...(page && { lt: page.lt, hash: page.hash, inclusive: false }),
+        archival: true,
+      });
+
+      for (const tx of transactions) {
+        const seqno = parseSignedSeqno(tx);
+        if (seqno === reserved.seqno) {
+          return tx;
+        }
+        if ((seqno !== null && seqno < reserved.seqno) || tx.now < notBefore) {
+          return null;
+        }
+
+        page = { lt: tx.lt.toString(), hash: tx.hash().toString('base64') };
+      }
+
+      if (transactions.length < SCAN_PAGE_SIZE) {
+        return null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Transfer requests our jetton wallet processed after the wallet
+   * transaction `sentIn`, by query_id: true if it passed the jettons on,
+   * false if it bounced the request.
+   */
+  private async findJettonTransfers(sentIn: Transaction): Promise<Map<bigint, boolean>> {
+    const jettonWallet = await this.getJettonWalletAddress();
+    const transfers = new Map<bigint, boolean>();
+    let page: { lt: string; hash: string } | undefined;
+
+    for (let i = 0; i < SEQNO_LOOKUP_MAX_PAGES; i++) {
+      const transactions = await this.client.getTransactions(jettonWallet, {
+        limit: SCAN_PAGE_SIZE,
+        ...(page && { lt: page.lt, hash: page.hash, inclusive: false }),
+        archival: true,
+      });
+
+      for (const tx of transactions) {
+        if (tx.lt <= sentIn.lt) {
+          return transfers;
+        }
+        page = { lt: tx.lt.toString(), hash: tx.hash().toString('base64') };
+
+        const inMsg = tx.inMessage;
+        if (inMsg?.info.type !== 'internal' || !inMsg.info.src.equals(this.getAddress())) continue;
+
+        const queryId = parseJettonTransferQueryId(inMsg.body);
+        if (queryId === null) continue;
+
+        const passedOn = tx.description.type === 'generic'
+          && !tx.description.aborted
+          && [...tx.outMessages.values()].some((m) => parseOp(m.body) === JETTON_INTERNAL_TRANSFER_OP);
+        transfers.set(queryId, passedOn);
+      }
+
+      if (transactions.length < SCAN_PAGE_SIZE) {
+        break;
+      }
     }
+
+    return transfers;
+  }
+
+  /**
+   * TEP-74 transfer request to our jetton wallet. Excess TON is returned to
+   * the hot wallet; the comment travels to the recipient as forward payload.
+   * The query_id lets the request be found in the jetton wallet's history.
+   */
+  private buildJettonTransferBody(queryId: bigint, destination: Address, amount: bigint, comment: Cell): Cell {
+    return beginCell()
+      .storeUint(JETTON_TRANSFER_OP, 32)
+      .storeUint(queryId, 64)
+      .storeCoins(amount)
+      .storeAddress(destination)
+      .storeAddress(this.getAddress()) // response_destination
+      .storeBit(0) // no custom_payload
+      .storeCoins(JETTON_FORWARD_VALUE)
+      .storeBit(1) // forward_payload in ref
+      .storeRef(comment)
+      .endCell();
+  }
+
+  async getSeqno(): Promise<number> {
+    if (!this.wallet) {
+      throw new Error('Wallet not initialized');
+    }
+
+    const contract = this.client.open(this.wallet);
+    return contract.getSeqno();
   }
 
   private async waitForSeqnoChange(
@@ -187,7 +696,7 @@ export class TonWalletService {
   ): Promise<string> {
     for (let i = 0; i < maxAttempts; i++) {
       await this.sleep(2000);
-      const newSeqno = await this.getSeqno();
+      const newSeqno = await this.getSeqno().catch(() => currentSeqno);
       if (newSeqno > currentSeqno) {
         // Get last transaction hash
         const transactions = await this.getTransactions(1);
@@ -197,6 +706,24 @@ export class TonWalletService {
     throw new Error('Transaction confirmation timeout');
   }
 
+  /**
+   * Polls the wallet seqno until it moves past `seqno` or `deadline` (unix
+   * time) passes; returns the last seqno read.
+   */
+  private async waitForSeqnoAfter(seqno: number, deadline: number): Promise<number> {
+    let current = seqno;
+
+    while (Math.floor(Date.now() / 1000) <= deadline) {
+      await this.sleep(2000);
+      current = await this.getSeqno().catch(() => current);
+      if (current > seqno) {
+        break;
+      }
+    }
+
+    return current;
+  }
+
   async getTransactions(limit: number = 10): Promise<TransactionInfo[]> {
     const transactions = await this.client.getTransactions(
       this.getAddress(),
@@ -246,11 +773,197 @@ export class TonWalletService {
     });
   }
 
+  /**
+   * Incoming USDT transfers, i.e. transfer notifications sent to the hot
+   * wallet by its own jetton wallet. Notifications from any other address
+   * are ignored since anyone can forge them. The memo is the comment in
+   * the forward payload; amount is in USDT.
+   */
+  async getJettonTransfers(limit: number = 10): Promise<TransactionInfo[]> {
+    const jettonWallet = await this.getJettonWalletAddress();
+    const transactions = await this.client.getTransactions(
+      this.getAddress(),
+      { limit }
+    );
+    const transfers: TransactionInfo[] = [];
+
+    for (const tx of transactions) {
+      const inMsg = tx.inMessage;
+      if (inMsg?.info.type !== 'internal' || !inMsg.info.src.equals(jettonWallet)) {
+        continue;
+      }
+
+      try {
+        const slice = inMsg.body.beginParse();
+        if (slice.loadUint(32) !== JETTON_TRANSFER_NOTIFICATION_OP) {
+          continue;
+        }
+        slice.loadUintBig(64); // query_id
+        const amount = slice.loadCoins();
+        const sender = slice.loadAddress();
+        const memo = parseForwardComment(slice);
+
+        const result: TransactionInfo = {
+          hash: tx.hash().toString('hex'),
+          lt: tx.lt.toString(),
+          from: sender.toString(),
+          to: this.getAddressString(),
+          amount: fromUnits(amount, USDT_DECIMALS),
+          timestamp: tx.now,
+          success: tx.description.type === 'generic',
+        };
+
+        if (memo !== undefined) {
+          result.memo = memo;
+        }
+
+        transfers.push(result);
+      } catch {
+        // Malformed notification
+      }
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Walks the wallet's history back from the newest transaction to `after`
+   * and returns the incoming TON and USDT transfers in between. Unlike
+   * getTransactions(limit) nothing is skipped when many transactions arrive
+   * between two scans. Without `after`, scanning stops at `sinceTimestamp`.
+   */
+  async scanIncomingTransfers(
+    after: TransactionCursor | null,
+    options: { sinceTimestamp?: number; maxPages?: number } = {}
+  ): Promise<TransactionScanResult> {
+    const maxPages = options.maxPages ?? 50;
+    const jettonWallet = this.usdtJettonMaster ? await this.getJettonWalletAddress() : null;
+    const transfers: IncomingTransfer[] = [];
+    let cursor: TransactionCursor | null = null;
+    let page: { lt: string; hash: string } | undefined;
+
+    for (let i = 0; i < maxPages; i++) {
+      const transactions = await this.client.getTransactions(this.getAddress(), {
+        limit: SCAN_PAGE_SIZE,
+        ...(page && { lt: page.lt, hash: page.hash, inclusive: false }),
+        ...(after && { to_lt: after.lt }),
+        archival: true,
+      });
+
+      for (const tx of transactions) {
+        const lt = tx.lt.toString();
+        const hash = tx.hash().toString('hex');
+
+        if (after && (BigInt(lt) < BigInt(after.lt) || (lt === after.lt && hash === after.hash))) {
+          return { transfers: transfers.reverse(), cursor: cursor ?? after, complete: true };
+        }
+        if (!after && options.sinceTimestamp !== undefined && tx.now < options.sinceTimestamp) {
+          return { transfers: transfers.reverse(), cursor, complete: true };
+        }
+
+        cursor ??= { lt, hash };
+        page = { lt, hash: tx.hash().toString('base64') };
+
+        const transfer = this.parseIncomingTransfer(tx, jettonWallet);
+        if (transfer) {
+          transfers.push(transfer);
+        }
+      }
+
+      if (transactions.length < SCAN_PAGE_SIZE) {
+        return { transfers: transfers.reverse(), cursor: cursor ?? after, complete: true };
+      }
+    }
+
+    return { transfers: transfers.reverse(), cursor: cursor ?? after, complete: false };
+  }
+
+  /**
+   * TON with a comment, or a USDT transfer notification from the wallet's own
+   * jetton wallet. Bounced messages (returned outgoing transfers), excesses
+   * of our own jetton transfers and notifications from foreign jetton wallets
+   * are not incoming transfers.
+   */
+  private parseIncomingTransfer(tx: Transaction, jettonWallet: Address | null): IncomingTransfer | null {
+    const inMsg = tx.inMessage;
+    if (inMsg?.info.type !== 'internal' || inMsg.info.bounced) {
+      return null;
+    }
+
+    const description = tx.description;
+    const base = {
+      hash: tx.hash().toString('hex'),
+      lt: tx.lt.toString(),
+      to: this.getAddressString(),
+      timestamp: tx.now,
+      success: description.type === 'generic' && !description.aborted,
+    };
+
+    let memo: string | undefined;
+
+    if (jettonWallet && inMsg.info.src.equals(jettonWallet)) {
+      try {
+        const slice = inMsg.body.beginParse();
+        if (slice.loadUint(32) !== JETTON_TRANSFER_NOTIFICATION_OP) {
+          return null;
+        }
+        slice.loadUintBig(64); // query_id
+        const amount = slice.loadCoins();
+        const sender = slice.loadAddress();
+        memo = parseForwardComment(slice);
+
+        // Jettons are already in the jetton wallet, even if this transaction failed
+        const transfer: IncomingTransfer = {
+          ...base,
+          from: sender.toString(),
+          amount: fromUnits(amount, USDT_DECIMALS),
+          currency: 'USDT',
+          bounced: false,
+        };
+        if (memo !== undefined) {
+          transfer.memo = memo;
+        }
+        return transfer;
+      } catch {
+        // Malformed notification
+        return null;
+      }
+    }
+
+    try {
+      const slice = inMsg.body.beginParse();
+      const op = slice.remainingBits >= 32 ? slice.loadUint(32) : null;
+      if (op === JETTON_EXCESSES_OP || op === JETTON_TRANSFER_NOTIFICATION_OP) {
+        return null;
+      }
+      if (op === 0) {
+        memo = slice.loadStringTail();
+      }
+    } catch {
+      // No valid memo
+    }
+
+    const transfer: IncomingTransfer = {
+      ...base,
+      from: inMsg.info.src.toString(),
+      amount: fromNano(inMsg.info.value.coins),
+      currency: 'TON',
+      bounced: description.type === 'generic' && description.aborted && description.bouncePhase?.type === 'ok',
+    };
+    if (memo !== undefined) {
+      transfer.memo = memo;
+    }
+    return transfer;
+  }
+
   async findTransactionByMemo(
     memo: string,
-    sinceTimestamp: number
+    sinceTimestamp: number,
+    currency: WalletCurrency = 'TON'
   ): Promise<TransactionInfo | null> {
-    const transactions = await this.getTransactions(50);
+    const transactions = currency === 'USDT'
+      ? await this.getJettonTransfers(50)
+      : await this.getTransactions(50);
 
     for (const tx of transactions) {
       if (tx.timestamp < sinceTimestamp) {
@@ -267,30 +980,24 @@ export class TonWalletService {
   async verifyDeposit(
     expectedMemo: string,
     expectedAmount: string,
-    sinceTimestamp: number
+    sinceTimestamp: number,
+    currency: WalletCurrency = 'TON'
   ): Promise<{ found: boolean; transaction?: TransactionInfo }> {
-    const tx = await this.findTransactionByMemo(expectedMemo, sinceTimestamp);
+    const tx = await this.findTransactionByMemo(expectedMemo, sinceTimestamp, currency);
 
     if (!tx) {
       return { found: false };
     }
 
-    // Use BigInt for precise financial calculations (amounts in nano)
-    // Convert from TON to nanoTON (multiply by 10^9)
-    const toNanoSafe = (ton: string): bigint => {
-      const parts = ton.split('.');
-      const whole = parts[0] || '0';
-      const frac = (parts[1] || '').padEnd(9, '0').slice(0, 9);
-      return BigInt(whole) * BigInt(1_000_000_000) + BigInt(frac);
-    };
-
-    const receivedNano = toNanoSafe(tx.amount);
-    const expectedNano = toNanoSafe(expectedAmount);
+    // Use BigInt for precise financial calculations (amounts in base units)
+    const decimals = currency === 'USDT' ? USDT_DECIMALS : 9;
+    const receivedUnits = toUnits(tx.amount, decimals);
+    const expectedUnits = toUnits(expectedAmount, decimals);
 
     // Allow 1% tolerance for fees (99% of expected amount)
-    const minRequired = (expectedNano * BigInt(99)) / BigInt(100);
+    const minRequired = (expectedUnits * BigInt(99)) / BigInt(100);
 
-    if (receivedNano >= minRequired) {
+    if (receivedUnits >= minRequired) {
       return { found: true, transaction: tx };
     }
 
@@ -328,3 +1035,114 @@ export class TonWalletService {
     });
   }
 }
+
+/**
+ * Seqno of the owner-signed external message a wallet transaction processed,
+ * or null for any other transaction
+ */
+function parseSignedSeqno(tx: Transaction): number | null {
+  const inMsg = tx.inMessage;
+  if (inMsg?.info.type !== 'external-in') {
+    return null;
+  }
+
+  try {
+    const slice = inMsg.body.beginParse();
+    if (slice.loadUint(32) !== WALLET_SIGNED_EXTERNAL_OP) {
+      return null;
+    }
+    slice.loadUint(32); // wallet_id
+    slice.loadUint(32); // valid_until
+    return slice.loadUint(32);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Non-zero query_id of the jetton transfer carrying the memo; memos are unique
+ * per output, so it identifies the transfer in the jetton wallet's history
+ */
+function jettonQueryId(memo: string): bigint {
+  const id = BigInt('0x' + createHash('sha256').update(memo).digest('hex').slice(0, 16));
+  return id === 0n ? 1n : id;
+}
+
+function parseOp(body: Cell): number | null {
+  const slice = body.beginParse();
+  return slice.remainingBits >= 32 ? slice.loadUint(32) : null;
+}
+
+function parseJettonTransferQueryId(body: Cell): bigint | null {
+  const slice = body.beginParse();
+  if (slice.remainingBits < 96 || slice.loadUint(32) !== JETTON_TRANSFER_OP) {
+    return null;
+  }
+  return slice.loadUintBig(64);
+}
+
+/**
+ * Outgoing comment messages of a wallet transaction, including comments
+ * carried by outgoing jetton transfers. Returns memo → message hash.
+ */
+function findOutgoingMessages(tx: Transaction, memos: Set<string>): Map<string, string> {
+  const found = new Map<string, string>();
+
+  for (const message of tx.outMessages.values()) {
+    if (message.info.type !== 'internal') continue;
+
+    let memo: string | undefined;
+    try {
+      const slice = message.body.beginParse();
+      const op = slice.loadUint(32);
+      if (op === 0) {
+        memo = slice.loadStringTail();
+      } else if (op === JETTON_TRANSFER_OP) {
+        slice.loadUintBig(64); // query_id
+        slice.loadCoins();
+        slice.loadAddress(); // destination
+        slice.loadMaybeAddress(); // response_destination
+        slice.loadMaybeRef(); // custom_payload
+        slice.loadCoins(); // forward_ton_amount
+        memo = parseForwardComment(slice);
+      }
+    } catch {
+      // Not a comment
+    }
+
+    if (memo !== undefined && memos.has(memo) && !found.has(memo)) {
+      found.set(memo, beginCell().store(storeMessage(message)).endCell().hash().toString('hex'));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Reads a TEP-74 forward_payload (Either Cell ^Cell) and returns its text
+ * comment, if it is one.
+ */
+function parseForwardComment(slice: Slice): string | undefined {
+  const payload = slice.loadBit() ? slice.loadRef().beginParse() : slice;
+  if (payload.remainingBits < 32 || payload.loadUint(32) !== 0) {
+    return undefined;
+  }
+  return payload.loadStringTail();
+}
+
+/**
+ * Converts a decimal string into integer base units (e.g. "1.5" USDT → 1500000n)
+ */
+function toUnits(amount: string, decimals: number): bigint {
+  const parts = amount.split('.');
+  const whole = parts[0] || '0';
+  const frac = (parts[1] || '').padEnd(decimals, '0').slice(0, decimals);
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(frac || '0');
+}
+
+function fromUnits(units: bigint, decimals: number): string {
+  const base = 10n ** BigInt(decimals);
+  const whole = units / base;
+  const frac = (units % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return frac ? `${whole}.${frac}` : whole.toString();
+}